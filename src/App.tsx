@@ -11,7 +11,9 @@ import { TRAINING_MODES, EAR_TRAINING_SUB_MODES } from './constants'
 import type { GuessAttempt } from './types/game'
 import type { GameStateUpdateData } from './components/NoteIdentification'
 import { MidiManager } from './services/MidiManager'
+import { audioEngine } from './utils/audioEngine'
 import { MidiDisconnectionHandler } from './components/MidiDisconnectionHandler'
+import { useMidiActions } from './hooks/useMidiActions'
 import './App.css'
 
 // Main app content component that can access settings context
@@ -66,6 +68,72 @@ function AppContent() {
     }
   }, [midiReady, settings.audio.midiDeviceId, updateAudioSettings, commitPendingSettings])
 
+  // Apply the channel filter and pedal handling to MIDI input
+  useEffect(() => {
+    MidiManager.getInstance().setInputOptions({
+      channel: settings.audio.midiInput.channel,
+      pedals: settings.audio.midiInput.pedals
+    })
+  }, [settings.audio.midiInput.channel, settings.audio.midiInput.pedals])
+
+  // Map controller buttons, pads and pedals to game actions
+  useEffect(() => {
+    MidiManager.getInstance().setActionBindings(settings.audio.midiInput.bindings)
+  }, [settings.audio.midiInput.bindings])
+
+  // Listen to the extra MIDI inputs alongside the main one, including ones plugged in later
+  useEffect(() => {
+    if (!midiReady) return
+
+    const midiManager = MidiManager.getInstance()
+    const extraDeviceIds = settings.audio.midiInput.extraDeviceIds
+
+    const syncExtraInputs = () => {
+      const mainDeviceId = midiManager.getSelectedDevice()?.id
+
+      midiManager.getSelectedDevices()
+        .filter(device => device.id !== mainDeviceId && !extraDeviceIds.includes(device.id))
+        .forEach(device => midiManager.removeInputDevice(device.id))
+
+      midiManager.getAvailableInputs()
+        .filter(device => extraDeviceIds.includes(device.id) && device.id !== mainDeviceId && device.state === 'connected')
+        .forEach(device => {
+          midiManager.addInputDevice(device.id)
+            .catch(error => console.error('Failed to add MIDI input:', error))
+        })
+    }
+
+    syncExtraInputs()
+    midiManager.on('deviceConnected', syncExtraInputs)
+
+    return () => {
+      midiManager.off('deviceConnected', syncExtraInputs)
+    }
+  }, [midiReady, settings.audio.midiInput.extraDeviceIds])
+
+  // Route exercise playback to the built-in instruments and/or the MIDI output
+  useEffect(() => {
+    audioEngine.setOutputMode(settings.audio.output)
+    audioEngine.setMidiOutputSettings(settings.audio.midiOutput)
+  }, [settings.audio.output, settings.audio.midiOutput])
+
+  // Reconnect to the saved MIDI output once MIDI is ready
+  useEffect(() => {
+    if (!midiReady) return
+
+    const midiManager = MidiManager.getInstance()
+    const savedOutputId = settings.audio.midiOutput.deviceId
+    const savedOutput = midiManager.getAvailableOutputs().find(d => d.id === savedOutputId)
+
+    if (savedOutputId && !savedOutput) {
+      console.warn('Previously selected MIDI output not found:', savedOutputId)
+    }
+
+    midiManager.selectOutputDevice(savedOutput ? savedOutput.id : null)
+      .then(() => audioEngine.setMidiOutput(midiManager))
+      .catch(error => console.error('Failed to select MIDI output:', error))
+  }, [midiReady, settings.audio.midiOutput.deviceId])
+
   // Initialize MIDI and auto-connect to saved device
   useEffect(() => {
     const midiManager = MidiManager.getInstance()
@@ -181,6 +249,10 @@ function AppContent() {
     setIsPaused(prev => !prev)
   }
 
+  useMidiActions([
+    { action: 'pause', handler: togglePause },
+  ], { enabled: !isSettingsOpen })
+
   // Determine if game is paused (either manually or due to settings)
   const gameIsPaused = isPaused || isSettingsOpen
 
@@ -214,7 +286,7 @@ function AppContent() {
           />
         )}
         {isEarTrainingMode && (
-          <GuessHistory attempts={guessHistory} />
+          <GuessHistory attempts={guessHistory} showStaff={settings.showStaffNotation} mode={settings.modes.selectedMode} />
         )}
 
         <NoteIdentification
@@ -322,6 +322,24 @@ describe('MIDI Keyboard Integration Tests', () => {
       expectedNotes.forEach(note => expect(noteNames).toContain(note));
     });
 
+    it('should keep chord notes highlighted while the sustain pedal holds them', async () => {
+      const { result } = renderHook(() => useMidiHighlights());
+
+      await act(async () => {
+        fixture.mockDevice1.simulateMessage([0xB0, 64, 127]);
+        [60, 64, 67].forEach(note => {
+          fixture.mockDevice1.simulateNoteOn(note, 64);
+          fixture.mockDevice1.simulateNoteOff(note, 64);
+        });
+      });
+      expect(result.current).toHaveLength(3);
+
+      await act(async () => {
+        fixture.mockDevice1.simulateMessage([0xB0, 64, 0]);
+      });
+      expect(result.current).toHaveLength(0);
+    });
+
     it('should handle rapid press/release cycles', async () => {
       const { result } = renderHook(() => useMidiHighlights());
 
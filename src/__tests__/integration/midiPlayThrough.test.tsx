@@ -0,0 +1,164 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MidiSessionHarness } from '../../test/MidiSessionHarness';
+import { DEFAULT_MODE_SETTINGS } from '../../types/game';
+import { ChordType } from '../../types/music';
+import type { MidiScript, MidiScriptEvent } from '../../types/midi';
+
+/**
+ * MIDI Play-Through Integration Tests
+ *
+ * Plays complete sessions from scripted MIDI through a virtual input, so the
+ * path from MIDI message to finished session is covered without hardware.
+ * Rounds only use C4 (MIDI 48) or C major, so scripts know every answer.
+ */
+
+const C4 = 48;
+const D4 = 50;
+const E4 = 52;
+const G4 = 55;
+
+/** A key pressed at `time` and released 200ms later */
+const tap = (note: number, time: number): MidiScriptEvent[] => [
+  { time, data: [0x90, note, 100] },
+  { time: time + 200, data: [0x80, note, 0] },
+];
+
+/** Keys pressed together at `time` and released 500ms later */
+const chord = (notes: number[], time: number): MidiScriptEvent[] => [
+  ...notes.map(note => ({ time, data: [0x90, note, 100] })),
+  ...notes.map(note => ({ time: time + 500, data: [0x80, note, 0] })),
+];
+
+const script = (...groups: MidiScriptEvent[][]): MidiScript => ({ events: groups.flat() });
+
+/**
+ * Builds a one-track .mid file at 120 bpm and 480 ticks per beat
+ * @param events - Delta time in ticks followed by the message bytes
+ */
+const buildMidiFile = (events: number[][]): Uint8Array => {
+  const encodeDelta = (delta: number) => {
+    const bytes = [delta & 0x7F];
+    while ((delta >>= 7) > 0) {
+      bytes.unshift((delta & 0x7F) | 0x80);
+    }
+    return bytes;
+  };
+
+  const track = [
+    ...events.flatMap(([delta, ...data]) => [...encodeDelta(delta), ...data]),
+    0x00, 0xFF, 0x2F, 0x00, // End of track
+  ];
+
+  return new Uint8Array([
+    0x4D, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xE0, // MThd, format 0, 1 track, 480 ticks
+    0x4D, 0x54, 0x72, 0x6B, 0, 0, 0, track.length, ...track,    // MTrk
+  ]);
+};
+
+describe('MIDI Play-Through Integration Tests', () => {
+  let session: MidiSessionHarness;
+
+  afterEach(() => {
+    session.cleanup();
+  });
+
+  describe('Rush', () => {
+    it('completes once the target notes are played', async () => {
+      session = await MidiSessionHarness.start({
+        mode: 'rush',
+        modeSettings: { rush: { targetNotes: 3 } },
+      });
+
+      await session.play(script(tap(C4, 0), tap(C4, 2000), tap(C4, 4000)));
+
+      expect(session.guessResults.map(result => result.isCorrect)).toEqual([true, true, true]);
+      expect(session.completedSession?.stats.correctAttempts).toBe(3);
+      expect(session.orchestrator.isCompleted()).toBe(true);
+    });
+
+    it('keeps going after a wrong note', async () => {
+      session = await MidiSessionHarness.start({
+        mode: 'rush',
+        modeSettings: { rush: { targetNotes: 2 } },
+      });
+
+      await session.play(script(tap(D4, 0), tap(C4, 1000)));
+
+      expect(session.guessResults.map(result => result.isCorrect)).toEqual([false, true]);
+      expect(session.completedSession).toBeNull();
+    });
+
+    it('plays through from a .mid file', async () => {
+      session = await MidiSessionHarness.start({
+        mode: 'rush',
+        modeSettings: { rush: { targetNotes: 2 } },
+      });
+
+      // Two C4 eighth notes, two seconds apart, the rest using running status
+      await session.playMidiFile(buildMidiFile([
+        [0, 0x90, C4, 100],
+        [240, C4, 0],
+        [1680, C4, 100],
+        [240, C4, 0],
+      ]));
+
+      expect(session.guessResults.map(result => result.isCorrect)).toEqual([true, true]);
+      expect(session.orchestrator.isCompleted()).toBe(true);
+    });
+  });
+
+  describe('Survival', () => {
+    it('ends when wrong notes use up all health', async () => {
+      session = await MidiSessionHarness.start({
+        mode: 'survival',
+        modeSettings: {
+          survival: { ...DEFAULT_MODE_SETTINGS.survival, healthDrainRate: 0, healthDamage: 50 },
+        },
+      });
+
+      await session.play(script(tap(C4, 0), tap(D4, 2000), tap(D4, 3000)));
+
+      expect(session.guessResults.map(result => result.isCorrect)).toEqual([true, false, false]);
+      expect(session.orchestrator.isCompleted()).toBe(true);
+      expect(session.completedSession).not.toBeNull();
+    });
+  });
+
+  describe('Chord Training', () => {
+    const chordTraining = {
+      ...DEFAULT_MODE_SETTINGS.noteTraining,
+      targetChords: 2,
+      chordFilter: {
+        allowedChordTypes: [ChordType.MAJOR],
+        allowedRootNotes: ['C' as const],
+        allowedOctaves: [4],
+        includeInversions: false,
+      },
+    };
+
+    it('completes a show chord, guess notes session from held chords', async () => {
+      session = await MidiSessionHarness.start({
+        mode: 'show-chord-guess-notes',
+        modeSettings: { noteTraining: chordTraining },
+      });
+
+      await session.play(script(chord([C4, E4, G4], 0), chord([C4, E4, G4], 2000)));
+
+      expect(session.guessResults.map(result => result.isCorrect)).toEqual([true, true]);
+      expect(session.completedSession?.stats.correctAttempts).toBe(2);
+    });
+
+    it('counts a wrong note in a chord as a mistake', async () => {
+      session = await MidiSessionHarness.start({
+        mode: 'show-chord-guess-notes',
+        modeSettings: { noteTraining: chordTraining },
+      });
+
+      await session.play(script(chord([C4, D4], 0)));
+
+      expect(session.guessResults.map(result => result.isCorrect)).toEqual([false]);
+      expect(session.guessResults[0].shouldAdvance).toBe(false);
+      expect(session.completedSession).toBeNull();
+    });
+  });
+});
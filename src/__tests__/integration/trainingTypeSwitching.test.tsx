@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { screen, within, fireEvent } from '@testing-library/react';
 import React from 'react';
 import ModeSelector from '../../components/settings/ModeSelector';
-import { TRAINING_MODES, EAR_TRAINING_SUB_MODES, NOTE_TRAINING_SUB_MODES } from '../../constants';
+import { TRAINING_MODES, EAR_TRAINING_SUB_MODES, NOTE_TRAINING_SUB_MODES, INTERVAL_TRAINING_SUB_MODES, SCALE_TRAINING_SUB_MODES, PROGRESSION_TRAINING_SUB_MODES, SCALE_DEGREE_SUB_MODES, MELODIC_DICTATION_SUB_MODES, RHYTHM_SUB_MODES, SIGHT_READING_SUB_MODES } from '../../constants';
 import { modeRegistry } from '../../game/ModeRegistry';
 import {
   renderWithProviders,
@@ -37,16 +37,27 @@ describe('Training Type Switching Integration Test', () => {
     it('should have all expected modes registered with correct training types', () => {
       // Verify ear training modes
       const earTrainingModes = modeRegistry.getAllByType(TRAINING_MODES.EAR_TRAINING);
-      expect(earTrainingModes.length).toBe(3);
+      expect(earTrainingModes.length).toBe(12);
       expect(modeRegistry.get(EAR_TRAINING_SUB_MODES.RUSH)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
       expect(modeRegistry.get(EAR_TRAINING_SUB_MODES.SURVIVAL)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
       expect(modeRegistry.get(EAR_TRAINING_SUB_MODES.SANDBOX)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(INTERVAL_TRAINING_SUB_MODES.ASCENDING)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(INTERVAL_TRAINING_SUB_MODES.DESCENDING)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(INTERVAL_TRAINING_SUB_MODES.HARMONIC)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(SCALE_TRAINING_SUB_MODES.IDENTIFICATION)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(PROGRESSION_TRAINING_SUB_MODES.IDENTIFICATION)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(SCALE_DEGREE_SUB_MODES.IDENTIFICATION)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(MELODIC_DICTATION_SUB_MODES.DICTATION)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(RHYTHM_SUB_MODES.TAP_ALONG)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
+      expect(modeRegistry.get(RHYTHM_SUB_MODES.DICTATION)?.type).toBe(TRAINING_MODES.EAR_TRAINING);
 
       // Verify note training modes
       const noteTrainingModes = modeRegistry.getAllByType(TRAINING_MODES.NOTE_TRAINING);
-      expect(noteTrainingModes.length).toBe(2);
+      expect(noteTrainingModes.length).toBe(4);
       expect(modeRegistry.get(NOTE_TRAINING_SUB_MODES.SHOW_CHORD_GUESS_NOTES)?.type).toBe(TRAINING_MODES.NOTE_TRAINING);
       expect(modeRegistry.get(NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD)?.type).toBe(TRAINING_MODES.NOTE_TRAINING);
+      expect(modeRegistry.get(NOTE_TRAINING_SUB_MODES.PLAY_CHORD_VOICING)?.type).toBe(TRAINING_MODES.NOTE_TRAINING);
+      expect(modeRegistry.get(SIGHT_READING_SUB_MODES.SHOW_STAFF_PLAY_NOTES)?.type).toBe(TRAINING_MODES.NOTE_TRAINING);
     });
   });
 
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import ChordConfusionMatrix from './ChordConfusionMatrix';
+import { sessionRepository } from '../services/sessionRepository';
+import { STORAGE_KEYS } from '../constants';
+import { CHORD_CONFUSION_VERSION } from '../types/stats';
+import type { ChordTypeConfusions } from '../types/stats';
+import type { GameSession, NoteTrainingSessionResults } from '../types/game';
+
+const storeConfusions = (confusions: ChordTypeConfusions) => {
+  localStorage.setItem(STORAGE_KEYS.CHORD_CONFUSIONS, JSON.stringify({
+    version: CHORD_CONFUSION_VERSION,
+    confusions,
+    lastUpdated: new Date().toISOString()
+  }));
+};
+
+const createSession = (timestamp: Date): GameSession => {
+  const results: NoteTrainingSessionResults = {
+    chordsCompleted: 2,
+    longestStreak: 1,
+    averageTimePerChord: 5,
+    accuracy: 50,
+    chordTypeStats: {},
+    guessHistory: [
+      { id: '1', timestamp: timestamp.toISOString(), chordName: 'Am7', guessedChordName: 'Am7b5', isCorrect: false },
+      { id: '2', timestamp: timestamp.toISOString(), chordName: 'Am7', guessedChordName: 'Am7', isCorrect: true }
+    ],
+    firstTryCorrect: 1,
+    totalChordsAttempted: 2,
+    subMode: 'show-notes-guess-chord'
+  };
+
+  return {
+    mode: 'show-notes-guess-chord',
+    timestamp,
+    completionTime: 60,
+    accuracy: 50,
+    totalAttempts: 2,
+    settings: {},
+    results
+  };
+};
+
+describe('ChordConfusionMatrix', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await sessionRepository.deleteSessions();
+  });
+
+  it('should render nothing without recorded answers', () => {
+    const { container } = render(<ChordConfusionMatrix />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should show counts by played and guessed chord type', () => {
+    storeConfusions({ minor7: { minor7: 5, halfDiminished7: 2 } });
+
+    render(<ChordConfusionMatrix />);
+
+    expect(screen.getByTitle('Minor 7th identified correctly: 5').textContent).toBe('5');
+    expect(screen.getByTitle('Minor 7th answered as Half Diminished 7th: 2').textContent).toBe('2');
+  });
+
+  it('should drill down into saved sessions with the selected mix-up', async () => {
+    storeConfusions({ minor7: { minor7: 1, halfDiminished7: 1 } });
+    await sessionRepository.addSession(createSession(new Date('2026-01-05T10:00:00')));
+
+    render(<ChordConfusionMatrix />);
+    fireEvent.click(screen.getByTitle('Minor 7th answered as Half Diminished 7th: 1'));
+
+    expect(screen.getByText('Minor 7th answered as Half Diminished 7th')).not.toBeNull();
+    expect(await screen.findByText('Am7 → Am7b5')).not.toBeNull();
+    expect(screen.getByText('50.0% accuracy')).not.toBeNull();
+    expect(screen.queryByText('Am7 → Am7')).toBeNull();
+  });
+
+  it('should read older mix-ups a page at a time', async () => {
+    storeConfusions({ minor7: { halfDiminished7: 25 } });
+    for (let day = 1; day <= 25; day++) {
+      await sessionRepository.addSession(createSession(new Date(2026, 0, day, 10)));
+    }
+
+    render(<ChordConfusionMatrix />);
+    fireEvent.click(screen.getByTitle('Minor 7th answered as Half Diminished 7th: 25'));
+
+    expect(await screen.findAllByText('Am7 → Am7b5')).toHaveLength(20);
+    fireEvent.click(screen.getByText('Show more (5 older)'));
+
+    await screen.findByText((_, element) => element?.tagName === 'UL' && element.children.length === 25);
+    expect(screen.queryByText(/Show more/)).toBeNull();
+  });
+});
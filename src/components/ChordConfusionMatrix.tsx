@@ -0,0 +1,258 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { useChordConfusions } from '../hooks/useChordConfusions';
+import { isChordTypeConfusion } from '../utils/chordConfusion';
+import { ChordType } from '../types/music';
+import type { AttemptQuery, StoredGameSession, StoredGuessAttempt } from '../types/history';
+import { NOTE_TRAINING_SUB_MODES } from '../constants';
+import { sessionRepository } from '../services/sessionRepository';
+import { getChordSuffix, getChordTypeDisplayName, getCustomChordTypes } from '../utils/chordTypeRegistry';
+import './ChordConfusionMatrix.css';
+
+interface SelectedPair {
+  actual: ChordType;
+  guessed: ChordType;
+}
+
+/** A saved session with its answers that are the selected mix-up */
+interface DrillDownSession {
+  session: StoredGameSession;
+  attempts: StoredGuessAttempt[];
+}
+
+interface DrillDown {
+  pair: SelectedPair;
+  sessions: DrillDownSession[];
+
+  /** Number of matching answers read so far */
+  loaded: number;
+
+  /** Number of matching answers saved */
+  total: number;
+}
+
+/** Matching answers read per "Show more" */
+const DRILL_DOWN_PAGE_SIZE = 20;
+
+/**
+ * Reads the newest answers with a chord type mix-up from the session
+ * repository, grouped by the session they were given in.
+ */
+async function loadDrillDown(pair: SelectedPair, limit: number): Promise<DrillDown> {
+  const query: AttemptQuery = {
+    mode: NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD,
+    where: attempt => isChordTypeConfusion(attempt, pair.actual, pair.guessed)
+  };
+  const [attempts, total] = await Promise.all([
+    sessionRepository.getAttempts({ ...query, limit }),
+    sessionRepository.countAttempts(query)
+  ]);
+
+  // Answers come newest first, so those of one session are next to each other
+  const groups: { sessionId: string; attempts: StoredGuessAttempt[] }[] = [];
+  for (const attempt of attempts) {
+    const group = groups[groups.length - 1];
+    if (group?.sessionId === attempt.sessionId) {
+      group.attempts.unshift(attempt);
+    } else {
+      groups.push({ sessionId: attempt.sessionId, attempts: [attempt] });
+    }
+  }
+
+  const sessions = await Promise.all(groups.map(group => sessionRepository.getSession(group.sessionId)));
+  return {
+    pair,
+    sessions: groups.flatMap((group, i) => {
+      const session = sessions[i];
+      return session ? [{ session, attempts: group.attempts }] : [];
+    }),
+    loaded: attempts.length,
+    total
+  };
+}
+
+/** Chord types in their usual order (triads, sevenths, extensions, ...), then custom chord types */
+const getChordTypeOrder = (): ChordType[] => [
+  ...Object.values(ChordType),
+  ...getCustomChordTypes().map(type => type.id)
+];
+
+const getDisplayName = (type: ChordType): string => getChordTypeDisplayName(type);
+
+/**
+ * Gets a short column label for a chord type, e.g. "m7" for minor7.
+ */
+const getSymbol = (type: ChordType): string => (getChordSuffix(type) ?? type) || 'maj';
+
+/**
+ * ChordConfusionMatrix shows which chord qualities get mistaken for which
+ * in Show Notes → Guess Chord sessions.
+ *
+ * Features:
+ * - Played vs. guessed chord type matrix across all sessions
+ * - Click a mix-up to list the sessions and answers where it happened
+ */
+const ChordConfusionMatrix: React.FC = () => {
+  const [selectedPair, setSelectedPair] = useState<SelectedPair | null>(null);
+  const [drillDownLimit, setDrillDownLimit] = useState(DRILL_DOWN_PAGE_SIZE);
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const { confusions } = useChordConfusions();
+
+  const actualTypes = useMemo(() => {
+    return getChordTypeOrder().filter(type => confusions[type] !== undefined);
+  }, [confusions]);
+
+  const guessedTypes = useMemo(() => {
+    const guessed = new Set<string>();
+    Object.values(confusions).forEach(row => Object.keys(row ?? {}).forEach(type => guessed.add(type)));
+    return getChordTypeOrder().filter(type => guessed.has(type));
+  }, [confusions]);
+
+  const maxMixUpCount = useMemo(() => {
+    let max = 0;
+    for (const actual of actualTypes) {
+      for (const guessed of guessedTypes) {
+        if (actual !== guessed) {
+          max = Math.max(max, confusions[actual]?.[guessed] ?? 0);
+        }
+      }
+    }
+    return max;
+  }, [confusions, actualTypes, guessedTypes]);
+
+  useEffect(() => {
+    if (!selectedPair) return;
+
+    let isMounted = true;
+    loadDrillDown(selectedPair, drillDownLimit)
+      .then(result => {
+        if (isMounted) setDrillDown(result);
+      })
+      .catch(error => {
+        console.warn('Failed to load chord confusion sessions:', error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [selectedPair, drillDownLimit]);
+
+  // Only show answers read for the pair that is selected now
+  const currentDrillDown = drillDown && drillDown.pair === selectedPair ? drillDown : null;
+
+  // Nothing to show until a Show Notes → Guess Chord session has been recorded
+  if (actualTypes.length === 0) {
+    return null;
+  }
+
+  const renderCell = (actual: ChordType, guessed: ChordType) => {
+    const count = confusions[actual]?.[guessed] ?? 0;
+
+    if (count === 0) {
+      return <td key={guessed} className="confusion-cell-empty" />;
+    }
+
+    if (actual === guessed) {
+      return (
+        <td
+          key={guessed}
+          className="confusion-cell-correct"
+          title={`${getDisplayName(actual)} identified correctly: ${count}`}
+        >
+          {count}
+        </td>
+      );
+    }
+
+    const isSelected = selectedPair?.actual === actual && selectedPair?.guessed === guessed;
+
+    return (
+      <td key={guessed} className="confusion-cell-mixup">
+        <button
+          type="button"
+          className={`confusion-cell-button ${isSelected ? 'selected' : ''}`}
+          style={{ backgroundColor: `rgba(248, 113, 113, ${0.2 + 0.6 * (count / maxMixUpCount)})` }}
+          title={`${getDisplayName(actual)} answered as ${getDisplayName(guessed)}: ${count}`}
+          onClick={() => {
+            setSelectedPair(isSelected ? null : { actual, guessed });
+            setDrillDownLimit(DRILL_DOWN_PAGE_SIZE);
+          }}
+        >
+          {count}
+        </button>
+      </td>
+    );
+  };
+
+  return (
+    <div className="chord-confusion-matrix">
+      <h4 className="chord-confusion-title">Chord Type Confusions</h4>
+
+      <div className="chord-confusion-table-wrapper">
+        <table className="chord-confusion-table">
+          <thead>
+            <tr>
+              <th scope="col">Played ↓ / Guessed →</th>
+              {guessedTypes.map(type => (
+                <th key={type} scope="col" title={getDisplayName(type)}>{getSymbol(type)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {actualTypes.map(actual => (
+              <tr key={actual}>
+                <th scope="row">{getDisplayName(actual)}</th>
+                {guessedTypes.map(guessed => renderCell(actual, guessed))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedPair ? (
+        <div className="chord-confusion-drilldown">
+          <h5>
+            {getDisplayName(selectedPair.actual)} answered as {getDisplayName(selectedPair.guessed)}
+          </h5>
+          {!currentDrillDown ? (
+            <p className="chord-confusion-hint">Loading sessions...</p>
+          ) : currentDrillDown.sessions.length === 0 ? (
+            <p className="chord-confusion-hint">These sessions are no longer in your history.</p>
+          ) : (
+            <ul className="chord-confusion-sessions">
+              {currentDrillDown.sessions.map(({ session, attempts }) => (
+                <li key={session.id}>
+                  <div className="chord-confusion-session-header">
+                    <span>{session.timestamp.toLocaleDateString()} {session.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    <span>{session.accuracy.toFixed(1)}% accuracy</span>
+                  </div>
+                  <div className="chord-confusion-attempts">
+                    {attempts.map(attempt => (
+                      <span key={attempt.id} className="chord-confusion-attempt">
+                        {attempt.chordName} → {attempt.guessedChordName}
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {currentDrillDown && currentDrillDown.loaded < currentDrillDown.total && (
+            <button
+              type="button"
+              className="chord-confusion-more"
+              onClick={() => setDrillDownLimit(limit => limit + DRILL_DOWN_PAGE_SIZE)}
+            >
+              Show more ({currentDrillDown.total - currentDrillDown.loaded} older)
+            </button>
+          )}
+        </div>
+      ) : (
+        maxMixUpCount > 0 && (
+          <p className="chord-confusion-hint">Click a red cell to see the sessions where that mix-up happened.</p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ChordConfusionMatrix;
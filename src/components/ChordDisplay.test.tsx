@@ -96,4 +96,25 @@ describe('ChordDisplay', () => {
     const section = container.querySelector('.chord-display-section');
     expect(section).toHaveClass('custom-class');
   });
+
+  it('should spell the chord name in the given key', () => {
+    const chord = createMockChord({
+      name: 'D#',
+      root: 'D#',
+      notes: [{ note: 'D#', octave: 4 }, { note: 'G', octave: 4 }, { note: 'A#', octave: 4 }],
+    });
+    const { container } = render(<ChordDisplay chord={chord} keyContext={{ key: 'A#', scale: 'major' }} />);
+
+    expect(container.querySelector('.chord-name')?.textContent).toBe('E♭');
+  });
+
+  it('should write the chord on a staff when showStaff is set', () => {
+    const chord = createMockChord();
+    const { container, rerender } = render(<ChordDisplay chord={chord} />);
+
+    expect(container.querySelector('.staff-notation')).toBeNull();
+
+    rerender(<ChordDisplay chord={chord} showStaff />);
+    expect(container.querySelectorAll('.staff-notehead')).toHaveLength(3);
+  });
 });
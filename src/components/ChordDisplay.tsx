@@ -1,5 +1,8 @@
 import React from 'react';
-import type { Chord } from '../types/music';
+import type { Chord, KeyContext } from '../types/music';
+import { ChordEngine } from '../utils/chordEngine';
+import { spellChord } from '../utils/noteSpelling';
+import StaffNotation from './StaffNotation';
 import './ChordDisplay.css';
 
 interface ChordDisplayProps {
@@ -11,6 +14,12 @@ interface ChordDisplayProps {
 
   /** Optional additional CSS classes */
   className?: string;
+
+  /** Optional key to spell the chord name in (e.g., "E♭" rather than "D#" in B♭ major) */
+  keyContext?: KeyContext;
+
+  /** Whether to write the chord's notes on a staff below the name. Default: false */
+  showStaff?: boolean;
 }
 
 /**
@@ -33,7 +42,9 @@ const getInversionLabel = (inversion: number | undefined): string | null => {
 const ChordDisplay: React.FC<ChordDisplayProps> = ({
   chord,
   showInstructions = true,
-  className = ''
+  className = '',
+  keyContext,
+  showStaff = false
 }) => {
   // Don't render anything if no chord is provided
   if (!chord) {
@@ -44,7 +55,7 @@ const ChordDisplay: React.FC<ChordDisplayProps> = ({
     <div className={`chord-display-section ${className}`.trim()}>
       <div className="chord-name-container">
         <div className="chord-label">Current Chord</div>
-        <div className="chord-name">{chord.name}</div>
+        <div className="chord-name">{keyContext ? ChordEngine.getChordName(chord, keyContext) : chord.name}</div>
         {chord.inversion !== undefined && chord.inversion > 0 && (
           <div className="chord-inversion" aria-label={`${getInversionLabel(chord.inversion)}`}>
             {getInversionLabel(chord.inversion)}
@@ -55,6 +66,9 @@ const ChordDisplay: React.FC<ChordDisplayProps> = ({
             Select all {chord.notes.length} notes in this chord
           </div>
         )}
+        {showStaff && (
+          <StaffNotation notes={chord.notes} spelling={spellChord(chord, keyContext).notes} />
+        )}
       </div>
     </div>
   );
@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import React from 'react';
 import ChordGuessHistory from './ChordGuessHistory';
-import type { ChordGuessAttempt } from '../types/game';
+import { sessionRepository } from '../services/sessionRepository';
+import { NOTE_TRAINING_SUB_MODES } from '../constants';
+import type { ChordGuessAttempt, SerializedChordGuessAttempt } from '../types/game';
 import type { NoteWithOctave, Chord } from '../types/music';
 
 describe('ChordGuessHistory', () => {
@@ -530,4 +532,101 @@ describe('ChordGuessHistory', () => {
       expect(items.length).toBe(1);
     });
   });
+
+  describe('Paging', () => {
+    const createMixedAttempts = (count: number) =>
+      Array.from({ length: count }, (_, i) =>
+        i < 5 ? createWrongAttempt(`attempt-${i}`) : createCorrectAttempt(`attempt-${i}`)
+      );
+
+    it('should not show paging controls when everything fits', () => {
+      render(<ChordGuessHistory attempts={createMixedAttempts(5)} mode="training" maxDisplay={10} />);
+
+      expect(screen.queryByLabelText('Older attempts')).toBeNull();
+    });
+
+    it('should page back to older attempts and forward again', () => {
+      render(<ChordGuessHistory attempts={createMixedAttempts(12)} mode="training" maxDisplay={5} />);
+
+      expect(document.querySelector('.history-page-range')?.textContent).toBe('8–12 of 12');
+      expect((screen.getByLabelText('Newer attempts') as HTMLButtonElement).disabled).toBe(true);
+
+      fireEvent.click(screen.getByLabelText('Older attempts'));
+      expect(document.querySelector('.history-page-range')?.textContent).toBe('3–7 of 12');
+      expect(document.querySelectorAll('.chord-guess-history-item.wrong').length).toBe(3);
+
+      fireEvent.click(screen.getByLabelText('Older attempts'));
+      expect(document.querySelector('.history-page-range')?.textContent).toBe('1–2 of 12');
+      expect((screen.getByLabelText('Older attempts') as HTMLButtonElement).disabled).toBe(true);
+
+      fireEvent.click(screen.getByLabelText('Newer attempts'));
+      expect(document.querySelector('.history-page-range')?.textContent).toBe('3–7 of 12');
+    });
+
+    it('should jump back to the newest page when an attempt is added', () => {
+      const attempts = createMixedAttempts(12);
+      const { rerender } = render(<ChordGuessHistory attempts={attempts} mode="training" maxDisplay={5} />);
+
+      fireEvent.click(screen.getByLabelText('Older attempts'));
+      rerender(<ChordGuessHistory attempts={[...attempts, createCorrectAttempt('attempt-12')]} mode="training" maxDisplay={5} />);
+
+      expect(document.querySelector('.history-page-range')?.textContent).toBe('9–13 of 13');
+    });
+  });
+
+  describe('Saved answers', () => {
+    const mode = NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD;
+
+    const saveSession = (day: number, count: number) => {
+      const guessHistory: SerializedChordGuessAttempt[] = Array.from({ length: count }, (_, i) => ({
+        id: `saved-${day}-${i}`,
+        timestamp: new Date(2026, 0, day, 10, 0, i).toISOString(),
+        chordName: 'C',
+        guessedChordName: 'Cm',
+        isCorrect: false
+      }));
+      return sessionRepository.addSession({
+        mode,
+        timestamp: new Date(2026, 0, day, 10),
+        completionTime: 60,
+        accuracy: day,
+        totalAttempts: count,
+        settings: {},
+        results: { subMode: mode, guessHistory }
+      });
+    };
+
+    beforeEach(async () => {
+      await sessionRepository.deleteSessions();
+    });
+
+    const items = () => document.querySelectorAll('.chord-guess-history-item');
+
+    it('should page from the current session into answers saved in earlier sessions', async () => {
+      await saveSession(1, 4);
+      await saveSession(2, 4);
+
+      render(<ChordGuessHistory attempts={[createCorrectAttempt('1'), createCorrectAttempt('2')]} mode="identification" maxDisplay={5} sessionMode={mode} />);
+
+      await screen.findByText('6–10 of 10');
+      await waitFor(() => expect(items().length).toBe(5));
+      expect(document.querySelectorAll('.chord-guess-history-item.wrong').length).toBe(3);
+
+      fireEvent.click(screen.getByLabelText('Older attempts'));
+      await screen.findByText('1–5 of 10');
+      await waitFor(() => expect(document.querySelectorAll('.chord-guess-history-item.wrong').length).toBe(5));
+    });
+
+    it('should not count the current answers twice once their session is saved', async () => {
+      await saveSession(1, 3);
+      const current: ChordGuessAttempt = { ...createWrongAttempt('0'), timestamp: new Date(2026, 0, 2, 10, 0, 0) };
+
+      render(<ChordGuessHistory attempts={[current]} mode="identification" maxDisplay={2} sessionMode={mode} />);
+      await screen.findByText('3–4 of 4');
+
+      await saveSession(2, 1);
+      await waitFor(() => expect(items().length).toBe(2));
+      expect(screen.getByText('3–4 of 4')).not.toBeNull();
+    });
+  });
 });
@@ -2,12 +2,18 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import type { ChordGuessAttempt, GuessResult } from '../types/game';
 import type { NoteWithOctave } from '../types/music';
+import type { StoredGuessAttempt } from '../types/history';
+import { useHistoryPage } from '../hooks/useHistoryPage';
+import HistoryPageControls from './HistoryPageControls';
 import './ChordGuessHistory.css';
 
 interface ChordGuessHistoryProps {
   attempts: ChordGuessAttempt[];
   maxDisplay?: number;
   mode: 'training' | 'identification';
+
+  /** Session mode whose saved answers from earlier sessions can be paged through after these */
+  sessionMode?: string;
 }
 
 interface TooltipPosition {
@@ -18,12 +24,23 @@ interface TooltipPosition {
 const ChordGuessHistory: React.FC<ChordGuessHistoryProps> = ({
   attempts,
   maxDisplay = 10,
-  mode
+  mode,
+  sessionMode
 }) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [hoveredAttempt, setHoveredAttempt] = useState<string | null>(null);
   const [tooltipPos, setTooltipPos] = useState<TooltipPosition | null>(null);
-  const recentAttempts = attempts.slice(-maxDisplay);
+  const {
+    pageItems: recentAttempts,
+    storedItems,
+    total,
+    firstItemNumber,
+    lastItemNumber,
+    hasOlder,
+    hasNewer,
+    showOlder,
+    showNewer
+  } = useHistoryPage(attempts, maxDisplay, sessionMode);
 
   const handleMouseEnter = useCallback((attemptId: string, el: HTMLElement) => {
     const rect = el.getBoundingClientRect();
@@ -46,7 +63,7 @@ const ChordGuessHistory: React.FC<ChordGuessHistoryProps> = ({
     }
   }, [attempts.length]);
 
-  const getGuessResult = (attempt: ChordGuessAttempt): GuessResult => {
+  const getGuessResult = (attempt: Pick<ChordGuessAttempt, 'isCorrect' | 'accuracy'>): GuessResult => {
     if (attempt.isCorrect) return 'correct';
     if (attempt.accuracy !== undefined && attempt.accuracy > 0 && attempt.accuracy < 100) {
       return 'partial';
@@ -171,40 +188,79 @@ const ChordGuessHistory: React.FC<ChordGuessHistoryProps> = ({
     }
   };
 
+  // Saved answers keep the chord names and accuracy, not the notes
+  const renderStoredTooltipContent = (attempt: StoredGuessAttempt) => (
+    <div className="chord-tooltip-content">
+      <div className="chord-tooltip-header">
+        {attempt.chordName}
+        {attempt.accuracy !== undefined && (
+          <span className="chord-tooltip-accuracy"> ({Math.round(attempt.accuracy)}%)</span>
+        )}
+      </div>
+      {!attempt.isCorrect && attempt.guessedChordName && (
+        <div className="chord-tooltip-section">
+          <div className="chord-tooltip-label">Your guess:</div>
+          <div className="chord-tooltip-detail incorrect">
+            {attempt.guessedChordName}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   const hoveredAttemptData = hoveredAttempt
     ? recentAttempts.find(a => a.id === hoveredAttempt)
     : null;
+  const hoveredStoredAttempt = hoveredAttempt
+    ? storedItems.find(a => a.id === hoveredAttempt)
+    : null;
+
+  const renderItem = (id: string, attempt: Pick<ChordGuessAttempt, 'isCorrect' | 'accuracy'>) => {
+    const result = getGuessResult(attempt);
+    return (
+      <div
+        key={id}
+        className={`chord-guess-history-item ${result}`}
+        onMouseEnter={(e) => handleMouseEnter(id, e.currentTarget)}
+        onMouseLeave={handleMouseLeave}
+      >
+        <div className="chord-guess-icon">
+          {getResultIcon(result)}
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="chord-guess-history">
-      <h3 className="chord-guess-history-title">Guess History</h3>
+      <div className="chord-guess-history-header">
+        <h3 className="chord-guess-history-title">Guess History</h3>
+        <HistoryPageControls
+          firstItemNumber={firstItemNumber}
+          lastItemNumber={lastItemNumber}
+          total={total}
+          hasOlder={hasOlder}
+          hasNewer={hasNewer}
+          onOlder={showOlder}
+          onNewer={showNewer}
+        />
+      </div>
       <div className="chord-guess-history-container">
         <div className="chord-guess-history-list" ref={scrollContainerRef}>
-          {attempts.length === 0 ? (
+          {total === 0 ? (
             <div className="chord-guess-history-empty">
               Make your first guess to see history here
             </div>
           ) : (
-            recentAttempts.map((attempt) => {
-              const result = getGuessResult(attempt);
-              return (
-                <div
-                  key={attempt.id}
-                  className={`chord-guess-history-item ${result}`}
-                  onMouseEnter={(e) => handleMouseEnter(attempt.id, e.currentTarget)}
-                  onMouseLeave={handleMouseLeave}
-                >
-                  <div className="chord-guess-icon">
-                    {getResultIcon(result)}
-                  </div>
-                </div>
-              );
-            })
+            <>
+              {storedItems.map(attempt => renderItem(attempt.id, attempt))}
+              {recentAttempts.map(attempt => renderItem(attempt.id, attempt))}
+            </>
           )}
         </div>
       </div>
 
-      {hoveredAttemptData && tooltipPos && createPortal(
+      {(hoveredAttemptData || hoveredStoredAttempt) && tooltipPos && createPortal(
         <div
           className="chord-tooltip"
           style={{
@@ -212,7 +268,9 @@ const ChordGuessHistory: React.FC<ChordGuessHistoryProps> = ({
             left: tooltipPos.left,
           }}
         >
-          {renderTooltipContent(hoveredAttemptData)}
+          {hoveredAttemptData
+            ? renderTooltipContent(hoveredAttemptData)
+            : renderStoredTooltipContent(hoveredStoredAttempt!)}
         </div>,
         document.body
       )}
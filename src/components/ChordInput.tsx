@@ -1,6 +1,25 @@
 import React, { useState, useRef, useEffect } from 'react';
+import type { KeyContext } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { getKeyScaleSpelling, spellNote, toAsciiSpelling } from '../utils/noteSpelling';
 import './ChordInput.css';
 
+const DEFAULT_ROOTS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B',
+                       'Db', 'Eb', 'Gb', 'Ab', 'Bb'];
+
+/**
+ * Orders root suggestions for a key: the key's own notes first, then the other
+ * notes with the key's accidental, then the remaining enharmonic spellings.
+ */
+const getKeyRoots = (keyContext: KeyContext): string[] => {
+  const keyRoots = [
+    ...getKeyScaleSpelling(keyContext),
+    ...ALL_NOTES.map(note => spellNote(note, keyContext)),
+  ].map(toAsciiSpelling);
+
+  return [...new Set([...keyRoots, ...DEFAULT_ROOTS])];
+};
+
 interface ChordInputProps {
   /** Current input value */
   value: string;
@@ -19,6 +38,9 @@ interface ChordInputProps {
 
   /** Optional CSS classes */
   className?: string;
+
+  /** Optional key; root suggestions then follow its spelling (e.g., "Eb" before "D#" in B♭ major) */
+  keyContext?: KeyContext;
 }
 
 /**
@@ -31,7 +53,8 @@ const ChordInput: React.FC<ChordInputProps> = ({
   onSubmit,
   disabled = false,
   placeholder = 'e.g., C, Dm, Gmaj7, F#m',
-  className = ''
+  className = '',
+  keyContext
 }) => {
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(-1);
@@ -45,9 +68,8 @@ const ChordInput: React.FC<ChordInputProps> = ({
     const normalized = input.trim().toLowerCase();
     const suggestions: string[] = [];
 
-    // Root notes
-    const roots = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B',
-                   'Db', 'Eb', 'Gb', 'Ab', 'Bb'];
+    // Root notes, in the key's spelling first when a key is set
+    const roots = keyContext ? getKeyRoots(keyContext) : DEFAULT_ROOTS;
 
     // Common chord suffixes
     const suffixes = ['', 'm', 'maj7', 'm7', '7', 'dim', 'aug', 'sus2', 'sus4',
@@ -1,9 +1,17 @@
 import React, { useState, useMemo } from 'react';
 import ProgressGraph from './ProgressGraph';
-import { useGameHistory } from '../hooks/useGameHistory';
+import ChordConfusionMatrix from './ChordConfusionMatrix';
+import { useSessionQuery } from '../hooks/useSessionQuery';
 import type { NoteTrainingSessionResults } from '../types/game';
+import type { SessionQuery } from '../types/history';
+import { NOTE_TRAINING_SUB_MODES } from '../constants';
 import './ChordProgressSection.css';
 
+const NOTE_TRAINING_SESSION_QUERY: SessionQuery = {
+  mode: Object.values(NOTE_TRAINING_SUB_MODES),
+  where: session => (session.results as NoteTrainingSessionResults | undefined)?.chordTypeStats !== undefined
+};
+
 interface ChordProgressSectionProps {
   /** Optional: chords practiced in the current session to highlight */
   currentSessionChords?: string[];
@@ -16,21 +24,20 @@ interface ChordProgressSectionProps {
  * - Overall accuracy graph
  * - Per-chord accuracy with dropdown selector
  * - Highlights chords from current session
+ * - Chord type confusion matrix with drill-down into sessions
  */
 const ChordProgressSection: React.FC<ChordProgressSectionProps> = ({
   currentSessionChords = []
 }) => {
   const [selectedChord, setSelectedChord] = useState<string>('overall');
-  const { getNoteTrainingSessions } = useGameHistory();
-
-  // Get Note Training sessions from history
-  const sessions = useMemo(() => getNoteTrainingSessions(), [getNoteTrainingSessions]);
+  // Note Training sessions with chord data, from every sub-mode
+  const { sessions: noteTrainingSessions } = useSessionQuery(NOTE_TRAINING_SESSION_QUERY);
 
   // Extract all unique chord names from session history
   const availableChords = useMemo(() => {
     const chordSet = new Set<string>();
 
-    sessions.forEach(session => {
+    noteTrainingSessions.forEach(session => {
       const results = session.results as NoteTrainingSessionResults;
       if (results && results.chordTypeStats) {
         Object.keys(results.chordTypeStats).forEach(chord => chordSet.add(chord));
@@ -46,15 +53,7 @@ const ChordProgressSection: React.FC<ChordProgressSectionProps> = ({
       if (!aInCurrent && bInCurrent) return 1;
       return a.localeCompare(b);
     });
-  }, [sessions, currentSessionChords]);
-
-  // Filter sessions with Note Training data
-  const noteTrainingSessions = useMemo(() => {
-    return sessions.filter(s => {
-      const results = s.results as NoteTrainingSessionResults;
-      return results && results.chordTypeStats !== undefined;
-    });
-  }, [sessions]);
+  }, [noteTrainingSessions, currentSessionChords]);
 
   // If no session data, show minimal empty state
   if (noteTrainingSessions.length === 0) {
@@ -93,6 +92,8 @@ const ChordProgressSection: React.FC<ChordProgressSectionProps> = ({
         height={180}
         title={selectedChord === 'overall' ? 'Accuracy Over Time' : `${selectedChord} Progress`}
       />
+
+      <ChordConfusionMatrix />
     </div>
   );
 };
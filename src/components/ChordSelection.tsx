@@ -1,5 +1,5 @@
 import React from 'react';
-import type { Note, ChordType } from '../types/music';
+import type { Note, BuiltInChordType } from '../types/music';
 import { ALL_NOTES, ChordType as CT } from '../types/music';
 import { formatChordName } from '../constants/chords';
 import './ChordSelection.css';
@@ -40,7 +40,7 @@ const EXTENSION_OPTIONS: { value: ChordExtension; label: string }[] = [
  * Maps (quality, extension) to a ChordType.
  * Returns null for invalid combinations.
  */
-const QUALITY_EXTENSION_MAP: Record<string, ChordType> = {
+const QUALITY_EXTENSION_MAP: Record<string, BuiltInChordType> = {
   // Quality only (no extension) — triads
   'maj:': CT.MAJOR,
   'm:': CT.MINOR,
@@ -77,7 +77,7 @@ const QUALITY_EXTENSION_MAP: Record<string, ChordType> = {
 export function resolveChordType(
   quality: ChordQuality | null,
   extension: ChordExtension | null
-): ChordType | null {
+): BuiltInChordType | null {
   const q = quality ?? '';
   const e = extension ?? '';
 
@@ -6,11 +6,15 @@ export type FeedbackType = 'success' | 'error' | 'info' | 'neutral';
 interface FeedbackMessageProps {
   message: string;
   type?: FeedbackType;
+
+  /** Optional content shown below the message, e.g. the answer on a staff */
+  children?: React.ReactNode;
 }
 
 const FeedbackMessage: React.FC<FeedbackMessageProps> = ({
   message,
-  type = 'neutral'
+  type = 'neutral',
+  children
 }) => {
   if (!message) {
     return null;
@@ -19,6 +23,7 @@ const FeedbackMessage: React.FC<FeedbackMessageProps> = ({
   return (
     <div className={`feedback-message feedback-${type}`}>
       {message}
+      {children}
     </div>
   );
 };
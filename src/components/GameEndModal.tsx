@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo } from 'react';
 import type { GameStats, BaseGameState } from '../types/game';
-import { useGameHistory } from '../hooks/useGameHistory';
+import type { SessionQuery } from '../types/history';
+import { useSessionQuery } from '../hooks/useSessionQuery';
 import './GameEndModal.css';
 
 interface GameEndModalProps {
@@ -28,12 +29,13 @@ const GameEndModal: React.FC<GameEndModalProps> = ({
   onChangeSettings,
   onViewScores
 }) => {
-  const { getSessionHistory } = useGameHistory();
-
-  // Get relevant past sessions for comparison
-  const pastSessions = useMemo(() => {
-    return getSessionHistory(mode, settings).slice(0, 5); // Show last 5 similar sessions
-  }, [getSessionHistory, mode, settings]);
+  // Get relevant past sessions for comparison: the last 5 with the same settings
+  const pastSessionQuery = useMemo((): SessionQuery => ({
+    mode,
+    limit: 5,
+    where: session => Object.entries(settings).every(([key, value]) => session.settings[key] === value)
+  }), [mode, settings]);
+  const { sessions: pastSessions } = useSessionQuery(pastSessionQuery);
 
 
 
@@ -1,15 +1,35 @@
 import React, { useEffect, useRef } from 'react';
 import type { GuessAttempt } from '../types/game';
+import type { StoredGuessAttempt } from '../types/history';
+import { useHistoryPage } from '../hooks/useHistoryPage';
+import HistoryPageControls from './HistoryPageControls';
+import StaffNotation from './StaffNotation';
 import './GuessHistory.css';
 
 interface GuessHistoryProps {
   attempts: GuessAttempt[];
   maxDisplay?: number;
+
+  /** Whether to write each note on a staff as well (default: false) */
+  showStaff?: boolean;
+
+  /** Mode whose saved answers from earlier sessions can be paged through after these */
+  mode?: string;
 }
 
-const GuessHistory: React.FC<GuessHistoryProps> = ({ attempts, maxDisplay = 10 }) => {
+const GuessHistory: React.FC<GuessHistoryProps> = ({ attempts, maxDisplay = 10, showStaff = false, mode }) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const recentAttempts = attempts.slice(-maxDisplay);
+  const {
+    pageItems: recentAttempts,
+    storedItems,
+    total,
+    firstItemNumber,
+    lastItemNumber,
+    hasOlder,
+    hasNewer,
+    showOlder,
+    showNewer
+  } = useHistoryPage(attempts, maxDisplay, mode);
 
   // Auto-scroll to the right when new attempts are added
   useEffect(() => {
@@ -31,17 +51,45 @@ const GuessHistory: React.FC<GuessHistoryProps> = ({ attempts, maxDisplay = 10 }
     }).format(timestamp);
   };
 
+  // Saved answers only keep what was asked and answered, so they are shown like the current ones
+  const toGuessAttempt = (attempt: StoredGuessAttempt): GuessAttempt | null => {
+    if (!attempt.actualNote) return null;
+    return {
+      id: attempt.id,
+      timestamp: attempt.timestamp,
+      actualNote: attempt.actualNote,
+      guessedNote: attempt.guessedNote ?? null,
+      isCorrect: attempt.isCorrect
+    };
+  };
+
+  const pageAttempts = [
+    ...storedItems.map(toGuessAttempt).filter((attempt): attempt is GuessAttempt => attempt !== null),
+    ...recentAttempts
+  ];
+
   return (
-    <div className="guess-history">
-      <h3 className="guess-history-title">Recent Attempts</h3>
+    <div className={`guess-history ${showStaff ? 'guess-history-with-staff' : ''}`.trim()}>
+      <div className="guess-history-header">
+        <h3 className="guess-history-title">Recent Attempts</h3>
+        <HistoryPageControls
+          firstItemNumber={firstItemNumber}
+          lastItemNumber={lastItemNumber}
+          total={total}
+          hasOlder={hasOlder}
+          hasNewer={hasNewer}
+          onOlder={showOlder}
+          onNewer={showNewer}
+        />
+      </div>
       <div className="guess-history-container">
         <div className="guess-history-list" ref={scrollContainerRef}>
-          {attempts.length === 0 ? (
+          {total === 0 ? (
             <div className="guess-history-empty">
               Make your first guess to see attempts here
             </div>
           ) : (
-            recentAttempts.map((attempt) => (
+            pageAttempts.map((attempt) => (
               <div 
                 key={attempt.id} 
                 className={`guess-history-item ${attempt.isCorrect ? 'correct' : 'incorrect'}`}
@@ -58,6 +106,9 @@ const GuessHistory: React.FC<GuessHistoryProps> = ({ attempts, maxDisplay = 10 }
                     </span>
                   )}
                 </div>
+                {showStaff && (
+                  <StaffNotation notes={[attempt.actualNote]} className="staff-notation-compact" />
+                )}
               </div>
             ))
           )}
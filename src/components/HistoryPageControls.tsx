@@ -0,0 +1,56 @@
+import React from 'react';
+import './HistoryPageControls.css';
+
+interface HistoryPageControlsProps {
+  firstItemNumber: number;
+  lastItemNumber: number;
+  total: number;
+  hasOlder: boolean;
+  hasNewer: boolean;
+  onOlder: () => void;
+  onNewer: () => void;
+}
+
+/**
+ * Older/newer buttons for paging through guess history.
+ * Renders nothing while everything fits on one page.
+ */
+const HistoryPageControls: React.FC<HistoryPageControlsProps> = ({
+  firstItemNumber,
+  lastItemNumber,
+  total,
+  hasOlder,
+  hasNewer,
+  onOlder,
+  onNewer
+}) => {
+  if (!hasOlder && !hasNewer) {
+    return null;
+  }
+
+  return (
+    <div className="history-page-controls">
+      <button
+        className="history-page-button"
+        onClick={onOlder}
+        disabled={!hasOlder}
+        aria-label="Older attempts"
+      >
+        ‹
+      </button>
+      <span className="history-page-range">
+        {firstItemNumber}–{lastItemNumber} of {total}
+      </span>
+      <button
+        className="history-page-button"
+        onClick={onNewer}
+        disabled={!hasNewer}
+        aria-label="Newer attempts"
+      >
+        ›
+      </button>
+    </div>
+  );
+};
+
+export default HistoryPageControls;
@@ -11,17 +11,23 @@
  */
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import type { NoteWithOctave, NoteHighlight } from '../types/music';
-import type { GuessAttempt, GameStats } from '../types/game';
+import type { GuessAttempt, GameStats, PrimingSettings } from '../types/game';
 import type { IGameMode } from '../game/IGameMode';
 import { useSettings } from '../hooks/useSettings';
 import { useGameHistory } from '../hooks/useGameHistory';
 import { useChordStats } from '../hooks/useChordStats';
+import { useNoteStats } from '../hooks/useNoteStats';
+import { useChordConfusions } from '../hooks/useChordConfusions';
+import { reviewScheduler } from '../utils/spacedRepetition';
+import { exercisePlayer } from '../utils/exercisePlayer';
+import { DEFAULT_PRACTICE_SETTINGS } from '../types/settings';
 import { useMidiHighlights } from '../hooks/useMidiHighlights';
 import type { NoteTrainingSessionResults } from '../types/game';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { SHORTCUTS } from '../constants/keyboardShortcuts';
 import { MidiManager } from '../services/MidiManager';
-import { SETTINGS_TABS } from '../constants';
+import { SETTINGS_TABS, EAR_TRAINING_SUB_MODES, SCALE_DEGREE_SUB_MODES, RHYTHM_SUB_MODES } from '../constants';
+import type { EarTrainingSubMode } from '../constants';
 import { GameOrchestrator } from '../game/GameOrchestrator';
 import { RoundState } from '../machines/types';
 import PianoKeyboard from './PianoKeyboard';
@@ -29,6 +35,9 @@ import GameEndModal from './GameEndModal';
 import { LOGS_STATE_ENABLED, LOGS_EVENTS_ENABLED, LOGS_USER_ACTIONS_ENABLED } from '../config/logging';
 import './NoteIdentification.css';
 
+// Modes whose guess attempts feed the long-term note stats and guess history (other modes reuse the note as a round anchor)
+const NOTE_STATS_MODES: string[] = Object.values(EAR_TRAINING_SUB_MODES);
+
 export interface GameStateUpdateData {
   currentStreak: number;
   longestStreak: number;
@@ -58,7 +67,9 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
 }) => {
   const { settings, hasCompletedModeSetup, startFirstTimeSetup, openSettings } = useSettings();
   const { addSession } = useGameHistory();
-  const { updateFromSession: updateChordStats } = useChordStats();
+  const { stats: chordStats, updateFromSession: updateChordStats } = useChordStats();
+  const { updateFromAttempts: updateNoteStats } = useNoteStats();
+  const { updateFromSession: updateChordConfusions } = useChordConfusions();
   const midiHighlights = useMidiHighlights();
 
   // UI state (derived from orchestrator events)
@@ -72,6 +83,7 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
   // Refs to track current values for event handlers (avoid stale closures)
   const currentNoteRef = useRef<NoteWithOctave | null>(null);
   const correctNoteHighlightRef = useRef<NoteWithOctave | null>(null);
+  const sessionAttemptsRef = useRef<GuessAttempt[]>([]);
 
   // Game state and settings
   const { responseTimeLimit, autoAdvanceSpeed, noteDuration } = settings.timing;
@@ -126,6 +138,13 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
         // Clear the correct note highlight when user makes a new guess
         setCorrectNoteHighlight(null);
         onGuessAttempt?.(attempt);
+
+        // Update long-term note stats for single-note ear training modes
+        const mode = orchestratorRef.current?.getGameMode()?.getMode();
+        if (NOTE_STATS_MODES.includes(mode ?? '')) {
+          updateNoteStats([attempt]);
+          sessionAttemptsRef.current.push(attempt);
+        }
       });
 
       orchestratorRef.current.on('guessResult', (result) => {
@@ -148,12 +167,14 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
         console.log('[NoteIdentification] Stats:', stats);
         console.log('[NoteIdentification] Setting isEndModalOpen to true');
         console.log('[NoteIdentification] ========================================');
-        addSession(session);
+        addSession(session, sessionAttemptsRef.current);
+        sessionAttemptsRef.current = [];
 
         // Update long-term chord stats if this is a Note Training session
         const results = session.results as NoteTrainingSessionResults | undefined;
         if (results?.chordTypeStats) {
           updateChordStats(results);
+          updateChordConfusions(results);
         }
 
         setGameStats(stats);
@@ -184,6 +205,7 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
         }
 
         currentNoteRef.current = null;
+        sessionAttemptsRef.current = [];
         setCurrentNote(null);
         setUserGuess(null);
         correctNoteHighlightRef.current = null;
@@ -252,6 +274,23 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
     };
   }, []); // Empty deps - only run on mount/unmount
 
+  // Apply the selection mode before rounds are generated
+  const selectionMode = settings.practice?.selectionMode ?? DEFAULT_PRACTICE_SETTINGS.selectionMode;
+  useEffect(() => {
+    reviewScheduler.setSelectionMode(selectionMode);
+  }, [selectionMode]);
+
+  // An imported exercise replaces the filters of the modes that can play it
+  const exercise = settings.practice?.exercise ?? null;
+  useEffect(() => {
+    exercisePlayer.setExercise(exercise);
+  }, [exercise]);
+
+  // Chords practiced before the review schedule existed start from their long-term accuracy
+  useEffect(() => {
+    reviewScheduler.seedFromChordStats(chordStats);
+  }, [chordStats]);
+
   // Configure orchestrator when settings change
   useEffect(() => {
     if (settings && selectedMode && orchestratorRef.current) {
@@ -262,6 +301,7 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
           setSessionTimeRemaining(sessionDurationSeconds);
         }
 
+        orchestratorRef.current.setChordPlayback(settings.timing.chordPlayback);
         orchestratorRef.current.applySettings(
           selectedMode,
           settings.modes,
@@ -447,6 +487,16 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
   // Only active for non-chord modes (chord modes have their own shortcuts in their display components)
   const isEarTrainingMode = gameState && !gameState.getMode().includes('chord') && !gameState.getMode().includes('notes');
 
+  // Rush, Survival and Sandbox each have their own reference tone/cadence settings
+  const priming: PrimingSettings | undefined = NOTE_STATS_MODES.includes(selectedMode)
+    ? settings.modes[selectedMode as EarTrainingSubMode].priming
+    : undefined;
+  // Scale Degree mode always sets its key with a cadence, which can be heard again
+  const isScaleDegreeMode = selectedMode === SCALE_DEGREE_SUB_MODES.IDENTIFICATION;
+  const canPrime = isScaleDegreeMode || (!!priming && priming.frequency !== 'off');
+  // Rhythm modes are tapped or notated in their display, not played on the piano
+  const isRhythmMode = (Object.values(RHYTHM_SUB_MODES) as string[]).includes(selectedMode);
+
   useKeyboardShortcuts([
     // Space: Replay note
     {
@@ -458,6 +508,7 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
         }
       },
       enabled: !!currentNote && !isGameCompleted,
+      action: 'replay',
     },
     // N: Next note (skip)
     {
@@ -468,6 +519,7 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
         }
       },
       enabled: !!currentNote && !isGameCompleted,
+      action: 'next',
     },
     // S: Start practice
     {
@@ -478,6 +530,7 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
         }
       },
       enabled: !currentNote && !isGameCompleted,
+      action: 'start',
     },
     // R: Play again (after game completion)
     {
@@ -485,21 +538,29 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
       handler: handlePlayAgain,
       enabled: isGameCompleted,
     },
+    // P: Play the reference tone or cadence
+    {
+      key: SHORTCUTS.PRIME.key,
+      handler: () => {
+        orchestratorRef.current?.playPrimingAction();
+      },
+      enabled: canPrime && !!currentNote && !isGameCompleted,
+    },
   ], {
     enabled: !isPaused && !isEndModalOpen && isEarTrainingMode,
   });
 
   // MIDI input integration - listen to MidiManager for note events
-  // Note: Chord modes (SingleChordModeDisplay) handle their own MIDI input directly
+  // Note: Chord modes (SingleChordModeDisplay) and rhythm modes handle their own MIDI input directly
   useEffect(() => {
     const midiManager = MidiManager.getInstance();
 
-    // Check if current mode is a chord mode - they handle MIDI directly in their display component
+    // Check if current mode is a chord or rhythm mode - they handle MIDI directly in their display component
     const isChordMode = gameState?.getMode?.().includes('chord') || gameState?.getMode?.().includes('notes');
 
     const handleMidiNoteOn = (event: { note: NoteWithOctave }) => {
-      // Skip MIDI processing for chord modes - they handle it in their own display component
-      if (isChordMode) {
+      // Skip MIDI processing for chord and rhythm modes - they handle it in their own display component
+      if (isChordMode || isRhythmMode) {
         return;
       }
       // Only process MIDI input when game is active and waiting for input
@@ -523,7 +584,7 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
       midiManager.off('noteOn', handleMidiNoteOn);
       midiManager.off('noteOff', handleMidiNoteOff);
     };
-  }, [isWaitingInput, isPaused, handlePianoKeyClick, gameState]);
+  }, [isWaitingInput, isPaused, handlePianoKeyClick, gameState, isRhythmMode]);
 
   return (
     <div className="note-identification">
@@ -547,6 +608,9 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
             orchestratorRef.current?.handleAutoAdvance(delayMs);
           },
           onSubmitClick: handleSubmitClick,
+          onReplayFromPosition: (position) => {
+            orchestratorRef.current?.replayFromPositionAction(position);
+          },
           onPlayAgain: handlePlayAgain,
           completionControls: isGameCompleted && (gameState.getMode().includes('chord') || gameState.getMode().includes('notes')) ? (
             <div className="controls" style={{ marginTop: '1rem' }}>
@@ -623,14 +687,24 @@ const NoteIdentification: React.FC<NoteIdentificationProps> = ({
                     Next Note
                   </button>
                 )}
+
+                {currentNote && !isPaused && canPrime && (
+                  <button
+                    onClick={() => orchestratorRef.current?.playPrimingAction()}
+                    className="secondary-button"
+                    title={`Press ${SHORTCUTS.PRIME.label} to hear the reference again`}
+                  >
+                    {isScaleDegreeMode || priming?.type === 'cadence' ? 'Play Cadence' : 'Play Reference'}
+                  </button>
+                )}
               </>
             )}
           </div>
         )}
 
         {/* Only render piano keyboard for ear training modes */}
-        {/* Chord training modes render their own piano in modeDisplay */}
-        {gameState && !gameState.getMode().includes('chord') && !gameState.getMode().includes('notes') && (
+        {/* Chord training modes render their own piano in modeDisplay; rhythm modes are answered without one */}
+        {gameState && !gameState.getMode().includes('chord') && !gameState.getMode().includes('notes') && !isRhythmMode && (
           <div className={isPaused ? 'piano-container paused' : 'piano-container'}>
             <PianoKeyboard
               onNoteClick={handlePianoKeyClick}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import NoteStatsSection from './NoteStatsSection';
+import { STORAGE_KEYS } from '../constants';
+import { NOTE_STATS_VERSION } from '../types/stats';
+import type { NoteStatsStore } from '../types/stats';
+
+const storeNoteStats = (store: Omit<NoteStatsStore, 'version' | 'lastUpdated'>) => {
+  localStorage.setItem(STORAGE_KEYS.NOTE_STATS, JSON.stringify({
+    version: NOTE_STATS_VERSION,
+    lastUpdated: new Date().toISOString(),
+    ...store
+  }));
+};
+
+describe('NoteStatsSection', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should render nothing without note stats', () => {
+    const { container } = render(<NoteStatsSection />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should show accuracy per note and octave in the heatmap', () => {
+    storeNoteStats({
+      stats: {
+        'F#4': {
+          note: 'F#',
+          octave: 4,
+          totalAttempts: 4,
+          correctAttempts: 3,
+          lastPracticed: new Date().toISOString(),
+          averageAccuracy: 75
+        }
+      },
+      confusions: {}
+    });
+
+    render(<NoteStatsSection />);
+
+    expect(screen.getByTitle('F#4: 3/4 correct').textContent).toBe('75');
+    expect(screen.getByTitle('F#: 3/4 correct').textContent).toBe('75');
+  });
+
+  it('should show the confusion matrix and most confused pairs', () => {
+    storeNoteStats({
+      stats: {
+        'F#4': {
+          note: 'F#',
+          octave: 4,
+          totalAttempts: 3,
+          correctAttempts: 0,
+          lastPracticed: new Date().toISOString(),
+          averageAccuracy: 0
+        }
+      },
+      confusions: { 'F#': { G: 2, F: 1 } }
+    });
+
+    render(<NoteStatsSection />);
+    fireEvent.change(screen.getByLabelText('Note statistics:'), { target: { value: 'confusion' } });
+
+    expect(screen.getByTitle('F# heard as G: 2 times').textContent).toBe('2');
+    expect(screen.getByTitle('F# heard as F: 1 time').textContent).toBe('1');
+    expect(screen.getAllByRole('listitem')[0].textContent).toBe('F# mistaken for G (2×)');
+  });
+});
@@ -0,0 +1,171 @@
+import React, { useState, useMemo } from 'react';
+import { useNoteStats } from '../hooks/useNoteStats';
+import { ALL_NOTES } from '../types/music';
+import type { Note, Octave } from '../types/music';
+import './NoteStatsSection.css';
+
+type NoteStatsView = 'heatmap' | 'confusion';
+
+/** Number of most frequent mix-ups listed under the confusion matrix */
+const TOP_CONFUSIONS_LIMIT = 3;
+
+/**
+ * Gets a heatmap colour for an accuracy percentage, from red (0%) to green (100%).
+ */
+const getAccuracyColor = (accuracy: number): string => {
+  return `hsl(${Math.round(accuracy * 1.2)}, 60%, 35%)`;
+};
+
+/**
+ * NoteStatsSection displays long-term per-note statistics for ear training.
+ *
+ * Features:
+ * - Accuracy heatmap by pitch class and octave
+ * - Confusion matrix of played vs. guessed notes
+ * - Most frequently confused note pairs
+ */
+const NoteStatsSection: React.FC = () => {
+  const [view, setView] = useState<NoteStatsView>('heatmap');
+  const { stats, confusions, getPitchClassStats, getOctaveStats, getTopConfusions } = useNoteStats();
+
+  const octaves = useMemo(() => {
+    return (Object.keys(getOctaveStats()).map(Number) as Octave[]).sort((a, b) => b - a);
+  }, [getOctaveStats]);
+
+  const pitchClassStats = useMemo(() => getPitchClassStats(), [getPitchClassStats]);
+  const topConfusions = useMemo(() => getTopConfusions(TOP_CONFUSIONS_LIMIT), [getTopConfusions]);
+
+  const maxConfusionCount = topConfusions.length > 0 ? topConfusions[0].count : 0;
+
+  // If no note data, show minimal empty state
+  if (Object.keys(stats).length === 0) {
+    return null;
+  }
+
+  const renderHeatmap = () => (
+    <table className="note-stats-table note-heatmap">
+      <thead>
+        <tr>
+          <th scope="col">Octave</th>
+          {ALL_NOTES.map(note => (
+            <th key={note} scope="col">{note}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {octaves.map(octave => (
+          <tr key={octave}>
+            <th scope="row">{octave}</th>
+            {ALL_NOTES.map(note => {
+              const stat = stats[`${note}${octave}`];
+              if (!stat) {
+                return <td key={note} className="note-stats-empty">–</td>;
+              }
+              return (
+                <td
+                  key={note}
+                  style={{ backgroundColor: getAccuracyColor(stat.averageAccuracy) }}
+                  title={`${note}${octave}: ${stat.correctAttempts}/${stat.totalAttempts} correct`}
+                >
+                  {Math.round(stat.averageAccuracy)}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+        <tr className="note-stats-total-row">
+          <th scope="row">All</th>
+          {ALL_NOTES.map(note => {
+            const summary = pitchClassStats[note];
+            if (!summary) {
+              return <td key={note} className="note-stats-empty">–</td>;
+            }
+            return (
+              <td
+                key={note}
+                style={{ backgroundColor: getAccuracyColor(summary.averageAccuracy) }}
+                title={`${note}: ${summary.correctAttempts}/${summary.totalAttempts} correct`}
+              >
+                {Math.round(summary.averageAccuracy)}
+              </td>
+            );
+          })}
+        </tr>
+      </tbody>
+    </table>
+  );
+
+  const renderConfusionMatrix = () => (
+    <>
+      <table className="note-stats-table note-confusion-matrix">
+        <thead>
+          <tr>
+            <th scope="col" title="Played (rows) vs. guessed (columns)">Played ↓</th>
+            {ALL_NOTES.map(note => (
+              <th key={note} scope="col">{note}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {ALL_NOTES.map((actual: Note) => (
+            <tr key={actual}>
+              <th scope="row">{actual}</th>
+              {ALL_NOTES.map((guessed: Note) => {
+                const count = confusions[actual]?.[guessed] ?? 0;
+                if (count === 0) {
+                  return <td key={guessed} className="note-stats-empty" />;
+                }
+                return (
+                  <td
+                    key={guessed}
+                    style={{ backgroundColor: `rgba(220, 53, 69, ${0.2 + 0.8 * (count / maxConfusionCount)})` }}
+                    title={`${actual} heard as ${guessed}: ${count} ${count === 1 ? 'time' : 'times'}`}
+                  >
+                    {count}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {topConfusions.length > 0 ? (
+        <ul className="note-top-confusions">
+          {topConfusions.map(pair => (
+            <li key={`${pair.actual}-${pair.guessed}`}>
+              <strong>{pair.actual}</strong> mistaken for <strong>{pair.guessed}</strong> ({pair.count}×)
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="note-stats-message">No mix-ups recorded yet.</p>
+      )}
+    </>
+  );
+
+  return (
+    <div className="note-stats-section">
+      <div className="note-stats-controls">
+        <label htmlFor="note-stats-view" className="note-stats-label">
+          Note statistics:
+        </label>
+        <select
+          id="note-stats-view"
+          className="note-stats-select"
+          value={view}
+          onChange={(e) => setView(e.target.value as NoteStatsView)}
+        >
+          <option value="heatmap">Accuracy Heatmap</option>
+          <option value="confusion">Confusion Matrix</option>
+        </select>
+      </div>
+
+      <div className="note-stats-table-wrapper">
+        {view === 'heatmap' ? renderHeatmap() : renderConfusionMatrix()}
+      </div>
+    </div>
+  );
+};
+
+export default NoteStatsSection;
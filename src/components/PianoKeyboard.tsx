@@ -1,6 +1,7 @@
 import React from 'react';
-import type { Note, NoteWithOctave, Octave, NoteHighlight, NoteHighlightType } from '../types/music';
+import type { Note, NoteWithOctave, Octave, NoteHighlight, NoteHighlightType, KeyContext } from '../types/music';
 import { audioEngine } from '../utils/audioEngine';
+import { spellNote } from '../utils/noteSpelling';
 import { useSettings } from '../hooks/useSettings';
 import './PianoKeyboard.css';
 
@@ -53,6 +54,12 @@ interface PianoKeyboardProps {
    * Pass a Set of note keys (use getNoteKey format: "C-4", "D#-5", etc.)
    */
   selectedNotes?: Set<string>;
+
+  /**
+   * Optional key to spell the note labels in (e.g., "B♭" rather than "A#" in F major).
+   * Without a key, labels use sharps.
+   */
+  keyContext?: KeyContext;
 }
 
 const KEYBOARD_WIDTHS = { 1: 480, 2: 900 } as const;
@@ -67,7 +74,8 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
   monoMode = false,
   selectionMode = 'single',
   onNotesSelected,
-  selectedNotes: controlledSelectedNotes
+  selectedNotes: controlledSelectedNotes,
+  keyContext
 }) => {
   const { settings } = useSettings();
   const { noteDuration } = settings.timing;
@@ -357,7 +365,7 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
                   onClick={() => handleKeyClick(note, index)}
                   disabled={disabled}
                 >
-                  {showNoteLabels && <span className="note-label">{note}</span>}
+                  {showNoteLabels && <span className="note-label">{spellNote(note, keyContext)}</span>}
                 </button>
               );
             })}
@@ -376,7 +384,7 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
                   onClick={() => handleKeyClick(note, undefined, blackKeyOctave)}
                   disabled={disabled}
                 >
-                  {showNoteLabels && <span className="note-label">{note}</span>}
+                  {showNoteLabels && <span className="note-label">{spellNote(note, keyContext)}</span>}
                 </button>
               );
             })}
@@ -6,6 +6,7 @@ import TimingSettings from './settings/TimingSettings';
 import ModeSelector from './settings/ModeSelector';
 import AudioSettings from './settings/AudioSettings';
 import ChordFilterSettings from './settings/ChordFilterSettings';
+import DataBackupSettings from './settings/DataBackupSettings';
 import './Settings.css';
 
 interface SettingsModalProps {
@@ -23,7 +24,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onRestartGame }) => {
     { id: SETTINGS_TABS.NOTES, label: 'Note Range', icon: '🎵', supportedModes: [TRAINING_MODES.EAR_TRAINING] },
     { id: SETTINGS_TABS.CHORDS, label: 'Chords', icon: '🎹', supportedModes: [TRAINING_MODES.NOTE_TRAINING] },
     { id: SETTINGS_TABS.TIMING, label: 'Timing', icon: '⏱️', supportedModes: [TRAINING_MODES.EAR_TRAINING, TRAINING_MODES.NOTE_TRAINING] },
-    { id: SETTINGS_TABS.AUDIO, label: 'Audio', icon: '🔊', supportedModes: [TRAINING_MODES.EAR_TRAINING, TRAINING_MODES.NOTE_TRAINING] }
+    { id: SETTINGS_TABS.AUDIO, label: 'Audio', icon: '🔊', supportedModes: [TRAINING_MODES.EAR_TRAINING, TRAINING_MODES.NOTE_TRAINING] },
+    { id: SETTINGS_TABS.DATA, label: 'Data', icon: '💾', supportedModes: [TRAINING_MODES.EAR_TRAINING, TRAINING_MODES.NOTE_TRAINING] }
   ];
 
   // Filter tabs based on current training type
@@ -83,6 +85,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onRestartGame }) => {
         return <TimingSettings />;
       case SETTINGS_TABS.AUDIO:
         return <AudioSettings />;
+      case SETTINGS_TABS.DATA:
+        return <DataBackupSettings />;
       default:
         return null;
     }
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import StaffNotation from './StaffNotation';
+import { ChordEngine } from '../utils/chordEngine';
+import { spellChord } from '../utils/noteSpelling';
+
+describe('StaffNotation', () => {
+  it('should draw five lines for each staff and both clefs', () => {
+    const { container } = render(<StaffNotation notes={[]} />);
+
+    expect(container.querySelectorAll('.staff-line')).toHaveLength(11); // 10 staff lines + the system line
+    expect(container.querySelector('.staff-clef-treble')?.textContent).toBe('𝄞');
+    expect(container.querySelector('.staff-clef-bass')?.textContent).toBe('𝄢');
+  });
+
+  it('should draw a single staff with its clef', () => {
+    const { container } = render(<StaffNotation notes={[{ note: 'C', octave: 4 }]} staff="alto" />);
+
+    expect(container.querySelectorAll('.staff-line')).toHaveLength(6);
+    expect(container.querySelector('.staff-clef-alto')?.textContent).toBe('𝄡');
+    expect(container.querySelector('.staff-clef-treble')).toBeNull();
+    expect(container.querySelector('.staff-note')?.getAttribute('data-position')).toBe('4');
+    expect(container.querySelectorAll('.staff-ledger-line')).toHaveLength(0);
+  });
+
+  it('should write low notes on a treble staff with ledger lines', () => {
+    const { container } = render(<StaffNotation notes={[{ note: 'A', octave: 3 }]} staff="treble" />);
+
+    expect(container.querySelector('.staff-note')?.getAttribute('data-clef')).toBe('treble');
+    expect(container.querySelectorAll('.staff-ledger-line')).toHaveLength(2);
+  });
+
+  it('should write notes on the treble and bass staves', () => {
+    const { container } = render(
+      <StaffNotation notes={[{ note: 'C', octave: 3 }, { note: 'G', octave: 4 }]} />
+    );
+
+    const notes = container.querySelectorAll('.staff-note');
+    expect(notes).toHaveLength(2);
+    expect([...notes].map(n => n.getAttribute('data-clef')).sort()).toEqual(['bass', 'treble']);
+  });
+
+  it('should draw a ledger line for middle C', () => {
+    const { container } = render(<StaffNotation notes={[{ note: 'C', octave: 4 }]} />);
+
+    expect(container.querySelectorAll('.staff-ledger-line')).toHaveLength(1);
+  });
+
+  it('should write accidentals from the spelling', () => {
+    const chord = ChordEngine.buildChord('D#', 'major', 4);
+    const { container } = render(
+      <StaffNotation notes={chord.notes} spelling={spellChord(chord, { key: 'A#', scale: 'major' }).notes} />
+    );
+
+    const accidentals = [...container.querySelectorAll('.staff-accidental')].map(a => a.textContent);
+    expect(accidentals).toEqual(['♭', '♭']);
+  });
+
+  it('should spell notes in the key when no spelling is given', () => {
+    const { container } = render(
+      <StaffNotation notes={[{ note: 'A#', octave: 4 }]} keyContext={{ key: 'F', scale: 'major' }} />
+    );
+
+    expect(container.querySelector('.staff-accidental')?.textContent).toBe('♭');
+    expect(container.querySelector('svg')?.getAttribute('aria-label')).toBe('Staff: B♭4');
+  });
+
+  it('should move a note a second above another to the other side of the stem', () => {
+    const { container } = render(
+      <StaffNotation notes={[{ note: 'C', octave: 5 }, { note: 'D', octave: 5 }]} />
+    );
+
+    const xs = [...container.querySelectorAll('.staff-notehead')].map(n => Number(n.getAttribute('cx')));
+    expect(new Set(xs).size).toBe(2);
+  });
+
+  it('should write a sequence left to right', () => {
+    const { container } = render(
+      <StaffNotation notes={[{ note: 'C', octave: 4 }, { note: 'E', octave: 4 }, { note: 'G', octave: 4 }]} layout="sequence" />
+    );
+
+    const xs = [...container.querySelectorAll('.staff-notehead')].map(n => Number(n.getAttribute('cx')));
+    expect(xs[0]).toBeLessThan(xs[1]);
+    expect(xs[1]).toBeLessThan(xs[2]);
+  });
+
+  it('should use the given label', () => {
+    const { container } = render(<StaffNotation notes={[]} label="Answer" />);
+
+    expect(container.querySelector('svg')?.getAttribute('aria-label')).toBe('Answer');
+  });
+});
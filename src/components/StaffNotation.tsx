@@ -0,0 +1,231 @@
+import React from 'react';
+import type { NoteWithOctave, KeyContext, Clef, StaffSystem } from '../types/music';
+import type { StaffNote } from '../utils/staffPositioning';
+import { getStaffNote, getLedgerLinePositions, TOP_LINE_POSITION } from '../utils/staffPositioning';
+import { spellNote } from '../utils/noteSpelling';
+import './StaffNotation.css';
+
+interface StaffNotationProps {
+  /** Notes to write on the staff */
+  notes: NoteWithOctave[];
+
+  /**
+   * Optional written name of each note, in the same order (e.g., from spellChord).
+   * Defaults to the notes spelled in keyContext.
+   */
+  spelling?: string[];
+
+  /** Optional key to spell the notes in when no spelling is given */
+  keyContext?: KeyContext;
+
+  /** Staves to write on: a single clef or the grand staff (default: 'grand') */
+  staff?: StaffSystem;
+
+  /**
+   * How to lay out the notes (default: 'chord')
+   * - 'chord': stacked on one stem position, like a chord
+   * - 'sequence': left to right, in order
+   */
+  layout?: 'chord' | 'sequence';
+
+  /** Accessible description; defaults to the written notes */
+  label?: string;
+
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/** Half the distance between staff lines, i.e. one diatonic step */
+const STEP = 5;
+const FIRST_STAFF_BOTTOM_Y = 80;
+const STAFF_SPACING = 80;
+const CLEF_WIDTH = 44;
+const NOTE_SPACING = 40;
+const ACCIDENTAL_WIDTH = 10;
+const NOTEHEAD_WIDTH = 13;
+const LEDGER_OVERHANG = 5;
+const MARGIN = 12;
+
+const CLEF_GLYPHS: Record<Clef, string> = {
+  treble: '𝄞',
+  bass: '𝄢',
+  alto: '𝄡',
+};
+
+/** Steps above the bottom line to set each clef glyph's baseline */
+const CLEF_BASELINE_STEPS: Record<Clef, number> = {
+  treble: 2,
+  bass: 6,
+  alto: 0,
+};
+
+const ACCIDENTAL_GLYPHS: Record<string, string> = {
+  '#': '♯',
+  '♭': '♭',
+  '𝄪': '𝄪',
+  '𝄫': '𝄫',
+};
+
+interface PlacedNote {
+  staffNote: StaffNote;
+  x: number;
+  y: number;
+  accidentalX: number;
+}
+
+/** Y of the bottom line of each staff drawn */
+type BottomLineYs = Partial<Record<Clef, number>>;
+
+const getStaves = (staff: StaffSystem): Clef[] => staff === 'grand' ? ['treble', 'bass'] : [staff];
+
+const getBottomLineY = (clef: Clef, bottomLineYs: BottomLineYs): number => bottomLineYs[clef] ?? FIRST_STAFF_BOTTOM_Y;
+
+const getNoteY = (staffNote: StaffNote, bottomLineYs: BottomLineYs): number =>
+  getBottomLineY(staffNote.clef, bottomLineYs) - staffNote.position * STEP;
+
+/**
+ * Lays out stacked notes: a note a second above the one below it moves to the
+ * right of the stem, and accidentals that would overlap move further left.
+ */
+const layoutChord = (staffNotes: StaffNote[], x: number, bottomLineYs: BottomLineYs): PlacedNote[] => {
+  const sorted = [...staffNotes].sort((a, b) => getNoteY(b, bottomLineYs) - getNoteY(a, bottomLineYs));
+  const placed: PlacedNote[] = [];
+  const accidentalColumns: number[][] = [];
+
+  sorted.forEach((staffNote, index) => {
+    const y = getNoteY(staffNote, bottomLineYs);
+    const below = placed[index - 1];
+    const isSecond = below !== undefined && below.y - y === STEP && below.x === x;
+    const noteX = isSecond ? x + NOTEHEAD_WIDTH : x;
+
+    let accidentalX = x;
+    if (staffNote.accidental) {
+      // Accidentals need about six steps of vertical room in the same column
+      let column = accidentalColumns.findIndex(ys => ys.every(otherY => Math.abs(otherY - y) >= STEP * 6));
+      if (column === -1) {
+        column = accidentalColumns.length;
+        accidentalColumns.push([]);
+      }
+      accidentalColumns[column].push(y);
+      accidentalX = x - NOTEHEAD_WIDTH + 2 - column * ACCIDENTAL_WIDTH;
+    }
+
+    placed.push({ staffNote, x: noteX, y, accidentalX });
+  });
+
+  return placed;
+};
+
+/**
+ * StaffNotation component - writes notes on a treble and bass grand staff,
+ * or on a single treble, bass or alto staff
+ *
+ * Notes are drawn as whole notes with their accidentals and any ledger lines
+ * they need. On the grand staff, middle C and above go on the treble staff and
+ * lower notes on the bass staff.
+ */
+const StaffNotation: React.FC<StaffNotationProps> = ({
+  notes,
+  spelling,
+  keyContext,
+  staff = 'grand',
+  layout = 'chord',
+  label,
+  className = ''
+}) => {
+  const staves = getStaves(staff);
+  const bottomLineYs: BottomLineYs = Object.fromEntries(
+    staves.map((clef, index) => [clef, FIRST_STAFF_BOTTOM_Y + index * STAFF_SPACING])
+  );
+  const topLineY = FIRST_STAFF_BOTTOM_Y - TOP_LINE_POSITION * STEP;
+  const lastBottomLineY = FIRST_STAFF_BOTTOM_Y + (staves.length - 1) * STAFF_SPACING;
+
+  const staffNotes = notes.map((note, index) =>
+    getStaffNote(note, spelling?.[index] ?? spellNote(note.note, keyContext), staff)
+  );
+
+  const hasAccidentals = staffNotes.some(n => n.accidental);
+  const firstNoteX = CLEF_WIDTH + MARGIN + (hasAccidentals ? ACCIDENTAL_WIDTH * 2 : 0);
+
+  const placedNotes = layout === 'chord'
+    ? layoutChord(staffNotes, firstNoteX, bottomLineYs)
+    : staffNotes.map((staffNote, index) => {
+        const x = firstNoteX + index * NOTE_SPACING;
+        return { staffNote, x, y: getNoteY(staffNote, bottomLineYs), accidentalX: x - NOTEHEAD_WIDTH + 2 };
+      });
+
+  const lastNoteX = Math.max(firstNoteX, ...placedNotes.map(n => n.x));
+  const width = lastNoteX + NOTEHEAD_WIDTH + MARGIN;
+
+  // Grow the drawing for notes far above or below the staves
+  const noteYs = placedNotes.map(n => n.y);
+  const top = Math.min(topLineY - MARGIN * 2, ...noteYs.map(y => y - MARGIN));
+  const bottom = Math.max(lastBottomLineY + MARGIN * 2, ...noteYs.map(y => y + MARGIN));
+
+  const description = label
+    ?? (staffNotes.length > 0
+      ? `Staff: ${staffNotes.map(n => `${n.letter}${n.accidental}${n.octave}`).join(', ')}`
+      : 'Empty staff');
+
+  const staffLines = (clef: Clef) => Array.from({ length: 5 }, (_, i) => {
+    const y = getBottomLineY(clef, bottomLineYs) - i * STEP * 2;
+    return <line key={`${clef}-${i}`} className="staff-line" x1={0} y1={y} x2={width} y2={y} />;
+  });
+
+  return (
+    <svg
+      className={`staff-notation ${className}`.trim()}
+      role="img"
+      aria-label={description}
+      viewBox={`0 ${top} ${width} ${bottom - top}`}
+      width={width}
+      height={bottom - top}
+    >
+      {staves.map(clef => staffLines(clef))}
+      <line className="staff-line" x1={0} y1={topLineY} x2={0} y2={lastBottomLineY} />
+      {staves.map(clef => (
+        <text
+          key={clef}
+          className={`staff-clef staff-clef-${clef}`}
+          x={4}
+          y={getBottomLineY(clef, bottomLineYs) - CLEF_BASELINE_STEPS[clef] * STEP}
+        >
+          {CLEF_GLYPHS[clef]}
+        </text>
+      ))}
+
+      {placedNotes.map(({ staffNote, x, y, accidentalX }, index) => (
+        <g key={index} className="staff-note" data-clef={staffNote.clef} data-position={staffNote.position}>
+          {getLedgerLinePositions(staffNote.position).map(position => {
+            const ledgerY = getBottomLineY(staffNote.clef, bottomLineYs) - position * STEP;
+            return (
+              <line
+                key={position}
+                className="staff-ledger-line"
+                x1={x - NOTEHEAD_WIDTH / 2 - LEDGER_OVERHANG}
+                y1={ledgerY}
+                x2={x + NOTEHEAD_WIDTH / 2 + LEDGER_OVERHANG}
+                y2={ledgerY}
+              />
+            );
+          })}
+          {staffNote.accidental && (
+            <text className="staff-accidental" x={accidentalX} y={y} textAnchor="end" dominantBaseline="central">
+              {ACCIDENTAL_GLYPHS[staffNote.accidental] ?? staffNote.accidental}
+            </text>
+          )}
+          <ellipse
+            className="staff-notehead"
+            cx={x}
+            cy={y}
+            rx={NOTEHEAD_WIDTH / 2}
+            ry={STEP - 0.5}
+            transform={`rotate(-20 ${x} ${y})`}
+          />
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default StaffNotation;
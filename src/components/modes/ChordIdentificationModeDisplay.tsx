@@ -12,9 +12,12 @@ import ChordInput from '../ChordInput';
 import ChordSelection, { resolveChordType } from '../ChordSelection';
 import ChordGuessHistory from '../ChordGuessHistory';
 import FeedbackMessage from '../FeedbackMessage';
+import StaffNotation from '../StaffNotation';
 import { formatChordName } from '../../constants/chords';
 import { getKeyboardOctaveForChord } from '../../utils/chordKeyboardPositioning';
 import { audioEngine } from '../../utils/audioEngine';
+import { spellChord } from '../../utils/noteSpelling';
+import { useSettings } from '../../hooks/useSettings';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
 import { SHORTCUTS } from '../../constants/keyboardShortcuts';
 import './ChordIdentificationModeDisplay.css';
@@ -43,6 +46,12 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
   const [feedback, setFeedback] = useState<{ message: string; type: FeedbackType } | null>(null);
   const [, forceUpdate] = React.useReducer(x => x + 1, 0);
 
+  // Spell chord and note names in the training key, if one is set
+  const keyContext = noteTrainingSettings.chordFilter.keyFilter;
+  const { settings } = useSettings();
+  const showStaff = settings.showStaffNotation;
+  const chordSpelling = currentChord ? spellChord(currentChord, keyContext).notes : [];
+
   // Calculate accuracy
   const accuracy = totalAttempts > 0 ? Math.round((correctChordsCount / totalAttempts) * 100) : 0;
 
@@ -104,11 +113,11 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
     forceUpdate();
   };
 
-  // Handle playing the current chord
+  // Handle playing the current chord in the chosen playback style
   const handlePlayChord = () => {
     if (currentChord) {
       try {
-        audioEngine.playChord(currentChord, '2n');
+        audioEngine.playChordWithStyle(currentChord, settings.timing.chordPlayback, '2n');
       } catch (error) {
         console.error('Failed to play chord:', error);
       }
@@ -188,18 +197,21 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
       code: SHORTCUTS.REPLAY.code,
       handler: handlePlayChord,
       enabled: !!currentChord && !gameState.isCompleted,
+      action: 'replay',
     },
     // N: Next chord
     {
       key: SHORTCUTS.NEXT.key,
       handler: handleNextChord,
       enabled: !!currentChord && !gameState.isCompleted,
+      action: 'next',
     },
     // S: Start practice
     {
       key: SHORTCUTS.START.key,
       handler: handleStartPractice,
       enabled: !currentChord && !gameState.isCompleted,
+      action: 'start',
     },
     // R: Play again (after game completion)
     {
@@ -247,6 +259,7 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
       {(currentNote || gameState.isCompleted) && (
         <ChordGuessHistory
           attempts={gameState.guessHistory}
+          sessionMode={gameState.getMode()}
           mode="identification"
           maxDisplay={10}
         />
@@ -271,7 +284,12 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
         <FeedbackMessage
           message={feedback.message}
           type={feedback.type}
-        />
+        >
+          {/* Write the revealed answer on the staff */}
+          {showStaff && feedback.type === 'error' && currentChord && (
+            <StaffNotation notes={currentChord.notes} spelling={chordSpelling} />
+          )}
+        </FeedbackMessage>
       )}
 
       {/* 5. Chord Buttons */}
@@ -311,6 +329,11 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
 
       {/* Play Again button removed - now handled by completion controls in NoteIdentification */}
 
+      {/* Staff with the Displayed Notes */}
+      {showStaff && currentChord && currentNote && !gameState.isCompleted && (
+        <StaffNotation notes={currentChord.notes} spelling={chordSpelling} label="Notes of the chord to identify" />
+      )}
+
       {/* Piano Keyboard with Highlighted Notes */}
       {currentChord && currentNote && !gameState.isCompleted && (
         <div className="piano-container">
@@ -320,6 +343,7 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
             octave={keyboardOctave} // Position keyboard to show chord at lowest position
             numOctaves={2} // Use 2-octave keyboard for chord display
             disabled={true} // Keyboard is display-only in this mode
+            keyContext={keyContext}
           />
         </div>
       )}
@@ -337,6 +361,7 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
             onSubmit={handleSubmitGuess}
             disabled={gameState.isCompleted}
             placeholder="e.g., C, Dm, Gmaj7, F#m"
+            keyContext={keyContext}
           />
 
           <ChordSelection
@@ -365,6 +390,8 @@ const ChordIdentificationModeDisplay: React.FC<ChordIdentificationModeDisplayPro
         <ChordDisplay
           chord={currentChord}
           showInstructions={false}
+          keyContext={keyContext}
+          showStaff={showStaff}
         />
       )}
     </>
@@ -0,0 +1,355 @@
+import React, { useEffect, useCallback, useRef } from 'react';
+import type { SingleChordGameState } from '../../game/SingleChordGameState';
+import type { CommonDisplayProps } from '../../game/GameStateFactory';
+import type { NoteHighlight } from '../../types/music';
+import type { ChordPerformance, MidiNoteEvent } from '../../types/midi';
+import type { FeedbackType } from '../FeedbackMessage';
+import TimerDigital from '../TimerDigital';
+import TimerCircular from '../TimerCircular';
+import PianoKeyboard from '../PianoKeyboard';
+import ChordDisplay from '../ChordDisplay';
+import ChordGuessHistory from '../ChordGuessHistory';
+import FeedbackMessage from '../FeedbackMessage';
+import { getKeyboardOctaveForChord } from '../../utils/chordKeyboardPositioning';
+import { analyzeChordPerformance, DEFAULT_ONSET_WINDOW } from '../../utils/chordPerformance';
+import { audioEngine } from '../../utils/audioEngine';
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
+import { useSettings } from '../../hooks/useSettings';
+import { SHORTCUTS } from '../../constants/keyboardShortcuts';
+import { MidiManager } from '../../services/MidiManager';
+import './SingleChordModeDisplay.css';
+import './ChordVoicingModeDisplay.css';
+
+interface ChordVoicingModeDisplayProps extends CommonDisplayProps {
+  gameState: SingleChordGameState;
+}
+
+const ChordVoicingModeDisplay: React.FC<ChordVoicingModeDisplayProps> = ({
+  gameState,
+  currentNote,
+  sessionTimeRemaining,
+  timeRemaining,
+  responseTimeLimit,
+  isPaused,
+  onAdvanceRound,
+  onPlayAgain,
+  onSubmitClick,
+  completionControls
+}) => {
+  const { currentChord, correctChordsCount, currentStreak, totalAttempts, noteTrainingSettings } = gameState;
+  const { settings } = useSettings();
+  const [, forceUpdate] = React.useReducer(x => x + 1, 0);
+  const [feedback, setFeedback] = React.useState<{ message: string; type: FeedbackType } | null>(null);
+  const [lastPerformance, setLastPerformance] = React.useState<ChordPerformance | null>(null);
+  // MIDI note numbers of the keys held down in the current attempt
+  const [heldMidiNotes, setHeldMidiNotes] = React.useState<Map<number, MidiNoteEvent>>(new Map());
+
+  const keyContext = noteTrainingSettings.chordFilter.keyFilter;
+  const onsetWindow = noteTrainingSettings.onsetWindow ?? DEFAULT_ONSET_WINDOW;
+
+  // Calculate accuracy
+  const accuracy = totalAttempts > 0 ? Math.round((correctChordsCount / totalAttempts) * 100) : 0;
+
+  // Determine if timer is active
+  const isTimerActive = gameState.startTime !== undefined && !gameState.isCompleted && !isPaused;
+
+  // Determine if round timer is active
+  const isRoundTimerActive = currentNote && !gameState.isCompleted && !isPaused;
+
+  /**
+   * Score an attempt once every key has been released: the note on events
+   * pressed since the first key went down are analyzed and submitted together.
+   */
+  const handleChordReleased = useCallback((events: MidiNoteEvent[]) => {
+    if (!currentChord || gameState.isCompleted || isPaused) return;
+
+    const performance = analyzeChordPerformance(events, currentChord, onsetWindow);
+    setLastPerformance(performance);
+
+    gameState.selectPerformance(performance);
+
+    // Submit through orchestrator (single validation path)
+    onSubmitClick?.();
+
+    // Read result from game state (set synchronously by orchestrator's validation)
+    const result = gameState.lastSubmitResult;
+    if (result) {
+      setFeedback({
+        message: result.feedback,
+        type: result.shouldAdvance || result.gameCompleted ? 'success' : 'error'
+      });
+    }
+
+    forceUpdate();
+  }, [currentChord, gameState, isPaused, onsetWindow, onSubmitClick]);
+
+  // Use refs to avoid stale closures in MIDI event handlers
+  const attemptRef = useRef<{ events: MidiNoteEvent[]; held: Set<number> }>({ events: [], held: new Set() });
+  const handleChordReleasedRef = useRef(handleChordReleased);
+  handleChordReleasedRef.current = handleChordReleased;
+
+  // MIDI input integration - an attempt starts with the first key pressed
+  // and ends when all keys are released
+  useEffect(() => {
+    const midiManager = MidiManager.getInstance();
+
+    const handleMidiNoteOn = (event: MidiNoteEvent) => {
+      const attempt = attemptRef.current;
+      attempt.events.push(event);
+      attempt.held.add(event.midiNote);
+
+      setHeldMidiNotes(prev => new Map(prev).set(event.midiNote, event));
+    };
+
+    const handleMidiNoteOff = (event: MidiNoteEvent) => {
+      const attempt = attemptRef.current;
+      attempt.held.delete(event.midiNote);
+
+      setHeldMidiNotes(prev => {
+        const next = new Map(prev);
+        next.delete(event.midiNote);
+        return next;
+      });
+
+      if (attempt.held.size === 0 && attempt.events.length > 0) {
+        const events = attempt.events;
+        attemptRef.current = { events: [], held: new Set() };
+        handleChordReleasedRef.current(events);
+      }
+    };
+
+    // Subscribe to MIDI events
+    midiManager.on('noteOn', handleMidiNoteOn);
+    midiManager.on('noteOff', handleMidiNoteOff);
+
+    // Cleanup
+    return () => {
+      midiManager.off('noteOn', handleMidiNoteOn);
+      midiManager.off('noteOff', handleMidiNoteOff);
+    };
+  }, []);
+
+  // Clear the previous chord's report when the chord changes (new round)
+  useEffect(() => {
+    setLastPerformance(null);
+    setFeedback(null);
+  }, [currentChord]);
+
+  // Handle playing the current chord in the chosen playback style
+  const handlePlayChord = () => {
+    if (currentChord) {
+      try {
+        audioEngine.playChordWithStyle(currentChord, settings.timing.chordPlayback, '2n');
+      } catch (error) {
+        console.error('Failed to play chord:', error);
+      }
+    }
+  };
+
+  // Handle next chord button
+  const handleNextChord = () => {
+    setFeedback(null);
+    onAdvanceRound?.(0); // Advance immediately
+  };
+
+  // Handle start practice
+  const handleStartPractice = () => {
+    onAdvanceRound?.(0);
+  };
+
+  // Keyboard shortcuts
+  useKeyboardShortcuts([
+    // Space: Play chord again
+    {
+      key: SHORTCUTS.REPLAY.key,
+      code: SHORTCUTS.REPLAY.code,
+      handler: handlePlayChord,
+      enabled: !!currentChord && !gameState.isCompleted,
+      action: 'replay',
+    },
+    // N: Next chord
+    {
+      key: SHORTCUTS.NEXT.key,
+      handler: handleNextChord,
+      enabled: !!currentChord && !gameState.isCompleted,
+      action: 'next',
+    },
+    // S: Start practice
+    {
+      key: SHORTCUTS.START.key,
+      handler: handleStartPractice,
+      enabled: !currentChord && !gameState.isCompleted,
+      action: 'start',
+    },
+    // R: Play again (after game completion)
+    {
+      key: SHORTCUTS.PLAY_AGAIN.key,
+      handler: () => onPlayAgain && onPlayAgain(),
+      enabled: gameState.isCompleted,
+    },
+  ], {
+    enabled: !isPaused,
+  });
+
+  // Scored notes from the last attempt, plus the keys held right now
+  const highlights: NoteHighlight[] = [
+    ...gameState.getNoteHighlights(),
+    ...Array.from(heldMidiNotes.values()).map(event => ({ note: event.note, type: 'held' as const }))
+  ];
+
+  // Calculate the keyboard's base octave to show the chord at its lowest position
+  const keyboardOctave = currentChord
+    ? getKeyboardOctaveForChord(currentChord.notes)
+    : 4;
+
+  return (
+    <>
+      {/* 1. Game Stats */}
+      {(currentNote || gameState.isCompleted) && (
+        <div className="chord-stats-section">
+          <TimerDigital
+            elapsedTime={sessionTimeRemaining ?? 0}
+            isActive={isTimerActive}
+          />
+          <div className="chord-progress">
+            {gameState.isCompleted ? (
+              <p>🎉 Training Complete! {correctChordsCount}/{noteTrainingSettings.targetChords} chords played</p>
+            ) : (
+              <div className="progress-stats">
+                <div className="stat-item">
+                  <span className="stat-label">Progress:</span>
+                  <span className="stat-value">{correctChordsCount}/{noteTrainingSettings.targetChords || '∞'}</span>
+                </div>
+                <div className="stat-item">
+                  <span className="stat-label">Streak:</span>
+                  <span className="stat-value">{currentStreak}</span>
+                </div>
+                <div className="stat-item">
+                  <span className="stat-label">Accuracy:</span>
+                  <span className="stat-value">{accuracy}%</span>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 2. Guess History */}
+      {(currentNote || gameState.isCompleted) && (
+        <ChordGuessHistory
+          attempts={gameState.guessHistory}
+          sessionMode={gameState.getMode()}
+          mode="training"
+          maxDisplay={10}
+        />
+      )}
+
+      {/* 2.5. Completion Controls (when game is completed) */}
+      {completionControls}
+
+      {/* 3. Timer */}
+      {currentNote && !gameState.isCompleted && responseTimeLimit && (
+        <div className="round-timer-container">
+          <TimerCircular
+            timeLimit={responseTimeLimit}
+            timeRemaining={timeRemaining ?? 0}
+            isActive={isRoundTimerActive}
+          />
+        </div>
+      )}
+
+      {/* 4. Feedback */}
+      {feedback && (
+        <FeedbackMessage
+          message={feedback.message}
+          type={feedback.type}
+        />
+      )}
+
+      {/* 5. Chord Buttons */}
+      {!currentChord && !gameState.isCompleted && (
+        <div className="audio-controls">
+          <button
+            onClick={handleStartPractice}
+            disabled={isPaused}
+            className="primary-button"
+            title="Press S to start"
+          >
+            Start Practice <span className="shortcut-hint">(S)</span>
+          </button>
+        </div>
+      )}
+
+      {currentChord && !gameState.isCompleted && (
+        <div className="audio-controls">
+          <button
+            onClick={handlePlayChord}
+            disabled={isPaused}
+            className="primary-button"
+            title="Press Space to replay"
+          >
+            Play Chord Again <span className="shortcut-hint">(Space)</span>
+          </button>
+          <button
+            onClick={handleNextChord}
+            disabled={isPaused}
+            className="secondary-button"
+            title="Press N to skip"
+          >
+            Next Chord <span className="shortcut-hint">(N)</span>
+          </button>
+        </div>
+      )}
+
+      {/* 6. Chord Name and Voicing */}
+      {(currentNote || gameState.isCompleted) && (
+        <ChordDisplay
+          chord={currentChord}
+          showInstructions={false}
+          keyContext={keyContext}
+          showStaff
+        />
+      )}
+
+      {/* 7. Performance Report */}
+      {currentChord && !gameState.isCompleted && (
+        <div className="voicing-report">
+          {lastPerformance ? (
+            <>
+              <div className={`voicing-metric ${lastPerformance.isSimultaneous ? 'good' : 'poor'}`}>
+                <span className="voicing-metric-label">Timing spread</span>
+                <span className="voicing-metric-value">{Math.round(lastPerformance.timingSpread)}ms</span>
+              </div>
+              <div className="voicing-metric">
+                <span className="voicing-metric-label">Velocity balance</span>
+                <span className="voicing-metric-value">{lastPerformance.velocityBalance}%</span>
+              </div>
+              <div className={`voicing-metric ${lastPerformance.voicingAccuracy === 100 ? 'good' : 'poor'}`}>
+                <span className="voicing-metric-label">Voicing</span>
+                <span className="voicing-metric-value">{Math.round(lastPerformance.voicingAccuracy)}%</span>
+              </div>
+            </>
+          ) : (
+            <p className="voicing-instructions">
+              Play the written voicing on your MIDI keyboard with all notes within {onsetWindow}ms, then release
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* 8. Keyboard (shows what was played; chords are answered on the MIDI keyboard) */}
+      <div className="piano-container">
+        <PianoKeyboard
+          onNoteClick={() => {}}
+          highlights={highlights}
+          octave={keyboardOctave}
+          numOctaves={2}
+          disabled={gameState.isCompleted || !currentChord}
+          keyContext={keyContext}
+        />
+      </div>
+    </>
+  );
+};
+
+export default ChordVoicingModeDisplay;
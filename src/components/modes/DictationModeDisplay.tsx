@@ -0,0 +1,160 @@
+import React from 'react';
+import type { DictationGameState } from '../../game/DictationGameState';
+import type { CommonDisplayProps } from '../../game/GameStateFactory';
+import TimerDigital from '../TimerDigital';
+import TimerCircular from '../TimerCircular';
+import './DictationModeDisplay.css';
+
+interface DictationModeDisplayProps extends CommonDisplayProps {
+  gameState: DictationGameState;
+}
+
+const RESULT_MARKS = {
+  correct: '✓',
+  wrong: '✗',
+  missed: '–'
+} as const;
+
+const DictationModeDisplay: React.FC<DictationModeDisplayProps> = ({
+  gameState,
+  responseTimeLimit,
+  currentNote,
+  isPaused,
+  timeRemaining,
+  onTimerUpdate,
+  onSubmitClick,
+  onReplayFromPosition
+}) => {
+  const { dictationSettings, currentMelody, enteredNotes, lastAlignment } = gameState;
+  const [, forceUpdate] = React.useReducer(x => x + 1, 0);
+
+  // Round timer is active when there's a current melody, game not completed, and not paused
+  const isTimerActive = currentNote && !gameState.isCompleted && !isPaused;
+
+  // Update parent with note timer state (optional callback)
+  React.useEffect(() => {
+    if (timeRemaining !== undefined) {
+      onTimerUpdate?.(timeRemaining, isTimerActive);
+    }
+  }, [timeRemaining, isTimerActive, onTimerUpdate]);
+
+  const isAnswerLocked = isPaused || gameState.isRoundSolved;
+
+  const handleUndo = () => {
+    gameState.removeLastEnteredNote();
+    forceUpdate();
+  };
+
+  const handleClear = () => {
+    gameState.clearEnteredNotes();
+    forceUpdate();
+  };
+
+  const getSlotClassName = (index: number): string => {
+    let className = 'dictation-slot';
+    if (lastAlignment) {
+      className += ` ${lastAlignment.noteResults[index]}`;
+    } else if (index < enteredNotes.length) {
+      className += ' entered';
+    }
+    return className;
+  };
+
+  const getSlotLabel = (index: number): string => {
+    if (!currentMelody) return '?';
+
+    // Only correctly entered notes are named, so a wrong attempt doesn't give the melody away
+    if (lastAlignment) {
+      return lastAlignment.noteResults[index] === 'correct' ? gameState.formatNote(currentMelody.notes[index]) : RESULT_MARKS[lastAlignment.noteResults[index]];
+    }
+    return index < enteredNotes.length ? gameState.formatNote(enteredNotes[index]) : '?';
+  };
+
+  return (
+    <>
+      {/* Dictation Progress Section */}
+      {(currentNote || gameState.isCompleted) && (
+        <div className="timer-section">
+          <TimerDigital
+            elapsedTime={gameState.elapsedTime}
+            isActive={!gameState.isCompleted && gameState.startTime !== undefined}
+          />
+          <div className="dictation-progress">
+            {gameState.isCompleted ? (
+              <p>🎉 Completed! {gameState.correctCount}/{dictationSettings.targetMelodies} melodies - Free play mode</p>
+            ) : (
+              <p>Progress: {gameState.correctCount}/{dictationSettings.targetMelodies} melodies</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Individual Round Timer */}
+      {responseTimeLimit && currentNote && !gameState.isCompleted && (
+        <div className="timer-section">
+          <TimerCircular
+            timeLimit={responseTimeLimit}
+            timeRemaining={timeRemaining ?? 0}
+            isActive={isTimerActive}
+          />
+        </div>
+      )}
+
+      {/* Melody Answer */}
+      {currentNote && currentMelody && !gameState.isCompleted && (
+        <>
+          <p className="dictation-key">
+            Key: {currentMelody.key.key} {currentMelody.key.scale}
+          </p>
+
+          <div className="dictation-slots" role="group" aria-label="Melody notes">
+            {currentMelody.notes.map((_, index) => (
+              <button
+                key={index}
+                className={getSlotClassName(index)}
+                onClick={() => onReplayFromPosition?.(index)}
+                disabled={isPaused}
+                aria-label={`Replay from note ${index + 1}`}
+                title={`Replay from note ${index + 1}`}
+              >
+                {getSlotLabel(index)}
+              </button>
+            ))}
+          </div>
+
+          {lastAlignment && lastAlignment.extraNotes > 0 && (
+            <p className="dictation-extra-notes">
+              {lastAlignment.extraNotes} extra {lastAlignment.extraNotes === 1 ? 'note' : 'notes'} played
+            </p>
+          )}
+
+          <div className="dictation-actions">
+            <button
+              className="dictation-clear-button"
+              onClick={handleUndo}
+              disabled={isAnswerLocked || enteredNotes.length === 0 || !!lastAlignment}
+            >
+              Undo
+            </button>
+            <button
+              className="dictation-clear-button"
+              onClick={handleClear}
+              disabled={isAnswerLocked || enteredNotes.length === 0}
+            >
+              Clear
+            </button>
+            <button
+              className="dictation-submit-button"
+              onClick={() => onSubmitClick?.()}
+              disabled={isAnswerLocked || enteredNotes.length === 0 || !!lastAlignment}
+            >
+              Submit
+            </button>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+export default DictationModeDisplay;
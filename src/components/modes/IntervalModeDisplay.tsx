@@ -0,0 +1,95 @@
+import React from 'react';
+import type { IntervalGameState } from '../../game/IntervalGameState';
+import type { CommonDisplayProps } from '../../game/GameStateFactory';
+import { INTERVALS } from '../../constants/intervals';
+import TimerDigital from '../TimerDigital';
+import TimerCircular from '../TimerCircular';
+import './IntervalModeDisplay.css';
+
+interface IntervalModeDisplayProps extends CommonDisplayProps {
+  gameState: IntervalGameState;
+}
+
+const IntervalModeDisplay: React.FC<IntervalModeDisplayProps> = ({
+  gameState,
+  responseTimeLimit,
+  currentNote,
+  isPaused,
+  timeRemaining,
+  onTimerUpdate,
+  onSubmitClick
+}) => {
+  const { intervalSettings } = gameState;
+
+  // Round timer is active when there's a current interval, game not completed, and not paused
+  const isTimerActive = currentNote && !gameState.isCompleted && !isPaused;
+
+  // Update parent with note timer state (optional callback)
+  React.useEffect(() => {
+    if (timeRemaining !== undefined) {
+      onTimerUpdate?.(timeRemaining, isTimerActive);
+    }
+  }, [timeRemaining, isTimerActive, onTimerUpdate]);
+
+  // Only offer the intervals enabled in settings, in ascending size
+  const answerOptions = INTERVALS.filter(interval =>
+    intervalSettings.enabledIntervals.includes(interval.semitones)
+  );
+
+  const handleAnswerClick = (semitones: number) => {
+    gameState.selectIntervalAnswer(semitones);
+    onSubmitClick?.();
+  };
+
+  return (
+    <>
+      {/* Interval Progress Section */}
+      {(currentNote || gameState.isCompleted) && (
+        <div className="timer-section">
+          <TimerDigital
+            elapsedTime={gameState.elapsedTime}
+            isActive={!gameState.isCompleted && gameState.startTime !== undefined}
+          />
+          <div className="interval-progress">
+            {gameState.isCompleted ? (
+              <p>🎉 Completed! {gameState.correctCount}/{intervalSettings.targetIntervals} intervals - Free play mode</p>
+            ) : (
+              <p>Progress: {gameState.correctCount}/{intervalSettings.targetIntervals} intervals</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Individual Round Timer */}
+      {responseTimeLimit && currentNote && !gameState.isCompleted && (
+        <div className="timer-section">
+          <TimerCircular
+            timeLimit={responseTimeLimit}
+            timeRemaining={timeRemaining ?? 0}
+            isActive={isTimerActive}
+          />
+        </div>
+      )}
+
+      {/* Interval Name Answers */}
+      {currentNote && !gameState.isCompleted && (
+        <div className="interval-answers" role="group" aria-label="Interval answers">
+          {answerOptions.map(interval => (
+            <button
+              key={interval.semitones}
+              className="interval-answer-button"
+              onClick={() => handleAnswerClick(interval.semitones)}
+              disabled={isPaused || gameState.isRoundSolved}
+              title={interval.name}
+            >
+              <span className="interval-short-name">{interval.shortName}</span>
+              <span className="interval-full-name">{interval.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default IntervalModeDisplay;
@@ -0,0 +1,159 @@
+import React from 'react';
+import type { ProgressionGameState } from '../../game/ProgressionGameState';
+import type { CommonDisplayProps } from '../../game/GameStateFactory';
+import TimerDigital from '../TimerDigital';
+import TimerCircular from '../TimerCircular';
+import './ProgressionModeDisplay.css';
+
+interface ProgressionModeDisplayProps extends CommonDisplayProps {
+  gameState: ProgressionGameState;
+}
+
+const ProgressionModeDisplay: React.FC<ProgressionModeDisplayProps> = ({
+  gameState,
+  responseTimeLimit,
+  currentNote,
+  isPaused,
+  timeRemaining,
+  onTimerUpdate,
+  onSubmitClick
+}) => {
+  const { progressionSettings, currentProgression, selectedNumerals, lastPositionResults } = gameState;
+  const [activePosition, setActivePosition] = React.useState(0);
+  const [, forceUpdate] = React.useReducer(x => x + 1, 0);
+
+  // Round timer is active when there's a current progression, game not completed, and not paused
+  const isTimerActive = currentNote && !gameState.isCompleted && !isPaused;
+
+  // Update parent with note timer state (optional callback)
+  React.useEffect(() => {
+    if (timeRemaining !== undefined) {
+      onTimerUpdate?.(timeRemaining, isTimerActive);
+    }
+  }, [timeRemaining, isTimerActive, onTimerUpdate]);
+
+  // Start each new progression on its first chord
+  React.useEffect(() => {
+    setActivePosition(0);
+  }, [currentProgression]);
+
+  const isAnswerLocked = isPaused || gameState.isRoundSolved;
+
+  const handleNumeralClick = (numeral: string) => {
+    gameState.setNumeralAnswer(activePosition, numeral);
+
+    // Move on to the next empty chord so answers can be entered in one pass
+    const nextEmpty = gameState.selectedNumerals.findIndex(
+      (selected, index) => selected === null && index > activePosition
+    );
+    if (nextEmpty !== -1) {
+      setActivePosition(nextEmpty);
+    }
+    forceUpdate();
+  };
+
+  const handleClear = () => {
+    gameState.clearNumeralAnswers();
+    setActivePosition(0);
+    forceUpdate();
+  };
+
+  const getSlotClassName = (index: number): string => {
+    let className = 'progression-slot';
+    if (index === activePosition && !isAnswerLocked) className += ' active';
+    if (lastPositionResults) {
+      className += lastPositionResults[index] ? ' correct' : ' incorrect';
+    }
+    return className;
+  };
+
+  return (
+    <>
+      {/* Progression Progress Section */}
+      {(currentNote || gameState.isCompleted) && (
+        <div className="timer-section">
+          <TimerDigital
+            elapsedTime={gameState.elapsedTime}
+            isActive={!gameState.isCompleted && gameState.startTime !== undefined}
+          />
+          <div className="progression-progress">
+            {gameState.isCompleted ? (
+              <p>🎉 Completed! {gameState.correctCount}/{progressionSettings.targetProgressions} progressions - Free play mode</p>
+            ) : (
+              <p>Progress: {gameState.correctCount}/{progressionSettings.targetProgressions} progressions</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Individual Round Timer */}
+      {responseTimeLimit && currentNote && !gameState.isCompleted && (
+        <div className="timer-section">
+          <TimerCircular
+            timeLimit={responseTimeLimit}
+            timeRemaining={timeRemaining ?? 0}
+            isActive={isTimerActive}
+          />
+        </div>
+      )}
+
+      {/* Roman Numeral Answers */}
+      {currentNote && currentProgression && !gameState.isCompleted && (
+        <>
+          <p className="progression-key">
+            Key: {currentProgression.key} {currentProgression.keyType}
+          </p>
+
+          <div className="progression-slots" role="group" aria-label="Chord answers">
+            {selectedNumerals.map((numeral, index) => (
+              <button
+                key={index}
+                className={getSlotClassName(index)}
+                onClick={() => setActivePosition(index)}
+                disabled={isAnswerLocked}
+                aria-label={`Chord ${index + 1}`}
+              >
+                {numeral ?? '?'}
+                {lastPositionResults && (
+                  <span className="progression-slot-mark">{lastPositionResults[index] ? '✓' : '✗'}</span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="progression-numerals" role="group" aria-label="Roman numerals">
+            {gameState.getAvailableNumerals().map(numeral => (
+              <button
+                key={numeral}
+                className="progression-numeral-button"
+                onClick={() => handleNumeralClick(numeral)}
+                disabled={isAnswerLocked}
+              >
+                {numeral}
+              </button>
+            ))}
+          </div>
+
+          <div className="progression-actions">
+            <button
+              className="progression-clear-button"
+              onClick={handleClear}
+              disabled={isAnswerLocked}
+            >
+              Clear
+            </button>
+            <button
+              className="progression-submit-button"
+              onClick={() => onSubmitClick?.()}
+              disabled={isAnswerLocked || !gameState.isAnswerComplete()}
+            >
+              Submit
+            </button>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+export default ProgressionModeDisplay;
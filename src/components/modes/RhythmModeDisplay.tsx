@@ -0,0 +1,327 @@
+import React, { useEffect, useCallback, useRef } from 'react';
+import type { RhythmGameState } from '../../game/RhythmGameState';
+import type { CommonDisplayProps } from '../../game/GameStateFactory';
+import type { NoteDuration, RhythmEvent } from '../../types/music';
+import type { MidiNoteEvent } from '../../types/midi';
+import TimerDigital from '../TimerDigital';
+import TimerCircular from '../TimerCircular';
+import { formatRhythmEvent } from '../../utils/rhythm';
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
+import { useMidiActions } from '../../hooks/useMidiActions';
+import { SHORTCUTS } from '../../constants/keyboardShortcuts';
+import { MidiManager } from '../../services/MidiManager';
+import './RhythmModeDisplay.css';
+
+interface RhythmModeDisplayProps extends CommonDisplayProps {
+  gameState: RhythmGameState;
+}
+
+const DURATION_NAMES: Record<NoteDuration, string> = {
+  '1n': 'Whole',
+  '2n': 'Half',
+  '4n': 'Quarter',
+  '8n': 'Eighth'
+};
+
+const RESULT_MARKS = {
+  wrong: '✗',
+  missed: '–'
+} as const;
+
+const formatOffset = (offset: number): string => {
+  const rounded = Math.round(offset);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+const RhythmModeDisplay: React.FC<RhythmModeDisplayProps> = ({
+  gameState,
+  responseTimeLimit,
+  currentNote,
+  isPaused,
+  timeRemaining,
+  onTimerUpdate,
+  onSubmitClick
+}) => {
+  const { rhythmSettings, answerMethod, currentPattern, taps, notatedEvents, lastAnswer } = gameState;
+  const [, forceUpdate] = React.useReducer(x => x + 1, 0);
+
+  const isTapMode = answerMethod === 'tap';
+  const hasChallenge = !!currentNote && !!currentPattern && !gameState.isCompleted;
+
+  // Round timer is active when there's a current pattern, game not completed, and not paused
+  const isTimerActive = currentNote && !gameState.isCompleted && !isPaused;
+
+  // Update parent with note timer state (optional callback)
+  useEffect(() => {
+    if (timeRemaining !== undefined) {
+      onTimerUpdate?.(timeRemaining, isTimerActive);
+    }
+  }, [timeRemaining, isTimerActive, onTimerUpdate]);
+
+  const isAnswerLocked = !hasChallenge || isPaused || gameState.isRoundSolved;
+
+  /**
+   * Record a tap from a key, the mouse or a MIDI note, and submit through the
+   * orchestrator once every note of the pattern has been tapped.
+   */
+  const handleTap = useCallback((timestamp: number) => {
+    if (isAnswerLocked || !isTapMode) return;
+
+    if (gameState.addTap(timestamp) === 'complete') {
+      onSubmitClick?.();
+    }
+    forceUpdate();
+  }, [gameState, isAnswerLocked, isTapMode, onSubmitClick]);
+
+  // Keep a ref to the latest handler so the MIDI subscription doesn't go stale
+  const handleTapRef = useRef(handleTap);
+  handleTapRef.current = handleTap;
+
+  // MIDI input integration - any note on is a tap, timed by the MIDI timestamp
+  useEffect(() => {
+    const midiManager = MidiManager.getInstance();
+
+    const handleMidiNoteOn = (event: MidiNoteEvent) => {
+      handleTapRef.current(event.timestamp);
+    };
+
+    midiManager.on('noteOn', handleMidiNoteOn);
+
+    return () => {
+      midiManager.off('noteOn', handleMidiNoteOn);
+    };
+  }, []);
+
+  // T: Tap (held-down repeats would add taps that weren't played)
+  useKeyboardShortcuts([
+    {
+      key: SHORTCUTS.TAP.key,
+      handler: () => handleTap(performance.now()),
+      enabled: isTapMode && !isAnswerLocked,
+      ignoreRepeat: true,
+    },
+  ], {
+    enabled: !isPaused,
+  });
+
+  const handleNotate = (event: RhythmEvent) => {
+    if (isAnswerLocked) return;
+
+    if (gameState.addNotatedEvent(event) === 'complete') {
+      onSubmitClick?.();
+    }
+    forceUpdate();
+  };
+
+  const handleUndo = () => {
+    gameState.removeLastNotatedEvent();
+    forceUpdate();
+  };
+
+  const handleClear = () => {
+    gameState.clearAnswer();
+    forceUpdate();
+  };
+
+  // Mapped MIDI controls can clear and submit without reaching for the buttons
+  useMidiActions([
+    {
+      action: 'clear',
+      handler: handleClear,
+      enabled: !isAnswerLocked && gameState.getAnswerLength() > 0,
+    },
+    {
+      action: 'submit',
+      handler: () => onSubmitClick?.(),
+      enabled: !isAnswerLocked && gameState.getAnswerLength() > 0 && !lastAnswer,
+    },
+  ]);
+
+  /**
+   * Class and label of each event of the pattern (tap mode).
+   * Results and offsets are listed per note, so rests are skipped when reading them.
+   */
+  const renderTappedPattern = () => {
+    if (!currentPattern) return null;
+
+    let noteIndex = 0;
+    return currentPattern.events.map((event, index) => {
+      let className = 'rhythm-slot';
+      let offsetLabel: string | null = null;
+
+      if (event.isRest) {
+        className += ' rest';
+      } else {
+        const result = lastAnswer?.eventResults[noteIndex];
+        const offset = lastAnswer?.offsets?.[noteIndex];
+        if (result) {
+          className += ` ${result}`;
+          offsetLabel = offset !== undefined && offset !== null ? formatOffset(offset) : RESULT_MARKS.missed;
+        } else if (noteIndex < taps.length) {
+          className += ' entered';
+        }
+        noteIndex++;
+      }
+
+      return (
+        <div key={index} className={className}>
+          <span className="rhythm-symbol">{formatRhythmEvent(event)}</span>
+          {offsetLabel && <span className="rhythm-offset">{offsetLabel}</span>}
+        </div>
+      );
+    });
+  };
+
+  /**
+   * The notated answer, or the pattern's marks once it has been scored (notate mode).
+   * Only correctly notated values are shown after scoring, so a wrong attempt doesn't give the pattern away.
+   */
+  const renderNotatedPattern = () => {
+    if (!currentPattern) return null;
+
+    if (lastAnswer) {
+      return currentPattern.events.map((event, index) => {
+        const result = lastAnswer.eventResults[index];
+        return (
+          <div key={index} className={`rhythm-slot ${result}`}>
+            <span className="rhythm-symbol">
+              {result === 'correct' ? formatRhythmEvent(event) : RESULT_MARKS[result === 'missed' ? 'missed' : 'wrong']}
+            </span>
+          </div>
+        );
+      });
+    }
+
+    if (notatedEvents.length === 0) {
+      return <div className="rhythm-slot"><span className="rhythm-symbol">?</span></div>;
+    }
+
+    return notatedEvents.map((event, index) => (
+      <div key={index} className="rhythm-slot entered">
+        <span className="rhythm-symbol">{formatRhythmEvent(event)}</span>
+      </div>
+    ));
+  };
+
+  const noteCount = currentPattern?.events.filter(event => !event.isRest).length ?? 0;
+
+  return (
+    <>
+      {/* Rhythm Progress Section */}
+      {(currentNote || gameState.isCompleted) && (
+        <div className="timer-section">
+          <TimerDigital
+            elapsedTime={gameState.elapsedTime}
+            isActive={!gameState.isCompleted && gameState.startTime !== undefined}
+          />
+          <div className="rhythm-progress">
+            {gameState.isCompleted ? (
+              <p>🎉 Completed! {gameState.correctCount}/{rhythmSettings.targetPatterns} patterns - Free play mode</p>
+            ) : (
+              <p>Progress: {gameState.correctCount}/{rhythmSettings.targetPatterns} patterns</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Individual Round Timer */}
+      {responseTimeLimit && currentNote && !gameState.isCompleted && (
+        <div className="timer-section">
+          <TimerCircular
+            timeLimit={responseTimeLimit}
+            timeRemaining={timeRemaining ?? 0}
+            isActive={isTimerActive}
+          />
+        </div>
+      )}
+
+      {/* Rhythm Answer */}
+      {hasChallenge && currentPattern && (
+        <>
+          <p className="rhythm-meter">
+            {currentPattern.meter} · {rhythmSettings.tempo} bpm
+          </p>
+
+          <div className="rhythm-slots" role="group" aria-label="Rhythm">
+            {isTapMode ? renderTappedPattern() : renderNotatedPattern()}
+          </div>
+
+          {lastAnswer && lastAnswer.extraEvents > 0 && (
+            <p className="rhythm-extra-events">
+              {lastAnswer.extraEvents} extra {isTapMode ? (lastAnswer.extraEvents === 1 ? 'tap' : 'taps') : (lastAnswer.extraEvents === 1 ? 'value' : 'values')}
+            </p>
+          )}
+
+          {isTapMode ? (
+            <button
+              className="rhythm-tap-pad"
+              onPointerDown={(event) => {
+                event.preventDefault();
+                handleTap(performance.now());
+              }}
+              disabled={isAnswerLocked}
+            >
+              Tap ({SHORTCUTS.TAP.label})
+              <small>{lastAnswer ? 'Tap to try again' : `${taps.length}/${noteCount} notes`}</small>
+            </button>
+          ) : (
+            <div className="rhythm-palette" role="group" aria-label="Note values">
+              {rhythmSettings.durations.map(duration => (
+                <button
+                  key={duration}
+                  className="rhythm-value-button"
+                  onClick={() => handleNotate({ duration, isRest: false })}
+                  disabled={isAnswerLocked}
+                  title={`${DURATION_NAMES[duration]} note`}
+                >
+                  {formatRhythmEvent({ duration, isRest: false })}
+                  <small>{DURATION_NAMES[duration]}</small>
+                </button>
+              ))}
+              {rhythmSettings.includeRests && rhythmSettings.durations.map(duration => (
+                <button
+                  key={`${duration}-rest`}
+                  className="rhythm-value-button rest"
+                  onClick={() => handleNotate({ duration, isRest: true })}
+                  disabled={isAnswerLocked}
+                  title={`${DURATION_NAMES[duration]} rest`}
+                >
+                  {formatRhythmEvent({ duration, isRest: true })}
+                  <small>{DURATION_NAMES[duration]} rest</small>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="rhythm-actions">
+            {!isTapMode && (
+              <button
+                className="rhythm-clear-button"
+                onClick={handleUndo}
+                disabled={isAnswerLocked || notatedEvents.length === 0 || !!lastAnswer}
+              >
+                Undo
+              </button>
+            )}
+            <button
+              className="rhythm-clear-button"
+              onClick={handleClear}
+              disabled={isAnswerLocked || gameState.getAnswerLength() === 0}
+            >
+              Clear
+            </button>
+            <button
+              className="rhythm-submit-button"
+              onClick={() => onSubmitClick?.()}
+              disabled={isAnswerLocked || gameState.getAnswerLength() === 0 || !!lastAnswer}
+            >
+              Submit
+            </button>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+export default RhythmModeDisplay;
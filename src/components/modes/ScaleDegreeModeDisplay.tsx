@@ -0,0 +1,172 @@
+import React from 'react';
+import type { ScaleDegreeGameState } from '../../game/ScaleDegreeGameState';
+import type { CommonDisplayProps } from '../../game/GameStateFactory';
+import TimerDigital from '../TimerDigital';
+import TimerCircular from '../TimerCircular';
+import './ScaleDegreeModeDisplay.css';
+
+interface ScaleDegreeModeDisplayProps extends CommonDisplayProps {
+  gameState: ScaleDegreeGameState;
+}
+
+const ScaleDegreeModeDisplay: React.FC<ScaleDegreeModeDisplayProps> = ({
+  gameState,
+  responseTimeLimit,
+  currentNote,
+  isPaused,
+  timeRemaining,
+  onTimerUpdate,
+  onSubmitClick
+}) => {
+  const { scaleDegreeSettings, currentFragment, selectedDegrees, lastPositionResults } = gameState;
+  const [activePosition, setActivePosition] = React.useState(0);
+  const [, forceUpdate] = React.useReducer(x => x + 1, 0);
+
+  // Round timer is active when there's a current melody, game not completed, and not paused
+  const isTimerActive = currentNote && !gameState.isCompleted && !isPaused;
+
+  // Update parent with note timer state (optional callback)
+  React.useEffect(() => {
+    if (timeRemaining !== undefined) {
+      onTimerUpdate?.(timeRemaining, isTimerActive);
+    }
+  }, [timeRemaining, isTimerActive, onTimerUpdate]);
+
+  // Start each new melody on its first note
+  React.useEffect(() => {
+    setActivePosition(0);
+  }, [currentFragment]);
+
+  const isAnswerLocked = isPaused || gameState.isRoundSolved;
+  const isMelody = selectedDegrees.length > 1;
+
+  const handleDegreeClick = (semitones: number) => {
+    gameState.setDegreeAnswer(activePosition, semitones);
+
+    // A single note is answered with one click
+    if (!isMelody) {
+      onSubmitClick?.();
+      forceUpdate();
+      return;
+    }
+
+    // Move on to the next empty note so answers can be entered in one pass
+    const nextEmpty = gameState.selectedDegrees.findIndex(
+      (selected, index) => selected === null && index > activePosition
+    );
+    if (nextEmpty !== -1) {
+      setActivePosition(nextEmpty);
+    }
+    forceUpdate();
+  };
+
+  const handleClear = () => {
+    gameState.clearDegreeAnswers();
+    setActivePosition(0);
+    forceUpdate();
+  };
+
+  const getSlotClassName = (index: number): string => {
+    let className = 'scale-degree-slot';
+    if (index === activePosition && !isAnswerLocked) className += ' active';
+    if (lastPositionResults) {
+      className += lastPositionResults[index] ? ' correct' : ' incorrect';
+    }
+    return className;
+  };
+
+  return (
+    <>
+      {/* Scale Degree Progress Section */}
+      {(currentNote || gameState.isCompleted) && (
+        <div className="timer-section">
+          <TimerDigital
+            elapsedTime={gameState.elapsedTime}
+            isActive={!gameState.isCompleted && gameState.startTime !== undefined}
+          />
+          <div className="scale-degree-progress">
+            {gameState.isCompleted ? (
+              <p>🎉 Completed! {gameState.correctCount}/{scaleDegreeSettings.targetRounds} rounds - Free play mode</p>
+            ) : (
+              <p>Progress: {gameState.correctCount}/{scaleDegreeSettings.targetRounds} rounds</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Individual Round Timer */}
+      {responseTimeLimit && currentNote && !gameState.isCompleted && (
+        <div className="timer-section">
+          <TimerCircular
+            timeLimit={responseTimeLimit}
+            timeRemaining={timeRemaining ?? 0}
+            isActive={isTimerActive}
+          />
+        </div>
+      )}
+
+      {/* Scale Degree Answers */}
+      {currentNote && currentFragment && !gameState.isCompleted && (
+        <>
+          <p className="scale-degree-key">
+            Key: {currentFragment.key.key} {currentFragment.key.scale}
+          </p>
+
+          {isMelody && (
+            <div className="scale-degree-slots" role="group" aria-label="Note answers">
+              {selectedDegrees.map((semitones, index) => (
+                <button
+                  key={index}
+                  className={getSlotClassName(index)}
+                  onClick={() => setActivePosition(index)}
+                  disabled={isAnswerLocked}
+                  aria-label={`Note ${index + 1}`}
+                >
+                  {semitones !== null ? gameState.getDegreeLabel(semitones) : '?'}
+                  {lastPositionResults && (
+                    <span className="scale-degree-slot-mark">{lastPositionResults[index] ? '✓' : '✗'}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="scale-degree-buttons" role="group" aria-label="Scale degrees">
+            {gameState.getAvailableDegrees().map(degree => (
+              <button
+                key={degree.semitones}
+                className="scale-degree-button"
+                onClick={() => handleDegreeClick(degree.semitones)}
+                disabled={isAnswerLocked}
+                title={`${degree.number} (${degree.solfege})`}
+              >
+                {gameState.getDegreeLabel(degree.semitones)}
+              </button>
+            ))}
+          </div>
+
+          {isMelody && (
+            <div className="scale-degree-actions">
+              <button
+                className="scale-degree-clear-button"
+                onClick={handleClear}
+                disabled={isAnswerLocked}
+              >
+                Clear
+              </button>
+              <button
+                className="scale-degree-submit-button"
+                onClick={() => onSubmitClick?.()}
+                disabled={isAnswerLocked || !gameState.isAnswerComplete()}
+              >
+                Submit
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+export default ScaleDegreeModeDisplay;
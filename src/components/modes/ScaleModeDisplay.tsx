@@ -0,0 +1,97 @@
+import React from 'react';
+import type { ScaleGameState } from '../../game/ScaleGameState';
+import type { CommonDisplayProps } from '../../game/GameStateFactory';
+import type { ScaleType } from '../../types/music';
+import { getScaleName } from '../../constants/scales';
+import TimerDigital from '../TimerDigital';
+import TimerCircular from '../TimerCircular';
+import './ScaleModeDisplay.css';
+
+interface ScaleModeDisplayProps extends CommonDisplayProps {
+  gameState: ScaleGameState;
+}
+
+const ScaleModeDisplay: React.FC<ScaleModeDisplayProps> = ({
+  gameState,
+  responseTimeLimit,
+  currentNote,
+  isPaused,
+  timeRemaining,
+  onTimerUpdate,
+  onSubmitClick
+}) => {
+  const { scaleSettings } = gameState;
+
+  // Round timer is active when there's a current scale, game not completed, and not paused
+  const isTimerActive = currentNote && !gameState.isCompleted && !isPaused;
+
+  // Update parent with note timer state (optional callback)
+  React.useEffect(() => {
+    if (timeRemaining !== undefined) {
+      onTimerUpdate?.(timeRemaining, isTimerActive);
+    }
+  }, [timeRemaining, isTimerActive, onTimerUpdate]);
+
+  const handleAnswerClick = (scaleType: ScaleType) => {
+    gameState.selectScaleAnswer(scaleType);
+    onSubmitClick?.();
+  };
+
+  return (
+    <>
+      {/* Scale Progress Section */}
+      {(currentNote || gameState.isCompleted) && (
+        <div className="timer-section">
+          <TimerDigital
+            elapsedTime={gameState.elapsedTime}
+            isActive={!gameState.isCompleted && gameState.startTime !== undefined}
+          />
+          <div className="scale-progress">
+            {gameState.isCompleted ? (
+              <p>🎉 Completed! {gameState.correctCount}/{scaleSettings.targetScales} scales - Free play mode</p>
+            ) : (
+              <p>Progress: {gameState.correctCount}/{scaleSettings.targetScales} scales</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Individual Round Timer */}
+      {responseTimeLimit && currentNote && !gameState.isCompleted && (
+        <div className="timer-section">
+          <TimerCircular
+            timeLimit={responseTimeLimit}
+            timeRemaining={timeRemaining ?? 0}
+            isActive={isTimerActive}
+          />
+        </div>
+      )}
+
+      {/* Scale Name Answers */}
+      {currentNote && !gameState.isCompleted && (
+        <>
+          <div className="scale-answers" role="group" aria-label="Scale answers">
+            {scaleSettings.scaleFilter.allowedScaleTypes.map(scaleType => (
+              <button
+                key={scaleType}
+                className="scale-answer-button"
+                onClick={() => handleAnswerClick(scaleType)}
+                disabled={isPaused || gameState.isRoundSolved}
+              >
+                {getScaleName(scaleType)}
+              </button>
+            ))}
+          </div>
+
+          {gameState.reproducedNotes.length > 0 && (
+            <p className="scale-reproduction-progress">
+              Played back: {gameState.reproducedNotes.length}/{gameState.playbackNotes.length} notes
+            </p>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+export default ScaleModeDisplay;
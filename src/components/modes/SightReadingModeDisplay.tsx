@@ -0,0 +1,256 @@
+import React, { useEffect, useCallback, useRef } from 'react';
+import type { SightReadingGameState } from '../../game/SightReadingGameState';
+import type { CommonDisplayProps } from '../../game/GameStateFactory';
+import type { NoteWithOctave, NoteHighlight, StaffSystem } from '../../types/music';
+import type { FeedbackType } from '../FeedbackMessage';
+import TimerDigital from '../TimerDigital';
+import TimerCircular from '../TimerCircular';
+import PianoKeyboard from '../PianoKeyboard';
+import StaffNotation from '../StaffNotation';
+import FeedbackMessage from '../FeedbackMessage';
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
+import { SHORTCUTS } from '../../constants/keyboardShortcuts';
+import { MidiManager } from '../../services/MidiManager';
+import { getKeyboardOctaveForChord } from '../../utils/chordKeyboardPositioning';
+import './SightReadingModeDisplay.css';
+
+interface SightReadingModeDisplayProps extends CommonDisplayProps {
+  gameState: SightReadingGameState;
+}
+
+/** Lowest octave of the 2-octave keyboard shown for each staff */
+const STAFF_KEYBOARD_OCTAVES: Record<StaffSystem, number> = {
+  treble: 4,
+  alto: 3,
+  bass: 2,
+  grand: 3
+};
+
+const formatReactionTime = (milliseconds: number): string => `${(milliseconds / 1000).toFixed(1)}s`;
+
+const SightReadingModeDisplay: React.FC<SightReadingModeDisplayProps> = ({
+  gameState,
+  responseTimeLimit,
+  currentNote,
+  isPaused,
+  timeRemaining,
+  onTimerUpdate,
+  onAdvanceRound,
+  onPlayAgain,
+  onSubmitClick,
+  completionControls
+}) => {
+  const { sightReadingSettings, currentNotes, playedNotes } = gameState;
+  const [, forceUpdate] = React.useReducer(x => x + 1, 0);
+  const [feedback, setFeedback] = React.useState<{ message: string; type: FeedbackType } | null>(null);
+  const [wrongNote, setWrongNote] = React.useState<NoteWithOctave | null>(null);
+
+  const hasChallenge = currentNotes.length > 0;
+  const isChord = sightReadingSettings.challengeType === 'chord';
+
+  // Round timer is active when there's a current challenge, game not completed, and not paused
+  const isTimerActive = currentNote && !gameState.isCompleted && !isPaused;
+
+  // Update parent with note timer state (optional callback)
+  useEffect(() => {
+    if (timeRemaining !== undefined) {
+      onTimerUpdate?.(timeRemaining, isTimerActive);
+    }
+  }, [timeRemaining, isTimerActive, onTimerUpdate]);
+
+  // Clear the previous round's feedback when a new note or chord is written
+  useEffect(() => {
+    setFeedback(null);
+    setWrongNote(null);
+  }, [currentNotes]);
+
+  /**
+   * Submit a note played on the keyboard or a MIDI device through the orchestrator
+   * and show the result the game state recorded.
+   */
+  const handleNotePlayed = useCallback((note: NoteWithOctave) => {
+    if (!hasChallenge || gameState.isCompleted || gameState.isRoundSolved || isPaused) return;
+
+    gameState.selectPlayedNote(note);
+    onSubmitClick?.();
+
+    const result = gameState.lastSubmitResult;
+    if (result) {
+      const type: FeedbackType = gameState.lastStatus === 'wrong'
+        ? 'error'
+        : gameState.lastStatus === 'partial' ? 'info' : 'success';
+      setFeedback({ message: result.feedback, type });
+    }
+    setWrongNote(gameState.lastStatus === 'wrong' ? note : null);
+
+    forceUpdate();
+  }, [gameState, hasChallenge, isPaused, onSubmitClick]);
+
+  // Keep a ref to the latest handler so the MIDI subscription doesn't go stale
+  const handleNotePlayedRef = useRef(handleNotePlayed);
+  handleNotePlayedRef.current = handleNotePlayed;
+
+  // MIDI input integration - each note on is played against the staff
+  useEffect(() => {
+    const midiManager = MidiManager.getInstance();
+
+    const handleMidiNoteOn = (event: { note: NoteWithOctave }) => {
+      handleNotePlayedRef.current(event.note);
+    };
+
+    midiManager.on('noteOn', handleMidiNoteOn);
+
+    return () => {
+      midiManager.off('noteOn', handleMidiNoteOn);
+    };
+  }, []);
+
+  const handleStartPractice = () => {
+    onAdvanceRound?.(0);
+  };
+
+  const handleNext = () => {
+    setFeedback(null);
+    onAdvanceRound?.(0); // Advance immediately
+  };
+
+  // Keyboard shortcuts
+  useKeyboardShortcuts([
+    // N: Next note or chord
+    {
+      key: SHORTCUTS.NEXT.key,
+      handler: handleNext,
+      enabled: hasChallenge && !gameState.isCompleted,
+      action: 'next',
+    },
+    // S: Start practice
+    {
+      key: SHORTCUTS.START.key,
+      handler: handleStartPractice,
+      enabled: !hasChallenge && !gameState.isCompleted,
+      action: 'start',
+    },
+    // R: Play again (after game completion)
+    {
+      key: SHORTCUTS.PLAY_AGAIN.key,
+      handler: () => onPlayAgain && onPlayAgain(),
+      enabled: gameState.isCompleted,
+    },
+  ], {
+    enabled: !isPaused,
+  });
+
+  // Played notes of the chord and the solved challenge show as correct, a wrong note as an error
+  const highlights: NoteHighlight[] = [
+    ...(gameState.isRoundSolved ? currentNotes : playedNotes).map(note => ({ note, type: 'success' as const })),
+    ...(wrongNote ? [{ note: wrongNote, type: 'error' as const }] : [])
+  ];
+
+  // Keep the keyboard on the staff's range, moving it only for notes outside it
+  const staffOctave = STAFF_KEYBOARD_OCTAVES[sightReadingSettings.staff];
+  const keyboardOctave = currentNotes.every(n => n.octave >= staffOctave && n.octave <= staffOctave + 1)
+    ? staffOctave
+    : getKeyboardOctaveForChord(currentNotes);
+
+  const correctAttempts = gameState.guessHistory.filter(attempt => attempt.isCorrect);
+  const lastReactionTime = correctAttempts[correctAttempts.length - 1]?.reactionTime;
+  const averageReactionTime = gameState.getAverageReactionTime(correctAttempts);
+
+  return (
+    <>
+      {/* Sight Reading Progress Section */}
+      {(currentNote || gameState.isCompleted) && (
+        <div className="timer-section">
+          <TimerDigital
+            elapsedTime={gameState.elapsedTime}
+            isActive={!gameState.isCompleted && gameState.startTime !== undefined}
+          />
+          <div className="sight-reading-progress">
+            {gameState.isCompleted ? (
+              <p>🎉 Completed! {gameState.correctCount}/{sightReadingSettings.targetNotes} {isChord ? 'chords' : 'notes'} read</p>
+            ) : (
+              <p>Progress: {gameState.correctCount}/{sightReadingSettings.targetNotes} {isChord ? 'chords' : 'notes'}</p>
+            )}
+          </div>
+          {lastReactionTime !== undefined && (
+            <div className="sight-reading-reaction">
+              Last: {formatReactionTime(lastReactionTime)} · Average: {formatReactionTime(averageReactionTime)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {completionControls}
+
+      {/* Individual Round Timer */}
+      {responseTimeLimit && currentNote && !gameState.isCompleted && (
+        <div className="timer-section">
+          <TimerCircular
+            timeLimit={responseTimeLimit}
+            timeRemaining={timeRemaining ?? 0}
+            isActive={isTimerActive}
+          />
+        </div>
+      )}
+
+      {feedback && (
+        <FeedbackMessage
+          message={feedback.message}
+          type={feedback.type}
+        />
+      )}
+
+      {!hasChallenge && !gameState.isCompleted && (
+        <div className="audio-controls">
+          <button
+            onClick={handleStartPractice}
+            disabled={isPaused}
+            className="primary-button"
+            title="Press S to start"
+          >
+            Start Practice <span className="shortcut-hint">(S)</span>
+          </button>
+        </div>
+      )}
+
+      {hasChallenge && !gameState.isCompleted && (
+        <div className="audio-controls">
+          <button
+            onClick={handleNext}
+            disabled={isPaused}
+            className="secondary-button"
+            title="Press N to skip"
+          >
+            {isChord ? 'Next Chord' : 'Next Note'} <span className="shortcut-hint">(N)</span>
+          </button>
+        </div>
+      )}
+
+      {/* The Written Note or Chord */}
+      {hasChallenge && (
+        <div className="sight-reading-staff">
+          <StaffNotation
+            notes={currentNotes}
+            staff={sightReadingSettings.staff}
+            label={gameState.isRoundSolved ? undefined : `${isChord ? 'Chord' : 'Note'} to play`} // Name the notes once they've been played
+          />
+        </div>
+      )}
+
+      {/* Keyboard */}
+      <div className={isPaused ? 'piano-container paused' : 'piano-container'}>
+        <PianoKeyboard
+          onNoteClick={handleNotePlayed}
+          highlights={highlights}
+          octave={keyboardOctave}
+          numOctaves={2}
+          disabled={gameState.isCompleted || !hasChallenge}
+          preventNoteRestart={!isChord}
+          monoMode={!isChord}
+        />
+      </div>
+    </>
+  );
+};
+
+export default SightReadingModeDisplay;
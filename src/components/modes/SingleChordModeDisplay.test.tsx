@@ -11,6 +11,7 @@ import { SettingsProvider } from '../../contexts/SettingsContext';
 vi.mock('../../utils/audioEngine', () => ({
   audioEngine: {
     playChord: vi.fn(),
+    playChordWithStyle: vi.fn(),
     playNote: vi.fn(),
     releaseAllNotes: vi.fn()
   }
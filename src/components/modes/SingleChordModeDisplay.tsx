@@ -11,6 +11,8 @@ import ChordGuessHistory from '../ChordGuessHistory';
 import { getKeyboardOctaveForChord } from '../../utils/chordKeyboardPositioning';
 import FeedbackMessage from '../FeedbackMessage';
 import { audioEngine } from '../../utils/audioEngine';
+import { spellNote } from '../../utils/noteSpelling';
+import { useSettings } from '../../hooks/useSettings';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
 import { SHORTCUTS } from '../../constants/keyboardShortcuts';
 import { MidiManager } from '../../services/MidiManager';
@@ -40,6 +42,10 @@ const SingleChordModeDisplay: React.FC<SingleChordModeDisplayProps> = ({
   const [, forceUpdate] = React.useReducer(x => x + 1, 0);
   const [feedback, setFeedback] = React.useState<{ message: string; type: FeedbackType } | null>(null);
 
+  // Spell chord and note names in the training key, if one is set
+  const keyContext = noteTrainingSettings.chordFilter.keyFilter;
+  const { settings } = useSettings();
+
   // Track MIDI notes currently being held down (for hold-to-select behavior)
   const [heldMidiNotes, setHeldMidiNotes] = React.useState<Set<string>>(new Set());
   // Track wrong notes pressed (for showing red highlight)
@@ -263,8 +269,8 @@ const SingleChordModeDisplay: React.FC<SingleChordModeDisplayProps> = ({
     // Show error feedback with partial info
     const correctCount = heldMidiNotes.size;
     const message = correctCount > 0
-      ? `Wrong note: ${note.note} (${correctCount}/${currentChord.notes.length} correct)`
-      : `Wrong note: ${note.note}`;
+      ? `Wrong note: ${spellNote(note.note, keyContext)} (${correctCount}/${currentChord.notes.length} correct)`
+      : `Wrong note: ${spellNote(note.note, keyContext)}`;
 
     setFeedback({
       message,
@@ -275,7 +281,7 @@ const SingleChordModeDisplay: React.FC<SingleChordModeDisplayProps> = ({
 
     // Clear feedback after delay but don't advance (wrong answer)
     setTimeout(() => setFeedback(null), 1500);
-  }, [currentChord, gameState, heldMidiNotes, selectedNotes, onPianoKeyClick, onSubmitClick]);
+  }, [currentChord, gameState, heldMidiNotes, selectedNotes, onPianoKeyClick, onSubmitClick, keyContext]);
 
   // Keep the wrong note ref updated
   handleWrongNoteRef.current = handleWrongNote;
@@ -347,11 +353,11 @@ const SingleChordModeDisplay: React.FC<SingleChordModeDisplayProps> = ({
     ? getKeyboardOctaveForChord(currentChord.notes)
     : 4;
 
-  // Handle playing the current chord
+  // Handle playing the current chord in the chosen playback style
   const handlePlayChord = () => {
     if (currentChord) {
       try {
-        audioEngine.playChord(currentChord, '2n');
+        audioEngine.playChordWithStyle(currentChord, settings.timing.chordPlayback, '2n');
       } catch (error) {
         console.error('Failed to play chord:', error);
       }
@@ -381,30 +387,35 @@ const SingleChordModeDisplay: React.FC<SingleChordModeDisplayProps> = ({
       code: SHORTCUTS.REPLAY.code,
       handler: handlePlayChord,
       enabled: !!currentChord && !gameState.isCompleted,
+      action: 'replay',
     },
     // Enter: Submit answer
     {
       key: SHORTCUTS.SUBMIT.key,
       handler: handleSubmitAnswer,
       enabled: canSubmit,
+      action: 'submit',
     },
     // N: Next chord
     {
       key: SHORTCUTS.NEXT.key,
       handler: handleNextChord,
       enabled: !!currentChord && !gameState.isCompleted,
+      action: 'next',
     },
     // C: Clear selection
     {
       key: SHORTCUTS.CLEAR.key,
       handler: handleClearSelection,
       enabled: selectedNotes.size > 0 && !gameState.isCompleted,
+      action: 'clear',
     },
     // S: Start practice
     {
       key: SHORTCUTS.START.key,
       handler: handleStartPractice,
       enabled: !currentChord && !gameState.isCompleted,
+      action: 'start',
     },
     // R: Play again (after game completion)
     {
@@ -452,6 +463,7 @@ const SingleChordModeDisplay: React.FC<SingleChordModeDisplayProps> = ({
       {(currentNote || gameState.isCompleted) && (
         <ChordGuessHistory
           attempts={gameState.guessHistory}
+          sessionMode={gameState.getMode()}
           mode="training"
           maxDisplay={10}
         />
@@ -521,6 +533,8 @@ const SingleChordModeDisplay: React.FC<SingleChordModeDisplayProps> = ({
         <ChordDisplay
           chord={currentChord}
           showInstructions={!gameState.isCompleted}
+          keyContext={keyContext}
+          showStaff={settings.showStaffNotation && gameState.isCompleted} // Staff would give the answer away mid-round
         />
       )}
 
@@ -569,6 +583,7 @@ const SingleChordModeDisplay: React.FC<SingleChordModeDisplayProps> = ({
           octave={keyboardOctave}
           numOctaves={2}
           disabled={gameState.isCompleted || !currentChord}
+          keyContext={keyContext}
         />
       </div>
     </>
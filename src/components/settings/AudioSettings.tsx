@@ -2,11 +2,19 @@ import React, { useEffect } from 'react';
 import { useSettings } from '../../hooks/useSettings';
 import { audioEngine } from '../../utils/audioEngine';
 import { InstrumentType } from '../../types/music';
+import type { AudioOutputMode, MidiInputSettings, MidiOutputSettings } from '../../types/music';
+import { isSampledInstrument } from '../../utils/sampleLibrary';
+import { useInstrumentLoadState } from '../../hooks/useInstrumentLoadState';
+import { useMidiDeviceStatus } from '../../hooks/useMidiDeviceStatus';
 import { MidiDeviceSelector } from './MidiDeviceSelector';
+import { MidiActionSettings } from './MidiActionSettings';
 
 const AudioSettings: React.FC = () => {
   const { settings, pendingSettings, updateAudioSettings } = useSettings();
-  const { volume, instrument, midiDeviceId } = pendingSettings.audio;
+  const { volume, instrument, midiDeviceId, midiInput, output, midiOutput } = pendingSettings.audio;
+  const loadState = useInstrumentLoadState(instrument);
+  const { availableDevices } = useMidiDeviceStatus();
+  const otherInputs = availableDevices.filter(device => device.id !== midiDeviceId);
 
   // Apply audio changes from current settings (not pending) to the audio engine
   useEffect(() => {
@@ -19,15 +27,59 @@ const AudioSettings: React.FC = () => {
     updateAudioSettings({ volume: newVolume });
   };
 
+  const handleInstrumentChange = (newInstrument: InstrumentType) => {
+    updateAudioSettings({ instrument: newInstrument });
+    // Start downloading samples right away so they're ready once settings are applied
+    if (isSampledInstrument(newInstrument)) {
+      void audioEngine.loadSamples(newInstrument);
+    }
+  };
+
   const handleMidiDeviceChange = (deviceId: string | undefined) => {
     updateAudioSettings({ midiDeviceId: deviceId });
   };
 
+  const handleMidiInputChange = (updates: Partial<MidiInputSettings>) => {
+    updateAudioSettings({ midiInput: { ...midiInput, ...updates } });
+  };
+
+  const handleExtraInputToggle = (deviceId: string) => {
+    const extraDeviceIds = midiInput.extraDeviceIds.includes(deviceId)
+      ? midiInput.extraDeviceIds.filter(id => id !== deviceId)
+      : [...midiInput.extraDeviceIds, deviceId];
+    handleMidiInputChange({ extraDeviceIds });
+  };
+
+  const handleMidiOutputChange = (updates: Partial<MidiOutputSettings>) => {
+    updateAudioSettings({ midiOutput: { ...midiOutput, ...updates } });
+  };
+
+  const outputOptions: { value: AudioOutputMode; label: string }[] = [
+    { value: 'internal', label: 'Built-in' },
+    { value: 'midi', label: 'MIDI Output' },
+    { value: 'both', label: 'Both' }
+  ];
+
+  // A few General MIDI programs (0-based) that suit ear training
+  const programOptions = [
+    { value: 0, label: 'Acoustic Grand Piano' },
+    { value: 1, label: 'Bright Acoustic Piano' },
+    { value: 4, label: 'Electric Piano' },
+    { value: 6, label: 'Harpsichord' },
+    { value: 19, label: 'Church Organ' },
+    { value: 24, label: 'Nylon Guitar' },
+    { value: 48, label: 'String Ensemble' },
+    { value: 73, label: 'Flute' }
+  ];
+
   const instrumentOptions = [
     { value: InstrumentType.SYNTH, label: 'Synthesizer' },
     { value: InstrumentType.PIANO, label: 'Piano' },
     { value: InstrumentType.FM, label: 'FM Bell' },
-    { value: InstrumentType.MONO, label: 'Analog Synth' }
+    { value: InstrumentType.MONO, label: 'Analog Synth' },
+    { value: InstrumentType.RHODES, label: 'Rhodes' },
+    { value: InstrumentType.ORGAN, label: 'Organ' },
+    { value: InstrumentType.GUITAR, label: 'Guitar' }
   ];
 
   return (
@@ -50,12 +102,24 @@ const AudioSettings: React.FC = () => {
             <button
               key={option.value}
               className={`instrument-button ${instrument === option.value ? 'active' : ''}`}
-              onClick={() => updateAudioSettings({ instrument: option.value })}
+              onClick={() => handleInstrumentChange(option.value)}
             >
               {option.label}
             </button>
           ))}
         </div>
+        {loadState.status === 'loading' && (
+          <div className="instrument-loading">
+            <progress value={loadState.loaded} max={loadState.total} />
+            <small>Loading samples... {loadState.loaded}/{loadState.total}</small>
+          </div>
+        )}
+        {loadState.status === 'failed' && (
+          <small className="instrument-fallback">
+            Samples aren't installed or couldn't be loaded - playing with a synthesizer instead.
+            {' '}Select the instrument again to retry.
+          </small>
+        )}
       </div>
       <div className="setting-group">
         <label>MIDI Input Device</label>
@@ -64,6 +128,115 @@ const AudioSettings: React.FC = () => {
           onDeviceChange={handleMidiDeviceChange}
         />
       </div>
+      {otherInputs.length > 0 && (
+        <div className="setting-group">
+          <label>Also Listen To</label>
+          {otherInputs.map(device => (
+            <label key={device.id} className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={midiInput.extraDeviceIds.includes(device.id)}
+                onChange={() => handleExtraInputToggle(device.id)}
+              />
+              {device.name}
+            </label>
+          ))}
+        </div>
+      )}
+      <div className="setting-group">
+        <label>MIDI Input Channel</label>
+        <select
+          value={midiInput.channel ?? ''}
+          onChange={(e) => handleMidiInputChange({
+            channel: e.target.value === '' ? null : parseInt(e.target.value, 10)
+          })}
+        >
+          <option value="">All channels</option>
+          {Array.from({ length: 16 }, (_, i) => i + 1).map(channel => (
+            <option key={channel} value={channel}>{channel}</option>
+          ))}
+        </select>
+      </div>
+      <div className="setting-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={midiInput.pedals}
+            onChange={(e) => handleMidiInputChange({ pedals: e.target.checked })}
+          />
+          Sustain and sostenuto pedals hold released notes
+        </label>
+      </div>
+      <div className="setting-group">
+        <label>Controller Buttons</label>
+        <MidiActionSettings
+          bindings={midiInput.bindings}
+          devices={availableDevices}
+          onChange={(bindings) => handleMidiInputChange({ bindings })}
+        />
+      </div>
+      <div className="setting-group">
+        <label>Play Exercises Through</label>
+        <div className="instrument-buttons">
+          {outputOptions.map(option => (
+            <button
+              key={option.value}
+              className={`instrument-button ${output === option.value ? 'active' : ''}`}
+              onClick={() => updateAudioSettings({ output: option.value })}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {output !== 'internal' && (
+        <>
+          <div className="setting-group">
+            <label>MIDI Output Device</label>
+            <MidiDeviceSelector
+              direction="output"
+              selectedDeviceId={midiOutput.deviceId}
+              onDeviceChange={(deviceId) => handleMidiOutputChange({ deviceId })}
+            />
+          </div>
+          <div className="setting-group">
+            <label>MIDI Channel</label>
+            <select
+              value={midiOutput.channel}
+              onChange={(e) => handleMidiOutputChange({ channel: parseInt(e.target.value, 10) })}
+            >
+              {Array.from({ length: 16 }, (_, i) => i + 1).map(channel => (
+                <option key={channel} value={channel}>{channel}</option>
+              ))}
+            </select>
+          </div>
+          <div className="setting-group">
+            <label>Velocity</label>
+            <input
+              type="range"
+              min="1"
+              max="127"
+              value={midiOutput.velocity}
+              onChange={(e) => handleMidiOutputChange({ velocity: parseInt(e.target.value, 10) })}
+            />
+            <span className="range-value">{midiOutput.velocity}</span>
+          </div>
+          <div className="setting-group">
+            <label>Sound (Program Change)</label>
+            <select
+              value={midiOutput.program ?? ''}
+              onChange={(e) => handleMidiOutputChange({
+                program: e.target.value === '' ? null : parseInt(e.target.value, 10)
+              })}
+            >
+              <option value="">Keep the device's sound</option>
+              {programOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
     </div>
   );
 };
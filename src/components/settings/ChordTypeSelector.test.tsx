@@ -1,7 +1,11 @@
 import { render, screen, fireEvent } from '@testing-library/react';
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import ChordTypeSelector from './ChordTypeSelector';
 import { ChordType, CHORD_TYPES } from '../../types/music';
+import { PresetProvider } from '../../contexts/PresetContext';
+import { saveCustomChordType, loadCustomChordTypes } from '../../services/presetStorage';
+import { setCustomChordTypes } from '../../utils/chordTypeRegistry';
+import { setupLocalStorageMock } from '../../test/localStorageMock';
 
 describe('ChordTypeSelector', () => {
   const mockOnChange = vi.fn();
@@ -237,4 +241,65 @@ describe('ChordTypeSelector', () => {
     expect(screen.getByText('Diminished')).toBeInTheDocument();
     expect(screen.getByText('Augmented')).toBeInTheDocument();
   });
+
+  describe('custom chord types', () => {
+    beforeEach(() => {
+      setupLocalStorageMock();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      setCustomChordTypes([]);
+    });
+
+    const renderWithPresets = (selectedChordTypes: ChordType[] = []) => render(
+      <PresetProvider>
+        <ChordTypeSelector selectedChordTypes={selectedChordTypes} onChange={mockOnChange} />
+      </PresetProvider>
+    );
+
+    it('should define a new chord type and select it', () => {
+      renderWithPresets([ChordType.MAJOR]);
+
+      fireEvent.click(screen.getByText('Custom Chord Types'));
+      fireEvent.click(screen.getByText('+ New Chord Type'));
+      fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Six' } });
+      fireEvent.change(screen.getByLabelText('Suffix'), { target: { value: '6' } });
+      fireEvent.change(screen.getByLabelText('Intervals (semitones from the root)'), { target: { value: '0 4 7 9' } });
+
+      expect(screen.getByText('C6: C E G A')).not.toBeNull();
+
+      fireEvent.click(screen.getByText('Add Chord Type'));
+
+      const [saved] = loadCustomChordTypes();
+      expect(saved.intervals).toEqual([0, 4, 7, 9]);
+      expect(mockOnChange).toHaveBeenCalledWith([ChordType.MAJOR, saved.id]);
+      expect(screen.getByLabelText('Six')).not.toBeNull();
+    });
+
+    it('should show why a definition is invalid', () => {
+      renderWithPresets();
+
+      fireEvent.click(screen.getByText('Custom Chord Types'));
+      fireEvent.click(screen.getByText('+ New Chord Type'));
+      fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Minor again' } });
+      fireEvent.change(screen.getByLabelText('Suffix'), { target: { value: 'min' } });
+      fireEvent.click(screen.getByText('Add Chord Type'));
+
+      expect(screen.getByRole('alert').textContent).toBe('This suffix is already used by Minor');
+      expect(loadCustomChordTypes()).toEqual([]);
+    });
+
+    it('should remove a deleted chord type from the selection', () => {
+      const six = saveCustomChordType({ name: 'Six', suffix: '6', intervals: [0, 4, 7, 9] });
+      renderWithPresets([ChordType.MAJOR, six.id]);
+
+      fireEvent.click(screen.getByLabelText('Delete Six'));
+      fireEvent.click(screen.getByText('Yes'));
+
+      expect(mockOnChange).toHaveBeenCalledWith([ChordType.MAJOR]);
+      expect(loadCustomChordTypes()).toEqual([]);
+      expect(screen.queryByLabelText('Six')).toBeNull();
+    });
+  });
 });
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
 import type { ChordType } from '../../types/music';
+import type { CreateCustomChordTypeData } from '../../types/presets';
 import { CHORD_TYPES } from '../../types/music';
 import { CHORD_TYPE_DISPLAY_NAMES, CHORD_CATEGORY_DISPLAY_NAMES } from '../../constants/chordDisplayNames';
+import { usePresets } from '../../hooks/usePresets';
+import CustomChordTypeForm from './CustomChordTypeForm';
 
 interface ChordTypeSelectorProps {
   selectedChordTypes: ChordType[];
@@ -14,9 +17,14 @@ const ChordTypeSelector: React.FC<ChordTypeSelectorProps> = ({
   selectedChordTypes,
   onChange,
 }) => {
+  const { customChordTypes, addChordType, updateChordType, deleteChordType } = usePresets();
   const [expandedCategories, setExpandedCategories] = useState<Set<CategoryKey>>(
     new Set(['TRIADS', 'SEVENTH_CHORDS'])
   );
+  const [isCustomExpanded, setIsCustomExpanded] = useState(customChordTypes.length > 0);
+  // Id of the custom chord type being edited, or 'new' while defining one
+  const [editingChordType, setEditingChordType] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
 
   const toggleCategory = (category: CategoryKey) => {
     const newExpanded = new Set(expandedCategories);
@@ -62,6 +70,39 @@ const ChordTypeSelector: React.FC<ChordTypeSelectorProps> = ({
     return CHORD_TYPES[category].every(ct => selectedChordTypes.includes(ct));
   };
 
+  const customTypeIds: ChordType[] = customChordTypes.map(t => t.id);
+  const customSelectedCount = customTypeIds.filter(ct => selectedChordTypes.includes(ct)).length;
+  const allCustomSelected = customSelectedCount === customTypeIds.length;
+
+  const handleCustomSelectAll = () => {
+    if (allCustomSelected) {
+      onChange(selectedChordTypes.filter(ct => !customTypeIds.includes(ct)));
+    } else {
+      onChange([...selectedChordTypes, ...customTypeIds.filter(ct => !selectedChordTypes.includes(ct))]);
+    }
+  };
+
+  const handleSaveChordType = (data: CreateCustomChordTypeData) => {
+    if (editingChordType === 'new') {
+      const newType = addChordType(data);
+      // A newly defined chord type is meant to be practiced
+      onChange([...selectedChordTypes, newType.id]);
+    } else if (editingChordType) {
+      updateChordType(editingChordType, data);
+    }
+    setEditingChordType(null);
+  };
+
+  const handleConfirmDelete = () => {
+    if (deleteConfirmId) {
+      deleteChordType(deleteConfirmId);
+      if (selectedChordTypes.some(ct => ct === deleteConfirmId)) {
+        onChange(selectedChordTypes.filter(ct => ct !== deleteConfirmId));
+      }
+      setDeleteConfirmId(null);
+    }
+  };
+
   return (
     <div className="setting-group">
       <div className="setting-header">
@@ -124,6 +165,102 @@ const ChordTypeSelector: React.FC<ChordTypeSelectorProps> = ({
             </div>
           );
         })}
+
+        <div className="chord-category">
+          <div className="chord-category-header">
+            <button
+              type="button"
+              className="chord-category-toggle"
+              onClick={() => setIsCustomExpanded(!isCustomExpanded)}
+              aria-expanded={isCustomExpanded}
+            >
+              <span className="category-icon">{isCustomExpanded ? '▼' : '▶'}</span>
+              <span className="category-name">Custom Chord Types</span>
+              <span className="category-count">
+                ({customSelectedCount}/{customTypeIds.length})
+              </span>
+            </button>
+
+            {customTypeIds.length > 0 && (
+              <button
+                type="button"
+                className="category-select-all-btn"
+                onClick={handleCustomSelectAll}
+              >
+                {allCustomSelected ? 'Clear All' : 'Select All'}
+              </button>
+            )}
+          </div>
+
+          {isCustomExpanded && (
+            <div className="custom-chord-types">
+              {customChordTypes.length > 0 && (
+                <div className="chord-type-grid">
+                  {customChordTypes.map(chordType => (
+                    <div key={chordType.id} className="custom-chord-type-item">
+                      <label className="chord-type-checkbox">
+                        <input
+                          type="checkbox"
+                          checked={selectedChordTypes.includes(chordType.id)}
+                          onChange={() => handleChordTypeToggle(chordType.id)}
+                        />
+                        <span className="chord-type-label">{chordType.name}</span>
+                      </label>
+                      <span className="custom-chord-type-formula">
+                        C{chordType.suffix}: {chordType.intervals.join(' ')}
+                      </span>
+                      <div className="custom-chord-type-buttons">
+                        <button
+                          type="button"
+                          onClick={() => setEditingChordType(chordType.id)}
+                          aria-label={`Edit ${chordType.name}`}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setDeleteConfirmId(chordType.id)}
+                          aria-label={`Delete ${chordType.name}`}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {deleteConfirmId && (
+                <div className="preset-delete-confirm">
+                  <span>Delete this chord type?</span>
+                  <button type="button" onClick={handleConfirmDelete} className="confirm-yes">
+                    Yes
+                  </button>
+                  <button type="button" onClick={() => setDeleteConfirmId(null)} className="confirm-no">
+                    No
+                  </button>
+                </div>
+              )}
+
+              {editingChordType ? (
+                <CustomChordTypeForm
+                  key={editingChordType}
+                  chordType={customChordTypes.find(t => t.id === editingChordType)}
+                  onSave={handleSaveChordType}
+                  onCancel={() => setEditingChordType(null)}
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="custom-chord-type-new"
+                  onClick={() => setEditingChordType('new')}
+                >
+                  + New Chord Type
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
       <small>Select which chord types to include in your practice sessions</small>
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import type { CustomChordTypeDefinition, CreateCustomChordTypeData } from '../../types/presets';
+import { spellChordTones } from '../../utils/noteSpelling';
+import {
+  validateCustomChordType,
+  MAX_CHORD_TYPE_NAME_LENGTH,
+  MAX_CHORD_TYPE_SUFFIX_LENGTH,
+} from '../../services/presetStorage';
+
+interface CustomChordTypeFormProps {
+  /** Chord type being edited, or undefined to define a new one */
+  chordType?: CustomChordTypeDefinition;
+
+  /** Saves the definition; may throw with a message to show */
+  onSave: (data: CreateCustomChordTypeData) => void;
+
+  onCancel: () => void;
+}
+
+/**
+ * Parses a formula typed as semitone numbers, e.g. "0 4 7 10" or "0, 4, 7, 10".
+ * Returns null if any part is not a whole number.
+ */
+function parseIntervals(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/).filter(part => part !== '');
+  if (parts.length === 0 || !parts.every(part => /^\d+$/.test(part))) {
+    return null;
+  }
+  return parts.map(Number);
+}
+
+const CustomChordTypeForm: React.FC<CustomChordTypeFormProps> = ({
+  chordType,
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState(chordType?.name ?? '');
+  const [suffix, setSuffix] = useState(chordType?.suffix ?? '');
+  const [intervalsText, setIntervalsText] = useState(chordType?.intervals.join(' ') ?? '0 4 7');
+  const [error, setError] = useState<string | null>(null);
+
+  const intervals = parseIntervals(intervalsText);
+
+  // Spell the formula out on C so the user can check it
+  const previewNotes = intervals && spellChordTones('C', intervals).join(' ');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!intervals) {
+      setError('Enter the intervals as semitones from the root, e.g. 0 4 7 10');
+      return;
+    }
+
+    const data: CreateCustomChordTypeData = { name: name.trim(), suffix: suffix.trim(), intervals };
+    const validationError = validateCustomChordType(data, chordType?.id);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      onSave(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save chord type');
+    }
+  };
+
+  const clearError = () => {
+    if (error) {
+      setError(null);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="custom-chord-type-form">
+      <div className="form-group">
+        <label htmlFor="custom-chord-type-name">Name</label>
+        <input
+          id="custom-chord-type-name"
+          type="text"
+          value={name}
+          onChange={(e) => { setName(e.target.value); clearError(); }}
+          placeholder="Dominant 7th sus4"
+          maxLength={MAX_CHORD_TYPE_NAME_LENGTH}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="custom-chord-type-suffix">Suffix</label>
+        <input
+          id="custom-chord-type-suffix"
+          type="text"
+          value={suffix}
+          onChange={(e) => { setSuffix(e.target.value); clearError(); }}
+          placeholder="7sus4"
+          maxLength={MAX_CHORD_TYPE_SUFFIX_LENGTH}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="custom-chord-type-intervals">Intervals (semitones from the root)</label>
+        <input
+          id="custom-chord-type-intervals"
+          type="text"
+          value={intervalsText}
+          onChange={(e) => { setIntervalsText(e.target.value); clearError(); }}
+          placeholder="0 5 7 10"
+        />
+        <small>
+          3 = minor 3rd, 4 = major 3rd, 7 = 5th, 10 = minor 7th, 14 = 9th, 17 = 11th, 21 = 13th
+        </small>
+      </div>
+
+      {previewNotes && (
+        <div className="custom-chord-type-preview" aria-live="polite">
+          C{suffix.trim()}: {previewNotes}
+        </div>
+      )}
+
+      {error && (
+        <div className="custom-chord-type-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="custom-chord-type-actions">
+        <button type="button" className="cancel-button" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="save-button" disabled={!name.trim() || !suffix.trim()}>
+          {chordType ? 'Save Changes' : 'Add Chord Type'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CustomChordTypeForm;
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import DataBackupSettings from './DataBackupSettings';
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../../services/dataBackup';
+import { STORAGE_KEYS } from '../../constants';
+import { loadVersionedStore, getQuarantinedItems } from '../../services/versionedStorage';
+import { CHORD_STATS_SCHEMA } from '../../services/storageSchemas';
+import { sessionRepository } from '../../services/sessionRepository';
+
+const chooseFile = (contents: string) => {
+  const file = new File([contents], 'backup.json', { type: 'application/json' });
+  fireEvent.change(screen.getByLabelText('Restore'), { target: { files: [file] } });
+};
+
+const backupJson = JSON.stringify({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: '2026-01-10T12:00:00.000Z',
+  data: {
+    gameHistory: [{
+      mode: 'rush',
+      timestamp: '2026-01-05T10:00:00.000Z',
+      completionTime: 60,
+      accuracy: 80,
+      totalAttempts: 10,
+      settings: {},
+      results: {}
+    }],
+    chordStats: null,
+    noteStats: null,
+    chordConfusions: null,
+    reviewSchedule: null,
+    appSettings: null,
+    customPresets: []
+  }
+});
+
+describe('DataBackupSettings', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await sessionRepository.deleteSessions();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should show an error for an invalid file', async () => {
+    render(<DataBackupSettings onRestored={vi.fn()} />);
+
+    chooseFile('{"hello": "world"}');
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert').textContent).toContain('not a Music Ear Training backup');
+    });
+    expect(screen.queryByText('Restore backup')).toBeNull();
+  });
+
+  it('should preview and restore a valid backup', async () => {
+    const onRestored = vi.fn();
+    render(<DataBackupSettings onRestored={onRestored} />);
+
+    chooseFile(backupJson);
+
+    await waitFor(() => {
+      expect(screen.getByText(/1 sessions/)).not.toBeNull();
+    });
+    fireEvent.click(screen.getByText('Restore backup'));
+
+    await waitFor(() => {
+      expect(onRestored).toHaveBeenCalledTimes(1);
+    });
+    expect(await sessionRepository.countSessions({ mode: 'rush' })).toBe(1);
+    expect(screen.getByRole('status').textContent).toBe('Restored 1 sessions, 0 presets.');
+  });
+
+  it('should list unreadable data and discard it after confirmation', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    localStorage.setItem(STORAGE_KEYS.CHORD_STATS, '{broken');
+    loadVersionedStore(CHORD_STATS_SCHEMA);
+
+    render(<DataBackupSettings onRestored={vi.fn()} />);
+
+    expect(screen.getByText(/Chord stats: Not valid JSON/)).not.toBeNull();
+    fireEvent.click(screen.getByText('Discard'));
+
+    expect(screen.queryByText('Unreadable Data')).toBeNull();
+    expect(getQuarantinedItems()).toEqual([]);
+  });
+});
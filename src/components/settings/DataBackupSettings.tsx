@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import {
+  exportBackup,
+  getBackupFileName,
+  parseBackup,
+  importBackup,
+  describeBackup
+} from '../../services/dataBackup';
+import { getQuarantinedItems, clearQuarantine } from '../../services/versionedStorage';
+import type {
+  UserDataBackup,
+  BackupImportMode,
+  PresetConflictStrategy,
+  BackupImportSummary
+} from '../../types/backup';
+
+interface DataBackupSettingsProps {
+  /** Called after a successful import; reloads the app by default so every view picks up the restored data */
+  onRestored?: () => void;
+}
+
+const IMPORT_MODE_OPTIONS: { value: BackupImportMode; label: string; description: string }[] = [
+  {
+    value: 'merge',
+    label: 'Merge with this device',
+    description: 'Adds the backup\'s sessions and stats to what is already here; keeps this device\'s settings'
+  },
+  {
+    value: 'replace',
+    label: 'Replace everything',
+    description: 'Deletes the data on this device and restores the backup exactly'
+  }
+];
+
+const PRESET_CONFLICT_OPTIONS: { value: PresetConflictStrategy; label: string }[] = [
+  { value: 'skip', label: 'Keep the preset on this device' },
+  { value: 'rename', label: 'Import with a new name' },
+  { value: 'overwrite', label: 'Overwrite with the backup\'s preset' }
+];
+
+const formatSummary = (summary: BackupImportSummary): string => {
+  const parts = [`${summary.sessionsImported} sessions`, `${summary.presetsImported} presets`];
+  if (summary.presetsRenamed > 0) parts.push(`${summary.presetsRenamed} renamed`);
+  if (summary.presetsOverwritten > 0) parts.push(`${summary.presetsOverwritten} presets overwritten`);
+  if (summary.presetsSkipped > 0) parts.push(`${summary.presetsSkipped} presets skipped`);
+  if (summary.chordTypesImported > 0) parts.push(`${summary.chordTypesImported} chord types`);
+  if (summary.chordTypeConflicts > 0) parts.push(`${summary.chordTypeConflicts} chord types skipped (a different chord type on this device has the same id)`);
+  if (summary.settingsImported) parts.push('settings');
+  return `Restored ${parts.join(', ')}.`;
+};
+
+const downloadJson = (contents: string, fileName: string) => {
+  const blob = new Blob([contents], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
+
+const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read the backup file.'));
+    reader.readAsText(file);
+  });
+};
+
+const DataBackupSettings: React.FC<DataBackupSettingsProps> = ({
+  onRestored = () => window.location.reload()
+}) => {
+  const [backup, setBackup] = useState<UserDataBackup | null>(null);
+  const [importMode, setImportMode] = useState<BackupImportMode>('merge');
+  const [presetConflicts, setPresetConflicts] = useState<PresetConflictStrategy>('skip');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [quarantinedItems, setQuarantinedItems] = useState(getQuarantinedItems);
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      downloadJson(await exportBackup(), getBackupFileName());
+      setMessage('Backup downloaded.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the backup.');
+    }
+  };
+
+  const handleDownloadQuarantine = () => {
+    downloadJson(
+      JSON.stringify(quarantinedItems, null, 2),
+      `unreadable-data-${new Date().toISOString().slice(0, 10)}.json`
+    );
+  };
+
+  const handleDiscardQuarantine = () => {
+    if (!window.confirm('Permanently delete the data that could not be loaded?')) {
+      return;
+    }
+
+    clearQuarantine();
+    setQuarantinedItems([]);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    setError(null);
+    setMessage(null);
+    try {
+      setBackup(parseBackup(await readFileAsText(file)));
+    } catch (err) {
+      setBackup(null);
+      setError(err instanceof Error ? err.message : 'Could not read the backup file.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backup) return;
+
+    if (importMode === 'replace' && !window.confirm('Replace all practice data on this device with the backup?')) {
+      return;
+    }
+
+    try {
+      const summary = await importBackup(backup, { mode: importMode, presetConflicts });
+      setBackup(null);
+      setMessage(formatSummary(summary));
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not restore the backup.');
+    }
+  };
+
+  const contents = backup ? describeBackup(backup.data) : null;
+
+  return (
+    <div className="tab-content">
+      <div className="setting-group">
+        <label>Back Up</label>
+        <button className="instrument-button" onClick={handleExport}>
+          Download backup
+        </button>
+        <small>Saves your session and guess history, statistics, settings, custom presets and chord types to one file</small>
+      </div>
+
+      <div className="setting-group">
+        <label htmlFor="backup-file">Restore</label>
+        <input
+          id="backup-file"
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {backup && contents && (
+        <div className="setting-group backup-preview">
+          <p>
+            Backup from {new Date(backup.exportedAt).toLocaleString()}: {contents.sessions} sessions,
+            {' '}{contents.chords} chords and {contents.notes} notes with stats, {contents.presets} custom presets
+            {contents.chordTypes > 0 ? `, ${contents.chordTypes} custom chord types` : ''}
+            {contents.hasSettings ? ', settings' : ''}.
+          </p>
+
+          <div className="radio-group">
+            {IMPORT_MODE_OPTIONS.map(option => (
+              <label key={option.value} title={option.description}>
+                <input
+                  type="radio"
+                  name="backupImportMode"
+                  value={option.value}
+                  checked={importMode === option.value}
+                  onChange={() => setImportMode(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          <small>{IMPORT_MODE_OPTIONS.find(option => option.value === importMode)?.description}</small>
+
+          {importMode === 'merge' && contents.presets > 0 && (
+            <>
+              <label htmlFor="preset-conflicts">If a preset name already exists</label>
+              <select
+                id="preset-conflicts"
+                value={presetConflicts}
+                onChange={(e) => setPresetConflicts(e.target.value as PresetConflictStrategy)}
+              >
+                {PRESET_CONFLICT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </>
+          )}
+
+          <div className="instrument-buttons">
+            <button className="instrument-button active" onClick={handleImport}>
+              Restore backup
+            </button>
+            <button className="instrument-button" onClick={() => setBackup(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {quarantinedItems.length > 0 && (
+        <div className="setting-group backup-quarantine">
+          <label>Unreadable Data</label>
+          <p>Some saved data could not be loaded and was set aside instead of being deleted:</p>
+          <ul>
+            {quarantinedItems.map(item => (
+              <li key={`${item.key}-${item.quarantinedAt}`}>
+                {item.label}: {item.reason} ({new Date(item.quarantinedAt).toLocaleString()})
+              </li>
+            ))}
+          </ul>
+          <div className="instrument-buttons">
+            <button className="instrument-button" onClick={handleDownloadQuarantine}>
+              Download
+            </button>
+            <button className="instrument-button" onClick={handleDiscardQuarantine}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="backup-error" role="alert">{error}</div>}
+      {message && <small role="status">{message}</small>}
+    </div>
+  );
+};
+
+export default DataBackupSettings;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import type { Note } from '../../types/music';
+import type { DictationModeSettings as DictationSettings } from '../../types/game';
+import { MIN_MELODY_LENGTH, MAX_MELODY_LENGTH } from '../../utils/melodicDictation';
+import RootNoteSelector from './RootNoteSelector';
+
+const DictationModeSettings: React.FC = () => {
+  const { pendingSettings, updateModeSettings } = useSettings();
+  const dictationSettings = pendingSettings.modes.dictation;
+
+  const updateDictationSettings = (updates: Partial<DictationSettings>) => {
+    updateModeSettings({
+      dictation: {
+        ...dictationSettings,
+        ...updates
+      }
+    });
+  };
+
+  const handleKeyRootsChange = (keyRoots: Note[] | null) => {
+    updateDictationSettings({ keyRoots });
+  };
+
+  const targetOptions = [
+    { value: 5, label: '5 melodies - Warm Up' },
+    { value: 10, label: '10 melodies - Standard Drill' },
+    { value: 20, label: '20 melodies - Extended Drill' }
+  ];
+
+  const leapOptions = [
+    { value: 1, label: 'Steps only' },
+    { value: 2, label: 'Up to a third' },
+    { value: 4, label: 'Up to a fifth' },
+    { value: 7, label: 'Up to an octave' }
+  ];
+
+  return (
+    <div className="mode-settings-container">
+      <div className="mode-info">
+        <h4>✍️ Melodic Dictation</h4>
+        <p>Hear a short melody and play it back note by note on the piano or a MIDI keyboard.</p>
+      </div>
+
+      <div className="setting-group">
+        <label>Target Melodies</label>
+        <select
+          value={dictationSettings.targetMelodies}
+          onChange={(e) => updateDictationSettings({ targetMelodies: parseInt(e.target.value, 10) })}
+        >
+          {targetOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>How many melodies you need to play back correctly to complete the session</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Melody Length: {dictationSettings.melodyLength} notes</label>
+        <input
+          type="range"
+          min={MIN_MELODY_LENGTH}
+          max={MAX_MELODY_LENGTH}
+          value={dictationSettings.melodyLength}
+          onChange={(e) => updateDictationSettings({ melodyLength: parseInt(e.target.value, 10) })}
+        />
+      </div>
+
+      <div className="setting-group">
+        <label>Largest Leap</label>
+        <select
+          value={dictationSettings.maxLeap}
+          onChange={(e) => updateDictationSettings({ maxLeap: parseInt(e.target.value, 10) })}
+        >
+          {leapOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>Melodies stay inside the octave range of your note filter</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Key Type</label>
+        <select
+          value={dictationSettings.scale}
+          onChange={(e) => updateDictationSettings({ scale: e.target.value as DictationSettings['scale'] })}
+        >
+          <option value="major">Major</option>
+          <option value="minor">Minor</option>
+        </select>
+      </div>
+
+      <RootNoteSelector
+        selectedRootNotes={dictationSettings.keyRoots}
+        onChange={handleKeyRootsChange}
+      />
+    </div>
+  );
+};
+
+export default DictationModeSettings;
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import ExerciseImportSettings from './ExerciseImportSettings';
+import { renderWithSettings } from '../../test/testUtils';
+
+/** One-track .mid file with a C major then a G major triad, a beat each */
+const CHORDS_FILE = new Uint8Array([
+  0x4D, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xE0,
+  0x4D, 0x54, 0x72, 0x6B, 0, 0, 0, 42,
+  0x00, 0x90, 48, 100, 0x00, 52, 100, 0x00, 55, 100,
+  0x83, 0x60, 0x80, 48, 0, 0x00, 52, 0, 0x00, 55, 0,
+  0x00, 0x90, 55, 100, 0x00, 59, 100, 0x00, 62, 100,
+  0x83, 0x60, 0x80, 55, 0, 0x00, 59, 0, 0x00, 62, 0,
+  0x00, 0xFF, 0x2F, 0x00,
+]);
+
+const chooseFile = (bytes: Uint8Array, name: string) => {
+  const file = new File([bytes], name, { type: 'audio/midi' });
+  fireEvent.change(screen.getByLabelText('Custom Exercise'), { target: { files: [file] } });
+};
+
+describe('ExerciseImportSettings', () => {
+  it('imports the chords of a MIDI file and removes them again', async () => {
+    renderWithSettings(<ExerciseImportSettings />);
+
+    chooseFile(CHORDS_FILE, 'Cadence.mid');
+
+    await waitFor(() => {
+      expect(screen.getByRole('status').textContent).toBe('Cadence: 2 chords');
+    });
+
+    fireEvent.click(screen.getByText('Remove'));
+    expect(screen.queryByRole('status')).toBeNull();
+  });
+
+  it('lists the modes that can play the chosen kind', () => {
+    renderWithSettings(<ExerciseImportSettings />);
+
+    fireEvent.click(screen.getByLabelText('Melodies'));
+
+    expect(screen.getByText(/Used by Melodic Dictation, Rush, Survival and Sandbox/)).not.toBeNull();
+  });
+
+  it('says that chord progressions do not play imported chords', () => {
+    renderWithSettings(<ExerciseImportSettings />);
+
+    expect(screen.getByText(/Chord Progressions keeps its own progressions/)).not.toBeNull();
+  });
+
+  it('shows an error for a file that is not MIDI', async () => {
+    renderWithSettings(<ExerciseImportSettings />);
+
+    chooseFile(new TextEncoder().encode('not a midi file at all'), 'notes.mid');
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert').textContent).toBe('Not a Standard MIDI File');
+    });
+  });
+});
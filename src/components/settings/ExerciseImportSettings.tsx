@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import type { CustomExercise } from '../../types/settings';
+import { importMidiExercise } from '../../utils/midiExercise';
+
+const KIND_OPTIONS: { value: CustomExercise['kind']; label: string; modes: string; notes: string }[] = [
+  {
+    value: 'chords',
+    label: 'Chords',
+    modes: 'Chord Training, Chord Identification and Chord Voicing',
+    notes: 'Chord Progressions keeps its own progressions, since its answers need a key.'
+  },
+  {
+    value: 'melodies',
+    label: 'Melodies',
+    modes: 'Melodic Dictation, Rush, Survival and Sandbox',
+    notes: 'The melody is moved by octaves into the octave range set for these modes.'
+  }
+];
+
+const readFileAsArrayBuffer = (file: File): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error('Could not read the MIDI file.'));
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+const describeExercise = (exercise: CustomExercise): string => {
+  const count = exercise.kind === 'chords' ? exercise.chords.length : exercise.melodies.length;
+  const unit = exercise.kind === 'chords' ? 'chord' : 'melody';
+  return `${count} ${count === 1 ? unit : exercise.kind}`;
+};
+
+const ExerciseImportSettings: React.FC = () => {
+  const { pendingSettings, updatePracticeSettings } = useSettings();
+  const { exercise } = pendingSettings.practice;
+  const [kind, setKind] = useState<CustomExercise['kind']>(exercise?.kind ?? 'chords');
+  const selectedKind = KIND_OPTIONS.find(option => option.value === kind);
+  const [error, setError] = useState<string | null>(null);
+  const [unrecognizedChords, setUnrecognizedChords] = useState(0);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    setError(null);
+    try {
+      const name = file.name.replace(/\.midi?$/i, '');
+      const result = importMidiExercise(await readFileAsArrayBuffer(file), name, kind, pendingSettings.noteFilter.octaveRange);
+      setUnrecognizedChords(result.unrecognizedChords);
+      updatePracticeSettings({ exercise: result.exercise });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the MIDI file.');
+    }
+  };
+
+  const handleRemove = () => {
+    setUnrecognizedChords(0);
+    updatePracticeSettings({ exercise: null });
+  };
+
+  return (
+    <div className="setting-group">
+      <label htmlFor="exercise-file">Custom Exercise</label>
+      <div className="radio-group">
+        {KIND_OPTIONS.map(option => (
+          <label key={option.value}>
+            <input
+              type="radio"
+              name="exerciseKind"
+              value={option.value}
+              checked={kind === option.value}
+              onChange={() => setKind(option.value)}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      <input
+        id="exercise-file"
+        type="file"
+        accept=".mid,.midi,audio/midi"
+        onChange={handleFileChange}
+      />
+      <small>
+        Plays the {kind} of a MIDI file in order, in their exact voicings, instead of using the filters.
+        {' '}Used by {selectedKind?.modes}. {selectedKind?.notes}
+      </small>
+
+      {exercise && (
+        <div className="instrument-buttons">
+          <span role="status">
+            {exercise.name}: {describeExercise(exercise)}
+            {unrecognizedChords > 0 ? ` (${unrecognizedChords} not recognized as chords, skipped)` : ''}
+          </span>
+          <button className="instrument-button" onClick={handleRemove}>
+            Remove
+          </button>
+        </div>
+      )}
+
+      {error && <div className="backup-error" role="alert">{error}</div>}
+    </div>
+  );
+};
+
+export default ExerciseImportSettings;
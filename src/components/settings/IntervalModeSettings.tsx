@@ -0,0 +1,104 @@
+import React from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import { INTERVALS, getIntervalName } from '../../constants/intervals';
+
+const IntervalModeSettings: React.FC = () => {
+  const { pendingSettings, updateModeSettings } = useSettings();
+  const intervalSettings = pendingSettings.modes.interval;
+
+  const handleTargetIntervalsChange = (targetIntervals: number) => {
+    updateModeSettings({
+      interval: {
+        ...intervalSettings,
+        targetIntervals
+      }
+    });
+  };
+
+  const handleIntervalToggle = (semitones: number) => {
+    const isEnabled = intervalSettings.enabledIntervals.includes(semitones);
+
+    // Keep at least one interval enabled so rounds can always be generated
+    if (isEnabled && intervalSettings.enabledIntervals.length === 1) {
+      return;
+    }
+
+    const enabledIntervals = isEnabled
+      ? intervalSettings.enabledIntervals.filter(s => s !== semitones)
+      : [...intervalSettings.enabledIntervals, semitones].sort((a, b) => a - b);
+
+    updateModeSettings({
+      interval: {
+        ...intervalSettings,
+        enabledIntervals
+      }
+    });
+  };
+
+  const targetOptions = [
+    { value: 10, label: '10 intervals - Warm Up' },
+    { value: 20, label: '20 intervals - Standard Drill' },
+    { value: 40, label: '40 intervals - Extended Drill' }
+  ];
+
+  const enabledNames = intervalSettings.enabledIntervals.map(getIntervalName).join(', ');
+
+  return (
+    <div className="mode-settings-container">
+      <div className="mode-info">
+        <h4>🎼 Interval Training</h4>
+        <p>Hear two notes and name the interval between them, or play the second note on the keyboard. Ascending, descending and harmonic modes share these settings.</p>
+      </div>
+
+      <div className="setting-group">
+        <label>Target Intervals</label>
+        <select
+          value={intervalSettings.targetIntervals}
+          onChange={(e) => handleTargetIntervalsChange(parseInt(e.target.value, 10))}
+        >
+          {targetOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>How many intervals you need to identify to complete the session</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Intervals</label>
+        {INTERVALS.map(interval => (
+          <label key={interval.semitones} className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={intervalSettings.enabledIntervals.includes(interval.semitones)}
+              onChange={() => handleIntervalToggle(interval.semitones)}
+            />
+            {interval.name} ({interval.shortName})
+          </label>
+        ))}
+        <small>Start with a few contrasting intervals and add more as your ear improves</small>
+      </div>
+
+      <div className="mode-preview">
+        <h5>Session Preview</h5>
+        <div className="preview-stats">
+          <div className="preview-stat">
+            <span className="stat-label">Target:</span>
+            <span className="stat-value">{intervalSettings.targetIntervals} correct intervals</span>
+          </div>
+          <div className="preview-stat">
+            <span className="stat-label">Intervals:</span>
+            <span className="stat-value">{enabledNames}</span>
+          </div>
+          <div className="preview-stat">
+            <span className="stat-label">Tracked Stats:</span>
+            <span className="stat-value">Accuracy per interval, longest streak</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IntervalModeSettings;
@@ -0,0 +1,75 @@
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MidiActionSettings } from './MidiActionSettings';
+import { createMidiTestFixture, type MidiTestFixture } from '../../utils/__tests__/testHelpers';
+import type { MidiActionBindings, MidiDeviceInfo } from '../../types/midi';
+
+describe('MidiActionSettings', () => {
+  let fixture: MidiTestFixture;
+  let devices: MidiDeviceInfo[];
+  const onChange = vi.fn();
+
+  const pad = { type: 'note' as const, number: 36, channel: 10 };
+
+  const renderSettings = (bindings: Record<string, MidiActionBindings> = {}) =>
+    render(<MidiActionSettings bindings={bindings} devices={devices} onChange={onChange} />);
+
+  const getRow = (label: string) => screen.getByText(label).closest('.midi-action-row') as HTMLElement;
+
+  beforeEach(async () => {
+    fixture = createMidiTestFixture();
+    await fixture.midiManager.initialize();
+    await fixture.midiManager.selectInputDevice('device-1');
+    await fixture.midiManager.addInputDevice('device-2');
+    devices = fixture.midiManager.getAvailableInputs();
+  });
+
+  afterEach(() => {
+    fixture.midiManager.disconnect();
+    onChange.mockClear();
+  });
+
+  it('shows mapped controls with the device they are on', () => {
+    renderSettings({ 'device-2': { replay: pad } });
+
+    expect(getRow('Replay').textContent).toContain('MIDI Keyboard 2: Note C3 (ch. 10)');
+    expect(getRow('Next').textContent).toContain('Not mapped');
+  });
+
+  it('maps the next control pressed to the action on the device it came from', () => {
+    renderSettings();
+
+    fireEvent.click(getRow('Next').querySelector('button')!);
+    expect(getRow('Next').textContent).toContain('Press a pad, pedal or key...');
+
+    act(() => {
+      fixture.mockDevice2.simulateMessage([0xB0, 80, 127]);
+    });
+
+    expect(onChange).toHaveBeenCalledWith({
+      'device-2': { next: { type: 'controlChange', number: 80, channel: 1 } }
+    });
+    expect(getRow('Next').textContent).not.toContain('Press a pad');
+  });
+
+  it('moves a control that was mapped to another action', () => {
+    renderSettings({ 'device-1': { replay: pad, clear: { type: 'programChange', number: 2, channel: 1 } } });
+
+    fireEvent.click(getRow('Start').querySelector('button')!);
+    act(() => {
+      fixture.mockDevice1.simulateMessage([0x99, 36, 100]);
+    });
+
+    expect(onChange).toHaveBeenCalledWith({
+      'device-1': { clear: { type: 'programChange', number: 2, channel: 1 }, start: pad }
+    });
+  });
+
+  it('clears an action on every device', () => {
+    renderSettings({ 'device-1': { replay: pad }, 'device-2': { replay: pad, next: pad } });
+
+    fireEvent.click(screen.getByLabelText('Clear Replay mapping'));
+
+    expect(onChange).toHaveBeenCalledWith({ 'device-2': { next: pad } });
+  });
+});
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { MidiManager } from '../../services/MidiManager';
+import type {
+  MidiAction,
+  MidiActionBindings,
+  MidiBindingEvent,
+  MidiDeviceInfo,
+} from '../../types/midi';
+import { describeMidiBinding, isSameBinding } from '../../utils/midiUtils';
+
+interface MidiActionSettingsProps {
+  bindings: Record<string, MidiActionBindings>;
+  devices: MidiDeviceInfo[];
+  onChange: (bindings: Record<string, MidiActionBindings>) => void;
+}
+
+const ACTION_OPTIONS: { action: MidiAction; label: string }[] = [
+  { action: 'replay', label: 'Replay' },
+  { action: 'submit', label: 'Submit' },
+  { action: 'next', label: 'Next' },
+  { action: 'clear', label: 'Clear' },
+  { action: 'pause', label: 'Pause / Resume' },
+  { action: 'start', label: 'Start' },
+];
+
+/**
+ * MidiActionSettings - MIDI learn for controller buttons, pads and pedals
+ *
+ * Clicking Learn next to an action waits for a note, controller or program
+ * change from any input and maps it to the action on the device it came from.
+ * A control can only be mapped to one action per device, so learning it again
+ * moves it to the new action.
+ *
+ * @param bindings - Mapped actions by device ID (from settings)
+ * @param devices - Available inputs, used to name the devices
+ * @param onChange - Callback with the updated bindings
+ */
+export const MidiActionSettings: React.FC<MidiActionSettingsProps> = ({
+  bindings,
+  devices,
+  onChange,
+}) => {
+  const [learningAction, setLearningAction] = useState<MidiAction | null>(null);
+
+  // Wait for the next control press while learning
+  useEffect(() => {
+    if (!learningAction) return;
+
+    const midiManager = MidiManager.getInstance();
+
+    const handleControlPressed = ({ deviceId, binding }: MidiBindingEvent) => {
+      const deviceBindings: MidiActionBindings = { ...bindings[deviceId] };
+      (Object.keys(deviceBindings) as MidiAction[]).forEach(action => {
+        const bound = deviceBindings[action];
+        if (bound && isSameBinding(bound, binding)) {
+          delete deviceBindings[action];
+        }
+      });
+      deviceBindings[learningAction] = binding;
+
+      onChange({ ...bindings, [deviceId]: deviceBindings });
+      setLearningAction(null);
+    };
+
+    midiManager.on('controlPressed', handleControlPressed);
+    return () => {
+      midiManager.off('controlPressed', handleControlPressed);
+    };
+  }, [learningAction, bindings, onChange]);
+
+  const handleClear = (action: MidiAction) => {
+    const updated: Record<string, MidiActionBindings> = {};
+    Object.entries(bindings).forEach(([deviceId, deviceBindings]) => {
+      const remaining = { ...deviceBindings };
+      delete remaining[action];
+      if (Object.keys(remaining).length > 0) {
+        updated[deviceId] = remaining;
+      }
+    });
+    onChange(updated);
+  };
+
+  const getDeviceName = (deviceId: string) =>
+    devices.find(device => device.id === deviceId)?.name ?? 'Unplugged device';
+
+  return (
+    <div className="midi-action-settings">
+      {ACTION_OPTIONS.map(({ action, label }) => {
+        const mapped = Object.entries(bindings)
+          .filter(([, deviceBindings]) => deviceBindings[action])
+          .map(([deviceId, deviceBindings]) =>
+            `${getDeviceName(deviceId)}: ${describeMidiBinding(deviceBindings[action]!)}`
+          );
+        const isLearning = learningAction === action;
+
+        return (
+          <div key={action} className="midi-action-row">
+            <span className="midi-action-label">{label}</span>
+            <span className="midi-action-binding">
+              {isLearning
+                ? 'Press a pad, pedal or key...'
+                : mapped.length > 0 ? mapped.join(', ') : 'Not mapped'}
+            </span>
+            <button
+              className={`instrument-button ${isLearning ? 'active' : ''}`}
+              onClick={() => setLearningAction(isLearning ? null : action)}
+            >
+              {isLearning ? 'Cancel' : 'Learn'}
+            </button>
+            <button
+              className="instrument-button"
+              onClick={() => handleClear(action)}
+              disabled={mapped.length === 0}
+              aria-label={`Clear ${label} mapping`}
+            >
+              Clear
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
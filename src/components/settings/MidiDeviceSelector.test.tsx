@@ -13,8 +13,10 @@ vi.mock('../../services/MidiManager', () => {
     isInitialized: vi.fn(() => false),
     initialize: vi.fn(() => Promise.resolve()),
     getAvailableInputs: vi.fn(() => []),
+    getAvailableOutputs: vi.fn(() => []),
     getConnectionStatus: vi.fn(() => 'disconnected' as MidiConnectionStatus),
     selectInputDevice: vi.fn(),
+    selectOutputDevice: vi.fn(),
     on: vi.fn((event: string, handler: Function) => {
       if (!mockEventHandlers.has(event)) {
         mockEventHandlers.set(event, []);
@@ -85,6 +87,7 @@ describe('MidiDeviceSelector', () => {
     mockManager.isInitialized.mockReturnValue(false);
     mockManager.initialize.mockResolvedValue(undefined);
     mockManager.getAvailableInputs.mockReturnValue([]);
+    mockManager.getAvailableOutputs.mockReturnValue([]);
     mockManager.getConnectionStatus.mockReturnValue('disconnected');
   });
 
@@ -368,6 +371,91 @@ describe('MidiDeviceSelector', () => {
     });
   });
 
+  describe('Output Devices', () => {
+    const mockOutputs: MidiDeviceInfo[] = [
+      {
+        id: 'synth1',
+        name: 'Piano Module',
+        manufacturer: 'SynthCo',
+        state: 'connected',
+        type: 'output'
+      }
+    ];
+
+    it('lists outputs and selects them on the MidiManager', async () => {
+      const mockManager = getMockManager();
+      mockManager.getAvailableInputs.mockReturnValue(mockDevices);
+      mockManager.getAvailableOutputs.mockReturnValue(mockOutputs);
+
+      render(
+        <MidiDeviceSelector
+          direction="output"
+          selectedDeviceId={undefined}
+          onDeviceChange={mockOnDeviceChange}
+        />
+      );
+
+      const dropdown = await screen.findByRole('combobox') as HTMLSelectElement;
+      expect(Array.from(dropdown.options).map(option => option.value)).toEqual(['', 'synth1']);
+
+      fireEvent.change(dropdown, { target: { value: 'synth1' } });
+      expect(mockManager.selectOutputDevice).toHaveBeenCalledWith('synth1');
+      expect(mockOnDeviceChange).toHaveBeenCalledWith('synth1');
+
+      fireEvent.change(dropdown, { target: { value: '' } });
+      expect(mockManager.selectOutputDevice).toHaveBeenLastCalledWith(null);
+      expect(mockManager.selectInputDevice).not.toHaveBeenCalled();
+    });
+
+    it('shows the selected output as connected from its own state', async () => {
+      const mockManager = getMockManager();
+      mockManager.getAvailableOutputs.mockReturnValue(mockOutputs);
+      mockManager.getConnectionStatus.mockReturnValue('disconnected');
+
+      render(
+        <MidiDeviceSelector
+          direction="output"
+          selectedDeviceId="synth1"
+          onDeviceChange={mockOnDeviceChange}
+        />
+      );
+
+      expect((await screen.findByText(/Connected/)).textContent).toContain('✓');
+    });
+
+    it('asks for a synth when no outputs are available', async () => {
+      render(
+        <MidiDeviceSelector
+          direction="output"
+          selectedDeviceId={undefined}
+          onDeviceChange={mockOnDeviceChange}
+        />
+      );
+
+      expect(await screen.findByText(/No MIDI outputs found/)).toBeTruthy();
+    });
+
+    it('clears the selection when the selected output is unplugged', async () => {
+      const mockManager = getMockManager();
+      mockManager.getAvailableOutputs.mockReturnValue(mockOutputs);
+
+      render(
+        <MidiDeviceSelector
+          direction="output"
+          selectedDeviceId="synth1"
+          onDeviceChange={mockOnDeviceChange}
+        />
+      );
+
+      await screen.findByRole('combobox');
+      act(() => {
+        mockManager._emit('outputDisconnected', { ...mockOutputs[0], state: 'disconnected' });
+      });
+
+      expect(mockOnDeviceChange).toHaveBeenCalledWith(undefined);
+    });
+  });
+
   describe('Connection Status', () => {
     it('shows connected status when device is selected and connected', async () => {
       const mockManager = getMockManager();
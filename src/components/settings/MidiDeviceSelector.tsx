@@ -9,13 +9,14 @@ import type {
 interface MidiDeviceSelectorProps {
   selectedDeviceId: string | undefined;
   onDeviceChange: (deviceId: string | undefined) => void;
+  direction?: 'input' | 'output';
 }
 
 /**
- * MidiDeviceSelector - Component for selecting MIDI input devices
+ * MidiDeviceSelector - Component for selecting MIDI input or output devices
  *
  * Features:
- * - Displays dropdown of available MIDI input devices
+ * - Displays dropdown of available MIDI input (or output) devices
  * - Shows connection status (connected/disconnected)
  * - Handles device plug/unplug events
  * - Displays appropriate messages for edge cases:
@@ -25,10 +26,12 @@ interface MidiDeviceSelectorProps {
  *
  * @param selectedDeviceId - Currently selected device ID (from settings)
  * @param onDeviceChange - Callback when user selects a different device
+ * @param direction - Whether to list keyboards to play on ('input', default) or synths to play through ('output')
  */
 export const MidiDeviceSelector: React.FC<MidiDeviceSelectorProps> = ({
   selectedDeviceId,
   onDeviceChange,
+  direction = 'input',
 }) => {
   // State
   const [devices, setDevices] = useState<MidiDeviceInfo[]>([]);
@@ -38,9 +41,12 @@ export const MidiDeviceSelector: React.FC<MidiDeviceSelectorProps> = ({
 
   // Get MidiManager singleton instance
   const midiManager = MidiManager.getInstance();
+  const isOutput = direction === 'output';
 
   // Initialize MIDI and subscribe to events
   useEffect(() => {
+    const getDevices = () => isOutput ? midiManager.getAvailableOutputs() : midiManager.getAvailableInputs();
+
     const initializeMidi = async () => {
       // Check browser support
       if (!midiManager.isSupported()) {
@@ -50,7 +56,7 @@ export const MidiDeviceSelector: React.FC<MidiDeviceSelectorProps> = ({
 
       // If already initialized, just update state
       if (midiManager.isInitialized()) {
-        setDevices(midiManager.getAvailableInputs());
+        setDevices(getDevices());
         setConnectionStatus(midiManager.getConnectionStatus());
         return;
       }
@@ -59,7 +65,7 @@ export const MidiDeviceSelector: React.FC<MidiDeviceSelectorProps> = ({
       setIsInitializing(true);
       try {
         await midiManager.initialize();
-        setDevices(midiManager.getAvailableInputs());
+        setDevices(getDevices());
         setConnectionStatus(midiManager.getConnectionStatus());
       } catch (err) {
         setError(err as MidiError);
@@ -73,12 +79,12 @@ export const MidiDeviceSelector: React.FC<MidiDeviceSelectorProps> = ({
     // Event handlers
     const handleDeviceConnected = (device: MidiDeviceInfo) => {
       // Update device list when a device is plugged in
-      setDevices(midiManager.getAvailableInputs());
+      setDevices(getDevices());
     };
 
     const handleDeviceDisconnected = (device: MidiDeviceInfo) => {
       // Update device list when a device is unplugged
-      setDevices(midiManager.getAvailableInputs());
+      setDevices(getDevices());
 
       // If the disconnected device was selected, clear selection
       if (device.id === selectedDeviceId) {
@@ -94,27 +100,33 @@ export const MidiDeviceSelector: React.FC<MidiDeviceSelectorProps> = ({
       setError(err);
     };
 
+    // Outputs are announced separately from input devices
+    const connectedEvent = isOutput ? 'outputConnected' : 'deviceConnected';
+    const disconnectedEvent = isOutput ? 'outputDisconnected' : 'deviceDisconnected';
+
     // Subscribe to events
-    midiManager.on('deviceConnected', handleDeviceConnected);
-    midiManager.on('deviceDisconnected', handleDeviceDisconnected);
+    midiManager.on(connectedEvent, handleDeviceConnected);
+    midiManager.on(disconnectedEvent, handleDeviceDisconnected);
     midiManager.on('statusChange', handleStatusChange);
     midiManager.on('error', handleError);
 
     // Cleanup: unsubscribe from events on unmount
     return () => {
-      midiManager.off('deviceConnected', handleDeviceConnected);
-      midiManager.off('deviceDisconnected', handleDeviceDisconnected);
+      midiManager.off(connectedEvent, handleDeviceConnected);
+      midiManager.off(disconnectedEvent, handleDeviceDisconnected);
       midiManager.off('statusChange', handleStatusChange);
       midiManager.off('error', handleError);
     };
-  }, [midiManager, selectedDeviceId, onDeviceChange]);
+  }, [midiManager, isOutput, selectedDeviceId, onDeviceChange]);
 
   // Handle device selection from dropdown
   const handleDeviceSelect = (event: React.ChangeEvent<HTMLSelectElement>) => {
     const deviceId = event.target.value || undefined;
 
     // Tell MidiManager to connect to the selected device
-    if (deviceId) {
+    if (isOutput) {
+      midiManager.selectOutputDevice(deviceId ?? null);
+    } else if (deviceId) {
       midiManager.selectInputDevice(deviceId);
     }
 
@@ -166,11 +178,20 @@ export const MidiDeviceSelector: React.FC<MidiDeviceSelectorProps> = ({
     return (
       <div className="midi-selector-message">
         <span className="info-icon">ℹ️</span>
-        <span>No MIDI devices found. Connect a MIDI keyboard to enable input.</span>
+        <span>
+          {isOutput
+            ? 'No MIDI outputs found. Connect a synth or sound module to play exercises through it.'
+            : 'No MIDI devices found. Connect a MIDI keyboard to enable input.'}
+        </span>
       </div>
     );
   }
 
+  // The connection status tracks the input; an output's state comes from its device info
+  const selectedStatus = isOutput
+    ? devices.find(device => device.id === selectedDeviceId)?.state ?? 'disconnected'
+    : connectionStatus;
+
   // Render: Device selector with connection status
   return (
     <div className="midi-device-selector">
@@ -189,12 +210,12 @@ export const MidiDeviceSelector: React.FC<MidiDeviceSelectorProps> = ({
       </select>
 
       {/* Connection status indicator */}
-      {selectedDeviceId && connectionStatus === 'connected' && (
+      {selectedDeviceId && selectedStatus === 'connected' && (
         <span className="connection-status connected">
           ✓ Connected
         </span>
       )}
-      {selectedDeviceId && connectionStatus === 'disconnected' && (
+      {selectedDeviceId && selectedStatus === 'disconnected' && (
         <span className="connection-status disconnected">
           ○ Disconnected
         </span>
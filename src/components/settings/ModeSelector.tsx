@@ -2,6 +2,8 @@ import React from 'react';
 import { useSettings } from '../../hooks/useSettings';
 import type { ModeType } from '../../types/game';
 import { modeRegistry } from '../../game/ModeRegistry';
+import PracticeSelectionSettings from './PracticeSelectionSettings';
+import ExerciseImportSettings from './ExerciseImportSettings';
 
 interface ModeCardProps {
   mode: ModeType;
@@ -99,6 +101,8 @@ const ModeSelector: React.FC<ModeSelectorProps> = ({ onRestartGame }) => {
               return SettingsComponent ? <SettingsComponent /> : null;
             })()}
           </div>
+          <PracticeSelectionSettings />
+          <ExerciseImportSettings />
         </div>
       )}
 
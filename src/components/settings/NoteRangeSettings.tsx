@@ -4,8 +4,8 @@ import type { Note, KeyType, Octave } from '../../types/music';
 import { ALL_NOTES, WHITE_KEYS, BLACK_KEYS } from '../../types/music';
 
 const NoteRangeSettings: React.FC = () => {
-  const { pendingSettings, updateNoteFilter, updateShowNoteLabels } = useSettings();
-  const { noteFilter, showNoteLabels } = pendingSettings;
+  const { pendingSettings, updateNoteFilter, updateShowNoteLabels, updateShowStaffNotation } = useSettings();
+  const { noteFilter, showNoteLabels, showStaffNotation } = pendingSettings;
   
   const [minOctave, setMinOctave] = useState<number>(noteFilter.octaveRange.min);
   const [maxOctave, setMaxOctave] = useState<number>(noteFilter.octaveRange.max);
@@ -232,6 +232,19 @@ const NoteRangeSettings: React.FC = () => {
         </p>
       </div>
 
+      <div className="setting-group">
+        <label>Show Staff Notation</label>
+        <input
+          type="checkbox"
+          checked={showStaffNotation}
+          onChange={(e) => updateShowStaffNotation(e.target.checked)}
+          className="setting-checkbox"
+        />
+        <p className="setting-description">
+          Write chords and notes on a treble and bass staff alongside the piano.
+        </p>
+      </div>
+
       <div className="setting-group">
         <button 
           className="reset-button"
@@ -1,9 +1,13 @@
 import React from 'react';
 import { useSettings } from '../../hooks/useSettings';
+import { NOTE_TRAINING_SUB_MODES } from '../../constants';
+import { DEFAULT_ONSET_WINDOW } from '../../utils/chordPerformance';
 
 const NoteTrainingModeSettings: React.FC = () => {
   const { pendingSettings, updateModeSettings } = useSettings();
   const noteTrainingSettings = pendingSettings.modes.noteTraining;
+  const isVoicingMode = pendingSettings.modes.selectedMode === NOTE_TRAINING_SUB_MODES.PLAY_CHORD_VOICING;
+  const onsetWindow = noteTrainingSettings.onsetWindow ?? DEFAULT_ONSET_WINDOW;
 
   const handleTargetChordsChange = (targetChords: number | undefined) => {
     updateModeSettings({
@@ -14,6 +18,15 @@ const NoteTrainingModeSettings: React.FC = () => {
     });
   };
 
+  const handleOnsetWindowChange = (onsetWindow: number) => {
+    updateModeSettings({
+      noteTraining: {
+        ...noteTrainingSettings,
+        onsetWindow
+      }
+    });
+  };
+
   return (
     <div className="mode-settings-container">
       <div className="mode-info">
@@ -52,6 +65,22 @@ const NoteTrainingModeSettings: React.FC = () => {
         <small>Number of chords to identify correctly to complete the session</small>
       </div>
 
+      {isVoicingMode && (
+        <div className="setting-group">
+          <label>Onset Window</label>
+          <input
+            type="range"
+            min="20"
+            max="200"
+            step="10"
+            value={onsetWindow}
+            onChange={(e) => handleOnsetWindowChange(parseInt(e.target.value, 10))}
+          />
+          <span className="range-value">{onsetWindow}ms</span>
+          <small>How close together the notes of a played chord must start to count as one chord</small>
+        </div>
+      )}
+
       <div className="mode-preview">
         <h5>Session Preview</h5>
         <div className="preview-stats">
@@ -63,7 +92,9 @@ const NoteTrainingModeSettings: React.FC = () => {
           </div>
           <div className="preview-stat">
             <span className="stat-label">Feedback:</span>
-            <span className="stat-value">Visual multi-note highlighting</span>
+            <span className="stat-value">
+              {isVoicingMode ? 'Timing, velocity and voicing per chord' : 'Visual multi-note highlighting'}
+            </span>
           </div>
         </div>
       </div>
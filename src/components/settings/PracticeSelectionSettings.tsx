@@ -0,0 +1,56 @@
+import React from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import type { ItemSelectionMode } from '../../types/settings';
+import { reviewScheduler } from '../../utils/spacedRepetition';
+
+const SELECTION_OPTIONS: { value: ItemSelectionMode; label: string; description: string }[] = [
+  {
+    value: 'random',
+    label: 'Random',
+    description: 'Every allowed note or chord is equally likely'
+  },
+  {
+    value: 'adaptive',
+    label: 'Adaptive',
+    description: 'Weak and overdue notes and chords come up more often'
+  },
+  {
+    value: 'review',
+    label: 'Review due items',
+    description: 'Only ask notes and chords that are due for review'
+  }
+];
+
+const PracticeSelectionSettings: React.FC = () => {
+  const { pendingSettings, updatePracticeSettings } = useSettings();
+  const { selectionMode } = pendingSettings.practice;
+
+  const dueNotes = reviewScheduler.getDueItems('note').length;
+  const dueChords = reviewScheduler.getDueItems('chord').length;
+
+  return (
+    <div className="setting-group">
+      <label>Note &amp; Chord Selection</label>
+      <div className="radio-group">
+        {SELECTION_OPTIONS.map(option => (
+          <label key={option.value} title={option.description}>
+            <input
+              type="radio"
+              name="selectionMode"
+              value={option.value}
+              checked={selectionMode === option.value}
+              onChange={() => updatePracticeSettings({ selectionMode: option.value })}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      <small>
+        {SELECTION_OPTIONS.find(option => option.value === selectionMode)?.description}.
+        {' '}Due now: {dueNotes} {dueNotes === 1 ? 'note' : 'notes'}, {dueChords} {dueChords === 1 ? 'chord' : 'chords'}
+      </small>
+    </div>
+  );
+};
+
+export default PracticeSelectionSettings;
@@ -0,0 +1,76 @@
+import React from 'react';
+import type { PrimingFrequency, PrimingSettings, PrimingType } from '../../types/game';
+import { DEFAULT_PRIMING_SETTINGS } from '../../types/game';
+import { SHORTCUTS } from '../../constants/keyboardShortcuts';
+import KeyFilterSelector from './KeyFilterSelector';
+
+interface PrimingSelectorProps {
+  priming?: PrimingSettings;
+  onChange: (priming: PrimingSettings) => void;
+}
+
+const typeOptions: { value: PrimingType; label: string }[] = [
+  { value: 'cadence', label: 'Cadence (I-IV-V-I)' },
+  { value: 'reference-a', label: 'Reference tone A4' },
+  { value: 'reference-c', label: 'Reference tone C4' }
+];
+
+const frequencyOptions: { value: PrimingFrequency; label: string }[] = [
+  { value: 'off', label: 'Off - no reference' },
+  { value: 'session', label: 'Once at the start of the session' },
+  { value: 'round', label: 'Before every note' },
+  { value: 'on-demand', label: `Only when I press ${SHORTCUTS.PRIME.label}` }
+];
+
+/**
+ * Settings for the reference tone or cadence played before ear-training notes
+ */
+const PrimingSelector: React.FC<PrimingSelectorProps> = ({ priming = DEFAULT_PRIMING_SETTINGS, onChange }) => {
+  const updatePriming = (updates: Partial<PrimingSettings>) => {
+    onChange({ ...priming, ...updates });
+  };
+
+  return (
+    <>
+      <div className="setting-group">
+        <label>Reference</label>
+        <select
+          value={priming.frequency}
+          onChange={(e) => updatePriming({ frequency: e.target.value as PrimingFrequency })}
+        >
+          {frequencyOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>Hear notes relative to a key instead of relying on perfect pitch</small>
+      </div>
+
+      {priming.frequency !== 'off' && (
+        <div className="setting-group">
+          <label>Reference Type</label>
+          <select
+            value={priming.type}
+            onChange={(e) => updatePriming({ type: e.target.value as PrimingType })}
+          >
+            {typeOptions.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {priming.frequency !== 'off' && priming.type === 'cadence' && (
+        <KeyFilterSelector
+          keyFilter={priming.key}
+          onChange={(key) => key && updatePriming({ key })}
+        />
+      )}
+    </>
+  );
+};
+
+export default PrimingSelector;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import type { Note } from '../../types/music';
+import { PROGRESSIONS, formatNumerals } from '../../constants/progressions';
+import type { ProgressionDefinition } from '../../constants/progressions';
+import RootNoteSelector from './RootNoteSelector';
+
+const CATEGORY_DISPLAY_NAMES: Record<ProgressionDefinition['category'], string> = {
+  cadence: 'Cadences',
+  progression: 'Progressions'
+};
+
+const ProgressionModeSettings: React.FC = () => {
+  const { pendingSettings, updateModeSettings } = useSettings();
+  const progressionSettings = pendingSettings.modes.progression;
+
+  const handleProgressionToggle = (id: string) => {
+    const { enabledProgressions } = progressionSettings;
+    const isEnabled = enabledProgressions.includes(id);
+
+    // Keep at least one progression enabled so rounds can always be generated
+    if (isEnabled && enabledProgressions.length === 1) {
+      return;
+    }
+
+    updateModeSettings({
+      progression: {
+        ...progressionSettings,
+        enabledProgressions: isEnabled
+          ? enabledProgressions.filter(enabledId => enabledId !== id)
+          : [...enabledProgressions, id]
+      }
+    });
+  };
+
+  const handleKeyRootsChange = (keyRoots: Note[] | null) => {
+    updateModeSettings({
+      progression: {
+        ...progressionSettings,
+        keyRoots
+      }
+    });
+  };
+
+  const handleSeventhChordsChange = (useSeventhChords: boolean) => {
+    updateModeSettings({
+      progression: {
+        ...progressionSettings,
+        useSeventhChords
+      }
+    });
+  };
+
+  const handleTargetProgressionsChange = (targetProgressions: number) => {
+    updateModeSettings({
+      progression: {
+        ...progressionSettings,
+        targetProgressions
+      }
+    });
+  };
+
+  const targetOptions = [
+    { value: 5, label: '5 progressions - Warm Up' },
+    { value: 10, label: '10 progressions - Standard Drill' },
+    { value: 20, label: '20 progressions - Extended Drill' }
+  ];
+
+  const categories = Object.keys(CATEGORY_DISPLAY_NAMES) as ProgressionDefinition['category'][];
+
+  return (
+    <div className="mode-settings-container">
+      <div className="mode-info">
+        <h4>🔁 Chord Progressions</h4>
+        <p>Hear a cadence or progression and name each chord with a Roman numeral.</p>
+      </div>
+
+      <div className="setting-group">
+        <label>Target Progressions</label>
+        <select
+          value={progressionSettings.targetProgressions}
+          onChange={(e) => handleTargetProgressionsChange(parseInt(e.target.value, 10))}
+        >
+          {targetOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>How many progressions you need to identify to complete the session</small>
+      </div>
+
+      <div className="setting-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={progressionSettings.useSeventhChords}
+            onChange={(e) => handleSeventhChordsChange(e.target.checked)}
+          />
+          Play seventh chords
+        </label>
+        <small>Numerals stay the same; only the chord voicing changes</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Progressions</label>
+        {categories.map(category => (
+          <div key={category} className="progression-category">
+            <strong>{CATEGORY_DISPLAY_NAMES[category]}</strong>
+            {PROGRESSIONS.filter(progression => progression.category === category).map(progression => (
+              <label key={progression.id} className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={progressionSettings.enabledProgressions.includes(progression.id)}
+                  onChange={() => handleProgressionToggle(progression.id)}
+                />
+                {progression.name} ({formatNumerals(progression.numerals)})
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <RootNoteSelector
+        selectedRootNotes={progressionSettings.keyRoots}
+        onChange={handleKeyRootsChange}
+      />
+    </div>
+  );
+};
+
+export default ProgressionModeSettings;
@@ -0,0 +1,163 @@
+import React from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import type { Meter, NoteDuration } from '../../types/music';
+import type { RhythmModeSettings as RhythmSettings } from '../../types/game';
+import { MIN_RHYTHM_MEASURES, MAX_RHYTHM_MEASURES } from '../../utils/rhythm';
+
+const NOTE_VALUES: { value: NoteDuration; label: string }[] = [
+  { value: '1n', label: 'Whole notes' },
+  { value: '2n', label: 'Half notes' },
+  { value: '4n', label: 'Quarter notes' },
+  { value: '8n', label: 'Eighth notes' }
+];
+
+const RhythmModeSettings: React.FC = () => {
+  const { pendingSettings, updateModeSettings } = useSettings();
+  const rhythmSettings = pendingSettings.modes.rhythm;
+
+  const updateRhythmSettings = (updates: Partial<RhythmSettings>) => {
+    updateModeSettings({
+      rhythm: {
+        ...rhythmSettings,
+        ...updates
+      }
+    });
+  };
+
+  const handleDurationToggle = (duration: NoteDuration) => {
+    const isEnabled = rhythmSettings.durations.includes(duration);
+
+    // Keep at least one note value enabled so patterns can always be generated
+    if (isEnabled && rhythmSettings.durations.length === 1) {
+      return;
+    }
+
+    const durations = isEnabled
+      ? rhythmSettings.durations.filter(d => d !== duration)
+      : NOTE_VALUES.map(option => option.value).filter(d => d === duration || rhythmSettings.durations.includes(d));
+
+    updateRhythmSettings({ durations });
+  };
+
+  const targetOptions = [
+    { value: 5, label: '5 patterns - Warm Up' },
+    { value: 10, label: '10 patterns - Standard Drill' },
+    { value: 20, label: '20 patterns - Extended Drill' }
+  ];
+
+  const toleranceOptions = [
+    { value: 50, label: 'Strict (±50ms)' },
+    { value: 100, label: 'Normal (±100ms)' },
+    { value: 150, label: 'Relaxed (±150ms)' }
+  ];
+
+  return (
+    <div className="mode-settings-container">
+      <div className="mode-info">
+        <h4>🥁 Rhythm Training</h4>
+        <p>Hear a rhythm over a click, then tap it back with the T key, the mouse or any MIDI key, or notate it by picking note values. Tap Along and Rhythm Dictation share these settings.</p>
+      </div>
+
+      <div className="setting-group">
+        <label>Target Patterns</label>
+        <select
+          value={rhythmSettings.targetPatterns}
+          onChange={(e) => updateRhythmSettings({ targetPatterns: parseInt(e.target.value, 10) })}
+        >
+          {targetOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>How many patterns you need to answer correctly to complete the session</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Meter</label>
+        <select
+          value={rhythmSettings.meter}
+          onChange={(e) => updateRhythmSettings({ meter: e.target.value as Meter })}
+        >
+          <option value="2/4">2/4</option>
+          <option value="3/4">3/4</option>
+          <option value="4/4">4/4</option>
+        </select>
+      </div>
+
+      <div className="setting-group">
+        <label>Length: {rhythmSettings.measures} {rhythmSettings.measures === 1 ? 'measure' : 'measures'}</label>
+        <input
+          type="range"
+          min={MIN_RHYTHM_MEASURES}
+          max={MAX_RHYTHM_MEASURES}
+          value={rhythmSettings.measures}
+          onChange={(e) => updateRhythmSettings({ measures: parseInt(e.target.value, 10) })}
+        />
+      </div>
+
+      <div className="setting-group">
+        <label>Tempo: {rhythmSettings.tempo} bpm</label>
+        <input
+          type="range"
+          min={50}
+          max={160}
+          step={5}
+          value={rhythmSettings.tempo}
+          onChange={(e) => updateRhythmSettings({ tempo: parseInt(e.target.value, 10) })}
+        />
+      </div>
+
+      <div className="setting-group">
+        <label>Note Values</label>
+        {NOTE_VALUES.map(option => (
+          <label key={option.value} className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={rhythmSettings.durations.includes(option.value)}
+              onChange={() => handleDurationToggle(option.value)}
+            />
+            {option.label}
+          </label>
+        ))}
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={rhythmSettings.includeRests}
+            onChange={(e) => updateRhythmSettings({ includeRests: e.target.checked })}
+          />
+          Include rests
+        </label>
+      </div>
+
+      <div className="setting-group">
+        <label>Timing Tolerance</label>
+        <select
+          value={rhythmSettings.tolerance}
+          onChange={(e) => updateRhythmSettings({ tolerance: parseInt(e.target.value, 10) })}
+        >
+          {toleranceOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>How far a tap may be from the beat and still count as on time (Tap Along only)</small>
+      </div>
+
+      <div className="setting-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={rhythmSettings.countIn}
+            onChange={(e) => updateRhythmSettings({ countIn: e.target.checked })}
+          />
+          Count-in
+        </label>
+        <small>Plays one measure of clicks before the rhythm starts</small>
+      </div>
+    </div>
+  );
+};
+
+export default RhythmModeSettings;
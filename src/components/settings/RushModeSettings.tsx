@@ -1,5 +1,7 @@
 import React from 'react';
 import { useSettings } from '../../hooks/useSettings';
+import type { PrimingSettings } from '../../types/game';
+import PrimingSelector from './PrimingSelector';
 
 const RushModeSettings: React.FC = () => {
   const { pendingSettings, updateModeSettings } = useSettings();
@@ -14,6 +16,15 @@ const RushModeSettings: React.FC = () => {
     });
   };
 
+  const handlePrimingChange = (priming: PrimingSettings) => {
+    updateModeSettings({
+      rush: {
+        ...rushSettings,
+        priming
+      }
+    });
+  };
+
   const targetOptions = [
     { value: 10, label: '10 notes - Quick Sprint' },
     { value: 25, label: '25 notes - Standard Race' },
@@ -43,6 +54,11 @@ const RushModeSettings: React.FC = () => {
         <small>How many correct notes you need to hit to complete the challenge</small>
       </div>
 
+      <PrimingSelector
+        priming={rushSettings.priming}
+        onChange={handlePrimingChange}
+      />
+
       <div className="mode-preview">
         <h5>Session Preview</h5>
         <div className="preview-stats">
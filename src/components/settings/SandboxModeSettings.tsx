@@ -1,5 +1,7 @@
 import React from 'react';
 import { useSettings } from '../../hooks/useSettings';
+import type { PrimingSettings } from '../../types/game';
+import PrimingSelector from './PrimingSelector';
 
 const SandboxModeSettings: React.FC = () => {
   const { pendingSettings, updateModeSettings } = useSettings();
@@ -41,6 +43,15 @@ const SandboxModeSettings: React.FC = () => {
     });
   };
 
+  const handlePrimingChange = (priming: PrimingSettings) => {
+    updateModeSettings({
+      sandbox: {
+        ...sandboxSettings,
+        priming
+      }
+    });
+  };
+
   const durationOptions = [
     { value: 5 / 60, label: '5 seconds' },
     { value: 1, label: '1 minute' },
@@ -162,6 +173,11 @@ const SandboxModeSettings: React.FC = () => {
         <small>Optional total notes goal for the session</small>
       </div>
 
+      <PrimingSelector
+        priming={sandboxSettings.priming}
+        onChange={handlePrimingChange}
+      />
+
       <div className="mode-preview">
         <h5>Session Preview</h5>
         <div className="preview-stats">
@@ -0,0 +1,115 @@
+import React from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import type { Note } from '../../types/music';
+import type { ScaleDegreeModeSettings as ScaleDegreeSettings } from '../../types/game';
+import RootNoteSelector from './RootNoteSelector';
+
+const ScaleDegreeModeSettings: React.FC = () => {
+  const { pendingSettings, updateModeSettings } = useSettings();
+  const scaleDegreeSettings = pendingSettings.modes.scaleDegree;
+
+  const updateScaleDegreeSettings = (updates: Partial<ScaleDegreeSettings>) => {
+    updateModeSettings({
+      scaleDegree: {
+        ...scaleDegreeSettings,
+        ...updates
+      }
+    });
+  };
+
+  const handleKeyRootsChange = (keyRoots: Note[] | null) => {
+    updateScaleDegreeSettings({ keyRoots });
+  };
+
+  const targetOptions = [
+    { value: 10, label: '10 rounds - Warm Up' },
+    { value: 20, label: '20 rounds - Standard Drill' },
+    { value: 40, label: '40 rounds - Extended Drill' }
+  ];
+
+  const fragmentOptions = [
+    { value: 1, label: 'Single note' },
+    { value: 2, label: '2-note melody' },
+    { value: 3, label: '3-note melody' },
+    { value: 4, label: '4-note melody' }
+  ];
+
+  return (
+    <div className="mode-settings-container">
+      <div className="mode-info">
+        <h4>🎶 Scale Degrees</h4>
+        <p>Hear a cadence to set the key, then name the scale degree of each note that follows.</p>
+      </div>
+
+      <div className="setting-group">
+        <label>Target Rounds</label>
+        <select
+          value={scaleDegreeSettings.targetRounds}
+          onChange={(e) => updateScaleDegreeSettings({ targetRounds: parseInt(e.target.value, 10) })}
+        >
+          {targetOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>How many rounds you need to answer correctly to complete the session</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Key Type</label>
+        <select
+          value={scaleDegreeSettings.scale}
+          onChange={(e) => updateScaleDegreeSettings({ scale: e.target.value as ScaleDegreeSettings['scale'] })}
+        >
+          <option value="major">Major</option>
+          <option value="minor">Minor</option>
+        </select>
+      </div>
+
+      <div className="setting-group">
+        <label>Notes per Round</label>
+        <select
+          value={scaleDegreeSettings.fragmentLength}
+          onChange={(e) => updateScaleDegreeSettings({ fragmentLength: parseInt(e.target.value, 10) })}
+        >
+          {fragmentOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="setting-group">
+        <label>Answer With</label>
+        <select
+          value={scaleDegreeSettings.answerLabels}
+          onChange={(e) => updateScaleDegreeSettings({ answerLabels: e.target.value as ScaleDegreeSettings['answerLabels'] })}
+        >
+          <option value="numbers">Numbers (1, ♭3, 5)</option>
+          <option value="solfege">Solfège (do, me, sol)</option>
+        </select>
+      </div>
+
+      <div className="setting-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={scaleDegreeSettings.includeChromatic}
+            onChange={(e) => updateScaleDegreeSettings({ includeChromatic: e.target.checked })}
+          />
+          Include chromatic degrees
+        </label>
+        <small>Adds the five notes outside the key, such as ♭2 and ♯4</small>
+      </div>
+
+      <RootNoteSelector
+        selectedRootNotes={scaleDegreeSettings.keyRoots}
+        onChange={handleKeyRootsChange}
+      />
+    </div>
+  );
+};
+
+export default ScaleDegreeModeSettings;
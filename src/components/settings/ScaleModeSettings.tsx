@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import { SCALE_TYPES } from '../../types/music';
+import type { Note, ScaleType, ScaleFilter, ScalePlaybackDirection } from '../../types/music';
+import { getScaleName } from '../../constants/scales';
+import RootNoteSelector from './RootNoteSelector';
+import KeyFilterSelector from './KeyFilterSelector';
+
+type Subtab = 'custom' | 'keys';
+
+const SCALE_CATEGORY_DISPLAY_NAMES: Record<keyof typeof SCALE_TYPES, string> = {
+  MAJOR_MINOR: 'Major & Minor',
+  CHURCH_MODES: 'Church Modes',
+  PENTATONIC_BLUES: 'Pentatonic & Blues',
+  SYMMETRIC: 'Symmetric'
+};
+
+const ScaleModeSettings: React.FC = () => {
+  const { pendingSettings, updateModeSettings } = useSettings();
+  const scaleSettings = pendingSettings.modes.scale;
+  const [activeSubtab, setActiveSubtab] = useState<Subtab>(
+    scaleSettings.scaleFilter.keyFilter ? 'keys' : 'custom'
+  );
+
+  const updateScaleFilter = (updates: Partial<ScaleFilter>) => {
+    updateModeSettings({
+      scale: {
+        ...scaleSettings,
+        scaleFilter: {
+          ...scaleSettings.scaleFilter,
+          ...updates
+        }
+      }
+    });
+  };
+
+  const handleScaleTypeToggle = (scaleType: ScaleType) => {
+    const { allowedScaleTypes } = scaleSettings.scaleFilter;
+    const isEnabled = allowedScaleTypes.includes(scaleType);
+
+    // Keep at least one scale enabled so rounds can always be generated
+    if (isEnabled && allowedScaleTypes.length === 1) {
+      return;
+    }
+
+    updateScaleFilter({
+      allowedScaleTypes: isEnabled
+        ? allowedScaleTypes.filter(type => type !== scaleType)
+        : [...allowedScaleTypes, scaleType]
+    });
+  };
+
+  const handleRootNotesChange = (rootNotes: Note[] | null) => {
+    updateScaleFilter({ allowedRootNotes: rootNotes });
+  };
+
+  const handleKeyFilterChange = (keyFilter?: { key: Note; scale: 'major' | 'minor' }) => {
+    updateScaleFilter({ keyFilter });
+  };
+
+  const handleSubtabChange = (subtab: Subtab) => {
+    setActiveSubtab(subtab);
+    if (subtab === 'custom') {
+      // Clear keyFilter when switching to Custom
+      updateScaleFilter({ keyFilter: undefined });
+    }
+    // When switching to Keys, KeyFilterSelector will set the default keyFilter via its useEffect
+  };
+
+  const handlePlaybackDirectionChange = (playbackDirection: ScalePlaybackDirection) => {
+    updateModeSettings({
+      scale: {
+        ...scaleSettings,
+        playbackDirection
+      }
+    });
+  };
+
+  const handleTargetScalesChange = (targetScales: number) => {
+    updateModeSettings({
+      scale: {
+        ...scaleSettings,
+        targetScales
+      }
+    });
+  };
+
+  const targetOptions = [
+    { value: 5, label: '5 scales - Warm Up' },
+    { value: 10, label: '10 scales - Standard Drill' },
+    { value: 20, label: '20 scales - Extended Drill' }
+  ];
+
+  const directionOptions: { value: ScalePlaybackDirection; label: string }[] = [
+    { value: 'ascending', label: 'Ascending' },
+    { value: 'descending', label: 'Descending' },
+    { value: 'both', label: 'Up and back down' }
+  ];
+
+  return (
+    <div className="mode-settings-container">
+      <div className="mode-info">
+        <h4>🪜 Scale Identification</h4>
+        <p>Hear a scale and name it, or play it back note by note in the order you heard it.</p>
+      </div>
+
+      <div className="setting-group">
+        <label>Target Scales</label>
+        <select
+          value={scaleSettings.targetScales}
+          onChange={(e) => handleTargetScalesChange(parseInt(e.target.value, 10))}
+        >
+          {targetOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>How many scales you need to identify to complete the session</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Playback</label>
+        <select
+          value={scaleSettings.playbackDirection}
+          onChange={(e) => handlePlaybackDirectionChange(e.target.value as ScalePlaybackDirection)}
+        >
+          {directionOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="setting-group">
+        <label>Scales</label>
+        {(Object.keys(SCALE_TYPES) as (keyof typeof SCALE_TYPES)[]).map(categoryKey => (
+          <div key={categoryKey} className="scale-type-category">
+            <strong>{SCALE_CATEGORY_DISPLAY_NAMES[categoryKey]}</strong>
+            {SCALE_TYPES[categoryKey].map(scaleType => (
+              <label key={scaleType} className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={scaleSettings.scaleFilter.allowedScaleTypes.includes(scaleType)}
+                  onChange={() => handleScaleTypeToggle(scaleType)}
+                />
+                {getScaleName(scaleType)}
+              </label>
+            ))}
+          </div>
+        ))}
+        <small>Scales with the same notes (e.g. Major and Ionian) are accepted for each other</small>
+      </div>
+
+      <div className="chord-filter-subtabs">
+        <button
+          type="button"
+          className={`chord-filter-subtab${activeSubtab === 'custom' ? ' active' : ''}`}
+          onClick={() => handleSubtabChange('custom')}
+        >
+          Custom
+        </button>
+        <button
+          type="button"
+          className={`chord-filter-subtab${activeSubtab === 'keys' ? ' active' : ''}`}
+          onClick={() => handleSubtabChange('keys')}
+        >
+          Keys
+        </button>
+      </div>
+
+      {activeSubtab === 'custom' && (
+        <RootNoteSelector
+          selectedRootNotes={scaleSettings.scaleFilter.allowedRootNotes}
+          onChange={handleRootNotesChange}
+        />
+      )}
+
+      {activeSubtab === 'keys' && (
+        <KeyFilterSelector
+          keyFilter={scaleSettings.scaleFilter.keyFilter}
+          onChange={handleKeyFilterChange}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ScaleModeSettings;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import type { SightReadingModeSettings as SightReadingSettings } from '../../types/game';
+import type { StaffSystem } from '../../types/music';
+
+const SightReadingModeSettings: React.FC = () => {
+  const { pendingSettings, updateModeSettings } = useSettings();
+  const sightReadingSettings = pendingSettings.modes.sightReading;
+
+  const updateSightReadingSettings = (updates: Partial<SightReadingSettings>) => {
+    updateModeSettings({
+      sightReading: {
+        ...sightReadingSettings,
+        ...updates
+      }
+    });
+  };
+
+  const staffOptions: { value: StaffSystem; label: string }[] = [
+    { value: 'treble', label: 'Treble clef' },
+    { value: 'bass', label: 'Bass clef' },
+    { value: 'alto', label: 'Alto clef' },
+    { value: 'grand', label: 'Grand staff' }
+  ];
+
+  const ledgerLineOptions = [
+    { value: 0, label: 'None - notes on the staff only' },
+    { value: 1, label: '1 ledger line' },
+    { value: 2, label: '2 ledger lines' },
+    { value: 3, label: '3 ledger lines' }
+  ];
+
+  const challengeOptions: { value: SightReadingSettings['challengeType']; label: string }[] = [
+    { value: 'note', label: 'Single notes' },
+    { value: 'chord', label: 'Triads' }
+  ];
+
+  const isChord = sightReadingSettings.challengeType === 'chord';
+  const targetUnit = isChord ? 'chords' : 'notes';
+  const targetOptions = [
+    { value: 10, label: `10 ${targetUnit} - Warm Up` },
+    { value: 20, label: `20 ${targetUnit} - Standard Drill` },
+    { value: 40, label: `40 ${targetUnit} - Extended Drill` }
+  ];
+
+  return (
+    <div className="mode-settings-container">
+      <div className="mode-info">
+        <h4>📖 Sight Reading</h4>
+        <p>Read the note or chord written on the staff and play it on the keyboard or your MIDI device. Notes are drawn from your note range settings.</p>
+      </div>
+
+      <div className="setting-group">
+        <label>Target</label>
+        <select
+          value={sightReadingSettings.targetNotes}
+          onChange={(e) => updateSightReadingSettings({ targetNotes: parseInt(e.target.value, 10) })}
+        >
+          {targetOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>How many {targetUnit} you need to play to complete the session</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Clef</label>
+        <select
+          value={sightReadingSettings.staff}
+          onChange={(e) => updateSightReadingSettings({ staff: e.target.value as StaffSystem })}
+        >
+          {staffOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="setting-group">
+        <label>Ledger Lines</label>
+        <select
+          value={sightReadingSettings.maxLedgerLines}
+          onChange={(e) => updateSightReadingSettings({ maxLedgerLines: parseInt(e.target.value, 10) })}
+        >
+          {ledgerLineOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>Allow notes further above or below the staff as your reading improves</small>
+      </div>
+
+      <div className="setting-group">
+        <label>Challenge</label>
+        <select
+          value={sightReadingSettings.challengeType}
+          onChange={(e) => updateSightReadingSettings({ challengeType: e.target.value as SightReadingSettings['challengeType'] })}
+        >
+          {challengeOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <small>Triads are written in root position; play all of their notes in any order</small>
+      </div>
+    </div>
+  );
+};
+
+export default SightReadingModeSettings;
@@ -1,5 +1,7 @@
 import React from 'react';
 import { useSettings } from '../../hooks/useSettings';
+import type { PrimingSettings } from '../../types/game';
+import PrimingSelector from './PrimingSelector';
 
 const SurvivalModeSettings: React.FC = () => {
   const { pendingSettings, updateModeSettings } = useSettings();
@@ -41,6 +43,15 @@ const SurvivalModeSettings: React.FC = () => {
     });
   };
 
+  const handlePrimingChange = (priming: PrimingSettings) => {
+    updateModeSettings({
+      survival: {
+        ...survivalSettings,
+        priming
+      }
+    });
+  };
+
   const durationOptions = [
     { value: 1, label: '1 minute - Quick Survival' },
     { value: 3, label: '3 minutes - Standard Challenge' },
@@ -118,6 +129,11 @@ const SurvivalModeSettings: React.FC = () => {
         <small>Health lost when you guess incorrectly</small>
       </div>
 
+      <PrimingSelector
+        priming={survivalSettings.priming}
+        onChange={handlePrimingChange}
+      />
+
       <div className="mode-preview">
         <h5>Session Preview</h5>
         <div className="preview-stats">
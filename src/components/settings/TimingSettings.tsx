@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useSettings } from '../../hooks/useSettings';
-import type { NoteDuration } from '../../types/music';
+import type { ChordPlaybackSettings, ChordPlaybackStyle, NoteDuration, NoteSpacing } from '../../types/music';
 import { DEFAULT_TIMING_SETTINGS } from '../../types/music';
 
 const TimingSettings: React.FC = () => {
@@ -11,6 +11,7 @@ const TimingSettings: React.FC = () => {
   const [autoAdvanceSpeed, setAutoAdvanceSpeed] = useState<number>(timing.autoAdvanceSpeed);
   const [noteDuration, setNoteDuration] = useState<NoteDuration>(timing.noteDuration);
   const [unlimitedTime, setUnlimitedTime] = useState<boolean>(timing.responseTimeLimit === null);
+  const [chordPlayback, setChordPlayback] = useState<ChordPlaybackSettings>(timing.chordPlayback);
 
   // Update local state when settings change externally
   useEffect(() => {
@@ -18,6 +19,7 @@ const TimingSettings: React.FC = () => {
     setAutoAdvanceSpeed(timing.autoAdvanceSpeed);
     setNoteDuration(timing.noteDuration);
     setUnlimitedTime(timing.responseTimeLimit === null);
+    setChordPlayback(timing.chordPlayback);
   }, [timing]);
 
   const handleTimeLimit = (newLimit: number) => {
@@ -42,16 +44,24 @@ const TimingSettings: React.FC = () => {
     updateTimingSettings({ noteDuration: newDuration });
   };
 
+  const handleChordPlayback = (updates: Partial<ChordPlaybackSettings>) => {
+    const newPlayback = { ...chordPlayback, ...updates };
+    setChordPlayback(newPlayback);
+    updateTimingSettings({ chordPlayback: newPlayback });
+  };
+
   const resetToDefaults = () => {
     setResponseTimeLimit(DEFAULT_TIMING_SETTINGS.responseTimeLimit);
     setAutoAdvanceSpeed(DEFAULT_TIMING_SETTINGS.autoAdvanceSpeed);
     setNoteDuration(DEFAULT_TIMING_SETTINGS.noteDuration);
     setUnlimitedTime(false);
+    setChordPlayback(DEFAULT_TIMING_SETTINGS.chordPlayback);
     
     updateTimingSettings({
       responseTimeLimit: DEFAULT_TIMING_SETTINGS.responseTimeLimit,
       autoAdvanceSpeed: DEFAULT_TIMING_SETTINGS.autoAdvanceSpeed,
-      noteDuration: DEFAULT_TIMING_SETTINGS.noteDuration
+      noteDuration: DEFAULT_TIMING_SETTINGS.noteDuration,
+      chordPlayback: DEFAULT_TIMING_SETTINGS.chordPlayback
     });
   };
 
@@ -141,6 +151,69 @@ const TimingSettings: React.FC = () => {
           How long each note plays when generated
         </p>
       </div>
+
+      <div className="setting-group">
+        <label>Chord Playback</label>
+        <select
+          value={chordPlayback.style}
+          onChange={(e) => handleChordPlayback({ style: e.target.value as ChordPlaybackStyle })}
+          className="duration-select"
+        >
+          <option value="block">Block (all notes together)</option>
+          <option value="arpeggio-up">Arpeggio up</option>
+          <option value="arpeggio-down">Arpeggio down</option>
+          <option value="arpeggio-up-down">Arpeggio up and down</option>
+          <option value="broken">Broken chord (bass, top, middle, top)</option>
+          <option value="bass-then-chord">Bass, then chord</option>
+        </select>
+        <p className="setting-description">
+          How chords are played in chord training. Arpeggios make each note easier to hear; block chords are the hardest
+        </p>
+      </div>
+
+      {chordPlayback.style !== 'block' && (
+        <>
+          <div className="setting-group">
+            <div className="setting-header">
+              <label>Playback Tempo</label>
+              <div className="timing-info">
+                <span className="timing-display">{chordPlayback.tempo} bpm</span>
+              </div>
+            </div>
+            <div className="time-slider">
+              <input
+                type="range"
+                min="40"
+                max="200"
+                step="5"
+                value={chordPlayback.tempo}
+                onChange={(e) => handleChordPlayback({ tempo: parseInt(e.target.value) })}
+                className="timing-range"
+              />
+              <div className="range-labels">
+                <span>40 bpm</span>
+                <span>200 bpm</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="setting-group">
+            <label>Note Spacing</label>
+            <select
+              value={chordPlayback.noteSpacing}
+              onChange={(e) => handleChordPlayback({ noteSpacing: e.target.value as NoteSpacing })}
+              className="duration-select"
+            >
+              <option value="4n">Quarter notes</option>
+              <option value="8n">Eighth notes</option>
+              <option value="16n">Sixteenth notes</option>
+            </select>
+            <p className="setting-description">
+              Time between the notes of an arpeggio or broken chord at the playback tempo
+            </p>
+          </div>
+        </>
+      )}
       
       <div className="setting-group">
         <button 
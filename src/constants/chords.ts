@@ -14,7 +14,7 @@
  * @module constants/chords
  */
 
-import type { ChordType, Note } from '../types/music';
+import type { BuiltInChordType, Note } from '../types/music';
 
 /**
  * Maps each chord type to its interval formula (semitones from root)
@@ -36,7 +36,7 @@ import type { ChordType, Note } from '../types/music';
  * // C Dominant 9th: C (0) + E (4) + G (7) + Bb (10) + D (14) = C-E-G-Bb-D
  * CHORD_FORMULAS.dominant9 // [0, 4, 7, 10, 14]
  */
-export const CHORD_FORMULAS: Record<ChordType, number[]> = {
+export const CHORD_FORMULAS: Record<BuiltInChordType, number[]> = {
   // Triads
   major: [0, 4, 7],
   minor: [0, 3, 7],
@@ -90,7 +90,7 @@ export const CHORD_FORMULAS: Record<ChordType, number[]> = {
  * // F# minor 7th chord
  * formatChordName('F#', 'minor7') // "F#m7"
  */
-export const CHORD_NAME_FORMATS: Record<ChordType, string> = {
+export const CHORD_NAME_FORMATS: Record<BuiltInChordType, string> = {
   // Triads
   major: '',           // C Major → "C"
   minor: 'm',          // C Minor → "Cm"
@@ -135,6 +135,8 @@ export const CHORD_NAME_FORMATS: Record<ChordType, string> = {
  *
  * Combines the root note with the standard chord suffix to create
  * a properly formatted chord name following music notation conventions.
+ * Only covers built-in chord types; ChordEngine.getChordName also handles
+ * user-defined ones.
  *
  * @param root - The root note (e.g., 'C', 'F#', 'Bb')
  * @param type - The chord type (e.g., 'major', 'minor7', 'dominant9')
@@ -149,6 +151,6 @@ export const CHORD_NAME_FORMATS: Record<ChordType, string> = {
  * @example
  * formatChordName('Bb', 'dominant9') // "Bb9"
  */
-export function formatChordName(root: Note, type: ChordType): string {
+export function formatChordName(root: Note, type: BuiltInChordType): string {
   return `${root}${CHORD_NAME_FORMATS[type]}`;
 }
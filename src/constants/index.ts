@@ -6,7 +6,8 @@ export const SETTINGS_TABS = {
   NOTES: 'notes',
   CHORDS: 'chords',
   TIMING: 'timing',
-  AUDIO: 'audio'
+  AUDIO: 'audio',
+  DATA: 'data'
 } as const;
 
 export type SettingsTab = typeof SETTINGS_TABS[keyof typeof SETTINGS_TABS];
@@ -31,11 +32,64 @@ export type EarTrainingSubMode = typeof EAR_TRAINING_SUB_MODES[keyof typeof EAR_
 // Note Training Sub-Mode Constants
 export const NOTE_TRAINING_SUB_MODES = {
   SHOW_CHORD_GUESS_NOTES: 'show-chord-guess-notes',
-  SHOW_NOTES_GUESS_CHORD: 'show-notes-guess-chord'
+  SHOW_NOTES_GUESS_CHORD: 'show-notes-guess-chord',
+  PLAY_CHORD_VOICING: 'play-chord-voicing'
 } as const;
 
 export type NoteTrainingSubMode = typeof NOTE_TRAINING_SUB_MODES[keyof typeof NOTE_TRAINING_SUB_MODES];
 
+// Interval Training Sub-Mode Constants
+export const INTERVAL_TRAINING_SUB_MODES = {
+  ASCENDING: 'interval-ascending',
+  DESCENDING: 'interval-descending',
+  HARMONIC: 'interval-harmonic'
+} as const;
+
+export type IntervalTrainingSubMode = typeof INTERVAL_TRAINING_SUB_MODES[keyof typeof INTERVAL_TRAINING_SUB_MODES];
+
+// Scale Training Sub-Mode Constants
+export const SCALE_TRAINING_SUB_MODES = {
+  IDENTIFICATION: 'scale-identification'
+} as const;
+
+export type ScaleTrainingSubMode = typeof SCALE_TRAINING_SUB_MODES[keyof typeof SCALE_TRAINING_SUB_MODES];
+
+// Progression Training Sub-Mode Constants
+export const PROGRESSION_TRAINING_SUB_MODES = {
+  IDENTIFICATION: 'progression-identification'
+} as const;
+
+export type ProgressionTrainingSubMode = typeof PROGRESSION_TRAINING_SUB_MODES[keyof typeof PROGRESSION_TRAINING_SUB_MODES];
+
+// Sight Reading Sub-Mode Constants
+export const SIGHT_READING_SUB_MODES = {
+  SHOW_STAFF_PLAY_NOTES: 'show-staff-play-notes'
+} as const;
+
+export type SightReadingSubMode = typeof SIGHT_READING_SUB_MODES[keyof typeof SIGHT_READING_SUB_MODES];
+
+// Scale Degree Sub-Mode Constants
+export const SCALE_DEGREE_SUB_MODES = {
+  IDENTIFICATION: 'scale-degree-identification'
+} as const;
+
+export type ScaleDegreeSubMode = typeof SCALE_DEGREE_SUB_MODES[keyof typeof SCALE_DEGREE_SUB_MODES];
+
+// Melodic Dictation Sub-Mode Constants
+export const MELODIC_DICTATION_SUB_MODES = {
+  DICTATION: 'melodic-dictation'
+} as const;
+
+export type MelodicDictationSubMode = typeof MELODIC_DICTATION_SUB_MODES[keyof typeof MELODIC_DICTATION_SUB_MODES];
+
+// Rhythm Sub-Mode Constants
+export const RHYTHM_SUB_MODES = {
+  TAP_ALONG: 'rhythm-tap-along',
+  DICTATION: 'rhythm-dictation'
+} as const;
+
+export type RhythmSubMode = typeof RHYTHM_SUB_MODES[keyof typeof RHYTHM_SUB_MODES];
+
 // Training Mode Constants
 export const TRAINING_MODES = {
   EAR_TRAINING: 'ear-training',
@@ -74,7 +128,13 @@ export const FEEDBACK_MESSAGES = {
 export const STORAGE_KEYS = {
   GAME_HISTORY: 'music-practice-game-history',
   CHORD_STATS: 'music-practice-chord-stats',
-  APP_SETTINGS: 'music-practice-app-settings'
+  NOTE_STATS: 'music-practice-note-stats',
+  CHORD_CONFUSIONS: 'music-practice-chord-confusions',
+  REVIEW_SCHEDULE: 'music-practice-review-schedule',
+  APP_SETTINGS: 'music-practice-app-settings',
+  CUSTOM_PRESETS: 'custom-chord-presets',
+  CUSTOM_CHORD_TYPES: 'custom-chord-types',
+  QUARANTINE: 'music-practice-quarantine'
 } as const;
 
 // Aria Label Constants
@@ -88,4 +148,13 @@ export const ARIA_LABELS = {
 export * from './chordPresets';
 
 // Chord Constants
-export { CHORD_FORMULAS, CHORD_NAME_FORMATS, formatChordName } from './chords';
\ No newline at end of file
+export { CHORD_FORMULAS, CHORD_NAME_FORMATS, formatChordName } from './chords';
+
+// Interval Constants
+export { INTERVALS, ALL_INTERVAL_SEMITONES, getIntervalName } from './intervals';
+
+// Scale Constants
+export { SCALE_DEFINITIONS, getScaleName, getScaleNotes } from './scales';
+
+// Progression Constants
+export { PROGRESSIONS, getProgressionDefinition, formatNumerals } from './progressions';
@@ -0,0 +1,45 @@
+/**
+ * Interval definitions used by interval recognition training.
+ * Covers every simple interval from a minor 2nd up to the octave.
+ */
+export interface IntervalDefinition {
+  /** Size of the interval in semitones */
+  semitones: number;
+
+  /** Full display name (e.g., "Minor 3rd") */
+  name: string;
+
+  /** Abbreviated name (e.g., "m3") */
+  shortName: string;
+}
+
+export const INTERVALS: readonly IntervalDefinition[] = [
+  { semitones: 1, name: 'Minor 2nd', shortName: 'm2' },
+  { semitones: 2, name: 'Major 2nd', shortName: 'M2' },
+  { semitones: 3, name: 'Minor 3rd', shortName: 'm3' },
+  { semitones: 4, name: 'Major 3rd', shortName: 'M3' },
+  { semitones: 5, name: 'Perfect 4th', shortName: 'P4' },
+  { semitones: 6, name: 'Tritone', shortName: 'TT' },
+  { semitones: 7, name: 'Perfect 5th', shortName: 'P5' },
+  { semitones: 8, name: 'Minor 6th', shortName: 'm6' },
+  { semitones: 9, name: 'Major 6th', shortName: 'M6' },
+  { semitones: 10, name: 'Minor 7th', shortName: 'm7' },
+  { semitones: 11, name: 'Major 7th', shortName: 'M7' },
+  { semitones: 12, name: 'Octave', shortName: 'P8' }
+];
+
+export const ALL_INTERVAL_SEMITONES: number[] = INTERVALS.map(interval => interval.semitones);
+
+/** Intervals used when no custom selection has been made */
+export const DEFAULT_INTERVAL_SEMITONES: number[] = [3, 4, 5, 7, 12];
+
+/**
+ * Gets the full display name for an interval size.
+ *
+ * @param semitones - Interval size in semitones
+ * @returns Display name, or a generic "N semitones" label for unknown sizes
+ */
+export function getIntervalName(semitones: number): string {
+  const interval = INTERVALS.find(i => i.semitones === semitones);
+  return interval ? interval.name : `${semitones} semitones`;
+}
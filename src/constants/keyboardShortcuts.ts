@@ -18,12 +18,14 @@ export interface KeyboardShortcut {
 export const SHORTCUTS = {
   // Playback controls
   REPLAY: { key: ' ', code: 'Space', description: 'Replay note/chord', label: 'Space' },
+  PRIME: { key: 'p', description: 'Play reference tone/cadence', label: 'P' },
 
   // Navigation
   NEXT: { key: 'n', description: 'Skip to next note/chord', label: 'N' },
 
   // Actions
   SUBMIT: { key: 'Enter', description: 'Submit answer', label: 'Enter' },
+  TAP: { key: 't', description: 'Tap the rhythm', label: 'T' },
   CLEAR: { key: 'c', description: 'Clear selection', label: 'C' },
 
   // Game controls
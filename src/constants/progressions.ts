@@ -0,0 +1,124 @@
+/**
+ * Chord Progression Constants
+ *
+ * Diatonic scale degrees (with their Roman numerals and chord qualities) for
+ * major and minor keys, plus the cadences and progressions used by the
+ * progression ear-training mode.
+ *
+ * Minor keys use the natural minor scale with a major V chord, as in
+ * common-practice harmony.
+ *
+ * @module constants/progressions
+ */
+
+import type { ChordType } from '../types/music';
+
+/**
+ * A chord built on one degree of a key
+ */
+export interface DiatonicDegree {
+  /** Roman numeral shown to the user (e.g., "ii", "vii°") */
+  numeral: string;
+
+  /** Distance of the chord root from the tonic in semitones */
+  semitones: number;
+
+  /** Chord quality when played as a triad */
+  triadType: ChordType;
+
+  /** Chord quality when played as a seventh chord */
+  seventhType: ChordType;
+}
+
+export const MAJOR_KEY_DEGREES: readonly DiatonicDegree[] = [
+  { numeral: 'I', semitones: 0, triadType: 'major', seventhType: 'major7' },
+  { numeral: 'ii', semitones: 2, triadType: 'minor', seventhType: 'minor7' },
+  { numeral: 'iii', semitones: 4, triadType: 'minor', seventhType: 'minor7' },
+  { numeral: 'IV', semitones: 5, triadType: 'major', seventhType: 'major7' },
+  { numeral: 'V', semitones: 7, triadType: 'major', seventhType: 'dominant7' },
+  { numeral: 'vi', semitones: 9, triadType: 'minor', seventhType: 'minor7' },
+  { numeral: 'vii°', semitones: 11, triadType: 'diminished', seventhType: 'halfDiminished7' }
+];
+
+export const MINOR_KEY_DEGREES: readonly DiatonicDegree[] = [
+  { numeral: 'i', semitones: 0, triadType: 'minor', seventhType: 'minor7' },
+  { numeral: 'ii°', semitones: 2, triadType: 'diminished', seventhType: 'halfDiminished7' },
+  { numeral: 'III', semitones: 3, triadType: 'major', seventhType: 'major7' },
+  { numeral: 'iv', semitones: 5, triadType: 'minor', seventhType: 'minor7' },
+  { numeral: 'V', semitones: 7, triadType: 'major', seventhType: 'dominant7' },
+  { numeral: 'VI', semitones: 8, triadType: 'major', seventhType: 'major7' },
+  { numeral: 'VII', semitones: 10, triadType: 'major', seventhType: 'dominant7' }
+];
+
+/**
+ * Gets the diatonic degrees for a key type.
+ *
+ * @param keyType - 'major' or 'minor'
+ * @returns The seven diatonic degrees of the key
+ */
+export function getKeyDegrees(keyType: 'major' | 'minor'): readonly DiatonicDegree[] {
+  return keyType === 'major' ? MAJOR_KEY_DEGREES : MINOR_KEY_DEGREES;
+}
+
+/**
+ * A cadence or progression that can be asked in the progression mode
+ */
+export interface ProgressionDefinition {
+  /** Stable identifier stored in settings */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Cadences are short endings; progressions are longer phrases */
+  category: 'cadence' | 'progression';
+
+  /** Key type the numerals are written for */
+  keyType: 'major' | 'minor';
+
+  /** Roman numeral for each chord, using the numerals from getKeyDegrees() */
+  numerals: string[];
+}
+
+export const PROGRESSIONS: readonly ProgressionDefinition[] = [
+  // Cadences
+  { id: 'authentic-cadence', name: 'Authentic Cadence', category: 'cadence', keyType: 'major', numerals: ['IV', 'V', 'I'] },
+  { id: 'plagal-cadence', name: 'Plagal Cadence', category: 'cadence', keyType: 'major', numerals: ['I', 'IV', 'I'] },
+  { id: 'half-cadence', name: 'Half Cadence', category: 'cadence', keyType: 'major', numerals: ['I', 'ii', 'V'] },
+  { id: 'deceptive-cadence', name: 'Deceptive Cadence', category: 'cadence', keyType: 'major', numerals: ['I', 'V', 'vi'] },
+  { id: 'minor-authentic-cadence', name: 'Minor Authentic Cadence', category: 'cadence', keyType: 'minor', numerals: ['iv', 'V', 'i'] },
+
+  // Progressions
+  { id: 'i-iv-v-i', name: 'I-IV-V-I', category: 'progression', keyType: 'major', numerals: ['I', 'IV', 'V', 'I'] },
+  { id: 'ii-v-i', name: 'ii-V-I', category: 'progression', keyType: 'major', numerals: ['ii', 'V', 'I'] },
+  { id: 'pop', name: 'Pop (I-V-vi-IV)', category: 'progression', keyType: 'major', numerals: ['I', 'V', 'vi', 'IV'] },
+  { id: 'doo-wop', name: "50s (I-vi-IV-V)", category: 'progression', keyType: 'major', numerals: ['I', 'vi', 'IV', 'V'] },
+  { id: 'turnaround', name: 'Turnaround (I-vi-ii-V)', category: 'progression', keyType: 'major', numerals: ['I', 'vi', 'ii', 'V'] },
+  { id: 'circle', name: 'Circle of Fifths', category: 'progression', keyType: 'major', numerals: ['I', 'IV', 'vii°', 'iii', 'vi', 'ii', 'V', 'I'] },
+  { id: 'minor-ii-v-i', name: 'Minor ii-V-i', category: 'progression', keyType: 'minor', numerals: ['ii°', 'V', 'i'] },
+  { id: 'andalusian', name: 'Andalusian (i-VII-VI-V)', category: 'progression', keyType: 'minor', numerals: ['i', 'VII', 'VI', 'V'] },
+  { id: 'minor-i-iv-v-i', name: 'i-iv-V-i', category: 'progression', keyType: 'minor', numerals: ['i', 'iv', 'V', 'i'] }
+];
+
+/** Progressions used when no custom selection has been made */
+export const DEFAULT_PROGRESSION_IDS: string[] = ['i-iv-v-i', 'ii-v-i', 'pop', 'authentic-cadence'];
+
+/**
+ * Looks up a progression definition by id.
+ *
+ * @param id - Progression identifier
+ * @returns The definition, or undefined if the id is unknown
+ */
+export function getProgressionDefinition(id: string): ProgressionDefinition | undefined {
+  return PROGRESSIONS.find(progression => progression.id === id);
+}
+
+/**
+ * Formats Roman numerals as a progression label (e.g., "ii–V–I").
+ *
+ * @param numerals - Roman numerals in order
+ * @returns Numerals joined with en dashes
+ */
+export function formatNumerals(numerals: string[]): string {
+  return numerals.join('–');
+}
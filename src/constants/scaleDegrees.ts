@@ -0,0 +1,77 @@
+/**
+ * Scale Degree Constants
+ *
+ * The twelve chromatic scale degrees with their numbers and movable-do
+ * solfège syllables, used by the scale degree ear-training mode.
+ *
+ * Minor keys use do-based minor, so the tonic is "do" in every key and
+ * ♭3 is "me" whether the key is major or minor.
+ *
+ * @module constants/scaleDegrees
+ */
+
+import type { ScaleDegreeLabels } from '../types/game';
+import { ALL_NOTES } from '../types/music';
+import { getScaleNotes } from './scales';
+
+/**
+ * A scale degree, measured from the tonic
+ */
+export interface ScaleDegree {
+  /** Distance from the tonic in semitones (0-11) */
+  semitones: number;
+
+  /** Degree number, with ♭/♯ for chromatic degrees (e.g., "♭3") */
+  number: string;
+
+  /** Movable-do solfège syllable (e.g., "me") */
+  solfege: string;
+}
+
+export const SCALE_DEGREES: readonly ScaleDegree[] = [
+  { semitones: 0, number: '1', solfege: 'do' },
+  { semitones: 1, number: '♭2', solfege: 'ra' },
+  { semitones: 2, number: '2', solfege: 're' },
+  { semitones: 3, number: '♭3', solfege: 'me' },
+  { semitones: 4, number: '3', solfege: 'mi' },
+  { semitones: 5, number: '4', solfege: 'fa' },
+  { semitones: 6, number: '♯4', solfege: 'fi' },
+  { semitones: 7, number: '5', solfege: 'sol' },
+  { semitones: 8, number: '♭6', solfege: 'le' },
+  { semitones: 9, number: '6', solfege: 'la' },
+  { semitones: 10, number: '♭7', solfege: 'te' },
+  { semitones: 11, number: '7', solfege: 'ti' }
+];
+
+/**
+ * Gets the seven diatonic degrees of a major or minor key.
+ *
+ * @param scale - 'major' or 'minor' (natural minor)
+ * @returns The diatonic degrees, from the tonic up
+ */
+export function getDiatonicDegrees(scale: 'major' | 'minor'): ScaleDegree[] {
+  // Degrees don't depend on the key, so read them off C
+  return getScaleNotes('C', scale).map(note => SCALE_DEGREES[ALL_NOTES.indexOf(note)]);
+}
+
+/**
+ * Looks up a scale degree by its distance from the tonic.
+ *
+ * @param semitones - Semitones above the tonic; octaves are ignored
+ * @returns The scale degree
+ */
+export function getScaleDegree(semitones: number): ScaleDegree {
+  return SCALE_DEGREES[((semitones % 12) + 12) % 12];
+}
+
+/**
+ * Formats a scale degree as a number or a solfège syllable.
+ *
+ * @example
+ * formatScaleDegree(3, 'numbers') // "♭3"
+ * formatScaleDegree(3, 'solfege') // "me"
+ */
+export function formatScaleDegree(semitones: number, labels: ScaleDegreeLabels): string {
+  const degree = getScaleDegree(semitones);
+  return labels === 'solfege' ? degree.solfege : degree.number;
+}
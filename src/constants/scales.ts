@@ -1,5 +1,5 @@
 import type { Note } from '../types/music';
-import { ALL_NOTES } from '../types/music';
+import { ALL_NOTES, ScaleType } from '../types/music';
 
 /** Semitone intervals for a major scale from the root */
 export const MAJOR_SCALE_INTERVALS = [0, 2, 4, 5, 7, 9, 11] as const;
@@ -7,16 +7,87 @@ export const MAJOR_SCALE_INTERVALS = [0, 2, 4, 5, 7, 9, 11] as const;
 /** Semitone intervals for a natural minor scale from the root */
 export const MINOR_SCALE_INTERVALS = [0, 2, 3, 5, 7, 8, 10] as const;
 
+/**
+ * Definition of a scale type: its display name and the semitone
+ * offset of each degree from the root (the octave is not included).
+ */
+export interface ScaleDefinition {
+  name: string;
+  intervals: readonly number[];
+}
+
+export const SCALE_DEFINITIONS: Record<ScaleType, ScaleDefinition> = {
+  [ScaleType.MAJOR]: { name: 'Major', intervals: MAJOR_SCALE_INTERVALS },
+  [ScaleType.NATURAL_MINOR]: { name: 'Natural Minor', intervals: MINOR_SCALE_INTERVALS },
+  [ScaleType.HARMONIC_MINOR]: { name: 'Harmonic Minor', intervals: [0, 2, 3, 5, 7, 8, 11] },
+  [ScaleType.MELODIC_MINOR]: { name: 'Melodic Minor', intervals: [0, 2, 3, 5, 7, 9, 11] },
+
+  [ScaleType.IONIAN]: { name: 'Ionian', intervals: MAJOR_SCALE_INTERVALS },
+  [ScaleType.DORIAN]: { name: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  [ScaleType.PHRYGIAN]: { name: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  [ScaleType.LYDIAN]: { name: 'Lydian', intervals: [0, 2, 4, 6, 7, 9, 11] },
+  [ScaleType.MIXOLYDIAN]: { name: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10] },
+  [ScaleType.AEOLIAN]: { name: 'Aeolian', intervals: MINOR_SCALE_INTERVALS },
+  [ScaleType.LOCRIAN]: { name: 'Locrian', intervals: [0, 1, 3, 5, 6, 8, 10] },
+
+  [ScaleType.MAJOR_PENTATONIC]: { name: 'Major Pentatonic', intervals: [0, 2, 4, 7, 9] },
+  [ScaleType.MINOR_PENTATONIC]: { name: 'Minor Pentatonic', intervals: [0, 3, 5, 7, 10] },
+  [ScaleType.BLUES]: { name: 'Blues', intervals: [0, 3, 5, 6, 7, 10] },
+
+  [ScaleType.WHOLE_TONE]: { name: 'Whole Tone', intervals: [0, 2, 4, 6, 8, 10] },
+  [ScaleType.DIMINISHED_WHOLE_HALF]: { name: 'Diminished (Whole-Half)', intervals: [0, 2, 3, 5, 6, 8, 9, 11] },
+  [ScaleType.DIMINISHED_HALF_WHOLE]: { name: 'Diminished (Half-Whole)', intervals: [0, 1, 3, 4, 6, 7, 9, 10] },
+};
+
+/**
+ * Returns the semitone intervals for a scale type.
+ * Accepts 'minor' as shorthand for the natural minor scale, matching ChordFilter.keyFilter.
+ *
+ * @param scale - Scale type, or 'minor' for natural minor
+ * @returns Semitone offsets from the root
+ */
+export function getScaleIntervals(scale: ScaleType | 'minor'): readonly number[] {
+  return scale === 'minor'
+    ? MINOR_SCALE_INTERVALS
+    : SCALE_DEFINITIONS[scale].intervals;
+}
+
+/**
+ * Gets the display name for a scale type.
+ *
+ * @param scale - The scale type
+ * @returns Display name (e.g., "Harmonic Minor")
+ */
+export function getScaleName(scale: ScaleType): string {
+  return SCALE_DEFINITIONS[scale].name;
+}
+
+/**
+ * Checks whether two scale types contain the same notes from a given root
+ * (e.g., Major and Ionian, or Natural Minor and Aeolian).
+ *
+ * @param a - First scale type
+ * @param b - Second scale type
+ * @returns True if both scale types share the same interval pattern
+ */
+export function areScalesEquivalent(a: ScaleType, b: ScaleType): boolean {
+  const intervalsA = getScaleIntervals(a);
+  const intervalsB = getScaleIntervals(b);
+
+  return intervalsA.length === intervalsB.length
+    && intervalsA.every((interval, index) => interval === intervalsB[index]);
+}
+
 /**
  * Returns the set of notes in a given key and scale.
  *
  * @param key - The root note of the scale
- * @param scale - 'major' or 'minor' (natural minor)
+ * @param scale - Any scale type, or 'minor' for natural minor
  * @returns Array of Note values belonging to the scale
  */
-export function getScaleNotes(key: Note, scale: 'major' | 'minor'): Note[] {
+export function getScaleNotes(key: Note, scale: ScaleType | 'minor'): Note[] {
   const rootIndex = ALL_NOTES.indexOf(key);
-  const intervals = scale === 'major' ? MAJOR_SCALE_INTERVALS : MINOR_SCALE_INTERVALS;
+  const intervals = getScaleIntervals(scale);
 
   return intervals.map(interval => ALL_NOTES[(rootIndex + interval) % 12]);
 }
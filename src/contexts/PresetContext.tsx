@@ -1,11 +1,21 @@
 import React, { createContext, useState, useEffect, useCallback } from 'react';
-import type { CustomChordFilterPreset, CreateCustomPresetData } from '../types/presets';
+import type {
+  CustomChordFilterPreset,
+  CreateCustomPresetData,
+  CustomChordTypeDefinition,
+  CreateCustomChordTypeData,
+  UpdateCustomChordTypeData,
+} from '../types/presets';
 import type { ChordFilter } from '../types/music';
 import {
   loadCustomPresets,
   saveCustomPreset,
   deleteCustomPreset as deletePresetFromStorage,
   updateCustomPreset,
+  loadCustomChordTypes,
+  saveCustomChordType,
+  updateCustomChordType,
+  deleteCustomChordType,
 } from '../services/presetStorage';
 
 export interface PresetContextValue {
@@ -30,6 +40,18 @@ export interface PresetContextValue {
 
   /** Refresh presets from storage */
   refreshPresets: () => void;
+
+  /** List of user-defined chord types */
+  customChordTypes: CustomChordTypeDefinition[];
+
+  /** Define a new chord type; throws if the definition is invalid */
+  addChordType: (data: CreateCustomChordTypeData) => CustomChordTypeDefinition;
+
+  /** Change a chord type's name, suffix or formula; throws if the result is invalid */
+  updateChordType: (id: string, updates: UpdateCustomChordTypeData) => CustomChordTypeDefinition;
+
+  /** Delete a chord type by id */
+  deleteChordType: (id: string) => boolean;
 }
 
 const defaultContextValue: PresetContextValue = {
@@ -47,6 +69,16 @@ const defaultContextValue: PresetContextValue = {
   refreshPresets: () => {
     throw new Error('PresetContext not initialized');
   },
+  customChordTypes: [],
+  addChordType: () => {
+    throw new Error('PresetContext not initialized');
+  },
+  updateChordType: () => {
+    throw new Error('PresetContext not initialized');
+  },
+  deleteChordType: () => {
+    throw new Error('PresetContext not initialized');
+  },
 };
 
 export const PresetContext = createContext<PresetContextValue>(defaultContextValue);
@@ -58,6 +90,9 @@ interface PresetProviderProps {
 export const PresetProvider: React.FC<PresetProviderProps> = ({ children }) => {
   const [customPresets, setCustomPresets] = useState<CustomChordFilterPreset[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Loaded during the first render rather than in an effect, so custom chord
+  // types are registered before any child builds a chord
+  const [customChordTypes, setCustomChordTypes] = useState<CustomChordTypeDefinition[]>(loadCustomChordTypes);
 
   // Load presets from storage on mount
   useEffect(() => {
@@ -102,6 +137,32 @@ export const PresetProvider: React.FC<PresetProviderProps> = ({ children }) => {
     []
   );
 
+  const addChordType = useCallback(
+    (data: CreateCustomChordTypeData): CustomChordTypeDefinition => {
+      const newType = saveCustomChordType(data);
+      setCustomChordTypes(prev => [...prev, newType]);
+      return newType;
+    },
+    []
+  );
+
+  const updateChordType = useCallback(
+    (id: string, updates: UpdateCustomChordTypeData): CustomChordTypeDefinition => {
+      const updated = updateCustomChordType(id, updates);
+      setCustomChordTypes(prev => prev.map(t => (t.id === id ? updated : t)));
+      return updated;
+    },
+    []
+  );
+
+  const deleteChordType = useCallback((id: string): boolean => {
+    const deleted = deleteCustomChordType(id);
+    if (deleted) {
+      setCustomChordTypes(prev => prev.filter(t => t.id !== id));
+    }
+    return deleted;
+  }, []);
+
   const value: PresetContextValue = {
     customPresets,
     isLoading,
@@ -109,6 +170,10 @@ export const PresetProvider: React.FC<PresetProviderProps> = ({ children }) => {
     deletePreset,
     renamePreset,
     refreshPresets,
+    customChordTypes,
+    addChordType,
+    updateChordType,
+    deleteChordType,
   };
 
   return (
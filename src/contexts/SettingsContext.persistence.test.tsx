@@ -12,6 +12,10 @@ import {
 describe('SettingsContext - Persistence', () => {
   let localStorageMock: LocalStorageMock;
 
+  /** Settings as saved, without their { version, data } envelope */
+  const getSavedSettings = () =>
+    getStoredJSON<{ version: number; data: any }>(localStorageMock, STORAGE_KEYS.APP_SETTINGS)?.data;
+
   beforeEach(() => {
     vi.clearAllMocks();
     vi.unstubAllGlobals();
@@ -124,7 +128,7 @@ describe('SettingsContext - Persistence', () => {
         expect.any(String)
       );
 
-      const savedData = getStoredJSON(localStorageMock, STORAGE_KEYS.APP_SETTINGS);
+      const savedData = getSavedSettings();
       expect(savedData).toBeDefined();
       expect((savedData as any).noteFilter.octaveRange).toEqual({ min: 2, max: 6 });
     });
@@ -146,7 +150,7 @@ describe('SettingsContext - Persistence', () => {
         result.current.commitPendingSettings();
       });
 
-      const savedData = getStoredJSON<any>(localStorageMock, STORAGE_KEYS.APP_SETTINGS);
+      const savedData = getSavedSettings();
       expect(savedData.noteFilter.keyType).toBe('white');
       expect(savedData.timing.autoAdvanceSpeed).toBe(2.5);
       expect(savedData.audio.volume).toBe(75);
@@ -181,7 +185,7 @@ describe('SettingsContext - Persistence', () => {
         result.current.commitPendingSettings();
       });
 
-      const savedData = getStoredJSON<any>(localStorageMock, STORAGE_KEYS.APP_SETTINGS);
+      const savedData = getSavedSettings();
       const noteTraining = savedData.modes.noteTraining;
 
       expect(noteTraining.selectedSubMode).toBe(NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD);
@@ -371,7 +375,7 @@ describe('SettingsContext - Persistence', () => {
           result.current.commitPendingSettings();
         });
 
-        const savedData = getStoredJSON<any>(localStorageMock, STORAGE_KEYS.APP_SETTINGS);
+        const savedData = getSavedSettings();
         expect(extractValue(savedData)).toEqual(expectedValue);
       }
     );
@@ -393,7 +397,7 @@ describe('SettingsContext - Persistence', () => {
         result.current.commitPendingSettings();
       });
 
-      const savedData = getStoredJSON<any>(localStorageMock, STORAGE_KEYS.APP_SETTINGS);
+      const savedData = getSavedSettings();
       expect(savedData.modes.noteTraining.selectedSubMode).toBe(
         NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD
       );
@@ -422,7 +426,7 @@ describe('SettingsContext - Persistence', () => {
         result.current.commitPendingSettings();
       });
 
-      const savedData = getStoredJSON<any>(localStorageMock, STORAGE_KEYS.APP_SETTINGS);
+      const savedData = getSavedSettings();
       expect(savedData.modes.noteTraining[propertyName]).toBe(value);
     });
   });
@@ -3,11 +3,14 @@ import React, { createContext, useState } from 'react';
 import type { ReactNode } from 'react';
 import type { NoteFilter, TimingSettings, AudioSettings } from '../types/music';
 import type { ModeSettings } from '../types/game';
-import type { AppSettings } from '../types/settings';
+import type { AppSettings, PracticeSettings } from '../types/settings';
+import { DEFAULT_PRACTICE_SETTINGS } from '../types/settings';
 import { DEFAULT_NOTE_FILTER, DEFAULT_TIMING_SETTINGS, DEFAULT_AUDIO_SETTINGS } from '../types/music';
-import { SETTINGS_TABS, TRAINING_MODES, STORAGE_KEYS } from '../constants';
+import { SETTINGS_TABS, TRAINING_MODES } from '../constants';
 import type { TrainingType } from '../constants';
 import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import { loadVersionedStore, saveVersionedStore } from '../services/versionedStorage';
+import { APP_SETTINGS_SCHEMA } from '../services/storageSchemas';
 
 /**
  * Deep merge two objects, with source values taking precedence.
@@ -45,24 +48,12 @@ export function deepMerge<T extends Record<string, unknown>>(target: T, source:
 
 /**
  * Load settings from localStorage, merging with defaults.
+ * Unreadable settings are quarantined and the defaults are used instead.
  * @internal Exported for testing
  */
 export function loadSettingsFromStorage(defaults: AppSettings): AppSettings {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.APP_SETTINGS);
-    if (!stored) {
-      return defaults;
-    }
-
-    const parsed = JSON.parse(stored);
-    if (typeof parsed !== 'object' || parsed === null) {
-      return defaults;
-    }
-
-    return deepMerge(defaults, parsed as Partial<AppSettings>);
-  } catch {
-    return defaults;
-  }
+  const stored = loadVersionedStore(APP_SETTINGS_SCHEMA);
+  return stored ? deepMerge(defaults, stored) : defaults;
 }
 
 /**
@@ -71,7 +62,7 @@ export function loadSettingsFromStorage(defaults: AppSettings): AppSettings {
  */
 export function saveSettingsToStorage(settings: AppSettings): void {
   try {
-    localStorage.setItem(STORAGE_KEYS.APP_SETTINGS, JSON.stringify(settings));
+    saveVersionedStore(APP_SETTINGS_SCHEMA, settings);
   } catch {
     // Silently fail on quota exceeded or other storage errors
   }
@@ -84,7 +75,9 @@ export interface SettingsContextType {
   updateTimingSettings: (timing: Partial<TimingSettings>) => void;
   updateAudioSettings: (audio: Partial<AudioSettings>) => void;
   updateModeSettings: (modes: Partial<ModeSettings>) => void;
+  updatePracticeSettings: (practice: Partial<PracticeSettings>) => void;
   updateShowNoteLabels: (show: boolean) => void;
+  updateShowStaffNotation: (show: boolean) => void;
   updateTrainingType: (type: TrainingType) => void;
   resetToDefaults: () => void;
   commitPendingSettings: () => void; // Apply pending settings to current
@@ -105,7 +98,9 @@ const defaultSettings: AppSettings = {
   audio: DEFAULT_AUDIO_SETTINGS,
   modes: DEFAULT_MODE_SETTINGS,
   showNoteLabels: false,
-  trainingType: TRAINING_MODES.EAR_TRAINING
+  showStaffNotation: false,
+  trainingType: TRAINING_MODES.EAR_TRAINING,
+  practice: DEFAULT_PRACTICE_SETTINGS
 };
 
 export const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -162,6 +157,16 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
     }));
   };
 
+  const updatePracticeSettings = (practiceUpdates: Partial<PracticeSettings>) => {
+    setPendingSettings(prevSettings => ({
+      ...prevSettings,
+      practice: {
+        ...prevSettings.practice,
+        ...practiceUpdates
+      }
+    }));
+  };
+
   const updateShowNoteLabels = (show: boolean) => {
     setPendingSettings(prevSettings => ({
       ...prevSettings,
@@ -169,6 +174,13 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
     }));
   };
 
+  const updateShowStaffNotation = (show: boolean) => {
+    setPendingSettings(prevSettings => ({
+      ...prevSettings,
+      showStaffNotation: show
+    }));
+  };
+
   const updateTrainingType = (type: TrainingType) => {
     setPendingSettings(prevSettings => ({
       ...prevSettings,
@@ -222,7 +234,9 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
     updateTimingSettings,
     updateAudioSettings,
     updateModeSettings,
+    updatePracticeSettings,
     updateShowNoteLabels,
+    updateShowStaffNotation,
     updateTrainingType,
     resetToDefaults,
     commitPendingSettings,
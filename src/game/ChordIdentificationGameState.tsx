@@ -16,6 +16,8 @@ import type { Chord, NoteWithOctave, NoteFilter } from '../types/music';
 import type { RoundContext } from '../types/orchestrator';
 import type { IGameMode } from './IGameMode';
 import { ChordEngine } from '../utils/chordEngine';
+import { reviewScheduler } from '../utils/spacedRepetition';
+import { exercisePlayer } from '../utils/exercisePlayer';
 import { validateChordGuess } from '../utils/chordValidation';
 import { NOTE_TRAINING_SUB_MODES } from '../constants';
 import ChordIdentificationModeDisplay from '../components/modes/ChordIdentificationModeDisplay';
@@ -201,7 +203,7 @@ export class ChordIdentificationGameState implements IGameMode {
       guessedName: this.userGuess || '(timeout - no guess)'
     });
 
-    const correctAnswer = this.currentChord.name;
+    const correctAnswer = this.getSpelledChordName(this.currentChord);
     return {
       gameCompleted: false,
       feedback: `Incorrect. The correct answer is ${correctAnswer}. Try again!`,
@@ -253,14 +255,18 @@ export class ChordIdentificationGameState implements IGameMode {
     this.userGuess = guess || this.guessedChordName || '';
 
     // Validate the guess using the chord validation utility
-    const validationResult = validateChordGuess(this.userGuess, this.currentChord);
+    const validationResult = validateChordGuess(
+      this.userGuess,
+      this.currentChord,
+      this.noteTrainingSettings.chordFilter.keyFilter
+    );
 
     if (validationResult.isCorrect) {
       const result = this.handleCorrectGuess();
 
       // Add enharmonic feedback if the user entered an enharmonic equivalent
       if (validationResult.isEnharmonic && result.feedback) {
-        const enharmonicNote = `You entered ${validationResult.originalGuess}, which is enharmonically equivalent to ${this.currentChord.name}`;
+        const enharmonicNote = `You entered ${validationResult.originalGuess}, which is enharmonically equivalent to ${this.getSpelledChordName(this.currentChord)}`;
         result.feedback = `${result.feedback} (${enharmonicNote})`;
       }
 
@@ -390,6 +396,15 @@ export class ChordIdentificationGameState implements IGameMode {
     return results;
   };
 
+  /**
+   * Names a chord for feedback, spelled in the training key if one is set.
+   * Stats and history keep using chord.name, which does not depend on the key.
+   */
+  private getSpelledChordName = (chord: Chord): string => {
+    const keyContext = this.noteTrainingSettings.chordFilter.keyFilter;
+    return keyContext ? ChordEngine.getChordName(chord, keyContext) : chord.name;
+  };
+
   /**
    * Calculates statistics grouped by chord type.
    * Tracks attempts, correct count, and accuracy for each chord type encountered.
@@ -796,9 +811,10 @@ export class ChordIdentificationGameState implements IGameMode {
    * @returns The first note of the generated chord
    */
   generateNote = (_filter: NoteFilter): NoteWithOctave => {
-    // Generate a new chord using the chord filter
-    this.currentChord = ChordEngine.getRandomChordFromFilter(
-      this.noteTrainingSettings.chordFilter
+    // Take the next chord of an imported exercise, or generate one using the chord filter
+    this.currentChord = exercisePlayer.nextChord() ?? ChordEngine.getRandomChordFromFilter(
+      this.noteTrainingSettings.chordFilter,
+      reviewScheduler.selectChord
     );
 
     // Set displayed notes to all notes in the chord
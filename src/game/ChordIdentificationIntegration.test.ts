@@ -38,6 +38,7 @@ describe('ChordIdentification Integration: Show Notes → Guess Chord', () => {
     const mockAudioEngine = {
       initialize: vi.fn().mockResolvedValue(undefined),
       playChord: vi.fn(),
+      playChordWithStyle: vi.fn(),
       playNote: vi.fn(),
     } as unknown as AudioEngine;
     strategy = new ChordTrainingStrategy(mockAudioEngine);
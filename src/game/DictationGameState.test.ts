@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DictationGameState } from './DictationGameState';
+import { exercisePlayer } from '../utils/exercisePlayer';
+import { createGameState } from './GameStateFactory';
+import { modeRegistry } from './ModeRegistry';
+import { MELODIC_DICTATION_SUB_MODES } from '../constants';
+import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import type { DictationModeSettings } from '../types/game';
+import type { NoteFilter, NoteWithOctave } from '../types/music';
+
+describe('DictationGameState', () => {
+  const settings: DictationModeSettings = {
+    keyRoots: ['F'],
+    scale: 'major',
+    melodyLength: 4,
+    maxLeap: 2,
+    targetMelodies: 2
+  };
+
+  const filter: NoteFilter = { octaveRange: { min: 4, max: 4 }, keyType: 'white' };
+
+  const F4: NoteWithOctave = { note: 'F', octave: 4 };
+  const G4: NoteWithOctave = { note: 'G', octave: 4 };
+  const A4: NoteWithOctave = { note: 'A', octave: 4 };
+  const Bb4: NoteWithOctave = { note: 'A#', octave: 4 };
+
+  let gameState: DictationGameState;
+
+  const enter = (notes: NoteWithOctave[]) => {
+    notes.forEach(note => gameState.addEnteredNote(note));
+  };
+
+  beforeEach(() => {
+    gameState = new DictationGameState(settings);
+    gameState.generateNote(filter);
+    gameState.currentMelody = { key: { key: 'F', scale: 'major' }, notes: [F4, G4, A4, Bb4] };
+  });
+
+  describe('generateNote', () => {
+    it('builds a melody in the key within the octave range and returns its first note', () => {
+      const fresh = new DictationGameState(settings);
+      const first = fresh.generateNote(filter);
+
+      expect(fresh.currentMelody?.notes).toHaveLength(4);
+      expect(first).toBe(fresh.currentMelody?.notes[0]);
+      fresh.currentMelody!.notes.forEach(note => {
+        expect(['F', 'G', 'A', 'A#', 'C', 'D', 'E']).toContain(note.note);
+        expect(note.octave).toBe(4);
+      });
+    });
+
+    it('keeps the melody length between 3 and 12 notes', () => {
+      const short = new DictationGameState({ ...settings, melodyLength: 1 });
+      const long = new DictationGameState({ ...settings, melodyLength: 20 });
+      short.generateNote(filter);
+      long.generateNote(filter);
+
+      expect(short.currentMelody?.notes).toHaveLength(3);
+      expect(long.currentMelody?.notes).toHaveLength(12);
+    });
+
+    it('plays the phrases of an imported exercise in order', () => {
+      const phrases = [
+        { key: { key: 'C' as const, scale: 'minor' as const }, notes: [G4, F4, G4] },
+        { key: { key: 'C' as const, scale: 'minor' as const }, notes: [A4, G4, F4] },
+      ];
+      exercisePlayer.setExercise({ name: 'Phrases', kind: 'melodies', melodies: phrases });
+
+      try {
+        const fresh = new DictationGameState(settings);
+        expect(fresh.generateNote(filter)).toBe(G4);
+        expect(fresh.currentMelody).toBe(phrases[0]);
+        fresh.generateNote(filter);
+        expect(fresh.currentMelody).toBe(phrases[1]);
+      } finally {
+        exercisePlayer.setExercise(null);
+      }
+    });
+  });
+
+  describe('answers', () => {
+    it('is complete once it has as many notes as the melody', () => {
+      expect(gameState.addEnteredNote(F4)).toBe('partial');
+      enter([G4, A4]);
+      expect(gameState.addEnteredNote(Bb4)).toBe('complete');
+    });
+
+    it('undoes the last note', () => {
+      enter([F4, G4]);
+      gameState.removeLastEnteredNote();
+
+      expect(gameState.enteredNotes).toEqual([F4]);
+    });
+
+    it('starts a new answer after a scored attempt', () => {
+      enter([F4, A4, A4, Bb4]);
+      gameState.handleIncorrectGuess();
+      gameState.addEnteredNote(F4);
+
+      expect(gameState.enteredNotes).toEqual([F4]);
+      expect(gameState.lastAlignment).toBeNull();
+    });
+  });
+
+  describe('scoring', () => {
+    it('gives partial credit for an aligned answer', () => {
+      enter([F4, A4, Bb4]);
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('3/4 notes correct (75%). Try again!');
+      expect(gameState.lastAlignment?.noteResults).toEqual(['correct', 'missed', 'correct', 'correct']);
+      expect(gameState.guessHistory[0].score).toBe(75);
+    });
+
+    it('reveals the melody, spelled for its key, when nothing was played', () => {
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('It was F4 G4 A4 B♭4.');
+      expect(gameState.guessHistory[0].enteredNotes).toBeNull();
+    });
+
+    it('stores per-melody and per-position results for the session', () => {
+      enter([F4, A4, Bb4]);
+      gameState.handleIncorrectGuess();
+      enter([F4, G4, A4, Bb4]);
+      gameState.handleCorrectGuess();
+
+      gameState.generateNote(filter);
+      gameState.currentMelody = { key: { key: 'F', scale: 'major' }, notes: [A4, G4, F4] };
+      enter([A4, G4, F4]);
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.gameCompleted).toBe(true);
+
+      const sessionResults = gameState.getSessionResults(result.stats!);
+      expect(sessionResults.melodiesCompleted).toBe(2);
+      expect(sessionResults.averageScore).toBe(275 / 3);
+      expect(sessionResults.melodyResults).toEqual([
+        { key: 'F major', notes: ['F4', 'G4', 'A4', 'B♭4'], attempts: 2, bestScore: 100, solved: true },
+        { key: 'F major', notes: ['A4', 'G4', 'F4'], attempts: 1, bestScore: 100, solved: true }
+      ]);
+      expect(sessionResults.positionStats[1]).toEqual({ attempts: 3, correct: 2, accuracy: (2 / 3) * 100 });
+
+      const items = gameState.getStatsItems(result.stats!, { ...sessionResults });
+      expect(items.find(item => item.label === 'Needs Work')?.value).toBe('Note 2 (67%)');
+    });
+  });
+
+  describe('mode registration', () => {
+    it('registers Melodic Dictation with the dictation strategy', () => {
+      const metadata = modeRegistry.get(MELODIC_DICTATION_SUB_MODES.DICTATION);
+      expect(metadata?.strategyType).toBe('melodic-dictation');
+      expect(metadata?.settingsKey).toBe('dictation');
+
+      const created = createGameState(MELODIC_DICTATION_SUB_MODES.DICTATION, DEFAULT_MODE_SETTINGS);
+      expect(created).toBeInstanceOf(DictationGameState);
+    });
+  });
+});
@@ -0,0 +1,506 @@
+import React from 'react';
+import type {
+  BaseGameState,
+  DictationModeSettings,
+  DictationGuessAttempt,
+  DictationSessionResults,
+  GameStats,
+  StatItem,
+  HistoryItem,
+  GameSession
+} from '../types/game';
+import type { CommonDisplayProps, GameActionResult } from './GameStateFactory';
+import type { IGameMode } from './IGameMode';
+import type { Melody, NoteFilter, NoteWithOctave } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { MELODIC_DICTATION_SUB_MODES } from '../constants';
+import { MIN_MELODY_LENGTH, MAX_MELODY_LENGTH, alignMelody, formatMelodyNote, generateMelody, getMelodyPool } from '../utils/melodicDictation';
+import type { MelodyAlignment } from '../utils/melodicDictation';
+import { exercisePlayer } from '../utils/exercisePlayer';
+import DictationModeDisplay from '../components/modes/DictationModeDisplay';
+
+/**
+ * Result of adding a played note to the answer:
+ * - 'partial': more notes are needed
+ * - 'complete': the answer has as many notes as the melody and can be scored
+ */
+export type DictationEntryStatus = 'partial' | 'complete';
+
+/**
+ * Game state implementation for Melodic Dictation mode.
+ *
+ * In this mode:
+ * - A melody is generated in a key, within the note filter's octave range, and played
+ * - The user plays the melody back on the piano or a MIDI keyboard
+ * - The answer is lined up with the melody note by note, so a missed or extra
+ *   note doesn't throw off the rest; every attempt earns partial credit
+ * - The round counts as correct only when every note is right
+ * - The session completes once the target number of melodies is written down
+ */
+export class DictationGameState implements IGameMode {
+  elapsedTime: number = 0;
+  isCompleted: boolean = false;
+  totalAttempts: number = 0;
+  longestStreak: number = 0;
+  currentStreak: number = 0;
+  startTime?: Date;
+
+  // Mode-specific properties
+  correctCount: number = 0;
+  currentMelody: Melody | null = null;
+  enteredNotes: NoteWithOctave[] = [];
+  lastAlignment: MelodyAlignment | null = null;
+  isRoundSolved: boolean = false;
+  guessHistory: DictationGuessAttempt[] = [];
+  dictationSettings: DictationModeSettings;
+
+  /**
+   * Creates a new DictationGameState instance.
+   *
+   * @param dictationSettings - Keys, melody length and shape, and session target
+   */
+  constructor(dictationSettings: DictationModeSettings) {
+    this.dictationSettings = dictationSettings;
+  }
+
+  modeDisplay = (props: CommonDisplayProps) => (
+    <DictationModeDisplay
+      gameState={this}
+      {...props}
+    />
+  );
+
+  /**
+   * Piano keys are collected by the strategy, one note at a time.
+   * Implementing this routes piano and MIDI input through the orchestrator.
+   */
+  onPianoKeyClick = (): void => {};
+
+  /**
+   * Adds a played note to the answer.
+   * Playing after a scored attempt starts a new answer.
+   *
+   * @param note - The note played
+   * @returns Whether the answer now has as many notes as the melody
+   */
+  addEnteredNote = (note: NoteWithOctave): DictationEntryStatus => {
+    if (this.lastAlignment) {
+      this.enteredNotes = [];
+      this.lastAlignment = null;
+    }
+
+    this.enteredNotes = [...this.enteredNotes, note];
+
+    const length = this.currentMelody?.notes.length ?? 0;
+    return this.enteredNotes.length >= length ? 'complete' : 'partial';
+  };
+
+  /**
+   * Removes the last note of the answer.
+   */
+  removeLastEnteredNote = (): void => {
+    this.enteredNotes = this.enteredNotes.slice(0, -1);
+    this.lastAlignment = null;
+  };
+
+  /**
+   * Clears the answer and its note marks.
+   */
+  clearEnteredNotes = (): void => {
+    this.enteredNotes = [];
+    this.lastAlignment = null;
+  };
+
+  /**
+   * Lines up notes against the current melody.
+   *
+   * @param notes - The answer
+   * @returns Per-note results and partial credit, or null if there is no current melody
+   */
+  alignAnswer = (notes: NoteWithOctave[]): MelodyAlignment | null => {
+    if (!this.currentMelody) return null;
+    return alignMelody(this.currentMelody.notes, notes);
+  };
+
+  /**
+   * Formats a note spelled for the current melody's key.
+   */
+  formatNote = (note: NoteWithOctave): string => {
+    return this.currentMelody ? formatMelodyNote(note, this.currentMelody.key) : `${note.note}${note.octave}`;
+  };
+
+  handleCorrectGuess = (): GameActionResult => {
+    const newCorrectCount = this.correctCount + 1;
+    const newCurrentStreak = this.currentStreak + 1;
+    const newLongestStreak = Math.max(this.longestStreak, newCurrentStreak);
+    const newTotalAttempts = this.totalAttempts + 1;
+
+    this.recordAttempt(true);
+    this.isRoundSolved = true;
+
+    // Update state
+    this.correctCount = newCorrectCount;
+    this.currentStreak = newCurrentStreak;
+    this.longestStreak = newLongestStreak;
+    this.totalAttempts = newTotalAttempts;
+
+    const target = this.dictationSettings.targetMelodies;
+
+    if (newCorrectCount >= target) {
+      this.isCompleted = true;
+
+      const finalStats: GameStats = {
+        completionTime: this.elapsedTime,
+        accuracy: (newCorrectCount / newTotalAttempts) * 100,
+        averageTimePerNote: this.elapsedTime / newCorrectCount,
+        longestStreak: newLongestStreak,
+        totalAttempts: newTotalAttempts,
+        correctAttempts: newCorrectCount
+      };
+
+      return {
+        gameCompleted: true,
+        feedback: `🎉 Melodic Dictation Complete! ${newCorrectCount}/${target} melodies`,
+        shouldAdvance: false,
+        stats: finalStats
+      };
+    }
+
+    return {
+      gameCompleted: false,
+      feedback: `Correct! Every note right (${newCorrectCount}/${target})`,
+      shouldAdvance: true
+    };
+  };
+
+  handleIncorrectGuess = (): GameActionResult => {
+    const wasAnswered = this.enteredNotes.length > 0;
+    const alignment = this.recordAttempt(false);
+
+    this.currentStreak = 0;
+    this.totalAttempts = this.totalAttempts + 1;
+
+    if (!this.currentMelody || !alignment) {
+      return { gameCompleted: false, feedback: 'Try again!', shouldAdvance: false };
+    }
+
+    // An answer gets per-note feedback; a timeout or skip reveals the melody
+    const feedback = wasAnswered
+      ? `${alignment.correctCount}/${this.currentMelody.notes.length} notes correct (${alignment.score.toFixed(0)}%). Try again!`
+      : `It was ${this.currentMelody.notes.map(this.formatNote).join(' ')}.`;
+
+    return {
+      gameCompleted: false,
+      feedback,
+      shouldAdvance: false
+    };
+  };
+
+  updateState = (updates: Partial<BaseGameState>) => {
+    Object.assign(this, updates);
+  };
+
+  getFeedbackMessage = (currentNote: boolean): string => {
+    if (!currentNote) {
+      return 'Click "Start Practice" to begin your melodic dictation session';
+    }
+
+    return `Play the melody back on the piano (${this.correctCount}/${this.dictationSettings.targetMelodies})`;
+  };
+
+  onStartNewRound = (): void => {
+    if (!this.startTime && !this.isCompleted) {
+      this.startTime = new Date();
+    }
+  };
+
+  getTimerMode = (): 'count-up' | 'count-down' | 'none' => {
+    return 'count-up';
+  };
+
+  getCompletionMessage = (): string => {
+    if (!this.isCompleted) return '';
+    return '🎉 Melodic Dictation Complete! Piano is now in free play mode.';
+  };
+
+  getSessionSettings = (): Record<string, unknown> => {
+    return {
+      keyRoots: this.dictationSettings.keyRoots ? [...this.dictationSettings.keyRoots] : null,
+      scale: this.dictationSettings.scale,
+      melodyLength: this.dictationSettings.melodyLength,
+      maxLeap: this.dictationSettings.maxLeap,
+      targetMelodies: this.dictationSettings.targetMelodies
+    };
+  };
+
+  getSessionResults = (stats: GameStats): DictationSessionResults => {
+    const scores = this.guessHistory.map(attempt => attempt.score);
+
+    const results: DictationSessionResults = {
+      melodiesCompleted: stats.correctAttempts,
+      longestStreak: stats.longestStreak,
+      averageTimePerMelody: stats.averageTimePerNote,
+      accuracy: stats.accuracy,
+      averageScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0,
+      positionStats: this.calculatePositionStats(),
+      melodyResults: this.calculateMelodyResults()
+    };
+
+    return results;
+  };
+
+  /**
+   * Calculates accuracy for each note position across all attempts.
+   *
+   * @returns Statistics indexed by note position
+   */
+  private calculatePositionStats = (): DictationSessionResults['positionStats'] => {
+    const stats: DictationSessionResults['positionStats'] = [];
+
+    for (const attempt of this.guessHistory) {
+      attempt.noteResults.forEach((result, index) => {
+        if (!stats[index]) {
+          stats[index] = { attempts: 0, correct: 0, accuracy: 0 };
+        }
+
+        stats[index].attempts++;
+        if (result === 'correct') {
+          stats[index].correct++;
+        }
+      });
+    }
+
+    for (const stat of stats) {
+      stat.accuracy = stat.attempts > 0 ? (stat.correct / stat.attempts) * 100 : 0;
+    }
+
+    return stats;
+  };
+
+  /**
+   * Summarises the attempts at each melody, in the order the melodies were asked.
+   *
+   * @returns One entry per melody
+   */
+  private calculateMelodyResults = (): DictationSessionResults['melodyResults'] => {
+    const results = new Map<Melody, DictationSessionResults['melodyResults'][number]>();
+
+    for (const attempt of this.guessHistory) {
+      const melody = attempt.actualMelody;
+      const result = results.get(melody) ?? {
+        key: `${melody.key.key} ${melody.key.scale}`,
+        notes: melody.notes.map(note => formatMelodyNote(note, melody.key)),
+        attempts: 0,
+        bestScore: 0,
+        solved: false
+      };
+
+      result.attempts++;
+      result.bestScore = Math.max(result.bestScore, attempt.score);
+      result.solved = result.solved || attempt.isCorrect;
+      results.set(melody, result);
+    }
+
+    return [...results.values()];
+  };
+
+  /**
+   * Adds the current answer to the guess history.
+   * The answer is kept after a wrong attempt so its note marks can be shown.
+   *
+   * @returns The alignment of the answer, or null if there is no current melody
+   */
+  private recordAttempt = (isCorrect: boolean): MelodyAlignment | null => {
+    const alignment = this.alignAnswer(this.enteredNotes);
+    if (!this.currentMelody || !alignment) return null;
+
+    const attempt: DictationGuessAttempt = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+      actualMelody: this.currentMelody,
+      enteredNotes: this.enteredNotes.length > 0 ? [...this.enteredNotes] : null,
+      noteResults: alignment.noteResults,
+      extraNotes: alignment.extraNotes,
+      score: alignment.score,
+      isCorrect
+    };
+
+    this.guessHistory = [...this.guessHistory, attempt];
+    this.lastAlignment = alignment;
+
+    return alignment;
+  };
+
+  // End Screen Strategy Methods
+  getCelebrationEmoji = (): string => {
+    return '✍️';
+  };
+
+  getHeaderTitle = (): string => {
+    return 'Well Done!';
+  };
+
+  getModeCompletionText = (): string => {
+    return 'Melodic Dictation Complete';
+  };
+
+  getPerformanceRating = (gameStats: GameStats): string => {
+    const accuracy = gameStats.accuracy;
+
+    if (accuracy >= 95) return 'Golden Ears! 🌟';
+    if (accuracy >= 85) return 'Excellent Ear! 🎯';
+    if (accuracy >= 75) return 'Great Progress! 🎵';
+    if (accuracy >= 65) return 'Keep Practicing! 📚';
+    return 'Good Effort! 💪';
+  };
+
+  getHeaderThemeClass = (): string => {
+    return 'dictation-complete';
+  };
+
+  getStatsItems = (gameStats: GameStats, sessionResults: Record<string, unknown>): StatItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const results = sessionResults as Partial<DictationSessionResults>;
+    const averageScore = results.averageScore ?? 0;
+
+    const stats: StatItem[] = [
+      {
+        label: 'Time',
+        value: formatTime(gameStats.completionTime),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Accuracy',
+        value: `${gameStats.accuracy.toFixed(1)}%`,
+        className: gameStats.accuracy >= 85 ? 'stat-success' : gameStats.accuracy >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Note Score',
+        value: `${averageScore.toFixed(1)}%`,
+        className: averageScore >= 85 ? 'stat-success' : averageScore >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Longest Streak',
+        value: gameStats.longestStreak.toString(),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Total Melodies',
+        value: `${gameStats.correctAttempts}/${gameStats.totalAttempts}`,
+        className: 'stat-neutral'
+      }
+    ];
+
+    // Highlight the note position that needs the most work
+    const positionStats = results.positionStats || [];
+    const weakestIndex = positionStats.reduce<number>((weakest, stat, index) => {
+      if (stat.accuracy >= 100) return weakest;
+      if (weakest === -1 || stat.accuracy < positionStats[weakest].accuracy) return index;
+      return weakest;
+    }, -1);
+
+    if (weakestIndex !== -1) {
+      stats.push({
+        label: 'Needs Work',
+        value: `Note ${weakestIndex + 1} (${positionStats[weakestIndex].accuracy.toFixed(0)}%)`,
+        className: 'stat-warning'
+      });
+    }
+
+    return stats;
+  };
+
+  getAdditionalStatsSection = (): React.ReactNode => {
+    return null;
+  };
+
+  getHistoryTitle = (settings: Record<string, unknown>): string => {
+    const targetMelodies = settings.targetMelodies || this.dictationSettings.targetMelodies;
+    return `Your Recent ${targetMelodies} Melody Sessions`;
+  };
+
+  getHistoryItems = (sessions: GameSession[]): HistoryItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const formatRelativeTime = (timestamp: Date): string => {
+      const now = new Date();
+      const diffMs = now.getTime() - timestamp.getTime();
+      const diffMinutes = Math.floor(diffMs / 60000);
+      const diffHours = Math.floor(diffMinutes / 60);
+      const diffDays = Math.floor(diffHours / 24);
+
+      if (diffMinutes < 1) return 'just now';
+      if (diffMinutes < 60) return `${diffMinutes}m ago`;
+      if (diffHours < 24) return `${diffHours}h ago`;
+      if (diffDays < 7) return `${diffDays}d ago`;
+      return timestamp.toLocaleDateString();
+    };
+
+    return sessions.map(session => ({
+      primaryStat: formatTime(session.completionTime),
+      secondaryStat: `${session.accuracy.toFixed(1)}%`,
+      metadata: formatRelativeTime(session.timestamp),
+      className: 'history-neutral'
+    }));
+  };
+
+  shouldShowHistory = (sessions: GameSession[]): boolean => {
+    return sessions.length > 0;
+  };
+
+  // ========================================
+  // IGameMode Implementation
+  // ========================================
+
+  /**
+   * Takes the next phrase of an imported exercise, or generates a melody in a
+   * random enabled key, within the note filter's octave range.
+   *
+   * @param filter - Note filter whose octave range bounds the melody
+   * @returns The first note of the melody, so timeouts can point the user to it
+   * @throws Error if no note of the key fits inside the range
+   */
+  generateNote = (filter: NoteFilter): NoteWithOctave => {
+    this.currentMelody = exercisePlayer.nextMelody() ?? this.generateMelody(filter);
+    this.enteredNotes = [];
+    this.lastAlignment = null;
+    this.isRoundSolved = false;
+
+    return this.currentMelody.notes[0];
+  };
+
+  /**
+   * Generates a melody in a random enabled key
+   * @private
+   */
+  private generateMelody(filter: NoteFilter): Melody {
+    const { keyRoots, scale, melodyLength, maxLeap } = this.dictationSettings;
+    const roots = keyRoots && keyRoots.length > 0 ? keyRoots : ALL_NOTES;
+    const key = roots[Math.floor(Math.random() * roots.length)];
+    const length = Math.min(MAX_MELODY_LENGTH, Math.max(MIN_MELODY_LENGTH, melodyLength));
+
+    const notes = generateMelody(getMelodyPool({ key, scale }, filter), length, Math.max(1, maxLeap), key);
+    return { key: { key, scale }, notes };
+  }
+
+  validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
+    return guess.note === actual.note && guess.octave === actual.octave;
+  };
+
+  isGameComplete = (): boolean => {
+    return this.isCompleted;
+  };
+
+  getMode = (): string => {
+    return MELODIC_DICTATION_SUB_MODES.DICTATION;
+  };
+}
@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { GameOrchestrator } from './GameOrchestrator';
+import { DictationGameState } from './DictationGameState';
 import { GameAction } from '../machines/types';
+import type { NoteWithOctave } from '../types/music';
+import type { RoundContext } from '../types/orchestrator';
 
 describe('GameOrchestrator', () => {
   let orchestrator: GameOrchestrator;
@@ -193,4 +196,48 @@ describe('GameOrchestrator', () => {
       expect(callCount).toBe(0);
     });
   });
+
+  describe('Partial answers', () => {
+    const C4: NoteWithOctave = { note: 'C', octave: 4 };
+    const D4: NoteWithOctave = { note: 'D', octave: 4 };
+    const E4: NoteWithOctave = { note: 'E', octave: 4 };
+    let context: RoundContext;
+
+    beforeEach(async () => {
+      const gameMode = new DictationGameState({ keyRoots: ['C'], scale: 'major', melodyLength: 3, maxLeap: 2, targetMelodies: 2 });
+      orchestrator.setGameMode(gameMode);
+      orchestrator.setNoteFilter({ octaveRange: { min: 4, max: 4 }, keyType: 'white' });
+      orchestrator.on('roundStart', event => {
+        context = event.context!;
+      });
+      await orchestrator.startNewRound();
+      gameMode.currentMelody = { key: { key: 'C', scale: 'major' }, notes: [C4, D4, E4] };
+    });
+
+    it('should show feedback for each note of a melody without scoring it', () => {
+      const guessResult = vi.fn();
+      const feedbackUpdate = vi.fn();
+      orchestrator.on('guessResult', guessResult);
+      orchestrator.on('feedbackUpdate', feedbackUpdate);
+
+      orchestrator.handleUserAction({ type: 'piano_click', note: C4 }, context);
+      orchestrator.handleUserAction({ type: 'piano_click', note: D4 }, context);
+
+      expect(feedbackUpdate).toHaveBeenLastCalledWith('Keep going... 2/3 notes');
+      expect(guessResult).not.toHaveBeenCalled();
+      expect(orchestrator.getContext().totalAttempts).toBe(0);
+      expect(orchestrator.isWaitingInput()).toBe(true);
+    });
+
+    it('should score the melody once its last note is played', () => {
+      const guessResult = vi.fn();
+      orchestrator.on('guessResult', guessResult);
+
+      [C4, D4, E4].forEach(note => orchestrator.handleUserAction({ type: 'piano_click', note }, context));
+
+      expect(guessResult).toHaveBeenCalledTimes(1);
+      expect(guessResult).toHaveBeenCalledWith(expect.objectContaining({ isCorrect: true }));
+      expect(orchestrator.getContext()).toMatchObject({ totalAttempts: 1, currentStreak: 1 });
+    });
+  });
 });
@@ -3,7 +3,11 @@ import { gameStateMachine } from '../machines/gameStateMachine';
 import type { GameMachineContext, GameEvent } from '../machines/types';
 import { SessionState, RoundState, GameAction } from '../machines/types';
 import { audioEngine } from '../utils/audioEngine';
-import type { NoteWithOctave, NoteDuration } from '../types/music';
+import { reviewScheduler } from '../utils/spacedRepetition';
+import { exercisePlayer } from '../utils/exercisePlayer';
+import type { NoteWithOctave, NoteDuration, ChordPlaybackSettings } from '../types/music';
+import { DEFAULT_CHORD_PLAYBACK } from '../types/music';
+import { DEFAULT_PRIMING_SETTINGS } from '../types/game';
 import { EventEmitter } from '../utils/EventEmitter';
 import type { OrchestratorEvents } from './OrchestratorEvents';
 import type { IGameMode } from './IGameMode';
@@ -16,6 +20,13 @@ import { modeRegistry } from './ModeRegistry';
 import type { ModeStrategy } from './strategies/ModeStrategy';
 import { EarTrainingStrategy } from './strategies/EarTrainingStrategy';
 import { ChordTrainingStrategy } from './strategies/ChordTrainingStrategy';
+import { IntervalTrainingStrategy } from './strategies/IntervalTrainingStrategy';
+import { ScaleTrainingStrategy } from './strategies/ScaleTrainingStrategy';
+import { ProgressionTrainingStrategy } from './strategies/ProgressionTrainingStrategy';
+import { SightReadingStrategy } from './strategies/SightReadingStrategy';
+import { ScaleDegreeStrategy } from './strategies/ScaleDegreeStrategy';
+import { DictationStrategy } from './strategies/DictationStrategy';
+import { RhythmStrategy } from './strategies/RhythmStrategy';
 
 /**
  * GameOrchestrator
@@ -119,6 +130,7 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
   private subscriptions: Array<() => void> = [];
   private currentNote: NoteWithOctave | null = null;
   private noteDuration: NoteDuration = '2n';
+  private chordPlayback: ChordPlaybackSettings = DEFAULT_CHORD_PLAYBACK;
 
   // Game mode and settings
   private gameMode: IGameMode | null = null;
@@ -633,6 +645,9 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
     // Reset current note
     this.currentNote = null;
 
+    // Start an imported exercise from its first item again
+    exercisePlayer.restart();
+
     // Reset sessionComplete flag for new game
     this.sessionCompleteEmitted = false;
 
@@ -652,6 +667,14 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
     this.noteDuration = duration;
   }
 
+  /**
+   * Set how chord challenges are played (block, arpeggiated, broken...)
+   * Strategies read it when they're created, so call this before applySettings().
+   */
+  setChordPlayback(playback: ChordPlaybackSettings): void {
+    this.chordPlayback = playback;
+  }
+
   /**
    * Play the current note
    * Simply plays the audio without state transitions
@@ -676,6 +699,12 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
       return;
     }
 
+    // Strategies with multi-note challenges replay the whole challenge
+    if (this.currentStrategy?.replayChallenge) {
+      await this.currentStrategy.replayChallenge();
+      return;
+    }
+
     // Initialize audio engine if needed
     await audioEngine.initialize();
 
@@ -784,6 +813,7 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
 
     // Handle as incorrect guess through game state
     const result = this.gameMode.handleIncorrectGuess();
+    this.recordReviewResult(false);
 
     // Emit guess result event with timeout-specific feedback
     this.emit('guessResult', {
@@ -893,9 +923,27 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
 
     switch (strategyType) {
       case 'ear-training':
-        return new EarTrainingStrategy(audioEngine, this.noteDuration);
+        return new EarTrainingStrategy(
+          audioEngine,
+          this.noteDuration,
+          this.modeSettings?.[metadata.settingsKey]?.priming ?? DEFAULT_PRIMING_SETTINGS
+        );
       case 'chord-training':
-        return new ChordTrainingStrategy(audioEngine);
+        return new ChordTrainingStrategy(audioEngine, this.chordPlayback);
+      case 'interval-training':
+        return new IntervalTrainingStrategy(audioEngine, this.noteDuration);
+      case 'scale-training':
+        return new ScaleTrainingStrategy(audioEngine, this.noteDuration);
+      case 'progression-training':
+        return new ProgressionTrainingStrategy(audioEngine, this.noteDuration);
+      case 'sight-reading':
+        return new SightReadingStrategy();
+      case 'scale-degree':
+        return new ScaleDegreeStrategy(audioEngine, this.noteDuration);
+      case 'melodic-dictation':
+        return new DictationStrategy(audioEngine, this.noteDuration);
+      case 'rhythm':
+        return new RhythmStrategy(audioEngine);
       default:
         throw new Error(`[Orchestrator] Unknown strategy type: ${strategyType}`);
     }
@@ -929,7 +977,7 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
 
     // Don't skip if already completed - we still need to save the session!
     // The isCompleted flag just prevents the game from continuing, but we still need
-    // to emit sessionComplete so the session is saved to localStorage.
+    // to emit sessionComplete so the session is saved to the game history.
 
     // Mark game mode as completed FIRST to prevent infinite loop
     if (this.gameMode) {
@@ -1093,12 +1141,20 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
           if (this.currentStrategy.handlePianoKeyClick) {
             this.currentStrategy.handlePianoKeyClick(action.note, context);
 
-            // Send MAKE_GUESS event to state machine
-            this.send({ type: GameAction.MAKE_GUESS, guessedNote: action.note.note });
-
             // For strategies with auto-submit (like ear training), validate and advance
             const result = this.currentStrategy.validateAndAdvance(context);
 
+            // Part of an answer (e.g. one note of a melody) is not a guess yet
+            if (result.pending) {
+              this.emit('feedbackUpdate', result.feedback);
+              break;
+            }
+
+            this.recordReviewResult(result.isCorrect);
+
+            // Send MAKE_GUESS event to state machine
+            this.send({ type: GameAction.MAKE_GUESS, guessedNote: action.note.note });
+
             // Send result to state machine
             this.send({
               type: result.isCorrect ? GameAction.CORRECT_GUESS : GameAction.INCORRECT_GUESS,
@@ -1136,6 +1192,14 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
             const result = this.currentStrategy.validateAndAdvance(context);
             console.log('[Orchestrator] validateAndAdvance result:', result);
 
+            // Nothing to score yet (e.g. no notes entered)
+            if (result.pending) {
+              this.emit('feedbackUpdate', result.feedback);
+              break;
+            }
+
+            this.recordReviewResult(result.isCorrect);
+
             // Transition state machine: WAITING_INPUT → PROCESSING_GUESS → result
             // MAKE_GUESS is required first so CORRECT_GUESS/INCORRECT_GUESS are accepted
             this.send({ type: GameAction.MAKE_GUESS, guessedNote: 'submit' });
@@ -1232,6 +1296,21 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
   }
 
 
+  /**
+   * Reschedule the current note or chord for spaced repetition after a scored answer.
+   * Answers given in free play after the session has completed are not recorded.
+   *
+   * @param isCorrect - Whether the answer was correct
+   */
+  private recordReviewResult(isCorrect: boolean): void {
+    if (this.isCompleted()) return;
+
+    const item = this.currentStrategy?.getReviewItem?.();
+    if (item) {
+      reviewScheduler.recordResult(item.kind, item.key, isCorrect);
+    }
+  }
+
   /**
    * Create a game session record
    * @param stats - Final game statistics
@@ -1283,6 +1362,32 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
     await this.replayNote();
   }
 
+  /**
+   * User action: Replay the current challenge from one of its notes
+   * Only strategies with multi-note challenges (melodic dictation) respond
+   *
+   * @param position - Index of the first note to play
+   */
+  async replayFromPositionAction(position: number): Promise<void> {
+    if (!this.getCurrentNote() || !this.currentStrategy?.replayFromPosition) {
+      return;
+    }
+
+    await this.currentStrategy.replayFromPosition(position);
+  }
+
+  /**
+   * User action: Play the reference tone or cadence on demand
+   * Only strategies with tonal priming (ear training) respond
+   */
+  async playPrimingAction(): Promise<void> {
+    if (!this.currentStrategy?.playPriming) {
+      return;
+    }
+
+    await this.currentStrategy.playPriming();
+  }
+
   /**
    * User action: Play again after game completion
    */
@@ -1306,6 +1411,9 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
     // Reset current note
     this.currentNote = null;
 
+    // Start an imported exercise from its first item again
+    exercisePlayer.restart();
+
     // Reset sessionComplete flag for new game
     this.sessionCompleteEmitted = false;
 
@@ -1455,6 +1563,7 @@ export class GameOrchestrator extends EventEmitter<OrchestratorEvents> {
       const newGameState = createGameState(selectedMode, modeSettings);
       this.setGameMode(newGameState);
       this.setNoteFilter(noteFilter);
+      exercisePlayer.restart();
     } catch (error) {
       console.error('Failed to apply settings:', error);
     }
@@ -6,6 +6,13 @@ import type {
   SurvivalModeSettings,
   SandboxModeSettings,
   NoteTrainingModeSettings,
+  IntervalModeSettings,
+  ScaleModeSettings,
+  ProgressionModeSettings,
+  SightReadingModeSettings,
+  ScaleDegreeModeSettings,
+  DictationModeSettings,
+  RhythmModeSettings,
   GameStats
 } from '../types/game';
 import type { NoteWithOctave } from '../types/music';
@@ -37,6 +44,8 @@ export interface CommonDisplayProps {
   onPlayAgain?: () => void;
   // Callback for submit button click (for chord training modes)
   onSubmitClick?: () => void;
+  // Callback to replay the challenge from one of its notes (for melodic dictation)
+  onReplayFromPosition?: (position: number) => void;
   // Completion controls to render (for chord/note training modes)
   completionControls?: React.ReactNode;
 }
@@ -157,14 +166,14 @@ export interface GameStateWithDisplay extends BaseGameState {
  * Factory function to create game state instances for different training modes.
  *
  * This factory uses the mode registry pattern to dynamically create the appropriate
- * game state based on the selected mode. It supports both Ear Training modes
- * (Rush, Survival, Sandbox) and Note Training modes (Show Chord Guess Notes,
- * Show Notes Guess Chord).
+ * game state based on the selected mode. It supports Ear Training modes
+ * (Rush, Survival, Sandbox, the Ascending/Descending/Harmonic interval modes and Scale Identification)
+ * and Note Training modes (Show Chord Guess Notes, Show Notes Guess Chord).
  *
  * The factory automatically extracts the correct settings for each mode using
  * the mode's registered settingsKey, ensuring type-safe settings propagation.
  *
- * @param mode - The training mode type (from EarTrainingSubMode or NoteTrainingSubMode)
+ * @param mode - The training mode type (from EarTrainingSubMode, NoteTrainingSubMode or IntervalTrainingSubMode or ScaleTrainingSubMode)
  * @param modeSettings - Object containing settings for all available modes
  * @returns A game state instance implementing GameStateWithDisplay interface
  *
@@ -177,7 +186,14 @@ export interface GameStateWithDisplay extends BaseGameState {
  *     rush: rushSettings,
  *     survival: survivalSettings,
  *     sandbox: sandboxSettings,
- *     noteTraining: noteTrainingSettings
+ *     noteTraining: noteTrainingSettings,
+ *     interval: intervalSettings,
+ *     scale: scaleSettings,
+ *     progression: progressionSettings,
+ *     sightReading: sightReadingSettings,
+ *     scaleDegree: scaleDegreeSettings,
+ *     dictation: dictationSettings,
+ *     rhythm: rhythmSettings
  *   }
  * );
  * ```
@@ -192,6 +208,13 @@ export function createGameState(
     survival: SurvivalModeSettings;
     sandbox: SandboxModeSettings;
     noteTraining: NoteTrainingModeSettings;
+    interval: IntervalModeSettings;
+    scale: ScaleModeSettings;
+    progression: ProgressionModeSettings;
+    sightReading: SightReadingModeSettings;
+    scaleDegree: ScaleDegreeModeSettings;
+    dictation: DictationModeSettings;
+    rhythm: RhythmModeSettings;
   }
 ): GameStateWithDisplay {
   const modeMetadata = modeRegistry.get(mode);
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IntervalGameState } from './IntervalGameState';
+import { createGameState } from './GameStateFactory';
+import { modeRegistry } from './ModeRegistry';
+import { INTERVAL_TRAINING_SUB_MODES } from '../constants';
+import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import type { IntervalModeSettings } from '../types/game';
+import type { NoteFilter, Interval } from '../types/music';
+import { IntervalDirection } from '../types/music';
+
+describe('IntervalGameState', () => {
+  const settings: IntervalModeSettings = {
+    enabledIntervals: [7],
+    targetIntervals: 2
+  };
+
+  const noteFilter: NoteFilter = {
+    octaveRange: { min: 4, max: 4 },
+    keyType: 'white'
+  };
+
+  // C4 up to G4 - a perfect 5th
+  const PERFECT_FIFTH: Interval = {
+    firstNote: { note: 'C', octave: 4 },
+    secondNote: { note: 'G', octave: 4 },
+    semitones: 7,
+    direction: IntervalDirection.ASCENDING
+  };
+
+  let gameState: IntervalGameState;
+
+  beforeEach(() => {
+    gameState = new IntervalGameState(settings, IntervalDirection.ASCENDING);
+  });
+
+  describe('generateNote', () => {
+    it('builds an enabled interval and returns its second note', () => {
+      const secondNote = gameState.generateNote(noteFilter);
+      const interval = gameState.currentInterval!;
+
+      expect(interval.semitones).toBe(7);
+      expect(interval.direction).toBe(IntervalDirection.ASCENDING);
+      expect(interval.firstNote.octave).toBe(4);
+      expect(secondNote).toEqual(interval.secondNote);
+    });
+
+    it('places the second note below the first in descending mode', () => {
+      const descending = new IntervalGameState(settings, IntervalDirection.DESCENDING);
+      descending.generateNote(noteFilter);
+      const { firstNote, secondNote } = descending.currentInterval!;
+
+      const pitch = (n: typeof firstNote) => n.octave * 12 + ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].indexOf(n.note);
+      expect(pitch(firstNote) - pitch(secondNote)).toBe(7);
+    });
+
+    it('clears the previous answer and solved flag', () => {
+      gameState.currentInterval = PERFECT_FIFTH;
+      gameState.selectIntervalAnswer(7);
+      gameState.handleCorrectGuess();
+
+      gameState.generateNote(noteFilter);
+
+      expect(gameState.userAnswer).toBeNull();
+      expect(gameState.isRoundSolved).toBe(false);
+    });
+  });
+
+  describe('validateAnswer', () => {
+    beforeEach(() => {
+      gameState.currentInterval = PERFECT_FIFTH;
+    });
+
+    it('accepts the matching interval size', () => {
+      expect(gameState.validateAnswer({ semitones: 7 })).toBe(true);
+      expect(gameState.validateAnswer({ semitones: 5 })).toBe(false);
+    });
+
+    it('accepts the second note in any octave', () => {
+      expect(gameState.validateAnswer({ note: { note: 'G', octave: 4 } })).toBe(true);
+      expect(gameState.validateAnswer({ note: { note: 'G', octave: 6 } })).toBe(true);
+      expect(gameState.validateAnswer({ note: { note: 'F', octave: 4 } })).toBe(false);
+    });
+
+    it('rejects answers when there is no current interval', () => {
+      gameState.currentInterval = null;
+      expect(gameState.validateAnswer({ semitones: 7 })).toBe(false);
+    });
+  });
+
+  describe('scoring', () => {
+    beforeEach(() => {
+      gameState.currentInterval = PERFECT_FIFTH;
+    });
+
+    it('records a correct answer and advances', () => {
+      gameState.selectIntervalAnswer(7);
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.shouldAdvance).toBe(true);
+      expect(result.gameCompleted).toBe(false);
+      expect(result.feedback).toContain('Perfect 5th');
+      expect(gameState.correctCount).toBe(1);
+      expect(gameState.isRoundSolved).toBe(true);
+      expect(gameState.guessHistory).toHaveLength(1);
+      expect(gameState.guessHistory[0]).toMatchObject({ guessedSemitones: 7, isCorrect: true });
+    });
+
+    it('records the interval implied by a wrong played note', () => {
+      gameState.userAnswer = { note: { note: 'F', octave: 4 } };
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.shouldAdvance).toBe(false);
+      expect(result.feedback).toContain('Perfect 5th');
+      expect(gameState.currentStreak).toBe(0);
+      expect(gameState.guessHistory[0]).toMatchObject({ guessedSemitones: 5, isCorrect: false });
+    });
+
+    it('records timeouts with no guessed interval', () => {
+      gameState.handleIncorrectGuess();
+
+      expect(gameState.guessHistory[0].guessedSemitones).toBeNull();
+      expect(gameState.totalAttempts).toBe(1);
+    });
+
+    it('completes when the target is reached', () => {
+      gameState.handleCorrectGuess();
+      gameState.handleIncorrectGuess();
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.gameCompleted).toBe(true);
+      expect(result.stats).toMatchObject({ correctAttempts: 2, totalAttempts: 3 });
+      expect(gameState.isGameComplete()).toBe(true);
+    });
+
+    it('reports per-interval accuracy in session results', () => {
+      gameState.handleIncorrectGuess();
+      const result = gameState.handleCorrectGuess();
+      gameState.handleCorrectGuess();
+
+      const sessionResults = gameState.getSessionResults(result.stats ?? {
+        completionTime: 10,
+        accuracy: 66.7,
+        averageTimePerNote: 5,
+        longestStreak: 2,
+        totalAttempts: 3,
+        correctAttempts: 2
+      });
+
+      expect(sessionResults.direction).toBe(IntervalDirection.ASCENDING);
+      expect(sessionResults.intervalStats['Perfect 5th']).toEqual({
+        attempts: 3,
+        correct: 2,
+        accuracy: (2 / 3) * 100
+      });
+    });
+  });
+
+  describe('mode registration', () => {
+    it.each([
+      [INTERVAL_TRAINING_SUB_MODES.ASCENDING, IntervalDirection.ASCENDING],
+      [INTERVAL_TRAINING_SUB_MODES.DESCENDING, IntervalDirection.DESCENDING],
+      [INTERVAL_TRAINING_SUB_MODES.HARMONIC, IntervalDirection.HARMONIC]
+    ])('registers %s with the interval strategy', (modeId, direction) => {
+      const metadata = modeRegistry.get(modeId);
+      expect(metadata?.strategyType).toBe('interval-training');
+      expect(metadata?.settingsKey).toBe('interval');
+
+      const created = createGameState(modeId, DEFAULT_MODE_SETTINGS) as IntervalGameState;
+      expect(created).toBeInstanceOf(IntervalGameState);
+      expect(created.direction).toBe(direction);
+      expect(created.getMode()).toBe(modeId);
+    });
+  });
+});
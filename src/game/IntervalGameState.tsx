@@ -0,0 +1,454 @@
+import React from 'react';
+import type {
+  BaseGameState,
+  IntervalModeSettings,
+  IntervalGuessAttempt,
+  IntervalSessionResults,
+  GameStats,
+  StatItem,
+  HistoryItem,
+  GameSession
+} from '../types/game';
+import type { CommonDisplayProps, GameActionResult } from './GameStateFactory';
+import type { IGameMode } from './IGameMode';
+import type { NoteWithOctave, NoteFilter, Interval } from '../types/music';
+import { IntervalDirection, ALL_NOTES } from '../types/music';
+import { AudioEngine } from '../utils/audioEngine';
+import { buildInterval } from '../utils/intervalUtils';
+import { INTERVAL_TRAINING_SUB_MODES } from '../constants';
+import { DEFAULT_INTERVAL_SEMITONES, getIntervalName } from '../constants/intervals';
+import IntervalModeDisplay from '../components/modes/IntervalModeDisplay';
+
+/** Maximum attempts at finding an interval that fits inside the playable range */
+const MAX_GENERATION_ATTEMPTS = 50;
+
+const SUB_MODE_BY_DIRECTION: Record<IntervalDirection, string> = {
+  [IntervalDirection.ASCENDING]: INTERVAL_TRAINING_SUB_MODES.ASCENDING,
+  [IntervalDirection.DESCENDING]: INTERVAL_TRAINING_SUB_MODES.DESCENDING,
+  [IntervalDirection.HARMONIC]: INTERVAL_TRAINING_SUB_MODES.HARMONIC
+};
+
+const DIRECTION_LABELS: Record<IntervalDirection, string> = {
+  [IntervalDirection.ASCENDING]: 'Ascending',
+  [IntervalDirection.DESCENDING]: 'Descending',
+  [IntervalDirection.HARMONIC]: 'Harmonic'
+};
+
+/**
+ * An answer to an interval challenge: either the interval size picked by name,
+ * or the second note played on the piano.
+ */
+export interface IntervalAnswer {
+  semitones?: number;
+  note?: NoteWithOctave;
+}
+
+/**
+ * Game state implementation for the interval recognition modes.
+ *
+ * In these modes:
+ * - Two notes are played, one after the other (ascending/descending) or together (harmonic)
+ * - The user names the interval, or plays the second note on the keyboard
+ *   (the upper note for harmonic intervals)
+ * - The session completes once the target number of intervals is identified
+ */
+export class IntervalGameState implements IGameMode {
+  elapsedTime: number = 0;
+  isCompleted: boolean = false;
+  totalAttempts: number = 0;
+  longestStreak: number = 0;
+  currentStreak: number = 0;
+  startTime?: Date;
+
+  // Mode-specific properties
+  correctCount: number = 0;
+  currentInterval: Interval | null = null;
+  userAnswer: IntervalAnswer | null = null;
+  isRoundSolved: boolean = false;
+  guessHistory: IntervalGuessAttempt[] = [];
+  intervalSettings: IntervalModeSettings;
+  direction: IntervalDirection;
+
+  /**
+   * Creates a new IntervalGameState instance.
+   *
+   * @param intervalSettings - Interval selection and session target
+   * @param direction - How each interval is played (ascending, descending or harmonic)
+   */
+  constructor(intervalSettings: IntervalModeSettings, direction: IntervalDirection) {
+    this.intervalSettings = intervalSettings;
+    this.direction = direction;
+  }
+
+  modeDisplay = (props: CommonDisplayProps) => (
+    <IntervalModeDisplay
+      gameState={this}
+      {...props}
+    />
+  );
+
+  /**
+   * Stores an interval name answer to be validated on the next submit.
+   *
+   * @param semitones - Size of the interval the user picked
+   */
+  selectIntervalAnswer = (semitones: number): void => {
+    this.userAnswer = { semitones };
+  };
+
+  /**
+   * Checks an answer against the current interval.
+   * Played notes are compared by note name only, so any octave is accepted.
+   *
+   * @param answer - The user's answer
+   * @returns True if the answer identifies the current interval
+   */
+  validateAnswer = (answer: IntervalAnswer): boolean => {
+    if (!this.currentInterval) return false;
+
+    if (answer.note) {
+      return this.validateGuess(answer.note, this.currentInterval.secondNote);
+    }
+
+    return answer.semitones === this.currentInterval.semitones;
+  };
+
+  handleCorrectGuess = (): GameActionResult => {
+    const newCorrectCount = this.correctCount + 1;
+    const newCurrentStreak = this.currentStreak + 1;
+    const newLongestStreak = Math.max(this.longestStreak, newCurrentStreak);
+    const newTotalAttempts = this.totalAttempts + 1;
+
+    this.recordAttempt(true);
+    this.isRoundSolved = true;
+
+    // Update state
+    this.correctCount = newCorrectCount;
+    this.currentStreak = newCurrentStreak;
+    this.longestStreak = newLongestStreak;
+    this.totalAttempts = newTotalAttempts;
+
+    const intervalName = this.currentInterval ? getIntervalName(this.currentInterval.semitones) : '';
+    const target = this.intervalSettings.targetIntervals;
+
+    if (newCorrectCount >= target) {
+      this.isCompleted = true;
+
+      const finalStats: GameStats = {
+        completionTime: this.elapsedTime,
+        accuracy: (newCorrectCount / newTotalAttempts) * 100,
+        averageTimePerNote: this.elapsedTime / newCorrectCount,
+        longestStreak: newLongestStreak,
+        totalAttempts: newTotalAttempts,
+        correctAttempts: newCorrectCount
+      };
+
+      return {
+        gameCompleted: true,
+        feedback: `🎉 Interval Training Complete! ${newCorrectCount}/${target} intervals`,
+        shouldAdvance: false,
+        stats: finalStats
+      };
+    }
+
+    return {
+      gameCompleted: false,
+      feedback: `Correct! ${intervalName} (${newCorrectCount}/${target})`,
+      shouldAdvance: true
+    };
+  };
+
+  handleIncorrectGuess = (): GameActionResult => {
+    this.recordAttempt(false);
+
+    this.currentStreak = 0;
+    this.totalAttempts = this.totalAttempts + 1;
+
+    const intervalName = this.currentInterval ? getIntervalName(this.currentInterval.semitones) : '';
+
+    return {
+      gameCompleted: false,
+      feedback: intervalName ? `Not quite - it was a ${intervalName}. Try again!` : 'Try again!',
+      shouldAdvance: false
+    };
+  };
+
+  updateState = (updates: Partial<BaseGameState>) => {
+    Object.assign(this, updates);
+  };
+
+  getFeedbackMessage = (currentNote: boolean): string => {
+    if (!currentNote) {
+      return 'Click "Start Practice" to begin your interval training session';
+    }
+
+    const secondNoteHint = this.direction === IntervalDirection.HARMONIC ? 'the upper note' : 'the second note';
+    return `Name the interval or play ${secondNoteHint} (${this.correctCount}/${this.intervalSettings.targetIntervals})`;
+  };
+
+  onStartNewRound = (): void => {
+    if (!this.startTime && !this.isCompleted) {
+      this.startTime = new Date();
+    }
+  };
+
+  getTimerMode = (): 'count-up' | 'count-down' | 'none' => {
+    return 'count-up';
+  };
+
+  getCompletionMessage = (): string => {
+    if (!this.isCompleted) return '';
+    return '🎉 Interval Training Complete! Piano is now in free play mode.';
+  };
+
+  getSessionSettings = (): Record<string, unknown> => {
+    return {
+      direction: this.direction,
+      enabledIntervals: [...this.intervalSettings.enabledIntervals],
+      targetIntervals: this.intervalSettings.targetIntervals
+    };
+  };
+
+  getSessionResults = (stats: GameStats): IntervalSessionResults => {
+    const results: IntervalSessionResults = {
+      intervalsCompleted: stats.correctAttempts,
+      longestStreak: stats.longestStreak,
+      averageTimePerInterval: stats.averageTimePerNote,
+      accuracy: stats.accuracy,
+      direction: this.direction,
+      intervalStats: this.calculateIntervalStats()
+    };
+
+    return results;
+  };
+
+  /**
+   * Calculates accuracy grouped by interval.
+   *
+   * @returns Object mapping interval names to their statistics
+   */
+  private calculateIntervalStats = (): IntervalSessionResults['intervalStats'] => {
+    const stats: IntervalSessionResults['intervalStats'] = {};
+
+    for (const attempt of this.guessHistory) {
+      const name = getIntervalName(attempt.actualInterval.semitones);
+
+      if (!stats[name]) {
+        stats[name] = { attempts: 0, correct: 0, accuracy: 0 };
+      }
+
+      stats[name].attempts++;
+      if (attempt.isCorrect) {
+        stats[name].correct++;
+      }
+    }
+
+    for (const name in stats) {
+      const { attempts, correct } = stats[name];
+      stats[name].accuracy = attempts > 0 ? (correct / attempts) * 100 : 0;
+    }
+
+    return stats;
+  };
+
+  /**
+   * Adds the current answer to the guess history and clears it.
+   * Timeouts and skips are recorded with no guessed interval.
+   */
+  private recordAttempt = (isCorrect: boolean): void => {
+    if (!this.currentInterval) return;
+
+    const answer = this.userAnswer;
+    const guessedSemitones = answer?.note
+      ? this.getPlayedSemitones(answer.note)
+      : answer?.semitones ?? null;
+
+    const attempt: IntervalGuessAttempt = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+      actualInterval: this.currentInterval,
+      guessedSemitones,
+      guessedNote: answer?.note,
+      isCorrect
+    };
+
+    this.guessHistory = [...this.guessHistory, attempt];
+    this.userAnswer = null;
+  };
+
+  /**
+   * Works out which interval a played note implies, relative to the first note.
+   * Note names cannot distinguish a unison from an octave, so a repeated note counts as an octave.
+   */
+  private getPlayedSemitones = (note: NoteWithOctave): number | null => {
+    if (!this.currentInterval) return null;
+
+    const from = ALL_NOTES.indexOf(this.currentInterval.firstNote.note);
+    const to = ALL_NOTES.indexOf(note.note);
+    const distance = this.direction === IntervalDirection.DESCENDING
+      ? (from - to + 12) % 12
+      : (to - from + 12) % 12;
+
+    return distance === 0 ? 12 : distance;
+  };
+
+  // End Screen Strategy Methods
+  getCelebrationEmoji = (): string => {
+    return '🎶';
+  };
+
+  getHeaderTitle = (): string => {
+    return 'Well Done!';
+  };
+
+  getModeCompletionText = (): string => {
+    return `${DIRECTION_LABELS[this.direction]} Intervals Complete`;
+  };
+
+  getPerformanceRating = (gameStats: GameStats): string => {
+    const accuracy = gameStats.accuracy;
+
+    if (accuracy >= 95) return 'Golden Ears! 🌟';
+    if (accuracy >= 85) return 'Excellent Ear! 🎯';
+    if (accuracy >= 75) return 'Great Progress! 🎵';
+    if (accuracy >= 65) return 'Keep Practicing! 📚';
+    return 'Good Effort! 💪';
+  };
+
+  getHeaderThemeClass = (): string => {
+    return 'interval-complete';
+  };
+
+  getStatsItems = (gameStats: GameStats, sessionResults: Record<string, unknown>): StatItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const stats: StatItem[] = [
+      {
+        label: 'Time',
+        value: formatTime(gameStats.completionTime),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Accuracy',
+        value: `${gameStats.accuracy.toFixed(1)}%`,
+        className: gameStats.accuracy >= 85 ? 'stat-success' : gameStats.accuracy >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Longest Streak',
+        value: gameStats.longestStreak.toString(),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Total Intervals',
+        value: `${gameStats.correctAttempts}/${gameStats.totalAttempts}`,
+        className: 'stat-neutral'
+      }
+    ];
+
+    // Highlight the interval that needs the most work
+    const intervalStats = (sessionResults as Partial<IntervalSessionResults>).intervalStats || {};
+    const weakest = Object.entries(intervalStats)
+      .filter(([, stat]) => stat.accuracy < 100)
+      .sort(([, a], [, b]) => a.accuracy - b.accuracy)[0];
+
+    if (weakest) {
+      stats.push({
+        label: 'Needs Work',
+        value: `${weakest[0]} (${weakest[1].accuracy.toFixed(0)}%)`,
+        className: 'stat-warning'
+      });
+    }
+
+    return stats;
+  };
+
+  getAdditionalStatsSection = (): React.ReactNode => {
+    return null;
+  };
+
+  getHistoryTitle = (settings: Record<string, unknown>): string => {
+    const targetIntervals = settings.targetIntervals || this.intervalSettings.targetIntervals;
+    return `Your Recent ${targetIntervals} Interval Sessions`;
+  };
+
+  getHistoryItems = (sessions: GameSession[]): HistoryItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const formatRelativeTime = (timestamp: Date): string => {
+      const now = new Date();
+      const diffMs = now.getTime() - timestamp.getTime();
+      const diffMinutes = Math.floor(diffMs / 60000);
+      const diffHours = Math.floor(diffMinutes / 60);
+      const diffDays = Math.floor(diffHours / 24);
+
+      if (diffMinutes < 1) return 'just now';
+      if (diffMinutes < 60) return `${diffMinutes}m ago`;
+      if (diffHours < 24) return `${diffHours}h ago`;
+      if (diffDays < 7) return `${diffDays}d ago`;
+      return timestamp.toLocaleDateString();
+    };
+
+    return sessions.map(session => ({
+      primaryStat: formatTime(session.completionTime),
+      secondaryStat: `${session.accuracy.toFixed(1)}%`,
+      metadata: formatRelativeTime(session.timestamp),
+      className: 'history-neutral'
+    }));
+  };
+
+  shouldShowHistory = (sessions: GameSession[]): boolean => {
+    return sessions.length > 0;
+  };
+
+  // ========================================
+  // IGameMode Implementation
+  // ========================================
+
+  /**
+   * Generates a new interval whose first note is drawn from the note filter.
+   *
+   * @param filter - Note filter for the interval's first note
+   * @returns The interval's second note (the note a played answer must match)
+   * @throws Error if no enabled interval fits inside the playable range
+   */
+  generateNote = (filter: NoteFilter): NoteWithOctave => {
+    const enabled = this.intervalSettings.enabledIntervals.length > 0
+      ? this.intervalSettings.enabledIntervals
+      : DEFAULT_INTERVAL_SEMITONES;
+
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+      const startNote = AudioEngine.getRandomNoteFromFilter(filter);
+      const semitones = enabled[Math.floor(Math.random() * enabled.length)];
+      const interval = buildInterval(startNote, semitones, this.direction);
+
+      if (interval) {
+        this.currentInterval = interval;
+        this.userAnswer = null;
+        this.isRoundSolved = false;
+        return interval.secondNote;
+      }
+    }
+
+    throw new Error('Unable to generate an interval within the playable range');
+  };
+
+  validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
+    return guess.note === actual.note;
+  };
+
+  isGameComplete = (): boolean => {
+    return this.isCompleted;
+  };
+
+  getMode = (): string => {
+    return SUB_MODE_BY_DIRECTION[this.direction];
+  };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { EAR_TRAINING_SUB_MODES, NOTE_TRAINING_SUB_MODES, TRAINING_MODES } from '../constants';
+import { EAR_TRAINING_SUB_MODES, NOTE_TRAINING_SUB_MODES, INTERVAL_TRAINING_SUB_MODES, SCALE_TRAINING_SUB_MODES, PROGRESSION_TRAINING_SUB_MODES, SCALE_DEGREE_SUB_MODES, MELODIC_DICTATION_SUB_MODES, RHYTHM_SUB_MODES, SIGHT_READING_SUB_MODES, TRAINING_MODES } from '../constants';
 import type { ModeMetadata } from '../types/modeRegistry';
 
 describe('ModeRegistry Validation Tests', () => {
@@ -134,26 +134,39 @@ describe('Mode Registration Integration', () => {
 
     // Verify all modes are registered
     const allModes = modeRegistry.getAll();
-    expect(allModes.length).toBe(5); // Rush, Survival, Sandbox, Chord Training, Chord Identification
+    expect(allModes.length).toBe(16); // Rush, Survival, Sandbox, 3 Interval modes, Scale Identification, Chord Progressions, Scale Degrees, Melodic Dictation, Tap Along, Rhythm Dictation, Chord Training, Chord Identification, Chord Voicing, Sight Reading
 
     // Verify ear training modes exist
     expect(modeRegistry.isRegistered(EAR_TRAINING_SUB_MODES.RUSH)).toBe(true);
     expect(modeRegistry.isRegistered(EAR_TRAINING_SUB_MODES.SURVIVAL)).toBe(true);
     expect(modeRegistry.isRegistered(EAR_TRAINING_SUB_MODES.SANDBOX)).toBe(true);
 
+    // Verify interval training modes exist
+    expect(modeRegistry.isRegistered(INTERVAL_TRAINING_SUB_MODES.ASCENDING)).toBe(true);
+    expect(modeRegistry.isRegistered(INTERVAL_TRAINING_SUB_MODES.DESCENDING)).toBe(true);
+    expect(modeRegistry.isRegistered(INTERVAL_TRAINING_SUB_MODES.HARMONIC)).toBe(true);
+    expect(modeRegistry.isRegistered(SCALE_TRAINING_SUB_MODES.IDENTIFICATION)).toBe(true);
+    expect(modeRegistry.isRegistered(PROGRESSION_TRAINING_SUB_MODES.IDENTIFICATION)).toBe(true);
+    expect(modeRegistry.isRegistered(SCALE_DEGREE_SUB_MODES.IDENTIFICATION)).toBe(true);
+    expect(modeRegistry.isRegistered(MELODIC_DICTATION_SUB_MODES.DICTATION)).toBe(true);
+    expect(modeRegistry.isRegistered(RHYTHM_SUB_MODES.TAP_ALONG)).toBe(true);
+    expect(modeRegistry.isRegistered(RHYTHM_SUB_MODES.DICTATION)).toBe(true);
+
     // Verify note training modes exist
     expect(modeRegistry.isRegistered(NOTE_TRAINING_SUB_MODES.SHOW_CHORD_GUESS_NOTES)).toBe(true);
     expect(modeRegistry.isRegistered(NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD)).toBe(true);
+    expect(modeRegistry.isRegistered(NOTE_TRAINING_SUB_MODES.PLAY_CHORD_VOICING)).toBe(true);
+    expect(modeRegistry.isRegistered(SIGHT_READING_SUB_MODES.SHOW_STAFF_PLAY_NOTES)).toBe(true);
   });
 
   it('should filter modes by type correctly', async () => {
     const { modeRegistry } = await import('./modes');
 
     const earTrainingModes = modeRegistry.getAllByType(TRAINING_MODES.EAR_TRAINING);
-    expect(earTrainingModes.length).toBe(3); // Rush, Survival, Sandbox
+    expect(earTrainingModes.length).toBe(12); // Rush, Survival, Sandbox, 3 Interval modes, Scale Identification, Chord Progressions, Scale Degrees, Melodic Dictation, Tap Along, Rhythm Dictation
 
     const noteTrainingModes = modeRegistry.getAllByType(TRAINING_MODES.NOTE_TRAINING);
-    expect(noteTrainingModes.length).toBe(2); // Chord Training, Chord Identification
+    expect(noteTrainingModes.length).toBe(4); // Chord Training, Chord Identification, Chord Voicing, Sight Reading
   });
 
   it('should create valid game states from registered modes', async () => {
@@ -181,19 +194,19 @@ describe('Mode Registration Integration', () => {
 
     allModes.forEach(mode => {
       expect(mode.strategyType).toBeDefined();
-      expect(['ear-training', 'chord-training']).toContain(mode.strategyType);
+      expect(['ear-training', 'chord-training', 'interval-training', 'scale-training', 'progression-training', 'sight-reading', 'scale-degree', 'melodic-dictation', 'rhythm']).toContain(mode.strategyType);
     });
 
     // Verify ear training modes have correct strategyType
     const earTrainingModes = modeRegistry.getAllByType(TRAINING_MODES.EAR_TRAINING);
     earTrainingModes.forEach(mode => {
-      expect(mode.strategyType).toBe('ear-training');
+      expect(['ear-training', 'interval-training', 'scale-training', 'progression-training', 'scale-degree', 'melodic-dictation', 'rhythm']).toContain(mode.strategyType);
     });
 
     // Verify note training modes have correct strategyType
     const noteTrainingModes = modeRegistry.getAllByType(TRAINING_MODES.NOTE_TRAINING);
     noteTrainingModes.forEach(mode => {
-      expect(mode.strategyType).toBe('chord-training');
+      expect(['chord-training', 'sight-reading']).toContain(mode.strategyType);
     });
   });
 });
@@ -12,6 +12,12 @@ export interface GuessResult {
   shouldAdvance: boolean;
   gameCompleted: boolean;
   stats?: GameStats;
+
+  /**
+   * The input was taken but the answer isn't complete yet, e.g. one note of a
+   * melody. Pending results are not scored: only their feedback is shown.
+   */
+  pending?: boolean;
 }
 
 /**
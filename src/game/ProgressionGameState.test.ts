@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProgressionGameState } from './ProgressionGameState';
+import { createGameState } from './GameStateFactory';
+import { modeRegistry } from './ModeRegistry';
+import { PROGRESSION_TRAINING_SUB_MODES } from '../constants';
+import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import type { ProgressionModeSettings } from '../types/game';
+
+describe('ProgressionGameState', () => {
+  const settings: ProgressionModeSettings = {
+    enabledProgressions: ['ii-v-i'],
+    keyRoots: ['C'],
+    useSeventhChords: false,
+    targetProgressions: 2
+  };
+
+  let gameState: ProgressionGameState;
+
+  const answer = (numerals: string[]) => {
+    numerals.forEach((numeral, index) => gameState.setNumeralAnswer(index, numeral));
+  };
+
+  beforeEach(() => {
+    gameState = new ProgressionGameState(settings);
+    gameState.generateNote();
+  });
+
+  describe('generateNote', () => {
+    it('builds an enabled progression and returns the tonic', () => {
+      const tonic = new ProgressionGameState(settings).generateNote();
+
+      expect(tonic).toEqual({ note: 'C', octave: 3 });
+      expect(gameState.currentProgression?.numerals).toEqual(['ii', 'V', 'I']);
+      expect(gameState.selectedNumerals).toEqual([null, null, null]);
+    });
+
+    it('falls back to the default progressions when none of the enabled ids exist', () => {
+      const fallback = new ProgressionGameState({ ...settings, enabledProgressions: ['missing'] });
+      fallback.generateNote();
+
+      expect(fallback.currentProgression).not.toBeNull();
+    });
+  });
+
+  describe('answers', () => {
+    it('offers the numerals of the current key type', () => {
+      expect(gameState.getAvailableNumerals()).toEqual(['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°']);
+    });
+
+    it('is complete only once every chord has a numeral', () => {
+      answer(['ii', 'V']);
+      expect(gameState.isAnswerComplete()).toBe(false);
+
+      gameState.setNumeralAnswer(2, 'I');
+      expect(gameState.isAnswerComplete()).toBe(true);
+    });
+
+    it('scores each chord position', () => {
+      expect(gameState.validateProgressionAnswer(['ii', 'IV', 'I'])).toEqual([true, false, true]);
+    });
+
+    it('clears answers and position marks', () => {
+      answer(['ii', 'IV', 'I']);
+      gameState.handleIncorrectGuess();
+      gameState.clearNumeralAnswers();
+
+      expect(gameState.selectedNumerals).toEqual([null, null, null]);
+      expect(gameState.lastPositionResults).toBeNull();
+    });
+  });
+
+  describe('scoring', () => {
+    it('reports how many chords were right and keeps the answer for correction', () => {
+      answer(['ii', 'IV', 'I']);
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('2/3 chords correct. Try again!');
+      expect(gameState.lastPositionResults).toEqual([true, false, true]);
+      expect(gameState.selectedNumerals).toEqual(['ii', 'IV', 'I']);
+      expect(gameState.currentStreak).toBe(0);
+    });
+
+    it('reveals the progression when no full answer was given', () => {
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('It was ii–V–I in C major.');
+      expect(gameState.guessHistory[0].guessedNumerals).toBeNull();
+    });
+
+    it('completes the session with per-position results', () => {
+      answer(['vi', 'V', 'I']);
+      gameState.handleIncorrectGuess();
+      answer(['ii', 'V', 'I']);
+      gameState.handleCorrectGuess();
+
+      gameState.generateNote();
+      answer(['ii', 'V', 'I']);
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.gameCompleted).toBe(true);
+      expect(result.stats?.totalAttempts).toBe(3);
+
+      const sessionResults = gameState.getSessionResults(result.stats!);
+      expect(sessionResults.progressionsCompleted).toBe(2);
+      expect(sessionResults.positionStats).toEqual([
+        { attempts: 3, correct: 2, accuracy: (2 / 3) * 100 },
+        { attempts: 3, correct: 3, accuracy: 100 },
+        { attempts: 3, correct: 3, accuracy: 100 }
+      ]);
+      expect(sessionResults.progressionStats['ii-V-I']).toEqual({
+        attempts: 3,
+        correct: 2,
+        accuracy: (2 / 3) * 100
+      });
+    });
+
+    it('points out the weakest chord position on the end screen', () => {
+      answer(['vi', 'V', 'I']);
+      gameState.handleIncorrectGuess();
+      answer(['ii', 'V', 'I']);
+      gameState.handleCorrectGuess();
+      gameState.generateNote();
+      answer(['ii', 'V', 'I']);
+      const result = gameState.handleCorrectGuess();
+
+      const items = gameState.getStatsItems(result.stats!, { ...gameState.getSessionResults(result.stats!) });
+      expect(items.find(item => item.label === 'Needs Work')?.value).toBe('Chord 1 (67%)');
+    });
+  });
+
+  describe('mode registration', () => {
+    it('registers Chord Progressions with the progression strategy', () => {
+      const metadata = modeRegistry.get(PROGRESSION_TRAINING_SUB_MODES.IDENTIFICATION);
+      expect(metadata?.strategyType).toBe('progression-training');
+      expect(metadata?.settingsKey).toBe('progression');
+
+      const created = createGameState(PROGRESSION_TRAINING_SUB_MODES.IDENTIFICATION, DEFAULT_MODE_SETTINGS);
+      expect(created).toBeInstanceOf(ProgressionGameState);
+    });
+  });
+});
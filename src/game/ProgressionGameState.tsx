@@ -0,0 +1,499 @@
+import React from 'react';
+import type {
+  BaseGameState,
+  ProgressionModeSettings,
+  ProgressionGuessAttempt,
+  ProgressionSessionResults,
+  GameStats,
+  StatItem,
+  HistoryItem,
+  GameSession
+} from '../types/game';
+import type { CommonDisplayProps, GameActionResult } from './GameStateFactory';
+import type { IGameMode } from './IGameMode';
+import type { NoteWithOctave, ChordProgression } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { PROGRESSION_TRAINING_SUB_MODES } from '../constants';
+import {
+  DEFAULT_PROGRESSION_IDS,
+  getKeyDegrees,
+  getProgressionDefinition,
+  formatNumerals
+} from '../constants/progressions';
+import type { ProgressionDefinition } from '../constants/progressions';
+import { buildProgression } from '../utils/progressionUtils';
+import ProgressionModeDisplay from '../components/modes/ProgressionModeDisplay';
+
+/**
+ * Game state implementation for Chord Progression mode.
+ *
+ * In this mode:
+ * - A cadence or progression is played chord by chord in a random key
+ * - The user answers with a Roman numeral for every chord
+ * - Each chord position is scored on its own; the round counts as correct
+ *   only when every position is right
+ * - The session completes once the target number of progressions is identified
+ */
+export class ProgressionGameState implements IGameMode {
+  elapsedTime: number = 0;
+  isCompleted: boolean = false;
+  totalAttempts: number = 0;
+  longestStreak: number = 0;
+  currentStreak: number = 0;
+  startTime?: Date;
+
+  // Mode-specific properties
+  correctCount: number = 0;
+  currentProgression: ChordProgression | null = null;
+  selectedNumerals: (string | null)[] = [];
+  lastPositionResults: boolean[] | null = null;
+  isRoundSolved: boolean = false;
+  guessHistory: ProgressionGuessAttempt[] = [];
+  progressionSettings: ProgressionModeSettings;
+
+  /**
+   * Creates a new ProgressionGameState instance.
+   *
+   * @param progressionSettings - Enabled progressions, keys, chord size and session target
+   */
+  constructor(progressionSettings: ProgressionModeSettings) {
+    this.progressionSettings = progressionSettings;
+  }
+
+  modeDisplay = (props: CommonDisplayProps) => (
+    <ProgressionModeDisplay
+      gameState={this}
+      {...props}
+    />
+  );
+
+  /**
+   * Piano keys are free play in this mode; answers are given with the numeral buttons.
+   * Implementing this keeps piano clicks from being submitted as note guesses.
+   */
+  onPianoKeyClick = (): void => {};
+
+  /**
+   * Gets the Roman numerals that can be picked for the current progression's key.
+   *
+   * @returns The diatonic numerals of the current key type, or an empty list before the first round
+   */
+  getAvailableNumerals = (): string[] => {
+    if (!this.currentProgression) return [];
+    return getKeyDegrees(this.currentProgression.keyType).map(degree => degree.numeral);
+  };
+
+  /**
+   * Stores the numeral answer for one chord position.
+   *
+   * @param position - Index of the chord in the progression
+   * @param numeral - Roman numeral picked for that chord
+   */
+  setNumeralAnswer = (position: number, numeral: string): void => {
+    if (position < 0 || position >= this.selectedNumerals.length) return;
+
+    const updated = [...this.selectedNumerals];
+    updated[position] = numeral;
+    this.selectedNumerals = updated;
+  };
+
+  /**
+   * Clears all numeral answers for the current round.
+   */
+  clearNumeralAnswers = (): void => {
+    this.selectedNumerals = this.selectedNumerals.map(() => null);
+    this.lastPositionResults = null;
+  };
+
+  /**
+   * Checks whether every chord position has a numeral.
+   *
+   * @returns True if the answer can be submitted
+   */
+  isAnswerComplete = (): boolean => {
+    return this.selectedNumerals.length > 0 && this.selectedNumerals.every(numeral => numeral !== null);
+  };
+
+  /**
+   * Scores each chord position of an answer against the current progression.
+   *
+   * @param numerals - The answer, one numeral (or null) per chord
+   * @returns Whether each position is correct; empty if there is no current progression
+   */
+  validateProgressionAnswer = (numerals: (string | null)[]): boolean[] => {
+    if (!this.currentProgression) return [];
+    return this.currentProgression.numerals.map((numeral, index) => numerals[index] === numeral);
+  };
+
+  handleCorrectGuess = (): GameActionResult => {
+    const newCorrectCount = this.correctCount + 1;
+    const newCurrentStreak = this.currentStreak + 1;
+    const newLongestStreak = Math.max(this.longestStreak, newCurrentStreak);
+    const newTotalAttempts = this.totalAttempts + 1;
+
+    this.recordAttempt(true);
+    this.isRoundSolved = true;
+
+    // Update state
+    this.correctCount = newCorrectCount;
+    this.currentStreak = newCurrentStreak;
+    this.longestStreak = newLongestStreak;
+    this.totalAttempts = newTotalAttempts;
+
+    const label = this.currentProgression ? formatNumerals(this.currentProgression.numerals) : '';
+    const target = this.progressionSettings.targetProgressions;
+
+    if (newCorrectCount >= target) {
+      this.isCompleted = true;
+
+      const finalStats: GameStats = {
+        completionTime: this.elapsedTime,
+        accuracy: (newCorrectCount / newTotalAttempts) * 100,
+        averageTimePerNote: this.elapsedTime / newCorrectCount,
+        longestStreak: newLongestStreak,
+        totalAttempts: newTotalAttempts,
+        correctAttempts: newCorrectCount
+      };
+
+      return {
+        gameCompleted: true,
+        feedback: `🎉 Chord Progressions Complete! ${newCorrectCount}/${target} progressions`,
+        shouldAdvance: false,
+        stats: finalStats
+      };
+    }
+
+    return {
+      gameCompleted: false,
+      feedback: `Correct! ${label} (${newCorrectCount}/${target})`,
+      shouldAdvance: true
+    };
+  };
+
+  handleIncorrectGuess = (): GameActionResult => {
+    const wasAnswered = this.isAnswerComplete();
+    const positionResults = this.recordAttempt(false);
+
+    this.currentStreak = 0;
+    this.totalAttempts = this.totalAttempts + 1;
+
+    if (!this.currentProgression) {
+      return { gameCompleted: false, feedback: 'Try again!', shouldAdvance: false };
+    }
+
+    // A full answer gets per-chord feedback; a timeout or skip reveals the progression
+    const feedback = wasAnswered
+      ? `${positionResults.filter(Boolean).length}/${positionResults.length} chords correct. Try again!`
+      : `It was ${formatNumerals(this.currentProgression.numerals)} in ${this.currentProgression.key} ${this.currentProgression.keyType}.`;
+
+    return {
+      gameCompleted: false,
+      feedback,
+      shouldAdvance: false
+    };
+  };
+
+  updateState = (updates: Partial<BaseGameState>) => {
+    Object.assign(this, updates);
+  };
+
+  getFeedbackMessage = (currentNote: boolean): string => {
+    if (!currentNote) {
+      return 'Click "Start Practice" to begin your chord progression session';
+    }
+
+    return `Name each chord with a Roman numeral (${this.correctCount}/${this.progressionSettings.targetProgressions})`;
+  };
+
+  onStartNewRound = (): void => {
+    if (!this.startTime && !this.isCompleted) {
+      this.startTime = new Date();
+    }
+  };
+
+  getTimerMode = (): 'count-up' | 'count-down' | 'none' => {
+    return 'count-up';
+  };
+
+  getCompletionMessage = (): string => {
+    if (!this.isCompleted) return '';
+    return '🎉 Chord Progressions Complete! Piano is now in free play mode.';
+  };
+
+  getSessionSettings = (): Record<string, unknown> => {
+    return {
+      enabledProgressions: [...this.progressionSettings.enabledProgressions],
+      keyRoots: this.progressionSettings.keyRoots ? [...this.progressionSettings.keyRoots] : null,
+      useSeventhChords: this.progressionSettings.useSeventhChords,
+      targetProgressions: this.progressionSettings.targetProgressions
+    };
+  };
+
+  getSessionResults = (stats: GameStats): ProgressionSessionResults => {
+    const results: ProgressionSessionResults = {
+      progressionsCompleted: stats.correctAttempts,
+      longestStreak: stats.longestStreak,
+      averageTimePerProgression: stats.averageTimePerNote,
+      accuracy: stats.accuracy,
+      positionStats: this.calculatePositionStats(),
+      progressionStats: this.calculateProgressionStats()
+    };
+
+    return results;
+  };
+
+  /**
+   * Calculates accuracy for each chord position across all attempts.
+   * Progressions of different lengths contribute to the positions they have.
+   *
+   * @returns Statistics indexed by chord position
+   */
+  private calculatePositionStats = (): ProgressionSessionResults['positionStats'] => {
+    const stats: ProgressionSessionResults['positionStats'] = [];
+
+    for (const attempt of this.guessHistory) {
+      attempt.positionResults.forEach((isCorrect, index) => {
+        if (!stats[index]) {
+          stats[index] = { attempts: 0, correct: 0, accuracy: 0 };
+        }
+
+        stats[index].attempts++;
+        if (isCorrect) {
+          stats[index].correct++;
+        }
+      });
+    }
+
+    for (const stat of stats) {
+      stat.accuracy = stat.attempts > 0 ? (stat.correct / stat.attempts) * 100 : 0;
+    }
+
+    return stats;
+  };
+
+  /**
+   * Calculates accuracy grouped by progression.
+   *
+   * @returns Object mapping progression names to their statistics
+   */
+  private calculateProgressionStats = (): ProgressionSessionResults['progressionStats'] => {
+    const stats: ProgressionSessionResults['progressionStats'] = {};
+
+    for (const attempt of this.guessHistory) {
+      const name = attempt.actualProgression.name;
+
+      if (!stats[name]) {
+        stats[name] = { attempts: 0, correct: 0, accuracy: 0 };
+      }
+
+      stats[name].attempts++;
+      if (attempt.isCorrect) {
+        stats[name].correct++;
+      }
+    }
+
+    for (const name in stats) {
+      const { attempts, correct } = stats[name];
+      stats[name].accuracy = attempts > 0 ? (correct / attempts) * 100 : 0;
+    }
+
+    return stats;
+  };
+
+  /**
+   * Adds the current answer to the guess history.
+   * Answers are kept after a wrong attempt so only the wrong chords need changing.
+   *
+   * @returns Whether each chord position was answered correctly
+   */
+  private recordAttempt = (isCorrect: boolean): boolean[] => {
+    if (!this.currentProgression) return [];
+
+    const hasAnswer = this.selectedNumerals.some(numeral => numeral !== null);
+    const positionResults = this.validateProgressionAnswer(this.selectedNumerals);
+
+    const attempt: ProgressionGuessAttempt = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+      actualProgression: this.currentProgression,
+      guessedNumerals: hasAnswer ? [...this.selectedNumerals] : null,
+      positionResults,
+      isCorrect
+    };
+
+    this.guessHistory = [...this.guessHistory, attempt];
+    this.lastPositionResults = positionResults;
+
+    return positionResults;
+  };
+
+  /**
+   * Picks a random enabled progression, falling back to the defaults if none are valid.
+   */
+  private pickProgressionDefinition = (): ProgressionDefinition => {
+    const enabled = this.progressionSettings.enabledProgressions
+      .map(getProgressionDefinition)
+      .filter((definition): definition is ProgressionDefinition => definition !== undefined);
+
+    const pool = enabled.length > 0
+      ? enabled
+      : DEFAULT_PROGRESSION_IDS.map(id => getProgressionDefinition(id)!);
+
+    return pool[Math.floor(Math.random() * pool.length)];
+  };
+
+  // End Screen Strategy Methods
+  getCelebrationEmoji = (): string => {
+    return '🎼';
+  };
+
+  getHeaderTitle = (): string => {
+    return 'Well Done!';
+  };
+
+  getModeCompletionText = (): string => {
+    return 'Chord Progressions Complete';
+  };
+
+  getPerformanceRating = (gameStats: GameStats): string => {
+    const accuracy = gameStats.accuracy;
+
+    if (accuracy >= 95) return 'Golden Ears! 🌟';
+    if (accuracy >= 85) return 'Excellent Ear! 🎯';
+    if (accuracy >= 75) return 'Great Progress! 🎵';
+    if (accuracy >= 65) return 'Keep Practicing! 📚';
+    return 'Good Effort! 💪';
+  };
+
+  getHeaderThemeClass = (): string => {
+    return 'progression-complete';
+  };
+
+  getStatsItems = (gameStats: GameStats, sessionResults: Record<string, unknown>): StatItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const stats: StatItem[] = [
+      {
+        label: 'Time',
+        value: formatTime(gameStats.completionTime),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Accuracy',
+        value: `${gameStats.accuracy.toFixed(1)}%`,
+        className: gameStats.accuracy >= 85 ? 'stat-success' : gameStats.accuracy >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Longest Streak',
+        value: gameStats.longestStreak.toString(),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Total Progressions',
+        value: `${gameStats.correctAttempts}/${gameStats.totalAttempts}`,
+        className: 'stat-neutral'
+      }
+    ];
+
+    // Highlight the chord position that needs the most work
+    const positionStats = (sessionResults as Partial<ProgressionSessionResults>).positionStats || [];
+    const weakestIndex = positionStats.reduce<number>((weakest, stat, index) => {
+      if (stat.accuracy >= 100) return weakest;
+      if (weakest === -1 || stat.accuracy < positionStats[weakest].accuracy) return index;
+      return weakest;
+    }, -1);
+
+    if (weakestIndex !== -1) {
+      stats.push({
+        label: 'Needs Work',
+        value: `Chord ${weakestIndex + 1} (${positionStats[weakestIndex].accuracy.toFixed(0)}%)`,
+        className: 'stat-warning'
+      });
+    }
+
+    return stats;
+  };
+
+  getAdditionalStatsSection = (): React.ReactNode => {
+    return null;
+  };
+
+  getHistoryTitle = (settings: Record<string, unknown>): string => {
+    const targetProgressions = settings.targetProgressions || this.progressionSettings.targetProgressions;
+    return `Your Recent ${targetProgressions} Progression Sessions`;
+  };
+
+  getHistoryItems = (sessions: GameSession[]): HistoryItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const formatRelativeTime = (timestamp: Date): string => {
+      const now = new Date();
+      const diffMs = now.getTime() - timestamp.getTime();
+      const diffMinutes = Math.floor(diffMs / 60000);
+      const diffHours = Math.floor(diffMinutes / 60);
+      const diffDays = Math.floor(diffHours / 24);
+
+      if (diffMinutes < 1) return 'just now';
+      if (diffMinutes < 60) return `${diffMinutes}m ago`;
+      if (diffHours < 24) return `${diffHours}h ago`;
+      if (diffDays < 7) return `${diffDays}d ago`;
+      return timestamp.toLocaleDateString();
+    };
+
+    return sessions.map(session => ({
+      primaryStat: formatTime(session.completionTime),
+      secondaryStat: `${session.accuracy.toFixed(1)}%`,
+      metadata: formatRelativeTime(session.timestamp),
+      className: 'history-neutral'
+    }));
+  };
+
+  shouldShowHistory = (sessions: GameSession[]): boolean => {
+    return sessions.length > 0;
+  };
+
+  // ========================================
+  // IGameMode Implementation
+  // ========================================
+
+  /**
+   * Generates a new progression from the enabled progressions and keys.
+   * The note filter is not used; progressions are voiced around octave 3.
+   *
+   * @returns The tonic of the key, so timeouts can point the user to it
+   */
+  generateNote = (): NoteWithOctave => {
+    const definition = this.pickProgressionDefinition();
+    const keyRoots = this.progressionSettings.keyRoots && this.progressionSettings.keyRoots.length > 0
+      ? this.progressionSettings.keyRoots
+      : ALL_NOTES;
+    const key = keyRoots[Math.floor(Math.random() * keyRoots.length)];
+
+    this.currentProgression = buildProgression(definition, key, this.progressionSettings.useSeventhChords);
+    this.selectedNumerals = definition.numerals.map(() => null);
+    this.lastPositionResults = null;
+    this.isRoundSolved = false;
+
+    return { note: key, octave: 3 };
+  };
+
+  validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
+    return guess.note === actual.note;
+  };
+
+  isGameComplete = (): boolean => {
+    return this.isCompleted;
+  };
+
+  getMode = (): string => {
+    return PROGRESSION_TRAINING_SUB_MODES.IDENTIFICATION;
+  };
+}
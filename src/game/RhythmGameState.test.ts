@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RhythmGameState } from './RhythmGameState';
+import { createGameState } from './GameStateFactory';
+import { modeRegistry } from './ModeRegistry';
+import { RHYTHM_SUB_MODES } from '../constants';
+import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import type { RhythmModeSettings } from '../types/game';
+import type { RhythmEvent, RhythmPattern } from '../types/music';
+
+describe('RhythmGameState', () => {
+  const settings: RhythmModeSettings = {
+    meter: '2/4',
+    measures: 1,
+    tempo: 120,
+    durations: ['4n', '8n'],
+    includeRests: false,
+    tolerance: 100,
+    countIn: true,
+    targetPatterns: 2
+  };
+
+  const quarter: RhythmEvent = { duration: '4n', isRest: false };
+  const eighth: RhythmEvent = { duration: '8n', isRest: false };
+
+  // ♩ ♪ ♪ at 120 bpm: notes at 0, 500 and 750ms
+  const pattern: RhythmPattern = { meter: '2/4', events: [quarter, eighth, eighth] };
+
+  const tap = (gameState: RhythmGameState, times: number[]) => {
+    times.forEach(time => gameState.addTap(time));
+  };
+
+  describe('generateNote', () => {
+    it('builds a pattern in the meter and returns the pitch it is played on', () => {
+      const gameState = new RhythmGameState(settings, 'tap');
+      const pitch = gameState.generateNote();
+
+      expect(pitch).toEqual({ note: 'C', octave: 5 });
+      expect(gameState.currentPattern?.meter).toBe('2/4');
+    });
+
+    it('keeps patterns between 1 and 4 measures', () => {
+      const gameState = new RhythmGameState({ ...settings, measures: 9, durations: ['2n'] }, 'tap');
+      gameState.generateNote();
+
+      expect(gameState.currentPattern?.events).toHaveLength(4);
+    });
+  });
+
+  describe('Tap Along', () => {
+    let gameState: RhythmGameState;
+
+    beforeEach(() => {
+      gameState = new RhythmGameState(settings, 'tap');
+      gameState.generateNote();
+      gameState.currentPattern = pattern;
+    });
+
+    it('is complete once every note is tapped', () => {
+      expect(gameState.addTap(1000)).toBe('partial');
+      expect(gameState.addTap(1500)).toBe('partial');
+      expect(gameState.addTap(1750)).toBe('complete');
+    });
+
+    it('gives partial credit and points out rushing', () => {
+      tap(gameState, [1000, 1350, 1600]);
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('1/3 notes on time (33%), rushing by 100ms. Try again!');
+      expect(gameState.lastAnswer?.eventResults).toEqual(['correct', 'early', 'early']);
+      expect(gameState.guessHistory[0].taps).toEqual([0, 350, 600]);
+    });
+
+    it('starts a new answer when tapping after a scored attempt', () => {
+      tap(gameState, [1000, 1350, 1600]);
+      gameState.handleIncorrectGuess();
+      gameState.addTap(5000);
+
+      expect(gameState.taps).toEqual([5000]);
+      expect(gameState.lastAnswer).toBeNull();
+    });
+
+    it('reveals the pattern when nothing was tapped', () => {
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('It was ♩ ♪ ♪.');
+      expect(gameState.guessHistory[0].taps).toBeNull();
+      expect(gameState.guessHistory[0].eventResults).toEqual(['missed', 'missed', 'missed']);
+    });
+
+    it('stores per-pattern results and timing for the session', () => {
+      tap(gameState, [1000, 1620, 1800]);
+      gameState.handleIncorrectGuess();
+      tap(gameState, [1000, 1500, 1750]);
+      gameState.handleCorrectGuess();
+
+      gameState.generateNote();
+      gameState.currentPattern = { meter: '2/4', events: [quarter, quarter] };
+      tap(gameState, [0, 500]);
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.gameCompleted).toBe(true);
+
+      const sessionResults = gameState.getSessionResults(result.stats!);
+      expect(sessionResults.answerMethod).toBe('tap');
+      expect(sessionResults.patternsCompleted).toBe(2);
+      expect(sessionResults.resultCounts).toEqual({ correct: 7, early: 0, late: 1, wrong: 0, missed: 0 });
+      expect(sessionResults.averageOffset).toBeCloseTo(170 / 9);
+      expect(sessionResults.patternResults).toEqual([
+        { meter: '2/4', rhythm: '♩ ♪ ♪', attempts: 2, bestScore: 100, solved: true },
+        { meter: '2/4', rhythm: '♩ ♩', attempts: 1, bestScore: 100, solved: true }
+      ]);
+
+      const items = gameState.getStatsItems(result.stats!, { ...sessionResults });
+      expect(items.find(item => item.label === 'Timing')?.value).toBe('19ms late');
+    });
+  });
+
+  describe('Rhythm Dictation', () => {
+    let gameState: RhythmGameState;
+
+    beforeEach(() => {
+      gameState = new RhythmGameState(settings, 'notate');
+      gameState.generateNote();
+      gameState.currentPattern = pattern;
+    });
+
+    it('is complete once the notated values fill the pattern', () => {
+      expect(gameState.addNotatedEvent(quarter)).toBe('partial');
+      expect(gameState.addNotatedEvent(quarter)).toBe('complete');
+    });
+
+    it('undoes the last value', () => {
+      gameState.addNotatedEvent(quarter);
+      gameState.addNotatedEvent(eighth);
+      gameState.removeLastNotatedEvent();
+
+      expect(gameState.notatedEvents).toEqual([quarter]);
+    });
+
+    it('scores notated values by where they start', () => {
+      gameState.addNotatedEvent(quarter);
+      gameState.addNotatedEvent(quarter);
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('1/3 note values correct (33%). Try again!');
+      expect(gameState.lastAnswer?.eventResults).toEqual(['correct', 'wrong', 'missed']);
+      expect(gameState.guessHistory[0].meanOffset).toBeNull();
+    });
+
+    it('reports the mode it was created for', () => {
+      expect(gameState.getMode()).toBe(RHYTHM_SUB_MODES.DICTATION);
+      expect(new RhythmGameState(settings, 'tap').getMode()).toBe(RHYTHM_SUB_MODES.TAP_ALONG);
+    });
+  });
+
+  describe('mode registration', () => {
+    it('registers Tap Along and Rhythm Dictation with the rhythm strategy', () => {
+      for (const mode of [RHYTHM_SUB_MODES.TAP_ALONG, RHYTHM_SUB_MODES.DICTATION]) {
+        const metadata = modeRegistry.get(mode);
+        expect(metadata?.strategyType).toBe('rhythm');
+        expect(metadata?.settingsKey).toBe('rhythm');
+      }
+
+      const created = createGameState(RHYTHM_SUB_MODES.DICTATION, DEFAULT_MODE_SETTINGS);
+      expect(created).toBeInstanceOf(RhythmGameState);
+      expect((created as unknown as RhythmGameState).answerMethod).toBe('notate');
+    });
+  });
+});
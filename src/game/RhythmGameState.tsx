@@ -0,0 +1,564 @@
+import React from 'react';
+import type {
+  BaseGameState,
+  RhythmModeSettings,
+  RhythmAnswerMethod,
+  RhythmEventResult,
+  RhythmGuessAttempt,
+  RhythmSessionResults,
+  GameStats,
+  StatItem,
+  HistoryItem,
+  GameSession
+} from '../types/game';
+import type { CommonDisplayProps, GameActionResult } from './GameStateFactory';
+import type { IGameMode } from './IGameMode';
+import type { NoteWithOctave, RhythmEvent, RhythmPattern } from '../types/music';
+import { RHYTHM_SUB_MODES } from '../constants';
+import {
+  MIN_RHYTHM_MEASURES,
+  MAX_RHYTHM_MEASURES,
+  RHYTHM_PITCH,
+  analyzeRhythmTaps,
+  compareNotatedRhythm,
+  formatRhythm,
+  generateRhythmPattern,
+  getRhythmBeats
+} from '../utils/rhythm';
+import RhythmModeDisplay from '../components/modes/RhythmModeDisplay';
+
+/**
+ * Result of adding a tap or note value to the answer:
+ * - 'partial': the answer doesn't cover the pattern yet
+ * - 'complete': every note has been tapped, or the notated values fill the pattern, and it can be scored
+ */
+export type RhythmEntryStatus = 'partial' | 'complete';
+
+/**
+ * A scored answer, tapped or notated
+ */
+export interface RhythmAnswerScore {
+  /** Per note when tapped, per note or rest when notated */
+  eventResults: RhythmEventResult[];
+  /** Milliseconds each note's tap was off by, null for missed notes (tapped answers only) */
+  offsets: (number | null)[] | null;
+  /** Taps or notated values that line up with nothing in the pattern */
+  extraEvents: number;
+  /** Average tap offset in milliseconds, negative when rushing */
+  meanOffset: number | null;
+  /** Partial credit, 0-100 */
+  score: number;
+}
+
+/**
+ * Game state implementation for the rhythm modes.
+ *
+ * In these modes:
+ * - A rhythm pattern is generated in a meter and played on one pitch over a click
+ * - Tap Along: the user taps it back with a key, the mouse or a MIDI note, and
+ *   every tap is timed against the pattern within a tolerance window
+ * - Rhythm Dictation: the user notates it by picking note and rest values
+ * - Every attempt earns partial credit; the round counts as correct only when
+ *   every note is right
+ * - The session completes once the target number of patterns is answered
+ */
+export class RhythmGameState implements IGameMode {
+  elapsedTime: number = 0;
+  isCompleted: boolean = false;
+  totalAttempts: number = 0;
+  longestStreak: number = 0;
+  currentStreak: number = 0;
+  startTime?: Date;
+
+  // Mode-specific properties
+  correctCount: number = 0;
+  currentPattern: RhythmPattern | null = null;
+  taps: number[] = [];
+  notatedEvents: RhythmEvent[] = [];
+  lastAnswer: RhythmAnswerScore | null = null;
+  isRoundSolved: boolean = false;
+  guessHistory: RhythmGuessAttempt[] = [];
+  rhythmSettings: RhythmModeSettings;
+  answerMethod: RhythmAnswerMethod;
+
+  /**
+   * Creates a new RhythmGameState instance.
+   *
+   * @param rhythmSettings - Meter, tempo, note values, timing tolerance and session target
+   * @param answerMethod - Whether patterns are tapped back or notated
+   */
+  constructor(rhythmSettings: RhythmModeSettings, answerMethod: RhythmAnswerMethod) {
+    this.rhythmSettings = rhythmSettings;
+    this.answerMethod = answerMethod;
+  }
+
+  modeDisplay = (props: CommonDisplayProps) => (
+    <RhythmModeDisplay
+      gameState={this}
+      {...props}
+    />
+  );
+
+  /**
+   * Records a tap.
+   * Tapping after a scored attempt starts a new answer.
+   *
+   * @param timestamp - Time of the tap in milliseconds (performance.now() or a MIDI timestamp)
+   * @returns Whether every note of the pattern has been tapped
+   */
+  addTap = (timestamp: number): RhythmEntryStatus => {
+    if (this.lastAnswer) {
+      this.clearAnswer();
+    }
+
+    this.taps = [...this.taps, timestamp];
+
+    const notes = this.currentPattern?.events.filter(event => !event.isRest).length ?? 0;
+    return this.taps.length >= notes ? 'complete' : 'partial';
+  };
+
+  /**
+   * Adds a note or rest value to the notated answer.
+   * Notating after a scored attempt starts a new answer.
+   *
+   * @param event - The value picked
+   * @returns Whether the notated values fill the pattern
+   */
+  addNotatedEvent = (event: RhythmEvent): RhythmEntryStatus => {
+    if (this.lastAnswer) {
+      this.clearAnswer();
+    }
+
+    this.notatedEvents = [...this.notatedEvents, event];
+
+    const beats = this.currentPattern ? getRhythmBeats(this.currentPattern.events) : 0;
+    return getRhythmBeats(this.notatedEvents) >= beats ? 'complete' : 'partial';
+  };
+
+  /**
+   * Removes the last notated value.
+   */
+  removeLastNotatedEvent = (): void => {
+    this.notatedEvents = this.notatedEvents.slice(0, -1);
+    this.lastAnswer = null;
+  };
+
+  /**
+   * Clears the answer and its marks.
+   */
+  clearAnswer = (): void => {
+    this.taps = [];
+    this.notatedEvents = [];
+    this.lastAnswer = null;
+  };
+
+  /**
+   * Number of taps or notated values in the current answer.
+   */
+  getAnswerLength = (): number => {
+    return this.answerMethod === 'tap' ? this.taps.length : this.notatedEvents.length;
+  };
+
+  /**
+   * Scores the current answer against the current pattern.
+   *
+   * @returns Per-note results and partial credit, or null if there is no current pattern
+   */
+  scoreAnswer = (): RhythmAnswerScore | null => {
+    if (!this.currentPattern) return null;
+
+    if (this.answerMethod === 'tap') {
+      const analysis = analyzeRhythmTaps(this.currentPattern, this.rhythmSettings.tempo, this.taps, this.rhythmSettings.tolerance);
+      return {
+        eventResults: analysis.onsets.map(onset => onset.result),
+        offsets: analysis.onsets.map(onset => onset.offset),
+        extraEvents: analysis.extraTaps,
+        meanOffset: analysis.meanOffset,
+        score: analysis.score
+      };
+    }
+
+    const comparison = compareNotatedRhythm(this.currentPattern.events, this.notatedEvents);
+    return {
+      eventResults: comparison.eventResults,
+      offsets: null,
+      extraEvents: comparison.extraEvents,
+      meanOffset: null,
+      score: comparison.score
+    };
+  };
+
+  handleCorrectGuess = (): GameActionResult => {
+    const newCorrectCount = this.correctCount + 1;
+    const newCurrentStreak = this.currentStreak + 1;
+    const newLongestStreak = Math.max(this.longestStreak, newCurrentStreak);
+    const newTotalAttempts = this.totalAttempts + 1;
+
+    this.recordAttempt(true);
+    this.isRoundSolved = true;
+
+    // Update state
+    this.correctCount = newCorrectCount;
+    this.currentStreak = newCurrentStreak;
+    this.longestStreak = newLongestStreak;
+    this.totalAttempts = newTotalAttempts;
+
+    const target = this.rhythmSettings.targetPatterns;
+
+    if (newCorrectCount >= target) {
+      this.isCompleted = true;
+
+      const finalStats: GameStats = {
+        completionTime: this.elapsedTime,
+        accuracy: (newCorrectCount / newTotalAttempts) * 100,
+        averageTimePerNote: this.elapsedTime / newCorrectCount,
+        longestStreak: newLongestStreak,
+        totalAttempts: newTotalAttempts,
+        correctAttempts: newCorrectCount
+      };
+
+      return {
+        gameCompleted: true,
+        feedback: `🎉 ${this.getModeTitle()} Complete! ${newCorrectCount}/${target} patterns`,
+        shouldAdvance: false,
+        stats: finalStats
+      };
+    }
+
+    const praise = this.answerMethod === 'tap' ? 'Right in time' : 'Every note value right';
+    return {
+      gameCompleted: false,
+      feedback: `Correct! ${praise} (${newCorrectCount}/${target})`,
+      shouldAdvance: true
+    };
+  };
+
+  handleIncorrectGuess = (): GameActionResult => {
+    const wasAnswered = this.getAnswerLength() > 0;
+    const answer = this.recordAttempt(false);
+
+    this.currentStreak = 0;
+    this.totalAttempts = this.totalAttempts + 1;
+
+    if (!this.currentPattern || !answer) {
+      return { gameCompleted: false, feedback: 'Try again!', shouldAdvance: false };
+    }
+
+    // A timeout or skip reveals the pattern
+    if (!wasAnswered) {
+      return {
+        gameCompleted: false,
+        feedback: `It was ${formatRhythm(this.currentPattern)}.`,
+        shouldAdvance: false
+      };
+    }
+
+    const correct = answer.eventResults.filter(result => result === 'correct').length;
+    const feedback = this.answerMethod === 'tap'
+      ? `${correct}/${answer.eventResults.length} notes on time (${answer.score.toFixed(0)}%)${this.describeTiming(answer.meanOffset)}. Try again!`
+      : `${correct}/${answer.eventResults.length} note values correct (${answer.score.toFixed(0)}%). Try again!`;
+
+    return {
+      gameCompleted: false,
+      feedback,
+      shouldAdvance: false
+    };
+  };
+
+  updateState = (updates: Partial<BaseGameState>) => {
+    Object.assign(this, updates);
+  };
+
+  getFeedbackMessage = (currentNote: boolean): string => {
+    if (!currentNote) {
+      return 'Click "Start Practice" to begin your rhythm session';
+    }
+
+    const instruction = this.answerMethod === 'tap'
+      ? 'Tap the rhythm back'
+      : 'Notate the rhythm';
+    return `${instruction} (${this.correctCount}/${this.rhythmSettings.targetPatterns})`;
+  };
+
+  onStartNewRound = (): void => {
+    if (!this.startTime && !this.isCompleted) {
+      this.startTime = new Date();
+    }
+  };
+
+  getTimerMode = (): 'count-up' | 'count-down' | 'none' => {
+    return 'count-up';
+  };
+
+  getCompletionMessage = (): string => {
+    if (!this.isCompleted) return '';
+    return `🎉 ${this.getModeTitle()} Complete! Piano is now in free play mode.`;
+  };
+
+  getSessionSettings = (): Record<string, unknown> => {
+    return {
+      answerMethod: this.answerMethod,
+      meter: this.rhythmSettings.meter,
+      measures: this.rhythmSettings.measures,
+      tempo: this.rhythmSettings.tempo,
+      durations: [...this.rhythmSettings.durations],
+      includeRests: this.rhythmSettings.includeRests,
+      tolerance: this.rhythmSettings.tolerance,
+      countIn: this.rhythmSettings.countIn,
+      targetPatterns: this.rhythmSettings.targetPatterns
+    };
+  };
+
+  getSessionResults = (stats: GameStats): RhythmSessionResults => {
+    const scores = this.guessHistory.map(attempt => attempt.score);
+    const offsets = this.guessHistory.flatMap(attempt => (attempt.meanOffset === null ? [] : [attempt.meanOffset]));
+
+    const resultCounts: Record<RhythmEventResult, number> = { correct: 0, early: 0, late: 0, wrong: 0, missed: 0 };
+    for (const attempt of this.guessHistory) {
+      attempt.eventResults.forEach(result => {
+        resultCounts[result]++;
+      });
+    }
+
+    const results: RhythmSessionResults = {
+      patternsCompleted: stats.correctAttempts,
+      longestStreak: stats.longestStreak,
+      averageTimePerPattern: stats.averageTimePerNote,
+      accuracy: stats.accuracy,
+      answerMethod: this.answerMethod,
+      averageScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0,
+      averageOffset: offsets.length > 0 ? offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length : null,
+      resultCounts,
+      patternResults: this.calculatePatternResults()
+    };
+
+    return results;
+  };
+
+  /**
+   * Summarises the attempts at each pattern, in the order the patterns were asked.
+   *
+   * @returns One entry per pattern
+   */
+  private calculatePatternResults = (): RhythmSessionResults['patternResults'] => {
+    const results = new Map<RhythmPattern, RhythmSessionResults['patternResults'][number]>();
+
+    for (const attempt of this.guessHistory) {
+      const pattern = attempt.actualPattern;
+      const result = results.get(pattern) ?? {
+        meter: pattern.meter,
+        rhythm: formatRhythm(pattern),
+        attempts: 0,
+        bestScore: 0,
+        solved: false
+      };
+
+      result.attempts++;
+      result.bestScore = Math.max(result.bestScore, attempt.score);
+      result.solved = result.solved || attempt.isCorrect;
+      results.set(pattern, result);
+    }
+
+    return [...results.values()];
+  };
+
+  /**
+   * Adds the current answer to the guess history.
+   * The answer is kept after a wrong attempt so its marks can be shown.
+   *
+   * @returns The scored answer, or null if there is no current pattern
+   */
+  private recordAttempt = (isCorrect: boolean): RhythmAnswerScore | null => {
+    const answer = this.scoreAnswer();
+    if (!this.currentPattern || !answer) return null;
+
+    const isTapped = this.answerMethod === 'tap' && this.taps.length > 0;
+    const isNotated = this.answerMethod === 'notate' && this.notatedEvents.length > 0;
+
+    const attempt: RhythmGuessAttempt = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+      actualPattern: this.currentPattern,
+      answerMethod: this.answerMethod,
+      taps: isTapped ? this.taps.map(tap => tap - this.taps[0]) : null,
+      notatedEvents: isNotated ? [...this.notatedEvents] : null,
+      eventResults: answer.eventResults,
+      extraEvents: answer.extraEvents,
+      meanOffset: answer.meanOffset,
+      score: answer.score,
+      isCorrect
+    };
+
+    this.guessHistory = [...this.guessHistory, attempt];
+    this.lastAnswer = answer;
+
+    return answer;
+  };
+
+  /**
+   * Describes a consistent lean ahead of or behind the beat, if there is one.
+   */
+  private describeTiming = (meanOffset: number | null): string => {
+    if (meanOffset === null || Math.abs(meanOffset) <= this.rhythmSettings.tolerance / 2) return '';
+    return `, ${meanOffset < 0 ? 'rushing' : 'dragging'} by ${Math.round(Math.abs(meanOffset))}ms`;
+  };
+
+  private getModeTitle = (): string => {
+    return this.answerMethod === 'tap' ? 'Tap Along' : 'Rhythm Dictation';
+  };
+
+  // End Screen Strategy Methods
+  getCelebrationEmoji = (): string => {
+    return '🥁';
+  };
+
+  getHeaderTitle = (): string => {
+    return 'Well Done!';
+  };
+
+  getModeCompletionText = (): string => {
+    return `${this.getModeTitle()} Complete`;
+  };
+
+  getPerformanceRating = (gameStats: GameStats): string => {
+    const accuracy = gameStats.accuracy;
+
+    if (accuracy >= 95) return 'Rock Steady! 🌟';
+    if (accuracy >= 85) return 'Excellent Time! 🎯';
+    if (accuracy >= 75) return 'Great Progress! 🎵';
+    if (accuracy >= 65) return 'Keep Practicing! 📚';
+    return 'Good Effort! 💪';
+  };
+
+  getHeaderThemeClass = (): string => {
+    return 'rhythm-complete';
+  };
+
+  getStatsItems = (gameStats: GameStats, sessionResults: Record<string, unknown>): StatItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const results = sessionResults as Partial<RhythmSessionResults>;
+    const averageScore = results.averageScore ?? 0;
+
+    const stats: StatItem[] = [
+      {
+        label: 'Time',
+        value: formatTime(gameStats.completionTime),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Accuracy',
+        value: `${gameStats.accuracy.toFixed(1)}%`,
+        className: gameStats.accuracy >= 85 ? 'stat-success' : gameStats.accuracy >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Rhythm Score',
+        value: `${averageScore.toFixed(1)}%`,
+        className: averageScore >= 85 ? 'stat-success' : averageScore >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Longest Streak',
+        value: gameStats.longestStreak.toString(),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Total Patterns',
+        value: `${gameStats.correctAttempts}/${gameStats.totalAttempts}`,
+        className: 'stat-neutral'
+      }
+    ];
+
+    // Show whether taps leaned ahead of or behind the beat
+    const averageOffset = results.averageOffset;
+    if (averageOffset !== undefined && averageOffset !== null) {
+      const rounded = Math.round(averageOffset);
+      stats.push({
+        label: 'Timing',
+        value: rounded === 0 ? 'On the beat' : `${Math.abs(rounded)}ms ${rounded < 0 ? 'early' : 'late'}`,
+        className: Math.abs(averageOffset) <= this.rhythmSettings.tolerance / 2 ? 'stat-success' : 'stat-warning'
+      });
+    }
+
+    return stats;
+  };
+
+  getAdditionalStatsSection = (): React.ReactNode => {
+    return null;
+  };
+
+  getHistoryTitle = (settings: Record<string, unknown>): string => {
+    const targetPatterns = settings.targetPatterns || this.rhythmSettings.targetPatterns;
+    return `Your Recent ${targetPatterns} Pattern Sessions`;
+  };
+
+  getHistoryItems = (sessions: GameSession[]): HistoryItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const formatRelativeTime = (timestamp: Date): string => {
+      const now = new Date();
+      const diffMs = now.getTime() - timestamp.getTime();
+      const diffMinutes = Math.floor(diffMs / 60000);
+      const diffHours = Math.floor(diffMinutes / 60);
+      const diffDays = Math.floor(diffHours / 24);
+
+      if (diffMinutes < 1) return 'just now';
+      if (diffMinutes < 60) return `${diffMinutes}m ago`;
+      if (diffHours < 24) return `${diffHours}h ago`;
+      if (diffDays < 7) return `${diffDays}d ago`;
+      return timestamp.toLocaleDateString();
+    };
+
+    return sessions.map(session => ({
+      primaryStat: formatTime(session.completionTime),
+      secondaryStat: `${session.accuracy.toFixed(1)}%`,
+      metadata: formatRelativeTime(session.timestamp),
+      className: 'history-neutral'
+    }));
+  };
+
+  shouldShowHistory = (sessions: GameSession[]): boolean => {
+    return sessions.length > 0;
+  };
+
+  // ========================================
+  // IGameMode Implementation
+  // ========================================
+
+  /**
+   * Generates a rhythm pattern from the chosen meter and note values.
+   * The note filter doesn't apply; every rhythm is played on one pitch.
+   *
+   * @returns The pitch the pattern is played on
+   * @throws Error if no note values are chosen
+   */
+  generateNote = (): NoteWithOctave => {
+    const { meter, measures, durations, includeRests } = this.rhythmSettings;
+    const measureCount = Math.min(MAX_RHYTHM_MEASURES, Math.max(MIN_RHYTHM_MEASURES, measures));
+
+    this.currentPattern = generateRhythmPattern(meter, measureCount, durations, includeRests);
+    this.clearAnswer();
+    this.isRoundSolved = false;
+
+    return RHYTHM_PITCH;
+  };
+
+  validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
+    return guess.note === actual.note && guess.octave === actual.octave;
+  };
+
+  isGameComplete = (): boolean => {
+    return this.isCompleted;
+  };
+
+  getMode = (): string => {
+    return this.answerMethod === 'tap' ? RHYTHM_SUB_MODES.TAP_ALONG : RHYTHM_SUB_MODES.DICTATION;
+  };
+}
@@ -13,8 +13,11 @@ import type { IGameMode } from './IGameMode';
 import type { NoteWithOctave, NoteFilter } from '../types/music';
 import type { RoundContext } from '../types/orchestrator';
 import { AudioEngine } from '../utils/audioEngine';
+import { reviewScheduler } from '../utils/spacedRepetition';
+import { exercisePlayer } from '../utils/exercisePlayer';
 import { EAR_TRAINING_SUB_MODES } from '../constants';
 import RushModeDisplay from '../components/modes/RushModeDisplay';
+import NoteStatsSection from '../components/NoteStatsSection';
 import '../components/strategies/RushGameEndModal.css';
 
 export class RushGameStateImpl implements RushGameState, IGameMode {
@@ -198,7 +201,7 @@ export class RushGameStateImpl implements RushGameState, IGameMode {
   };
 
   getAdditionalStatsSection = (): React.ReactNode => {
-    return null; // Rush mode doesn't need additional sections
+    return React.createElement(NoteStatsSection);
   };
 
   getHistoryTitle = (settings: Record<string, any>): string => {
@@ -244,7 +247,7 @@ export class RushGameStateImpl implements RushGameState, IGameMode {
   // ========================================
 
   generateNote = (filter: NoteFilter): NoteWithOctave => {
-    return AudioEngine.getRandomNoteFromFilter(filter);
+    return exercisePlayer.nextNote() ?? AudioEngine.getRandomNoteFromFilter(filter, reviewScheduler.selectNote);
   };
 
   validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
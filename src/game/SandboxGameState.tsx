@@ -13,8 +13,11 @@ import type { IGameMode } from './IGameMode';
 import type { NoteWithOctave, NoteFilter } from '../types/music';
 import type { RoundContext } from '../types/orchestrator';
 import { AudioEngine } from '../utils/audioEngine';
+import { reviewScheduler } from '../utils/spacedRepetition';
+import { exercisePlayer } from '../utils/exercisePlayer';
 import { EAR_TRAINING_SUB_MODES } from '../constants';
 import SandboxModeDisplay from '../components/modes/SandboxModeDisplay';
+import NoteStatsSection from '../components/NoteStatsSection';
 import '../components/strategies/SandboxGameEndModal.css';
 
 export class SandboxGameStateImpl implements SandboxGameState, IGameMode {
@@ -285,20 +288,26 @@ export class SandboxGameStateImpl implements SandboxGameState, IGameMode {
   };
 
   getAdditionalStatsSection = (): React.ReactNode => {
+    const noteStatsSection = React.createElement(NoteStatsSection, { key: 'note-stats' });
+
     if (!this.targetAccuracy && !this.targetStreak && !this.targetNotes) {
-      return null; // No targets set, no additional section needed
+      return noteStatsSection; // No targets set, only long-term note stats
     }
 
     const targetsMet = this.wereTargetsMet();
 
-    return React.createElement('div', {
-      className: `target-achievement ${targetsMet ? 'targets-met' : 'targets-missed'}`
-    }, [
-      React.createElement('h3', { key: 'title' }, 'Target Achievement'),
-      React.createElement('div', { key: 'status', className: 'achievement-status' },
-        targetsMet ? '🎯 All targets achieved!' : '📈 Keep working toward your targets!'
-      )
-    ]);
+    return [
+      React.createElement('div', {
+        key: 'targets',
+        className: `target-achievement ${targetsMet ? 'targets-met' : 'targets-missed'}`
+      }, [
+        React.createElement('h3', { key: 'title' }, 'Target Achievement'),
+        React.createElement('div', { key: 'status', className: 'achievement-status' },
+          targetsMet ? '🎯 All targets achieved!' : '📈 Keep working toward your targets!'
+        )
+      ]),
+      noteStatsSection
+    ];
   };
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -344,7 +353,7 @@ export class SandboxGameStateImpl implements SandboxGameState, IGameMode {
   // ========================================
 
   generateNote = (filter: NoteFilter): NoteWithOctave => {
-    return AudioEngine.getRandomNoteFromFilter(filter);
+    return exercisePlayer.nextNote() ?? AudioEngine.getRandomNoteFromFilter(filter, reviewScheduler.selectNote);
   };
 
   validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ScaleDegreeGameState } from './ScaleDegreeGameState';
+import { createGameState } from './GameStateFactory';
+import { modeRegistry } from './ModeRegistry';
+import { SCALE_DEGREE_SUB_MODES } from '../constants';
+import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import type { ScaleDegreeModeSettings } from '../types/game';
+import { midiNoteToNoteWithOctave, noteWithOctaveToMidiNote } from '../utils/midiUtils';
+
+describe('ScaleDegreeGameState', () => {
+  const settings: ScaleDegreeModeSettings = {
+    keyRoots: ['D'],
+    scale: 'major',
+    includeChromatic: false,
+    fragmentLength: 3,
+    answerLabels: 'numbers',
+    targetRounds: 2
+  };
+
+  let gameState: ScaleDegreeGameState;
+
+  // Replaces the random melody with a known one in the same key
+  const useMelody = (degrees: number[]) => {
+    const tonicMidi = noteWithOctaveToMidiNote({ note: 'D', octave: 4 });
+    gameState.currentFragment = {
+      key: { key: 'D', scale: 'major' },
+      notes: degrees.map(semitones => midiNoteToNoteWithOctave(tonicMidi + semitones)),
+      degrees
+    };
+    gameState.selectedDegrees = degrees.map(() => null);
+  };
+
+  const answer = (degrees: number[]) => {
+    degrees.forEach((semitones, index) => gameState.setDegreeAnswer(index, semitones));
+  };
+
+  beforeEach(() => {
+    gameState = new ScaleDegreeGameState(settings);
+    gameState.generateNote();
+    useMelody([0, 4, 7]);
+  });
+
+  describe('generateNote', () => {
+    it('plays a melody of diatonic degrees above the tonic', () => {
+      const fresh = new ScaleDegreeGameState(settings);
+      const tonic = fresh.generateNote();
+      const tonicMidi = noteWithOctaveToMidiNote(tonic);
+
+      expect(tonic).toEqual({ note: 'D', octave: 4 });
+      expect(fresh.currentFragment?.key).toEqual({ key: 'D', scale: 'major' });
+      expect(fresh.currentFragment?.degrees).toHaveLength(3);
+      expect(fresh.selectedDegrees).toEqual([null, null, null]);
+
+      fresh.currentFragment!.degrees.forEach((semitones, index) => {
+        expect([0, 2, 4, 5, 7, 9, 11]).toContain(semitones);
+        expect(noteWithOctaveToMidiNote(fresh.currentFragment!.notes[index])).toBe(tonicMidi + semitones);
+      });
+    });
+
+    it('plays a single note when the melody length is 1', () => {
+      const single = new ScaleDegreeGameState({ ...settings, fragmentLength: 1 });
+      single.generateNote();
+
+      expect(single.currentFragment?.notes).toHaveLength(1);
+    });
+  });
+
+  describe('answers', () => {
+    it('offers the diatonic degrees of the key type', () => {
+      const minor = new ScaleDegreeGameState({ ...settings, scale: 'minor' });
+
+      expect(gameState.getAvailableDegrees().map(degree => degree.number)).toEqual(['1', '2', '3', '4', '5', '6', '7']);
+      expect(minor.getAvailableDegrees().map(degree => degree.number)).toEqual(['1', '2', '♭3', '4', '5', '♭6', '♭7']);
+    });
+
+    it('offers all twelve degrees with chromatic degrees enabled', () => {
+      const chromatic = new ScaleDegreeGameState({ ...settings, includeChromatic: true });
+
+      expect(chromatic.getAvailableDegrees()).toHaveLength(12);
+    });
+
+    it('labels degrees with numbers or solfège', () => {
+      const solfege = new ScaleDegreeGameState({ ...settings, answerLabels: 'solfege' });
+
+      expect(gameState.getDegreeLabel(6)).toBe('♯4');
+      expect(solfege.getDegreeLabel(6)).toBe('fi');
+      expect(solfege.getAvailableDegrees().map(degree => solfege.getDegreeLabel(degree.semitones)))
+        .toEqual(['do', 're', 'mi', 'fa', 'sol', 'la', 'ti']);
+    });
+
+    it('is complete only once every note has a degree', () => {
+      answer([0, 4]);
+      expect(gameState.isAnswerComplete()).toBe(false);
+
+      gameState.setDegreeAnswer(2, 7);
+      expect(gameState.isAnswerComplete()).toBe(true);
+    });
+
+    it('scores each note', () => {
+      expect(gameState.validateDegreeAnswer([0, 5, 7])).toEqual([true, false, true]);
+    });
+  });
+
+  describe('scoring', () => {
+    it('reports how many notes were right and keeps the answer for correction', () => {
+      answer([0, 5, 7]);
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('2/3 notes correct. Try again!');
+      expect(gameState.lastPositionResults).toEqual([true, false, true]);
+      expect(gameState.selectedDegrees).toEqual([0, 5, 7]);
+    });
+
+    it('reveals the degrees when no full answer was given', () => {
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('It was 1–3–5 in D major.');
+      expect(gameState.guessHistory[0].guessedDegrees).toBeNull();
+    });
+
+    it('tracks accuracy per degree across keys', () => {
+      answer([0, 5, 7]);
+      gameState.handleIncorrectGuess();
+      answer([0, 4, 7]);
+      gameState.handleCorrectGuess();
+
+      gameState.generateNote();
+      useMelody([7, 4, 4]);
+      gameState.currentFragment!.key = { key: 'A', scale: 'major' };
+      answer([7, 4, 4]);
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.gameCompleted).toBe(true);
+
+      const sessionResults = gameState.getSessionResults(result.stats!);
+      expect(sessionResults.roundsCompleted).toBe(2);
+      expect(sessionResults.degreeStats).toEqual({
+        '1': { attempts: 2, correct: 2, accuracy: 100 },
+        '3': { attempts: 4, correct: 3, accuracy: 75 },
+        '5': { attempts: 3, correct: 3, accuracy: 100 }
+      });
+
+      const items = gameState.getStatsItems(result.stats!, { ...sessionResults });
+      expect(items.find(item => item.label === 'Needs Work')?.value).toBe('3 (75%)');
+    });
+  });
+
+  describe('mode registration', () => {
+    it('registers Scale Degrees with the scale degree strategy', () => {
+      const metadata = modeRegistry.get(SCALE_DEGREE_SUB_MODES.IDENTIFICATION);
+      expect(metadata?.strategyType).toBe('scale-degree');
+      expect(metadata?.settingsKey).toBe('scaleDegree');
+
+      const created = createGameState(SCALE_DEGREE_SUB_MODES.IDENTIFICATION, DEFAULT_MODE_SETTINGS);
+      expect(created).toBeInstanceOf(ScaleDegreeGameState);
+    });
+  });
+});
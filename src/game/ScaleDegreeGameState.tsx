@@ -0,0 +1,492 @@
+import React from 'react';
+import type {
+  BaseGameState,
+  ScaleDegreeModeSettings,
+  ScaleDegreeGuessAttempt,
+  ScaleDegreeSessionResults,
+  GameStats,
+  StatItem,
+  HistoryItem,
+  GameSession
+} from '../types/game';
+import type { CommonDisplayProps, GameActionResult } from './GameStateFactory';
+import type { IGameMode } from './IGameMode';
+import type { NoteWithOctave, ScaleDegreeFragment } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { SCALE_DEGREE_SUB_MODES } from '../constants';
+import { SCALE_DEGREES, getDiatonicDegrees, getScaleDegree, formatScaleDegree } from '../constants/scaleDegrees';
+import type { ScaleDegree } from '../constants/scaleDegrees';
+import { midiNoteToNoteWithOctave, noteWithOctaveToMidiNote } from '../utils/midiUtils';
+import ScaleDegreeModeDisplay from '../components/modes/ScaleDegreeModeDisplay';
+
+/** Octave of the tonic; fragments are played from the tonic up to an octave above it */
+const TONIC_OCTAVE = 4;
+
+/**
+ * Game state implementation for Scale Degree mode.
+ *
+ * In this mode:
+ * - A key is established with a cadence, then a note or short melody is played
+ * - The user names the scale degree of every note, as numbers or solfège
+ * - Each note is scored on its own; the round counts as correct only when
+ *   every degree is right
+ * - Per-degree accuracy is tracked across keys, so ♭3 in C and ♭3 in A count together
+ */
+export class ScaleDegreeGameState implements IGameMode {
+  elapsedTime: number = 0;
+  isCompleted: boolean = false;
+  totalAttempts: number = 0;
+  longestStreak: number = 0;
+  currentStreak: number = 0;
+  startTime?: Date;
+
+  // Mode-specific properties
+  correctCount: number = 0;
+  currentFragment: ScaleDegreeFragment | null = null;
+  selectedDegrees: (number | null)[] = [];
+  lastPositionResults: boolean[] | null = null;
+  isRoundSolved: boolean = false;
+  guessHistory: ScaleDegreeGuessAttempt[] = [];
+  scaleDegreeSettings: ScaleDegreeModeSettings;
+
+  /**
+   * Creates a new ScaleDegreeGameState instance.
+   *
+   * @param scaleDegreeSettings - Keys, scale, degrees asked, melody length and session target
+   */
+  constructor(scaleDegreeSettings: ScaleDegreeModeSettings) {
+    this.scaleDegreeSettings = scaleDegreeSettings;
+  }
+
+  modeDisplay = (props: CommonDisplayProps) => (
+    <ScaleDegreeModeDisplay
+      gameState={this}
+      {...props}
+    />
+  );
+
+  /**
+   * Piano keys are free play in this mode; answers are given with the degree buttons.
+   * Implementing this keeps piano clicks from being submitted as note guesses.
+   */
+  onPianoKeyClick = (): void => {};
+
+  /**
+   * Gets the scale degrees that can be asked and picked as answers.
+   *
+   * @returns All twelve degrees with chromatic degrees enabled, otherwise the seven diatonic ones
+   */
+  getAvailableDegrees = (): ScaleDegree[] => {
+    return this.scaleDegreeSettings.includeChromatic
+      ? [...SCALE_DEGREES]
+      : getDiatonicDegrees(this.scaleDegreeSettings.scale);
+  };
+
+  /**
+   * Formats a degree with the label style from the settings.
+   *
+   * @param semitones - Semitones above the tonic
+   * @returns The degree number or solfège syllable
+   */
+  getDegreeLabel = (semitones: number): string => {
+    return formatScaleDegree(semitones, this.scaleDegreeSettings.answerLabels);
+  };
+
+  /**
+   * Stores the degree answer for one note of the melody.
+   *
+   * @param position - Index of the note in the melody
+   * @param semitones - Degree picked for that note, in semitones above the tonic
+   */
+  setDegreeAnswer = (position: number, semitones: number): void => {
+    if (position < 0 || position >= this.selectedDegrees.length) return;
+
+    const updated = [...this.selectedDegrees];
+    updated[position] = semitones;
+    this.selectedDegrees = updated;
+  };
+
+  /**
+   * Clears all degree answers for the current round.
+   */
+  clearDegreeAnswers = (): void => {
+    this.selectedDegrees = this.selectedDegrees.map(() => null);
+    this.lastPositionResults = null;
+  };
+
+  /**
+   * Checks whether every note has a degree.
+   *
+   * @returns True if the answer can be submitted
+   */
+  isAnswerComplete = (): boolean => {
+    return this.selectedDegrees.length > 0 && this.selectedDegrees.every(degree => degree !== null);
+  };
+
+  /**
+   * Scores each note of an answer against the current melody.
+   *
+   * @param degrees - The answer, one degree (or null) per note
+   * @returns Whether each note is correct; empty if there is no current melody
+   */
+  validateDegreeAnswer = (degrees: (number | null)[]): boolean[] => {
+    if (!this.currentFragment) return [];
+    return this.currentFragment.degrees.map((degree, index) => degrees[index] === degree);
+  };
+
+  handleCorrectGuess = (): GameActionResult => {
+    const newCorrectCount = this.correctCount + 1;
+    const newCurrentStreak = this.currentStreak + 1;
+    const newLongestStreak = Math.max(this.longestStreak, newCurrentStreak);
+    const newTotalAttempts = this.totalAttempts + 1;
+
+    this.recordAttempt(true);
+    this.isRoundSolved = true;
+
+    // Update state
+    this.correctCount = newCorrectCount;
+    this.currentStreak = newCurrentStreak;
+    this.longestStreak = newLongestStreak;
+    this.totalAttempts = newTotalAttempts;
+
+    const label = this.currentFragment ? this.formatDegrees(this.currentFragment.degrees) : '';
+    const target = this.scaleDegreeSettings.targetRounds;
+
+    if (newCorrectCount >= target) {
+      this.isCompleted = true;
+
+      const finalStats: GameStats = {
+        completionTime: this.elapsedTime,
+        accuracy: (newCorrectCount / newTotalAttempts) * 100,
+        averageTimePerNote: this.elapsedTime / newCorrectCount,
+        longestStreak: newLongestStreak,
+        totalAttempts: newTotalAttempts,
+        correctAttempts: newCorrectCount
+      };
+
+      return {
+        gameCompleted: true,
+        feedback: `🎉 Scale Degrees Complete! ${newCorrectCount}/${target} rounds`,
+        shouldAdvance: false,
+        stats: finalStats
+      };
+    }
+
+    return {
+      gameCompleted: false,
+      feedback: `Correct! ${label} (${newCorrectCount}/${target})`,
+      shouldAdvance: true
+    };
+  };
+
+  handleIncorrectGuess = (): GameActionResult => {
+    const wasAnswered = this.isAnswerComplete();
+    const positionResults = this.recordAttempt(false);
+
+    this.currentStreak = 0;
+    this.totalAttempts = this.totalAttempts + 1;
+
+    if (!this.currentFragment) {
+      return { gameCompleted: false, feedback: 'Try again!', shouldAdvance: false };
+    }
+
+    // A full answer gets per-note feedback; a timeout or skip reveals the degrees
+    const feedback = wasAnswered
+      ? positionResults.length === 1
+        ? 'Not quite. Try again!'
+        : `${positionResults.filter(Boolean).length}/${positionResults.length} notes correct. Try again!`
+      : `It was ${this.formatDegrees(this.currentFragment.degrees)} in ${this.currentFragment.key.key} ${this.currentFragment.key.scale}.`;
+
+    return {
+      gameCompleted: false,
+      feedback,
+      shouldAdvance: false
+    };
+  };
+
+  updateState = (updates: Partial<BaseGameState>) => {
+    Object.assign(this, updates);
+  };
+
+  getFeedbackMessage = (currentNote: boolean): string => {
+    if (!currentNote) {
+      return 'Click "Start Practice" to begin your scale degree session';
+    }
+
+    const noun = this.scaleDegreeSettings.fragmentLength > 1 ? 'each note' : 'the note';
+    return `Name the scale degree of ${noun} (${this.correctCount}/${this.scaleDegreeSettings.targetRounds})`;
+  };
+
+  onStartNewRound = (): void => {
+    if (!this.startTime && !this.isCompleted) {
+      this.startTime = new Date();
+    }
+  };
+
+  getTimerMode = (): 'count-up' | 'count-down' | 'none' => {
+    return 'count-up';
+  };
+
+  getCompletionMessage = (): string => {
+    if (!this.isCompleted) return '';
+    return '🎉 Scale Degrees Complete! Piano is now in free play mode.';
+  };
+
+  getSessionSettings = (): Record<string, unknown> => {
+    return {
+      keyRoots: this.scaleDegreeSettings.keyRoots ? [...this.scaleDegreeSettings.keyRoots] : null,
+      scale: this.scaleDegreeSettings.scale,
+      includeChromatic: this.scaleDegreeSettings.includeChromatic,
+      fragmentLength: this.scaleDegreeSettings.fragmentLength,
+      answerLabels: this.scaleDegreeSettings.answerLabels,
+      targetRounds: this.scaleDegreeSettings.targetRounds
+    };
+  };
+
+  getSessionResults = (stats: GameStats): ScaleDegreeSessionResults => {
+    const results: ScaleDegreeSessionResults = {
+      roundsCompleted: stats.correctAttempts,
+      longestStreak: stats.longestStreak,
+      averageTimePerRound: stats.averageTimePerNote,
+      accuracy: stats.accuracy,
+      scale: this.scaleDegreeSettings.scale,
+      degreeStats: this.calculateDegreeStats()
+    };
+
+    return results;
+  };
+
+  /**
+   * Calculates accuracy for each scale degree across all keys.
+   * Every note of a melody counts as one attempt at its degree.
+   *
+   * @returns Object mapping degree numbers (e.g., "♭3") to their statistics
+   */
+  private calculateDegreeStats = (): ScaleDegreeSessionResults['degreeStats'] => {
+    const stats: ScaleDegreeSessionResults['degreeStats'] = {};
+
+    for (const attempt of this.guessHistory) {
+      attempt.actualFragment.degrees.forEach((semitones, index) => {
+        const degree = getScaleDegree(semitones).number;
+
+        if (!stats[degree]) {
+          stats[degree] = { attempts: 0, correct: 0, accuracy: 0 };
+        }
+
+        stats[degree].attempts++;
+        if (attempt.positionResults[index]) {
+          stats[degree].correct++;
+        }
+      });
+    }
+
+    for (const degree in stats) {
+      const { attempts, correct } = stats[degree];
+      stats[degree].accuracy = attempts > 0 ? (correct / attempts) * 100 : 0;
+    }
+
+    return stats;
+  };
+
+  /**
+   * Adds the current answer to the guess history.
+   * Answers are kept after a wrong attempt so only the wrong notes need changing.
+   *
+   * @returns Whether each note was answered correctly
+   */
+  private recordAttempt = (isCorrect: boolean): boolean[] => {
+    if (!this.currentFragment) return [];
+
+    const hasAnswer = this.selectedDegrees.some(degree => degree !== null);
+    const positionResults = this.validateDegreeAnswer(this.selectedDegrees);
+
+    const attempt: ScaleDegreeGuessAttempt = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+      actualFragment: this.currentFragment,
+      guessedDegrees: hasAnswer ? [...this.selectedDegrees] : null,
+      positionResults,
+      isCorrect
+    };
+
+    this.guessHistory = [...this.guessHistory, attempt];
+    this.lastPositionResults = positionResults;
+
+    return positionResults;
+  };
+
+  /**
+   * Formats degrees as a melody label (e.g., "1–♭3–5").
+   */
+  private formatDegrees = (degrees: number[]): string => {
+    return degrees.map(this.getDegreeLabel).join('–');
+  };
+
+  // End Screen Strategy Methods
+  getCelebrationEmoji = (): string => {
+    return '🎶';
+  };
+
+  getHeaderTitle = (): string => {
+    return 'Well Done!';
+  };
+
+  getModeCompletionText = (): string => {
+    return 'Scale Degrees Complete';
+  };
+
+  getPerformanceRating = (gameStats: GameStats): string => {
+    const accuracy = gameStats.accuracy;
+
+    if (accuracy >= 95) return 'Golden Ears! 🌟';
+    if (accuracy >= 85) return 'Excellent Ear! 🎯';
+    if (accuracy >= 75) return 'Great Progress! 🎵';
+    if (accuracy >= 65) return 'Keep Practicing! 📚';
+    return 'Good Effort! 💪';
+  };
+
+  getHeaderThemeClass = (): string => {
+    return 'scale-degree-complete';
+  };
+
+  getStatsItems = (gameStats: GameStats, sessionResults: Record<string, unknown>): StatItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const stats: StatItem[] = [
+      {
+        label: 'Time',
+        value: formatTime(gameStats.completionTime),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Accuracy',
+        value: `${gameStats.accuracy.toFixed(1)}%`,
+        className: gameStats.accuracy >= 85 ? 'stat-success' : gameStats.accuracy >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Longest Streak',
+        value: gameStats.longestStreak.toString(),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Total Rounds',
+        value: `${gameStats.correctAttempts}/${gameStats.totalAttempts}`,
+        className: 'stat-neutral'
+      }
+    ];
+
+    // Highlight the scale degree that needs the most work
+    const degreeStats = (sessionResults as Partial<ScaleDegreeSessionResults>).degreeStats || {};
+    const weakest = SCALE_DEGREES
+      .filter(degree => degreeStats[degree.number] && degreeStats[degree.number].accuracy < 100)
+      .reduce<ScaleDegree | null>((weakestDegree, degree) => {
+        if (!weakestDegree) return degree;
+        return degreeStats[degree.number].accuracy < degreeStats[weakestDegree.number].accuracy
+          ? degree
+          : weakestDegree;
+      }, null);
+
+    if (weakest) {
+      stats.push({
+        label: 'Needs Work',
+        value: `${this.getDegreeLabel(weakest.semitones)} (${degreeStats[weakest.number].accuracy.toFixed(0)}%)`,
+        className: 'stat-warning'
+      });
+    }
+
+    return stats;
+  };
+
+  getAdditionalStatsSection = (): React.ReactNode => {
+    return null;
+  };
+
+  getHistoryTitle = (settings: Record<string, unknown>): string => {
+    const targetRounds = settings.targetRounds || this.scaleDegreeSettings.targetRounds;
+    return `Your Recent ${targetRounds} Round Scale Degree Sessions`;
+  };
+
+  getHistoryItems = (sessions: GameSession[]): HistoryItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const formatRelativeTime = (timestamp: Date): string => {
+      const now = new Date();
+      const diffMs = now.getTime() - timestamp.getTime();
+      const diffMinutes = Math.floor(diffMs / 60000);
+      const diffHours = Math.floor(diffMinutes / 60);
+      const diffDays = Math.floor(diffHours / 24);
+
+      if (diffMinutes < 1) return 'just now';
+      if (diffMinutes < 60) return `${diffMinutes}m ago`;
+      if (diffHours < 24) return `${diffHours}h ago`;
+      if (diffDays < 7) return `${diffDays}d ago`;
+      return timestamp.toLocaleDateString();
+    };
+
+    return sessions.map(session => ({
+      primaryStat: formatTime(session.completionTime),
+      secondaryStat: `${session.accuracy.toFixed(1)}%`,
+      metadata: formatRelativeTime(session.timestamp),
+      className: 'history-neutral'
+    }));
+  };
+
+  shouldShowHistory = (sessions: GameSession[]): boolean => {
+    return sessions.length > 0;
+  };
+
+  // ========================================
+  // IGameMode Implementation
+  // ========================================
+
+  /**
+   * Picks a key and a melody of random degrees from the enabled degrees.
+   * The note filter is not used; melodies sit in the octave above a tonic in octave 4.
+   *
+   * @returns The tonic of the key, so timeouts can point the user to it
+   */
+  generateNote = (): NoteWithOctave => {
+    const { keyRoots, scale, fragmentLength } = this.scaleDegreeSettings;
+    const roots = keyRoots && keyRoots.length > 0 ? keyRoots : ALL_NOTES;
+    const key = roots[Math.floor(Math.random() * roots.length)];
+    const tonic: NoteWithOctave = { note: key, octave: TONIC_OCTAVE };
+    const tonicMidi = noteWithOctaveToMidiNote(tonic);
+
+    const pool = this.getAvailableDegrees();
+    const degrees = Array.from(
+      { length: Math.max(1, fragmentLength) },
+      () => pool[Math.floor(Math.random() * pool.length)].semitones
+    );
+
+    this.currentFragment = {
+      key: { key, scale },
+      notes: degrees.map(semitones => midiNoteToNoteWithOctave(tonicMidi + semitones)),
+      degrees
+    };
+    this.selectedDegrees = degrees.map(() => null);
+    this.lastPositionResults = null;
+    this.isRoundSolved = false;
+
+    return tonic;
+  };
+
+  validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
+    return guess.note === actual.note;
+  };
+
+  isGameComplete = (): boolean => {
+    return this.isCompleted;
+  };
+
+  getMode = (): string => {
+    return SCALE_DEGREE_SUB_MODES.IDENTIFICATION;
+  };
+}
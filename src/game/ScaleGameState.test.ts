@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ScaleGameState } from './ScaleGameState';
+import { createGameState } from './GameStateFactory';
+import { modeRegistry } from './ModeRegistry';
+import { SCALE_TRAINING_SUB_MODES } from '../constants';
+import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import type { ScaleModeSettings } from '../types/game';
+import { ScaleType } from '../types/music';
+
+describe('ScaleGameState', () => {
+  const settings: ScaleModeSettings = {
+    scaleFilter: {
+      allowedScaleTypes: [ScaleType.MAJOR],
+      allowedRootNotes: ['C'],
+      allowedOctaves: [4]
+    },
+    playbackDirection: 'ascending',
+    targetScales: 2
+  };
+
+  let gameState: ScaleGameState;
+
+  beforeEach(() => {
+    gameState = new ScaleGameState(settings);
+    gameState.generateNote();
+  });
+
+  describe('generateNote', () => {
+    it('picks a scale from the filter and returns the first note played', () => {
+      expect(gameState.currentScale?.name).toBe('C Major');
+      expect(gameState.playbackNotes).toHaveLength(8);
+    });
+
+    it('starts from the top of the scale when playing descending', () => {
+      const descending = new ScaleGameState({ ...settings, playbackDirection: 'descending' });
+      const firstNote = descending.generateNote();
+
+      expect(firstNote).toEqual({ note: 'C', octave: 5 });
+    });
+  });
+
+  describe('validateScaleAnswer', () => {
+    it('accepts the scale name or an equivalent mode name', () => {
+      expect(gameState.validateScaleAnswer(ScaleType.MAJOR)).toBe(true);
+      expect(gameState.validateScaleAnswer(ScaleType.IONIAN)).toBe(true);
+      expect(gameState.validateScaleAnswer(ScaleType.LYDIAN)).toBe(false);
+    });
+  });
+
+  describe('addReproducedNote', () => {
+    it('tracks progress until the whole scale is played', () => {
+      const notes = gameState.playbackNotes;
+
+      notes.slice(0, -1).forEach(note => {
+        expect(gameState.addReproducedNote(note)).toBe('partial');
+      });
+      expect(gameState.addReproducedNote(notes[notes.length - 1])).toBe('complete');
+    });
+
+    it('ignores the octave of played notes', () => {
+      expect(gameState.addReproducedNote({ note: 'C', octave: 2 })).toBe('partial');
+    });
+
+    it('reports a wrong note', () => {
+      gameState.addReproducedNote({ note: 'C', octave: 4 });
+      expect(gameState.addReproducedNote({ note: 'D#', octave: 4 })).toBe('wrong');
+    });
+  });
+
+  describe('scoring', () => {
+    it('records a named answer and clears it', () => {
+      gameState.selectScaleAnswer(ScaleType.MAJOR);
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.shouldAdvance).toBe(true);
+      expect(result.feedback).toContain('C Major');
+      expect(gameState.isRoundSolved).toBe(true);
+      expect(gameState.selectedScaleType).toBeNull();
+      expect(gameState.guessHistory[0]).toMatchObject({ guessedScaleType: ScaleType.MAJOR, isCorrect: true });
+    });
+
+    it('restarts the reproduction after an incorrect guess', () => {
+      gameState.addReproducedNote({ note: 'C', octave: 4 });
+      gameState.addReproducedNote({ note: 'F', octave: 4 });
+      gameState.handleIncorrectGuess();
+
+      expect(gameState.reproducedNotes).toEqual([]);
+      expect(gameState.currentStreak).toBe(0);
+      expect(gameState.guessHistory[0].playedNotes).toHaveLength(2);
+    });
+
+    it('completes at the target and reports per-scale stats', () => {
+      gameState.handleIncorrectGuess();
+      gameState.handleCorrectGuess();
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.gameCompleted).toBe(true);
+      expect(result.stats).toMatchObject({ correctAttempts: 2, totalAttempts: 3 });
+
+      const sessionResults = gameState.getSessionResults(result.stats!);
+      expect(sessionResults.scaleTypeStats['Major']).toEqual({
+        attempts: 3,
+        correct: 2,
+        accuracy: (2 / 3) * 100
+      });
+    });
+  });
+
+  describe('mode registration', () => {
+    it('registers Scale Identification with the scale strategy', () => {
+      const metadata = modeRegistry.get(SCALE_TRAINING_SUB_MODES.IDENTIFICATION);
+      expect(metadata?.strategyType).toBe('scale-training');
+      expect(metadata?.settingsKey).toBe('scale');
+
+      const created = createGameState(SCALE_TRAINING_SUB_MODES.IDENTIFICATION, DEFAULT_MODE_SETTINGS);
+      expect(created).toBeInstanceOf(ScaleGameState);
+    });
+  });
+});
@@ -0,0 +1,426 @@
+import React from 'react';
+import type {
+  BaseGameState,
+  ScaleModeSettings,
+  ScaleGuessAttempt,
+  ScaleSessionResults,
+  GameStats,
+  StatItem,
+  HistoryItem,
+  GameSession
+} from '../types/game';
+import type { CommonDisplayProps, GameActionResult } from './GameStateFactory';
+import type { IGameMode } from './IGameMode';
+import type { NoteWithOctave, Scale, ScaleType } from '../types/music';
+import { ScaleEngine } from '../utils/scaleEngine';
+import { SCALE_TRAINING_SUB_MODES } from '../constants';
+import { areScalesEquivalent, getScaleName } from '../constants/scales';
+import ScaleModeDisplay from '../components/modes/ScaleModeDisplay';
+
+/**
+ * Outcome of adding a played note to a scale reproduction.
+ * - 'wrong': the note does not match the next note of the scale
+ * - 'partial': the note matches but more notes are still needed
+ * - 'complete': the whole scale has been reproduced
+ */
+export type ScaleReproductionStatus = 'wrong' | 'partial' | 'complete';
+
+/**
+ * Game state implementation for Scale Identification mode.
+ *
+ * In this mode:
+ * - A scale is played ascending, descending, or up and back down
+ * - The user names the scale, or reproduces it note by note on the keyboard
+ * - Scales with the same notes (e.g. Major and Ionian) are accepted interchangeably
+ * - The session completes once the target number of scales is identified
+ */
+export class ScaleGameState implements IGameMode {
+  elapsedTime: number = 0;
+  isCompleted: boolean = false;
+  totalAttempts: number = 0;
+  longestStreak: number = 0;
+  currentStreak: number = 0;
+  startTime?: Date;
+
+  // Mode-specific properties
+  correctCount: number = 0;
+  currentScale: Scale | null = null;
+  playbackNotes: NoteWithOctave[] = [];
+  selectedScaleType: ScaleType | null = null;
+  reproducedNotes: NoteWithOctave[] = [];
+  isRoundSolved: boolean = false;
+  guessHistory: ScaleGuessAttempt[] = [];
+  scaleSettings: ScaleModeSettings;
+
+  /**
+   * Creates a new ScaleGameState instance.
+   *
+   * @param scaleSettings - Scale filter, playback direction and session target
+   */
+  constructor(scaleSettings: ScaleModeSettings) {
+    this.scaleSettings = scaleSettings;
+  }
+
+  modeDisplay = (props: CommonDisplayProps) => (
+    <ScaleModeDisplay
+      gameState={this}
+      {...props}
+    />
+  );
+
+  /**
+   * Stores a scale name answer to be validated on the next submit.
+   *
+   * @param scaleType - The scale type the user picked
+   */
+  selectScaleAnswer = (scaleType: ScaleType): void => {
+    this.selectedScaleType = scaleType;
+  };
+
+  /**
+   * Checks a named scale type against the current scale.
+   *
+   * @param scaleType - The scale type the user picked
+   * @returns True if the picked scale has the same notes as the current scale
+   */
+  validateScaleAnswer = (scaleType: ScaleType): boolean => {
+    if (!this.currentScale) return false;
+    return areScalesEquivalent(scaleType, this.currentScale.type);
+  };
+
+  /**
+   * Adds a played note to the reproduction of the current scale.
+   * Notes must be played in the order they were heard; octaves are ignored.
+   *
+   * @param note - The note the user played
+   * @returns Whether the note was wrong, correct so far, or completed the scale
+   */
+  addReproducedNote = (note: NoteWithOctave): ScaleReproductionStatus => {
+    const expected = this.getNextReproductionNote();
+    this.reproducedNotes = [...this.reproducedNotes, note];
+
+    if (!expected || !this.validateGuess(note, expected)) {
+      return 'wrong';
+    }
+
+    return this.reproducedNotes.length === this.playbackNotes.length ? 'complete' : 'partial';
+  };
+
+  /**
+   * Gets the next note the user needs to play when reproducing the scale.
+   *
+   * @returns The next expected note, or null if there is no scale in progress
+   */
+  getNextReproductionNote = (): NoteWithOctave | null => {
+    return this.playbackNotes[this.reproducedNotes.length] ?? null;
+  };
+
+  handleCorrectGuess = (): GameActionResult => {
+    const newCorrectCount = this.correctCount + 1;
+    const newCurrentStreak = this.currentStreak + 1;
+    const newLongestStreak = Math.max(this.longestStreak, newCurrentStreak);
+    const newTotalAttempts = this.totalAttempts + 1;
+
+    this.recordAttempt(true);
+    this.isRoundSolved = true;
+
+    // Update state
+    this.correctCount = newCorrectCount;
+    this.currentStreak = newCurrentStreak;
+    this.longestStreak = newLongestStreak;
+    this.totalAttempts = newTotalAttempts;
+
+    const scaleName = this.currentScale?.name ?? '';
+    const target = this.scaleSettings.targetScales;
+
+    if (newCorrectCount >= target) {
+      this.isCompleted = true;
+
+      const finalStats: GameStats = {
+        completionTime: this.elapsedTime,
+        accuracy: (newCorrectCount / newTotalAttempts) * 100,
+        averageTimePerNote: this.elapsedTime / newCorrectCount,
+        longestStreak: newLongestStreak,
+        totalAttempts: newTotalAttempts,
+        correctAttempts: newCorrectCount
+      };
+
+      return {
+        gameCompleted: true,
+        feedback: `🎉 Scale Identification Complete! ${newCorrectCount}/${target} scales`,
+        shouldAdvance: false,
+        stats: finalStats
+      };
+    }
+
+    return {
+      gameCompleted: false,
+      feedback: `Correct! ${scaleName} (${newCorrectCount}/${target})`,
+      shouldAdvance: true
+    };
+  };
+
+  handleIncorrectGuess = (): GameActionResult => {
+    this.recordAttempt(false);
+
+    this.currentStreak = 0;
+    this.totalAttempts = this.totalAttempts + 1;
+
+    const scaleName = this.currentScale?.name ?? '';
+
+    return {
+      gameCompleted: false,
+      feedback: scaleName ? `Not quite - it was ${scaleName}. Try again!` : 'Try again!',
+      shouldAdvance: false
+    };
+  };
+
+  updateState = (updates: Partial<BaseGameState>) => {
+    Object.assign(this, updates);
+  };
+
+  getFeedbackMessage = (currentNote: boolean): string => {
+    if (!currentNote) {
+      return 'Click "Start Practice" to begin your scale identification session';
+    }
+
+    return `Name the scale or play it back (${this.correctCount}/${this.scaleSettings.targetScales})`;
+  };
+
+  onStartNewRound = (): void => {
+    if (!this.startTime && !this.isCompleted) {
+      this.startTime = new Date();
+    }
+  };
+
+  getTimerMode = (): 'count-up' | 'count-down' | 'none' => {
+    return 'count-up';
+  };
+
+  getCompletionMessage = (): string => {
+    if (!this.isCompleted) return '';
+    return '🎉 Scale Identification Complete! Piano is now in free play mode.';
+  };
+
+  getSessionSettings = (): Record<string, unknown> => {
+    return {
+      allowedScaleTypes: [...this.scaleSettings.scaleFilter.allowedScaleTypes],
+      keyFilter: this.scaleSettings.scaleFilter.keyFilter,
+      playbackDirection: this.scaleSettings.playbackDirection,
+      targetScales: this.scaleSettings.targetScales
+    };
+  };
+
+  getSessionResults = (stats: GameStats): ScaleSessionResults => {
+    const results: ScaleSessionResults = {
+      scalesCompleted: stats.correctAttempts,
+      longestStreak: stats.longestStreak,
+      averageTimePerScale: stats.averageTimePerNote,
+      accuracy: stats.accuracy,
+      playbackDirection: this.scaleSettings.playbackDirection,
+      scaleTypeStats: this.calculateScaleTypeStats()
+    };
+
+    return results;
+  };
+
+  /**
+   * Calculates accuracy grouped by scale type.
+   *
+   * @returns Object mapping scale type names to their statistics
+   */
+  private calculateScaleTypeStats = (): ScaleSessionResults['scaleTypeStats'] => {
+    const stats: ScaleSessionResults['scaleTypeStats'] = {};
+
+    for (const attempt of this.guessHistory) {
+      const name = getScaleName(attempt.actualScale.type);
+
+      if (!stats[name]) {
+        stats[name] = { attempts: 0, correct: 0, accuracy: 0 };
+      }
+
+      stats[name].attempts++;
+      if (attempt.isCorrect) {
+        stats[name].correct++;
+      }
+    }
+
+    for (const name in stats) {
+      const { attempts, correct } = stats[name];
+      stats[name].accuracy = attempts > 0 ? (correct / attempts) * 100 : 0;
+    }
+
+    return stats;
+  };
+
+  /**
+   * Adds the current answer to the guess history and clears it.
+   * Timeouts and skips are recorded with no guessed scale.
+   */
+  private recordAttempt = (isCorrect: boolean): void => {
+    if (!this.currentScale) return;
+
+    const attempt: ScaleGuessAttempt = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+      actualScale: this.currentScale,
+      guessedScaleType: this.selectedScaleType,
+      playedNotes: this.reproducedNotes.length > 0 ? [...this.reproducedNotes] : undefined,
+      isCorrect
+    };
+
+    this.guessHistory = [...this.guessHistory, attempt];
+    this.selectedScaleType = null;
+    this.reproducedNotes = [];
+  };
+
+  // End Screen Strategy Methods
+  getCelebrationEmoji = (): string => {
+    return '🎼';
+  };
+
+  getHeaderTitle = (): string => {
+    return 'Well Done!';
+  };
+
+  getModeCompletionText = (): string => {
+    return 'Scale Identification Complete';
+  };
+
+  getPerformanceRating = (gameStats: GameStats): string => {
+    const accuracy = gameStats.accuracy;
+
+    if (accuracy >= 95) return 'Golden Ears! 🌟';
+    if (accuracy >= 85) return 'Excellent Ear! 🎯';
+    if (accuracy >= 75) return 'Great Progress! 🎵';
+    if (accuracy >= 65) return 'Keep Practicing! 📚';
+    return 'Good Effort! 💪';
+  };
+
+  getHeaderThemeClass = (): string => {
+    return 'scale-complete';
+  };
+
+  getStatsItems = (gameStats: GameStats, sessionResults: Record<string, unknown>): StatItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const stats: StatItem[] = [
+      {
+        label: 'Time',
+        value: formatTime(gameStats.completionTime),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Accuracy',
+        value: `${gameStats.accuracy.toFixed(1)}%`,
+        className: gameStats.accuracy >= 85 ? 'stat-success' : gameStats.accuracy >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Longest Streak',
+        value: gameStats.longestStreak.toString(),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Total Scales',
+        value: `${gameStats.correctAttempts}/${gameStats.totalAttempts}`,
+        className: 'stat-neutral'
+      }
+    ];
+
+    // Highlight the scale type that needs the most work
+    const scaleTypeStats = (sessionResults as Partial<ScaleSessionResults>).scaleTypeStats || {};
+    const weakest = Object.entries(scaleTypeStats)
+      .filter(([, stat]) => stat.accuracy < 100)
+      .sort(([, a], [, b]) => a.accuracy - b.accuracy)[0];
+
+    if (weakest) {
+      stats.push({
+        label: 'Needs Work',
+        value: `${weakest[0]} (${weakest[1].accuracy.toFixed(0)}%)`,
+        className: 'stat-warning'
+      });
+    }
+
+    return stats;
+  };
+
+  getAdditionalStatsSection = (): React.ReactNode => {
+    return null;
+  };
+
+  getHistoryTitle = (settings: Record<string, unknown>): string => {
+    const targetScales = settings.targetScales || this.scaleSettings.targetScales;
+    return `Your Recent ${targetScales} Scale Sessions`;
+  };
+
+  getHistoryItems = (sessions: GameSession[]): HistoryItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const formatRelativeTime = (timestamp: Date): string => {
+      const now = new Date();
+      const diffMs = now.getTime() - timestamp.getTime();
+      const diffMinutes = Math.floor(diffMs / 60000);
+      const diffHours = Math.floor(diffMinutes / 60);
+      const diffDays = Math.floor(diffHours / 24);
+
+      if (diffMinutes < 1) return 'just now';
+      if (diffMinutes < 60) return `${diffMinutes}m ago`;
+      if (diffHours < 24) return `${diffHours}h ago`;
+      if (diffDays < 7) return `${diffDays}d ago`;
+      return timestamp.toLocaleDateString();
+    };
+
+    return sessions.map(session => ({
+      primaryStat: formatTime(session.completionTime),
+      secondaryStat: `${session.accuracy.toFixed(1)}%`,
+      metadata: formatRelativeTime(session.timestamp),
+      className: 'history-neutral'
+    }));
+  };
+
+  shouldShowHistory = (sessions: GameSession[]): boolean => {
+    return sessions.length > 0;
+  };
+
+  // ========================================
+  // IGameMode Implementation
+  // ========================================
+
+  /**
+   * Generates a new scale from the mode's scale filter.
+   * The note filter is not used; scale roots and octaves come from the scale filter.
+   *
+   * @returns The first note played (the note a reproduction must start on)
+   */
+  generateNote = (): NoteWithOctave => {
+    const scale = ScaleEngine.getRandomScaleFromFilter(this.scaleSettings.scaleFilter);
+
+    this.currentScale = scale;
+    this.playbackNotes = ScaleEngine.getPlaybackNotes(scale, this.scaleSettings.playbackDirection);
+    this.selectedScaleType = null;
+    this.reproducedNotes = [];
+    this.isRoundSolved = false;
+
+    return this.playbackNotes[0];
+  };
+
+  validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
+    return guess.note === actual.note;
+  };
+
+  isGameComplete = (): boolean => {
+    return this.isCompleted;
+  };
+
+  getMode = (): string => {
+    return SCALE_TRAINING_SUB_MODES.IDENTIFICATION;
+  };
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { SightReadingGameState } from './SightReadingGameState';
+import { createGameState } from './GameStateFactory';
+import { modeRegistry } from './ModeRegistry';
+import { SIGHT_READING_SUB_MODES } from '../constants';
+import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import type { SightReadingModeSettings } from '../types/game';
+import type { NoteFilter } from '../types/music';
+
+describe('SightReadingGameState', () => {
+  const settings: SightReadingModeSettings = {
+    staff: 'treble',
+    maxLedgerLines: 0,
+    challengeType: 'note',
+    targetNotes: 2
+  };
+
+  const filter: NoteFilter = {
+    octaveRange: { min: 4, max: 4 },
+    keyType: 'white',
+    allowedNotes: ['C', 'E', 'A']
+  };
+
+  let gameState: SightReadingGameState;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameState = new SightReadingGameState(settings);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('generateNote', () => {
+    it('writes a note the filter allows within the ledger line limit', () => {
+      const note = gameState.generateNote(filter);
+
+      // C4 needs a ledger line
+      expect(['E', 'A']).toContain(note.note);
+      expect(gameState.currentNotes).toEqual([note]);
+      expect(gameState.currentChord).toBeNull();
+    });
+
+    it('writes a chord with its notes lowest first', () => {
+      const chordState = new SightReadingGameState({ ...settings, challengeType: 'chord' });
+      const chordFilter: NoteFilter = { octaveRange: { min: 4, max: 5 }, keyType: 'white', allowedNotes: ['A'] };
+
+      const note = chordState.generateNote(chordFilter);
+
+      expect(note).toEqual({ note: 'A', octave: 4 });
+      expect(chordState.currentNotes).toHaveLength(3);
+      expect(['A', 'Am']).toContain(chordState.currentChord?.name);
+    });
+
+    it('throws when nothing can be written', () => {
+      const lowFilter: NoteFilter = { octaveRange: { min: 2, max: 2 }, keyType: 'all' };
+
+      expect(() => gameState.generateNote(lowFilter)).toThrow('No notes can be written on the staff with current filter settings');
+    });
+  });
+
+  describe('addPlayedNote', () => {
+    it('requires the written octave', () => {
+      gameState.currentNotes = [{ note: 'E', octave: 4 }];
+
+      expect(gameState.addPlayedNote({ note: 'E', octave: 5 })).toBe('wrong');
+      expect(gameState.addPlayedNote({ note: 'E', octave: 4 })).toBe('complete');
+    });
+
+    it('accepts chord notes in any order and ignores repeats', () => {
+      gameState.currentNotes = [{ note: 'C', octave: 4 }, { note: 'E', octave: 4 }, { note: 'G', octave: 4 }];
+
+      expect(gameState.addPlayedNote({ note: 'G', octave: 4 })).toBe('partial');
+      expect(gameState.addPlayedNote({ note: 'G', octave: 4 })).toBe('partial');
+      expect(gameState.addPlayedNote({ note: 'C', octave: 4 })).toBe('partial');
+      expect(gameState.addPlayedNote({ note: 'E', octave: 4 })).toBe('complete');
+      expect(gameState.guessHistory).toHaveLength(3);
+    });
+
+    it('records the reaction time of each played note', () => {
+      gameState.generateNote(filter);
+      gameState.onStartNewRound();
+      vi.advanceTimersByTime(1500);
+
+      gameState.addPlayedNote(gameState.currentNotes[0]);
+
+      expect(gameState.guessHistory[0]).toMatchObject({ isCorrect: true, reactionTime: 1500 });
+    });
+
+    it('scores a wrong note against the written note', () => {
+      gameState.currentNotes = [{ note: 'E', octave: 4 }];
+
+      gameState.addPlayedNote({ note: 'F', octave: 4 });
+
+      expect(gameState.guessHistory[0]).toMatchObject({
+        actualNote: { note: 'E', octave: 4 },
+        guessedNote: { note: 'F', octave: 4 },
+        isCorrect: false
+      });
+    });
+  });
+
+  describe('scoring', () => {
+    it('names the wrong note and resets the streak', () => {
+      gameState.currentNotes = [{ note: 'E', octave: 4 }];
+      gameState.currentStreak = 3;
+
+      gameState.addPlayedNote({ note: 'F', octave: 4 });
+      const result = gameState.handleIncorrectGuess();
+
+      expect(result.feedback).toBe('Not quite - you played F4. Try again!');
+      expect(gameState.currentStreak).toBe(0);
+    });
+
+    it('completes at the target and reports reaction times per note', () => {
+      gameState.generateNote(filter);
+      gameState.onStartNewRound();
+      vi.advanceTimersByTime(1000);
+      gameState.addPlayedNote(gameState.currentNotes[0]);
+      expect(gameState.handleCorrectGuess().shouldAdvance).toBe(true);
+
+      gameState.generateNote(filter);
+      gameState.onStartNewRound();
+      vi.advanceTimersByTime(3000);
+      gameState.addPlayedNote(gameState.currentNotes[0]);
+      const result = gameState.handleCorrectGuess();
+
+      expect(result.gameCompleted).toBe(true);
+      expect(result.feedback).toBe('🎉 Sight Reading Complete! 2/2 notes');
+
+      const sessionResults = gameState.getSessionResults(result.stats!);
+      expect(sessionResults.averageReactionTime).toBe(2000);
+      expect(Object.values(sessionResults.noteStats).reduce((sum, stat) => sum + stat.correct, 0)).toBe(2);
+    });
+  });
+
+  describe('mode registration', () => {
+    it('registers Sight Reading with the sight reading strategy', () => {
+      const metadata = modeRegistry.get(SIGHT_READING_SUB_MODES.SHOW_STAFF_PLAY_NOTES);
+      expect(metadata?.strategyType).toBe('sight-reading');
+      expect(metadata?.settingsKey).toBe('sightReading');
+
+      const created = createGameState(SIGHT_READING_SUB_MODES.SHOW_STAFF_PLAY_NOTES, DEFAULT_MODE_SETTINGS);
+      expect(created).toBeInstanceOf(SightReadingGameState);
+    });
+  });
+});
@@ -0,0 +1,518 @@
+import React from 'react';
+import type {
+  BaseGameState,
+  SightReadingModeSettings,
+  SightReadingSessionResults,
+  GuessAttempt,
+  GameStats,
+  StatItem,
+  HistoryItem,
+  GameSession
+} from '../types/game';
+import type { CommonDisplayProps, GameActionResult } from './GameStateFactory';
+import type { IGameMode } from './IGameMode';
+import type { Chord, NoteFilter, NoteWithOctave } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { getReadableNotes, getReadableChords } from '../utils/sightReading';
+import { SIGHT_READING_SUB_MODES } from '../constants';
+import SightReadingModeDisplay from '../components/modes/SightReadingModeDisplay';
+
+/**
+ * Outcome of playing a note while reading the current challenge.
+ * - 'wrong': the note is not one of the written notes
+ * - 'partial': the note is written but more notes of the chord are still needed
+ * - 'complete': every written note has been played
+ */
+export type SightReadingStatus = 'wrong' | 'partial' | 'complete';
+
+const formatNote = (note: NoteWithOctave): string => `${note.note}${note.octave}`;
+
+const sortByPitch = (notes: NoteWithOctave[]): NoteWithOctave[] =>
+  [...notes].sort((a, b) => (a.octave * 12 + ALL_NOTES.indexOf(a.note)) - (b.octave * 12 + ALL_NOTES.indexOf(b.note)));
+
+/**
+ * Game state implementation for Sight Reading mode.
+ *
+ * In this mode:
+ * - A note or a root position triad is written on the chosen staff
+ * - The user plays it on the keyboard or a MIDI device, in the written octave
+ * - Chord notes can be played one at a time or together, in any order
+ * - Each played note is recorded with its reaction time
+ * - The session completes once the target number of notes or chords is read
+ */
+export class SightReadingGameState implements IGameMode {
+  elapsedTime: number = 0;
+  isCompleted: boolean = false;
+  totalAttempts: number = 0;
+  longestStreak: number = 0;
+  currentStreak: number = 0;
+  startTime?: Date;
+
+  // Mode-specific properties
+  correctCount: number = 0;
+  currentNotes: NoteWithOctave[] = [];
+  currentChord: Chord | null = null;
+  playedNotes: NoteWithOctave[] = [];
+  pendingNote: NoteWithOctave | null = null;
+  lastWrongNote: NoteWithOctave | null = null;
+  lastStatus: SightReadingStatus | null = null;
+  lastSubmitResult: GameActionResult | null = null;
+  roundStartTime: number | null = null;
+  isRoundSolved: boolean = false;
+  guessHistory: GuessAttempt[] = [];
+  sightReadingSettings: SightReadingModeSettings;
+
+  /**
+   * Creates a new SightReadingGameState instance.
+   *
+   * @param sightReadingSettings - Staff, ledger line limit, challenge type and session target
+   */
+  constructor(sightReadingSettings: SightReadingModeSettings) {
+    this.sightReadingSettings = sightReadingSettings;
+  }
+
+  modeDisplay = (props: CommonDisplayProps) => (
+    <SightReadingModeDisplay
+      gameState={this}
+      {...props}
+    />
+  );
+
+  /**
+   * Stores a played note to be validated on the next submit.
+   *
+   * @param note - The note the user played
+   */
+  selectPlayedNote = (note: NoteWithOctave): void => {
+    this.pendingNote = note;
+  };
+
+  /**
+   * Adds a played note to the reading of the current challenge and records it
+   * with its reaction time. Notes must be played in the written octave.
+   * Playing a chord note that was already played again is ignored.
+   *
+   * @param note - The note the user played
+   * @returns Whether the note was wrong, correct so far, or completed the challenge
+   */
+  addPlayedNote = (note: NoteWithOctave): SightReadingStatus => {
+    const isWritten = this.currentNotes.some(written => this.validateGuess(note, written));
+    const isRepeat = this.playedNotes.some(played => this.validateGuess(note, played));
+
+    if (isWritten && !isRepeat) {
+      this.playedNotes = [...this.playedNotes, note];
+    }
+
+    if (!isRepeat) {
+      const remaining = this.getRemainingNotes();
+      this.recordAttempt(isWritten ? note : remaining[0] ?? this.currentNotes[0], note, isWritten);
+    }
+
+    if (!isWritten) {
+      this.lastWrongNote = note;
+      this.lastStatus = 'wrong';
+    } else {
+      this.lastStatus = this.getRemainingNotes().length === 0 ? 'complete' : 'partial';
+    }
+
+    return this.lastStatus;
+  };
+
+  /**
+   * Gets the written notes that have not been played yet.
+   *
+   * @returns The remaining notes, lowest first
+   */
+  getRemainingNotes = (): NoteWithOctave[] => {
+    return this.currentNotes.filter(written => !this.playedNotes.some(played => this.validateGuess(played, written)));
+  };
+
+  handleCorrectGuess = (): GameActionResult => {
+    const newCorrectCount = this.correctCount + 1;
+    const newCurrentStreak = this.currentStreak + 1;
+    const newLongestStreak = Math.max(this.longestStreak, newCurrentStreak);
+    const newTotalAttempts = this.totalAttempts + 1;
+
+    this.isRoundSolved = true;
+    this.pendingNote = null;
+
+    // Update state
+    this.correctCount = newCorrectCount;
+    this.currentStreak = newCurrentStreak;
+    this.longestStreak = newLongestStreak;
+    this.totalAttempts = newTotalAttempts;
+
+    const target = this.sightReadingSettings.targetNotes;
+    const unit = this.sightReadingSettings.challengeType === 'chord' ? 'chords' : 'notes';
+    let result: GameActionResult;
+
+    if (newCorrectCount >= target) {
+      this.isCompleted = true;
+
+      const finalStats: GameStats = {
+        completionTime: this.elapsedTime,
+        accuracy: (newCorrectCount / newTotalAttempts) * 100,
+        averageTimePerNote: this.elapsedTime / newCorrectCount,
+        longestStreak: newLongestStreak,
+        totalAttempts: newTotalAttempts,
+        correctAttempts: newCorrectCount
+      };
+
+      result = {
+        gameCompleted: true,
+        feedback: `🎉 Sight Reading Complete! ${newCorrectCount}/${target} ${unit}`,
+        shouldAdvance: false,
+        stats: finalStats
+      };
+    } else {
+      result = {
+        gameCompleted: false,
+        feedback: `Correct! ${this.getChallengeName()} (${newCorrectCount}/${target})`,
+        shouldAdvance: true
+      };
+    }
+
+    this.lastSubmitResult = result;
+    return result;
+  };
+
+  /**
+   * Handles a correct chord note when more notes are still needed.
+   * The round is not scored yet.
+   *
+   * @returns A non-scoring result with the chord's progress
+   */
+  handlePartialReading = (): GameActionResult => {
+    const result: GameActionResult = {
+      gameCompleted: false,
+      feedback: `Keep going... ${this.playedNotes.length}/${this.currentNotes.length} notes`,
+      shouldAdvance: false
+    };
+
+    this.pendingNote = null;
+    this.lastSubmitResult = result;
+    return result;
+  };
+
+  handleIncorrectGuess = (): GameActionResult => {
+    this.currentStreak = 0;
+    this.totalAttempts = this.totalAttempts + 1;
+    this.pendingNote = null;
+
+    const wrongNote = this.lastWrongNote;
+    this.lastWrongNote = null;
+
+    const result: GameActionResult = {
+      gameCompleted: false,
+      feedback: wrongNote ? `Not quite - you played ${formatNote(wrongNote)}. Try again!` : 'Try again!',
+      shouldAdvance: false
+    };
+
+    this.lastSubmitResult = result;
+    return result;
+  };
+
+  updateState = (updates: Partial<BaseGameState>) => {
+    Object.assign(this, updates);
+  };
+
+  getFeedbackMessage = (currentNote: boolean): string => {
+    if (!currentNote) {
+      return 'Click "Start Practice" to begin your sight reading session';
+    }
+
+    const what = this.sightReadingSettings.challengeType === 'chord' ? 'chord' : 'note';
+    return `Play the written ${what} (${this.correctCount}/${this.sightReadingSettings.targetNotes})`;
+  };
+
+  onStartNewRound = (): void => {
+    if (!this.startTime && !this.isCompleted) {
+      this.startTime = new Date();
+    }
+    this.roundStartTime = Date.now();
+  };
+
+  getTimerMode = (): 'count-up' | 'count-down' | 'none' => {
+    return 'count-up';
+  };
+
+  getCompletionMessage = (): string => {
+    if (!this.isCompleted) return '';
+    return '🎉 Sight Reading Complete! Piano is now in free play mode.';
+  };
+
+  getSessionSettings = (): Record<string, unknown> => {
+    return {
+      staff: this.sightReadingSettings.staff,
+      maxLedgerLines: this.sightReadingSettings.maxLedgerLines,
+      challengeType: this.sightReadingSettings.challengeType,
+      targetNotes: this.sightReadingSettings.targetNotes
+    };
+  };
+
+  getSessionResults = (stats: GameStats): SightReadingSessionResults => {
+    const results: SightReadingSessionResults = {
+      notesCompleted: stats.correctAttempts,
+      longestStreak: stats.longestStreak,
+      averageTimePerNote: stats.averageTimePerNote,
+      accuracy: stats.accuracy,
+      staff: this.sightReadingSettings.staff,
+      averageReactionTime: this.getAverageReactionTime(this.guessHistory.filter(a => a.isCorrect)),
+      noteStats: this.calculateNoteStats()
+    };
+
+    return results;
+  };
+
+  /**
+   * Averages the reaction times of the given attempts.
+   *
+   * @returns The average in milliseconds, or 0 when no attempt has a reaction time
+   */
+  getAverageReactionTime = (attempts: GuessAttempt[]): number => {
+    const times = attempts
+      .map(attempt => attempt.reactionTime)
+      .filter((time): time is number => time !== undefined);
+
+    return times.length > 0 ? times.reduce((sum, time) => sum + time, 0) / times.length : 0;
+  };
+
+  /**
+   * Calculates accuracy and average reaction time grouped by written note.
+   * Reaction times only count correct answers.
+   *
+   * @returns Object mapping note names (e.g., "F#5") to their statistics
+   */
+  private calculateNoteStats = (): SightReadingSessionResults['noteStats'] => {
+    const stats: SightReadingSessionResults['noteStats'] = {};
+    const correctAttempts: Record<string, GuessAttempt[]> = {};
+
+    for (const attempt of this.guessHistory) {
+      const name = formatNote(attempt.actualNote);
+
+      if (!stats[name]) {
+        stats[name] = { attempts: 0, correct: 0, accuracy: 0, averageReactionTime: 0 };
+        correctAttempts[name] = [];
+      }
+
+      stats[name].attempts++;
+      if (attempt.isCorrect) {
+        stats[name].correct++;
+        correctAttempts[name].push(attempt);
+      }
+    }
+
+    for (const name in stats) {
+      const { attempts, correct } = stats[name];
+      stats[name].accuracy = attempts > 0 ? (correct / attempts) * 100 : 0;
+      stats[name].averageReactionTime = this.getAverageReactionTime(correctAttempts[name]);
+    }
+
+    return stats;
+  };
+
+  /**
+   * Adds a played note to the guess history with the time since the challenge was shown.
+   *
+   * @param actualNote - The written note the played note is scored against
+   * @param guessedNote - The note the user played
+   * @param isCorrect - Whether the played note is written
+   */
+  private recordAttempt = (actualNote: NoteWithOctave, guessedNote: NoteWithOctave, isCorrect: boolean): void => {
+    const attempt: GuessAttempt = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+      actualNote,
+      guessedNote,
+      isCorrect,
+      reactionTime: this.roundStartTime !== null ? Date.now() - this.roundStartTime : undefined
+    };
+
+    this.guessHistory = [...this.guessHistory, attempt];
+  };
+
+  /**
+   * Gets the name of the current challenge for feedback: the chord name or the note.
+   */
+  private getChallengeName = (): string => {
+    if (this.currentChord) return this.currentChord.name;
+    return this.currentNotes.map(formatNote).join(', ');
+  };
+
+  // End Screen Strategy Methods
+  getCelebrationEmoji = (): string => {
+    return '📖';
+  };
+
+  getHeaderTitle = (): string => {
+    return 'Well Done!';
+  };
+
+  getModeCompletionText = (): string => {
+    return 'Sight Reading Complete';
+  };
+
+  getPerformanceRating = (gameStats: GameStats): string => {
+    const accuracy = gameStats.accuracy;
+
+    if (accuracy >= 95) return 'Fluent Reader! 🌟';
+    if (accuracy >= 85) return 'Excellent Reading! 🎯';
+    if (accuracy >= 75) return 'Great Progress! 🎵';
+    if (accuracy >= 65) return 'Keep Practicing! 📚';
+    return 'Good Effort! 💪';
+  };
+
+  getHeaderThemeClass = (): string => {
+    return 'sight-reading-complete';
+  };
+
+  getStatsItems = (gameStats: GameStats, sessionResults: Record<string, unknown>): StatItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const formatReactionTime = (milliseconds: number): string => `${(milliseconds / 1000).toFixed(1)}s`;
+
+    const results = sessionResults as Partial<SightReadingSessionResults>;
+
+    const stats: StatItem[] = [
+      {
+        label: 'Time',
+        value: formatTime(gameStats.completionTime),
+        className: 'stat-neutral'
+      },
+      {
+        label: 'Accuracy',
+        value: `${gameStats.accuracy.toFixed(1)}%`,
+        className: gameStats.accuracy >= 85 ? 'stat-success' : gameStats.accuracy >= 65 ? 'stat-neutral' : 'stat-warning'
+      },
+      {
+        label: 'Longest Streak',
+        value: gameStats.longestStreak.toString(),
+        className: 'stat-neutral'
+      }
+    ];
+
+    if (results.averageReactionTime) {
+      stats.push({
+        label: 'Avg Reaction',
+        value: formatReactionTime(results.averageReactionTime),
+        className: 'stat-neutral'
+      });
+    }
+
+    // Highlight the note that took longest to find
+    const slowest = Object.entries(results.noteStats || {})
+      .filter(([, stat]) => stat.correct > 0)
+      .sort(([, a], [, b]) => b.averageReactionTime - a.averageReactionTime)[0];
+
+    if (slowest) {
+      stats.push({
+        label: 'Slowest Note',
+        value: `${slowest[0]} (${formatReactionTime(slowest[1].averageReactionTime)})`,
+        className: 'stat-warning'
+      });
+    }
+
+    return stats;
+  };
+
+  getAdditionalStatsSection = (): React.ReactNode => {
+    return null;
+  };
+
+  getHistoryTitle = (settings: Record<string, unknown>): string => {
+    const targetNotes = settings.targetNotes || this.sightReadingSettings.targetNotes;
+    return `Your Recent ${targetNotes} Sight Reading Sessions`;
+  };
+
+  getHistoryItems = (sessions: GameSession[]): HistoryItem[] => {
+    const formatTime = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.floor(seconds % 60);
+      return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const formatRelativeTime = (timestamp: Date): string => {
+      const now = new Date();
+      const diffMs = now.getTime() - timestamp.getTime();
+      const diffMinutes = Math.floor(diffMs / 60000);
+      const diffHours = Math.floor(diffMinutes / 60);
+      const diffDays = Math.floor(diffHours / 24);
+
+      if (diffMinutes < 1) return 'just now';
+      if (diffMinutes < 60) return `${diffMinutes}m ago`;
+      if (diffHours < 24) return `${diffHours}h ago`;
+      if (diffDays < 7) return `${diffDays}d ago`;
+      return timestamp.toLocaleDateString();
+    };
+
+    return sessions.map(session => ({
+      primaryStat: formatTime(session.completionTime),
+      secondaryStat: `${session.accuracy.toFixed(1)}%`,
+      metadata: formatRelativeTime(session.timestamp),
+      className: 'history-neutral'
+    }));
+  };
+
+  shouldShowHistory = (sessions: GameSession[]): boolean => {
+    return sessions.length > 0;
+  };
+
+  // ========================================
+  // IGameMode Implementation
+  // ========================================
+
+  /**
+   * Writes a new note or chord that the note filter allows and that fits the
+   * staff within the ledger line limit.
+   *
+   * @param filter - Octave range and allowed notes (chord roots, for chords)
+   * @returns The lowest written note
+   * @throws Error if nothing can be written with the current settings
+   */
+  generateNote = (filter: NoteFilter): NoteWithOctave => {
+    const { staff, maxLedgerLines, challengeType } = this.sightReadingSettings;
+
+    if (challengeType === 'chord') {
+      const chords = getReadableChords(filter, staff, maxLedgerLines);
+      if (chords.length === 0) {
+        throw new Error('No chords can be written on the staff with current filter settings');
+      }
+
+      this.currentChord = chords[Math.floor(Math.random() * chords.length)];
+      this.currentNotes = sortByPitch(this.currentChord.notes);
+    } else {
+      const notes = getReadableNotes(filter, staff, maxLedgerLines);
+      if (notes.length === 0) {
+        throw new Error('No notes can be written on the staff with current filter settings');
+      }
+
+      this.currentChord = null;
+      this.currentNotes = [notes[Math.floor(Math.random() * notes.length)]];
+    }
+
+    this.playedNotes = [];
+    this.pendingNote = null;
+    this.lastWrongNote = null;
+    this.lastStatus = null;
+    this.lastSubmitResult = null;
+    this.isRoundSolved = false;
+
+    return this.currentNotes[0];
+  };
+
+  validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
+    return guess.note === actual.note && guess.octave === actual.octave;
+  };
+
+  isGameComplete = (): boolean => {
+    return this.isCompleted;
+  };
+
+  getMode = (): string => {
+    return SIGHT_READING_SUB_MODES.SHOW_STAFF_PLAY_NOTES;
+  };
+}
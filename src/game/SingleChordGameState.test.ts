@@ -2,8 +2,11 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { SingleChordGameState } from './SingleChordGameState';
 import type { NoteTrainingModeSettings } from '../types/game';
 import type { NoteWithOctave } from '../types/music';
+import { ChordType, DEFAULT_CHORD_FILTER } from '../types/music';
 import type { RoundContext } from '../types/orchestrator';
+import type { ChordPerformance } from '../types/midi';
 import { ChordEngine } from '../utils/chordEngine';
+import { exercisePlayer } from '../utils/exercisePlayer';
 
 /**
  * SingleChordGameState Callback Tests
@@ -331,3 +334,108 @@ describe('SingleChordGameState - Callbacks', () => {
     });
   });
 });
+
+/**
+ * SingleChordGameState Chord Performance Tests
+ *
+ * Tests for scoring chords played on a MIDI keyboard (Chord Voicing mode).
+ */
+describe('SingleChordGameState - Chord Performance', () => {
+  let gameState: SingleChordGameState;
+
+  const C_MAJOR_NOTES: NoteWithOctave[] = [{ note: 'C', octave: 4 }, { note: 'E', octave: 4 }, { note: 'G', octave: 4 }];
+
+  const performance = (overrides: Partial<ChordPerformance> = {}): ChordPerformance => ({
+    playedNotes: C_MAJOR_NOTES,
+    timingSpread: 15,
+    isSimultaneous: true,
+    velocityBalance: 90,
+    averageVelocity: 80,
+    voicingAccuracy: 100,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    gameState = new SingleChordGameState({
+      selectedSubMode: 'show-chord-guess-notes',
+      targetChords: 2,
+      sessionDuration: 0,
+      chordFilter: DEFAULT_CHORD_FILTER,
+      onsetWindow: 50
+    }, 'perform');
+    gameState.currentChord = ChordEngine.buildChord('C', ChordType.MAJOR, 4);
+  });
+
+  it('scores a chord played together as correct and keeps its performance', () => {
+    gameState.selectPerformance(performance());
+    const result = gameState.handleSubmitAnswer();
+
+    expect(result.shouldAdvance).toBe(true);
+    expect(gameState.pendingPerformance).toBeNull();
+    expect(gameState.guessHistory[0]).toMatchObject({ isCorrect: true, performance: { timingSpread: 15 } });
+  });
+
+  it('rejects the right notes played too far apart', () => {
+    gameState.currentStreak = 2;
+
+    gameState.selectPerformance(performance({ timingSpread: 120, isSimultaneous: false }));
+    const result = gameState.handleSubmitAnswer();
+
+    expect(result.shouldAdvance).toBe(false);
+    expect(result.feedback).toBe('Right notes, but they started 120ms apart. Play them together (within 50ms)!');
+    expect(gameState.currentStreak).toBe(0);
+    expect(gameState.lastSubmitResult).toBe(result);
+  });
+
+  it('scores missing notes as incorrect rather than partial', () => {
+    gameState.selectPerformance(performance({ playedNotes: C_MAJOR_NOTES.slice(0, 2) }));
+    const result = gameState.handleSubmitAnswer();
+
+    expect(result.feedback).toContain('⊝ 1 missing');
+    expect(gameState.guessHistory[0].isCorrect).toBe(false);
+  });
+
+  it('reports averaged performance stats with the session results', () => {
+    gameState.selectPerformance(performance({ timingSpread: 100, isSimultaneous: false, velocityBalance: 70 }));
+    gameState.handleSubmitAnswer();
+    gameState.selectPerformance(performance({ timingSpread: 20, velocityBalance: 90 }));
+    gameState.handleSubmitAnswer();
+    gameState.selectPerformance(performance());
+    const result = gameState.handleSubmitAnswer();
+
+    const sessionResults = gameState.getSessionResults(result.stats!);
+    expect(sessionResults.subMode).toBe('play-chord-voicing');
+    expect(sessionResults.performanceStats).toMatchObject({
+      averageTimingSpread: 45,
+      averageVelocityBalance: (70 + 90 + 90) / 3,
+      simultaneousRate: (2 / 3) * 100
+    });
+    expect(sessionResults.guessHistory[0]).toMatchObject({ timingSpread: 100, velocityBalance: 70 });
+  });
+
+  it('leaves performance stats out of selection sessions', () => {
+    const selectState = new SingleChordGameState(gameState.noteTrainingSettings);
+    selectState.currentChord = gameState.currentChord;
+    C_MAJOR_NOTES.forEach(note => selectState.handleNoteSelection(note));
+    selectState.handleSubmitAnswer();
+    const result = selectState.handleCorrectGuess();
+
+    expect(selectState.getSessionResults(result.stats!).performanceStats).toBeUndefined();
+    expect(selectState.getMode()).toBe('show-chord-guess-notes');
+    expect(gameState.getMode()).toBe('play-chord-voicing');
+  });
+
+  it('plays the chords of an imported exercise in order', () => {
+    const chords = [ChordEngine.buildChord('D', ChordType.MINOR, 4), ChordEngine.buildChord('G', ChordType.MAJOR, 3)];
+    exercisePlayer.setExercise({ name: 'Cadence', kind: 'chords', chords });
+
+    try {
+      gameState.generateNote(null as never);
+      expect(gameState.currentChord).toBe(chords[0]);
+      gameState.generateNote(null as never);
+      expect(gameState.currentChord).toBe(chords[1]);
+    } finally {
+      exercisePlayer.setExercise(null);
+    }
+  });
+});
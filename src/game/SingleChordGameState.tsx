@@ -9,17 +9,31 @@ import type {
   ChordGuessAttempt,
   InversionStats,
   InversionStatsAggregate,
-  NoteTrainingSessionResults
+  NoteTrainingSessionResults,
+  ChordPerformanceStats
 } from '../types/game';
 import type { CommonDisplayProps, GameActionResult, GameStateWithDisplay } from './GameStateFactory';
 import type { Chord, NoteWithOctave, NoteFilter, NoteHighlight } from '../types/music';
 import type { RoundContext } from '../types/orchestrator';
+import type { ChordPerformance } from '../types/midi';
 import type { IGameMode } from './IGameMode';
 import { ChordEngine } from '../utils/chordEngine';
+import { reviewScheduler } from '../utils/spacedRepetition';
+import { exercisePlayer } from '../utils/exercisePlayer';
+import { DEFAULT_ONSET_WINDOW } from '../utils/chordPerformance';
 import { NOTE_TRAINING_SUB_MODES } from '../constants';
 import SingleChordModeDisplay from '../components/modes/SingleChordModeDisplay';
+import ChordVoicingModeDisplay from '../components/modes/ChordVoicingModeDisplay';
 import ChordProgressSection from '../components/ChordProgressSection';
 
+/**
+ * How the user answers a chord.
+ * - 'select': toggle the chord's notes on the keyboard, then submit (Chord Training)
+ * - 'perform': play the written voicing on a MIDI keyboard with all notes
+ *   pressed together (Chord Voicing)
+ */
+export type ChordAnswerMethod = 'select' | 'perform';
+
 /**
  * Game state implementation for "Single Chord" mode.
  *
@@ -28,6 +42,10 @@ import ChordProgressSection from '../components/ChordProgressSection';
  * - The user must identify all individual notes that make up the chord
  * - Tracks partial correctness (which notes are correct/incorrect)
  * - Supports multiple completion criteria (target chords, accuracy, duration)
+ *
+ * When answering by performance, a played chord is scored the same way, but
+ * it only counts as correct when its notes start within the onset window.
+ * The timing, velocity and voicing of each played chord are kept with its attempt.
  */
 export class SingleChordGameState implements IGameMode {
   // BaseGameState properties
@@ -49,15 +67,19 @@ export class SingleChordGameState implements IGameMode {
   noteTrainingSettings: NoteTrainingModeSettings;
   guessHistory: ChordGuessAttempt[] = [];
   lastSubmitResult: GameActionResult | null = null;
+  answerMethod: ChordAnswerMethod;
+  pendingPerformance: ChordPerformance | null = null;
 
   /**
    * Creates a new ShowChordGuessNotesGameState instance.
    *
    * @param noteTrainingSettings - Configuration for note training mode including
    *                               chord filters, session duration, and target goals
+   * @param answerMethod - Whether chords are answered by selecting notes or by playing them
    */
-  constructor(noteTrainingSettings: NoteTrainingModeSettings) {
+  constructor(noteTrainingSettings: NoteTrainingModeSettings, answerMethod: ChordAnswerMethod = 'select') {
     this.noteTrainingSettings = noteTrainingSettings;
+    this.answerMethod = answerMethod;
   }
 
   /**
@@ -67,6 +89,13 @@ export class SingleChordGameState implements IGameMode {
    * @returns React element for the mode display
    */
   modeDisplay = (props: CommonDisplayProps) => {
+    if (this.answerMethod === 'perform') {
+      return React.createElement(ChordVoicingModeDisplay, {
+        ...props,
+        gameState: this
+      });
+    }
+
     return React.createElement(SingleChordModeDisplay, {
       ...props,
       gameState: this,
@@ -301,24 +330,13 @@ export class SingleChordGameState implements IGameMode {
       };
     }
 
-    // Validate selected notes against current chord (octave-agnostic)
-    // We only care about note names (G, A#, D), not octaves, since the piano
-    // may not show all octaves and users are learning chord composition, not voicing
-    this.correctNotes.clear();
-    this.incorrectNotes.clear();
-
-    for (const selectedNote of this.selectedNotes) {
-      const isInChord = this.currentChord.notes.some(
-        chordNote => chordNote.note === selectedNote.note
-      );
-
-      if (isInChord) {
-        this.correctNotes.add(selectedNote);
-      } else {
-        this.incorrectNotes.add(selectedNote);
-      }
+    // A chord played on a MIDI keyboard is scored as a whole
+    if (this.pendingPerformance) {
+      return this.handlePerformanceSubmit(this.pendingPerformance);
     }
 
+    this.validateSelectedNotes();
+
     // Check if user selected any incorrect notes
     if (this.incorrectNotes.size > 0) {
       const result = this.handleIncorrectGuess();
@@ -363,6 +381,77 @@ export class SingleChordGameState implements IGameMode {
     return result;
   };
 
+  /**
+   * Stores a chord played on a MIDI keyboard to be scored on the next submit.
+   * The played notes replace the current selection.
+   *
+   * @param performance - Analysis of the played chord
+   */
+  selectPerformance = (performance: ChordPerformance): void => {
+    this.pendingPerformance = performance;
+    this.selectedNotes = new Set(performance.playedNotes);
+  };
+
+  /**
+   * Scores a played chord. It is correct when it has all of the chord's notes,
+   * no others, and every note started within the onset window.
+   *
+   * @param performance - Analysis of the played chord
+   * @returns GameActionResult for the attempt
+   */
+  private handlePerformanceSubmit = (performance: ChordPerformance): GameActionResult => {
+    this.pendingPerformance = null;
+    this.validateSelectedNotes();
+
+    const hasRightNotes = this.incorrectNotes.size === 0 && this.isChordComplete();
+    const isCorrect = hasRightNotes && performance.isSimultaneous;
+
+    let result = isCorrect ? this.handleCorrectGuess() : this.handleIncorrectGuess();
+
+    // Keep the performance with the attempt that was just recorded
+    const lastAttempt = this.guessHistory[this.guessHistory.length - 1];
+    if (lastAttempt) {
+      this.guessHistory = [...this.guessHistory.slice(0, -1), { ...lastAttempt, performance }];
+    }
+
+    if (hasRightNotes && !performance.isSimultaneous) {
+      const onsetWindow = this.noteTrainingSettings.onsetWindow ?? DEFAULT_ONSET_WINDOW;
+      result = {
+        ...result,
+        feedback: `Right notes, but they started ${Math.round(performance.timingSpread)}ms apart. Play them together (within ${onsetWindow}ms)!`
+      };
+    }
+
+    this.lastSubmitResult = result;
+    return result;
+  };
+
+  /**
+   * Sorts the selected notes into correct and incorrect notes.
+   * Octave-agnostic: only note names are compared.
+   */
+  private validateSelectedNotes = (): void => {
+    if (!this.currentChord) return;
+
+    // Validate selected notes against current chord (octave-agnostic)
+    // We only care about note names (G, A#, D), not octaves, since the piano
+    // may not show all octaves and users are learning chord composition, not voicing
+    this.correctNotes.clear();
+    this.incorrectNotes.clear();
+
+    for (const selectedNote of this.selectedNotes) {
+      const isInChord = this.currentChord.notes.some(
+        chordNote => chordNote.note === selectedNote.note
+      );
+
+      if (isInChord) {
+        this.correctNotes.add(selectedNote);
+      } else {
+        this.incorrectNotes.add(selectedNote);
+      }
+    }
+  };
+
   /**
    * Updates the game state with partial updates.
    *
@@ -383,6 +472,10 @@ export class SingleChordGameState implements IGameMode {
       return 'Click "Start Practice" to begin chord training';
     }
 
+    if (this.answerMethod === 'perform') {
+      return 'Play the chord on your MIDI keyboard with all notes together';
+    }
+
     const totalNotes = this.currentChord.notes.length;
     const correctCount = this.correctNotes.size;
 
@@ -475,7 +568,9 @@ export class SingleChordGameState implements IGameMode {
       guessHistory: this.serializeGuessHistory(),
       firstTryCorrect,
       totalChordsAttempted: this.guessHistory.length,
-      subMode: this.noteTrainingSettings.selectedSubMode
+      subMode: this.answerMethod === 'perform'
+        ? NOTE_TRAINING_SUB_MODES.PLAY_CHORD_VOICING
+        : this.noteTrainingSettings.selectedSubMode
     };
 
     // Only include inversionStats if inversions were actually used
@@ -483,6 +578,12 @@ export class SingleChordGameState implements IGameMode {
       results.inversionStats = inversionStats;
     }
 
+    // Only include performanceStats if chords were played on a MIDI keyboard
+    const performanceStats = this.calculatePerformanceStats();
+    if (performanceStats) {
+      results.performanceStats = performanceStats;
+    }
+
     return results;
   };
 
@@ -585,6 +686,30 @@ export class SingleChordGameState implements IGameMode {
     return { rootPosition, inversions, byInversion };
   };
 
+  /**
+   * Averages the timing, velocity and voicing of the played chords.
+   *
+   * @returns Aggregated performance statistics or null if no chord was played on a MIDI keyboard
+   */
+  private calculatePerformanceStats = (): ChordPerformanceStats | null => {
+    const performances = this.guessHistory
+      .map(attempt => attempt.performance)
+      .filter((performance): performance is ChordPerformance => performance !== undefined);
+
+    if (performances.length === 0) {
+      return null;
+    }
+
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    return {
+      averageTimingSpread: average(performances.map(p => p.timingSpread)),
+      averageVelocityBalance: average(performances.map(p => p.velocityBalance)),
+      averageVoicingAccuracy: average(performances.map(p => p.voicingAccuracy)),
+      simultaneousRate: (performances.filter(p => p.isSimultaneous).length / performances.length) * 100
+    };
+  };
+
   /**
    * Serializes the guess history into a format suitable for localStorage.
    * Converts Date objects to ISO strings and simplifies chord data.
@@ -601,7 +726,12 @@ export class SingleChordGameState implements IGameMode {
       accuracy: attempt.accuracy,
       correctNotesCount: attempt.correctNotes?.length || 0,
       missedNotesCount: attempt.missedNotes?.length || 0,
-      incorrectNotesCount: attempt.incorrectNotes?.length || 0
+      incorrectNotesCount: attempt.incorrectNotes?.length || 0,
+      ...(attempt.performance && {
+        timingSpread: attempt.performance.timingSpread,
+        velocityBalance: attempt.performance.velocityBalance,
+        voicingAccuracy: attempt.performance.voicingAccuracy
+      })
     }));
   };
 
@@ -736,6 +866,28 @@ export class SingleChordGameState implements IGameMode {
       });
     }
 
+    // Add performance stats if chords were played on a MIDI keyboard
+    const performanceStats = sessionResults.performanceStats as ChordPerformanceStats | undefined;
+    if (performanceStats) {
+      const onsetWindow = this.noteTrainingSettings.onsetWindow ?? DEFAULT_ONSET_WINDOW;
+      stats.push({
+        label: 'Timing Spread',
+        value: `${Math.round(performanceStats.averageTimingSpread)}ms`,
+        className: performanceStats.averageTimingSpread <= onsetWindow ? 'stat-success' : 'stat-warning'
+      });
+      stats.push({
+        label: 'Velocity Balance',
+        value: `${Math.round(performanceStats.averageVelocityBalance)}%`,
+        className: performanceStats.averageVelocityBalance >= 85 ? 'stat-success' : 'stat-neutral'
+      });
+      stats.push({
+        label: 'Voicing',
+        value: `${performanceStats.averageVoicingAccuracy.toFixed(1)}%`,
+        className: performanceStats.averageVoicingAccuracy >= 85 ? 'stat-success' :
+                   performanceStats.averageVoicingAccuracy >= 65 ? 'stat-neutral' : 'stat-warning'
+      });
+    }
+
     return stats;
   };
 
@@ -1054,15 +1206,17 @@ export class SingleChordGameState implements IGameMode {
    * @returns The first note of the generated chord
    */
   generateNote = (filter: NoteFilter): NoteWithOctave => {
-    // Generate a new chord using the chord filter
-    this.currentChord = ChordEngine.getRandomChordFromFilter(
-      this.noteTrainingSettings.chordFilter
+    // Take the next chord of an imported exercise, or generate one using the chord filter
+    this.currentChord = exercisePlayer.nextChord() ?? ChordEngine.getRandomChordFromFilter(
+      this.noteTrainingSettings.chordFilter,
+      reviewScheduler.selectChord
     );
 
     // Reset selection state for new chord
     this.selectedNotes = new Set();
     this.correctNotes = new Set();
     this.incorrectNotes = new Set();
+    this.pendingPerformance = null;
 
     // Return the first note of the chord for orchestrator compatibility
     return this.currentChord.notes[0];
@@ -1097,6 +1251,8 @@ export class SingleChordGameState implements IGameMode {
    * @returns Mode identifier string
    */
   getMode = (): string => {
-    return NOTE_TRAINING_SUB_MODES.SHOW_CHORD_GUESS_NOTES;
+    return this.answerMethod === 'perform'
+      ? NOTE_TRAINING_SUB_MODES.PLAY_CHORD_VOICING
+      : NOTE_TRAINING_SUB_MODES.SHOW_CHORD_GUESS_NOTES;
   };
 }
@@ -13,8 +13,11 @@ import type { IGameMode } from './IGameMode';
 import type { NoteWithOctave, NoteFilter } from '../types/music';
 import type { RoundContext } from '../types/orchestrator';
 import { AudioEngine } from '../utils/audioEngine';
+import { reviewScheduler } from '../utils/spacedRepetition';
+import { exercisePlayer } from '../utils/exercisePlayer';
 import { EAR_TRAINING_SUB_MODES } from '../constants';
 import SurvivalModeDisplay from '../components/modes/SurvivalModeDisplay';
+import NoteStatsSection from '../components/NoteStatsSection';
 import '../components/strategies/SurvivalGameEndModal.css';
 
 export class SurvivalGameStateImpl implements SurvivalGameState, IGameMode {
@@ -295,18 +298,21 @@ export class SurvivalGameStateImpl implements SurvivalGameState, IGameMode {
   };
 
   getAdditionalStatsSection = (sessionResults: Record<string, any>): React.ReactNode => {
-    return React.createElement('div', { className: 'survival-outcome-section' }, [
-      React.createElement('h4', { key: 'title' }, 'Battle Summary'),
-      React.createElement('div', { key: 'summary', className: 'outcome-summary' }, [
-        React.createElement('div', {
-          key: 'status',
-          className: `outcome-status ${sessionResults.survived ? 'victory' : 'defeat'}`
-        }, sessionResults.survived
-          ? `🏆 You survived the full challenge with ${sessionResults.finalHealth} HP remaining!`
-          : `⚰️ You ran out of health and survived for ${Math.floor(sessionResults.averageTimePerNote * sessionResults.notesCompleted / 60)} minutes.`
-        )
-      ])
-    ]);
+    return [
+      React.createElement('div', { key: 'outcome', className: 'survival-outcome-section' }, [
+        React.createElement('h4', { key: 'title' }, 'Battle Summary'),
+        React.createElement('div', { key: 'summary', className: 'outcome-summary' }, [
+          React.createElement('div', {
+            key: 'status',
+            className: `outcome-status ${sessionResults.survived ? 'victory' : 'defeat'}`
+          }, sessionResults.survived
+            ? `🏆 You survived the full challenge with ${sessionResults.finalHealth} HP remaining!`
+            : `⚰️ You ran out of health and survived for ${Math.floor(sessionResults.averageTimePerNote * sessionResults.notesCompleted / 60)} minutes.`
+          )
+        ])
+      ]),
+      React.createElement(NoteStatsSection, { key: 'note-stats' })
+    ];
   };
 
   getHistoryTitle = (settings: Record<string, any>): string => {
@@ -337,7 +343,7 @@ export class SurvivalGameStateImpl implements SurvivalGameState, IGameMode {
   // ========================================
 
   generateNote = (filter: NoteFilter): NoteWithOctave => {
-    return AudioEngine.getRandomNoteFromFilter(filter);
+    return exercisePlayer.nextNote() ?? AudioEngine.getRandomNoteFromFilter(filter, reviewScheduler.selectNote);
   };
 
   validateGuess = (guess: NoteWithOctave, actual: NoteWithOctave): boolean => {
@@ -0,0 +1,21 @@
+import { modeRegistry } from '../ModeRegistry';
+import { MELODIC_DICTATION_SUB_MODES, TRAINING_MODES } from '../../constants';
+import { DEFAULT_MODE_SETTINGS } from '../../types/game';
+import { DictationGameState } from '../DictationGameState';
+import DictationModeSettings from '../../components/settings/DictationModeSettings';
+
+// Register Melodic Dictation Mode
+modeRegistry.register({
+  id: MELODIC_DICTATION_SUB_MODES.DICTATION,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'melodic-dictation',
+  icon: '✍️',
+  title: 'Melodic Dictation',
+  description: 'Hear a short melody and play it back note by note',
+  settingsComponent: DictationModeSettings,
+  settingsKey: 'dictation',
+  gameStateFactory: (dictationSettings) => new DictationGameState(dictationSettings),
+  defaultSettings: {
+    dictation: DEFAULT_MODE_SETTINGS.dictation
+  }
+});
@@ -9,6 +9,13 @@
 // Import registration files - these execute on import
 import './earTrainingModes';
 import './noteTrainingModes';
+import './intervalTrainingModes';
+import './scaleTrainingModes';
+import './progressionTrainingModes';
+import './sightReadingModes';
+import './scaleDegreeModes';
+import './dictationModes';
+import './rhythmModes';
 
 // Re-export the registry for convenience
 export { modeRegistry } from '../ModeRegistry';
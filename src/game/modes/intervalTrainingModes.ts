@@ -0,0 +1,54 @@
+import { modeRegistry } from '../ModeRegistry';
+import { INTERVAL_TRAINING_SUB_MODES, TRAINING_MODES } from '../../constants';
+import { DEFAULT_MODE_SETTINGS } from '../../types/game';
+import { IntervalDirection } from '../../types/music';
+import { IntervalGameState } from '../IntervalGameState';
+import IntervalModeSettings from '../../components/settings/IntervalModeSettings';
+
+// Register Ascending Interval Mode
+modeRegistry.register({
+  id: INTERVAL_TRAINING_SUB_MODES.ASCENDING,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'interval-training',
+  icon: '⬆️',
+  title: 'Ascending Intervals',
+  description: 'Name the interval between two rising notes',
+  settingsComponent: IntervalModeSettings,
+  settingsKey: 'interval',
+  gameStateFactory: (intervalSettings) => new IntervalGameState(intervalSettings, IntervalDirection.ASCENDING),
+  defaultSettings: {
+    interval: DEFAULT_MODE_SETTINGS.interval
+  }
+});
+
+// Register Descending Interval Mode
+modeRegistry.register({
+  id: INTERVAL_TRAINING_SUB_MODES.DESCENDING,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'interval-training',
+  icon: '⬇️',
+  title: 'Descending Intervals',
+  description: 'Name the interval between two falling notes',
+  settingsComponent: IntervalModeSettings,
+  settingsKey: 'interval',
+  gameStateFactory: (intervalSettings) => new IntervalGameState(intervalSettings, IntervalDirection.DESCENDING),
+  defaultSettings: {
+    interval: DEFAULT_MODE_SETTINGS.interval
+  }
+});
+
+// Register Harmonic Interval Mode
+modeRegistry.register({
+  id: INTERVAL_TRAINING_SUB_MODES.HARMONIC,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'interval-training',
+  icon: '🎼',
+  title: 'Harmonic Intervals',
+  description: 'Name the interval between two notes played together',
+  settingsComponent: IntervalModeSettings,
+  settingsKey: 'interval',
+  gameStateFactory: (intervalSettings) => new IntervalGameState(intervalSettings, IntervalDirection.HARMONIC),
+  defaultSettings: {
+    interval: DEFAULT_MODE_SETTINGS.interval
+  }
+});
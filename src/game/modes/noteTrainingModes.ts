@@ -36,3 +36,19 @@ modeRegistry.register({
     noteTraining: DEFAULT_MODE_SETTINGS.noteTraining
   }
 });
+
+// Register Chord Voicing Mode (Show Chord, Play Voicing on MIDI)
+modeRegistry.register({
+  id: NOTE_TRAINING_SUB_MODES.PLAY_CHORD_VOICING,
+  type: TRAINING_MODES.NOTE_TRAINING,
+  strategyType: 'chord-training',
+  icon: '🎛️',
+  title: 'Chord Voicing',
+  description: 'Play written chord voicings on a MIDI keyboard, all notes together',
+  settingsComponent: NoteTrainingModeSettings,
+  settingsKey: 'noteTraining',
+  gameStateFactory: (noteTrainingSettings) => new SingleChordGameState(noteTrainingSettings, 'perform'),
+  defaultSettings: {
+    noteTraining: DEFAULT_MODE_SETTINGS.noteTraining
+  }
+});
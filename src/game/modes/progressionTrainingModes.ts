@@ -0,0 +1,21 @@
+import { modeRegistry } from '../ModeRegistry';
+import { PROGRESSION_TRAINING_SUB_MODES, TRAINING_MODES } from '../../constants';
+import { DEFAULT_MODE_SETTINGS } from '../../types/game';
+import { ProgressionGameState } from '../ProgressionGameState';
+import ProgressionModeSettings from '../../components/settings/ProgressionModeSettings';
+
+// Register Chord Progression Mode
+modeRegistry.register({
+  id: PROGRESSION_TRAINING_SUB_MODES.IDENTIFICATION,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'progression-training',
+  icon: '🔁',
+  title: 'Chord Progressions',
+  description: 'Hear a cadence or progression and name each chord with Roman numerals',
+  settingsComponent: ProgressionModeSettings,
+  settingsKey: 'progression',
+  gameStateFactory: (progressionSettings) => new ProgressionGameState(progressionSettings),
+  defaultSettings: {
+    progression: DEFAULT_MODE_SETTINGS.progression
+  }
+});
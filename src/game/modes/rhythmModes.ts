@@ -0,0 +1,37 @@
+import { modeRegistry } from '../ModeRegistry';
+import { RHYTHM_SUB_MODES, TRAINING_MODES } from '../../constants';
+import { DEFAULT_MODE_SETTINGS } from '../../types/game';
+import { RhythmGameState } from '../RhythmGameState';
+import RhythmModeSettings from '../../components/settings/RhythmModeSettings';
+
+// Register Tap Along Mode
+modeRegistry.register({
+  id: RHYTHM_SUB_MODES.TAP_ALONG,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'rhythm',
+  icon: '🥁',
+  title: 'Tap Along',
+  description: 'Hear a rhythm over a click and tap it back in time',
+  settingsComponent: RhythmModeSettings,
+  settingsKey: 'rhythm',
+  gameStateFactory: (rhythmSettings) => new RhythmGameState(rhythmSettings, 'tap'),
+  defaultSettings: {
+    rhythm: DEFAULT_MODE_SETTINGS.rhythm
+  }
+});
+
+// Register Rhythm Dictation Mode
+modeRegistry.register({
+  id: RHYTHM_SUB_MODES.DICTATION,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'rhythm',
+  icon: '📝',
+  title: 'Rhythm Dictation',
+  description: 'Hear a rhythm and notate it by picking note values',
+  settingsComponent: RhythmModeSettings,
+  settingsKey: 'rhythm',
+  gameStateFactory: (rhythmSettings) => new RhythmGameState(rhythmSettings, 'notate'),
+  defaultSettings: {
+    rhythm: DEFAULT_MODE_SETTINGS.rhythm
+  }
+});
@@ -0,0 +1,21 @@
+import { modeRegistry } from '../ModeRegistry';
+import { SCALE_DEGREE_SUB_MODES, TRAINING_MODES } from '../../constants';
+import { DEFAULT_MODE_SETTINGS } from '../../types/game';
+import { ScaleDegreeGameState } from '../ScaleDegreeGameState';
+import ScaleDegreeModeSettings from '../../components/settings/ScaleDegreeModeSettings';
+
+// Register Scale Degree Mode
+modeRegistry.register({
+  id: SCALE_DEGREE_SUB_MODES.IDENTIFICATION,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'scale-degree',
+  icon: '🎶',
+  title: 'Scale Degrees',
+  description: 'Hear a key, then name the scale degree of a note or short melody',
+  settingsComponent: ScaleDegreeModeSettings,
+  settingsKey: 'scaleDegree',
+  gameStateFactory: (scaleDegreeSettings) => new ScaleDegreeGameState(scaleDegreeSettings),
+  defaultSettings: {
+    scaleDegree: DEFAULT_MODE_SETTINGS.scaleDegree
+  }
+});
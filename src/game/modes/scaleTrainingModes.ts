@@ -0,0 +1,21 @@
+import { modeRegistry } from '../ModeRegistry';
+import { SCALE_TRAINING_SUB_MODES, TRAINING_MODES } from '../../constants';
+import { DEFAULT_MODE_SETTINGS } from '../../types/game';
+import { ScaleGameState } from '../ScaleGameState';
+import ScaleModeSettings from '../../components/settings/ScaleModeSettings';
+
+// Register Scale Identification Mode
+modeRegistry.register({
+  id: SCALE_TRAINING_SUB_MODES.IDENTIFICATION,
+  type: TRAINING_MODES.EAR_TRAINING,
+  strategyType: 'scale-training',
+  icon: '🪜',
+  title: 'Scale Identification',
+  description: 'Name the scale or mode you hear, or play it back',
+  settingsComponent: ScaleModeSettings,
+  settingsKey: 'scale',
+  gameStateFactory: (scaleSettings) => new ScaleGameState(scaleSettings),
+  defaultSettings: {
+    scale: DEFAULT_MODE_SETTINGS.scale
+  }
+});
@@ -0,0 +1,21 @@
+import { modeRegistry } from '../ModeRegistry';
+import { SIGHT_READING_SUB_MODES, TRAINING_MODES } from '../../constants';
+import { DEFAULT_MODE_SETTINGS } from '../../types/game';
+import { SightReadingGameState } from '../SightReadingGameState';
+import SightReadingModeSettings from '../../components/settings/SightReadingModeSettings';
+
+// Register Sight Reading Mode (Show Staff, Play Notes)
+modeRegistry.register({
+  id: SIGHT_READING_SUB_MODES.SHOW_STAFF_PLAY_NOTES,
+  type: TRAINING_MODES.NOTE_TRAINING,
+  strategyType: 'sight-reading',
+  icon: '📖',
+  title: 'Sight Reading',
+  description: 'Read notes on the staff and play them on the keyboard',
+  settingsComponent: SightReadingModeSettings,
+  settingsKey: 'sightReading',
+  gameStateFactory: (sightReadingSettings) => new SightReadingGameState(sightReadingSettings),
+  defaultSettings: {
+    sightReading: DEFAULT_MODE_SETTINGS.sightReading
+  }
+});
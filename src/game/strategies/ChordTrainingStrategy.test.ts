@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ChordTrainingStrategy } from './ChordTrainingStrategy';
 import type { IGameMode } from '../IGameMode';
-import type { NoteFilter, NoteWithOctave, Chord, NoteHighlight } from '../../types/music';
+import type { NoteFilter, NoteWithOctave, Chord, NoteHighlight, ChordPlaybackSettings } from '../../types/music';
+import { DEFAULT_CHORD_PLAYBACK } from '../../types/music';
 import type { RoundContext } from '../../types/orchestrator';
 import type { AudioEngine } from '../../utils/audioEngine';
 
@@ -58,6 +59,7 @@ describe('ChordTrainingStrategy', () => {
     mockAudioEngine = {
       initialize: vi.fn().mockResolvedValue(undefined),
       playChord: vi.fn(),
+      playChordWithStyle: vi.fn(),
       playNote: vi.fn(),
     } as any;
 
@@ -93,7 +95,16 @@ describe('ChordTrainingStrategy', () => {
       await strategy.startNewRound(mockGameMode, noteFilter);
 
       expect(mockAudioEngine.initialize).toHaveBeenCalled();
-      expect(mockAudioEngine.playChord).toHaveBeenCalledWith(TEST_CHORD);
+      expect(mockAudioEngine.playChordWithStyle).toHaveBeenCalledWith(TEST_CHORD, DEFAULT_CHORD_PLAYBACK);
+    });
+
+    it('should play the chord in the configured playback style', async () => {
+      const arpeggio: ChordPlaybackSettings = { style: 'arpeggio-up', tempo: 80, noteSpacing: '8n' };
+      strategy = new ChordTrainingStrategy(mockAudioEngine, arpeggio);
+
+      await strategy.startNewRound(mockGameMode, noteFilter);
+
+      expect(mockAudioEngine.playChordWithStyle).toHaveBeenCalledWith(TEST_CHORD, arpeggio);
     });
 
     it('should return RoundContext with correct structure', async () => {
@@ -150,6 +161,26 @@ describe('ChordTrainingStrategy', () => {
     });
   });
 
+  describe('replayChallenge()', () => {
+    it('should replay the current chord in the playback style', async () => {
+      const broken: ChordPlaybackSettings = { style: 'broken', tempo: 100, noteSpacing: '8n' };
+      strategy = new ChordTrainingStrategy(mockAudioEngine, broken);
+      await strategy.startNewRound(mockGameMode, noteFilter);
+      vi.mocked(mockAudioEngine.playChordWithStyle).mockClear();
+
+      await strategy.replayChallenge();
+
+      expect(mockAudioEngine.playChordWithStyle).toHaveBeenCalledTimes(1);
+      expect(mockAudioEngine.playChordWithStyle).toHaveBeenCalledWith(TEST_CHORD, broken);
+    });
+
+    it('should not play anything before the first round', async () => {
+      await strategy.replayChallenge();
+
+      expect(mockAudioEngine.playChordWithStyle).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handlePianoKeyClick()', () => {
     beforeEach(async () => {
       // Initialize strategy with gameMode
@@ -610,6 +641,18 @@ describe('ChordTrainingStrategy', () => {
     });
   });
 
+  describe('getReviewItem()', () => {
+    it('should return null before a round starts', () => {
+      expect(strategy.getReviewItem()).toBeNull();
+    });
+
+    it('should return the current chord by name', async () => {
+      await strategy.startNewRound(mockGameMode, noteFilter);
+
+      expect(strategy.getReviewItem()).toEqual({ kind: 'chord', key: 'C Major' });
+    });
+  });
+
   describe('Integration: Complete round lifecycle', () => {
     it('should handle complete round lifecycle (start → select → submit → validate)', async () => {
       // Start new round
@@ -641,7 +684,7 @@ describe('ChordTrainingStrategy', () => {
       const context = await strategy.startNewRound(mockGameMode, noteFilter);
       expect(mockGameMode.generateNote).toHaveBeenCalled();
       expect(mockGameMode.onStartNewRound).toHaveBeenCalled();
-      expect(mockAudioEngine.playChord).toHaveBeenCalledWith(TEST_CHORD);
+      expect(mockAudioEngine.playChordWithStyle).toHaveBeenCalledWith(TEST_CHORD, DEFAULT_CHORD_PLAYBACK);
 
       // 2. User selects notes (via piano clicks)
       (mockGameMode as any).selectedNotes = new Set([SELECTED_NOTE]);
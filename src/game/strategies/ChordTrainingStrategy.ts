@@ -1,9 +1,11 @@
-import type { NoteWithOctave, NoteFilter } from '../../types/music';
+import type { NoteWithOctave, NoteFilter, Chord, ChordPlaybackSettings } from '../../types/music';
+import { DEFAULT_CHORD_PLAYBACK } from '../../types/music';
 import type { RoundContext } from '../../types/orchestrator';
 import type { GuessResult } from '../OrchestratorEvents';
 import type { IGameMode } from '../IGameMode';
 import type { ModeStrategy } from './ModeStrategy';
 import type { AudioEngine } from '../../utils/audioEngine';
+import type { ReviewItemRef } from '../../types/stats';
 
 /**
  * Strategy implementation for chord training modes
@@ -12,7 +14,7 @@ import type { AudioEngine } from '../../utils/audioEngine';
  * mode-agnostic orchestration through the strategy pattern.
  *
  * Chord training flow:
- * 1. Generate a chord challenge and play chord audio
+ * 1. Generate a chord challenge and play chord audio in the playback style
  * 2. User selects notes via piano keys
  * 3. User clicks submit button to validate selection
  * 4. Manual advancement after validation (no auto-advance)
@@ -25,10 +27,14 @@ import type { AudioEngine } from '../../utils/audioEngine';
  */
 export class ChordTrainingStrategy implements ModeStrategy {
   private gameMode?: IGameMode;
+  private currentChord?: Chord;
+  private audioEngine: AudioEngine;
+  private chordPlayback: ChordPlaybackSettings;
 
-  constructor(
-    private audioEngine: AudioEngine
-  ) {}
+  constructor(audioEngine: AudioEngine, chordPlayback: ChordPlaybackSettings = DEFAULT_CHORD_PLAYBACK) {
+    this.audioEngine = audioEngine;
+    this.chordPlayback = chordPlayback;
+  }
 
   /**
    * Start a new round by generating a chord challenge
@@ -54,11 +60,11 @@ export class ChordTrainingStrategy implements ModeStrategy {
     // Get the current chord from the game mode
     // We need to cast to access chord-specific properties
     const chord = (gameMode as any).currentChord;
+    this.currentChord = chord;
 
     // Play the chord audio
     if (chord) {
-      await this.audioEngine.initialize();
-      this.audioEngine.playChord(chord);
+      await this.playChord(chord);
     }
 
     // Create and return round context
@@ -75,6 +81,20 @@ export class ChordTrainingStrategy implements ModeStrategy {
     return context;
   }
 
+  /**
+   * Replay the current chord in the playback style
+   */
+  async replayChallenge(): Promise<void> {
+    if (this.currentChord) {
+      await this.playChord(this.currentChord);
+    }
+  }
+
+  private async playChord(chord: Chord): Promise<void> {
+    await this.audioEngine.initialize();
+    this.audioEngine.playChordWithStyle(chord, this.chordPlayback);
+  }
+
   /**
    * Handle piano key click by toggling note selection
    *
@@ -185,4 +205,13 @@ export class ChordTrainingStrategy implements ModeStrategy {
   shouldAutoAdvance(): boolean {
     return false;
   }
+
+  /**
+   * Get the chord asked this round for spaced-repetition scheduling
+   *
+   * @returns The current chord's name, or null before the first round
+   */
+  getReviewItem(): ReviewItemRef | null {
+    return this.currentChord ? { kind: 'chord', key: this.currentChord.name } : null;
+  }
 }
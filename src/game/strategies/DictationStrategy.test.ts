@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DictationStrategy } from './DictationStrategy';
+import { DictationGameState } from '../DictationGameState';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { NoteFilter, NoteWithOctave } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+
+/**
+ * DictationStrategy Unit Tests
+ *
+ * Verifies melody playback, note-by-note entry and alignment scoring.
+ */
+describe('DictationStrategy', () => {
+  let strategy: DictationStrategy;
+  let mockAudioEngine: AudioEngine;
+  let gameMode: DictationGameState;
+  let context: RoundContext;
+
+  const noteFilter: NoteFilter = {
+    octaveRange: { min: 4, max: 4 },
+    keyType: 'white'
+  };
+
+  const C4: NoteWithOctave = { note: 'C', octave: 4 };
+  const D4: NoteWithOctave = { note: 'D', octave: 4 };
+  const E4: NoteWithOctave = { note: 'E', octave: 4 };
+
+  const play = (note: NoteWithOctave) => {
+    strategy.handlePianoKeyClick(note, context);
+    return strategy.validateAndAdvance(context);
+  };
+
+  beforeEach(async () => {
+    mockAudioEngine = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      playNoteSequence: vi.fn()
+    } as unknown as AudioEngine;
+
+    strategy = new DictationStrategy(mockAudioEngine, '4n');
+    gameMode = new DictationGameState({
+      keyRoots: ['C'],
+      scale: 'major',
+      melodyLength: 3,
+      maxLeap: 2,
+      targetMelodies: 2
+    });
+
+    context = await strategy.startNewRound(gameMode, noteFilter);
+    gameMode.currentMelody = { key: { key: 'C', scale: 'major' }, notes: [C4, D4, E4] };
+  });
+
+  it('plays the melody on round start', () => {
+    expect(context.melody?.notes).toHaveLength(3);
+    expect(mockAudioEngine.playNoteSequence).toHaveBeenCalledWith(
+      context.melody!.notes,
+      '4n',
+      expect.any(Number)
+    );
+  });
+
+  it('replays the melody from a position', async () => {
+    await strategy.replayFromPosition(1);
+
+    expect(mockAudioEngine.playNoteSequence).toHaveBeenLastCalledWith([D4, E4], '4n', expect.any(Number));
+  });
+
+  it('collects notes without scoring until the melody is complete', () => {
+    const result = play(C4);
+
+    expect(result.pending).toBe(true);
+    expect(result.feedback).toBe('Keep going... 1/3 notes');
+    expect(gameMode.totalAttempts).toBe(0);
+  });
+
+  it('advances once every note is right', () => {
+    play(C4);
+    play(D4);
+    const result = play(E4);
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.pending).toBeUndefined();
+    expect(result.shouldAdvance).toBe(true);
+  });
+
+  it('scores a complete answer with a wrong note without advancing', () => {
+    play(C4);
+    play(E4);
+    const result = play(E4);
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.shouldAdvance).toBe(false);
+    expect(result.feedback).toBe('2/3 notes correct (67%). Try again!');
+  });
+
+  it('scores a shorter answer on submit', () => {
+    play(C4);
+    play(E4);
+
+    expect(strategy.canSubmit(context)).toBe(true);
+
+    strategy.handleSubmitClick(context);
+    const result = strategy.validateAndAdvance(context);
+
+    expect(result.isCorrect).toBe(false);
+    expect(gameMode.lastAlignment?.noteResults).toEqual(['correct', 'missed', 'correct']);
+  });
+
+  it('does not score an empty submit', () => {
+    strategy.handleSubmitClick(context);
+    const result = strategy.validateAndAdvance(context);
+
+    expect(result.pending).toBe(true);
+    expect(result.feedback).toBe('Play the melody on the piano first');
+    expect(gameMode.totalAttempts).toBe(0);
+  });
+
+  it('throws if validated before a round has started', () => {
+    const fresh = new DictationStrategy(mockAudioEngine, '4n');
+
+    expect(() => fresh.validateAndAdvance(context)).toThrow('Game mode not initialized');
+  });
+});
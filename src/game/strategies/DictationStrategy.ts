@@ -0,0 +1,205 @@
+import type { NoteWithOctave, NoteFilter, NoteDuration } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+import type { GuessResult } from '../OrchestratorEvents';
+import type { IGameMode } from '../IGameMode';
+import type { ModeStrategy } from './ModeStrategy';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { DictationGameState } from '../DictationGameState';
+
+/**
+ * Delay in seconds between melody notes, per note duration.
+ * Faster than a note's full length so the melody is heard as one phrase.
+ */
+const MELODY_NOTE_SPACING: Record<NoteDuration, number> = {
+  '8n': 0.3,
+  '4n': 0.5,
+  '2n': 0.8,
+  '1n': 1.2
+};
+
+/**
+ * Extended context type for melodic dictation
+ * Adds guessedNote field to track the latest note played on the piano
+ */
+interface DictationContext extends RoundContext {
+  guessedNote?: NoteWithOctave;
+}
+
+/**
+ * Strategy implementation for Melodic Dictation mode
+ *
+ * Dictation flow:
+ * 1. Generate a melody in a key and play it
+ * 2. User plays the melody back note by note on the piano or a MIDI keyboard
+ * 3. The answer is scored once it has as many notes as the melody, or
+ *    earlier on submit; auto-advance once every note is right
+ *
+ * While the answer is being entered, each note returns a non-scoring result
+ * so the user can keep going.
+ */
+export class DictationStrategy implements ModeStrategy {
+  private gameMode?: DictationGameState;
+  private audioEngine: AudioEngine;
+  private noteDuration: NoteDuration;
+
+  constructor(audioEngine: AudioEngine, noteDuration: NoteDuration) {
+    this.audioEngine = audioEngine;
+    this.noteDuration = noteDuration;
+  }
+
+  /**
+   * Start a new round by generating a melody and playing it
+   *
+   * @param gameMode - The game mode instance
+   * @param noteFilter - Note filter whose octave range bounds the melody
+   * @returns Promise resolving to the round context
+   */
+  async startNewRound(gameMode: IGameMode, noteFilter: NoteFilter): Promise<RoundContext> {
+    this.gameMode = gameMode as DictationGameState;
+
+    // Generate new melody - the returned note is its first note
+    const note = gameMode.generateNote(noteFilter);
+
+    // Update game mode state
+    gameMode.onStartNewRound();
+
+    await this.playMelody(0);
+
+    const context: DictationContext = {
+      startTime: new Date(),
+      elapsedTime: 0,
+      note,
+      melody: this.gameMode.currentMelody ?? undefined,
+      noteHighlights: [],
+      guessedNote: undefined
+    };
+
+    return context;
+  }
+
+  /**
+   * Handle piano key click by storing the note as the next note of the answer
+   *
+   * @param note - The note that was clicked
+   * @param context - Current round context
+   */
+  handlePianoKeyClick(note: NoteWithOctave, context: RoundContext): void {
+    (context as DictationContext).guessedNote = note;
+  }
+
+  /**
+   * Handle submit button click to score an answer before it is complete
+   *
+   * @param context - Current round context
+   */
+  handleSubmitClick(context: RoundContext): void {
+    (context as DictationContext).guessedNote = undefined;
+  }
+
+  /**
+   * Replay the current melody
+   */
+  async replayChallenge(): Promise<void> {
+    await this.playMelody(0);
+  }
+
+  /**
+   * Replay the current melody from one of its notes
+   *
+   * @param position - Index of the first note to play
+   */
+  async replayFromPosition(position: number): Promise<void> {
+    await this.playMelody(position);
+  }
+
+  /**
+   * Validate the current answer and determine if should advance to next round
+   *
+   * A played note is added to the answer; the answer is only scored once it
+   * has as many notes as the melody or is submitted.
+   *
+   * @param context - Current round context
+   * @returns Result containing validation outcome and advancement decision
+   */
+  validateAndAdvance(context: RoundContext): GuessResult {
+    if (!this.gameMode) {
+      throw new Error('Game mode not initialized. Call startNewRound first.');
+    }
+
+    const dictationContext = context as DictationContext;
+    const guessedNote = dictationContext.guessedNote;
+
+    if (guessedNote) {
+      // Each played note is only added once
+      dictationContext.guessedNote = undefined;
+      const status = this.gameMode.addEnteredNote(guessedNote);
+
+      if (status === 'partial') {
+        return {
+          isCorrect: false,
+          feedback: `Keep going... ${this.gameMode.enteredNotes.length}/${this.gameMode.currentMelody?.notes.length ?? 0} notes`,
+          shouldAdvance: false,
+          gameCompleted: false,
+          pending: true
+        };
+      }
+    } else if (this.gameMode.enteredNotes.length === 0 || this.gameMode.lastAlignment) {
+      return {
+        isCorrect: false,
+        feedback: 'Play the melody on the piano first',
+        shouldAdvance: false,
+        gameCompleted: false,
+        pending: true
+      };
+    }
+
+    const alignment = this.gameMode.alignAnswer(this.gameMode.enteredNotes);
+    const isCorrect = !!alignment && alignment.extraNotes === 0 && alignment.noteResults.every(result => result === 'correct');
+
+    const result = isCorrect
+      ? this.gameMode.handleCorrectGuess()
+      : this.gameMode.handleIncorrectGuess();
+
+    return {
+      isCorrect,
+      feedback: result.feedback,
+      shouldAdvance: result.shouldAdvance,
+      gameCompleted: result.gameCompleted,
+      stats: result.stats
+    };
+  }
+
+  /**
+   * Check if the user can submit their answer
+   *
+   * @param context - Current round context
+   * @returns True if a note has been played or an unscored answer is waiting
+   */
+  canSubmit(context: RoundContext): boolean {
+    return !!(context as DictationContext).guessedNote
+      || (!!this.gameMode && this.gameMode.enteredNotes.length > 0 && !this.gameMode.lastAlignment);
+  }
+
+  /**
+   * Determine if the game should auto-advance after a correct answer
+   *
+   * @returns True (melodic dictation always auto-advances)
+   */
+  shouldAutoAdvance(): boolean {
+    return true;
+  }
+
+  /**
+   * Play the current melody note by note, starting at a position
+   */
+  private async playMelody(position: number): Promise<void> {
+    const notes = this.gameMode?.currentMelody?.notes.slice(Math.max(0, position)) ?? [];
+    if (notes.length === 0) {
+      return;
+    }
+
+    await this.audioEngine.initialize();
+
+    this.audioEngine.playNoteSequence(notes, this.noteDuration, MELODY_NOTE_SPACING[this.noteDuration]);
+  }
+}
@@ -1,9 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { EarTrainingStrategy } from './EarTrainingStrategy';
 import type { IGameMode } from '../IGameMode';
 import type { AudioEngine } from '../../utils/audioEngine';
 import type { NoteFilter, NoteWithOctave, NoteDuration } from '../../types/music';
 import type { RoundContext } from '../../types/orchestrator';
+import type { PrimingSettings } from '../../types/game';
+import { PRIMING_VELOCITY } from '../../utils/priming';
 
 /**
  * EarTrainingStrategy Unit Tests
@@ -45,7 +47,8 @@ describe('EarTrainingStrategy', () => {
     // Create mock audio engine
     mockAudioEngine = {
       initialize: vi.fn().mockResolvedValue(undefined),
-      playNote: vi.fn().mockResolvedValue(undefined)
+      playNote: vi.fn().mockResolvedValue(undefined),
+      playChordSequence: vi.fn()
     } as any;
 
     // Create note filter
@@ -129,6 +132,83 @@ describe('EarTrainingStrategy', () => {
     });
   });
 
+  describe('priming', () => {
+    const priming = (overrides: Partial<PrimingSettings>): PrimingSettings => ({
+      type: 'cadence',
+      frequency: 'round',
+      key: { key: 'C', scale: 'major' },
+      ...overrides
+    });
+
+    // Runs a round to completion, letting the priming pause elapse
+    const startRound = async () => {
+      const round = strategy.startNewRound(mockGameMode, noteFilter);
+      await vi.runAllTimersAsync();
+      return round;
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should not prime by default', async () => {
+      await startRound();
+
+      expect(mockAudioEngine.playChordSequence).not.toHaveBeenCalled();
+      expect(mockAudioEngine.playNote).toHaveBeenCalledTimes(1);
+    });
+
+    it('should play the cadence before the note every round', async () => {
+      strategy = new EarTrainingStrategy(mockAudioEngine, NOTE_DURATION, priming({ frequency: 'round' }));
+
+      await startRound();
+      await startRound();
+
+      expect(mockAudioEngine.playChordSequence).toHaveBeenCalledTimes(2);
+      const [chords] = vi.mocked(mockAudioEngine.playChordSequence).mock.calls[0];
+      expect(chords.map(chord => chord.name)).toEqual(['C', 'F', 'G', 'C']);
+    });
+
+    it('should wait for the priming before playing the note', async () => {
+      strategy = new EarTrainingStrategy(mockAudioEngine, NOTE_DURATION, priming({ frequency: 'round' }));
+
+      const round = strategy.startNewRound(mockGameMode, noteFilter);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockAudioEngine.playNote).not.toHaveBeenCalled();
+
+      await vi.runAllTimersAsync();
+      await round;
+      expect(mockAudioEngine.playNote).toHaveBeenCalledWith(TEST_NOTE, NOTE_DURATION);
+    });
+
+    it('should prime only the first round when set to once per session', async () => {
+      strategy = new EarTrainingStrategy(mockAudioEngine, NOTE_DURATION, priming({ type: 'reference-a', frequency: 'session' }));
+
+      await startRound();
+      await startRound();
+
+      expect(mockAudioEngine.playNote).toHaveBeenCalledTimes(3);
+      expect(mockAudioEngine.playNote).toHaveBeenNthCalledWith(1, { note: 'A', octave: 4 }, '2n', PRIMING_VELOCITY);
+      expect(mockAudioEngine.playNote).toHaveBeenNthCalledWith(3, TEST_NOTE, NOTE_DURATION);
+    });
+
+    it('should only prime on demand when set to on-demand', async () => {
+      strategy = new EarTrainingStrategy(mockAudioEngine, NOTE_DURATION, priming({ type: 'reference-c', frequency: 'on-demand' }));
+
+      await startRound();
+      expect(mockAudioEngine.playNote).toHaveBeenCalledTimes(1);
+
+      const playing = strategy.playPriming();
+      await vi.runAllTimersAsync();
+      await playing;
+      expect(mockAudioEngine.playNote).toHaveBeenLastCalledWith({ note: 'C', octave: 4 }, '2n', PRIMING_VELOCITY);
+    });
+  });
+
   describe('handlePianoKeyClick()', () => {
     it('should store clicked note in context', () => {
       const context: RoundContext = {
@@ -446,6 +526,18 @@ describe('EarTrainingStrategy', () => {
     });
   });
 
+  describe('getReviewItem()', () => {
+    it('should return null before a round starts', () => {
+      expect(strategy.getReviewItem()).toBeNull();
+    });
+
+    it('should return the current note by pitch class', async () => {
+      await strategy.startNewRound(mockGameMode, noteFilter);
+
+      expect(strategy.getReviewItem()).toEqual({ kind: 'note', key: 'C' });
+    });
+  });
+
   describe('Integration: Complete round lifecycle', () => {
     it('should handle complete round lifecycle (start → guess → validate → advance)', async () => {
       // Start new round
@@ -4,6 +4,10 @@ import type { GuessResult } from '../OrchestratorEvents';
 import type { IGameMode } from '../IGameMode';
 import type { ModeStrategy } from './ModeStrategy';
 import type { AudioEngine } from '../../utils/audioEngine';
+import type { ReviewItemRef } from '../../types/stats';
+import type { PrimingSettings } from '../../types/game';
+import { DEFAULT_PRIMING_SETTINGS } from '../../types/game';
+import { REFERENCE_TONES, CADENCE_CHORD_SPACING, PRIMING_VELOCITY, buildCadence, getPrimingLength, shouldPrimeRound } from '../../utils/priming';
 
 /**
  * Extended context type for ear training
@@ -20,17 +24,24 @@ interface EarTrainingContext extends RoundContext {
  * mode-agnostic orchestration through the strategy pattern.
  *
  * Ear training flow:
- * 1. Generate a single note challenge
+ * 1. Generate a single note challenge, primed with a reference tone or
+ *    cadence first when the mode's priming settings ask for it
  * 2. User clicks piano key to submit guess (auto-submit)
  * 3. Validate and auto-advance after correct guess
  */
 export class EarTrainingStrategy implements ModeStrategy {
   private gameMode?: IGameMode;
-
-  constructor(
-    private audioEngine: AudioEngine,
-    private noteDuration: NoteDuration
-  ) {}
+  private currentNote?: NoteWithOctave;
+  private audioEngine: AudioEngine;
+  private noteDuration: NoteDuration;
+  private priming: PrimingSettings;
+  private hasStartedRound = false;
+
+  constructor(audioEngine: AudioEngine, noteDuration: NoteDuration, priming: PrimingSettings = DEFAULT_PRIMING_SETTINGS) {
+    this.audioEngine = audioEngine;
+    this.noteDuration = noteDuration;
+    this.priming = priming;
+  }
 
   /**
    * Start a new round by generating a note and playing audio
@@ -45,6 +56,7 @@ export class EarTrainingStrategy implements ModeStrategy {
 
     // Generate new note using game mode
     const note = gameMode.generateNote(noteFilter);
+    this.currentNote = note;
 
     // Update game mode state
     gameMode.onStartNewRound();
@@ -52,6 +64,13 @@ export class EarTrainingStrategy implements ModeStrategy {
     // Initialize audio engine if needed
     await this.audioEngine.initialize();
 
+    // Give the note a tonal context before it plays
+    const isFirstRound = !this.hasStartedRound;
+    this.hasStartedRound = true;
+    if (shouldPrimeRound(this.priming.frequency, isFirstRound)) {
+      await this.playPriming();
+    }
+
     // Play the note
     await this.audioEngine.playNote(note, this.noteDuration);
 
@@ -67,6 +86,25 @@ export class EarTrainingStrategy implements ModeStrategy {
     return context;
   }
 
+  /**
+   * Play the reference tone or cadence from the priming settings
+   *
+   * Also used for on-demand priming, whatever the priming frequency is.
+   *
+   * @returns Promise resolving once the priming has finished sounding
+   */
+  async playPriming(): Promise<void> {
+    await this.audioEngine.initialize();
+
+    if (this.priming.type === 'cadence') {
+      this.audioEngine.playChordSequence(buildCadence(this.priming.key), '4n', CADENCE_CHORD_SPACING, PRIMING_VELOCITY);
+    } else {
+      this.audioEngine.playNote(REFERENCE_TONES[this.priming.type], '2n', PRIMING_VELOCITY);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, getPrimingLength(this.priming) * 1000));
+  }
+
   /**
    * Handle piano key click by storing the note as the user's guess
    *
@@ -149,4 +187,15 @@ export class EarTrainingStrategy implements ModeStrategy {
   shouldAutoAdvance(): boolean {
     return true;
   }
+
+  /**
+   * Get the note asked this round for spaced-repetition scheduling
+   *
+   * Notes are scheduled by pitch class, so C4 and C5 share one review item.
+   *
+   * @returns The current note's pitch class, or null before the first round
+   */
+  getReviewItem(): ReviewItemRef | null {
+    return this.currentNote ? { kind: 'note', key: this.currentNote.note } : null;
+  }
 }
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IntervalTrainingStrategy } from './IntervalTrainingStrategy';
+import { IntervalGameState } from '../IntervalGameState';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { NoteFilter } from '../../types/music';
+import { IntervalDirection } from '../../types/music';
+
+/**
+ * IntervalTrainingStrategy Unit Tests
+ *
+ * Verifies interval playback per direction and that both answer paths
+ * (interval name buttons and playing the second note) are validated.
+ */
+describe('IntervalTrainingStrategy', () => {
+  let strategy: IntervalTrainingStrategy;
+  let mockAudioEngine: AudioEngine;
+
+  const noteFilter: NoteFilter = {
+    octaveRange: { min: 4, max: 4 },
+    keyType: 'white'
+  };
+
+  const createGameMode = (direction: IntervalDirection) =>
+    new IntervalGameState({ enabledIntervals: [4], targetIntervals: 10 }, direction);
+
+  beforeEach(() => {
+    mockAudioEngine = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      playNotes: vi.fn(),
+      playNoteSequence: vi.fn()
+    } as unknown as AudioEngine;
+
+    strategy = new IntervalTrainingStrategy(mockAudioEngine, '4n');
+  });
+
+  describe('startNewRound', () => {
+    it('plays melodic intervals as a two-note sequence', async () => {
+      const gameMode = createGameMode(IntervalDirection.ASCENDING);
+      const context = await strategy.startNewRound(gameMode, noteFilter);
+      const interval = gameMode.currentInterval!;
+
+      expect(context.interval).toEqual(interval);
+      expect(context.note).toEqual(interval.secondNote);
+      expect(mockAudioEngine.playNoteSequence).toHaveBeenCalledWith(
+        [interval.firstNote, interval.secondNote],
+        '4n',
+        expect.any(Number)
+      );
+      expect(mockAudioEngine.playNotes).not.toHaveBeenCalled();
+    });
+
+    it('plays harmonic intervals as simultaneous notes', async () => {
+      const gameMode = createGameMode(IntervalDirection.HARMONIC);
+      await strategy.startNewRound(gameMode, noteFilter);
+      const interval = gameMode.currentInterval!;
+
+      expect(mockAudioEngine.playNotes).toHaveBeenCalledWith(
+        [interval.firstNote, interval.secondNote],
+        '4n'
+      );
+      expect(mockAudioEngine.playNoteSequence).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replayChallenge', () => {
+    it('replays the current interval', async () => {
+      const gameMode = createGameMode(IntervalDirection.DESCENDING);
+      await strategy.startNewRound(gameMode, noteFilter);
+
+      await strategy.replayChallenge();
+
+      expect(mockAudioEngine.playNoteSequence).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('validateAndAdvance', () => {
+    it('throws if called before a round is started', () => {
+      expect(() => strategy.validateAndAdvance({ startTime: new Date(), elapsedTime: 0 }))
+        .toThrow('Game mode not initialized');
+    });
+
+    it('reports a missing answer without scoring', async () => {
+      const gameMode = createGameMode(IntervalDirection.ASCENDING);
+      const context = await strategy.startNewRound(gameMode, noteFilter);
+
+      expect(strategy.canSubmit(context)).toBe(false);
+      const result = strategy.validateAndAdvance(context);
+
+      expect(result.feedback).toBe('No answer provided');
+      expect(gameMode.totalAttempts).toBe(0);
+    });
+
+    it('validates a selected interval name on submit', async () => {
+      const gameMode = createGameMode(IntervalDirection.ASCENDING);
+      const context = await strategy.startNewRound(gameMode, noteFilter);
+
+      gameMode.selectIntervalAnswer(4);
+      strategy.handleSubmitClick(context);
+
+      expect(strategy.canSubmit(context)).toBe(true);
+      const result = strategy.validateAndAdvance(context);
+
+      expect(result.isCorrect).toBe(true);
+      expect(result.shouldAdvance).toBe(true);
+      expect(gameMode.correctCount).toBe(1);
+    });
+
+    it('validates the second note played on the piano', async () => {
+      const gameMode = createGameMode(IntervalDirection.ASCENDING);
+      const context = await strategy.startNewRound(gameMode, noteFilter);
+      const { secondNote } = gameMode.currentInterval!;
+
+      strategy.handlePianoKeyClick({ note: secondNote.note, octave: 6 }, context);
+      const result = strategy.validateAndAdvance(context);
+
+      expect(result.isCorrect).toBe(true);
+    });
+
+    it('scores a wrong piano note as incorrect', async () => {
+      const gameMode = createGameMode(IntervalDirection.ASCENDING);
+      const context = await strategy.startNewRound(gameMode, noteFilter);
+      const { firstNote } = gameMode.currentInterval!;
+
+      strategy.handlePianoKeyClick(firstNote, context);
+      const result = strategy.validateAndAdvance(context);
+
+      expect(result.isCorrect).toBe(false);
+      expect(result.shouldAdvance).toBe(false);
+      expect(gameMode.guessHistory[0].isCorrect).toBe(false);
+    });
+  });
+
+  describe('shouldAutoAdvance', () => {
+    it('always auto-advances', () => {
+      expect(strategy.shouldAutoAdvance()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import type { NoteWithOctave, NoteFilter, NoteDuration, Interval } from '../../types/music';
+import { IntervalDirection } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+import type { GuessResult } from '../OrchestratorEvents';
+import type { IGameMode } from '../IGameMode';
+import type { ModeStrategy } from './ModeStrategy';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { IntervalGameState } from '../IntervalGameState';
+
+/**
+ * Delay in seconds between the two notes of a melodic interval, per note duration.
+ * Leaves a short gap after the first note so the two pitches are heard separately.
+ */
+const MELODIC_NOTE_SPACING: Record<NoteDuration, number> = {
+  '8n': 0.4,
+  '4n': 0.7,
+  '2n': 1.2,
+  '1n': 2.2
+};
+
+/**
+ * Extended context type for interval training
+ * Adds guessedNote field to track a note played on the piano as the answer
+ */
+interface IntervalTrainingContext extends RoundContext {
+  guessedNote?: NoteWithOctave;
+}
+
+/**
+ * Strategy implementation for interval recognition modes
+ *
+ * Interval training flow:
+ * 1. Generate an interval and play both notes (in sequence or together)
+ * 2. User answers by picking the interval name (submit) or by
+ *    playing the second note on the piano (auto-submit)
+ * 3. Validate and auto-advance after correct answer
+ */
+export class IntervalTrainingStrategy implements ModeStrategy {
+  private gameMode?: IntervalGameState;
+  private currentInterval: Interval | null = null;
+  private audioEngine: AudioEngine;
+  private noteDuration: NoteDuration;
+
+  constructor(audioEngine: AudioEngine, noteDuration: NoteDuration) {
+    this.audioEngine = audioEngine;
+    this.noteDuration = noteDuration;
+  }
+
+  /**
+   * Start a new round by generating an interval and playing it
+   *
+   * @param gameMode - The game mode instance
+   * @param noteFilter - Filter configuration for the interval's starting note
+   * @returns Promise resolving to the round context
+   */
+  async startNewRound(gameMode: IGameMode, noteFilter: NoteFilter): Promise<RoundContext> {
+    this.gameMode = gameMode as IntervalGameState;
+
+    // Generate new interval - the returned note is the interval's second note
+    const note = gameMode.generateNote(noteFilter);
+    this.currentInterval = this.gameMode.currentInterval;
+
+    // Update game mode state
+    gameMode.onStartNewRound();
+
+    await this.playInterval();
+
+    const context: IntervalTrainingContext = {
+      startTime: new Date(),
+      elapsedTime: 0,
+      note,
+      interval: this.currentInterval ?? undefined,
+      noteHighlights: [],
+      guessedNote: undefined
+    };
+
+    return context;
+  }
+
+  /**
+   * Handle piano key click by storing the note as the user's answer
+   *
+   * Playing the second note of the interval auto-submits the answer
+   *
+   * @param note - The note that was clicked
+   * @param context - Current round context
+   */
+  handlePianoKeyClick(note: NoteWithOctave, context: RoundContext): void {
+    (context as IntervalTrainingContext).guessedNote = note;
+  }
+
+  /**
+   * Handle submit button click for interval name answers
+   *
+   * The selected interval name is held by the game mode, so there is
+   * nothing to copy into the context; validation happens in validateAndAdvance.
+   *
+   * @param context - Current round context
+   */
+  handleSubmitClick(context: RoundContext): void {
+    (context as IntervalTrainingContext).guessedNote = undefined;
+  }
+
+  /**
+   * Replay both notes of the current interval
+   */
+  async replayChallenge(): Promise<void> {
+    await this.playInterval();
+  }
+
+  /**
+   * Validate the current answer and determine if should advance to next round
+   *
+   * A note played on the piano takes precedence over a selected interval name.
+   *
+   * @param context - Current round context
+   * @returns Result containing validation outcome and advancement decision
+   */
+  validateAndAdvance(context: RoundContext): GuessResult {
+    if (!this.gameMode) {
+      throw new Error('Game mode not initialized. Call startNewRound first.');
+    }
+
+    const guessedNote = (context as IntervalTrainingContext).guessedNote;
+    if (guessedNote) {
+      this.gameMode.userAnswer = { note: guessedNote };
+    }
+
+    const answer = this.gameMode.userAnswer;
+    if (!answer) {
+      return {
+        isCorrect: false,
+        feedback: 'No answer provided',
+        shouldAdvance: false,
+        gameCompleted: false
+      };
+    }
+
+    const isCorrect = this.gameMode.validateAnswer(answer);
+
+    const result = isCorrect
+      ? this.gameMode.handleCorrectGuess()
+      : this.gameMode.handleIncorrectGuess();
+
+    return {
+      isCorrect,
+      feedback: result.feedback,
+      shouldAdvance: result.shouldAdvance,
+      gameCompleted: result.gameCompleted,
+      stats: result.stats
+    };
+  }
+
+  /**
+   * Check if the user can submit their answer
+   *
+   * @param context - Current round context
+   * @returns True if an interval name is selected or a note has been played
+   */
+  canSubmit(context: RoundContext): boolean {
+    return !!(context as IntervalTrainingContext).guessedNote || !!this.gameMode?.userAnswer;
+  }
+
+  /**
+   * Determine if the game should auto-advance after a correct answer
+   *
+   * @returns True (interval training always auto-advances)
+   */
+  shouldAutoAdvance(): boolean {
+    return true;
+  }
+
+  /**
+   * Play the current interval, either as two sequential notes or together
+   */
+  private async playInterval(): Promise<void> {
+    if (!this.currentInterval) {
+      return;
+    }
+
+    const { firstNote, secondNote, direction } = this.currentInterval;
+
+    await this.audioEngine.initialize();
+
+    if (direction === IntervalDirection.HARMONIC) {
+      this.audioEngine.playNotes([firstNote, secondNote], this.noteDuration);
+    } else {
+      this.audioEngine.playNoteSequence(
+        [firstNote, secondNote],
+        this.noteDuration,
+        MELODIC_NOTE_SPACING[this.noteDuration]
+      );
+    }
+  }
+}
@@ -2,6 +2,7 @@ import type { NoteWithOctave, NoteFilter } from '../../types/music';
 import type { RoundContext } from '../../types/orchestrator';
 import type { GuessResult } from '../OrchestratorEvents';
 import type { IGameMode } from '../IGameMode';
+import type { ReviewItemRef } from '../../types/stats';
 
 /**
  * Strategy interface for mode-specific orchestration logic
@@ -50,6 +51,45 @@ export interface ModeStrategy {
    */
   handleSubmitClick?(context: RoundContext): void;
 
+  /**
+   * Optional handler for replaying the current challenge
+   *
+   * For ear training: Not used (the orchestrator replays the current note)
+   * For interval training: Replay both notes of the interval
+   *
+   * @returns Promise resolving once playback has been scheduled
+   */
+  replayChallenge?(): Promise<void>;
+
+  /**
+   * Optional handler for replaying the current challenge from one of its notes
+   *
+   * For melodic dictation: Play the melody from the given note to the end
+   *
+   * @param position - Index of the first note to play
+   * @returns Promise resolving once playback has been scheduled
+   */
+  replayFromPosition?(position: number): Promise<void>;
+
+  /**
+   * Optional handler for playing tonal context on demand
+   *
+   * For ear training: Play the reference tone or cadence from the priming settings
+   *
+   * @returns Promise resolving once the priming has finished sounding
+   */
+  playPriming?(): Promise<void>;
+
+  /**
+   * Optional accessor for the item asked this round, used for spaced-repetition scheduling
+   *
+   * For ear training: The note's pitch class
+   * For chord training: The chord name
+   *
+   * @returns The current note or chord, or null before the first round
+   */
+  getReviewItem?(): ReviewItemRef | null;
+
   /**
    * Validate the current answer and determine if should advance to next round
    *
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ProgressionTrainingStrategy } from './ProgressionTrainingStrategy';
+import { ProgressionGameState } from '../ProgressionGameState';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { NoteFilter } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+
+/**
+ * ProgressionTrainingStrategy Unit Tests
+ *
+ * Verifies chord-by-chord playback and per-position validation of
+ * Roman numeral answers.
+ */
+describe('ProgressionTrainingStrategy', () => {
+  let strategy: ProgressionTrainingStrategy;
+  let mockAudioEngine: AudioEngine;
+  let gameMode: ProgressionGameState;
+  let context: RoundContext;
+
+  const noteFilter: NoteFilter = {
+    octaveRange: { min: 4, max: 4 },
+    keyType: 'white'
+  };
+
+  beforeEach(async () => {
+    mockAudioEngine = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      playChordSequence: vi.fn()
+    } as unknown as AudioEngine;
+
+    strategy = new ProgressionTrainingStrategy(mockAudioEngine, '2n');
+    gameMode = new ProgressionGameState({
+      enabledProgressions: ['pop'],
+      keyRoots: ['G'],
+      useSeventhChords: false,
+      targetProgressions: 2
+    });
+
+    context = await strategy.startNewRound(gameMode, noteFilter);
+  });
+
+  it('plays the progression chord by chord on round start', () => {
+    expect(context.progression?.numerals).toEqual(['I', 'V', 'vi', 'IV']);
+    expect(context.note).toEqual({ note: 'G', octave: 3 });
+    expect(mockAudioEngine.playChordSequence).toHaveBeenCalledWith(
+      gameMode.currentProgression!.chords,
+      '2n',
+      expect.any(Number)
+    );
+  });
+
+  it('replays the current progression', async () => {
+    await strategy.replayChallenge();
+
+    expect(mockAudioEngine.playChordSequence).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not score an incomplete answer', () => {
+    gameMode.setNumeralAnswer(0, 'I');
+
+    expect(strategy.canSubmit()).toBe(false);
+
+    const result = strategy.validateAndAdvance();
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.shouldAdvance).toBe(false);
+    expect(gameMode.totalAttempts).toBe(0);
+  });
+
+  it('scores a wrong answer per chord without advancing', () => {
+    ['I', 'V', 'IV', 'IV'].forEach((numeral, index) => gameMode.setNumeralAnswer(index, numeral));
+
+    const result = strategy.validateAndAdvance();
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.feedback).toBe('3/4 chords correct. Try again!');
+    expect(result.shouldAdvance).toBe(false);
+    expect(gameMode.lastPositionResults).toEqual([true, true, false, true]);
+  });
+
+  it('advances once every chord is right', () => {
+    ['I', 'V', 'vi', 'IV'].forEach((numeral, index) => gameMode.setNumeralAnswer(index, numeral));
+
+    expect(strategy.canSubmit()).toBe(true);
+
+    const result = strategy.validateAndAdvance();
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.shouldAdvance).toBe(true);
+    expect(result.feedback).toBe('Correct! I–V–vi–IV (1/2)');
+  });
+
+  it('has no piano answer path', () => {
+    expect('handlePianoKeyClick' in strategy).toBe(false);
+  });
+
+  it('throws if validated before a round has started', () => {
+    const fresh = new ProgressionTrainingStrategy(mockAudioEngine, '2n');
+
+    expect(() => fresh.validateAndAdvance()).toThrow('Game mode not initialized');
+  });
+});
@@ -0,0 +1,156 @@
+import type { NoteFilter, NoteDuration } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+import type { GuessResult } from '../OrchestratorEvents';
+import type { IGameMode } from '../IGameMode';
+import type { ModeStrategy } from './ModeStrategy';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { ProgressionGameState } from '../ProgressionGameState';
+
+/**
+ * Delay in seconds between chord starts, per note duration.
+ * Chords are held a little longer than scale notes so each harmony can settle.
+ */
+const CHORD_SPACING: Record<NoteDuration, number> = {
+  '8n': 0.5,
+  '4n': 0.8,
+  '2n': 1.2,
+  '1n': 1.8
+};
+
+/**
+ * Strategy implementation for Chord Progression mode
+ *
+ * Progression training flow:
+ * 1. Generate a progression in a random key and play it chord by chord
+ * 2. User picks a Roman numeral for every chord and submits
+ * 3. Each position is scored; auto-advance once every chord is right
+ *
+ * Piano clicks are not answers in this mode, so there is no handlePianoKeyClick.
+ */
+export class ProgressionTrainingStrategy implements ModeStrategy {
+  private gameMode?: ProgressionGameState;
+  private audioEngine: AudioEngine;
+  private noteDuration: NoteDuration;
+
+  constructor(audioEngine: AudioEngine, noteDuration: NoteDuration) {
+    this.audioEngine = audioEngine;
+    this.noteDuration = noteDuration;
+  }
+
+  /**
+   * Start a new round by generating a progression and playing it
+   *
+   * @param gameMode - The game mode instance
+   * @param noteFilter - Note filter (keys are chosen by the mode's own settings)
+   * @returns Promise resolving to the round context
+   */
+  async startNewRound(gameMode: IGameMode, noteFilter: NoteFilter): Promise<RoundContext> {
+    this.gameMode = gameMode as ProgressionGameState;
+
+    // Generate new progression - the returned note is the tonic of its key
+    const note = gameMode.generateNote(noteFilter);
+
+    // Update game mode state
+    gameMode.onStartNewRound();
+
+    await this.playProgression();
+
+    const context: RoundContext = {
+      startTime: new Date(),
+      elapsedTime: 0,
+      note,
+      progression: this.gameMode.currentProgression ?? undefined,
+      noteHighlights: []
+    };
+
+    return context;
+  }
+
+  /**
+   * Handle submit button click
+   *
+   * The numeral answers are held by the game mode; validation happens in validateAndAdvance.
+   */
+  handleSubmitClick(): void {
+    // Nothing to store on the context
+  }
+
+  /**
+   * Replay the current progression
+   */
+  async replayChallenge(): Promise<void> {
+    await this.playProgression();
+  }
+
+  /**
+   * Validate the numeral answers and determine if should advance to next round
+   *
+   * @returns Result containing validation outcome and advancement decision
+   */
+  validateAndAdvance(): GuessResult {
+    if (!this.gameMode) {
+      throw new Error('Game mode not initialized. Call startNewRound first.');
+    }
+
+    if (!this.gameMode.isAnswerComplete()) {
+      return {
+        isCorrect: false,
+        feedback: 'Pick a numeral for every chord',
+        shouldAdvance: false,
+        gameCompleted: false
+      };
+    }
+
+    const isCorrect = this.gameMode
+      .validateProgressionAnswer(this.gameMode.selectedNumerals)
+      .every(Boolean);
+
+    const result = isCorrect
+      ? this.gameMode.handleCorrectGuess()
+      : this.gameMode.handleIncorrectGuess();
+
+    return {
+      isCorrect,
+      feedback: result.feedback,
+      shouldAdvance: result.shouldAdvance,
+      gameCompleted: result.gameCompleted,
+      stats: result.stats
+    };
+  }
+
+  /**
+   * Check if the user can submit their answer
+   *
+   * @returns True once every chord has a numeral
+   */
+  canSubmit(): boolean {
+    return !!this.gameMode?.isAnswerComplete();
+  }
+
+  /**
+   * Determine if the game should auto-advance after a correct answer
+   *
+   * @returns True (progression training always auto-advances)
+   */
+  shouldAutoAdvance(): boolean {
+    return true;
+  }
+
+  /**
+   * Play the current progression one chord at a time
+   */
+  private async playProgression(): Promise<void> {
+    const progression = this.gameMode?.currentProgression;
+    if (!progression || progression.chords.length === 0) {
+      return;
+    }
+
+    await this.audioEngine.initialize();
+
+    this.audioEngine.playChordSequence(
+      progression.chords,
+      this.noteDuration,
+      CHORD_SPACING[this.noteDuration]
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RhythmStrategy } from './RhythmStrategy';
+import { RhythmGameState } from '../RhythmGameState';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { NoteFilter, RhythmPattern } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+
+/**
+ * RhythmStrategy Unit Tests
+ *
+ * Verifies pattern playback over the click and scoring of tapped and notated answers.
+ */
+describe('RhythmStrategy', () => {
+  let strategy: RhythmStrategy;
+  let mockAudioEngine: AudioEngine;
+  let gameMode: RhythmGameState;
+  let context: RoundContext;
+
+  const noteFilter: NoteFilter = {
+    octaveRange: { min: 4, max: 4 },
+    keyType: 'white'
+  };
+
+  // Two quarters at 120 bpm: notes at 0 and 500ms
+  const pattern: RhythmPattern = {
+    meter: '2/4',
+    events: [{ duration: '4n', isRest: false }, { duration: '4n', isRest: false }]
+  };
+
+  const startRound = async (answerMethod: 'tap' | 'notate') => {
+    gameMode = new RhythmGameState({
+      meter: '2/4',
+      measures: 1,
+      tempo: 120,
+      durations: ['4n'],
+      includeRests: false,
+      tolerance: 100,
+      countIn: true,
+      targetPatterns: 2
+    }, answerMethod);
+
+    context = await strategy.startNewRound(gameMode, noteFilter);
+    gameMode.currentPattern = pattern;
+  };
+
+  const submit = () => {
+    strategy.handleSubmitClick(context);
+    return strategy.validateAndAdvance();
+  };
+
+  beforeEach(() => {
+    mockAudioEngine = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      playRhythm: vi.fn()
+    } as unknown as AudioEngine;
+
+    strategy = new RhythmStrategy(mockAudioEngine);
+  });
+
+  it('plays the pattern over a count-in on round start', async () => {
+    await startRound('tap');
+
+    expect(context.rhythm?.meter).toBe('2/4');
+    expect(mockAudioEngine.playRhythm).toHaveBeenCalledWith(
+      { note: 'C', octave: 5 },
+      expect.objectContaining({
+        clicks: [
+          { offset: 0, accented: true },
+          { offset: 0.5, accented: false },
+          { offset: 1, accented: true },
+          { offset: 1.5, accented: false }
+        ]
+      })
+    );
+  });
+
+  it('replays the pattern', async () => {
+    await startRound('tap');
+    await strategy.replayChallenge();
+
+    expect(mockAudioEngine.playRhythm).toHaveBeenCalledTimes(2);
+  });
+
+  it('advances when every tap is on time', async () => {
+    await startRound('tap');
+    gameMode.addTap(100);
+    gameMode.addTap(640);
+
+    const result = submit();
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.shouldAdvance).toBe(true);
+  });
+
+  it('does not advance when a tap is outside the tolerance window', async () => {
+    await startRound('tap');
+    gameMode.addTap(100);
+    gameMode.addTap(750);
+
+    const result = submit();
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.shouldAdvance).toBe(false);
+    expect(gameMode.lastAnswer?.eventResults).toEqual(['correct', 'late']);
+  });
+
+  it('scores a notated answer', async () => {
+    await startRound('notate');
+    gameMode.addNotatedEvent({ duration: '4n', isRest: false });
+    gameMode.addNotatedEvent({ duration: '4n', isRest: false });
+
+    expect(submit().isCorrect).toBe(true);
+  });
+
+  it('does not score an empty or already scored answer', async () => {
+    await startRound('tap');
+
+    expect(strategy.canSubmit()).toBe(false);
+    expect(submit().feedback).toBe('Tap the rhythm first');
+
+    gameMode.addTap(0);
+    submit();
+
+    expect(strategy.canSubmit()).toBe(false);
+    expect(submit().feedback).toBe('Tap the rhythm first');
+    expect(gameMode.totalAttempts).toBe(1);
+  });
+
+  it('throws if validated before a round has started', () => {
+    expect(() => strategy.validateAndAdvance()).toThrow('Game mode not initialized');
+  });
+});
@@ -0,0 +1,142 @@
+import type { NoteFilter } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+import type { GuessResult } from '../OrchestratorEvents';
+import type { IGameMode } from '../IGameMode';
+import type { ModeStrategy } from './ModeStrategy';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { RhythmGameState } from '../RhythmGameState';
+import { RHYTHM_PITCH, buildRhythmPlayback } from '../../utils/rhythm';
+
+/**
+ * Strategy implementation for the rhythm modes (Tap Along and Rhythm Dictation)
+ *
+ * Rhythm flow:
+ * 1. Generate a rhythm pattern and play it over a click, after an optional count-in
+ * 2. The mode display records the user's taps or notated values on the game state
+ *    and submits once the answer covers the pattern, or earlier on submit
+ * 3. Score the answer; auto-advance once every note is right
+ */
+export class RhythmStrategy implements ModeStrategy {
+  private gameMode?: RhythmGameState;
+  private audioEngine: AudioEngine;
+
+  constructor(audioEngine: AudioEngine) {
+    this.audioEngine = audioEngine;
+  }
+
+  /**
+   * Start a new round by generating a pattern and playing it
+   *
+   * @param gameMode - The game mode instance
+   * @param noteFilter - Note filter (not used; rhythms are played on one pitch)
+   * @returns Promise resolving to the round context
+   */
+  async startNewRound(gameMode: IGameMode, noteFilter: NoteFilter): Promise<RoundContext> {
+    this.gameMode = gameMode as RhythmGameState;
+
+    // Generate new pattern - the returned note is the pitch it is played on
+    const note = gameMode.generateNote(noteFilter);
+
+    // Update game mode state
+    gameMode.onStartNewRound();
+
+    await this.playPattern();
+
+    const context: RoundContext = {
+      startTime: new Date(),
+      elapsedTime: 0,
+      note,
+      rhythm: this.gameMode.currentPattern ?? undefined,
+      noteHighlights: []
+    };
+
+    return context;
+  }
+
+  /**
+   * Handle submit of the current answer
+   *
+   * The taps or notated values are held by the game mode; scoring happens in validateAndAdvance.
+   *
+   * @param context - Current round context
+   */
+  handleSubmitClick(context: RoundContext): void {
+    context.elapsedTime = Date.now() - context.startTime.getTime();
+  }
+
+  /**
+   * Replay the current pattern
+   */
+  async replayChallenge(): Promise<void> {
+    await this.playPattern();
+  }
+
+  /**
+   * Score the current answer and determine if should advance to next round
+   *
+   * @returns Result containing validation outcome and advancement decision
+   */
+  validateAndAdvance(): GuessResult {
+    if (!this.gameMode) {
+      throw new Error('Game mode not initialized. Call startNewRound first.');
+    }
+
+    // An answer is only scored once, and there must be something to score
+    if (this.gameMode.getAnswerLength() === 0 || this.gameMode.lastAnswer) {
+      return {
+        isCorrect: false,
+        feedback: this.gameMode.answerMethod === 'tap' ? 'Tap the rhythm first' : 'Notate the rhythm first',
+        shouldAdvance: false,
+        gameCompleted: false
+      };
+    }
+
+    const answer = this.gameMode.scoreAnswer();
+    const isCorrect = !!answer && answer.extraEvents === 0 && answer.eventResults.every(result => result === 'correct');
+
+    const result = isCorrect
+      ? this.gameMode.handleCorrectGuess()
+      : this.gameMode.handleIncorrectGuess();
+
+    return {
+      isCorrect,
+      feedback: result.feedback,
+      shouldAdvance: result.shouldAdvance,
+      gameCompleted: result.gameCompleted,
+      stats: result.stats
+    };
+  }
+
+  /**
+   * Check if the user can submit their answer
+   *
+   * @returns True if there is an unscored answer
+   */
+  canSubmit(): boolean {
+    return !!this.gameMode && this.gameMode.getAnswerLength() > 0 && !this.gameMode.lastAnswer;
+  }
+
+  /**
+   * Determine if the game should auto-advance after a correct answer
+   *
+   * @returns True (rhythm modes always auto-advance)
+   */
+  shouldAutoAdvance(): boolean {
+    return true;
+  }
+
+  /**
+   * Play the current pattern over the click, with a count-in if enabled
+   */
+  private async playPattern(): Promise<void> {
+    const pattern = this.gameMode?.currentPattern;
+    if (!this.gameMode || !pattern) {
+      return;
+    }
+
+    await this.audioEngine.initialize();
+
+    const { tempo, countIn } = this.gameMode.rhythmSettings;
+    this.audioEngine.playRhythm(RHYTHM_PITCH, buildRhythmPlayback(pattern, tempo, countIn));
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScaleDegreeStrategy } from './ScaleDegreeStrategy';
+import { ScaleDegreeGameState } from '../ScaleDegreeGameState';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { NoteFilter } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+import { PRIMING_VELOCITY, buildCadence } from '../../utils/priming';
+
+/**
+ * ScaleDegreeStrategy Unit Tests
+ *
+ * Verifies that each round establishes the key before the melody and that
+ * degree answers are validated per note.
+ */
+describe('ScaleDegreeStrategy', () => {
+  let strategy: ScaleDegreeStrategy;
+  let mockAudioEngine: AudioEngine;
+  let gameMode: ScaleDegreeGameState;
+  let context: RoundContext;
+
+  const noteFilter: NoteFilter = {
+    octaveRange: { min: 4, max: 4 },
+    keyType: 'white'
+  };
+
+  const startRound = async () => {
+    const round = strategy.startNewRound(gameMode, noteFilter);
+    await vi.runAllTimersAsync();
+    return round;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+
+    mockAudioEngine = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      playChordSequence: vi.fn(),
+      playNoteSequence: vi.fn()
+    } as unknown as AudioEngine;
+
+    strategy = new ScaleDegreeStrategy(mockAudioEngine, '4n');
+    gameMode = new ScaleDegreeGameState({
+      keyRoots: ['F'],
+      scale: 'minor',
+      includeChromatic: false,
+      fragmentLength: 2,
+      answerLabels: 'solfege',
+      targetRounds: 2
+    });
+
+    context = await startRound();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('plays the cadence of the key before the melody', () => {
+    expect(context.note).toEqual({ note: 'F', octave: 4 });
+    expect(context.scaleDegree).toBe(gameMode.currentFragment);
+    expect(mockAudioEngine.playChordSequence).toHaveBeenCalledWith(
+      buildCadence({ key: 'F', scale: 'minor' }),
+      '4n',
+      expect.any(Number),
+      PRIMING_VELOCITY
+    );
+    expect(mockAudioEngine.playNoteSequence).toHaveBeenCalledWith(
+      gameMode.currentFragment!.notes,
+      '4n',
+      expect.any(Number)
+    );
+
+    const cadenceOrder = vi.mocked(mockAudioEngine.playChordSequence).mock.invocationCallOrder[0];
+    const melodyOrder = vi.mocked(mockAudioEngine.playNoteSequence).mock.invocationCallOrder[0];
+    expect(cadenceOrder).toBeLessThan(melodyOrder);
+  });
+
+  it('replays only the melody', async () => {
+    await strategy.replayChallenge();
+
+    expect(mockAudioEngine.playChordSequence).toHaveBeenCalledTimes(1);
+    expect(mockAudioEngine.playNoteSequence).toHaveBeenCalledTimes(2);
+  });
+
+  it('replays the cadence on demand', async () => {
+    const priming = strategy.playPriming();
+    await vi.runAllTimersAsync();
+    await priming;
+
+    expect(mockAudioEngine.playChordSequence).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not score an incomplete answer', () => {
+    gameMode.setDegreeAnswer(0, gameMode.currentFragment!.degrees[0]);
+
+    expect(strategy.canSubmit()).toBe(false);
+
+    const result = strategy.validateAndAdvance();
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.shouldAdvance).toBe(false);
+    expect(gameMode.totalAttempts).toBe(0);
+  });
+
+  it('advances once every degree is right', () => {
+    gameMode.currentFragment!.degrees.forEach((semitones, index) => gameMode.setDegreeAnswer(index, semitones));
+
+    expect(strategy.canSubmit()).toBe(true);
+
+    const result = strategy.validateAndAdvance();
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.shouldAdvance).toBe(true);
+  });
+
+  it('does not advance on a wrong degree', () => {
+    const [first, second] = gameMode.currentFragment!.degrees;
+    gameMode.setDegreeAnswer(0, first);
+    gameMode.setDegreeAnswer(1, (second + 1) % 12);
+
+    const result = strategy.validateAndAdvance();
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.shouldAdvance).toBe(false);
+    expect(gameMode.lastPositionResults).toEqual([true, false]);
+  });
+
+  it('has no piano answer path', () => {
+    expect('handlePianoKeyClick' in strategy).toBe(false);
+  });
+
+  it('throws if validated before a round has started', () => {
+    const fresh = new ScaleDegreeStrategy(mockAudioEngine, '4n');
+
+    expect(() => fresh.validateAndAdvance()).toThrow('Game mode not initialized');
+  });
+});
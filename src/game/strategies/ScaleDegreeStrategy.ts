@@ -0,0 +1,180 @@
+import type { NoteFilter, NoteDuration } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+import type { GuessResult } from '../OrchestratorEvents';
+import type { IGameMode } from '../IGameMode';
+import type { ModeStrategy } from './ModeStrategy';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { ScaleDegreeGameState } from '../ScaleDegreeGameState';
+import { CADENCE_CHORD_SPACING, PRIMING_VELOCITY, buildCadence, getPrimingLength } from '../../utils/priming';
+
+/**
+ * Delay in seconds between melody notes, per note duration.
+ * Faster than a note's full length so a melody is heard as one phrase.
+ */
+const MELODY_NOTE_SPACING: Record<NoteDuration, number> = {
+  '8n': 0.3,
+  '4n': 0.5,
+  '2n': 0.8,
+  '1n': 1.2
+};
+
+/**
+ * Strategy implementation for Scale Degree mode
+ *
+ * Scale degree training flow:
+ * 1. Generate a key and a note or short melody, play the key's cadence, then the melody
+ * 2. User picks a scale degree for every note and submits
+ * 3. Each note is scored; auto-advance once every degree is right
+ *
+ * Piano clicks are not answers in this mode, so there is no handlePianoKeyClick.
+ */
+export class ScaleDegreeStrategy implements ModeStrategy {
+  private gameMode?: ScaleDegreeGameState;
+  private audioEngine: AudioEngine;
+  private noteDuration: NoteDuration;
+
+  constructor(audioEngine: AudioEngine, noteDuration: NoteDuration) {
+    this.audioEngine = audioEngine;
+    this.noteDuration = noteDuration;
+  }
+
+  /**
+   * Start a new round by establishing a key and playing a melody in it
+   *
+   * @param gameMode - The game mode instance
+   * @param noteFilter - Note filter (keys are chosen by the mode's own settings)
+   * @returns Promise resolving to the round context
+   */
+  async startNewRound(gameMode: IGameMode, noteFilter: NoteFilter): Promise<RoundContext> {
+    this.gameMode = gameMode as ScaleDegreeGameState;
+
+    // Generate new melody - the returned note is the tonic of its key
+    const note = gameMode.generateNote(noteFilter);
+
+    // Update game mode state
+    gameMode.onStartNewRound();
+
+    // Every round can be in a new key, so the cadence always comes first
+    await this.playPriming();
+    await this.playFragment();
+
+    const context: RoundContext = {
+      startTime: new Date(),
+      elapsedTime: 0,
+      note,
+      scaleDegree: this.gameMode.currentFragment ?? undefined,
+      noteHighlights: []
+    };
+
+    return context;
+  }
+
+  /**
+   * Play the cadence of the current key
+   *
+   * @returns Promise resolving once the cadence has finished sounding
+   */
+  async playPriming(): Promise<void> {
+    const fragment = this.gameMode?.currentFragment;
+    if (!fragment) {
+      return;
+    }
+
+    await this.audioEngine.initialize();
+
+    this.audioEngine.playChordSequence(buildCadence(fragment.key), '4n', CADENCE_CHORD_SPACING, PRIMING_VELOCITY);
+
+    await new Promise(resolve => setTimeout(
+      resolve,
+      getPrimingLength({ type: 'cadence', frequency: 'round', key: fragment.key }) * 1000
+    ));
+  }
+
+  /**
+   * Handle submit button click
+   *
+   * The degree answers are held by the game mode; validation happens in validateAndAdvance.
+   */
+  handleSubmitClick(): void {
+    // Nothing to store on the context
+  }
+
+  /**
+   * Replay the current melody without the cadence
+   */
+  async replayChallenge(): Promise<void> {
+    await this.playFragment();
+  }
+
+  /**
+   * Validate the degree answers and determine if should advance to next round
+   *
+   * @returns Result containing validation outcome and advancement decision
+   */
+  validateAndAdvance(): GuessResult {
+    if (!this.gameMode) {
+      throw new Error('Game mode not initialized. Call startNewRound first.');
+    }
+
+    if (!this.gameMode.isAnswerComplete()) {
+      return {
+        isCorrect: false,
+        feedback: 'Pick a degree for every note',
+        shouldAdvance: false,
+        gameCompleted: false
+      };
+    }
+
+    const isCorrect = this.gameMode
+      .validateDegreeAnswer(this.gameMode.selectedDegrees)
+      .every(Boolean);
+
+    const result = isCorrect
+      ? this.gameMode.handleCorrectGuess()
+      : this.gameMode.handleIncorrectGuess();
+
+    return {
+      isCorrect,
+      feedback: result.feedback,
+      shouldAdvance: result.shouldAdvance,
+      gameCompleted: result.gameCompleted,
+      stats: result.stats
+    };
+  }
+
+  /**
+   * Check if the user can submit their answer
+   *
+   * @returns True once every note has a degree
+   */
+  canSubmit(): boolean {
+    return !!this.gameMode?.isAnswerComplete();
+  }
+
+  /**
+   * Determine if the game should auto-advance after a correct answer
+   *
+   * @returns True (scale degree training always auto-advances)
+   */
+  shouldAutoAdvance(): boolean {
+    return true;
+  }
+
+  /**
+   * Play the current melody one note at a time
+   */
+  private async playFragment(): Promise<void> {
+    const fragment = this.gameMode?.currentFragment;
+    if (!fragment || fragment.notes.length === 0) {
+      return;
+    }
+
+    await this.audioEngine.initialize();
+
+    this.audioEngine.playNoteSequence(
+      fragment.notes,
+      this.noteDuration,
+      MELODY_NOTE_SPACING[this.noteDuration]
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ScaleTrainingStrategy } from './ScaleTrainingStrategy';
+import { ScaleGameState } from '../ScaleGameState';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { NoteFilter } from '../../types/music';
+import { ScaleType } from '../../types/music';
+
+/**
+ * ScaleTrainingStrategy Unit Tests
+ *
+ * Verifies scale playback and both answer paths: naming the scale
+ * and playing it back note by note.
+ */
+describe('ScaleTrainingStrategy', () => {
+  let strategy: ScaleTrainingStrategy;
+  let mockAudioEngine: AudioEngine;
+  let gameMode: ScaleGameState;
+
+  const noteFilter: NoteFilter = {
+    octaveRange: { min: 4, max: 4 },
+    keyType: 'white'
+  };
+
+  beforeEach(() => {
+    mockAudioEngine = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      playNoteSequence: vi.fn()
+    } as unknown as AudioEngine;
+
+    strategy = new ScaleTrainingStrategy(mockAudioEngine, '4n');
+    gameMode = new ScaleGameState({
+      scaleFilter: {
+        allowedScaleTypes: [ScaleType.MINOR_PENTATONIC],
+        allowedRootNotes: ['A'],
+        allowedOctaves: [3]
+      },
+      playbackDirection: 'ascending',
+      targetScales: 5
+    });
+  });
+
+  it('plays the scale in playback order on round start', async () => {
+    const context = await strategy.startNewRound(gameMode, noteFilter);
+
+    expect(context.scale?.name).toBe('A Minor Pentatonic');
+    expect(context.note).toEqual({ note: 'A', octave: 3 });
+    expect(mockAudioEngine.playNoteSequence).toHaveBeenCalledWith(
+      gameMode.playbackNotes,
+      '4n',
+      expect.any(Number)
+    );
+  });
+
+  it('replays the current scale', async () => {
+    await strategy.startNewRound(gameMode, noteFilter);
+    await strategy.replayChallenge();
+
+    expect(mockAudioEngine.playNoteSequence).toHaveBeenCalledTimes(2);
+  });
+
+  it('validates a selected scale name on submit', async () => {
+    const context = await strategy.startNewRound(gameMode, noteFilter);
+
+    gameMode.selectScaleAnswer(ScaleType.MINOR_PENTATONIC);
+    strategy.handleSubmitClick(context);
+    const result = strategy.validateAndAdvance(context);
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.shouldAdvance).toBe(true);
+  });
+
+  it('does not score a partial reproduction', async () => {
+    const context = await strategy.startNewRound(gameMode, noteFilter);
+
+    strategy.handlePianoKeyClick({ note: 'A', octave: 3 }, context);
+    const result = strategy.validateAndAdvance(context);
+
+    expect(result.pending).toBe(true);
+    expect(result.feedback).toBe('Keep going... 1/6 notes');
+    expect(gameMode.totalAttempts).toBe(0);
+  });
+
+  it('scores a completed reproduction as correct', async () => {
+    const context = await strategy.startNewRound(gameMode, noteFilter);
+
+    const results = gameMode.playbackNotes.map(note => {
+      strategy.handlePianoKeyClick(note, context);
+      return strategy.validateAndAdvance(context);
+    });
+
+    expect(results[results.length - 1].isCorrect).toBe(true);
+    expect(gameMode.correctCount).toBe(1);
+  });
+
+  it('scores a wrong note as incorrect', async () => {
+    const context = await strategy.startNewRound(gameMode, noteFilter);
+
+    strategy.handlePianoKeyClick({ note: 'B', octave: 3 }, context);
+    const result = strategy.validateAndAdvance(context);
+
+    expect(result.isCorrect).toBe(false);
+    expect(gameMode.totalAttempts).toBe(1);
+  });
+
+  it('reports a missing answer without scoring', async () => {
+    const context = await strategy.startNewRound(gameMode, noteFilter);
+
+    expect(strategy.canSubmit(context)).toBe(false);
+    expect(strategy.validateAndAdvance(context).feedback).toBe('No answer provided');
+  });
+});
@@ -0,0 +1,198 @@
+import type { NoteWithOctave, NoteFilter, NoteDuration } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+import type { GuessResult } from '../OrchestratorEvents';
+import type { IGameMode } from '../IGameMode';
+import type { ModeStrategy } from './ModeStrategy';
+import type { AudioEngine } from '../../utils/audioEngine';
+import type { ScaleGameState } from '../ScaleGameState';
+
+/**
+ * Delay in seconds between scale notes, per note duration.
+ * Faster than a note's full length so the scale is heard as one phrase.
+ */
+const SCALE_NOTE_SPACING: Record<NoteDuration, number> = {
+  '8n': 0.25,
+  '4n': 0.4,
+  '2n': 0.6,
+  '1n': 0.9
+};
+
+/**
+ * Extended context type for scale training
+ * Adds guessedNote field to track the latest note played on the piano
+ */
+interface ScaleTrainingContext extends RoundContext {
+  guessedNote?: NoteWithOctave;
+}
+
+/**
+ * Strategy implementation for Scale Identification mode
+ *
+ * Scale training flow:
+ * 1. Generate a scale and play it in the configured direction
+ * 2. User answers by picking the scale name (submit) or by playing
+ *    the scale back note by note on the piano
+ * 3. Validate and auto-advance after correct answer
+ *
+ * While a scale is being played back, each correct note returns a
+ * non-scoring result so the user can keep going.
+ */
+export class ScaleTrainingStrategy implements ModeStrategy {
+  private gameMode?: ScaleGameState;
+  private audioEngine: AudioEngine;
+  private noteDuration: NoteDuration;
+
+  constructor(audioEngine: AudioEngine, noteDuration: NoteDuration) {
+    this.audioEngine = audioEngine;
+    this.noteDuration = noteDuration;
+  }
+
+  /**
+   * Start a new round by generating a scale and playing it
+   *
+   * @param gameMode - The game mode instance
+   * @param noteFilter - Note filter (scales are chosen by the mode's own scale filter)
+   * @returns Promise resolving to the round context
+   */
+  async startNewRound(gameMode: IGameMode, noteFilter: NoteFilter): Promise<RoundContext> {
+    this.gameMode = gameMode as ScaleGameState;
+
+    // Generate new scale - the returned note is the first note played
+    const note = gameMode.generateNote(noteFilter);
+
+    // Update game mode state
+    gameMode.onStartNewRound();
+
+    await this.playScale();
+
+    const context: ScaleTrainingContext = {
+      startTime: new Date(),
+      elapsedTime: 0,
+      note,
+      scale: this.gameMode.currentScale ?? undefined,
+      noteHighlights: [],
+      guessedNote: undefined
+    };
+
+    return context;
+  }
+
+  /**
+   * Handle piano key click by storing the note as the next note of the reproduction
+   *
+   * @param note - The note that was clicked
+   * @param context - Current round context
+   */
+  handlePianoKeyClick(note: NoteWithOctave, context: RoundContext): void {
+    (context as ScaleTrainingContext).guessedNote = note;
+  }
+
+  /**
+   * Handle submit button click for scale name answers
+   *
+   * The selected scale is held by the game mode; validation happens in validateAndAdvance.
+   *
+   * @param context - Current round context
+   */
+  handleSubmitClick(context: RoundContext): void {
+    (context as ScaleTrainingContext).guessedNote = undefined;
+  }
+
+  /**
+   * Replay the current scale
+   */
+  async replayChallenge(): Promise<void> {
+    await this.playScale();
+  }
+
+  /**
+   * Validate the current answer and determine if should advance to next round
+   *
+   * A played note is added to the reproduction; the round is only scored once
+   * the scale is complete or a wrong note is played.
+   *
+   * @param context - Current round context
+   * @returns Result containing validation outcome and advancement decision
+   */
+  validateAndAdvance(context: RoundContext): GuessResult {
+    if (!this.gameMode) {
+      throw new Error('Game mode not initialized. Call startNewRound first.');
+    }
+
+    const guessedNote = (context as ScaleTrainingContext).guessedNote;
+    let isCorrect: boolean;
+
+    if (guessedNote) {
+      const status = this.gameMode.addReproducedNote(guessedNote);
+
+      if (status === 'partial') {
+        return {
+          isCorrect: false,
+          feedback: `Keep going... ${this.gameMode.reproducedNotes.length}/${this.gameMode.playbackNotes.length} notes`,
+          shouldAdvance: false,
+          gameCompleted: false,
+          pending: true
+        };
+      }
+
+      isCorrect = status === 'complete';
+    } else if (this.gameMode.selectedScaleType) {
+      isCorrect = this.gameMode.validateScaleAnswer(this.gameMode.selectedScaleType);
+    } else {
+      return {
+        isCorrect: false,
+        feedback: 'No answer provided',
+        shouldAdvance: false,
+        gameCompleted: false
+      };
+    }
+
+    const result = isCorrect
+      ? this.gameMode.handleCorrectGuess()
+      : this.gameMode.handleIncorrectGuess();
+
+    return {
+      isCorrect,
+      feedback: result.feedback,
+      shouldAdvance: result.shouldAdvance,
+      gameCompleted: result.gameCompleted,
+      stats: result.stats
+    };
+  }
+
+  /**
+   * Check if the user can submit their answer
+   *
+   * @param context - Current round context
+   * @returns True if a scale name is selected or a note has been played
+   */
+  canSubmit(context: RoundContext): boolean {
+    return !!(context as ScaleTrainingContext).guessedNote || !!this.gameMode?.selectedScaleType;
+  }
+
+  /**
+   * Determine if the game should auto-advance after a correct answer
+   *
+   * @returns True (scale training always auto-advances)
+   */
+  shouldAutoAdvance(): boolean {
+    return true;
+  }
+
+  /**
+   * Play the current scale note by note in its playback order
+   */
+  private async playScale(): Promise<void> {
+    if (!this.gameMode || this.gameMode.playbackNotes.length === 0) {
+      return;
+    }
+
+    await this.audioEngine.initialize();
+
+    this.audioEngine.playNoteSequence(
+      this.gameMode.playbackNotes,
+      this.noteDuration,
+      SCALE_NOTE_SPACING[this.noteDuration]
+    );
+  }
+}
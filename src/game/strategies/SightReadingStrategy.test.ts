@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SightReadingStrategy } from './SightReadingStrategy';
+import { SightReadingGameState } from '../SightReadingGameState';
+import type { NoteFilter } from '../../types/music';
+
+/**
+ * SightReadingStrategy Unit Tests
+ *
+ * Verifies that notes played against the staff are scored once the whole
+ * note or chord is read.
+ */
+describe('SightReadingStrategy', () => {
+  let strategy: SightReadingStrategy;
+  let gameMode: SightReadingGameState;
+
+  const noteFilter: NoteFilter = {
+    octaveRange: { min: 4, max: 5 },
+    keyType: 'white',
+    allowedNotes: ['A']
+  };
+
+  beforeEach(() => {
+    strategy = new SightReadingStrategy();
+    gameMode = new SightReadingGameState({
+      staff: 'treble',
+      maxLedgerLines: 0,
+      challengeType: 'chord',
+      targetNotes: 5
+    });
+  });
+
+  it('writes the chord on round start', async () => {
+    const context = await strategy.startNewRound(gameMode, noteFilter);
+
+    expect(context.note).toEqual({ note: 'A', octave: 4 });
+    expect(context.chord).toBe(gameMode.currentChord);
+    expect(context.displayNotes).toEqual(gameMode.currentNotes);
+  });
+
+  it('does not score a partly played chord', async () => {
+    await strategy.startNewRound(gameMode, noteFilter);
+
+    gameMode.selectPlayedNote(gameMode.currentNotes[0]);
+    const result = strategy.validateAndAdvance();
+
+    expect(result.pending).toBe(true);
+    expect(result.feedback).toBe('Keep going... 1/3 notes');
+    expect(gameMode.totalAttempts).toBe(0);
+  });
+
+  it('scores a completed chord as correct', async () => {
+    await strategy.startNewRound(gameMode, noteFilter);
+
+    const results = gameMode.currentNotes.map(note => {
+      gameMode.selectPlayedNote(note);
+      return strategy.validateAndAdvance();
+    });
+
+    expect(results[results.length - 1]).toMatchObject({ isCorrect: true, shouldAdvance: true });
+    expect(gameMode.correctCount).toBe(1);
+  });
+
+  it('scores a wrong note as incorrect', async () => {
+    await strategy.startNewRound(gameMode, noteFilter);
+
+    gameMode.selectPlayedNote({ note: 'B', octave: 4 });
+    const result = strategy.validateAndAdvance();
+
+    expect(result.isCorrect).toBe(false);
+    expect(gameMode.totalAttempts).toBe(1);
+  });
+
+  it('reports a missing note without scoring', async () => {
+    await strategy.startNewRound(gameMode, noteFilter);
+
+    expect(strategy.canSubmit()).toBe(false);
+    expect(strategy.validateAndAdvance().feedback).toBe('No note played');
+  });
+});
@@ -0,0 +1,130 @@
+import type { NoteFilter } from '../../types/music';
+import type { RoundContext } from '../../types/orchestrator';
+import type { GuessResult } from '../OrchestratorEvents';
+import type { IGameMode } from '../IGameMode';
+import type { ModeStrategy } from './ModeStrategy';
+import type { SightReadingGameState } from '../SightReadingGameState';
+
+/**
+ * Strategy implementation for Sight Reading mode
+ *
+ * Sight reading flow:
+ * 1. Write a note or chord on the staff (nothing is played)
+ * 2. User plays it on the piano or a MIDI device; the mode display stores
+ *    each played note on the game state and submits it
+ * 3. Validate and auto-advance after the whole note or chord is played
+ *
+ * While a chord is being played, each correct note returns a non-scoring
+ * result so the user can keep going.
+ */
+export class SightReadingStrategy implements ModeStrategy {
+  private gameMode?: SightReadingGameState;
+
+  /**
+   * Start a new round by writing a new note or chord
+   *
+   * @param gameMode - The game mode instance
+   * @param noteFilter - Filter configuration for the written notes
+   * @returns Promise resolving to the round context
+   */
+  async startNewRound(gameMode: IGameMode, noteFilter: NoteFilter): Promise<RoundContext> {
+    this.gameMode = gameMode as SightReadingGameState;
+
+    // Generate the challenge - the returned note is the lowest written note
+    const note = gameMode.generateNote(noteFilter);
+
+    // Update game mode state (starts the reaction timer)
+    gameMode.onStartNewRound();
+
+    const context: RoundContext = {
+      startTime: new Date(),
+      elapsedTime: 0,
+      note,
+      chord: this.gameMode.currentChord ?? undefined,
+      displayNotes: [...this.gameMode.currentNotes],
+      noteHighlights: []
+    };
+
+    return context;
+  }
+
+  /**
+   * Handle submit of a played note
+   *
+   * The played note is held by the game mode; validation happens in validateAndAdvance.
+   *
+   * @param context - Current round context
+   */
+  handleSubmitClick(context: RoundContext): void {
+    context.elapsedTime = Date.now() - context.startTime.getTime();
+  }
+
+  /**
+   * Validate the played note and determine if should advance to next round
+   *
+   * A wrong note is scored as a miss straight away; a chord is only scored as
+   * correct once all of its notes have been played.
+   *
+   * @returns Result containing validation outcome and advancement decision
+   */
+  validateAndAdvance(): GuessResult {
+    if (!this.gameMode) {
+      throw new Error('Game mode not initialized. Call startNewRound first.');
+    }
+
+    const playedNote = this.gameMode.pendingNote;
+
+    if (!playedNote) {
+      return {
+        isCorrect: false,
+        feedback: 'No note played',
+        shouldAdvance: false,
+        gameCompleted: false
+      };
+    }
+
+    const status = this.gameMode.addPlayedNote(playedNote);
+
+    if (status === 'partial') {
+      const result = this.gameMode.handlePartialReading();
+      return {
+        isCorrect: false,
+        feedback: result.feedback,
+        shouldAdvance: false,
+        gameCompleted: false,
+        pending: true
+      };
+    }
+
+    const isCorrect = status === 'complete';
+    const result = isCorrect
+      ? this.gameMode.handleCorrectGuess()
+      : this.gameMode.handleIncorrectGuess();
+
+    return {
+      isCorrect,
+      feedback: result.feedback,
+      shouldAdvance: result.shouldAdvance,
+      gameCompleted: result.gameCompleted,
+      stats: result.stats
+    };
+  }
+
+  /**
+   * Check if the user can submit their answer
+   *
+   * @returns True if a note has been played
+   */
+  canSubmit(): boolean {
+    return !!this.gameMode?.pendingNote;
+  }
+
+  /**
+   * Determine if the game should auto-advance after a correct answer
+   *
+   * @returns True (sight reading always auto-advances)
+   */
+  shouldAutoAdvance(): boolean {
+    return true;
+  }
+}
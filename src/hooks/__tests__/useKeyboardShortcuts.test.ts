@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { renderHook } from '@testing-library/react';
 import { useKeyboardShortcuts } from '../useKeyboardShortcuts';
+import { createMidiTestFixture, type MidiTestFixture } from '../../utils/__tests__/testHelpers';
 
 describe('useKeyboardShortcuts', () => {
   let addEventListenerSpy: ReturnType<typeof vi.spyOn>;
@@ -141,6 +142,19 @@ describe('useKeyboardShortcuts', () => {
     expect(handler).toHaveBeenCalledTimes(1);
   });
 
+  it('should ignore held-down key repeats when ignoreRepeat is set', () => {
+    const handler = vi.fn();
+
+    renderHook(() => useKeyboardShortcuts([
+      { key: 't', handler, ignoreRepeat: true },
+    ]));
+
+    dispatchKeyEvent('t');
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 't', code: 'KeyT', repeat: true, bubbles: true }));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
   it('should handle multiple shortcuts', () => {
     const handler1 = vi.fn();
     const handler2 = vi.fn();
@@ -241,4 +255,68 @@ describe('useKeyboardShortcuts', () => {
     dispatchKeyEvent('n');
     expect(handler).toHaveBeenCalledTimes(2);
   });
+
+  describe('MIDI actions', () => {
+    let fixture: MidiTestFixture;
+
+    const pressPad = () => fixture.mockDevice1.simulateMessage([0x99, 36, 100]);
+
+    beforeEach(async () => {
+      fixture = createMidiTestFixture();
+      await fixture.midiManager.initialize();
+      await fixture.midiManager.selectInputDevice('device-1');
+      fixture.midiManager.setActionBindings({
+        'device-1': { replay: { type: 'note', number: 36, channel: 10 } }
+      });
+    });
+
+    afterEach(() => {
+      fixture.midiManager.disconnect();
+    });
+
+    it('should call the handler of a shortcut when its action is pressed on a controller', () => {
+      const replay = vi.fn();
+      const next = vi.fn();
+
+      renderHook(() => useKeyboardShortcuts([
+        { key: ' ', handler: replay, action: 'replay' },
+        { key: 'n', handler: next, action: 'next' },
+      ]));
+
+      pressPad();
+
+      expect(replay).toHaveBeenCalledTimes(1);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should not call disabled shortcuts from a controller', () => {
+      const handler = vi.fn();
+
+      const { rerender } = renderHook(
+        ({ enabled }) => useKeyboardShortcuts([
+          { key: ' ', handler, action: 'replay', enabled },
+        ], { enabled: true }),
+        { initialProps: { enabled: false } }
+      );
+
+      pressPad();
+      expect(handler).not.toHaveBeenCalled();
+
+      rerender({ enabled: true });
+      pressPad();
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call handlers from a controller while shortcuts are disabled', () => {
+      const handler = vi.fn();
+
+      renderHook(() => useKeyboardShortcuts([
+        { key: ' ', handler, action: 'replay' },
+      ], { enabled: false }));
+
+      pressPad();
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
 });
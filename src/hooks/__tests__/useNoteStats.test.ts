@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useNoteStats } from '../useNoteStats';
+import { STORAGE_KEYS } from '../../constants';
+import { NOTE_STATS_VERSION } from '../../types/stats';
+import type { GuessAttempt } from '../../types/game';
+import type { NoteWithOctave } from '../../types/music';
+
+let attemptId = 0;
+
+const createAttempt = (
+  actualNote: NoteWithOctave,
+  guessedNote: NoteWithOctave | null,
+  timestamp: Date = new Date('2026-01-10T12:00:00Z')
+): GuessAttempt => ({
+  id: `attempt-${attemptId++}`,
+  timestamp,
+  actualNote,
+  guessedNote,
+  isCorrect: guessedNote?.note === actualNote.note
+});
+
+describe('useNoteStats', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should start empty', () => {
+    const { result } = renderHook(() => useNoteStats());
+
+    expect(result.current.stats).toEqual({});
+    expect(result.current.confusions).toEqual({});
+    expect(result.current.lastUpdated).toBeNull();
+  });
+
+  it('should track accuracy per note and octave', () => {
+    const { result } = renderHook(() => useNoteStats());
+
+    act(() => {
+      result.current.updateFromAttempts([
+        createAttempt({ note: 'C', octave: 4 }, { note: 'C', octave: 4 }),
+        createAttempt({ note: 'C', octave: 4 }, { note: 'D', octave: 4 }),
+        createAttempt({ note: 'C', octave: 5 }, { note: 'C', octave: 5 })
+      ]);
+    });
+
+    expect(result.current.getNoteStats('C', 4)).toMatchObject({
+      totalAttempts: 2,
+      correctAttempts: 1,
+      averageAccuracy: 50
+    });
+    expect(result.current.getNoteStats('C', 5)?.averageAccuracy).toBe(100);
+    expect(result.current.getNoteStats('D', 4)).toBeUndefined();
+  });
+
+  it('should combine stats by pitch class and by octave', () => {
+    const { result } = renderHook(() => useNoteStats());
+
+    act(() => {
+      result.current.updateFromAttempts([
+        createAttempt({ note: 'C', octave: 4 }, { note: 'C', octave: 4 }),
+        createAttempt({ note: 'C', octave: 5 }, { note: 'B', octave: 4 }),
+        createAttempt({ note: 'E', octave: 4 }, { note: 'E', octave: 4 })
+      ]);
+    });
+
+    expect(result.current.getPitchClassStats().C).toEqual({
+      totalAttempts: 2,
+      correctAttempts: 1,
+      averageAccuracy: 50
+    });
+    expect(result.current.getOctaveStats()[4]).toEqual({
+      totalAttempts: 2,
+      correctAttempts: 2,
+      averageAccuracy: 100
+    });
+  });
+
+  it('should count wrong guesses as confusions by pitch class', () => {
+    const { result } = renderHook(() => useNoteStats());
+
+    act(() => {
+      result.current.updateFromAttempts([
+        createAttempt({ note: 'F#', octave: 4 }, { note: 'G', octave: 4 }),
+        createAttempt({ note: 'F#', octave: 3 }, { note: 'G', octave: 5 }),
+        createAttempt({ note: 'F#', octave: 4 }, { note: 'F', octave: 4 }),
+        createAttempt({ note: 'A', octave: 4 }, { note: 'A#', octave: 4 })
+      ]);
+    });
+
+    expect(result.current.confusions['F#']).toEqual({ G: 2, F: 1 });
+    expect(result.current.getTopConfusions(2)).toEqual([
+      { actual: 'F#', guessed: 'G', count: 2 },
+      { actual: 'F#', guessed: 'F', count: 1 }
+    ]);
+  });
+
+  it('should count timeouts as incorrect attempts without a confusion', () => {
+    const { result } = renderHook(() => useNoteStats());
+
+    act(() => {
+      result.current.updateFromAttempts([createAttempt({ note: 'D', octave: 4 }, null)]);
+    });
+
+    expect(result.current.getNoteStats('D', 4)?.correctAttempts).toBe(0);
+    expect(result.current.confusions).toEqual({});
+  });
+
+  it('should persist stats and reload them', () => {
+    const { result } = renderHook(() => useNoteStats());
+
+    act(() => {
+      result.current.updateFromAttempts([
+        createAttempt({ note: 'G', octave: 3 }, { note: 'A', octave: 3 })
+      ]);
+    });
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEYS.NOTE_STATS)!);
+    expect(stored.version).toBe(NOTE_STATS_VERSION);
+
+    const { result: reloaded } = renderHook(() => useNoteStats());
+
+    expect(reloaded.current.getNoteStats('G', 3)?.lastPracticed).toBeInstanceOf(Date);
+    expect(reloaded.current.confusions.G).toEqual({ A: 1 });
+  });
+
+  it('should clear stats from state and storage', () => {
+    const { result } = renderHook(() => useNoteStats());
+
+    act(() => {
+      result.current.updateFromAttempts([
+        createAttempt({ note: 'C', octave: 4 }, { note: 'C', octave: 4 })
+      ]);
+    });
+
+    act(() => {
+      result.current.clearStats();
+    });
+
+    expect(result.current.stats).toEqual({});
+    expect(localStorage.getItem(STORAGE_KEYS.NOTE_STATS)).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { ChordConfusionStore, ChordTypeConfusions, ChordTypeConfusionPair } from '../types/stats';
+import { CHORD_CONFUSION_VERSION } from '../types/stats';
+import type { NoteTrainingSessionResults } from '../types/game';
+import { NOTE_TRAINING_SUB_MODES } from '../constants';
+import { loadVersionedStore, saveVersionedStore } from '../services/versionedStorage';
+import { CHORD_CONFUSION_SCHEMA } from '../services/storageSchemas';
+import {
+  countChordTypeConfusions,
+  mergeChordTypeConfusions,
+  getChordTypeConfusionPairs
+} from '../utils/chordConfusion';
+
+export interface ChordConfusionsHook {
+  /** Answer counts by played and guessed chord type */
+  confusions: ChordTypeConfusions;
+
+  /** Get the most frequent mix-ups between different chord types */
+  getTopConfusions: (limit?: number) => ChordTypeConfusionPair[];
+
+  /** Update the matrix from a completed Show Notes → Guess Chord session */
+  updateFromSession: (sessionResults: NoteTrainingSessionResults) => void;
+
+  /** Clear the confusion matrix */
+  clearConfusions: () => void;
+
+  /** Timestamp of last update */
+  lastUpdated: Date | null;
+}
+
+/**
+ * Hook for managing the long-term chord type confusion matrix across sessions.
+ * Persists to localStorage and provides methods for querying and updating it.
+ */
+export const useChordConfusions = (): ChordConfusionsHook => {
+  const [confusions, setConfusions] = useState<ChordTypeConfusions>({});
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // Load confusions from localStorage on mount
+  useEffect(() => {
+    const stored = loadVersionedStore(CHORD_CONFUSION_SCHEMA);
+    if (stored) {
+      setConfusions(stored.confusions);
+      setLastUpdated(new Date(stored.lastUpdated));
+    }
+  }, []);
+
+  // Save confusions to localStorage whenever they change
+  useEffect(() => {
+    // Skip initial empty state to avoid overwriting stored data
+    if (Object.keys(confusions).length === 0 && lastUpdated === null) {
+      return;
+    }
+
+    try {
+      const store: ChordConfusionStore = {
+        version: CHORD_CONFUSION_VERSION,
+        confusions,
+        lastUpdated: (lastUpdated ?? new Date()).toISOString()
+      };
+      saveVersionedStore(CHORD_CONFUSION_SCHEMA, store);
+    } catch (error) {
+      console.warn('Failed to save chord confusions to localStorage:', error);
+    }
+  }, [confusions, lastUpdated]);
+
+  const getTopConfusions = useCallback((limit: number = 5): ChordTypeConfusionPair[] => {
+    return getChordTypeConfusionPairs(confusions, limit);
+  }, [confusions]);
+
+  const updateFromSession = useCallback((sessionResults: NoteTrainingSessionResults) => {
+    // Only Show Notes → Guess Chord sessions have a guessed chord name
+    if (sessionResults.subMode !== NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD) {
+      return;
+    }
+
+    const sessionConfusions = countChordTypeConfusions(sessionResults.guessHistory ?? []);
+    if (Object.keys(sessionConfusions).length === 0) {
+      return;
+    }
+
+    setConfusions(prevConfusions => mergeChordTypeConfusions(prevConfusions, sessionConfusions));
+    setLastUpdated(new Date());
+  }, []);
+
+  const clearConfusions = useCallback(() => {
+    setConfusions({});
+    setLastUpdated(null);
+    try {
+      localStorage.removeItem(CHORD_CONFUSION_SCHEMA.key);
+    } catch (error) {
+      console.warn('Failed to clear chord confusions from localStorage:', error);
+    }
+  }, []);
+
+  return {
+    confusions,
+    getTopConfusions,
+    updateFromSession,
+    clearConfusions,
+    lastUpdated
+  };
+};
@@ -3,7 +3,8 @@ import type { ChordStats, ChordStatsStore, SerializedChordStats } from '../types
 import { CHORD_STATS_VERSION } from '../types/stats';
 import type { NoteTrainingSessionResults, ChordTypeStats } from '../types/game';
 import type { ChordType } from '../types/music';
-import { STORAGE_KEYS } from '../constants';
+import { loadVersionedStore, saveVersionedStore } from '../services/versionedStorage';
+import { CHORD_STATS_SCHEMA } from '../services/storageSchemas';
 
 export interface ChordStatsHook {
   /** All chord stats as a record keyed by chord name */
@@ -70,26 +71,10 @@ export const useChordStats = (): ChordStatsHook => {
 
   // Load stats from localStorage on mount
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEYS.CHORD_STATS);
-      if (stored) {
-        const parsed: ChordStatsStore = JSON.parse(stored);
-
-        // Version check for future migrations
-        if (parsed.version !== CHORD_STATS_VERSION) {
-          console.warn('Chord stats version mismatch, resetting stats');
-          setStats({});
-          setLastUpdated(null);
-          return;
-        }
-
-        setStats(deserializeStats(parsed));
-        setLastUpdated(new Date(parsed.lastUpdated));
-      }
-    } catch (error) {
-      console.warn('Failed to load chord stats from localStorage:', error);
-      setStats({});
-      setLastUpdated(null);
+    const stored = loadVersionedStore(CHORD_STATS_SCHEMA);
+    if (stored) {
+      setStats(deserializeStats(stored));
+      setLastUpdated(new Date(stored.lastUpdated));
     }
   }, []);
 
@@ -106,7 +91,7 @@ export const useChordStats = (): ChordStatsHook => {
         stats: serializeStats(stats),
         lastUpdated: (lastUpdated ?? new Date()).toISOString()
       };
-      localStorage.setItem(STORAGE_KEYS.CHORD_STATS, JSON.stringify(store));
+      saveVersionedStore(CHORD_STATS_SCHEMA, store);
     } catch (error) {
       console.warn('Failed to save chord stats to localStorage:', error);
     }
@@ -207,7 +192,7 @@ export const useChordStats = (): ChordStatsHook => {
     setStats({});
     setLastUpdated(null);
     try {
-      localStorage.removeItem(STORAGE_KEYS.CHORD_STATS);
+      localStorage.removeItem(CHORD_STATS_SCHEMA.key);
     } catch (error) {
       console.warn('Failed to clear chord stats from localStorage:', error);
     }
@@ -0,0 +1,144 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { StoredGuessAttempt } from '../types/history';
+import { sessionRepository } from '../services/sessionRepository';
+
+export interface HistoryPageHook<T> {
+  /** Items on the current page, oldest first */
+  pageItems: T[];
+
+  /** Saved answers from earlier sessions on the current page, oldest first (they come before pageItems) */
+  storedItems: StoredGuessAttempt[];
+
+  /** Number of items in the full list, saved answers included */
+  total: number;
+
+  /** Position of the first item on the page in the full list (1-based, 0 when empty) */
+  firstItemNumber: number;
+
+  /** Position of the last item on the page in the full list (1-based) */
+  lastItemNumber: number;
+
+  /** Whether there are older items than the current page */
+  hasOlder: boolean;
+
+  /** Whether there are newer items than the current page */
+  hasNewer: boolean;
+
+  /** Move one page back in time */
+  showOlder: () => void;
+
+  /** Move one page forward in time */
+  showNewer: () => void;
+}
+
+/**
+ * Hook for paging through a list of guess attempts, newest page first.
+ *
+ * The list is expected in chronological order (newest last). Whenever an item
+ * is added, the view jumps back to the newest page so the latest answer is
+ * always visible.
+ *
+ * With a stored mode, paging continues past the oldest item into the answers
+ * saved in the session repository for that mode. Only the count and the
+ * current page of saved answers are read from the database.
+ *
+ * @param items - Attempts of the current session, oldest first
+ * @param pageSize - Attempts per page; 0 or less shows everything on one page
+ * @param storedMode - Mode whose saved answers continue the list
+ */
+export function useHistoryPage<T extends { timestamp: Date }>(
+  items: T[],
+  pageSize: number,
+  storedMode?: string
+): HistoryPageHook<T> {
+  // The page is only kept while the list length stays the same
+  const [paging, setPaging] = useState({ page: 0, itemCount: items.length });
+  const page = paging.itemCount === items.length ? paging.page : 0;
+
+  // Bumped whenever sessions are saved or deleted so the saved answers are read again
+  const [revision, setRevision] = useState(0);
+  const [storedCount, setStoredCount] = useState(0);
+  const [storedPage, setStoredPage] = useState<{ key: string; items: StoredGuessAttempt[] }>({ key: '', items: [] });
+
+  // Saved answers older than the first item; later ones are already in the list
+  const before = items.length > 0 ? items[0].timestamp.getTime() - 1 : undefined;
+  const isPagingStored = storedMode !== undefined && pageSize > 0;
+
+  useEffect(() => {
+    if (!isPagingStored) return;
+    return sessionRepository.on('sessionsChanged', () => setRevision(value => value + 1));
+  }, [isPagingStored]);
+
+  useEffect(() => {
+    if (!isPagingStored) {
+      setStoredCount(0);
+      return;
+    }
+
+    let isMounted = true;
+    sessionRepository.countAttempts({ mode: storedMode, to: before === undefined ? undefined : new Date(before) })
+      .then(count => {
+        if (isMounted) setStoredCount(count);
+      })
+      .catch(error => {
+        console.warn('Failed to count saved answers:', error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isPagingStored, storedMode, before, revision]);
+
+  const total = storedCount + items.length;
+  const pageCount = pageSize > 0 ? Math.max(1, Math.ceil(total / pageSize)) : 1;
+  const end = pageSize > 0 ? total - page * pageSize : total;
+  const start = pageSize > 0 ? Math.max(0, end - pageSize) : 0;
+
+  // Saved answers on this page, as an offset and limit from the newest saved answer
+  const storedEnd = Math.min(end, storedCount);
+  const storedOffset = storedCount - storedEnd;
+  const storedLimit = Math.max(0, storedEnd - start);
+  const storedKey = `${storedMode}|${before}|${storedOffset}|${storedLimit}|${revision}`;
+
+  useEffect(() => {
+    if (!isPagingStored || storedLimit === 0) return;
+
+    let isMounted = true;
+    sessionRepository.getAttempts({
+      mode: storedMode,
+      to: before === undefined ? undefined : new Date(before),
+      offset: storedOffset,
+      limit: storedLimit
+    })
+      .then(attempts => {
+        if (isMounted) setStoredPage({ key: storedKey, items: attempts.reverse() });
+      })
+      .catch(error => {
+        console.warn('Failed to load saved answers:', error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isPagingStored, storedMode, before, storedOffset, storedLimit, storedKey]);
+
+  const showOlder = useCallback(() => {
+    setPaging({ page: Math.min(page + 1, pageCount - 1), itemCount: items.length });
+  }, [page, pageCount, items.length]);
+
+  const showNewer = useCallback(() => {
+    setPaging({ page: Math.max(page - 1, 0), itemCount: items.length });
+  }, [page, items.length]);
+
+  return {
+    pageItems: items.slice(Math.max(0, start - storedCount), Math.max(0, end - storedCount)),
+    storedItems: storedLimit > 0 && storedPage.key === storedKey ? storedPage.items : [],
+    total,
+    firstItemNumber: total > 0 ? start + 1 : 0,
+    lastItemNumber: end,
+    hasOlder: page < pageCount - 1,
+    hasNewer: page > 0,
+    showOlder,
+    showNewer
+  };
+}
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { audioEngine } from '../utils/audioEngine';
+import type { InstrumentLoadState, InstrumentType } from '../types/music';
+
+/**
+ * React hook for following the sample loading of an instrument
+ *
+ * Subscribes to the AudioEngine's 'loadProgress' events and returns the
+ * latest load state of the given instrument.
+ *
+ * @example
+ * ```tsx
+ * const { status, loaded, total } = useInstrumentLoadState(InstrumentType.PIANO);
+ * if (status === 'loading') return <progress value={loaded} max={total} />;
+ * ```
+ */
+export function useInstrumentLoadState(instrument: InstrumentType): InstrumentLoadState {
+  const [loadState, setLoadState] = useState<InstrumentLoadState>(() => audioEngine.getLoadState(instrument));
+
+  useEffect(() => {
+    // Catch up with progress made before this instrument was watched
+    setLoadState(audioEngine.getLoadState(instrument));
+
+    return audioEngine.on('loadProgress', event => {
+      if (event.instrument === instrument) {
+        setLoadState(event.state);
+      }
+    });
+  }, [instrument]);
+
+  return loadState;
+}
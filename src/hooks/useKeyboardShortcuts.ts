@@ -1,11 +1,18 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { isTextInputElement } from '../constants/keyboardShortcuts';
+import type { MidiAction } from '../types/midi';
+import { useMidiActions } from './useMidiActions';
+import type { MidiActionHandler } from './useMidiActions';
 
 export interface ShortcutHandler {
   key: string;
   code?: string;
   handler: () => void;
   enabled?: boolean;
+  /** Whether repeats from a key being held down are ignored (e.g., for tapping) */
+  ignoreRepeat?: boolean;
+  /** Game action that also runs the handler when pressed on a mapped MIDI controller */
+  action?: MidiAction;
 }
 
 export interface UseKeyboardShortcutsOptions {
@@ -21,6 +28,7 @@ export interface UseKeyboardShortcutsOptions {
 
 /**
  * Hook for handling keyboard shortcuts in game components.
+ * Shortcuts with an action also run from MIDI controls mapped to that action.
  *
  * @param shortcuts - Array of shortcut handlers to register
  * @param options - Configuration options
@@ -28,7 +36,7 @@ export interface UseKeyboardShortcutsOptions {
  * @example
  * ```tsx
  * useKeyboardShortcuts([
- *   { key: ' ', handler: handleReplay, enabled: isPlaying },
+ *   { key: ' ', handler: handleReplay, enabled: isPlaying, action: 'replay' },
  *   { key: 'n', handler: handleNext, enabled: canAdvance },
  *   { key: 'Enter', handler: handleSubmit, enabled: canSubmit },
  * ], { enabled: !isPaused && !isModalOpen });
@@ -82,6 +90,9 @@ export function useKeyboardShortcuts(
     });
 
     if (matchingShortcut) {
+      if (matchingShortcut.ignoreRepeat && event.repeat) {
+        return;
+      }
       if (opts.preventDefault) {
         event.preventDefault();
       }
@@ -98,6 +109,17 @@ export function useKeyboardShortcuts(
       document.removeEventListener('keydown', handleKeyDown);
     };
   }, [handleKeyDown]);
+
+  useMidiActions(
+    shortcuts
+      .filter((shortcut): shortcut is ShortcutHandler & { action: MidiAction } => !!shortcut.action)
+      .map((shortcut): MidiActionHandler => ({
+        action: shortcut.action,
+        handler: shortcut.handler,
+        enabled: shortcut.enabled,
+      })),
+    { enabled }
+  );
 }
 
 export default useKeyboardShortcuts;
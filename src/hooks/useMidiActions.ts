@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import type { MidiAction, MidiActionEvent } from '../types/midi';
+import { MidiManager } from '../services/MidiManager';
+
+export interface MidiActionHandler {
+  action: MidiAction;
+  handler: () => void;
+  enabled?: boolean;
+}
+
+export interface UseMidiActionsOptions {
+  /** Whether actions are globally enabled */
+  enabled?: boolean;
+}
+
+/**
+ * Hook for running game actions from MIDI controller buttons, pads and pedals
+ * mapped with MIDI learn in the audio settings.
+ *
+ * @param actions - Array of action handlers to register
+ * @param options - Configuration options
+ *
+ * @example
+ * ```tsx
+ * useMidiActions([
+ *   { action: 'pause', handler: togglePause },
+ * ], { enabled: !isSettingsOpen });
+ * ```
+ */
+export function useMidiActions(
+  actions: MidiActionHandler[],
+  options: UseMidiActionsOptions = {}
+): void {
+  const { enabled = true } = options;
+
+  // Use refs to avoid resubscribing on every render
+  const actionsRef = useRef(actions);
+  const enabledRef = useRef(enabled);
+
+  useEffect(() => {
+    actionsRef.current = actions;
+    enabledRef.current = enabled;
+  }, [actions, enabled]);
+
+  useEffect(() => {
+    const midiManager = MidiManager.getInstance();
+
+    const handleAction = (event: MidiActionEvent) => {
+      if (!enabledRef.current) return;
+
+      const matchingAction = actionsRef.current.find(
+        action => action.action === event.action && action.enabled !== false
+      );
+      matchingAction?.handler();
+    };
+
+    midiManager.on('action', handleAction);
+    return () => {
+      midiManager.off('action', handleAction);
+    };
+  }, []);
+}
+
+export default useMidiActions;
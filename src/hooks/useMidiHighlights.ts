@@ -15,7 +15,9 @@ function getNoteKey(note: NoteWithOctave): string {
  * Hook that provides real-time MIDI input highlights for the piano keyboard.
  *
  * Subscribes to MIDI note on/off events from the MidiManager and maintains
- * a set of currently pressed notes. Returns an array of NoteHighlight objects
+ * a set of currently pressed notes. Notes held by the sustain or sostenuto
+ * pedal stay highlighted until the pedal comes up, since MidiManager only
+ * emits noteOff once a note stops sounding. Returns an array of NoteHighlight objects
  * that can be passed to PianoKeyboard's highlights prop.
  *
  * @returns Array of NoteHighlight objects for currently pressed MIDI notes
@@ -0,0 +1,254 @@
+import { useState, useCallback, useEffect } from 'react';
+import type {
+  NoteStats,
+  NoteStatsStore,
+  NoteStatsSummary,
+  NoteConfusions,
+  NoteConfusionPair,
+  SerializedNoteStats
+} from '../types/stats';
+import { NOTE_STATS_VERSION } from '../types/stats';
+import type { GuessAttempt } from '../types/game';
+import type { Note, Octave } from '../types/music';
+import { loadVersionedStore, saveVersionedStore } from '../services/versionedStorage';
+import { NOTE_STATS_SCHEMA } from '../services/storageSchemas';
+
+export interface NoteStatsHook {
+  /** All note stats as a record keyed by note with octave (e.g., "C#4") */
+  stats: Record<string, NoteStats>;
+
+  /** Wrong-guess counts by played and guessed pitch class */
+  confusions: NoteConfusions;
+
+  /** Get stats for a specific note and octave */
+  getNoteStats: (note: Note, octave: Octave) => NoteStats | undefined;
+
+  /** Get stats combined over all octaves, keyed by pitch class */
+  getPitchClassStats: () => Partial<Record<Note, NoteStatsSummary>>;
+
+  /** Get stats combined over all pitch classes, keyed by octave */
+  getOctaveStats: () => Partial<Record<Octave, NoteStatsSummary>>;
+
+  /** Get the most frequent mix-ups, most frequent first */
+  getTopConfusions: (limit?: number) => NoteConfusionPair[];
+
+  /** Update stats from guess attempts made in an ear-training session */
+  updateFromAttempts: (attempts: GuessAttempt[]) => void;
+
+  /** Clear all note stats */
+  clearStats: () => void;
+
+  /** Timestamp of last update */
+  lastUpdated: Date | null;
+}
+
+interface NoteStatsData {
+  stats: Record<string, NoteStats>;
+  confusions: NoteConfusions;
+}
+
+const EMPTY_DATA: NoteStatsData = { stats: {}, confusions: {} };
+
+/**
+ * Gets the storage key of a note with octave, e.g. "C#4".
+ */
+function getNoteKey(note: Note, octave: Octave): string {
+  return `${note}${octave}`;
+}
+
+function calculateAccuracy(correct: number, total: number): number {
+  const accuracy = total > 0 ? (correct / total) * 100 : 0;
+  return Math.round(accuracy * 10) / 10; // Round to 1 decimal
+}
+
+/**
+ * Deserialize stored stats, converting ISO strings back to Date objects.
+ */
+function deserializeStats(stored: NoteStatsStore): Record<string, NoteStats> {
+  const result: Record<string, NoteStats> = {};
+
+  for (const [key, serialized] of Object.entries(stored.stats)) {
+    result[key] = {
+      ...serialized,
+      lastPracticed: new Date(serialized.lastPracticed)
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Serialize stats for localStorage, converting Dates to ISO strings.
+ */
+function serializeStats(stats: Record<string, NoteStats>): Record<string, SerializedNoteStats> {
+  const result: Record<string, SerializedNoteStats> = {};
+
+  for (const [key, stat] of Object.entries(stats)) {
+    result[key] = {
+      ...stat,
+      lastPracticed: stat.lastPracticed.toISOString()
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Adds guess attempts to existing stats and confusion counts.
+ * Timeouts (no guess) count as incorrect attempts but are not confusions.
+ */
+function applyAttempts(data: NoteStatsData, attempts: GuessAttempt[]): NoteStatsData {
+  const stats = { ...data.stats };
+  const confusions: NoteConfusions = { ...data.confusions };
+
+  for (const attempt of attempts) {
+    const { note, octave } = attempt.actualNote;
+    const key = getNoteKey(note, octave);
+    const existing = stats[key];
+
+    const totalAttempts = (existing?.totalAttempts ?? 0) + 1;
+    const correctAttempts = (existing?.correctAttempts ?? 0) + (attempt.isCorrect ? 1 : 0);
+
+    stats[key] = {
+      note,
+      octave,
+      totalAttempts,
+      correctAttempts,
+      lastPracticed: attempt.timestamp,
+      averageAccuracy: calculateAccuracy(correctAttempts, totalAttempts)
+    };
+
+    const guessed = attempt.guessedNote?.note;
+    if (!attempt.isCorrect && guessed && guessed !== note) {
+      const row = { ...confusions[note] };
+      row[guessed] = (row[guessed] ?? 0) + 1;
+      confusions[note] = row;
+    }
+  }
+
+  return { stats, confusions };
+}
+
+/**
+ * Combines note stats into one summary per group key.
+ */
+function summarize<K extends string | number>(
+  stats: NoteStats[],
+  getGroup: (stat: NoteStats) => K
+): Partial<Record<K, NoteStatsSummary>> {
+  const result: Partial<Record<K, NoteStatsSummary>> = {};
+
+  for (const stat of stats) {
+    const group = getGroup(stat);
+    const existing = result[group];
+    const totalAttempts = (existing?.totalAttempts ?? 0) + stat.totalAttempts;
+    const correctAttempts = (existing?.correctAttempts ?? 0) + stat.correctAttempts;
+
+    result[group] = {
+      totalAttempts,
+      correctAttempts,
+      averageAccuracy: calculateAccuracy(correctAttempts, totalAttempts)
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Hook for managing long-term note statistics across ear-training sessions.
+ * Tracks accuracy per note and octave, plus which notes get mistaken for which.
+ * Persists to localStorage and provides methods for querying and updating stats.
+ */
+export const useNoteStats = (): NoteStatsHook => {
+  const [data, setData] = useState<NoteStatsData>(EMPTY_DATA);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // Load stats from localStorage on mount
+  useEffect(() => {
+    const stored = loadVersionedStore(NOTE_STATS_SCHEMA);
+    if (stored) {
+      setData({
+        stats: deserializeStats(stored),
+        confusions: stored.confusions
+      });
+      setLastUpdated(new Date(stored.lastUpdated));
+    }
+  }, []);
+
+  // Save stats to localStorage whenever they change
+  useEffect(() => {
+    // Skip initial empty state to avoid overwriting stored data
+    if (Object.keys(data.stats).length === 0 && lastUpdated === null) {
+      return;
+    }
+
+    try {
+      const store: NoteStatsStore = {
+        version: NOTE_STATS_VERSION,
+        stats: serializeStats(data.stats),
+        confusions: data.confusions,
+        lastUpdated: (lastUpdated ?? new Date()).toISOString()
+      };
+      saveVersionedStore(NOTE_STATS_SCHEMA, store);
+    } catch (error) {
+      console.warn('Failed to save note stats to localStorage:', error);
+    }
+  }, [data, lastUpdated]);
+
+  const getNoteStats = useCallback((note: Note, octave: Octave): NoteStats | undefined => {
+    return data.stats[getNoteKey(note, octave)];
+  }, [data]);
+
+  const getPitchClassStats = useCallback((): Partial<Record<Note, NoteStatsSummary>> => {
+    return summarize(Object.values(data.stats), stat => stat.note);
+  }, [data]);
+
+  const getOctaveStats = useCallback((): Partial<Record<Octave, NoteStatsSummary>> => {
+    return summarize(Object.values(data.stats), stat => stat.octave);
+  }, [data]);
+
+  const getTopConfusions = useCallback((limit: number = 5): NoteConfusionPair[] => {
+    const pairs: NoteConfusionPair[] = [];
+
+    for (const [actual, row] of Object.entries(data.confusions)) {
+      for (const [guessed, count] of Object.entries(row ?? {})) {
+        pairs.push({ actual: actual as Note, guessed: guessed as Note, count: count ?? 0 });
+      }
+    }
+
+    return pairs
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }, [data]);
+
+  const updateFromAttempts = useCallback((attempts: GuessAttempt[]) => {
+    if (attempts.length === 0) {
+      return;
+    }
+
+    setData(prevData => applyAttempts(prevData, attempts));
+    setLastUpdated(new Date());
+  }, []);
+
+  const clearStats = useCallback(() => {
+    setData(EMPTY_DATA);
+    setLastUpdated(null);
+    try {
+      localStorage.removeItem(NOTE_STATS_SCHEMA.key);
+    } catch (error) {
+      console.warn('Failed to clear note stats from localStorage:', error);
+    }
+  }, []);
+
+  return {
+    stats: data.stats,
+    confusions: data.confusions,
+    getNoteStats,
+    getPitchClassStats,
+    getOctaveStats,
+    getTopConfusions,
+    updateFromAttempts,
+    clearStats,
+    lastUpdated
+  };
+};
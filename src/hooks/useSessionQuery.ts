@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import type { StoredGameSession, SessionQuery } from '../types/history';
+import { sessionRepository } from '../services/sessionRepository';
+
+export interface SessionQueryHook {
+  /** Sessions on the requested page, newest first */
+  sessions: StoredGameSession[];
+
+  /** Number of sessions matching the query, ignoring its paging */
+  total: number;
+
+  /** Whether the first result is still being read */
+  isLoading: boolean;
+}
+
+/**
+ * Hook for reading saved sessions from the session repository.
+ * The query is read again whenever it changes and whenever sessions are saved
+ * or deleted, so callers should memoize it.
+ *
+ * @param query - Which sessions to read, and which page of them
+ */
+export const useSessionQuery = (query: SessionQuery): SessionQueryHook => {
+  const [result, setResult] = useState<SessionQueryHook>({ sessions: [], total: 0, isLoading: true });
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    return sessionRepository.on('sessionsChanged', () => setRevision(value => value + 1));
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    Promise.all([sessionRepository.getSessions(query), sessionRepository.countSessions(query)])
+      .then(([sessions, total]) => {
+        if (isMounted) setResult({ sessions, total, isLoading: false });
+      })
+      .catch(error => {
+        console.warn('Failed to load game history:', error);
+        if (isMounted) setResult(previous => ({ ...previous, isLoading: false }));
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [query, revision]);
+
+  return result;
+};
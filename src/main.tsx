@@ -6,6 +6,16 @@ import './game/modes'
 // Load debug helpers
 import './utils/debugLogger'
 import App from './App.tsx'
+import { MidiManager } from './services/MidiManager'
+import { VirtualMidiInput } from './services/VirtualMidiInput'
+
+// Offer a virtual MIDI input in development, so exercises can be played
+// through from the console (window.virtualMidiInput) without a keyboard
+if (import.meta.env.DEV) {
+  const virtualMidiInput = new VirtualMidiInput()
+  MidiManager.getInstance().registerVirtualInput(virtualMidiInput)
+  Object.assign(window, { virtualMidiInput })
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
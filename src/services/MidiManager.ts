@@ -2,29 +2,58 @@ import { EventEmitter } from '../utils/EventEmitter';
 import {
   isNoteOnMessage,
   isNoteOffMessage,
+  isControlChangeMessage,
+  isPitchBendMessage,
+  isPedalDown,
+  getBindingFromMessage,
+  findBoundAction,
+  getChannelFromMessage,
   getMidiNoteFromMessage,
+  getPitchBendValue,
   getVelocityFromMessage,
   midiNoteToNoteWithOctave,
   isPlayableMidiNote,
+  MIDI_CONTROLLERS,
   type MidiMessage,
 } from '../utils/midiUtils';
 import type {
+  MidiActionBindings,
   MidiConnectionStatus,
   MidiDeviceInfo,
   MidiNoteEvent,
   MidiError,
   MidiErrorType,
+  MidiInputOptions,
+  MidiInputPort,
   MidiManagerEvents,
+  MidiPedal,
+  MidiPort,
 } from '../types/midi';
+import type { VirtualMidiInput } from './VirtualMidiInput';
+
+/**
+ * Keys and pedals of one MIDI channel of one input, used to work out when notes stop sounding
+ * @private
+ */
+interface ChannelState {
+  keysDown: Set<number>;
+  sounding: Set<number>;
+  sustain: boolean;
+  sostenuto: boolean;
+  sostenutoNotes: Set<number>;
+}
 
 /**
  * MidiManager - Singleton service for managing Web MIDI API interactions
  *
  * Provides centralized management of:
- * - MIDI device detection and selection
- * - MIDI message event handling
+ * - MIDI device detection and selection, from one or several inputs at once
+ * - MIDI message event handling, with channel filtering and sustain/sostenuto pedals
+ * - Controller buttons, pads and pedals mapped to game actions, per device
+ * - Sending messages to a selected output device
  * - Connection state management
  * - Device plug/unplug events
+ * - Virtual inputs that play scripted messages, listed alongside real devices
  *
  * @example
  * ```typescript
@@ -51,7 +80,14 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
   private static instance: MidiManager | null = null;
   private midiAccess: MIDIAccess | null = null;
   private selectedInputId: string | null = null;
+  private extraInputIds: string[] = [];
+  private selectedOutputId: string | null = null;
   private status: MidiConnectionStatus = 'disconnected';
+  private inputOptions: MidiInputOptions = { channel: null, pedals: true };
+  private channelStates: Map<string, Map<number, ChannelState>> = new Map(); // By input ID, then channel
+  private actionBindings: Record<string, MidiActionBindings> = {};
+  private pressedControllers: Set<string> = new Set();
+  private virtualInputs: Map<string, VirtualMidiInput> = new Map();
 
   /**
    * Private constructor to enforce singleton pattern
@@ -109,19 +145,27 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
       // Listen for device state changes (plug/unplug)
       this.midiAccess.onstatechange = this.handleStateChange.bind(this);
 
-      // If we had a previously selected device, try to reconnect
+      // If we had previously selected devices, try to reconnect
       if (this.selectedInputId) {
-        const device = this.midiAccess.inputs.get(this.selectedInputId);
+        const device = this.findInput(this.selectedInputId);
         if (device && device.state === 'connected') {
           await this.attachInputListener(device);
-          this.updateStatus('connected');
         } else {
           this.selectedInputId = null;
-          this.updateStatus('disconnected');
         }
-      } else {
-        this.updateStatus('disconnected');
       }
+
+      const previousExtraIds = this.extraInputIds;
+      this.extraInputIds = [];
+      for (const inputId of previousExtraIds) {
+        const device = this.findInput(inputId);
+        if (device && device.state === 'connected') {
+          await this.attachInputListener(device);
+          this.extraInputIds.push(inputId);
+        }
+      }
+
+      this.updateStatus(this.getListeningInputIds().length > 0 ? 'connected' : 'disconnected');
     } catch (error) {
       const midiError: MidiError = {
         type: error instanceof Error && error.name === 'SecurityError'
@@ -166,12 +210,15 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
     this.midiAccess.inputs.forEach((input) => {
       devices.push(this.convertToDeviceInfo(input));
     });
+    this.virtualInputs.forEach((input) => {
+      devices.push(this.convertToDeviceInfo(input));
+    });
 
     return devices;
   }
 
   /**
-   * Gets list of available MIDI output devices (for future use)
+   * Gets list of available MIDI output devices
    * @returns Array of MIDI device information
    */
   public getAvailableOutputs(): MidiDeviceInfo[] {
@@ -196,36 +243,71 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
   }
 
   /**
-   * Selects a MIDI input device by ID
+   * Selects the main MIDI input device by ID, replacing the previous main one.
+   * Inputs added with addInputDevice() keep listening.
    * @param deviceId - The ID of the device to select
    * @throws {Error} If MIDI is not initialized or device not found
    */
   public async selectInputDevice(deviceId: string): Promise<void> {
-    if (!this.midiAccess) {
-      throw new Error('MIDI not initialized. Call initialize() first.');
-    }
-
-    const device = this.midiAccess.inputs.get(deviceId);
-    if (!device) {
-      throw new Error(`MIDI input device with ID ${deviceId} not found`);
-    }
+    const device = this.getInputPort(deviceId);
 
     // Remove listener from previously selected device
-    if (this.selectedInputId) {
-      const previousDevice = this.midiAccess.inputs.get(this.selectedInputId);
+    if (this.selectedInputId && this.selectedInputId !== deviceId) {
+      const previousDevice = this.findInput(this.selectedInputId);
       if (previousDevice) {
         previousDevice.onmidimessage = null;
       }
+      this.releaseInputNotes(this.selectedInputId, performance.now());
     }
 
-    // Attach listener to new device
+    // Attach listener to new device (promoting it if it was an extra input)
     this.selectedInputId = deviceId;
+    this.extraInputIds = this.extraInputIds.filter(inputId => inputId !== deviceId);
+    await this.attachInputListener(device);
+    this.updateStatus('connected');
+  }
+
+  /**
+   * Listens to another MIDI input alongside the main one.
+   * Each input keeps its own notes and pedals, so a pedal only holds notes played on its input.
+   * @param deviceId - The ID of the device to add
+   * @throws {Error} If MIDI is not initialized or device not found
+   */
+  public async addInputDevice(deviceId: string): Promise<void> {
+    const device = this.getInputPort(deviceId);
+    if (this.getListeningInputIds().includes(deviceId)) {
+      return;
+    }
+
+    this.extraInputIds.push(deviceId);
     await this.attachInputListener(device);
     this.updateStatus('connected');
   }
 
   /**
-   * Gets information about the currently selected device
+   * Stops listening to one of the selected inputs, main or extra
+   * @param deviceId - The ID of the device to remove
+   */
+  public removeInputDevice(deviceId: string): void {
+    if (!this.getListeningInputIds().includes(deviceId)) {
+      return;
+    }
+
+    const device = this.findInput(deviceId);
+    if (device) {
+      device.onmidimessage = null;
+    }
+
+    if (this.selectedInputId === deviceId) {
+      this.selectedInputId = null;
+    }
+    this.extraInputIds = this.extraInputIds.filter(inputId => inputId !== deviceId);
+    this.releaseInputNotes(deviceId, performance.now());
+    this.updateStatus(this.hasConnectedInput() ? 'connected' : 'disconnected');
+  }
+
+  /**
+   * Gets information about the currently selected (main) device
    * @returns Device information or null if no device selected
    */
   public getSelectedDevice(): MidiDeviceInfo | null {
@@ -233,10 +315,150 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
       return null;
     }
 
-    const device = this.midiAccess.inputs.get(this.selectedInputId);
+    const device = this.findInput(this.selectedInputId);
     return device ? this.convertToDeviceInfo(device) : null;
   }
 
+  /**
+   * Gets information about every input being listened to
+   * @returns The main device first, then extra inputs in the order they were added
+   */
+  public getSelectedDevices(): MidiDeviceInfo[] {
+    if (!this.midiAccess) {
+      return [];
+    }
+
+    const devices: MidiDeviceInfo[] = [];
+    this.getListeningInputIds().forEach(inputId => {
+      const device = this.findInput(inputId);
+      if (device) {
+        devices.push(this.convertToDeviceInfo(device));
+      }
+    });
+
+    return devices;
+  }
+
+  /**
+   * Changes the channel filter and pedal handling.
+   * Notes held by a pedal are released when pedals are turned off.
+   * @param options - The options to change
+   */
+  public setInputOptions(options: Partial<MidiInputOptions>): void {
+    this.inputOptions = { ...this.inputOptions, ...options };
+
+    if (!this.inputOptions.pedals) {
+      this.channelStates.forEach((inputStates, deviceId) => {
+        inputStates.forEach((state, channel) => {
+          state.sustain = false;
+          state.sostenuto = false;
+          this.releaseUnheldNotes(deviceId, channel, performance.now());
+        });
+      });
+    }
+  }
+
+  /**
+   * Gets the current channel filter and pedal handling
+   */
+  public getInputOptions(): MidiInputOptions {
+    return { ...this.inputOptions };
+  }
+
+  /**
+   * Sets which controls trigger game actions. Messages from a mapped control
+   * emit 'action' instead of note, controller or pedal events.
+   * @param bindings - Mapped actions, by input device ID
+   */
+  public setActionBindings(bindings: Record<string, MidiActionBindings>): void {
+    this.actionBindings = bindings;
+  }
+
+  /**
+   * Lists a virtual input alongside the real ones, so it can be selected
+   * like a keyboard. Virtual inputs stay listed after disconnect().
+   * @param input - The virtual input to list
+   */
+  public registerVirtualInput(input: VirtualMidiInput): void {
+    this.virtualInputs.set(input.id, input);
+    this.emit('deviceConnected', this.convertToDeviceInfo(input));
+  }
+
+  /**
+   * Removes a virtual input, stopping listening to it if it was selected
+   * @param deviceId - The ID of the virtual input
+   */
+  public unregisterVirtualInput(deviceId: string): void {
+    const input = this.virtualInputs.get(deviceId);
+    if (!input) {
+      return;
+    }
+
+    this.removeInputDevice(deviceId);
+    input.stop();
+    this.virtualInputs.delete(deviceId);
+    this.emit('deviceDisconnected', this.convertToDeviceInfo(input));
+  }
+
+  /**
+   * Selects the MIDI output device messages are sent to
+   * @param deviceId - The ID of the output to select, or null to stop sending
+   * @throws {Error} If MIDI is not initialized or device not found
+   */
+  public async selectOutputDevice(deviceId: string | null): Promise<void> {
+    if (deviceId === null) {
+      this.selectedOutputId = null;
+      return;
+    }
+
+    if (!this.midiAccess) {
+      throw new Error('MIDI not initialized. Call initialize() first.');
+    }
+
+    const device = this.midiAccess.outputs.get(deviceId);
+    if (!device) {
+      throw new Error(`MIDI output device with ID ${deviceId} not found`);
+    }
+
+    this.selectedOutputId = deviceId;
+    await this.openOutput(device);
+  }
+
+  /**
+   * Gets information about the currently selected output device
+   * @returns Device information or null if no output selected
+   */
+  public getSelectedOutput(): MidiDeviceInfo | null {
+    if (!this.midiAccess || !this.selectedOutputId) {
+      return null;
+    }
+
+    const device = this.midiAccess.outputs.get(this.selectedOutputId);
+    return device ? this.convertToDeviceInfo(device) : null;
+  }
+
+  /**
+   * Sends a message to the selected output device.
+   * Does nothing while no output is selected or the selected output is unplugged.
+   * @param data - Message bytes, e.g. from createNoteOnMessage()
+   */
+  public sendMessage(data: number[]): void {
+    if (!this.midiAccess || !this.selectedOutputId) {
+      return;
+    }
+
+    const device = this.midiAccess.outputs.get(this.selectedOutputId);
+    if (!device || device.state !== 'connected') {
+      return;
+    }
+
+    try {
+      device.send(data);
+    } catch (err) {
+      console.error('[MidiManager] Failed to send MIDI message:', err);
+    }
+  }
+
   /**
    * Disconnects from MIDI and cleans up resources
    */
@@ -246,6 +468,9 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
       this.midiAccess.inputs.forEach((input) => {
         input.onmidimessage = null;
       });
+      this.virtualInputs.forEach((input) => {
+        input.onmidimessage = null;
+      });
 
       // Remove state change listener
       this.midiAccess.onstatechange = null;
@@ -253,6 +478,9 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
 
     this.midiAccess = null;
     this.selectedInputId = null;
+    this.extraInputIds = [];
+    this.selectedOutputId = null;
+    this.channelStates.clear();
     this.removeAllListeners();
     this.updateStatus('disconnected');
   }
@@ -263,9 +491,14 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
    */
   private handleStateChange(event: MIDIConnectionEvent): void {
     const port = event.port;
+    if (!port) {
+      return;
+    }
 
-    // Only handle input devices
-    if (port.type !== 'input') {
+    // Outputs only need announcing; sendMessage() checks their state on every send
+    if (port.type === 'output') {
+      const outputInfo = this.convertToDeviceInfo(port);
+      this.emit(port.state === 'connected' ? 'outputConnected' : 'outputDisconnected', outputInfo);
       return;
     }
 
@@ -274,8 +507,8 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
     if (port.state === 'connected') {
       this.emit('deviceConnected', deviceInfo);
 
-      // If this was our selected device, reattach listener
-      if (port.id === this.selectedInputId) {
+      // If this was one of our selected devices, reattach listener
+      if (this.getListeningInputIds().includes(port.id)) {
         // Fire and forget - don't await in event handler
         this.attachInputListener(port as MIDIInput).then(() => {
           this.updateStatus('connected');
@@ -284,18 +517,60 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
     } else if (port.state === 'disconnected') {
       this.emit('deviceDisconnected', deviceInfo);
 
-      // If this was our selected device, update status
-      if (port.id === this.selectedInputId) {
-        this.updateStatus('disconnected');
+      // If this was one of our selected devices, notes it was holding can't be released any more
+      if (this.getListeningInputIds().includes(port.id)) {
+        this.releaseInputNotes(port.id, performance.now());
+        this.updateStatus(this.hasConnectedInput() ? 'connected' : 'disconnected');
       }
     }
   }
 
+  /**
+   * Looks up an input port, checking MIDI has been initialized
+   * @private
+   */
+  private getInputPort(deviceId: string): MidiInputPort {
+    if (!this.midiAccess) {
+      throw new Error('MIDI not initialized. Call initialize() first.');
+    }
+
+    const device = this.findInput(deviceId);
+    if (!device) {
+      throw new Error(`MIDI input device with ID ${deviceId} not found`);
+    }
+
+    return device;
+  }
+
+  /**
+   * Finds a real or virtual input port by ID
+   * @private
+   */
+  private findInput(deviceId: string): MidiInputPort | undefined {
+    return this.virtualInputs.get(deviceId) ?? this.midiAccess?.inputs.get(deviceId);
+  }
+
+  /**
+   * IDs of the main input and the extra inputs
+   * @private
+   */
+  private getListeningInputIds(): string[] {
+    return this.selectedInputId ? [this.selectedInputId, ...this.extraInputIds] : [...this.extraInputIds];
+  }
+
+  /**
+   * Checks whether any selected input is plugged in
+   * @private
+   */
+  private hasConnectedInput(): boolean {
+    return this.getSelectedDevices().some(device => device.state === 'connected');
+  }
+
   /**
    * Attaches MIDI message listener to an input device
    * @private
    */
-  private async attachInputListener(input: MIDIInput): Promise<void> {
+  private async attachInputListener(input: MidiInputPort): Promise<void> {
     // Open the MIDI port if it's not already open
     if (input.connection !== 'open') {
       try {
@@ -307,15 +582,31 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
     }
 
     input.onmidimessage = (event: MIDIMessageEvent) => {
-      this.handleMidiMessage(event);
+      this.handleMidiMessage(event, input.id);
     };
   }
 
+  /**
+   * Opens an output port so the first message isn't delayed by the implicit open
+   * @private
+   */
+  private async openOutput(output: MIDIOutput): Promise<void> {
+    if (output.connection === 'open') {
+      return;
+    }
+
+    try {
+      await output.open();
+    } catch (err) {
+      console.error('[MidiManager] Failed to open MIDI output port:', err);
+    }
+  }
+
   /**
    * Handles incoming MIDI messages
    * @private
    */
-  private handleMidiMessage(event: MIDIMessageEvent): void {
+  private handleMidiMessage(event: MIDIMessageEvent, deviceId: string): void {
     const data = event.data;
 
     // Emit raw message event
@@ -331,19 +622,192 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
       data2: data[2],
     };
 
+    // Mapped controls are matched on their own channel, so they work outside the channel filter
+    if (this.handleBindableMessage(message, deviceId, event.timeStamp)) {
+      return;
+    }
+
+    // Ignore channel messages outside the channel filter
+    const channel = getChannelFromMessage(message);
+    if (this.inputOptions.channel !== null && channel !== this.inputOptions.channel) {
+      return;
+    }
+
     // Handle note events
     if (isNoteOnMessage(message)) {
-      this.handleNoteOn(message, event.timeStamp);
+      this.handleNoteOn(message, deviceId, event.timeStamp);
     } else if (isNoteOffMessage(message)) {
-      this.handleNoteOff(message, event.timeStamp);
+      this.handleNoteOff(message, deviceId, event.timeStamp);
+    } else if (isControlChangeMessage(message)) {
+      this.handleControlChange(message, deviceId, event.timeStamp);
+    } else if (isPitchBendMessage(message)) {
+      const value = getPitchBendValue(message);
+      this.emit('pitchBend', {
+        value,
+        bend: value < 0 ? value / 8192 : value / 8191,
+        channel,
+        timestamp: event.timeStamp,
+      });
+    }
+  }
+
+  /**
+   * Emits 'controlPressed' for presses of any control, and 'action' for
+   * presses of a control mapped on the device. A controller counts as pressed
+   * when its value goes past halfway, so pads and footswitches trigger once per press.
+   * @returns true if the message belongs to a mapped control and needs no further handling
+   * @private
+   */
+  private handleBindableMessage(message: MidiMessage, deviceId: string, timestamp: number): boolean {
+    const binding = getBindingFromMessage(message);
+    if (!binding) {
+      return false;
+    }
+
+    let isPress = binding.type !== 'note' || isNoteOnMessage(message);
+    if (binding.type === 'controlChange') {
+      const controllerKey = `${deviceId}:${binding.channel}:${binding.number}`;
+      const wasDown = this.pressedControllers.has(controllerKey);
+      const isDown = isPedalDown(message.data2 ?? 0);
+
+      if (isDown) {
+        this.pressedControllers.add(controllerKey);
+      } else {
+        this.pressedControllers.delete(controllerKey);
+      }
+      isPress = isDown && !wasDown;
+    }
+
+    if (isPress) {
+      this.emit('controlPressed', { deviceId, binding, timestamp });
+    }
+
+    const action = findBoundAction(this.actionBindings[deviceId], binding);
+    if (!action) {
+      return false;
+    }
+
+    if (isPress) {
+      this.emit('action', { action, deviceId, timestamp });
+    }
+    return true;
+  }
+
+  /**
+   * Handles control change messages, tracking the sustain and sostenuto pedals
+   * @private
+   */
+  private handleControlChange(message: MidiMessage, deviceId: string, timestamp: number): void {
+    const channel = getChannelFromMessage(message);
+    const value = message.data2 ?? 0;
+
+    this.emit('controlChange', { controller: message.data1, value, channel, timestamp });
+
+    if (message.data1 === MIDI_CONTROLLERS.SUSTAIN) {
+      this.handlePedal('sustain', isPedalDown(value), deviceId, channel, timestamp);
+    } else if (message.data1 === MIDI_CONTROLLERS.SOSTENUTO) {
+      this.handlePedal('sostenuto', isPedalDown(value), deviceId, channel, timestamp);
+    }
+  }
+
+  /**
+   * Updates a pedal's state. Sostenuto catches the notes sounding as it goes
+   * down; either pedal coming up releases the notes only it was holding.
+   * @private
+   */
+  private handlePedal(pedal: MidiPedal, isDown: boolean, deviceId: string, channel: number, timestamp: number): void {
+    if (!this.inputOptions.pedals) {
+      return;
+    }
+
+    const state = this.getChannelState(deviceId, channel);
+    if (state[pedal] === isDown) {
+      return;
+    }
+
+    state[pedal] = isDown;
+    if (pedal === 'sostenuto') {
+      state.sostenutoNotes = isDown ? new Set(state.sounding) : new Set();
+    }
+
+    this.emit('pedalChange', { pedal, isDown, channel, timestamp });
+
+    if (!isDown) {
+      this.releaseUnheldNotes(deviceId, channel, timestamp);
     }
   }
 
+  /**
+   * Emits noteOff for every note on a channel of an input that is no longer held by its key or a pedal
+   * @private
+   */
+  private releaseUnheldNotes(deviceId: string, channel: number, timestamp: number, velocity: number = 0): void {
+    const state = this.getChannelState(deviceId, channel);
+
+    Array.from(state.sounding).forEach(midiNote => {
+      const isHeld = state.keysDown.has(midiNote)
+        || state.sustain
+        || (state.sostenuto && state.sostenutoNotes.has(midiNote));
+      if (isHeld) {
+        return;
+      }
+
+      state.sounding.delete(midiNote);
+      this.emit('noteOff', {
+        note: midiNoteToNoteWithOctave(midiNote),
+        midiNote,
+        velocity,
+        timestamp,
+        channel,
+      });
+    });
+  }
+
+  /**
+   * Gets the key and pedal state of a channel of an input, creating it on first use
+   * @private
+   */
+  private getChannelState(deviceId: string, channel: number): ChannelState {
+    let inputStates = this.channelStates.get(deviceId);
+    if (!inputStates) {
+      inputStates = new Map();
+      this.channelStates.set(deviceId, inputStates);
+    }
+
+    let state = inputStates.get(channel);
+    if (!state) {
+      state = {
+        keysDown: new Set(),
+        sounding: new Set(),
+        sustain: false,
+        sostenuto: false,
+        sostenutoNotes: new Set(),
+      };
+      inputStates.set(channel, state);
+    }
+    return state;
+  }
+
+  /**
+   * Emits noteOff for every note still sounding on an input, then forgets its
+   * keys and pedals, e.g. when it is unplugged or no longer listened to
+   * @private
+   */
+  private releaseInputNotes(deviceId: string, timestamp: number): void {
+    this.channelStates.get(deviceId)?.forEach((state, channel) => {
+      state.keysDown.clear();
+      state.sustain = false;
+      state.sostenuto = false;
+      this.releaseUnheldNotes(deviceId, channel, timestamp);
+    });
+    this.channelStates.delete(deviceId);
+  }
+
   /**
    * Handles note on messages
    * @private
    */
-  private handleNoteOn(message: MidiMessage, timestamp: number): void {
+  private handleNoteOn(message: MidiMessage, deviceId: string, timestamp: number): void {
     const midiNote = getMidiNoteFromMessage(message);
     const velocity = getVelocityFromMessage(message);
 
@@ -358,13 +822,19 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
 
     try {
       const note = midiNoteToNoteWithOctave(midiNote);
+      const channel = getChannelFromMessage(message);
       const noteEvent: MidiNoteEvent = {
         note,
         midiNote,
         velocity,
         timestamp,
+        channel,
       };
 
+      const state = this.getChannelState(deviceId, channel);
+      state.keysDown.add(midiNote);
+      state.sounding.add(midiNote);
+
       this.emit('noteOn', noteEvent);
     } catch (error) {
       // Silently ignore notes that can't be converted
@@ -373,10 +843,11 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
   }
 
   /**
-   * Handles note off messages
+   * Handles note off messages. A note held by a pedal keeps sounding, and its
+   * noteOff is emitted when the pedal comes up instead.
    * @private
    */
-  private handleNoteOff(message: MidiMessage, timestamp: number): void {
+  private handleNoteOff(message: MidiMessage, deviceId: string, timestamp: number): void {
     const midiNote = getMidiNoteFromMessage(message);
     const velocity = getVelocityFromMessage(message) ?? 0;
 
@@ -389,6 +860,17 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
       return;
     }
 
+    const channel = getChannelFromMessage(message);
+    const state = this.getChannelState(deviceId, channel);
+    state.keysDown.delete(midiNote);
+
+    const isHeldByPedal = state.sounding.has(midiNote)
+      && (state.sustain || (state.sostenuto && state.sostenutoNotes.has(midiNote)));
+    if (isHeldByPedal) {
+      return;
+    }
+    state.sounding.delete(midiNote);
+
     try {
       const note = midiNoteToNoteWithOctave(midiNote);
       const noteEvent: MidiNoteEvent = {
@@ -396,6 +878,7 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
         midiNote,
         velocity,
         timestamp,
+        channel,
       };
 
       this.emit('noteOff', noteEvent);
@@ -405,10 +888,10 @@ export class MidiManager extends EventEmitter<MidiManagerEvents> {
   }
 
   /**
-   * Converts MIDIInput/MIDIOutput to MidiDeviceInfo
+   * Converts an input or output port to MidiDeviceInfo
    * @private
    */
-  private convertToDeviceInfo(port: MIDIInput | MIDIOutput): MidiDeviceInfo {
+  private convertToDeviceInfo(port: MidiPort): MidiDeviceInfo {
     return {
       id: port.id,
       manufacturer: port.manufacturer || 'Unknown',
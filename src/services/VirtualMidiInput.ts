@@ -0,0 +1,169 @@
+import type { MidiInputPort, MidiScript, MidiScriptEvent } from '../types/midi';
+import { parseMidiFile } from '../utils/midiFile';
+import type { MidiFile } from '../utils/midiFile';
+
+/**
+ * Options for playing a script
+ */
+export interface MidiScriptPlaybackOptions {
+  /** Playback speed, e.g. 2 plays twice as fast (default 1) */
+  speed?: number;
+}
+
+/**
+ * VirtualMidiInput - A simulated MIDI input device
+ *
+ * Behaves like a Web MIDI input port (MidiInputPort), so once registered with
+ * MidiManager.registerVirtualInput() it can be selected like a keyboard.
+ * Messages are sent one at a time with send(), or played from a script of
+ * timed messages or a .mid file. Used in development builds and tests to
+ * play through exercises without hardware.
+ *
+ * @example
+ * ```typescript
+ * const input = new VirtualMidiInput();
+ * midiManager.registerVirtualInput(input);
+ * await midiManager.selectInputDevice(input.id);
+ *
+ * await input.play({
+ *   events: [
+ *     { time: 0, data: [0x90, 60, 100] },
+ *     { time: 500, data: [0x80, 60, 0] }
+ *   ]
+ * });
+ * ```
+ */
+export class VirtualMidiInput implements MidiInputPort {
+  readonly id: string;
+  readonly name: string;
+  readonly manufacturer = 'Virtual';
+  readonly type: MIDIPortType = 'input';
+  state: MIDIPortDeviceState = 'connected';
+  connection: MIDIPortConnectionState = 'closed';
+  onmidimessage: ((event: MIDIMessageEvent) => void) | null = null;
+
+  private pendingEvents: ReturnType<typeof setTimeout>[] = [];
+  private finishPlayback: (() => void) | null = null;
+
+  constructor(id: string = 'virtual-midi-input', name: string = 'Virtual MIDI Input') {
+    this.id = id;
+    this.name = name;
+  }
+
+  async open(): Promise<this> {
+    this.connection = 'open';
+    return this;
+  }
+
+  async close(): Promise<this> {
+    this.stop();
+    this.connection = 'closed';
+    return this;
+  }
+
+  /**
+   * Sends a message straight away, as if a key or control had just been used
+   * @param data - Message bytes
+   * @param timestamp - Event timestamp (defaults to now)
+   */
+  send(data: number[], timestamp: number = performance.now()): void {
+    this.onmidimessage?.({
+      data: new Uint8Array(data),
+      timeStamp: timestamp,
+    } as MIDIMessageEvent);
+  }
+
+  /**
+   * Plays a script, sending each message at its time. Stops any script
+   * already playing first.
+   * @returns Promise that resolves once the last message is sent or playback is stopped
+   */
+  play(script: MidiScript, options: MidiScriptPlaybackOptions = {}): Promise<void> {
+    const { speed = 1 } = options;
+    this.stop();
+
+    if (script.events.length === 0) {
+      return Promise.resolve();
+    }
+
+    const lastTime = Math.max(...script.events.map(event => event.time));
+
+    return new Promise(resolve => {
+      this.finishPlayback = resolve;
+
+      script.events.forEach(event => {
+        this.pendingEvents.push(setTimeout(() => this.send(event.data), event.time / speed));
+      });
+
+      // Resolve after the last message, whatever order the script lists them in
+      this.pendingEvents.push(setTimeout(() => this.stop(), lastTime / speed));
+    });
+  }
+
+  /**
+   * Plays the channel messages of a Standard MIDI File
+   * @param data - Contents of a .mid file
+   * @throws Error if the file can't be parsed
+   */
+  playMidiFile(data: ArrayBuffer | Uint8Array, options: MidiScriptPlaybackOptions = {}): Promise<void> {
+    return this.play(midiFileToScript(parseMidiFile(data)), options);
+  }
+
+  /**
+   * Checks whether a script is playing
+   */
+  isPlaying(): boolean {
+    return this.finishPlayback !== null;
+  }
+
+  /**
+   * Stops the script playing, without sending its remaining messages
+   */
+  stop(): void {
+    this.pendingEvents.forEach(clearTimeout);
+    this.pendingEvents = [];
+
+    const finishPlayback = this.finishPlayback;
+    this.finishPlayback = null;
+    finishPlayback?.();
+  }
+}
+
+/**
+ * Merges the tracks of a MIDI file into one script, in time order
+ */
+export function midiFileToScript(file: MidiFile): MidiScript {
+  const events: MidiScriptEvent[] = file.tracks
+    .flatMap(track => track.events.map(event => ({ time: event.time, data: event.data })))
+    .sort((a, b) => a.time - b.time);
+
+  return { name: file.tracks.find(track => track.name)?.name, events };
+}
+
+/**
+ * Checks that parsed JSON is a script of timed messages.
+ *
+ * @param json - Parsed JSON, e.g. from JSON.parse() of a script file
+ * @returns The script
+ * @throws Error naming the first invalid event
+ */
+export function parseMidiScript(json: unknown): MidiScript {
+  if (typeof json !== 'object' || json === null || !Array.isArray((json as MidiScript).events)) {
+    throw new Error('MIDI script must be an object with an events array');
+  }
+
+  const { name, events } = json as MidiScript;
+
+  events.forEach((event, index) => {
+    const isValid = typeof event === 'object' && event !== null
+      && typeof event.time === 'number' && event.time >= 0
+      && Array.isArray(event.data) && event.data.length > 0
+      && event.data.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255);
+
+    if (!isValid) {
+      throw new Error(`Invalid MIDI script event at index ${index}`);
+    }
+  });
+
+  return { name: typeof name === 'string' ? name : undefined, events };
+}
@@ -1,15 +1,17 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
 import { MidiManager } from '../MidiManager';
 import {
   MidiMessages,
   MIDI_TEST_CONSTANTS,
   MockMIDIInput,
+  MockMIDIOutput,
   MockMIDIAccess,
   createMidiTestFixture,
   cleanupMidiTestFixture,
   type MidiTestFixture,
 } from '../../utils/__tests__/testHelpers';
-import type { MidiNoteEvent, MidiError, MidiDeviceInfo } from '../../types/midi';
+import type { MidiNoteEvent, MidiError, MidiDeviceInfo, MidiActionEvent } from '../../types/midi';
 
 /**
  * Test suite for MidiManager
@@ -395,6 +397,281 @@ describe('MidiManager', () => {
     });
   });
 
+  describe('Pedals, Channels and Controllers', () => {
+    const pressed = () => new Set<number>();
+    let held: Set<number>;
+
+    beforeEach(async () => {
+      await midiManager.initialize();
+      await midiManager.selectInputDevice('device-1');
+
+      held = pressed();
+      midiManager.on('noteOn', event => held.add(event.midiNote));
+      midiManager.on('noteOff', event => held.delete(event.midiNote));
+    });
+
+    it('should keep released notes held until the sustain pedal comes up', () => {
+      const pedalSpy = vi.fn();
+      midiManager.on('pedalChange', pedalSpy);
+
+      mockDevice1.simulateNoteOn(60);
+      mockDevice1.simulateMessage([0xB0, 64, 127]);
+      mockDevice1.simulateNoteOff(60);
+      mockDevice1.simulateNoteOn(64);
+      mockDevice1.simulateNoteOff(64);
+
+      expect(held).toEqual(new Set([60, 64]));
+      expect(pedalSpy).toHaveBeenCalledWith(expect.objectContaining({ pedal: 'sustain', isDown: true, channel: 1 }));
+
+      mockDevice1.simulateMessage([0xB0, 64, 0]);
+
+      expect(held).toEqual(new Set());
+    });
+
+    it('should not release keys that are still down when the sustain pedal comes up', () => {
+      mockDevice1.simulateMessage([0xB0, 64, 127]);
+      mockDevice1.simulateNoteOn(60);
+      mockDevice1.simulateNoteOn(64);
+      mockDevice1.simulateNoteOff(64);
+      mockDevice1.simulateMessage([0xB0, 64, 0]);
+
+      expect(held).toEqual(new Set([60]));
+    });
+
+    it('should only hold notes sounding when the sostenuto pedal went down', () => {
+      mockDevice1.simulateNoteOn(48);
+      mockDevice1.simulateMessage([0xB0, 66, 127]);
+      mockDevice1.simulateNoteOff(48);
+      mockDevice1.simulateNoteOn(64);
+      mockDevice1.simulateNoteOff(64);
+
+      expect(held).toEqual(new Set([48]));
+
+      mockDevice1.simulateMessage([0xB0, 66, 0]);
+
+      expect(held).toEqual(new Set());
+    });
+
+    it('should release notes on key up when pedals are turned off', () => {
+      mockDevice1.simulateNoteOn(60);
+      mockDevice1.simulateMessage([0xB0, 64, 127]);
+      mockDevice1.simulateNoteOff(60);
+
+      midiManager.setInputOptions({ pedals: false });
+      expect(held).toEqual(new Set());
+
+      mockDevice1.simulateMessage([0xB0, 64, 127]);
+      mockDevice1.simulateNoteOn(62);
+      mockDevice1.simulateNoteOff(62);
+      expect(held).toEqual(new Set());
+    });
+
+    it('should track pedals per channel', () => {
+      mockDevice1.simulateMessage([0xB1, 64, 127]); // Sustain on channel 2
+      mockDevice1.simulateNoteOn(60, 64, 0);
+      mockDevice1.simulateNoteOff(60, 64, 0);
+
+      expect(held).toEqual(new Set());
+    });
+
+    it('should only accept messages on the filtered channel', () => {
+      const noteOnSpy = vi.fn();
+      midiManager.on('noteOn', noteOnSpy);
+      midiManager.setInputOptions({ channel: 10 });
+
+      mockDevice1.simulateNoteOn(60, 64, 0);
+      mockDevice1.simulateNoteOn(62, 64, 9);
+
+      expect(noteOnSpy).toHaveBeenCalledTimes(1);
+      expect(noteOnSpy).toHaveBeenCalledWith(expect.objectContaining({ midiNote: 62, channel: 10 }));
+      expect(midiManager.getInputOptions()).toEqual({ channel: 10, pedals: true });
+    });
+
+    it('should emit control change and pitch bend events', () => {
+      const controlChangeSpy = vi.fn();
+      const pitchBendSpy = vi.fn();
+      midiManager.on('controlChange', controlChangeSpy);
+      midiManager.on('pitchBend', pitchBendSpy);
+
+      mockDevice1.simulateMessage([0xB2, 1, 100], 500); // Mod wheel on channel 3
+      mockDevice1.simulateMessage([0xE0, 0, 64]);
+      mockDevice1.simulateMessage([0xE0, 0, 0]);
+      mockDevice1.simulateMessage([0xE0, 127, 127]);
+
+      expect(controlChangeSpy).toHaveBeenCalledWith({ controller: 1, value: 100, channel: 3, timestamp: 500 });
+      expect(pitchBendSpy.mock.calls.map(([event]) => [event.value, event.bend])).toEqual([
+        [0, 0],
+        [-8192, -1],
+        [8191, 1]
+      ]);
+    });
+  });
+
+  describe('Multiple Inputs', () => {
+    beforeEach(async () => {
+      await midiManager.initialize();
+      await midiManager.selectInputDevice('device-1');
+    });
+
+    it('should listen to added inputs alongside the main one', async () => {
+      const noteOnSpy = vi.fn();
+      midiManager.on('noteOn', noteOnSpy);
+
+      await midiManager.addInputDevice('device-2');
+      mockDevice1.simulateNoteOn(60);
+      mockDevice2.simulateNoteOn(62);
+
+      expect(noteOnSpy).toHaveBeenCalledTimes(2);
+      expect(midiManager.getSelectedDevice()?.id).toBe('device-1');
+      expect(midiManager.getSelectedDevices().map(device => device.id)).toEqual(['device-1', 'device-2']);
+    });
+
+    it('should keep added inputs when the main input changes', async () => {
+      const device3 = new MockMIDIInput('device-3', 'Pad Controller');
+      mockMidiAccess.inputs.set(device3.id, device3 as unknown as MIDIInput);
+
+      await midiManager.addInputDevice('device-2');
+      await midiManager.selectInputDevice('device-3');
+
+      expect(mockDevice1.onmidimessage).toBeNull();
+      expect(mockDevice2.onmidimessage).not.toBeNull();
+      expect(midiManager.getSelectedDevices().map(device => device.id)).toEqual(['device-3', 'device-2']);
+    });
+
+    it('should stop listening to a removed input', async () => {
+      await midiManager.addInputDevice('device-2');
+      midiManager.removeInputDevice('device-2');
+
+      expect(mockDevice2.onmidimessage).toBeNull();
+      expect(midiManager.getSelectedDevices().map(device => device.id)).toEqual(['device-1']);
+    });
+
+    it('should track keys and pedals per input', async () => {
+      const held = new Set<number>();
+      midiManager.on('noteOn', event => held.add(event.midiNote));
+      midiManager.on('noteOff', event => held.delete(event.midiNote));
+
+      await midiManager.addInputDevice('device-2');
+      mockDevice1.simulateMessage([0xB0, 64, 127]); // Sustain on the first input only
+      mockDevice1.simulateNoteOn(60);
+      mockDevice1.simulateNoteOff(60);
+      mockDevice2.simulateNoteOn(62);
+      mockDevice2.simulateNoteOff(62);
+
+      expect(held).toEqual(new Set([60]));
+    });
+
+    it('should release the notes of an input when it is unplugged or removed', async () => {
+      const noteOffSpy = vi.fn();
+      midiManager.on('noteOff', noteOffSpy);
+
+      await midiManager.addInputDevice('device-2');
+      mockDevice1.simulateNoteOn(60);
+      mockDevice1.simulateMessage([0xB0, 64, 127]);
+      mockDevice1.simulateNoteOn(64);
+      mockDevice1.simulateNoteOff(64);
+      mockDevice2.simulateNoteOn(67);
+
+      mockMidiAccess.simulateDeviceDisconnected('device-1');
+      expect(noteOffSpy.mock.calls.map(([event]) => event.midiNote).sort()).toEqual([60, 64]);
+
+      midiManager.removeInputDevice('device-2');
+      expect(noteOffSpy.mock.calls.map(([event]) => event.midiNote).sort()).toEqual([60, 64, 67]);
+    });
+
+    it('should stay connected while any selected input is plugged in', async () => {
+      await midiManager.addInputDevice('device-2');
+
+      mockMidiAccess.simulateDeviceDisconnected('device-1');
+      expect(midiManager.getConnectionStatus()).toBe('connected');
+
+      mockMidiAccess.simulateDeviceDisconnected('device-2');
+      expect(midiManager.getConnectionStatus()).toBe('disconnected');
+    });
+  });
+
+  describe('Action Bindings', () => {
+    let actionSpy: Mock<(event: MidiActionEvent) => void>;
+    let noteOnSpy: Mock<(event: MidiNoteEvent) => void>;
+
+    beforeEach(async () => {
+      await midiManager.initialize();
+      await midiManager.selectInputDevice('device-1');
+      await midiManager.addInputDevice('device-2');
+
+      midiManager.setActionBindings({
+        'device-1': {
+          replay: { type: 'note', number: 36, channel: 10 },
+          next: { type: 'controlChange', number: 64, channel: 1 },
+          pause: { type: 'programChange', number: 3, channel: 1 }
+        }
+      });
+
+      actionSpy = vi.fn();
+      noteOnSpy = vi.fn();
+      midiManager.on('action', actionSpy);
+      midiManager.on('noteOn', noteOnSpy);
+    });
+
+    it('should emit the mapped action instead of the note', () => {
+      const noteOffSpy = vi.fn();
+      midiManager.on('noteOff', noteOffSpy);
+
+      mockDevice1.simulateMessage([0x99, 36, 100], 250);
+      mockDevice1.simulateMessage([0x89, 36, 0]);
+
+      expect(actionSpy).toHaveBeenCalledTimes(1);
+      expect(actionSpy).toHaveBeenCalledWith({ action: 'replay', deviceId: 'device-1', timestamp: 250 });
+      expect(noteOnSpy).not.toHaveBeenCalled();
+      expect(noteOffSpy).not.toHaveBeenCalled();
+    });
+
+    it('should only map controls on the device they were learned on', () => {
+      mockDevice2.simulateMessage([0x99, 36, 100]);
+      mockDevice1.simulateNoteOn(36); // Same note on channel 1
+
+      expect(actionSpy).not.toHaveBeenCalled();
+      expect(noteOnSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should trigger a mapped controller once per press and not treat it as a pedal', () => {
+      const pedalSpy = vi.fn();
+      midiManager.on('pedalChange', pedalSpy);
+
+      mockDevice1.simulateMessage([0xB0, 64, 127]);
+      mockDevice1.simulateMessage([0xB0, 64, 100]);
+      mockDevice1.simulateMessage([0xB0, 64, 0]);
+      mockDevice1.simulateMessage([0xB0, 64, 127]);
+
+      expect(actionSpy.mock.calls.map(([event]) => event.action)).toEqual(['next', 'next']);
+      expect(pedalSpy).not.toHaveBeenCalled();
+    });
+
+    it('should map program changes and work outside the channel filter', () => {
+      midiManager.setInputOptions({ channel: 2 });
+
+      mockDevice1.simulateMessage([0xC0, 3]);
+      mockDevice1.simulateMessage([0x99, 36, 100]);
+
+      expect(actionSpy.mock.calls.map(([event]) => event.action)).toEqual(['pause', 'replay']);
+    });
+
+    it('should report presses of any control for MIDI learn', () => {
+      const controlPressedSpy = vi.fn();
+      midiManager.on('controlPressed', controlPressedSpy);
+
+      mockDevice2.simulateMessage([0xB3, 20, 127], 100);
+      mockDevice2.simulateMessage([0xB3, 20, 0]);
+      mockDevice1.simulateNoteOn(60);
+      mockDevice1.simulateNoteOff(60);
+
+      expect(controlPressedSpy.mock.calls.map(([event]) => event)).toEqual([
+        { deviceId: 'device-2', binding: { type: 'controlChange', number: 20, channel: 4 }, timestamp: 100 },
+        { deviceId: 'device-1', binding: { type: 'note', number: 60, channel: 1 }, timestamp: expect.any(Number) }
+      ]);
+    });
+  });
+
   describe('Device Connection Events', () => {
     beforeEach(async () => {
       await midiManager.initialize();
@@ -480,6 +757,64 @@ describe('MidiManager', () => {
     });
   });
 
+  describe('Output Devices', () => {
+    let synth: MockMIDIOutput;
+
+    beforeEach(async () => {
+      synth = new MockMIDIOutput('synth-1', 'Piano Module', 'Manufacturer C');
+      mockMidiAccess.outputs.set(synth.id, synth as unknown as MIDIOutput);
+      await midiManager.initialize();
+    });
+
+    it('should select an output device and open its port', async () => {
+      await midiManager.selectOutputDevice('synth-1');
+
+      expect(midiManager.getSelectedOutput()).toMatchObject({ id: 'synth-1', name: 'Piano Module', type: 'output' });
+      expect(synth.connection).toBe('open');
+    });
+
+    it('should throw error when selecting non-existent output', async () => {
+      await expect(midiManager.selectOutputDevice('non-existent'))
+        .rejects.toThrow('MIDI output device with ID non-existent not found');
+    });
+
+    it('should send messages to the selected output only while it is connected', async () => {
+      midiManager.sendMessage([0x90, 60, 100]);
+      expect(synth.send).not.toHaveBeenCalled();
+
+      await midiManager.selectOutputDevice('synth-1');
+      midiManager.sendMessage([0x90, 60, 100]);
+      expect(synth.send).toHaveBeenCalledWith([0x90, 60, 100]);
+
+      mockMidiAccess.simulateOutputStateChange(synth, 'disconnected');
+      midiManager.sendMessage([0x80, 60, 0]);
+      expect(synth.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop sending when the output is cleared', async () => {
+      await midiManager.selectOutputDevice('synth-1');
+      await midiManager.selectOutputDevice(null);
+
+      midiManager.sendMessage([0x90, 60, 100]);
+
+      expect(midiManager.getSelectedOutput()).toBeNull();
+      expect(synth.send).not.toHaveBeenCalled();
+    });
+
+    it('should announce outputs being plugged in and unplugged', () => {
+      const outputConnectedSpy = vi.fn();
+      const outputDisconnectedSpy = vi.fn();
+      midiManager.on('outputConnected', outputConnectedSpy);
+      midiManager.on('outputDisconnected', outputDisconnectedSpy);
+
+      mockMidiAccess.simulateOutputStateChange(synth, 'disconnected');
+      mockMidiAccess.simulateOutputStateChange(synth, 'connected');
+
+      expect(outputDisconnectedSpy).toHaveBeenCalledWith(expect.objectContaining({ id: 'synth-1', state: 'disconnected' }));
+      expect(outputConnectedSpy).toHaveBeenCalledWith(expect.objectContaining({ id: 'synth-1', state: 'connected' }));
+    });
+  });
+
   describe('Connection Status Management', () => {
     it('should start with disconnected status', () => {
       expect(midiManager.getConnectionStatus()).toBe('disconnected');
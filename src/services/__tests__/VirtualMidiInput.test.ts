@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { VirtualMidiInput, midiFileToScript, parseMidiScript } from '../VirtualMidiInput';
+import {
+  createMidiTestFixture,
+  cleanupMidiTestFixture,
+  type MidiTestFixture,
+} from '../../utils/__tests__/testHelpers';
+import type { MidiFile } from '../../utils/midiFile';
+import type { MidiNoteEvent, MidiScript } from '../../types/midi';
+
+describe('VirtualMidiInput', () => {
+  let input: VirtualMidiInput;
+  let received: Mock<(event: MIDIMessageEvent) => void>;
+
+  const script: MidiScript = {
+    events: [
+      { time: 1000, data: [0x80, 60, 0] },
+      { time: 0, data: [0x90, 60, 100] },
+      { time: 500, data: [0x90, 64, 100] },
+    ]
+  };
+
+  const sentData = () => received.mock.calls.map(([event]) => Array.from(event.data!));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    input = new VirtualMidiInput();
+    received = vi.fn();
+    input.onmidimessage = received;
+  });
+
+  afterEach(() => {
+    input.stop();
+    vi.useRealTimers();
+  });
+
+  describe('Playback', () => {
+    it('sends each message at its time and resolves after the last', async () => {
+      const onFinished = vi.fn();
+      input.play(script).then(onFinished);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(sentData()).toEqual([[0x90, 60, 100]]);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(sentData()).toEqual([[0x90, 60, 100], [0x90, 64, 100]]);
+      expect(input.isPlaying()).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(sentData()).toHaveLength(3);
+      expect(input.isPlaying()).toBe(false);
+      expect(onFinished).toHaveBeenCalled();
+    });
+
+    it('plays faster with a higher speed', async () => {
+      input.play(script, { speed: 2 });
+
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(sentData()).toHaveLength(3);
+    });
+
+    it('stops without sending the remaining messages', async () => {
+      const playback = input.play(script);
+
+      await vi.advanceTimersByTimeAsync(600);
+      input.stop();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await expect(playback).resolves.toBeUndefined();
+      expect(sentData()).toHaveLength(2);
+    });
+
+    it('plays the notes of a .mid file', async () => {
+      const midi = new Uint8Array([
+        0x4D, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xE0,
+        0x4D, 0x54, 0x72, 0x6B, 0, 0, 0, 13,
+        0x00, 0x90, 60, 100,
+        0x83, 0x60, 0x80, 60, 0,
+        0x00, 0xFF, 0x2F, 0x00,
+      ]);
+
+      input.playMidiFile(midi);
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(sentData()).toEqual([[0x90, 60, 100], [0x80, 60, 0]]);
+    });
+  });
+
+  describe('Selection in MidiManager', () => {
+    let fixture: MidiTestFixture;
+
+    beforeEach(async () => {
+      fixture = createMidiTestFixture();
+      await fixture.midiManager.initialize();
+    });
+
+    afterEach(() => {
+      cleanupMidiTestFixture(fixture);
+    });
+
+    it('is listed and selected like a real input', async () => {
+      fixture.midiManager.registerVirtualInput(input);
+
+      expect(fixture.midiManager.getAvailableInputs().map(device => device.id))
+        .toEqual(['device-1', 'device-2', 'virtual-midi-input']);
+
+      await fixture.midiManager.selectInputDevice(input.id);
+      const noteOn = vi.fn<(event: MidiNoteEvent) => void>();
+      fixture.midiManager.on('noteOn', noteOn);
+
+      input.send([0x90, 60, 100]);
+
+      expect(fixture.midiManager.getSelectedDevice()?.name).toBe('Virtual MIDI Input');
+      expect(noteOn).toHaveBeenCalledWith(expect.objectContaining({ note: { note: 'C', octave: 5 } }));
+    });
+
+    it('stops being listened to when unregistered', async () => {
+      const disconnected = vi.fn();
+      fixture.midiManager.on('deviceDisconnected', disconnected);
+      fixture.midiManager.registerVirtualInput(input);
+      await fixture.midiManager.selectInputDevice(input.id);
+
+      fixture.midiManager.unregisterVirtualInput(input.id);
+
+      expect(input.onmidimessage).toBeNull();
+      expect(fixture.midiManager.getSelectedDevice()).toBeNull();
+      expect(disconnected).toHaveBeenCalledWith(expect.objectContaining({ id: 'virtual-midi-input' }));
+    });
+  });
+});
+
+describe('midiFileToScript', () => {
+  it('merges the tracks in time order', () => {
+    const file: MidiFile = {
+      format: 1,
+      ticksPerBeat: 480,
+      duration: 500,
+      tracks: [
+        { name: 'Chords', events: [{ tick: 480, time: 500, data: [0x90, 64, 100] }] },
+        { events: [{ tick: 0, time: 0, data: [0x90, 60, 100] }] },
+      ]
+    };
+
+    expect(midiFileToScript(file)).toEqual({
+      name: 'Chords',
+      events: [
+        { time: 0, data: [0x90, 60, 100] },
+        { time: 500, data: [0x90, 64, 100] },
+      ]
+    });
+  });
+});
+
+describe('parseMidiScript', () => {
+  it('accepts a script of timed messages', () => {
+    const json = JSON.parse('{"name": "C major", "events": [{"time": 0, "data": [144, 60, 100]}]}');
+
+    expect(parseMidiScript(json)).toEqual({ name: 'C major', events: [{ time: 0, data: [144, 60, 100] }] });
+  });
+
+  it.each([
+    { name: 'no events array', json: { name: 'Empty' }, error: 'MIDI script must be an object with an events array' },
+    { name: 'a negative time', json: { events: [{ time: -1, data: [144, 60, 100] }] }, error: 'Invalid MIDI script event at index 0' },
+    { name: 'a byte out of range', json: { events: [{ time: 0, data: [144, 60, 100] }, { time: 0, data: [256] }] }, error: 'Invalid MIDI script event at index 1' },
+  ])('rejects $name', ({ json, error }) => {
+    expect(() => parseMidiScript(json)).toThrow(error);
+  });
+});
@@ -0,0 +1,412 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  createBackup,
+  exportBackup,
+  parseBackup,
+  importBackup,
+  getBackupFileName
+} from '../dataBackup';
+import { loadCustomPresets, saveCustomPreset, loadCustomChordTypes, saveCustomChordType } from '../presetStorage';
+import { setCustomChordTypes } from '../../utils/chordTypeRegistry';
+import { sessionRepository } from '../sessionRepository';
+import { STORAGE_KEYS } from '../../constants';
+import { CHORD_STATS_VERSION, NOTE_STATS_VERSION } from '../../types/stats';
+import type { ChordStatsStore, NoteStatsStore } from '../../types/stats';
+import type { SerializedGameSession, UserDataBackup } from '../../types/backup';
+import { ChordType } from '../../types/music';
+import { setupLocalStorageMock } from '../../test/localStorageMock';
+
+describe('dataBackup', () => {
+  const mockFilter = {
+    allowedChordTypes: [ChordType.MAJOR, ChordType.MINOR],
+    allowedRootNotes: null,
+    allowedOctaves: [3, 4],
+    includeInversions: false,
+  };
+
+  const createSession = (mode: string, timestamp: string, accuracy: number = 80): SerializedGameSession => ({
+    mode,
+    timestamp,
+    completionTime: 60,
+    accuracy,
+    totalAttempts: 10,
+    settings: {},
+    results: {}
+  });
+
+  const createChordStats = (correctAttempts: number, totalAttempts: number, lastPracticed: string): ChordStatsStore => ({
+    version: CHORD_STATS_VERSION,
+    stats: {
+      Am7: {
+        chordName: 'Am7',
+        totalAttempts,
+        correctAttempts,
+        lastPracticed,
+        averageAccuracy: (correctAttempts / totalAttempts) * 100
+      }
+    },
+    lastUpdated: lastPracticed
+  });
+
+  const store = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
+  const read = (key: string) => JSON.parse(localStorage.getItem(key)!);
+
+  const storeSessions = (sessions: SerializedGameSession[]) =>
+    sessionRepository.addSessions(sessions.map(session => ({ ...session, timestamp: new Date(session.timestamp) })));
+  const readSessionTimestamps = async () =>
+    (await sessionRepository.getSessions()).map(session => session.timestamp.toISOString());
+
+  const createImportedBackup = (data: Partial<UserDataBackup['data']>): UserDataBackup => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: '2026-01-10T12:00:00.000Z',
+    data: {
+      gameHistory: [],
+      guessAttempts: [],
+      chordStats: null,
+      noteStats: null,
+      chordConfusions: null,
+      reviewSchedule: null,
+      appSettings: null,
+      customPresets: [],
+      customChordTypes: [],
+      ...data
+    }
+  });
+
+  beforeEach(async () => {
+    setupLocalStorageMock();
+    await sessionRepository.deleteSessions();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setCustomChordTypes([]);
+  });
+
+  describe('createBackup', () => {
+    it('should collect every store into one versioned bundle', async () => {
+      await storeSessions([createSession('rush', '2026-01-01T10:00:00.000Z')]);
+      store(STORAGE_KEYS.CHORD_STATS, createChordStats(3, 4, '2026-01-01T10:00:00.000Z'));
+      store(STORAGE_KEYS.APP_SETTINGS, { trainingType: 'ear-training' });
+      saveCustomPreset({ name: 'Triads', description: '', filter: mockFilter });
+
+      const backup = await createBackup();
+
+      expect(backup.format).toBe(BACKUP_FORMAT);
+      expect(backup.version).toBe(BACKUP_VERSION);
+      expect(backup.data.gameHistory).toHaveLength(1);
+      expect(backup.data.chordStats?.stats.Am7.correctAttempts).toBe(3);
+      expect(backup.data.noteStats).toBeNull();
+      expect(backup.data.appSettings).toEqual({ trainingType: 'ear-training' });
+      expect(backup.data.customPresets.map(preset => preset.name)).toEqual(['Triads']);
+    });
+
+    it('should round-trip through exportBackup and parseBackup', async () => {
+      await storeSessions([createSession('rush', '2026-01-01T10:00:00.000Z')]);
+
+      const parsed = parseBackup(await exportBackup());
+
+      expect(parsed.data.gameHistory).toEqual([createSession('rush', '2026-01-01T10:00:00.000Z')]);
+    });
+  });
+
+  describe('guess history', () => {
+    it('should carry guess attempts through export and a replace import', async () => {
+      await sessionRepository.addSession(
+        { ...createSession('rush', '2026-01-01T10:00:00.000Z'), timestamp: new Date('2026-01-01T10:00:00.000Z') },
+        [{
+          id: 'attempt-1',
+          timestamp: new Date('2026-01-01T10:00:05.000Z'),
+          actualNote: { note: 'C', octave: 4 },
+          guessedNote: null,
+          isCorrect: false
+        }]
+      );
+      const backup = parseBackup(await exportBackup());
+      expect(backup.data.guessAttempts).toHaveLength(1);
+
+      await sessionRepository.deleteSessions();
+      await importBackup(backup, { mode: 'replace', presetConflicts: 'skip' });
+
+      const [attempt] = await sessionRepository.getAttempts();
+      expect(attempt).toMatchObject({ mode: 'rush', actualNote: { note: 'C', octave: 4 }, guessedNote: null });
+      expect(attempt.timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should accept backups without guess attempts', () => {
+      const backup = createImportedBackup({});
+      delete (backup.data as Partial<UserDataBackup['data']>).guessAttempts;
+
+      expect(parseBackup(JSON.stringify(backup)).data.guessAttempts).toEqual([]);
+    });
+  });
+
+  describe('getBackupFileName', () => {
+    it('should include the date', () => {
+      expect(getBackupFileName(new Date(2026, 0, 5))).toBe(`${BACKUP_FORMAT}-2026-01-05.json`);
+    });
+  });
+
+  describe('parseBackup', () => {
+    it('should reject files that are not JSON', () => {
+      expect(() => parseBackup('not json')).toThrow('The file is not valid JSON.');
+    });
+
+    it('should reject JSON that is not a backup', () => {
+      expect(() => parseBackup(JSON.stringify({ hello: 'world' }))).toThrow('not a Music Ear Training backup');
+    });
+
+    it('should reject backups from a newer version', () => {
+      const backup = { ...createImportedBackup({}), version: BACKUP_VERSION + 1 };
+      expect(() => parseBackup(JSON.stringify(backup))).toThrow('newer version');
+    });
+
+    it('should reject invalid game history entries', () => {
+      const backup = createImportedBackup({});
+      (backup.data.gameHistory as unknown[]) = [{ mode: 'rush', timestamp: 'yesterday' }];
+
+      expect(() => parseBackup(JSON.stringify(backup))).toThrow('Game history entry 1 is invalid.');
+    });
+
+    it('should reject stores with an unsupported version', () => {
+      const backup = createImportedBackup({
+        chordStats: { ...createChordStats(1, 1, '2026-01-01T10:00:00.000Z'), version: 99 }
+      });
+
+      expect(() => parseBackup(JSON.stringify(backup))).toThrow('Chord stats in this backup could not be read: Saved by a newer version of the app (schema version 99).');
+    });
+
+    it('should reject invalid presets', () => {
+      const backup = createImportedBackup({});
+      (backup.data.customPresets as unknown[]) = [{ name: 'No id' }];
+
+      expect(() => parseBackup(JSON.stringify(backup))).toThrow('Custom preset 1 is invalid.');
+    });
+  });
+
+  describe('importBackup: replace', () => {
+    it('should replace all local data with the backup', async () => {
+      await storeSessions([createSession('rush', '2026-01-01T10:00:00.000Z')]);
+      store(STORAGE_KEYS.CHORD_STATS, createChordStats(1, 1, '2026-01-01T10:00:00.000Z'));
+      saveCustomPreset({ name: 'Local', description: '', filter: mockFilter });
+
+      const imported = createImportedBackup({
+        gameHistory: [createSession('survival', '2026-01-05T10:00:00.000Z')],
+        appSettings: { trainingType: 'note-training' },
+        customPresets: [{
+          id: 'preset-1',
+          name: 'Imported',
+          description: '',
+          filter: mockFilter,
+          isCustom: true,
+          createdAt: '2026-01-05T10:00:00.000Z',
+          updatedAt: '2026-01-05T10:00:00.000Z'
+        }]
+      });
+
+      const summary = await importBackup(imported, { mode: 'replace', presetConflicts: 'skip' });
+
+      expect((await sessionRepository.getSessions()).map(session => session.mode)).toEqual(['survival']);
+      expect(localStorage.getItem(STORAGE_KEYS.CHORD_STATS)).toBeNull();
+      expect(read(STORAGE_KEYS.APP_SETTINGS)).toEqual({ version: 1, data: { trainingType: 'note-training' } });
+      expect(loadCustomPresets().map(preset => preset.name)).toEqual(['Imported']);
+      expect(summary).toMatchObject({ sessionsImported: 1, settingsImported: true, presetsImported: 1 });
+    });
+
+    it('should count the sessions that were stored', async () => {
+      const session = createSession('rush', '2026-01-05T10:00:00.000Z');
+
+      const summary = await importBackup(createImportedBackup({ gameHistory: [session, session] }), { mode: 'replace', presetConflicts: 'skip' });
+
+      expect(await sessionRepository.countSessions()).toBe(1);
+      expect(summary.sessionsImported).toBe(1);
+    });
+
+    it('should change nothing when the backup has too many presets', async () => {
+      await storeSessions([createSession('rush', '2026-01-01T10:00:00.000Z')]);
+      saveCustomChordType({ name: 'Local', suffix: '7sus4', intervals: [0, 5, 7, 10] });
+      saveCustomPreset({ name: 'Local', description: '', filter: mockFilter });
+
+      const presets = Array.from({ length: 21 }, (_, i) => ({
+        id: `preset-${i}`,
+        name: `Imported ${i}`,
+        description: '',
+        filter: mockFilter,
+        isCustom: true as const,
+        createdAt: '2026-01-05T10:00:00.000Z',
+        updatedAt: '2026-01-05T10:00:00.000Z'
+      }));
+      const imported = createImportedBackup({
+        gameHistory: [createSession('survival', '2026-01-05T10:00:00.000Z')],
+        customPresets: presets,
+        customChordTypes: [{
+          id: 'custom-imported-six',
+          name: 'Six',
+          suffix: '6',
+          intervals: [0, 4, 7, 9],
+          createdAt: '2026-01-05T10:00:00.000Z',
+          updatedAt: '2026-01-05T10:00:00.000Z'
+        }]
+      });
+
+      await expect(importBackup(imported, { mode: 'replace', presetConflicts: 'skip' })).rejects.toThrow('Maximum of 20 custom presets allowed.');
+
+      expect((await sessionRepository.getSessions()).map(session => session.mode)).toEqual(['rush']);
+      expect(loadCustomChordTypes().map(type => type.name)).toEqual(['Local']);
+      expect(loadCustomPresets().map(preset => preset.name)).toEqual(['Local']);
+    });
+  });
+
+  describe('importBackup: merge', () => {
+    it('should add new sessions and drop duplicates', async () => {
+      const existing = createSession('rush', '2026-01-01T10:00:00.000Z');
+      await storeSessions([existing]);
+
+      const summary = await importBackup(createImportedBackup({
+        gameHistory: [existing, createSession('rush', '2026-01-05T10:00:00.000Z')]
+      }), { mode: 'merge', presetConflicts: 'skip' });
+
+      expect(await readSessionTimestamps()).toEqual([
+        '2026-01-05T10:00:00.000Z',
+        '2026-01-01T10:00:00.000Z'
+      ]);
+      expect(summary.sessionsImported).toBe(1);
+    });
+
+    it('should add up chord stats', async () => {
+      store(STORAGE_KEYS.CHORD_STATS, createChordStats(1, 2, '2026-01-01T10:00:00.000Z'));
+
+      await importBackup(createImportedBackup({
+        chordStats: createChordStats(2, 2, '2026-01-05T10:00:00.000Z')
+      }), { mode: 'merge', presetConflicts: 'skip' });
+
+      expect(read(STORAGE_KEYS.CHORD_STATS).stats.Am7).toEqual({
+        chordName: 'Am7',
+        totalAttempts: 4,
+        correctAttempts: 3,
+        lastPracticed: '2026-01-05T10:00:00.000Z',
+        averageAccuracy: 75
+      });
+    });
+
+    it('should add up note confusions', async () => {
+      const noteStats = (count: number): NoteStatsStore => ({
+        version: NOTE_STATS_VERSION,
+        stats: {},
+        confusions: { 'F#': { G: count } },
+        lastUpdated: '2026-01-01T10:00:00.000Z'
+      });
+      store(STORAGE_KEYS.NOTE_STATS, noteStats(2));
+
+      await importBackup(createImportedBackup({ noteStats: noteStats(3) }), { mode: 'merge', presetConflicts: 'skip' });
+
+      expect(read(STORAGE_KEYS.NOTE_STATS).confusions).toEqual({ 'F#': { G: 5 } });
+    });
+
+    it('should keep local settings', async () => {
+      store(STORAGE_KEYS.APP_SETTINGS, { trainingType: 'ear-training' });
+
+      const summary = await importBackup(createImportedBackup({
+        appSettings: { trainingType: 'note-training' }
+      }), { mode: 'merge', presetConflicts: 'skip' });
+
+      expect(read(STORAGE_KEYS.APP_SETTINGS)).toEqual({ trainingType: 'ear-training' });
+      expect(summary.settingsImported).toBe(false);
+    });
+
+    describe('preset name conflicts', () => {
+      const importedPreset = {
+        id: 'preset-imported',
+        name: 'jazz',
+        description: 'From the backup',
+        filter: { ...mockFilter, allowedChordTypes: [ChordType.MINOR_7] },
+        isCustom: true as const,
+        createdAt: '2026-01-05T10:00:00.000Z',
+        updatedAt: '2026-01-05T10:00:00.000Z'
+      };
+
+      beforeEach(() => {
+        saveCustomPreset({ name: 'Jazz', description: 'Local', filter: mockFilter });
+      });
+
+      it('should skip conflicting presets', async () => {
+        const summary = await importBackup(createImportedBackup({ customPresets: [importedPreset] }), { mode: 'merge', presetConflicts: 'skip' });
+
+        expect(loadCustomPresets().map(preset => preset.description)).toEqual(['Local']);
+        expect(summary.presetsSkipped).toBe(1);
+      });
+
+      it('should rename conflicting presets', async () => {
+        saveCustomPreset({ name: 'jazz (2)', description: '', filter: mockFilter });
+
+        const summary = await importBackup(createImportedBackup({ customPresets: [importedPreset] }), { mode: 'merge', presetConflicts: 'rename' });
+
+        expect(loadCustomPresets().map(preset => preset.name)).toEqual(['Jazz', 'jazz (2)', 'jazz (3)']);
+        expect(summary).toMatchObject({ presetsImported: 1, presetsRenamed: 1 });
+      });
+
+      it('should overwrite conflicting presets', async () => {
+        const summary = await importBackup(createImportedBackup({ customPresets: [importedPreset] }), { mode: 'merge', presetConflicts: 'overwrite' });
+
+        const presets = loadCustomPresets();
+        expect(presets).toHaveLength(1);
+        expect(presets[0]).toMatchObject({ name: 'Jazz', description: 'From the backup', filter: importedPreset.filter });
+        expect(summary.presetsOverwritten).toBe(1);
+      });
+    });
+  });
+
+  describe('custom chord types', () => {
+    const importedSix = {
+      id: 'custom-imported-six' as const,
+      name: 'Six',
+      suffix: '6',
+      intervals: [0, 4, 7, 9],
+      createdAt: '2026-01-05T10:00:00.000Z',
+      updatedAt: '2026-01-05T10:00:00.000Z'
+    };
+
+    it('should restore chord types with their ids on replace', async () => {
+      saveCustomChordType({ name: 'Local', suffix: '7sus4', intervals: [0, 5, 7, 10] });
+
+      const summary = await importBackup(createImportedBackup({ customChordTypes: [importedSix] }), { mode: 'replace', presetConflicts: 'skip' });
+
+      expect(loadCustomChordTypes()).toEqual([importedSix]);
+      expect(summary.chordTypesImported).toBe(1);
+    });
+
+    it('should only merge chord types that do not clash with local ones', async () => {
+      saveCustomChordType({ name: 'Local six', suffix: '6', intervals: [0, 4, 7, 9] });
+      const sevenSus4 = { ...importedSix, id: 'custom-imported-7sus4' as const, name: '7sus4', suffix: '7sus4', intervals: [0, 5, 7, 10] };
+
+      const summary = await importBackup(createImportedBackup({ customChordTypes: [importedSix, sevenSus4] }), { mode: 'merge', presetConflicts: 'skip' });
+
+      expect(loadCustomChordTypes().map(type => type.name)).toEqual(['Local six', '7sus4']);
+      expect(summary.chordTypesImported).toBe(1);
+    });
+
+    it('should report an imported chord type whose id is taken by a different definition', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const local = saveCustomChordType({ name: 'Local six', suffix: '6', intervals: [0, 4, 7, 9] });
+      const same = { ...local };
+      const different = { ...importedSix, id: local.id, name: 'Add 9', suffix: 'add9', intervals: [0, 4, 7, 14] };
+
+      const unchanged = await importBackup(createImportedBackup({ customChordTypes: [same] }), { mode: 'merge', presetConflicts: 'skip' });
+      const conflicting = await importBackup(createImportedBackup({ customChordTypes: [different] }), { mode: 'merge', presetConflicts: 'skip' });
+
+      expect(loadCustomChordTypes()).toEqual([local]);
+      expect(unchanged).toMatchObject({ chordTypesImported: 0, chordTypeConflicts: 0 });
+      expect(conflicting).toMatchObject({ chordTypesImported: 0, chordTypeConflicts: 1 });
+    });
+
+    it('should reject invalid chord types', () => {
+      const backup = createImportedBackup({});
+      const json = JSON.stringify({ ...backup, data: { ...backup.data, customChordTypes: [{ id: 'custom-x', name: 'X' }] } });
+
+      expect(() => parseBackup(json)).toThrow('Custom chord type 1 is invalid.');
+    });
+  });
+});
@@ -6,7 +6,13 @@ import {
   deleteCustomPreset,
   getCustomPreset,
   isPresetNameAvailable,
+  loadCustomChordTypes,
+  saveCustomChordType,
+  updateCustomChordType,
+  deleteCustomChordType,
+  validateCustomChordType,
 } from '../presetStorage';
+import { getCustomChordTypes, setCustomChordTypes } from '../../utils/chordTypeRegistry';
 import type { CustomChordFilterPreset } from '../../types/presets';
 import { ChordType } from '../../types/music';
 import { setupLocalStorageMock, type LocalStorageMock } from '../../test/localStorageMock';
@@ -28,6 +34,7 @@ describe('presetStorage', () => {
 
   afterEach(() => {
     vi.unstubAllGlobals();
+    setCustomChordTypes([]);
   });
 
   describe('loadCustomPresets', () => {
@@ -105,8 +112,9 @@ describe('presetStorage', () => {
 
       expect(localStorageMock.setItem).toHaveBeenCalled();
       const savedData = JSON.parse(localStorageMock.setItem.mock.calls[0][1]);
-      expect(savedData).toHaveLength(1);
-      expect(savedData[0].name).toBe('New Preset');
+      expect(savedData.version).toBe(1);
+      expect(savedData.data).toHaveLength(1);
+      expect(savedData.data[0].name).toBe('New Preset');
     });
 
     it('should throw error for duplicate name', () => {
@@ -243,4 +251,71 @@ describe('presetStorage', () => {
       expect(isPresetNameAvailable('My Preset')).toBe(false);
     });
   });
+
+  describe('custom chord types', () => {
+    const sevenSus4 = { name: 'Dominant 7th sus4', suffix: '7sus4', intervals: [0, 5, 7, 10] };
+
+    it('should save a chord type and register it', () => {
+      const chordType = saveCustomChordType(sevenSus4);
+
+      expect(chordType.id.startsWith('custom-')).toBe(true);
+      expect(loadCustomChordTypes()).toEqual([chordType]);
+      expect(getCustomChordTypes()).toEqual([chordType]);
+    });
+
+    it('should filter out invalid stored chord types', () => {
+      localStorageMock.getItem.mockReturnValueOnce(JSON.stringify([
+        { id: 'custom-1', name: 'Six', suffix: '6', intervals: [0, 4, 7, 9] },
+        { id: 'major', name: 'Not custom', suffix: 'x', intervals: [0, 4, 7] },
+        { id: 'custom-3', name: 'No formula', suffix: 'y' },
+      ]));
+
+      expect(loadCustomChordTypes().map(t => t.id)).toEqual(['custom-1']);
+    });
+
+    it('should reject invalid definitions', () => {
+      expect(validateCustomChordType({ ...sevenSus4, name: ' ' })).toBe('Name is required');
+      expect(validateCustomChordType({ ...sevenSus4, name: 'minor 7th' }))
+        .toBe('This name is used by a built-in chord type');
+      expect(validateCustomChordType({ ...sevenSus4, suffix: 'm7' }))
+        .toBe('This suffix is already used by Minor 7th');
+      expect(validateCustomChordType({ ...sevenSus4, suffix: 'b9' })).toMatch(/cannot start with/);
+      expect(validateCustomChordType({ ...sevenSus4, suffix: '7/E' })).toMatch(/bass note/);
+      expect(validateCustomChordType({ ...sevenSus4, intervals: [0, 5] })).toBe('A chord needs 3 to 7 notes');
+      expect(validateCustomChordType({ ...sevenSus4, intervals: [2, 5, 7] })).toBe('Intervals must start at 0 (the root)');
+      expect(validateCustomChordType({ ...sevenSus4, intervals: [0, 7, 5] })).toBe('Intervals must be in ascending order');
+      expect(validateCustomChordType({ ...sevenSus4, intervals: [0, 4, 25] })).toMatch(/at most 24 semitones/);
+      expect(validateCustomChordType({ ...sevenSus4, intervals: [0, 4, 12] })).toMatch(/different pitch class/);
+      expect(validateCustomChordType({ ...sevenSus4, intervals: [0, 3, 7, 10] }))
+        .toBe('These are the same notes as Minor 7th');
+      expect(validateCustomChordType(sevenSus4)).toBeNull();
+    });
+
+    it('should reject a suffix or name already used by another custom chord type', () => {
+      saveCustomChordType(sevenSus4);
+
+      expect(() => saveCustomChordType({ name: 'Other', suffix: '7SUS4', intervals: [0, 2, 7, 10] }))
+        .toThrow('This suffix is already used by Dominant 7th sus4');
+      expect(() => saveCustomChordType({ name: 'dominant 7TH SUS4', suffix: '7sus2', intervals: [0, 2, 7, 10] }))
+        .toThrow('A chord type with this name already exists');
+    });
+
+    it('should update a chord type, keeping its own suffix and formula valid', () => {
+      const chordType = saveCustomChordType(sevenSus4);
+
+      const updated = updateCustomChordType(chordType.id, { name: '7sus4' });
+
+      expect(updated.name).toBe('7sus4');
+      expect(updated.suffix).toBe('7sus4');
+      expect(loadCustomChordTypes()[0].name).toBe('7sus4');
+    });
+
+    it('should delete a chord type', () => {
+      const chordType = saveCustomChordType(sevenSus4);
+
+      expect(deleteCustomChordType(chordType.id)).toBe(true);
+      expect(deleteCustomChordType(chordType.id)).toBe(false);
+      expect(getCustomChordTypes()).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBIndex } from 'fake-indexeddb';
+import { SessionRepository, getSessionId } from '../sessionRepository';
+import type { GameSession, GuessAttempt, SerializedChordGuessAttempt } from '../../types/game';
+import { STORAGE_KEYS, NOTE_TRAINING_SUB_MODES } from '../../constants';
+import { setupLocalStorageMock } from '../../test/localStorageMock';
+
+const createSession = (mode: string, timestamp: string, overrides: Partial<GameSession> = {}): GameSession => ({
+  mode,
+  timestamp: new Date(timestamp),
+  completionTime: 60,
+  accuracy: 80,
+  totalAttempts: 10,
+  settings: {},
+  results: {},
+  ...overrides
+});
+
+const createChordAttempt = (id: string, chordName: string, isCorrect: boolean): SerializedChordGuessAttempt => ({
+  id,
+  timestamp: '2026-01-01T10:00:30.000Z',
+  chordName,
+  isCorrect,
+  guessedChordName: isCorrect ? chordName : 'C Minor'
+});
+
+const createChordSession = (timestamp: string, attempts: SerializedChordGuessAttempt[]): GameSession =>
+  createSession(NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD, timestamp, {
+    results: { subMode: NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD, guessHistory: attempts }
+  });
+
+const createNoteAttempt = (id: string, timestamp: string): GuessAttempt => ({
+  id,
+  timestamp: new Date(timestamp),
+  actualNote: { note: 'C', octave: 4 },
+  guessedNote: { note: 'D', octave: 4 },
+  isCorrect: false
+});
+
+describe('SessionRepository', () => {
+  let repository: SessionRepository;
+
+  beforeEach(() => {
+    setupLocalStorageMock();
+    repository = new SessionRepository(new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('addSession', () => {
+    it('should store sessions without a per-mode limit, newest first', async () => {
+      for (let i = 0; i < 60; i++) {
+        await repository.addSession(createSession('rush', new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString()));
+      }
+
+      const sessions = await repository.getSessions({ mode: 'rush' });
+      expect(sessions).toHaveLength(60);
+      expect(sessions[0].timestamp.getTime()).toBeGreaterThan(sessions[59].timestamp.getTime());
+    });
+
+    it('should skip sessions with the same timestamp', async () => {
+      expect(await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'))).toBe(true);
+      expect(await repository.addSession(createSession('survival', '2026-01-01T10:00:00.000Z'))).toBe(false);
+
+      expect(await repository.countSessions()).toBe(1);
+    });
+
+    it('should skip sessions of the same mode and accuracy within a few seconds', async () => {
+      await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'));
+
+      expect(await repository.addSession(createSession('rush', '2026-01-01T10:00:03.000Z'))).toBe(false);
+      expect(await repository.addSession(createSession('rush', '2026-01-01T10:00:03.000Z', { accuracy: 50 }))).toBe(true);
+      expect(await repository.addSession(createSession('rush', '2026-01-01T10:00:10.000Z'))).toBe(true);
+    });
+
+    it('should store note attempts and the chord attempts from the results', async () => {
+      await repository.addSession(
+        createSession('rush', '2026-01-01T09:00:00.000Z'),
+        [createNoteAttempt('a1', '2026-01-01T09:00:05.000Z')]
+      );
+      await repository.addSession(createChordSession('2026-01-01T10:00:00.000Z', [
+        createChordAttempt('c1', 'C Major', true),
+        createChordAttempt('c2', 'G Major', false)
+      ]));
+
+      const noteAttempts = await repository.getAttempts({ mode: 'rush' });
+      expect(noteAttempts).toHaveLength(1);
+      expect(noteAttempts[0]).toMatchObject({ actualNote: { note: 'C', octave: 4 }, isCorrect: false });
+
+      const chordAttempts = await repository.getAttempts({ chordName: 'G Major' });
+      expect(chordAttempts).toHaveLength(1);
+      expect(chordAttempts[0]).toMatchObject({ guessedChordName: 'C Minor', sessionId: getSessionId(createChordSession('2026-01-01T10:00:00.000Z', [])) });
+    });
+  });
+
+  describe('getSessions', () => {
+    beforeEach(async () => {
+      await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'));
+      await repository.addSession(createSession('rush', '2026-01-05T10:00:00.000Z'));
+      await repository.addSession(createSession('survival', '2026-01-03T10:00:00.000Z'));
+      await repository.addSession(createChordSession('2026-01-04T10:00:00.000Z', [createChordAttempt('c1', 'C Major', true)]));
+    });
+
+    it('should filter by mode', async () => {
+      const sessions = await repository.getSessions({ mode: 'rush' });
+      expect(sessions.map(session => session.timestamp.toISOString())).toEqual([
+        '2026-01-05T10:00:00.000Z',
+        '2026-01-01T10:00:00.000Z'
+      ]);
+    });
+
+    it('should filter by sub-mode, falling back to the mode', async () => {
+      expect(await repository.countSessions({ subMode: NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD })).toBe(1);
+      expect(await repository.countSessions({ subMode: 'survival' })).toBe(1);
+    });
+
+    it('should filter by date range', async () => {
+      const sessions = await repository.getSessions({
+        from: new Date('2026-01-02T00:00:00.000Z'),
+        to: new Date('2026-01-04T23:59:59.000Z')
+      });
+      expect(sessions.map(session => session.mode)).toEqual([NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD, 'survival']);
+    });
+
+    it('should filter by chord', async () => {
+      const sessions = await repository.getSessions({ chordName: 'C Major' });
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].mode).toBe(NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD);
+    });
+
+    it('should page through results', async () => {
+      const firstPage = await repository.getSessions({ limit: 2 });
+      const secondPage = await repository.getSessions({ offset: 2, limit: 2 });
+
+      expect(firstPage.map(session => session.timestamp.getUTCDate())).toEqual([5, 4]);
+      expect(secondPage.map(session => session.timestamp.getUTCDate())).toEqual([3, 1]);
+      expect(await repository.countSessions({ limit: 1 })).toBe(4);
+    });
+
+    it('should combine several modes, newest first', async () => {
+      const sessions = await repository.getSessions({ mode: ['rush', 'survival'], offset: 1, limit: 2 });
+
+      expect(sessions.map(session => session.timestamp.getUTCDate())).toEqual([3, 1]);
+      expect(await repository.countSessions({ mode: ['rush', 'survival'] })).toBe(3);
+    });
+
+    it('should apply an extra condition', async () => {
+      const early = (session: { timestamp: Date }) => session.timestamp.getUTCDate() < 4;
+
+      expect((await repository.getSessions({ where: early })).map(session => session.mode)).toEqual(['survival', 'rush']);
+      expect(await repository.countSessions({ mode: 'rush', where: early })).toBe(1);
+    });
+
+    it('should get a session by id', async () => {
+      const session = await repository.getSession(getSessionId(createSession('survival', '2026-01-03T10:00:00.000Z')));
+
+      expect(session?.mode).toBe('survival');
+    });
+  });
+
+  describe('counting', () => {
+    it('should let the database count ranges an index covers', async () => {
+      await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'), [
+        createNoteAttempt('a1', '2026-01-01T10:00:05.000Z'),
+        createNoteAttempt('a2', '2026-01-01T10:00:10.000Z')
+      ]);
+      const getAll = vi.spyOn(IDBIndex.prototype, 'getAll');
+      const openCursor = vi.spyOn(IDBIndex.prototype, 'openCursor');
+
+      expect(await repository.countSessions({ mode: 'rush' })).toBe(1);
+      expect(await repository.countAttempts({ to: new Date('2026-01-01T10:00:07.000Z') })).toBe(1);
+      expect(getAll).not.toHaveBeenCalled();
+      expect(openCursor).not.toHaveBeenCalled();
+    });
+
+    it('should count attempts matching an extra condition', async () => {
+      await repository.addSession(createChordSession('2026-01-01T10:00:00.000Z', [
+        createChordAttempt('c1', 'C Major', true),
+        createChordAttempt('c2', 'G Major', false)
+      ]));
+
+      expect(await repository.countAttempts({ mode: NOTE_TRAINING_SUB_MODES.SHOW_NOTES_GUESS_CHORD, where: attempt => !attempt.isCorrect })).toBe(1);
+    });
+  });
+
+  describe('sessionsChanged', () => {
+    it('should notify when sessions are added or deleted', async () => {
+      const listener = vi.fn();
+      repository.on('sessionsChanged', listener);
+
+      await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'));
+      await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'));
+      await repository.deleteSessions();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('deleteSessions', () => {
+    it('should delete one mode with its attempts', async () => {
+      await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'), [createNoteAttempt('a1', '2026-01-01T10:00:05.000Z')]);
+      await repository.addSession(createSession('survival', '2026-01-02T10:00:00.000Z'));
+
+      await repository.deleteSessions('rush');
+
+      expect((await repository.getSessions()).map(session => session.mode)).toEqual(['survival']);
+      expect(await repository.countAttempts()).toBe(0);
+    });
+
+    it('should delete everything without a mode', async () => {
+      await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'));
+
+      await repository.deleteSessions();
+
+      expect(await repository.countSessions()).toBe(0);
+    });
+  });
+
+  describe('addSessions', () => {
+    it('should only add sessions that are not stored yet', async () => {
+      await repository.addSession(createSession('rush', '2026-01-01T10:00:00.000Z'));
+
+      const added = await repository.addSessions([
+        createSession('rush', '2026-01-01T10:00:00.000Z'),
+        createSession('rush', '2026-01-01T10:00:02.000Z')
+      ]);
+
+      expect(added).toBe(1);
+      expect(await repository.countSessions()).toBe(2);
+    });
+  });
+
+  describe('localStorage migration', () => {
+    it('should move existing localStorage history into the database', async () => {
+      localStorage.setItem(STORAGE_KEYS.GAME_HISTORY, JSON.stringify([
+        { ...createSession('rush', '2026-01-01T10:00:00.000Z'), timestamp: '2026-01-01T10:00:00.000Z' },
+        { ...createChordSession('2026-01-02T10:00:00.000Z', [createChordAttempt('c1', 'C Major', true)]), timestamp: '2026-01-02T10:00:00.000Z' }
+      ]));
+
+      const sessions = await repository.getSessions();
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions[1].timestamp).toBeInstanceOf(Date);
+      expect(await repository.countAttempts({ chordName: 'C Major' })).toBe(1);
+      expect(localStorage.getItem(STORAGE_KEYS.GAME_HISTORY)).toBeNull();
+    });
+  });
+
+  it('should reject when IndexedDB is not available', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const unavailable = new SessionRepository();
+
+    await expect(unavailable.getSessions()).rejects.toThrow('IndexedDB is not available');
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  loadVersionedStore,
+  saveVersionedStore,
+  migrateStoredData,
+  getQuarantinedItems,
+  clearQuarantine,
+  MAX_QUARANTINED_ITEMS
+} from '../versionedStorage';
+import type { StorageSchema } from '../../types/storage';
+import { STORAGE_KEYS } from '../../constants';
+import { setupLocalStorageMock } from '../../test/localStorageMock';
+import type { LocalStorageMock } from '../../test/localStorageMock';
+
+interface TestStoreV3 {
+  version: 3;
+  items: { name: string; count: number }[];
+}
+
+const TEST_KEY = 'test-store';
+
+/**
+ * Version 1 stored a plain array of names, version 2 wrapped it in an object,
+ * version 3 added a count to each item.
+ */
+const testSchema: StorageSchema<TestStoreV3> = {
+  key: TEST_KEY,
+  label: 'Test store',
+  version: 3,
+  migrations: {
+    1: (data) => ({ version: 2, names: data as string[] }),
+    2: (data) => ({
+      version: 3,
+      items: (data as { names: string[] }).names.map(name => ({ name, count: 0 }))
+    })
+  },
+  validate: (data): data is TestStoreV3 =>
+    typeof data === 'object' && data !== null && Array.isArray((data as TestStoreV3).items)
+};
+
+/**
+ * A list of names without a version field of its own: version 1 stored
+ * plain strings, version 2 stores { name } objects.
+ */
+const listSchema: StorageSchema<{ name: string }[]> = {
+  key: TEST_KEY,
+  label: 'Test list',
+  version: 2,
+  migrations: {
+    1: (data) => (data as string[]).map(name => ({ name }))
+  },
+  validate: (data): data is { name: string }[] => Array.isArray(data),
+  envelope: true
+};
+
+describe('versionedStorage', () => {
+  let localStorageMock: LocalStorageMock;
+
+  beforeEach(() => {
+    localStorageMock = setupLocalStorageMock();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('migrateStoredData', () => {
+    it('should run every migration in order for unversioned data', () => {
+      expect(migrateStoredData(testSchema, ['a', 'b'])).toEqual({
+        version: 3,
+        items: [{ name: 'a', count: 0 }, { name: 'b', count: 0 }]
+      });
+    });
+
+    it('should only run the migrations after the stored version', () => {
+      const migrated = migrateStoredData(testSchema, { version: 2, names: ['a'] });
+      expect(migrated.items).toEqual([{ name: 'a', count: 0 }]);
+    });
+
+    it('should return current data unchanged', () => {
+      const current = { version: 3, items: [{ name: 'a', count: 5 }] };
+      expect(migrateStoredData(testSchema, current)).toEqual(current);
+    });
+
+    it('should reject data from a newer version', () => {
+      expect(() => migrateStoredData(testSchema, { version: 4, items: [] }))
+        .toThrow('Saved by a newer version of the app (schema version 4)');
+    });
+
+    it('should reject data when a migration is missing', () => {
+      const schema = { ...testSchema, migrations: { 2: testSchema.migrations[2] } };
+      expect(() => migrateStoredData(schema, ['a'])).toThrow('No migration from schema version 1');
+    });
+
+    it('should reject data when a migration fails', () => {
+      expect(() => migrateStoredData(testSchema, { version: 2 }))
+        .toThrow('Migration from schema version 2 failed');
+    });
+
+    it('should reject data that does not validate after migrating', () => {
+      expect(() => migrateStoredData(testSchema, { version: 3, items: 'nope' }))
+        .toThrow('Data does not match schema version 3');
+    });
+  });
+
+  describe('loadVersionedStore', () => {
+    it('should return null when nothing is stored', () => {
+      expect(loadVersionedStore(testSchema)).toBeNull();
+    });
+
+    it('should write migrated data back to localStorage', () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify(['a']));
+
+      const loaded = loadVersionedStore(testSchema);
+
+      expect(loaded?.version).toBe(3);
+      expect(JSON.parse(localStorage.getItem(TEST_KEY)!)).toEqual(loaded);
+    });
+
+    it('should not rewrite data that is already current', () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify({ version: 3, items: [] }));
+      localStorageMock.setItem.mockClear();
+
+      loadVersionedStore(testSchema);
+
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['invalid JSON', '{not json', 'Not valid JSON'],
+      ['data from a newer version', JSON.stringify({ version: 9, items: [] }), 'Saved by a newer version of the app (schema version 9)'],
+      ['data in the wrong shape', JSON.stringify({ version: 3, items: {} }), 'Data does not match schema version 3']
+    ])('should quarantine %s', (_description, stored, reason) => {
+      localStorage.setItem(TEST_KEY, stored);
+
+      expect(loadVersionedStore(testSchema)).toBeNull();
+
+      expect(localStorage.getItem(TEST_KEY)).toBeNull();
+      const [item] = getQuarantinedItems();
+      expect(item).toMatchObject({ key: TEST_KEY, label: 'Test store', reason, value: stored });
+      expect(isNaN(new Date(item.quarantinedAt).getTime())).toBe(false);
+    });
+
+    it('should leave the data in place if the quarantine cannot be written', () => {
+      localStorage.setItem(TEST_KEY, '{not json');
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw new Error('QuotaExceededError');
+      });
+
+      expect(loadVersionedStore(testSchema)).toBeNull();
+      expect(localStorage.getItem(TEST_KEY)).toBe('{not json');
+    });
+  });
+
+  describe('stores in an envelope', () => {
+    it('should run a migration only once', () => {
+      const migrate = vi.spyOn(listSchema.migrations, 1);
+      localStorage.setItem(TEST_KEY, JSON.stringify(['a']));
+
+      expect(loadVersionedStore(listSchema)).toEqual([{ name: 'a' }]);
+      expect(loadVersionedStore(listSchema)).toEqual([{ name: 'a' }]);
+
+      expect(migrate).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(localStorage.getItem(TEST_KEY)!)).toEqual({ version: 2, data: [{ name: 'a' }] });
+    });
+
+    it('should stamp data saved before the store had an envelope', () => {
+      const schema = { ...listSchema, version: 1, migrations: {} };
+      localStorage.setItem(TEST_KEY, JSON.stringify([{ name: 'a' }]));
+
+      expect(loadVersionedStore(schema)).toEqual([{ name: 'a' }]);
+
+      expect(JSON.parse(localStorage.getItem(TEST_KEY)!)).toEqual({ version: 1, data: [{ name: 'a' }] });
+    });
+
+    it('should save the data with its version', () => {
+      saveVersionedStore(listSchema, [{ name: 'a' }]);
+
+      expect(JSON.parse(localStorage.getItem(TEST_KEY)!)).toEqual({ version: 2, data: [{ name: 'a' }] });
+      expect(migrateStoredData(listSchema, JSON.parse(localStorage.getItem(TEST_KEY)!))).toEqual([{ name: 'a' }]);
+    });
+  });
+
+  describe('quarantine', () => {
+    it('should keep the newest items up to the limit', () => {
+      for (let i = 0; i < MAX_QUARANTINED_ITEMS + 2; i++) {
+        localStorage.setItem(TEST_KEY, `broken ${i}`);
+        loadVersionedStore(testSchema);
+      }
+
+      const items = getQuarantinedItems();
+      expect(items).toHaveLength(MAX_QUARANTINED_ITEMS);
+      expect(items[0].value).toBe(`broken ${MAX_QUARANTINED_ITEMS + 1}`);
+    });
+
+    it('should delete all quarantined items when cleared', () => {
+      localStorage.setItem(TEST_KEY, 'broken');
+      loadVersionedStore(testSchema);
+
+      clearQuarantine();
+
+      expect(getQuarantinedItems()).toEqual([]);
+      expect(localStorage.getItem(STORAGE_KEYS.QUARANTINE)).toBeNull();
+    });
+  });
+
+  describe('saveVersionedStore', () => {
+    it('should store the data as JSON under the schema key', () => {
+      saveVersionedStore(testSchema, { version: 3, items: [{ name: 'a', count: 1 }] });
+      expect(JSON.parse(localStorage.getItem(TEST_KEY)!).items).toEqual([{ name: 'a', count: 1 }]);
+    });
+  });
+});
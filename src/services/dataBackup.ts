@@ -0,0 +1,583 @@
+/**
+ * Data Backup Service
+ *
+ * Bundles all user data (game history and guess history from the session
+ * repository; long-term stats, the review schedule, app settings, custom
+ * presets and custom chord types from localStorage) into one versioned JSON file, and restores it
+ * on another device.
+ *
+ * @module services/dataBackup
+ */
+
+import type {
+  UserDataBackup,
+  UserDataBackupData,
+  SerializedGameSession,
+  BackupImportOptions,
+  BackupImportSummary,
+  BackupContents
+} from '../types/backup';
+import type {
+  ChordStatsStore,
+  NoteStatsStore,
+  ChordConfusionStore,
+  ReviewScheduleStore,
+  SerializedChordStats,
+  SerializedNoteStats,
+  SerializedReviewItemState,
+  NoteConfusions
+} from '../types/stats';
+import type { CustomChordFilterPreset, CustomChordTypeDefinition } from '../types/presets';
+import type { Note } from '../types/music';
+import type { StorageSchema } from '../types/storage';
+import type { GameSession } from '../types/game';
+import type { StoredGameSession, StoredGuessAttempt, SerializedStoredGuessAttempt } from '../types/history';
+import { mergeChordTypeConfusions } from '../utils/chordConfusion';
+import { isCustomChordType } from '../utils/chordTypeRegistry';
+import {
+  loadCustomPresets,
+  saveCustomPreset,
+  updateCustomPreset,
+  replaceCustomPresets,
+  validatePresetReplacement,
+  isPresetNameAvailable,
+  loadCustomChordTypes,
+  replaceCustomChordTypes,
+  validateChordTypeReplacement,
+  validateCustomChordType
+} from './presetStorage';
+import { loadVersionedStore, saveVersionedStore, migrateStoredData } from './versionedStorage';
+import { sessionRepository } from './sessionRepository';
+import {
+  CHORD_STATS_SCHEMA,
+  NOTE_STATS_SCHEMA,
+  CHORD_CONFUSION_SCHEMA,
+  REVIEW_SCHEDULE_SCHEMA,
+  APP_SETTINGS_SCHEMA
+} from './storageSchemas';
+
+/** Identifies a JSON file as a backup of this app */
+export const BACKUP_FORMAT = 'music-ear-training-backup';
+
+/**
+ * Current backup schema version.
+ * Increment when making breaking changes to the backup layout.
+ */
+export const BACKUP_VERSION = 1;
+
+type StoreKey = 'chordStats' | 'noteStats' | 'chordConfusions' | 'reviewSchedule' | 'appSettings';
+
+/** Schema of each store that a backup carries as a whole */
+const BACKUP_STORES: { [K in StoreKey]: StorageSchema<NonNullable<UserDataBackupData[K]>> } = {
+  chordStats: CHORD_STATS_SCHEMA,
+  noteStats: NOTE_STATS_SCHEMA,
+  chordConfusions: CHORD_CONFUSION_SCHEMA,
+  reviewSchedule: REVIEW_SCHEDULE_SCHEMA,
+  appSettings: APP_SETTINGS_SCHEMA
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+function writeStore<T>(schema: StorageSchema<T>, value: T | null): void {
+  if (value === null) {
+    localStorage.removeItem(schema.key);
+  } else {
+    saveVersionedStore(schema, value);
+  }
+}
+
+function calculateAccuracy(correct: number, total: number): number {
+  const accuracy = total > 0 ? (correct / total) * 100 : 0;
+  return Math.round(accuracy * 10) / 10; // Round to 1 decimal
+}
+
+function laterDate(a: string, b: string): string {
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+}
+
+function serializeSession(session: StoredGameSession): SerializedGameSession {
+  return {
+    mode: session.mode,
+    timestamp: session.timestamp.toISOString(),
+    completionTime: session.completionTime,
+    accuracy: session.accuracy,
+    totalAttempts: session.totalAttempts,
+    settings: session.settings,
+    results: session.results
+  };
+}
+
+function deserializeSession(session: SerializedGameSession): GameSession {
+  return { ...session, timestamp: new Date(session.timestamp) };
+}
+
+function serializeAttempt(attempt: StoredGuessAttempt): SerializedStoredGuessAttempt {
+  return { ...attempt, timestamp: attempt.timestamp.toISOString() };
+}
+
+function deserializeAttempt(attempt: SerializedStoredGuessAttempt): StoredGuessAttempt {
+  return { ...attempt, timestamp: new Date(attempt.timestamp) };
+}
+
+// ========================================
+// Export
+// ========================================
+
+/**
+ * Collects all user data into a backup.
+ */
+export async function createBackup(): Promise<UserDataBackup> {
+  const [sessions, attempts] = await Promise.all([
+    sessionRepository.getSessions(),
+    sessionRepository.getAttempts()
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      gameHistory: sessions.map(serializeSession),
+      guessAttempts: attempts.map(serializeAttempt),
+      chordStats: loadVersionedStore(CHORD_STATS_SCHEMA),
+      noteStats: loadVersionedStore(NOTE_STATS_SCHEMA),
+      chordConfusions: loadVersionedStore(CHORD_CONFUSION_SCHEMA),
+      reviewSchedule: loadVersionedStore(REVIEW_SCHEDULE_SCHEMA),
+      appSettings: loadVersionedStore(APP_SETTINGS_SCHEMA),
+      customPresets: loadCustomPresets(),
+      customChordTypes: loadCustomChordTypes()
+    }
+  };
+}
+
+/**
+ * Serializes all user data as a JSON backup file's contents.
+ */
+export async function exportBackup(): Promise<string> {
+  return JSON.stringify(await createBackup(), null, 2);
+}
+
+/**
+ * Gets a file name for a backup made on the given date, e.g. "music-ear-training-backup-2026-01-31.json".
+ */
+export function getBackupFileName(date: Date = new Date()): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${BACKUP_FORMAT}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`;
+}
+
+// ========================================
+// Validation
+// ========================================
+
+function validateSession(session: unknown, index: number): void {
+  if (
+    !isObject(session) ||
+    typeof session.mode !== 'string' ||
+    !isDateString(session.timestamp) ||
+    typeof session.accuracy !== 'number' ||
+    typeof session.totalAttempts !== 'number'
+  ) {
+    throw new Error(`Game history entry ${index + 1} is invalid.`);
+  }
+}
+
+function validateAttempt(attempt: unknown, index: number): void {
+  if (
+    !isObject(attempt) ||
+    typeof attempt.id !== 'string' ||
+    typeof attempt.sessionId !== 'string' ||
+    typeof attempt.mode !== 'string' ||
+    !isDateString(attempt.timestamp) ||
+    typeof attempt.isCorrect !== 'boolean'
+  ) {
+    throw new Error(`Guess history entry ${index + 1} is invalid.`);
+  }
+}
+
+function validatePreset(preset: unknown, index: number): void {
+  if (
+    !isObject(preset) ||
+    typeof preset.id !== 'string' ||
+    typeof preset.name !== 'string' ||
+    !isObject(preset.filter) ||
+    preset.isCustom !== true
+  ) {
+    throw new Error(`Custom preset ${index + 1} is invalid.`);
+  }
+}
+
+function validateChordType(type: unknown, index: number): void {
+  if (
+    !isObject(type) ||
+    typeof type.id !== 'string' ||
+    !isCustomChordType(type.id) ||
+    typeof type.name !== 'string' ||
+    typeof type.suffix !== 'string' ||
+    !Array.isArray(type.intervals) ||
+    !type.intervals.every(interval => Number.isInteger(interval))
+  ) {
+    throw new Error(`Custom chord type ${index + 1} is invalid.`);
+  }
+}
+
+/**
+ * Upgrades a store from an older backup to the current schema version.
+ */
+function migrateStore<K extends StoreKey>(key: K, store: unknown): UserDataBackupData[K] {
+  if (store === null) return null;
+
+  const schema = BACKUP_STORES[key];
+  try {
+    return migrateStoredData(schema, store);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${schema.label} in this backup could not be read: ${reason}.`);
+  }
+}
+
+/**
+ * Parses and validates the contents of a backup file.
+ *
+ * @param json - Contents of the backup file
+ * @returns The validated backup
+ * @throws Error describing the first problem found
+ */
+export function parseBackup(json: string): UserDataBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a Music Ear Training backup.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version < 1) {
+    throw new Error('The backup has no valid version.');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new Error('The backup was made by a newer version of the app. Please update and try again.');
+  }
+  if (!isDateString(parsed.exportedAt) || !isObject(parsed.data)) {
+    throw new Error('The backup is incomplete.');
+  }
+
+  const data = parsed.data;
+  const gameHistory = data.gameHistory ?? [];
+  const guessAttempts = data.guessAttempts ?? [];
+  const customPresets = data.customPresets ?? [];
+  const customChordTypes = data.customChordTypes ?? [];
+
+  if (!Array.isArray(gameHistory)) {
+    throw new Error('Game history in this backup is invalid.');
+  }
+  gameHistory.forEach(validateSession);
+
+  if (!Array.isArray(guessAttempts)) {
+    throw new Error('Guess history in this backup is invalid.');
+  }
+  guessAttempts.forEach(validateAttempt);
+
+  if (!Array.isArray(customPresets)) {
+    throw new Error('Custom presets in this backup are invalid.');
+  }
+  customPresets.forEach(validatePreset);
+
+  if (!Array.isArray(customChordTypes)) {
+    throw new Error('Custom chord types in this backup are invalid.');
+  }
+  customChordTypes.forEach(validateChordType);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    exportedAt: parsed.exportedAt,
+    data: {
+      gameHistory: gameHistory as SerializedGameSession[],
+      guessAttempts: guessAttempts as SerializedStoredGuessAttempt[],
+      chordStats: migrateStore('chordStats', data.chordStats ?? null),
+      noteStats: migrateStore('noteStats', data.noteStats ?? null),
+      chordConfusions: migrateStore('chordConfusions', data.chordConfusions ?? null),
+      reviewSchedule: migrateStore('reviewSchedule', data.reviewSchedule ?? null),
+      appSettings: migrateStore('appSettings', data.appSettings ?? null),
+      customPresets: customPresets as CustomChordFilterPreset[],
+      customChordTypes: customChordTypes as CustomChordTypeDefinition[]
+    }
+  };
+}
+
+// ========================================
+// Merging
+// ========================================
+
+function mergeChordStats(local: ChordStatsStore, imported: ChordStatsStore): ChordStatsStore {
+  const stats: Record<string, SerializedChordStats> = { ...local.stats };
+
+  for (const [chordName, stat] of Object.entries(imported.stats)) {
+    const existing = stats[chordName];
+    if (!existing) {
+      stats[chordName] = stat;
+      continue;
+    }
+
+    const totalAttempts = existing.totalAttempts + stat.totalAttempts;
+    const correctAttempts = existing.correctAttempts + stat.correctAttempts;
+    stats[chordName] = {
+      chordName,
+      totalAttempts,
+      correctAttempts,
+      lastPracticed: laterDate(existing.lastPracticed, stat.lastPracticed),
+      averageAccuracy: calculateAccuracy(correctAttempts, totalAttempts)
+    };
+  }
+
+  return { version: local.version, stats, lastUpdated: laterDate(local.lastUpdated, imported.lastUpdated) };
+}
+
+function mergeNoteStats(local: NoteStatsStore, imported: NoteStatsStore): NoteStatsStore {
+  const stats: Record<string, SerializedNoteStats> = { ...local.stats };
+
+  for (const [key, stat] of Object.entries(imported.stats)) {
+    const existing = stats[key];
+    if (!existing) {
+      stats[key] = stat;
+      continue;
+    }
+
+    const totalAttempts = existing.totalAttempts + stat.totalAttempts;
+    const correctAttempts = existing.correctAttempts + stat.correctAttempts;
+    stats[key] = {
+      ...existing,
+      totalAttempts,
+      correctAttempts,
+      lastPracticed: laterDate(existing.lastPracticed, stat.lastPracticed),
+      averageAccuracy: calculateAccuracy(correctAttempts, totalAttempts)
+    };
+  }
+
+  const confusions: NoteConfusions = { ...local.confusions };
+  for (const [actual, row] of Object.entries(imported.confusions) as [Note, Partial<Record<Note, number>>][]) {
+    const mergedRow = { ...confusions[actual] };
+    for (const [guessed, count] of Object.entries(row) as [Note, number][]) {
+      mergedRow[guessed] = (mergedRow[guessed] ?? 0) + count;
+    }
+    confusions[actual] = mergedRow;
+  }
+
+  return { version: local.version, stats, confusions, lastUpdated: laterDate(local.lastUpdated, imported.lastUpdated) };
+}
+
+function mergeChordConfusions(local: ChordConfusionStore, imported: ChordConfusionStore): ChordConfusionStore {
+  return {
+    version: local.version,
+    confusions: mergeChordTypeConfusions(local.confusions, imported.confusions),
+    lastUpdated: laterDate(local.lastUpdated, imported.lastUpdated)
+  };
+}
+
+/**
+ * Keeps whichever review state of each item was answered most recently.
+ */
+function mergeReviewSchedule(local: ReviewScheduleStore, imported: ReviewScheduleStore): ReviewScheduleStore {
+  const items: Record<string, SerializedReviewItemState> = { ...local.items };
+
+  for (const [key, item] of Object.entries(imported.items)) {
+    const existing = items[key];
+    if (!existing || laterDate(existing.lastReviewed, item.lastReviewed) === item.lastReviewed) {
+      items[key] = item;
+    }
+  }
+
+  return { version: local.version, items, lastUpdated: laterDate(local.lastUpdated, imported.lastUpdated) };
+}
+
+/**
+ * Merges a store into the stored one, or writes it as is if nothing is stored yet.
+ */
+function mergeStore<T>(schema: StorageSchema<T>, imported: T | null, merge: (local: T, imported: T) => T): void {
+  if (imported === null) return;
+
+  const local = loadVersionedStore(schema);
+  saveVersionedStore(schema, local ? merge(local, imported) : imported);
+}
+
+/**
+ * Finds a preset name that is not taken yet, e.g. "Jazz (2)".
+ */
+function getAvailablePresetName(name: string): string {
+  let suffix = 2;
+  while (!isPresetNameAvailable(`${name} (${suffix})`)) {
+    suffix++;
+  }
+  return `${name} (${suffix})`;
+}
+
+function mergePresets(imported: CustomChordFilterPreset[], options: BackupImportOptions, summary: BackupImportSummary): void {
+  for (const preset of imported) {
+    const data = { name: preset.name, description: preset.description ?? '', filter: preset.filter };
+
+    try {
+      if (isPresetNameAvailable(preset.name)) {
+        saveCustomPreset(data);
+        summary.presetsImported++;
+      } else if (options.presetConflicts === 'rename') {
+        saveCustomPreset({ ...data, name: getAvailablePresetName(preset.name) });
+        summary.presetsImported++;
+        summary.presetsRenamed++;
+      } else if (options.presetConflicts === 'overwrite') {
+        const existing = loadCustomPresets().find(p => p.name.toLowerCase() === preset.name.toLowerCase())!;
+        updateCustomPreset(existing.id, { description: data.description, filter: data.filter });
+        summary.presetsOverwritten++;
+      } else {
+        summary.presetsSkipped++;
+      }
+    } catch (error) {
+      // Usually the preset limit; keep importing everything else
+      console.warn(`Skipped preset "${preset.name}" during import:`, error);
+      summary.presetsSkipped++;
+    }
+  }
+}
+
+/**
+ * Whether two chord types define the same chord.
+ */
+function isSameChordType(a: CustomChordTypeDefinition, b: CustomChordTypeDefinition): boolean {
+  return (
+    a.name === b.name &&
+    a.suffix === b.suffix &&
+    a.intervals.length === b.intervals.length &&
+    a.intervals.every((interval, i) => interval === b.intervals[i])
+  );
+}
+
+/**
+ * Adds imported chord types that are not on this device yet. Chord types keep
+ * their id, so imported presets and stats still refer to them. An imported
+ * type whose id is taken by a different local definition is a conflict: the
+ * local one is kept and the conflict is counted.
+ */
+function mergeChordTypes(imported: CustomChordTypeDefinition[], summary: BackupImportSummary): void {
+  for (const type of imported) {
+    const local = loadCustomChordTypes();
+    const existing = local.find(t => t.id === type.id);
+    if (existing) {
+      if (!isSameChordType(existing, type)) {
+        console.warn(`Kept the local chord type "${existing.name}" instead of "${type.name}" from the backup`);
+        summary.chordTypeConflicts++;
+      }
+      continue;
+    }
+
+    const error = validateCustomChordType(type);
+    if (error) {
+      // Usually a suffix or formula already defined on this device
+      console.warn(`Skipped chord type "${type.name}" during import: ${error}`);
+      continue;
+    }
+
+    try {
+      replaceCustomChordTypes([...local, type]);
+      summary.chordTypesImported++;
+    } catch (error) {
+      console.warn(`Skipped chord type "${type.name}" during import:`, error);
+    }
+  }
+}
+
+// ========================================
+// Import
+// ========================================
+
+/**
+ * Writes a validated backup to the session repository and localStorage.
+ * The app must be reloaded afterwards so that open views pick up the restored data.
+ *
+ * @param backup - Backup returned by parseBackup()
+ * @param options - Merge or replace, and how to handle duplicate preset names
+ * @returns What was imported
+ */
+export async function importBackup(backup: UserDataBackup, options: BackupImportOptions): Promise<BackupImportSummary> {
+  const { data } = backup;
+  const summary: BackupImportSummary = {
+    sessionsImported: 0,
+    settingsImported: false,
+    presetsImported: 0,
+    presetsRenamed: 0,
+    presetsOverwritten: 0,
+    presetsSkipped: 0,
+    chordTypesImported: 0,
+    chordTypeConflicts: 0
+  };
+
+  if (options.mode === 'replace') {
+    // Presets and chord types are the only parts that can be refused (limits);
+    // check both before writing anything so a refused backup changes nothing
+    const limitError = validateChordTypeReplacement(data.customChordTypes) ?? validatePresetReplacement(data.customPresets);
+    if (limitError) {
+      throw new Error(limitError);
+    }
+
+    replaceCustomChordTypes(data.customChordTypes);
+    replaceCustomPresets(data.customPresets);
+    await sessionRepository.deleteSessions();
+    summary.sessionsImported = await sessionRepository.addSessions(
+      data.gameHistory.map(deserializeSession),
+      data.guessAttempts.map(deserializeAttempt)
+    );
+    writeStore(CHORD_STATS_SCHEMA, data.chordStats);
+    writeStore(NOTE_STATS_SCHEMA, data.noteStats);
+    writeStore(CHORD_CONFUSION_SCHEMA, data.chordConfusions);
+    writeStore(REVIEW_SCHEDULE_SCHEMA, data.reviewSchedule);
+    writeStore(APP_SETTINGS_SCHEMA, data.appSettings);
+
+    summary.settingsImported = data.appSettings !== null;
+    summary.presetsImported = data.customPresets.length;
+    summary.chordTypesImported = data.customChordTypes.length;
+    return summary;
+  }
+
+  // Sessions already on this device (same mode and timestamp) are skipped
+  summary.sessionsImported = await sessionRepository.addSessions(
+    data.gameHistory.map(deserializeSession),
+    data.guessAttempts.map(deserializeAttempt)
+  );
+
+  mergeStore(CHORD_STATS_SCHEMA, data.chordStats, mergeChordStats);
+  mergeStore(NOTE_STATS_SCHEMA, data.noteStats, mergeNoteStats);
+  mergeStore(CHORD_CONFUSION_SCHEMA, data.chordConfusions, mergeChordConfusions);
+  mergeStore(REVIEW_SCHEDULE_SCHEMA, data.reviewSchedule, mergeReviewSchedule);
+
+  // Settings are per device; only take them over if this device has none yet
+  if (data.appSettings !== null && localStorage.getItem(APP_SETTINGS_SCHEMA.key) === null) {
+    saveVersionedStore(APP_SETTINGS_SCHEMA, data.appSettings);
+    summary.settingsImported = true;
+  }
+
+  // Chord types before presets, which may use them
+  mergeChordTypes(data.customChordTypes, summary);
+  mergePresets(data.customPresets, options, summary);
+
+  return summary;
+}
+
+/**
+ * Counts what a backup contains, for showing before it is imported.
+ */
+export function describeBackup(data: UserDataBackupData): BackupContents {
+  return {
+    sessions: data.gameHistory.length,
+    chords: data.chordStats ? Object.keys(data.chordStats.stats).length : 0,
+    notes: data.noteStats ? Object.keys(data.noteStats.stats).length : 0,
+    presets: data.customPresets.length,
+    chordTypes: data.customChordTypes.length,
+    hasSettings: data.appSettings !== null
+  };
+}
@@ -2,10 +2,30 @@ import type {
   CustomChordFilterPreset,
   CreateCustomPresetData,
   UpdateCustomPresetData,
+  CustomChordTypeDefinition,
+  CreateCustomChordTypeData,
+  UpdateCustomChordTypeData,
 } from '../types/presets';
+import { loadVersionedStore, saveVersionedStore } from './versionedStorage';
+import { CUSTOM_PRESETS_SCHEMA, CUSTOM_CHORD_TYPES_SCHEMA } from './storageSchemas';
+import { CHORD_TYPE_DISPLAY_NAMES } from '../constants/chordDisplayNames';
+import {
+  setCustomChordTypes,
+  isCustomChordType,
+  generateCustomChordTypeId,
+  getAllChordFormulas,
+  getChordTypeDisplayName,
+} from '../utils/chordTypeRegistry';
+import { getChordTypeFromName } from '../utils/chordValidation';
 
-const STORAGE_KEY = 'custom-chord-presets';
 const MAX_PRESETS = 20;
+const MAX_CUSTOM_CHORD_TYPES = 30;
+
+export const MAX_CHORD_TYPE_NAME_LENGTH = 30;
+export const MAX_CHORD_TYPE_SUFFIX_LENGTH = 12;
+export const MIN_CHORD_TYPE_NOTES = 3;
+export const MAX_CHORD_TYPE_NOTES = 7;
+export const MAX_CHORD_TYPE_INTERVAL = 24;
 
 /**
  * Generate a unique ID for a new preset.
@@ -19,32 +39,21 @@ function generateId(): string {
  * Returns an empty array if no presets exist or if there's an error.
  */
 export function loadCustomPresets(): CustomChordFilterPreset[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) {
-      return [];
-    }
-
-    const parsed = JSON.parse(stored);
-    if (!Array.isArray(parsed)) {
-      console.warn('Invalid preset data in localStorage, expected array');
-      return [];
-    }
-
-    // Validate each preset has required fields
-    return parsed.filter((preset): preset is CustomChordFilterPreset => {
-      return (
-        preset &&
-        typeof preset.id === 'string' &&
-        typeof preset.name === 'string' &&
-        typeof preset.filter === 'object' &&
-        preset.isCustom === true
-      );
-    });
-  } catch (error) {
-    console.error('Failed to load custom presets:', error);
+  const stored = loadVersionedStore(CUSTOM_PRESETS_SCHEMA);
+  if (!stored) {
     return [];
   }
+
+  // Validate each preset has required fields
+  return stored.filter((preset): preset is CustomChordFilterPreset => {
+    return (
+      preset &&
+      typeof preset.id === 'string' &&
+      typeof preset.name === 'string' &&
+      typeof preset.filter === 'object' &&
+      preset.isCustom === true
+    );
+  });
 }
 
 /**
@@ -52,7 +61,7 @@ export function loadCustomPresets(): CustomChordFilterPreset[] {
  */
 function savePresets(presets: CustomChordFilterPreset[]): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    saveVersionedStore(CUSTOM_PRESETS_SCHEMA, presets);
   } catch (error) {
     console.error('Failed to save custom presets:', error);
     throw new Error('Failed to save preset. Storage may be full.');
@@ -168,3 +177,258 @@ export function isPresetNameAvailable(name: string, excludeId?: string): boolean
     p => p.id !== excludeId && p.name.toLowerCase() === name.toLowerCase()
   );
 }
+
+/**
+ * Check whether a set of presets may replace all custom presets.
+ * @returns An error message, or null if the presets fit
+ */
+export function validatePresetReplacement(presets: CustomChordFilterPreset[]): string | null {
+  if (presets.length > MAX_PRESETS) {
+    return `Maximum of ${MAX_PRESETS} custom presets allowed.`;
+  }
+  return null;
+}
+
+/**
+ * Replace all custom presets, e.g. when restoring a backup.
+ * Throws if there are more presets than allowed.
+ */
+export function replaceCustomPresets(presets: CustomChordFilterPreset[]): void {
+  const error = validatePresetReplacement(presets);
+  if (error) {
+    throw new Error(error);
+  }
+
+  savePresets(presets.map(preset => ({ ...preset, filter: { ...preset.filter } })));
+}
+
+/**
+ * Check that a stored chord type has the required fields.
+ */
+function isStoredChordType(type: CustomChordTypeDefinition): boolean {
+  return (
+    !!type &&
+    typeof type.id === 'string' &&
+    isCustomChordType(type.id) &&
+    typeof type.name === 'string' &&
+    typeof type.suffix === 'string' &&
+    Array.isArray(type.intervals) &&
+    type.intervals.every(interval => Number.isInteger(interval))
+  );
+}
+
+/**
+ * Load all custom chord types from localStorage and register them,
+ * so ChordEngine and chord validation can use them.
+ * Returns an empty array if no chord types exist or if there's an error.
+ */
+export function loadCustomChordTypes(): CustomChordTypeDefinition[] {
+  const stored = loadVersionedStore(CUSTOM_CHORD_TYPES_SCHEMA);
+  const types = stored ? stored.filter(isStoredChordType) : [];
+  setCustomChordTypes(types);
+  return types;
+}
+
+/**
+ * Save all custom chord types to localStorage and register them.
+ */
+function saveChordTypes(types: CustomChordTypeDefinition[]): void {
+  try {
+    saveVersionedStore(CUSTOM_CHORD_TYPES_SCHEMA, types);
+  } catch (error) {
+    console.error('Failed to save custom chord types:', error);
+    throw new Error('Failed to save chord type. Storage may be full.');
+  }
+  setCustomChordTypes(types);
+}
+
+/**
+ * Gets the pitch classes of a formula in ascending order, e.g. [0, 4, 7, 14] → [0, 2, 4, 7].
+ */
+function getPitchClasses(intervals: number[]): number[] {
+  return intervals.map(interval => interval % 12).sort((a, b) => a - b);
+}
+
+/**
+ * Check a chord type definition before it is saved.
+ * Optionally exclude a chord type id from the uniqueness checks (for updates).
+ * Returns a message describing the first problem, or null if the definition is valid.
+ */
+export function validateCustomChordType(
+  data: CreateCustomChordTypeData,
+  excludeId?: string
+): string | null {
+  const others = loadCustomChordTypes().filter(t => t.id !== excludeId);
+  const name = data.name.trim();
+  const suffix = data.suffix.trim();
+  const { intervals } = data;
+
+  if (!name) {
+    return 'Name is required';
+  }
+  if (name.length > MAX_CHORD_TYPE_NAME_LENGTH) {
+    return `Name must be ${MAX_CHORD_TYPE_NAME_LENGTH} characters or less`;
+  }
+  const builtInNames = Object.values(CHORD_TYPE_DISPLAY_NAMES).map(n => n.toLowerCase());
+  if (builtInNames.includes(name.toLowerCase())) {
+    return 'This name is used by a built-in chord type';
+  }
+  if (others.some(t => t.name.toLowerCase() === name.toLowerCase())) {
+    return 'A chord type with this name already exists';
+  }
+
+  if (!suffix) {
+    return 'Suffix is required';
+  }
+  if (suffix.length > MAX_CHORD_TYPE_SUFFIX_LENGTH) {
+    return `Suffix must be ${MAX_CHORD_TYPE_SUFFIX_LENGTH} characters or less`;
+  }
+  if (/^[b♭#♯]/.test(suffix)) {
+    return 'Suffix cannot start with ♭ or ♯, as it would be read as part of the root';
+  }
+  if (/\/\s*[A-Ga-g][b♭#♯]?$/.test(suffix)) {
+    return 'Suffix cannot end with a slash and a note, as it would be read as a bass note';
+  }
+  const suffixType = getChordTypeFromName(`C${suffix}`);
+  if (suffixType && suffixType !== excludeId) {
+    return `This suffix is already used by ${getChordTypeDisplayName(suffixType)}`;
+  }
+
+  if (intervals.length < MIN_CHORD_TYPE_NOTES || intervals.length > MAX_CHORD_TYPE_NOTES) {
+    return `A chord needs ${MIN_CHORD_TYPE_NOTES} to ${MAX_CHORD_TYPE_NOTES} notes`;
+  }
+  if (!intervals.every(interval => Number.isInteger(interval))) {
+    return 'Intervals must be whole numbers of semitones';
+  }
+  if (intervals[0] !== 0) {
+    return 'Intervals must start at 0 (the root)';
+  }
+  if (intervals.some((interval, i) => i > 0 && interval <= intervals[i - 1])) {
+    return 'Intervals must be in ascending order';
+  }
+  if (intervals[intervals.length - 1] > MAX_CHORD_TYPE_INTERVAL) {
+    return `Intervals can be at most ${MAX_CHORD_TYPE_INTERVAL} semitones (two octaves) above the root`;
+  }
+  const pitchClasses = getPitchClasses(intervals);
+  if (new Set(pitchClasses).size !== pitchClasses.length) {
+    return 'Each note must be a different pitch class (12 semitones is the root again)';
+  }
+  const sameNotes = getAllChordFormulas().find(([type, formula]) =>
+    type !== excludeId && getPitchClasses(formula).join(',') === pitchClasses.join(',')
+  );
+  if (sameNotes) {
+    return `These are the same notes as ${getChordTypeDisplayName(sameNotes[0])}`;
+  }
+
+  return null;
+}
+
+/**
+ * Create and save a new custom chord type.
+ * Returns the created chord type with generated id and timestamps.
+ * Throws if maximum chord type limit is reached or the definition is invalid.
+ */
+export function saveCustomChordType(data: CreateCustomChordTypeData): CustomChordTypeDefinition {
+  const types = loadCustomChordTypes();
+
+  if (types.length >= MAX_CUSTOM_CHORD_TYPES) {
+    throw new Error(`Maximum of ${MAX_CUSTOM_CHORD_TYPES} custom chord types allowed. Delete some to add more.`);
+  }
+
+  const error = validateCustomChordType(data);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const now = new Date().toISOString();
+  const newType: CustomChordTypeDefinition = {
+    id: generateCustomChordTypeId(),
+    name: data.name.trim(),
+    suffix: data.suffix.trim(),
+    intervals: [...data.intervals],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  types.push(newType);
+  saveChordTypes(types);
+
+  return newType;
+}
+
+/**
+ * Update an existing custom chord type.
+ * Returns the updated chord type or throws if not found or invalid.
+ */
+export function updateCustomChordType(
+  id: string,
+  updates: UpdateCustomChordTypeData
+): CustomChordTypeDefinition {
+  const types = loadCustomChordTypes();
+  const index = types.findIndex(t => t.id === id);
+
+  if (index === -1) {
+    throw new Error(`Chord type with id "${id}" not found.`);
+  }
+
+  const merged = { ...types[index], ...updates };
+  const error = validateCustomChordType(merged, id);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const updatedType: CustomChordTypeDefinition = {
+    ...merged,
+    name: merged.name.trim(),
+    suffix: merged.suffix.trim(),
+    intervals: [...merged.intervals],
+    updatedAt: new Date().toISOString(),
+  };
+
+  types[index] = updatedType;
+  saveChordTypes(types);
+
+  return updatedType;
+}
+
+/**
+ * Delete a custom chord type by id.
+ * Returns true if deleted, false if not found.
+ */
+export function deleteCustomChordType(id: string): boolean {
+  const types = loadCustomChordTypes();
+  const index = types.findIndex(t => t.id === id);
+
+  if (index === -1) {
+    return false;
+  }
+
+  types.splice(index, 1);
+  saveChordTypes(types);
+
+  return true;
+}
+
+/**
+ * Check whether a set of chord types may replace all custom chord types.
+ * @returns An error message, or null if the chord types fit
+ */
+export function validateChordTypeReplacement(types: CustomChordTypeDefinition[]): string | null {
+  if (types.length > MAX_CUSTOM_CHORD_TYPES) {
+    return `Maximum of ${MAX_CUSTOM_CHORD_TYPES} custom chord types allowed.`;
+  }
+  return null;
+}
+
+/**
+ * Replace all custom chord types, e.g. when restoring a backup.
+ * Throws if there are more chord types than allowed.
+ */
+export function replaceCustomChordTypes(types: CustomChordTypeDefinition[]): void {
+  const error = validateChordTypeReplacement(types);
+  if (error) {
+    throw new Error(error);
+  }
+
+  saveChordTypes(types.map(type => ({ ...type, intervals: [...type.intervals] })));
+}
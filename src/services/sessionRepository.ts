@@ -0,0 +1,540 @@
+/**
+ * Session Repository
+ *
+ * Keeps every finished game session, and every answer given in it, in
+ * IndexedDB. Unlike the old localStorage history there is no cap per mode,
+ * sessions are written one at a time instead of rewriting the whole history,
+ * and queries by mode, sub-mode, date range and chord use indexes.
+ *
+ * History saved in localStorage by earlier versions of the app is moved into
+ * the repository the first time it is opened.
+ *
+ * Views that page through history subscribe to `sessionsChanged` to refetch
+ * their page when sessions are added or deleted.
+ *
+ * @module services/sessionRepository
+ */
+
+import type { GameSession, GuessAttempt, SerializedChordGuessAttempt } from '../types/game';
+import type {
+  StoredGameSession,
+  StoredGuessAttempt,
+  SessionQuery,
+  AttemptQuery,
+  HistoryPage
+} from '../types/history';
+import { loadVersionedStore } from './versionedStorage';
+import { GAME_HISTORY_SCHEMA } from './storageSchemas';
+import { EventEmitter } from '../utils/EventEmitter';
+
+const DB_NAME = 'music-practice-history';
+const DB_VERSION = 1;
+
+const SESSION_STORE = 'sessions';
+const ATTEMPT_STORE = 'attempts';
+
+/** Bounds for open-ended date ranges */
+const EARLIEST = new Date(0);
+const LATEST = new Date(8.64e15);
+
+/** Sessions of the same mode and accuracy this close together are treated as one */
+const DUPLICATE_WINDOW_MS = 5000;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Walks an index from newest to oldest, collecting matching records of the requested page.
+ */
+function collectNewestFirst<T>(
+  index: IDBIndex,
+  range: IDBKeyRange,
+  matches: (value: T) => boolean,
+  page: HistoryPage = {}
+): Promise<T[]> {
+  const offset = page.offset ?? 0;
+  const limit = page.limit ?? Infinity;
+
+  return new Promise((resolve, reject) => {
+    const results: T[] = [];
+    if (limit <= 0) {
+      resolve(results);
+      return;
+    }
+
+    let skipped = 0;
+    const request = index.openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(results);
+        return;
+      }
+
+      const value = cursor.value as T;
+      if (matches(value)) {
+        if (skipped < offset) {
+          skipped++;
+        } else {
+          results.push(value);
+          if (results.length >= limit) {
+            resolve(results);
+            return;
+          }
+        }
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Counts the records of an index range. Without a filter the database counts
+ * the range itself; with one, a cursor checks each record without keeping it.
+ */
+function countMatching<T>(index: IDBIndex, range: IDBKeyRange, matches: ((value: T) => boolean) | null): Promise<number> {
+  if (!matches) {
+    return requestToPromise(index.count(range));
+  }
+
+  return new Promise((resolve, reject) => {
+    let count = 0;
+    const request = index.openCursor(range);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(count);
+        return;
+      }
+      if (matches(cursor.value as T)) count++;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isWithin(timestamp: Date, from: Date = EARLIEST, to: Date = LATEST): boolean {
+  return timestamp.getTime() >= from.getTime() && timestamp.getTime() <= to.getTime();
+}
+
+/**
+ * Gets the id a session is stored under.
+ */
+export function getSessionId(session: GameSession): string {
+  return `${session.mode}|${session.timestamp.getTime()}`;
+}
+
+function toStoredSession(session: GameSession): StoredGameSession {
+  const subMode = session.results && typeof session.results.subMode === 'string'
+    ? session.results.subMode
+    : session.mode;
+
+  return { ...session, id: getSessionId(session), subMode };
+}
+
+/**
+ * Gets the attempts to store with a session: the given note attempts, plus
+ * the chord attempts that Note Training sessions keep in their results.
+ */
+function toStoredAttempts(session: GameSession, noteAttempts: GuessAttempt[]): StoredGuessAttempt[] {
+  const sessionId = getSessionId(session);
+  const chordAttempts: SerializedChordGuessAttempt[] = Array.isArray(session.results?.guessHistory)
+    ? session.results.guessHistory
+    : [];
+
+  return [
+    ...noteAttempts.map(attempt => ({
+      id: `${sessionId}|${attempt.id}`,
+      sessionId,
+      mode: session.mode,
+      timestamp: attempt.timestamp,
+      isCorrect: attempt.isCorrect,
+      actualNote: attempt.actualNote,
+      guessedNote: attempt.guessedNote
+    })),
+    ...chordAttempts.map(attempt => ({
+      id: `${sessionId}|${attempt.id}`,
+      sessionId,
+      mode: session.mode,
+      timestamp: new Date(attempt.timestamp),
+      isCorrect: attempt.isCorrect,
+      chordName: attempt.chordName,
+      guessedChordName: attempt.guessedChordName,
+      accuracy: attempt.accuracy,
+      inversion: attempt.inversion
+    }))
+  ];
+}
+
+function matchesSession(session: StoredGameSession, query: SessionQuery & { mode?: string }, sessionIds: Set<string> | null): boolean {
+  return (
+    (query.mode === undefined || session.mode === query.mode) &&
+    (query.subMode === undefined || session.subMode === query.subMode) &&
+    isWithin(session.timestamp, query.from, query.to) &&
+    (sessionIds === null || sessionIds.has(session.id)) &&
+    (query.where === undefined || query.where(session))
+  );
+}
+
+function matchesAttempt(attempt: StoredGuessAttempt, query: AttemptQuery): boolean {
+  return (
+    (query.sessionId === undefined || attempt.sessionId === query.sessionId) &&
+    (query.mode === undefined || attempt.mode === query.mode) &&
+    (query.chordName === undefined || attempt.chordName === query.chordName) &&
+    isWithin(attempt.timestamp, query.from, query.to) &&
+    (query.where === undefined || query.where(attempt))
+  );
+}
+
+/**
+ * Whether the index picked for a query checks all of it, so records can be
+ * counted without reading them. Only the first field given is indexed.
+ */
+function isFullyIndexed(fields: (string | undefined)[], where: unknown): boolean {
+  return where === undefined && fields.filter(value => value !== undefined).length <= 1;
+}
+
+/**
+ * Picks the narrowest index for a query. Indexes are [field, timestamp] pairs
+ * so that results come out newest first within the field value.
+ */
+function selectIndex(store: IDBObjectStore, fields: [string, string | undefined][], from?: Date, to?: Date): [IDBIndex, IDBKeyRange] {
+  for (const [indexName, value] of fields) {
+    if (value !== undefined) {
+      return [
+        store.index(indexName),
+        IDBKeyRange.bound([value, from ?? EARLIEST], [value, to ?? LATEST])
+      ];
+    }
+  }
+
+  return [store.index('timestamp'), IDBKeyRange.bound(from ?? EARLIEST, to ?? LATEST)];
+}
+
+interface SessionRepositoryEvents {
+  sessionsChanged: void;
+}
+
+export class SessionRepository extends EventEmitter<SessionRepositoryEvents> {
+  private factory: IDBFactory | null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param factory - IndexedDB implementation to use (defaults to the browser's)
+   */
+  constructor(factory?: IDBFactory) {
+    super();
+    this.factory = factory ?? null;
+  }
+
+  /**
+   * Saves a finished session with its answers, unless it is a duplicate:
+   * a session with the same timestamp, or one of the same mode and accuracy
+   * within a few seconds.
+   *
+   * @param session - The finished session
+   * @param noteAttempts - Single-note answers given during the session
+   * @returns Whether the session was saved
+   */
+  async addSession(session: GameSession, noteAttempts: GuessAttempt[] = []): Promise<boolean> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSION_STORE, ATTEMPT_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const sessions = transaction.objectStore(SESSION_STORE);
+
+    const time = session.timestamp.getTime();
+    const [sameTime, nearby] = await Promise.all([
+      requestToPromise(sessions.index('timestamp').count(session.timestamp)),
+      requestToPromise(sessions.index('mode_timestamp').getAll(IDBKeyRange.bound(
+        [session.mode, new Date(time - DUPLICATE_WINDOW_MS)],
+        [session.mode, new Date(time + DUPLICATE_WINDOW_MS)]
+      )))
+    ]);
+
+    const isDuplicate = sameTime > 0 ||
+      (nearby as StoredGameSession[]).some(existing => existing.accuracy === session.accuracy);
+
+    if (!isDuplicate) {
+      sessions.put(toStoredSession(session));
+      const attempts = transaction.objectStore(ATTEMPT_STORE);
+      toStoredAttempts(session, noteAttempts).forEach(attempt => attempts.put(attempt));
+    }
+
+    await done;
+    if (!isDuplicate) {
+      this.emit('sessionsChanged', undefined);
+    }
+    return !isDuplicate;
+  }
+
+  /**
+   * Saves many sessions at once, skipping any that are already stored.
+   * Used when importing history; no duplicate window is applied.
+   *
+   * @param sessions - Sessions to save
+   * @param attempts - Answers to save with them, in addition to those in the sessions' results
+   * @returns How many sessions were new
+   */
+  async addSessions(sessions: GameSession[], attempts: StoredGuessAttempt[] = []): Promise<number> {
+    const db = await this.open();
+    const added = await this.putSessions(db, sessions, attempts);
+    if (added > 0) {
+      this.emit('sessionsChanged', undefined);
+    }
+    return added;
+  }
+
+  /**
+   * Gets one session by its id.
+   */
+  async getSession(id: string): Promise<StoredGameSession | undefined> {
+    const db = await this.open();
+    const store = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE);
+    return requestToPromise(store.get(id)) as Promise<StoredGameSession | undefined>;
+  }
+
+  /**
+   * Gets sessions matching a query, newest first.
+   */
+  async getSessions(query: SessionQuery = {}): Promise<StoredGameSession[]> {
+    const { mode } = query;
+    if (Array.isArray(mode)) {
+      // Each mode has its own index range; merge the newest of each, then page
+      const offset = query.offset ?? 0;
+      const limit = query.limit ?? Infinity;
+      const perMode = await Promise.all(mode.map(oneMode =>
+        this.getSessions({ ...query, mode: oneMode, offset: 0, limit: offset + limit })
+      ));
+      return perMode
+        .flat()
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+        .slice(offset, offset + limit);
+    }
+
+    const db = await this.open();
+    const sessionIds = await this.getChordSessionIds(query.chordName);
+    const store = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE);
+    const [index, range] = selectIndex(
+      store,
+      [['mode_timestamp', mode], ['subMode_timestamp', query.subMode]],
+      query.from,
+      query.to
+    );
+
+    return collectNewestFirst<StoredGameSession>(
+      index,
+      range,
+      session => matchesSession(session, { ...query, mode }, sessionIds),
+      query
+    );
+  }
+
+  /**
+   * Counts sessions matching a query, ignoring its paging.
+   */
+  async countSessions(query: SessionQuery = {}): Promise<number> {
+    const { mode } = query;
+    if (Array.isArray(mode)) {
+      const counts = await Promise.all(mode.map(oneMode => this.countSessions({ ...query, mode: oneMode })));
+      return counts.reduce((total, count) => total + count, 0);
+    }
+
+    const db = await this.open();
+    const sessionIds = await this.getChordSessionIds(query.chordName);
+    const store = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE);
+    const [index, range] = selectIndex(
+      store,
+      [['mode_timestamp', mode], ['subMode_timestamp', query.subMode]],
+      query.from,
+      query.to
+    );
+
+    const fullyIndexed = sessionIds === null && isFullyIndexed([mode, query.subMode], query.where);
+    return countMatching<StoredGameSession>(
+      index,
+      range,
+      fullyIndexed ? null : session => matchesSession(session, { ...query, mode }, sessionIds)
+    );
+  }
+
+  /**
+   * Gets answers matching a query, newest first.
+   */
+  async getAttempts(query: AttemptQuery = {}): Promise<StoredGuessAttempt[]> {
+    const db = await this.open();
+
+    const store = db.transaction(ATTEMPT_STORE, 'readonly').objectStore(ATTEMPT_STORE);
+    const [index, range] = selectIndex(
+      store,
+      [['session_timestamp', query.sessionId], ['chord_timestamp', query.chordName], ['mode_timestamp', query.mode]],
+      query.from,
+      query.to
+    );
+
+    return collectNewestFirst<StoredGuessAttempt>(index, range, attempt => matchesAttempt(attempt, query), query);
+  }
+
+  /**
+   * Counts answers matching a query, ignoring its paging.
+   */
+  async countAttempts(query: AttemptQuery = {}): Promise<number> {
+    const db = await this.open();
+
+    const store = db.transaction(ATTEMPT_STORE, 'readonly').objectStore(ATTEMPT_STORE);
+    const [index, range] = selectIndex(
+      store,
+      [['session_timestamp', query.sessionId], ['chord_timestamp', query.chordName], ['mode_timestamp', query.mode]],
+      query.from,
+      query.to
+    );
+
+    const fullyIndexed = isFullyIndexed([query.sessionId, query.chordName, query.mode], query.where);
+    return countMatching<StoredGuessAttempt>(index, range, fullyIndexed ? null : attempt => matchesAttempt(attempt, query));
+  }
+
+  /**
+   * Deletes the sessions of one mode, or all sessions, together with their answers.
+   *
+   * @param mode - Mode to delete (default: all modes)
+   */
+  async deleteSessions(mode?: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSION_STORE, ATTEMPT_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const sessions = transaction.objectStore(SESSION_STORE);
+    const attempts = transaction.objectStore(ATTEMPT_STORE);
+
+    if (mode === undefined) {
+      sessions.clear();
+      attempts.clear();
+    } else {
+      const range = IDBKeyRange.bound([mode, EARLIEST], [mode, LATEST]);
+      const [sessionKeys, attemptKeys] = await Promise.all([
+        requestToPromise(sessions.index('mode_timestamp').getAllKeys(range)),
+        requestToPromise(attempts.index('mode_timestamp').getAllKeys(range))
+      ]);
+      sessionKeys.forEach(key => sessions.delete(key));
+      attemptKeys.forEach(key => attempts.delete(key));
+    }
+
+    await done;
+    this.emit('sessionsChanged', undefined);
+  }
+
+  /**
+   * Gets the ids of sessions with an answer about a chord, or null when not filtering by chord.
+   */
+  private async getChordSessionIds(chordName: string | undefined): Promise<Set<string> | null> {
+    if (chordName === undefined) return null;
+    const attempts = await this.getAttempts({ chordName });
+    return new Set(attempts.map(attempt => attempt.sessionId));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase()
+        .then(async db => {
+          await this.migrateLocalStorageHistory(db);
+          return db;
+        })
+        .catch(error => {
+          // Allow a later call to try again
+          this.dbPromise = null;
+          throw error;
+        });
+    }
+    return this.dbPromise;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    const factory = this.factory ?? globalThis.indexedDB;
+    if (!factory) {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = factory.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+
+        const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        sessions.createIndex('timestamp', 'timestamp');
+        sessions.createIndex('mode_timestamp', ['mode', 'timestamp']);
+        sessions.createIndex('subMode_timestamp', ['subMode', 'timestamp']);
+
+        const attempts = db.createObjectStore(ATTEMPT_STORE, { keyPath: 'id' });
+        attempts.createIndex('timestamp', 'timestamp');
+        attempts.createIndex('session_timestamp', ['sessionId', 'timestamp']);
+        attempts.createIndex('mode_timestamp', ['mode', 'timestamp']);
+        attempts.createIndex('chord_timestamp', ['chordName', 'timestamp']);
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The history database is open in another tab with an older version'));
+    });
+  }
+
+  private async putSessions(db: IDBDatabase, sessions: GameSession[], extraAttempts: StoredGuessAttempt[]): Promise<number> {
+    const transaction = db.transaction([SESSION_STORE, ATTEMPT_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const sessionStore = transaction.objectStore(SESSION_STORE);
+    const attemptStore = transaction.objectStore(ATTEMPT_STORE);
+
+    // A session is skipped if it is stored already or came earlier in the same batch
+    const existing = new Set(await requestToPromise(sessionStore.getAllKeys()));
+    const added = sessions.filter(session => {
+      const id = getSessionId(session);
+      if (existing.has(id)) return false;
+      existing.add(id);
+      return true;
+    });
+
+    for (const session of added) {
+      sessionStore.put(toStoredSession(session));
+      toStoredAttempts(session, []).forEach(attempt => attemptStore.put(attempt));
+    }
+    extraAttempts.forEach(attempt => attemptStore.put(attempt));
+
+    await done;
+    return added.length;
+  }
+
+  /**
+   * Moves history saved in localStorage by earlier versions into the database.
+   * The localStorage copy is only removed once the sessions are safely stored.
+   */
+  private async migrateLocalStorageHistory(db: IDBDatabase): Promise<void> {
+    const stored = loadVersionedStore(GAME_HISTORY_SCHEMA);
+    if (!stored) return;
+
+    const sessions: GameSession[] = stored.map(session => ({
+      ...session,
+      timestamp: new Date(session.timestamp)
+    }));
+
+    try {
+      await this.putSessions(db, sessions, []);
+      localStorage.removeItem(GAME_HISTORY_SCHEMA.key);
+    } catch (error) {
+      console.warn('Failed to move game history from localStorage to IndexedDB:', error);
+    }
+  }
+}
+
+// Export singleton instance for convenience (similar to audioEngine)
+export const sessionRepository = new SessionRepository();
@@ -0,0 +1,141 @@
+/**
+ * Storage Schemas
+ *
+ * The StorageSchema of every store the app persists in localStorage.
+ *
+ * To change a store's shape: bump its version, add a migration keyed by the
+ * old version that converts old data to the new shape, and update its
+ * validator. Never edit or remove an existing migration; users may still
+ * have data at any older version.
+ *
+ * A migration only runs once if the version it upgrades to is saved with the
+ * data. Stores with a `version` field of their own (stats, confusions, review
+ * schedule) set it in their migrations. Arrays and plain objects (game
+ * history, settings, presets, chord types) set `envelope: true` and are saved
+ * as `{ version, data }`; their migrations receive and return the bare data.
+ *
+ * @module services/storageSchemas
+ */
+
+import type { StorageSchema } from '../types/storage';
+import type { SerializedGameSession } from '../types/backup';
+import type {
+  ChordStatsStore,
+  NoteStatsStore,
+  ChordConfusionStore,
+  ReviewScheduleStore
+} from '../types/stats';
+import {
+  CHORD_STATS_VERSION,
+  NOTE_STATS_VERSION,
+  CHORD_CONFUSION_VERSION,
+  REVIEW_SCHEDULE_VERSION
+} from '../types/stats';
+import type { AppSettings } from '../types/settings';
+import type { CustomChordFilterPreset, CustomChordTypeDefinition } from '../types/presets';
+import { STORAGE_KEYS } from '../constants';
+import { UNVERSIONED_STORE_VERSION } from './versionedStorage';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Checks the fields every versioned store shares.
+ */
+function isVersionedStore(data: unknown, version: number): data is Record<string, unknown> {
+  return isObject(data) && data.version === version && isDateString(data.lastUpdated);
+}
+
+/**
+ * Game history as kept in localStorage before the session repository existed.
+ * Only read to move old history into the repository.
+ */
+export const GAME_HISTORY_SCHEMA: StorageSchema<SerializedGameSession[]> = {
+  key: STORAGE_KEYS.GAME_HISTORY,
+  label: 'Game history',
+  version: UNVERSIONED_STORE_VERSION,
+  migrations: {},
+  envelope: true,
+  validate: (data): data is SerializedGameSession[] =>
+    Array.isArray(data) &&
+    data.every(session => isObject(session) && typeof session.mode === 'string' && isDateString(session.timestamp))
+};
+
+export const CHORD_STATS_SCHEMA: StorageSchema<ChordStatsStore> = {
+  key: STORAGE_KEYS.CHORD_STATS,
+  label: 'Chord stats',
+  version: CHORD_STATS_VERSION,
+  migrations: {},
+  validate: (data): data is ChordStatsStore =>
+    isVersionedStore(data, CHORD_STATS_VERSION) && isObject(data.stats)
+};
+
+export const NOTE_STATS_SCHEMA: StorageSchema<NoteStatsStore> = {
+  key: STORAGE_KEYS.NOTE_STATS,
+  label: 'Note stats',
+  version: NOTE_STATS_VERSION,
+  migrations: {},
+  validate: (data): data is NoteStatsStore =>
+    isVersionedStore(data, NOTE_STATS_VERSION) && isObject(data.stats) && isObject(data.confusions)
+};
+
+export const CHORD_CONFUSION_SCHEMA: StorageSchema<ChordConfusionStore> = {
+  key: STORAGE_KEYS.CHORD_CONFUSIONS,
+  label: 'Chord confusions',
+  version: CHORD_CONFUSION_VERSION,
+  migrations: {},
+  validate: (data): data is ChordConfusionStore =>
+    isVersionedStore(data, CHORD_CONFUSION_VERSION) && isObject(data.confusions)
+};
+
+export const REVIEW_SCHEDULE_SCHEMA: StorageSchema<ReviewScheduleStore> = {
+  key: STORAGE_KEYS.REVIEW_SCHEDULE,
+  label: 'Review schedule',
+  version: REVIEW_SCHEDULE_VERSION,
+  migrations: {},
+  validate: (data): data is ReviewScheduleStore =>
+    isVersionedStore(data, REVIEW_SCHEDULE_VERSION) && isObject(data.items)
+};
+
+/**
+ * Settings are stored as saved and merged with the defaults on load,
+ * so fields added later do not need a migration.
+ */
+export const APP_SETTINGS_SCHEMA: StorageSchema<Partial<AppSettings>> = {
+  key: STORAGE_KEYS.APP_SETTINGS,
+  label: 'Settings',
+  version: UNVERSIONED_STORE_VERSION,
+  migrations: {},
+  envelope: true,
+  validate: (data): data is Partial<AppSettings> => isObject(data)
+};
+
+/**
+ * Individual presets are checked when they are loaded, so one broken
+ * preset does not quarantine the rest.
+ */
+export const CUSTOM_PRESETS_SCHEMA: StorageSchema<CustomChordFilterPreset[]> = {
+  key: STORAGE_KEYS.CUSTOM_PRESETS,
+  label: 'Custom presets',
+  version: UNVERSIONED_STORE_VERSION,
+  migrations: {},
+  envelope: true,
+  validate: (data): data is CustomChordFilterPreset[] => Array.isArray(data)
+};
+
+/**
+ * Like presets, individual chord types are checked when they are loaded.
+ */
+export const CUSTOM_CHORD_TYPES_SCHEMA: StorageSchema<CustomChordTypeDefinition[]> = {
+  key: STORAGE_KEYS.CUSTOM_CHORD_TYPES,
+  label: 'Custom chord types',
+  version: UNVERSIONED_STORE_VERSION,
+  migrations: {},
+  envelope: true,
+  validate: (data): data is CustomChordTypeDefinition[] => Array.isArray(data)
+};
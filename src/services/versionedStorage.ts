@@ -0,0 +1,218 @@
+/**
+ * Versioned Storage
+ *
+ * Shared loading and saving for everything persisted in localStorage.
+ * Each store is described by a StorageSchema: when stored data is older than
+ * the schema, its migrations are run in order and the upgraded data is
+ * written back. Data that cannot be read, upgraded or validated is moved to
+ * a quarantine list instead of being thrown away, so it can still be
+ * downloaded and recovered.
+ *
+ * Stores with a `version` field carry their own version. Arrays and plain
+ * objects are saved inside a `{ version, data }` envelope instead (see
+ * StorageSchema.envelope); anything saved bare before envelopes existed is
+ * version 1.
+ *
+ * @module services/versionedStorage
+ */
+
+import type { StorageSchema, QuarantinedItem } from '../types/storage';
+import { STORAGE_KEYS } from '../constants';
+
+/**
+ * Version assumed for data that does not carry a version number.
+ * Stores that were saved as plain arrays or objects before they had an
+ * envelope (game history, settings, presets) are all version 1.
+ */
+export const UNVERSIONED_STORE_VERSION = 1;
+
+/** Oldest quarantined items are dropped beyond this, to keep localStorage from filling up */
+export const MAX_QUARANTINED_ITEMS = 10;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the schema version of stored data.
+ */
+export function getStoredVersion(data: unknown): number {
+  return isObject(data) && typeof data.version === 'number'
+    ? data.version
+    : UNVERSIONED_STORE_VERSION;
+}
+
+function isEnvelope(value: unknown): value is { version: number; data: unknown } {
+  return isObject(value) && typeof value.version === 'number' && 'data' in value;
+}
+
+/**
+ * Splits stored data into the version it was saved at and the data itself.
+ */
+function unwrapStoredData<T>(schema: StorageSchema<T>, stored: unknown): { version: number; data: unknown } {
+  if (schema.envelope) {
+    return isEnvelope(stored)
+      ? { version: stored.version, data: stored.data }
+      : { version: UNVERSIONED_STORE_VERSION, data: stored };
+  }
+  return { version: getStoredVersion(stored), data: stored };
+}
+
+/**
+ * Upgrades parsed data to the schema's current version and validates it.
+ *
+ * @param schema - Schema of the store the data belongs to
+ * @param stored - Parsed data, in any supported version (in its envelope, if the store has one)
+ * @returns The data in the current version's shape
+ * @throws Error describing why the data cannot be used
+ */
+export function migrateStoredData<T>(schema: StorageSchema<T>, stored: unknown): T {
+  const { version: storedVersion, data } = unwrapStoredData(schema, stored);
+
+  if (!Number.isInteger(storedVersion) || storedVersion < 1) {
+    throw new Error(`Invalid schema version ${storedVersion}`);
+  }
+  if (storedVersion > schema.version) {
+    throw new Error(`Saved by a newer version of the app (schema version ${storedVersion})`);
+  }
+
+  let migrated = data;
+  for (let version = storedVersion; version < schema.version; version++) {
+    const migrate = schema.migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+
+    try {
+      migrated = migrate(migrated);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration from schema version ${version} failed: ${reason}`);
+    }
+  }
+
+  if (!schema.validate(migrated)) {
+    throw new Error(`Data does not match schema version ${schema.version}`);
+  }
+
+  return migrated;
+}
+
+/**
+ * Loads a store from localStorage, upgrading it to the current version if needed.
+ * Data that cannot be used is quarantined and treated as missing.
+ *
+ * @param schema - Schema of the store to load
+ * @returns The stored data, or null if nothing usable is stored
+ */
+export function loadVersionedStore<T>(schema: StorageSchema<T>): T | null {
+  let stored: string | null;
+  try {
+    stored = localStorage.getItem(schema.key);
+  } catch (error) {
+    console.warn(`Failed to read ${schema.label} from localStorage:`, error);
+    return null;
+  }
+
+  if (stored === null) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    quarantineStoredValue(schema, stored, 'Not valid JSON');
+    return null;
+  }
+
+  if (parsed === null) {
+    return null;
+  }
+
+  let data: T;
+  try {
+    data = migrateStoredData(schema, parsed);
+  } catch (error) {
+    quarantineStoredValue(schema, stored, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+
+  // Write upgraded data back, and stamp data saved before the store had an envelope
+  const isCurrent = unwrapStoredData(schema, parsed).version === schema.version &&
+    (!schema.envelope || isEnvelope(parsed));
+  if (!isCurrent) {
+    try {
+      saveVersionedStore(schema, data);
+    } catch (error) {
+      console.warn(`Failed to save migrated ${schema.label} to localStorage:`, error);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Saves a store to localStorage, in an envelope with the current version if the store has one.
+ *
+ * @param schema - Schema of the store to save
+ * @param data - Data in the current version's shape
+ * @throws Error if localStorage refuses the write (e.g. quota exceeded)
+ */
+export function saveVersionedStore<T>(schema: StorageSchema<T>, data: T): void {
+  const stored = schema.envelope ? { version: schema.version, data } : data;
+  localStorage.setItem(schema.key, JSON.stringify(stored));
+}
+
+/**
+ * Moves a stored value into the quarantine list and removes it from its key.
+ * If the quarantine cannot be written, the value is left where it is.
+ *
+ * @param schema - Schema of the store the value belongs to
+ * @param value - The stored string
+ * @param reason - Why the value could not be loaded
+ */
+export function quarantineStoredValue<T>(schema: StorageSchema<T>, value: string, reason: string): void {
+  console.warn(`Quarantined ${schema.label} from localStorage: ${reason}`);
+
+  const item: QuarantinedItem = {
+    key: schema.key,
+    label: schema.label,
+    reason,
+    value,
+    quarantinedAt: new Date().toISOString()
+  };
+
+  try {
+    const items = [item, ...getQuarantinedItems()].slice(0, MAX_QUARANTINED_ITEMS);
+    localStorage.setItem(STORAGE_KEYS.QUARANTINE, JSON.stringify(items));
+    localStorage.removeItem(schema.key);
+  } catch (error) {
+    console.warn(`Failed to quarantine ${schema.label}:`, error);
+  }
+}
+
+/**
+ * Gets all quarantined data, newest first.
+ */
+export function getQuarantinedItems(): QuarantinedItem[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.QUARANTINE);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed as QuarantinedItem[] : [];
+  } catch (error) {
+    console.warn('Failed to load quarantined data from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Permanently deletes all quarantined data.
+ */
+export function clearQuarantine(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.QUARANTINE);
+  } catch (error) {
+    console.warn('Failed to clear quarantined data from localStorage:', error);
+  }
+}
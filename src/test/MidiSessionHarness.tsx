@@ -0,0 +1,259 @@
+import { act, render, type RenderResult } from '@testing-library/react';
+import { vi } from 'vitest';
+import { GameOrchestrator } from '../game/GameOrchestrator';
+import type { GuessResult, OrchestratorEvents } from '../game/OrchestratorEvents';
+import { VirtualMidiInput, type MidiScriptPlaybackOptions } from '../services/VirtualMidiInput';
+import { createMidiTestFixture, type MidiTestFixture } from '../utils/__tests__/testHelpers';
+import { SettingsProvider } from '../contexts/SettingsContext';
+import { DEFAULT_MODE_SETTINGS } from '../types/game';
+import type { ModeSettings, ModeType } from '../types/game';
+import { AudioEngine } from '../utils/audioEngine';
+import { ALL_NOTES, DEFAULT_NOTE_FILTER, isNotePlayable } from '../types/music';
+import type { NoteFilter, NoteWithOctave, Octave } from '../types/music';
+import type { MidiScript } from '../types/midi';
+
+/**
+ * Options for a scripted session
+ */
+export interface MidiSessionOptions {
+  /** Mode to play, e.g. 'rush' or 'show-chord-guess-notes' */
+  mode: ModeType;
+  /** Mode settings, merged over the defaults one mode at a time */
+  modeSettings?: Partial<ModeSettings>;
+  /** Notes ear training rounds pick from (default: C4 only, so scripts know the answer) */
+  noteFilter?: NoteFilter;
+  /** Round time limit in seconds (default: unlimited) */
+  responseTimeLimit?: number | null;
+}
+
+/**
+ * Time allowed after a script's last message for the game to react, in milliseconds
+ */
+const SETTLE_TIME = 2000;
+
+/**
+ * Time moved on between renders while waiting, in milliseconds
+ */
+const TIME_STEP = 10;
+
+/**
+ * Picks the lowest note the filter allows. The test setup mocks AudioEngine
+ * with random notes, which a script can't answer.
+ */
+const pickFirstPlayableNote = (filter: NoteFilter): NoteWithOctave => {
+  for (let octave = filter.octaveRange.min; octave <= filter.octaveRange.max; octave++) {
+    const note = ALL_NOTES.find(note => isNotePlayable({ note, octave: octave as Octave }, filter));
+    if (note) {
+      return { note, octave: octave as Octave };
+    }
+  }
+  throw new Error('No playable notes available with current filter settings');
+};
+
+/**
+ * Test harness that plays complete sessions from MIDI scripts or .mid files.
+ *
+ * Messages go through a VirtualMidiInput selected in MidiManager, so they take
+ * the same path as a real keyboard. The harness wires the orchestrator up the
+ * way NoteIdentification does: ear training modes are answered from noteOn
+ * events, and chord modes render their own display, which listens to MIDI
+ * directly. Timers are faked, so sessions play through instantly, and ear
+ * training rounds always use the lowest note the filter allows.
+ *
+ * Example usage:
+ * ```typescript
+ * const session = await MidiSessionHarness.start({
+ *   mode: 'rush',
+ *   modeSettings: { rush: { targetNotes: 2 } }
+ * });
+ *
+ * await session.play({
+ *   events: [
+ *     { time: 0, data: [0x90, 48, 100] },
+ *     { time: 2000, data: [0x90, 48, 100] }
+ *   ]
+ * });
+ *
+ * expect(session.completedSession?.stats.correctCount).toBe(2);
+ * session.cleanup();
+ * ```
+ */
+export class MidiSessionHarness {
+  readonly orchestrator: GameOrchestrator;
+  readonly input: VirtualMidiInput;
+  readonly guessResults: GuessResult[] = [];
+  completedSession: OrchestratorEvents['sessionComplete'] | null = null;
+
+  private fixture: MidiTestFixture;
+  private options: MidiSessionOptions;
+  private view: Pick<RenderResult, 'rerender' | 'unmount'> | null = null;
+
+  private constructor(fixture: MidiTestFixture, options: MidiSessionOptions) {
+    this.fixture = fixture;
+    this.options = options;
+    this.orchestrator = new GameOrchestrator();
+    this.input = new VirtualMidiInput();
+  }
+
+  /**
+   * Sets up MIDI with a virtual input selected and starts the first round
+   */
+  static async start(options: MidiSessionOptions): Promise<MidiSessionHarness> {
+    vi.useFakeTimers();
+    vi.mocked(AudioEngine.getRandomNoteFromFilter).mockImplementation(pickFirstPlayableNote);
+
+    const harness = new MidiSessionHarness(createMidiTestFixture(), options);
+    await harness.connectInput();
+    await harness.startSession();
+    return harness;
+  }
+
+  /**
+   * Plays a script through the virtual input, then lets the game settle
+   */
+  async play(script: MidiScript, options: MidiScriptPlaybackOptions = {}): Promise<void> {
+    const playback = this.input.play(script, options);
+    const lastTime = Math.max(0, ...script.events.map(event => event.time));
+
+    await this.wait(lastTime / (options.speed ?? 1) + SETTLE_TIME);
+    await playback;
+  }
+
+  /**
+   * Plays the channel messages of a .mid file through the virtual input
+   */
+  async playMidiFile(data: ArrayBuffer | Uint8Array, options: MidiScriptPlaybackOptions = {}): Promise<void> {
+    const playback = this.input.playMidiFile(data, options);
+    await this.wait(SETTLE_TIME);
+    while (this.input.isPlaying()) {
+      await this.wait(SETTLE_TIME);
+    }
+    await playback;
+  }
+
+  /**
+   * Lets time pass, running any timers due. Time moves in small steps so
+   * React renders in between, as it would in the browser.
+   */
+  async wait(ms: number): Promise<void> {
+    for (let elapsed = 0; elapsed < ms; elapsed += TIME_STEP) {
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(Math.min(TIME_STEP, ms - elapsed));
+      });
+    }
+  }
+
+  /**
+   * The game mode being played
+   */
+  getGameMode() {
+    return this.orchestrator.getGameMode();
+  }
+
+  /**
+   * Stops the session and MIDI, and restores real timers
+   */
+  cleanup(): void {
+    this.input.stop();
+    this.view?.unmount();
+    this.orchestrator.stop();
+    this.orchestrator.removeAllListeners();
+    this.fixture.midiManager.off('noteOn', this.handleNoteOn);
+    this.fixture.midiManager.unregisterVirtualInput(this.input.id);
+    this.fixture.midiManager.disconnect();
+    vi.mocked(AudioEngine.getRandomNoteFromFilter).mockReset();
+    vi.useRealTimers();
+  }
+
+  private async connectInput(): Promise<void> {
+    const { midiManager } = this.fixture;
+    await midiManager.initialize();
+    midiManager.registerVirtualInput(this.input);
+    await midiManager.selectInputDevice(this.input.id);
+  }
+
+  private async startSession(): Promise<void> {
+    const { mode, modeSettings = {}, noteFilter = DEFAULT_NOTE_FILTER, responseTimeLimit = null } = this.options;
+
+    this.orchestrator.on('guessResult', result => this.guessResults.push(result));
+    this.orchestrator.on('sessionComplete', event => {
+      this.completedSession = event;
+    });
+    this.orchestrator.on('advanceToNextRound', () => {
+      this.orchestrator.beginNewRound();
+    });
+    this.orchestrator.on('roundStart', () => this.renderModeDisplay());
+
+    this.orchestrator.start();
+    this.orchestrator.applySettings(
+      mode,
+      { ...DEFAULT_MODE_SETTINGS, ...modeSettings, selectedMode: mode },
+      noteFilter,
+      '4n',
+      responseTimeLimit,
+      1,
+      () => {}
+    );
+
+    if (this.hasOwnMidiHandling()) {
+      this.renderModeDisplay();
+    } else {
+      this.fixture.midiManager.on('noteOn', this.handleNoteOn);
+    }
+
+    await act(async () => {
+      this.orchestrator.startPractice(true);
+      await vi.advanceTimersByTimeAsync(0);
+    });
+  }
+
+  /**
+   * Chord modes listen to MIDI in their display, like in the app
+   */
+  private hasOwnMidiHandling(): boolean {
+    const mode = this.getGameMode()?.getMode?.() ?? '';
+    return mode.includes('chord') || mode.includes('notes');
+  }
+
+  /**
+   * Answers ear training rounds from MIDI the way NoteIdentification does
+   */
+  private handleNoteOn = ({ note }: { note: NoteWithOctave }) => {
+    if (!this.orchestrator.isWaitingInput() || this.orchestrator.isPaused()) {
+      return;
+    }
+
+    const context = this.orchestrator.getRoundContext();
+    const gameMode = this.getGameMode();
+
+    if (gameMode?.onPianoKeyClick) {
+      gameMode.onPianoKeyClick(note, context);
+      this.orchestrator.handleUserAction({ type: 'piano_click', note }, context);
+    } else {
+      this.orchestrator.submitGuess(note);
+    }
+  };
+
+  private renderModeDisplay(): void {
+    const gameMode = this.getGameMode();
+    if (!gameMode || !this.hasOwnMidiHandling()) {
+      return;
+    }
+
+    const display = gameMode.modeDisplay({
+      responseTimeLimit: this.options.responseTimeLimit ?? null,
+      currentNote: true,
+      isPaused: false,
+      onAdvanceRound: (delayMs = 1000) => this.orchestrator.handleAutoAdvance(delayMs),
+      onSubmitClick: () => {
+        this.orchestrator.handleUserAction({ type: 'submit' }, this.orchestrator.getRoundContext());
+      },
+    });
+
+    if (this.view) {
+      this.view.rerender(display);
+    } else {
+      this.view = render(display, { wrapper: SettingsProvider });
+    }
+  }
+}
@@ -2,9 +2,19 @@ import { expect, afterEach, vi } from 'vitest';
 import { cleanup } from '@testing-library/react';
 import * as matchers from '@testing-library/jest-dom/matchers';
 
+// Polyfill IndexedDB for jsdom (used by the session repository)
+import 'fake-indexeddb/auto';
+
 // Register game modes before tests run
 import '../game/modes/earTrainingModes';
 import '../game/modes/noteTrainingModes';
+import '../game/modes/intervalTrainingModes';
+import '../game/modes/scaleTrainingModes';
+import '../game/modes/progressionTrainingModes';
+import '../game/modes/sightReadingModes';
+import '../game/modes/scaleDegreeModes';
+import '../game/modes/dictationModes';
+import '../game/modes/rhythmModes';
 
 // Extend Vitest's expect with jest-dom matchers
 expect.extend(matchers);
@@ -27,9 +37,18 @@ vi.mock('../utils/audioEngine', () => {
     audioEngine: {
       initialize: vi.fn().mockResolvedValue(undefined),
       playNote: vi.fn().mockResolvedValue(undefined),
+      playChordWithStyle: vi.fn(),
+      playNoteSequence: vi.fn(),
       releaseAllNotes: vi.fn(),
       stopAll: vi.fn(),
-      setInstrument: vi.fn()
+      setInstrument: vi.fn(),
+      setOutputMode: vi.fn(),
+      setMidiOutput: vi.fn(),
+      setMidiOutputSettings: vi.fn(),
+      loadSamples: vi.fn().mockResolvedValue(undefined),
+      getLoadState: vi.fn(() => ({ status: 'synth', loaded: 0, total: 0 })),
+      on: vi.fn(() => () => {}),
+      off: vi.fn()
     },
     AudioEngine: Object.assign(
       vi.fn().mockImplementation(() => ({
@@ -52,7 +71,11 @@ vi.mock('../utils/audioEngine', () => {
     InstrumentType: {
       SYNTH: 'synth',
       PIANO: 'piano',
-      FM: 'fm'
+      FM: 'fm',
+      MONO: 'mono',
+      RHODES: 'rhodes',
+      ORGAN: 'organ',
+      GUITAR: 'guitar'
     }
   };
 });
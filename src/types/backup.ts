@@ -0,0 +1,98 @@
+import type { AppSettings } from './settings';
+import type { GameSession } from './game';
+import type { SerializedStoredGuessAttempt } from './history';
+import type { CustomChordFilterPreset, CustomChordTypeDefinition } from './presets';
+import type {
+  ChordStatsStore,
+  NoteStatsStore,
+  ChordConfusionStore,
+  ReviewScheduleStore
+} from './stats';
+
+/**
+ * Game session as stored in localStorage and in backups.
+ * Dates are stored as ISO strings.
+ */
+export interface SerializedGameSession extends Omit<GameSession, 'timestamp'> {
+  timestamp: string; // ISO date string
+}
+
+/**
+ * Everything a backup carries. Each store is kept in its own storage format,
+ * or null if there was nothing stored when the backup was made.
+ */
+export interface UserDataBackupData {
+  gameHistory: SerializedGameSession[];
+  /** Answers given in the sessions; missing in backups from before guess history was kept */
+  guessAttempts: SerializedStoredGuessAttempt[];
+  chordStats: ChordStatsStore | null;
+  noteStats: NoteStatsStore | null;
+  chordConfusions: ChordConfusionStore | null;
+  reviewSchedule: ReviewScheduleStore | null;
+  appSettings: Partial<AppSettings> | null;
+  customPresets: CustomChordFilterPreset[];
+  /** User-defined chord types; missing in backups from before they could be defined */
+  customChordTypes: CustomChordTypeDefinition[];
+}
+
+/**
+ * A single-file backup of all user data.
+ */
+export interface UserDataBackup {
+  /** Identifies the file as a backup of this app */
+  format: string;
+
+  /** Backup schema version for migration support */
+  version: number;
+
+  /** ISO timestamp when the backup was made */
+  exportedAt: string;
+
+  data: UserDataBackupData;
+}
+
+/**
+ * How an imported backup is combined with the data already on this device.
+ * - merge: add imported sessions and stats to the existing ones, keep local settings
+ * - replace: discard local data and use the backup as is
+ */
+export type BackupImportMode = 'merge' | 'replace';
+
+/**
+ * What to do with an imported preset whose name is already taken (merge only).
+ * - skip: keep the local preset, drop the imported one
+ * - rename: import it under a free name such as "Jazz (2)"
+ * - overwrite: replace the local preset's filter and description
+ */
+export type PresetConflictStrategy = 'skip' | 'rename' | 'overwrite';
+
+export interface BackupImportOptions {
+  mode: BackupImportMode;
+  presetConflicts: PresetConflictStrategy;
+}
+
+/**
+ * What an import changed, for showing to the user.
+ */
+export interface BackupImportSummary {
+  sessionsImported: number;
+  settingsImported: boolean;
+  presetsImported: number;
+  presetsRenamed: number;
+  presetsOverwritten: number;
+  presetsSkipped: number;
+  chordTypesImported: number;
+  chordTypeConflicts: number;
+}
+
+/**
+ * What a backup contains, for showing before it is imported.
+ */
+export interface BackupContents {
+  sessions: number;
+  chords: number;
+  notes: number;
+  presets: number;
+  chordTypes: number;
+  hasSettings: boolean;
+}
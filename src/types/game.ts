@@ -1,8 +1,11 @@
 import React from 'react';
-import type { NoteWithOctave, ChordFilter, Chord } from './music';
-import { DEFAULT_CHORD_FILTER } from './music';
-import type { EarTrainingSubMode, NoteTrainingSubMode } from '../constants';
+import type { Note, NoteWithOctave, ChordFilter, Chord, ChordProgression, ScaleDegreeFragment, Melody, RhythmEvent, RhythmPattern, Meter, NoteDuration, Interval, IntervalDirection, Scale, ScaleType, ScaleFilter, ScalePlaybackDirection, StaffSystem, KeyContext } from './music';
+import { DEFAULT_CHORD_FILTER, DEFAULT_SCALE_FILTER } from './music';
+import type { EarTrainingSubMode, NoteTrainingSubMode, IntervalTrainingSubMode, ScaleTrainingSubMode, ProgressionTrainingSubMode, SightReadingSubMode, ScaleDegreeSubMode, MelodicDictationSubMode, RhythmSubMode } from '../constants';
 import { NOTE_TRAINING_SUB_MODES } from '../constants';
+import { DEFAULT_INTERVAL_SEMITONES } from '../constants/intervals';
+import { DEFAULT_PROGRESSION_IDS } from '../constants/progressions';
+import type { ChordPerformance } from './midi';
 
 export interface GuessAttempt {
   id: string;
@@ -10,6 +13,7 @@ export interface GuessAttempt {
   actualNote: NoteWithOctave;
   guessedNote: NoteWithOctave | null;
   isCorrect: boolean;
+  reactionTime?: number; // Milliseconds from the note being shown to the key press (Sight Reading)
 }
 
 export interface ChordGuessAttempt {
@@ -23,14 +27,110 @@ export interface ChordGuessAttempt {
   missedNotes?: NoteWithOctave[]; // For Chord Training
   incorrectNotes?: NoteWithOctave[]; // For Chord Training
   displayedNotes?: NoteWithOctave[]; // For Chord Identification (notes shown to user)
+  performance?: ChordPerformance; // For Chord Voicing (timing and velocity of the played chord)
+}
+
+export interface IntervalGuessAttempt {
+  id: string;
+  timestamp: Date;
+  actualInterval: Interval;
+  guessedSemitones: number | null; // null when skipped or timed out
+  guessedNote?: NoteWithOctave; // Present when answered by playing the second note
+  isCorrect: boolean;
+}
+
+export interface ScaleGuessAttempt {
+  id: string;
+  timestamp: Date;
+  actualScale: Scale;
+  guessedScaleType: ScaleType | null; // null when answered on the piano, skipped or timed out
+  playedNotes?: NoteWithOctave[]; // Notes played while reproducing the scale, if any
+  isCorrect: boolean;
+}
+
+export interface ProgressionGuessAttempt {
+  id: string;
+  timestamp: Date;
+  actualProgression: ChordProgression;
+  guessedNumerals: (string | null)[] | null; // null when skipped or timed out
+  positionResults: boolean[]; // Whether each chord position was answered correctly
+  isCorrect: boolean;
+}
+
+export interface ScaleDegreeGuessAttempt {
+  id: string;
+  timestamp: Date;
+  actualFragment: ScaleDegreeFragment;
+  guessedDegrees: (number | null)[] | null; // null when skipped or timed out
+  positionResults: boolean[]; // Whether each note's degree was answered correctly
+  isCorrect: boolean;
+}
+
+/** How one note of a dictated melody was entered, after lining the answer up with the melody */
+export type DictationNoteResult = 'correct' | 'wrong' | 'missed';
+
+export interface DictationGuessAttempt {
+  id: string;
+  timestamp: Date;
+  actualMelody: Melody;
+  enteredNotes: NoteWithOctave[] | null; // null when skipped or timed out
+  noteResults: DictationNoteResult[]; // Result for each note of the melody after alignment
+  extraNotes: number; // Entered notes that line up with no melody note
+  score: number; // Partial credit, 0-100
+  isCorrect: boolean;
+}
+
+/**
+ * How one note of a rhythm pattern was answered:
+ * - tapped: 'correct' within the tolerance window, 'early' or 'late' outside it, or 'missed'
+ * - notated: 'correct', 'wrong' or 'missed'
+ */
+export type RhythmEventResult = 'correct' | 'early' | 'late' | 'wrong' | 'missed';
+
+/** Whether rhythms are tapped back or notated by picking note values */
+export type RhythmAnswerMethod = 'tap' | 'notate';
+
+export interface RhythmGuessAttempt {
+  id: string;
+  timestamp: Date;
+  actualPattern: RhythmPattern;
+  answerMethod: RhythmAnswerMethod;
+  taps: number[] | null; // Milliseconds from the first tap; null when not tapped
+  notatedEvents: RhythmEvent[] | null; // null when not notated
+  eventResults: RhythmEventResult[]; // Per note when tapped, per note or rest when notated
+  extraEvents: number; // Taps or notated events that line up with nothing in the pattern
+  meanOffset: number | null; // Average tap offset in milliseconds, negative when rushing
+  score: number; // Partial credit, 0-100
+  isCorrect: boolean;
 }
 
 export type GuessResult = 'correct' | 'wrong' | 'partial';
 
-export type ModeType = EarTrainingSubMode | NoteTrainingSubMode;
+export type ModeType = EarTrainingSubMode | NoteTrainingSubMode | IntervalTrainingSubMode | ScaleTrainingSubMode | ProgressionTrainingSubMode | SightReadingSubMode | ScaleDegreeSubMode | MelodicDictationSubMode | RhythmSubMode;
+
+/**
+ * Tonal context played before an ear-training challenge so the note can be
+ * heard relative to it:
+ * - 'reference-a' / 'reference-c': a single A4 or C4
+ * - 'cadence': I-IV-V-I (i-iv-V-i in minor) in the priming key
+ */
+export type PrimingType = 'reference-a' | 'reference-c' | 'cadence';
+
+/**
+ * When the priming plays: never, once before the first round of a session,
+ * before every round, or only when asked for with the shortcut
+ */
+export type PrimingFrequency = 'off' | 'session' | 'round' | 'on-demand';
+
+export interface PrimingSettings {
+  type: PrimingType;
+  frequency: PrimingFrequency;
+  key: KeyContext; // Key of the cadence
+}
 
 export interface RushModeSettings {
   targetNotes: number; // Number of correct notes to hit
+  priming?: PrimingSettings;
 }
 
 export interface SurvivalModeSettings {
@@ -38,6 +138,7 @@ export interface SurvivalModeSettings {
   healthDrainRate: number; // Health lost per second
   healthRecovery: number; // Health gained per correct note
   healthDamage: number; // Health lost per wrong note
+  priming?: PrimingSettings;
 }
 
 export interface SandboxModeSettings {
@@ -45,6 +146,7 @@ export interface SandboxModeSettings {
   targetAccuracy?: number; // Optional accuracy target
   targetStreak?: number; // Optional streak target
   targetNotes?: number; // Optional notes target
+  priming?: PrimingSettings;
 }
 
 /**
@@ -63,6 +165,121 @@ export interface NoteTrainingModeSettings {
   targetChords?: number;
   /** Optional goal for consecutive correct answers */
   targetStreak?: number;
+  /** Milliseconds within which all notes of a played chord must start (Chord Voicing) */
+  onsetWindow?: number;
+}
+
+/**
+ * Settings shared by the interval recognition modes (ascending, descending, harmonic)
+ */
+export interface IntervalModeSettings {
+  /** Interval sizes (in semitones) that can be asked */
+  enabledIntervals: number[];
+  /** Number of correct answers needed to complete the session */
+  targetIntervals: number;
+}
+
+/**
+ * Settings for Scale Identification mode
+ */
+export interface ScaleModeSettings {
+  /** Configuration for which scales can be asked */
+  scaleFilter: ScaleFilter;
+  /** Whether scales are played ascending, descending or up and back down */
+  playbackDirection: ScalePlaybackDirection;
+  /** Number of correct answers needed to complete the session */
+  targetScales: number;
+}
+
+/**
+ * Settings for Chord Progression mode
+ */
+export interface ProgressionModeSettings {
+  /** Ids of the cadences and progressions that can be asked (see constants/progressions) */
+  enabledProgressions: string[];
+  /** Keys to play progressions in, or null for any key */
+  keyRoots: Note[] | null;
+  /** Play seventh chords instead of triads */
+  useSeventhChords: boolean;
+  /** Number of correct answers needed to complete the session */
+  targetProgressions: number;
+}
+
+/**
+ * Settings for Sight Reading mode
+ */
+export interface SightReadingModeSettings {
+  /** Staff the notes are written on: a single clef or the grand staff */
+  staff: StaffSystem;
+  /** Most ledger lines a written note may need (0 keeps every note on the staff) */
+  maxLedgerLines: number;
+  /** Whether single notes or triads are written */
+  challengeType: 'note' | 'chord';
+  /** Number of notes or chords to play correctly to complete the session */
+  targetNotes: number;
+}
+
+/**
+ * How scale degrees are named: numbers (1, ♭3, ♯4) or movable-do solfège (do, me, fi)
+ */
+export type ScaleDegreeLabels = 'numbers' | 'solfege';
+
+/**
+ * Settings for Scale Degree mode
+ */
+export interface ScaleDegreeModeSettings {
+  /** Keys to establish, or null for any key */
+  keyRoots: Note[] | null;
+  /** Whether the key is major or minor */
+  scale: 'major' | 'minor';
+  /** Ask the five chromatic degrees as well as the seven diatonic ones */
+  includeChromatic: boolean;
+  /** Notes played per round (1 plays a single note) */
+  fragmentLength: number;
+  /** Whether answers are given as numbers or solfège */
+  answerLabels: ScaleDegreeLabels;
+  /** Number of correct answers needed to complete the session */
+  targetRounds: number;
+}
+
+/**
+ * Settings for Melodic Dictation mode
+ *
+ * The note filter's octave range bounds the melodies; the key decides which notes are used.
+ */
+export interface DictationModeSettings {
+  /** Keys to write melodies in, or null for any key */
+  keyRoots: Note[] | null;
+  /** Whether melodies are major or minor */
+  scale: 'major' | 'minor';
+  /** Notes per melody (3-12) */
+  melodyLength: number;
+  /** Largest jump between neighbouring notes, in scale steps (1 keeps melodies stepwise) */
+  maxLeap: number;
+  /** Number of melodies to write down correctly to complete the session */
+  targetMelodies: number;
+}
+
+/**
+ * Settings for the rhythm modes (Tap Along and Rhythm Dictation)
+ */
+export interface RhythmModeSettings {
+  /** Time signature of the patterns */
+  meter: Meter;
+  /** Measures per pattern (1-4) */
+  measures: number;
+  /** Playback tempo in beats per minute; taps are timed against it */
+  tempo: number;
+  /** Note values patterns are built from */
+  durations: NoteDuration[];
+  /** Whether patterns may contain rests */
+  includeRests: boolean;
+  /** Milliseconds a tap may be off and still count as on time */
+  tolerance: number;
+  /** Whether a measure of clicks is played before the pattern */
+  countIn: boolean;
+  /** Number of patterns to answer correctly to complete the session */
+  targetPatterns: number;
 }
 
 export interface ModeSettings {
@@ -71,6 +288,13 @@ export interface ModeSettings {
   survival: SurvivalModeSettings;
   sandbox: SandboxModeSettings;
   noteTraining: NoteTrainingModeSettings;
+  interval: IntervalModeSettings;
+  scale: ScaleModeSettings;
+  progression: ProgressionModeSettings;
+  sightReading: SightReadingModeSettings;
+  scaleDegree: ScaleDegreeModeSettings;
+  dictation: DictationModeSettings;
+  rhythm: RhythmModeSettings;
 }
 
 export interface StatItem {
@@ -163,6 +387,20 @@ export interface InversionStatsAggregate {
   byInversion: Record<number, InversionStats>;
 }
 
+/**
+ * Averages of the chords played in a Chord Voicing session.
+ */
+export interface ChordPerformanceStats {
+  /** Mean milliseconds between the first and last note of each chord */
+  averageTimingSpread: number;
+  /** Mean velocity balance (0-100) */
+  averageVelocityBalance: number;
+  /** Mean voicing accuracy (0-100) */
+  averageVoicingAccuracy: number;
+  /** Percentage of chords whose notes all started within the onset window */
+  simultaneousRate: number;
+}
+
 /**
  * Serialized chord guess attempt for history tracking.
  * Simplified version of ChordGuessAttempt for localStorage storage.
@@ -179,6 +417,10 @@ export interface SerializedChordGuessAttempt {
   correctNotesCount?: number;
   missedNotesCount?: number;
   incorrectNotesCount?: number;
+  // For Chord Voicing mode (played on a MIDI keyboard)
+  timingSpread?: number;
+  velocityBalance?: number;
+  voicingAccuracy?: number;
   // For ChordIdentification mode (Show Notes, Guess Chord)
   guessedChordName?: string;
 }
@@ -200,6 +442,123 @@ export interface NoteTrainingSessionResults {
   subMode: NoteTrainingSubMode;
   // Inversion-specific statistics (only present when inversions were enabled)
   inversionStats?: InversionStatsAggregate;
+  // Performance statistics (only present when chords were played on a MIDI keyboard)
+  performanceStats?: ChordPerformanceStats;
+}
+
+/**
+ * Session results for the interval recognition modes.
+ */
+export interface IntervalSessionResults {
+  intervalsCompleted: number;
+  longestStreak: number;
+  averageTimePerInterval: number;
+  accuracy: number;
+  direction: IntervalDirection;
+  // Per-interval accuracy keyed by interval name (e.g., "Perfect 5th")
+  intervalStats: Record<string, { attempts: number; correct: number; accuracy: number }>;
+}
+
+/**
+ * Session results for Scale Identification mode.
+ */
+export interface ScaleSessionResults {
+  scalesCompleted: number;
+  longestStreak: number;
+  averageTimePerScale: number;
+  accuracy: number;
+  playbackDirection: ScalePlaybackDirection;
+  // Per-scale-type accuracy keyed by scale name (e.g., "Dorian")
+  scaleTypeStats: Record<string, { attempts: number; correct: number; accuracy: number }>;
+}
+
+/**
+ * Session results for Chord Progression mode.
+ */
+export interface ProgressionSessionResults {
+  progressionsCompleted: number;
+  longestStreak: number;
+  averageTimePerProgression: number;
+  accuracy: number;
+  // Accuracy for each chord position (index 0 is the first chord of a progression)
+  positionStats: { attempts: number; correct: number; accuracy: number }[];
+  // Per-progression accuracy keyed by progression name (e.g., "ii-V-I")
+  progressionStats: Record<string, { attempts: number; correct: number; accuracy: number }>;
+}
+
+/**
+ * Session results for Scale Degree mode.
+ */
+export interface ScaleDegreeSessionResults {
+  roundsCompleted: number;
+  longestStreak: number;
+  averageTimePerRound: number;
+  accuracy: number;
+  scale: 'major' | 'minor';
+  // Per-degree accuracy across all keys, keyed by degree number (e.g., "♭3")
+  degreeStats: Record<string, { attempts: number; correct: number; accuracy: number }>;
+}
+
+/**
+ * Session results for Melodic Dictation mode.
+ */
+export interface DictationSessionResults {
+  melodiesCompleted: number;
+  longestStreak: number;
+  averageTimePerMelody: number;
+  accuracy: number;
+  // Mean partial credit of every scored attempt, 0-100
+  averageScore: number;
+  // Accuracy for each note position (index 0 is the first note of a melody)
+  positionStats: { attempts: number; correct: number; accuracy: number }[];
+  // One entry per melody asked, in order
+  melodyResults: {
+    key: string; // e.g., "F major"
+    notes: string[]; // e.g., ["F4", "A4", "B♭4"]
+    attempts: number;
+    bestScore: number;
+    solved: boolean;
+  }[];
+}
+
+/**
+ * Session results for the rhythm modes.
+ */
+export interface RhythmSessionResults {
+  patternsCompleted: number;
+  longestStreak: number;
+  averageTimePerPattern: number;
+  accuracy: number;
+  answerMethod: RhythmAnswerMethod;
+  // Mean partial credit of every scored attempt, 0-100
+  averageScore: number;
+  // Average tap offset in milliseconds (negative is rushing, positive is dragging); null when nothing was tapped
+  averageOffset: number | null;
+  // How every note was answered across all attempts
+  resultCounts: Record<RhythmEventResult, number>;
+  // One entry per pattern asked, in order
+  patternResults: {
+    meter: Meter;
+    rhythm: string; // e.g., "♩ ♪ ♪ 𝅗𝅥 | 𝅝"
+    attempts: number;
+    bestScore: number;
+    solved: boolean;
+  }[];
+}
+
+/**
+ * Session results for Sight Reading mode.
+ */
+export interface SightReadingSessionResults {
+  notesCompleted: number;
+  longestStreak: number;
+  averageTimePerNote: number;
+  accuracy: number;
+  staff: StaffSystem;
+  // Average milliseconds from a note being shown to the right key being pressed
+  averageReactionTime: number;
+  // Per-note accuracy and reaction time keyed by written note (e.g., "F#5")
+  noteStats: Record<string, { attempts: number; correct: number; accuracy: number; averageReactionTime: number }>;
 }
 
 export interface GameSession {
@@ -221,22 +580,31 @@ export interface GameStats {
   correctAttempts: number;
 }
 
+export const DEFAULT_PRIMING_SETTINGS: PrimingSettings = {
+  type: 'cadence',
+  frequency: 'off',
+  key: { key: 'C', scale: 'major' }
+};
+
 export const DEFAULT_MODE_SETTINGS: ModeSettings = {
   selectedMode: 'sandbox',
   rush: {
-    targetNotes: 10
+    targetNotes: 10,
+    priming: DEFAULT_PRIMING_SETTINGS
   },
   survival: {
     sessionDuration: 1, // 1 minute
     healthDrainRate: 2, // 2 health per second
     healthRecovery: 15, // 15 health per correct note
-    healthDamage: 25 // 25 health per wrong note
+    healthDamage: 25, // 25 health per wrong note
+    priming: DEFAULT_PRIMING_SETTINGS
   },
   sandbox: {
     sessionDuration: 5 / 60, // 5 seconds (converted to minutes)
     targetAccuracy: 80,
     targetStreak: 10,
-    targetNotes: 20
+    targetNotes: 20,
+    priming: DEFAULT_PRIMING_SETTINGS
   },
   noteTraining: {
     selectedSubMode: NOTE_TRAINING_SUB_MODES.SHOW_CHORD_GUESS_NOTES,
@@ -244,6 +612,53 @@ export const DEFAULT_MODE_SETTINGS: ModeSettings = {
     sessionDuration: 300, // 5 minutes in seconds
     targetAccuracy: 80,
     targetStreak: 10,
-    targetChords: 20
+    targetChords: 20,
+    onsetWindow: 80
+  },
+  interval: {
+    enabledIntervals: DEFAULT_INTERVAL_SEMITONES,
+    targetIntervals: 20
+  },
+  scale: {
+    scaleFilter: DEFAULT_SCALE_FILTER,
+    playbackDirection: 'ascending',
+    targetScales: 10
+  },
+  progression: {
+    enabledProgressions: DEFAULT_PROGRESSION_IDS,
+    keyRoots: null,
+    useSeventhChords: false,
+    targetProgressions: 10
+  },
+  sightReading: {
+    staff: 'treble',
+    maxLedgerLines: 1,
+    challengeType: 'note',
+    targetNotes: 20
+  },
+  scaleDegree: {
+    keyRoots: null,
+    scale: 'major',
+    includeChromatic: false,
+    fragmentLength: 1,
+    answerLabels: 'numbers',
+    targetRounds: 20
+  },
+  dictation: {
+    keyRoots: null,
+    scale: 'major',
+    melodyLength: 4,
+    maxLeap: 2,
+    targetMelodies: 10
+  },
+  rhythm: {
+    meter: '4/4',
+    measures: 1,
+    tempo: 80,
+    durations: ['2n', '4n', '8n'],
+    includeRests: false,
+    tolerance: 100,
+    countIn: true,
+    targetPatterns: 10
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,97 @@
+import type { GameSession } from './game';
+import type { NoteWithOctave } from './music';
+
+/**
+ * Game session as stored in the session repository.
+ */
+export interface StoredGameSession extends GameSession {
+  /** Unique per session: mode and timestamp, e.g. "rush|1767261600000" */
+  id: string;
+
+  /** Note Training sub-mode from the results, or the mode itself for other sessions */
+  subMode: string;
+}
+
+/**
+ * A single answer within a stored session.
+ * Note attempts carry actualNote/guessedNote, chord attempts carry chordName.
+ */
+export interface StoredGuessAttempt {
+  /** Session id and the attempt's own id, e.g. "rush|1767261600000|attempt-3" */
+  id: string;
+  sessionId: string;
+  mode: string;
+  timestamp: Date;
+  isCorrect: boolean;
+
+  /** Played note, for single-note attempts */
+  actualNote?: NoteWithOctave;
+
+  /** Guessed note, or null for a timeout */
+  guessedNote?: NoteWithOctave | null;
+
+  /** Played chord, for chord attempts */
+  chordName?: string;
+
+  /** Guessed chord, for Show Notes → Guess Chord attempts */
+  guessedChordName?: string;
+
+  /** Share of notes found, for Show Chord → Guess Notes attempts (0-100) */
+  accuracy?: number;
+
+  /** 0 = root position, 1+ = inversions */
+  inversion?: number;
+}
+
+/**
+ * Guess attempt as stored in backups. Dates are stored as ISO strings.
+ */
+export interface SerializedStoredGuessAttempt extends Omit<StoredGuessAttempt, 'timestamp'> {
+  timestamp: string; // ISO date string
+}
+
+/**
+ * Paging shared by session and attempt queries. Results are always newest first.
+ */
+export interface HistoryPage {
+  /** Number of matching records to skip (default: 0) */
+  offset?: number;
+
+  /** Maximum number of records to return (default: unlimited) */
+  limit?: number;
+}
+
+/**
+ * Filters for session queries. All given filters must match.
+ */
+export interface SessionQuery extends HistoryPage {
+  /** Mode, or any of several modes */
+  mode?: string | string[];
+  subMode?: string;
+
+  /** Only sessions at or after this time */
+  from?: Date;
+
+  /** Only sessions at or before this time */
+  to?: Date;
+
+  /** Only sessions with at least one attempt at this chord */
+  chordName?: string;
+
+  /** Extra condition checked on each session the indexes let through */
+  where?: (session: StoredGameSession) => boolean;
+}
+
+/**
+ * Filters for attempt queries. All given filters must match.
+ */
+export interface AttemptQuery extends HistoryPage {
+  sessionId?: string;
+  mode?: string;
+  chordName?: string;
+  from?: Date;
+  to?: Date;
+
+  /** Extra condition checked on each answer the indexes let through */
+  where?: (attempt: StoredGuessAttempt) => boolean;
+}
@@ -22,10 +22,32 @@ export interface MidiDeviceInfo {
   name: string;
   /** Device connection state */
   state: 'connected' | 'disconnected';
-  /** Device type (always 'input' for our use case) */
+  /** Device type: 'input' for keyboards, 'output' for synths and DAWs played through */
   type: 'input' | 'output';
 }
 
+/**
+ * The parts of a Web MIDI port that MidiManager reads to describe it.
+ * Real MIDIInput and MIDIOutput ports match it.
+ */
+export interface MidiPort {
+  id: string;
+  manufacturer: string | null;
+  name: string | null;
+  state: MIDIPortDeviceState;
+  type: MIDIPortType;
+}
+
+/**
+ * An input port MidiManager can listen to: a real MIDIInput, or a
+ * VirtualMidiInput that plays scripted messages
+ */
+export interface MidiInputPort extends MidiPort {
+  connection: MIDIPortConnectionState;
+  onmidimessage: ((event: MIDIMessageEvent) => void) | null;
+  open(): Promise<unknown>;
+}
+
 /**
  * Parsed MIDI note event with musical context
  */
@@ -38,6 +60,128 @@ export interface MidiNoteEvent {
   velocity: number;
   /** Timestamp from MIDI event */
   timestamp: number;
+  /** MIDI channel the note was played on (1-16) */
+  channel?: number;
+}
+
+/**
+ * Control change (CC) message, e.g. a pedal, modulation wheel or slider
+ */
+export interface MidiControlChangeEvent {
+  /** Controller number (0-127), e.g. 64 for the sustain pedal */
+  controller: number;
+  /** Controller value (0-127) */
+  value: number;
+  /** MIDI channel (1-16) */
+  channel: number;
+  /** Timestamp from MIDI event */
+  timestamp: number;
+}
+
+/**
+ * Pitch bend wheel position
+ */
+export interface MidiPitchBendEvent {
+  /** Raw 14-bit bend relative to the centre (-8192 to 8191) */
+  value: number;
+  /** Bend scaled to -1 (fully down) to 1 (fully up), 0 at rest */
+  bend: number;
+  /** MIDI channel (1-16) */
+  channel: number;
+  /** Timestamp from MIDI event */
+  timestamp: number;
+}
+
+/**
+ * Pedals that keep released notes held:
+ * - 'sustain' (CC64): every sounding note keeps sounding while it is down
+ * - 'sostenuto' (CC66): only notes held when it went down keep sounding
+ */
+export type MidiPedal = 'sustain' | 'sostenuto';
+
+/**
+ * A sustain or sostenuto pedal going down or coming up
+ */
+export interface MidiPedalEvent {
+  pedal: MidiPedal;
+  isDown: boolean;
+  /** MIDI channel (1-16) */
+  channel: number;
+  /** Timestamp from MIDI event */
+  timestamp: number;
+}
+
+/**
+ * How MidiManager interprets incoming messages
+ */
+export interface MidiInputOptions {
+  /** Only accept messages on this channel (1-16); null accepts every channel */
+  channel: number | null;
+  /** Whether sustain and sostenuto pedals keep released notes held */
+  pedals: boolean;
+}
+
+/**
+ * Game actions a controller button, pad or pedal can be mapped to
+ */
+export type MidiAction = 'replay' | 'submit' | 'next' | 'clear' | 'pause' | 'start';
+
+/**
+ * A message that triggers an action: a note, a controller (CC) or a program
+ * change with a given number on a given channel
+ */
+export interface MidiBinding {
+  type: 'note' | 'controlChange' | 'programChange';
+  /** Note, controller or program number (0-127) */
+  number: number;
+  /** MIDI channel (1-16) */
+  channel: number;
+}
+
+/**
+ * Actions mapped to the controls of one device
+ */
+export type MidiActionBindings = Partial<Record<MidiAction, MidiBinding>>;
+
+/**
+ * A control that can be mapped being pressed: a note on, a controller
+ * going past halfway or a program change
+ */
+export interface MidiBindingEvent {
+  /** ID of the input the message came from */
+  deviceId: string;
+  binding: MidiBinding;
+  /** Timestamp from MIDI event */
+  timestamp: number;
+}
+
+/**
+ * A mapped control being pressed
+ */
+export interface MidiActionEvent {
+  action: MidiAction;
+  /** ID of the input the message came from */
+  deviceId: string;
+  /** Timestamp from MIDI event */
+  timestamp: number;
+}
+
+/**
+ * A message a virtual input sends at a point in a script
+ */
+export interface MidiScriptEvent {
+  /** Milliseconds from the start of the script */
+  time: number;
+  /** Message bytes, e.g. [0x90, 60, 100] for a middle C note on */
+  data: number[];
+}
+
+/**
+ * Timed messages for a virtual input to play, e.g. a recorded practice session
+ */
+export interface MidiScript {
+  name?: string;
+  events: MidiScriptEvent[];
 }
 
 /**
@@ -69,16 +213,55 @@ export interface MidiError {
 export interface MidiManagerEvents {
   /** Emitted when a MIDI note on event is received */
   noteOn: MidiNoteEvent;
-  /** Emitted when a MIDI note off event is received */
+  /**
+   * Emitted when a note stops sounding: when its key is released, or with
+   * pedals enabled, when the pedal holding it comes up
+   */
   noteOff: MidiNoteEvent;
+  /** Emitted when a control change message is received, pedals included */
+  controlChange: MidiControlChangeEvent;
+  /** Emitted when the pitch bend wheel moves */
+  pitchBend: MidiPitchBendEvent;
+  /** Emitted when the sustain or sostenuto pedal goes down or comes up */
+  pedalChange: MidiPedalEvent;
+  /** Emitted when a control that could be mapped to an action is pressed, e.g. for MIDI learn */
+  controlPressed: MidiBindingEvent;
+  /**
+   * Emitted when a control mapped to an action is pressed. Mapped messages
+   * are not passed on as notes, controllers or pedals.
+   */
+  action: MidiActionEvent;
   /** Emitted when any MIDI message is received */
   message: { data: Uint8Array; timestamp: number };
   /** Emitted when a MIDI device is connected */
   deviceConnected: MidiDeviceInfo;
   /** Emitted when a MIDI device is disconnected */
   deviceDisconnected: MidiDeviceInfo;
+  /** Emitted when a MIDI output device is connected */
+  outputConnected: MidiDeviceInfo;
+  /** Emitted when a MIDI output device is disconnected */
+  outputDisconnected: MidiDeviceInfo;
   /** Emitted when connection status changes */
   statusChange: MidiConnectionStatus;
   /** Emitted when an error occurs */
   error: MidiError;
 }
+
+/**
+ * Analysis of a chord played on a MIDI keyboard, built from the note on
+ * events of one attempt
+ */
+export interface ChordPerformance {
+  /** Notes pressed during the attempt, in the order they were pressed */
+  playedNotes: NoteWithOctave[];
+  /** Milliseconds between the first and last note on */
+  timingSpread: number;
+  /** Whether every note was pressed within the onset window */
+  isSimultaneous: boolean;
+  /** Evenness of the note velocities (0-100, 100 = all notes equally loud) */
+  velocityBalance: number;
+  /** Mean note velocity (0-127) */
+  averageVelocity: number;
+  /** Percentage of the chord's notes played at their written pitch (0-100) */
+  voicingAccuracy: number;
+}
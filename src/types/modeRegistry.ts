@@ -31,7 +31,7 @@ export interface ModeMetadata {
 
   /**
    * Key in ModeSettings object where this mode's settings are stored
-   * e.g., 'rush', 'survival', 'sandbox', 'noteTraining'
+   * e.g., 'rush', 'survival', 'sandbox', 'noteTraining', 'interval', 'scale', 'progression', 'sightReading', 'scaleDegree', 'dictation', 'rhythm'
    */
   settingsKey: keyof Omit<ModeSettings, 'selectedMode'>;
 
@@ -1,3 +1,5 @@
+import type { MidiActionBindings } from './midi';
+
 export type Note = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B';
 
 export type Octave = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
@@ -82,7 +84,13 @@ export const ChordType = {
   MINOR_ADD9: 'minorAdd9',
 } as const;
 
-export type ChordType = typeof ChordType[keyof typeof ChordType];
+/** Chord types that ship with the app */
+export type BuiltInChordType = typeof ChordType[keyof typeof ChordType];
+
+/** Id of a chord type defined by the user (see CustomChordTypeDefinition) */
+export type CustomChordTypeId = `custom-${string}`;
+
+export type ChordType = BuiltInChordType | CustomChordTypeId;
 
 export interface PracticeSettings {
   mode: PracticeMode;
@@ -112,6 +120,26 @@ export interface NoteFilter {
   allowedNotes?: Note[];
 }
 
+/**
+ * A key and mode, used to restrict chords and scales to a key and to decide
+ * how notes are spelled (e.g., B♭ rather than A# in F major).
+ */
+export interface KeyContext {
+  key: Note;
+  scale: 'major' | 'minor';
+}
+
+/**
+ * A clef a staff can be written in
+ */
+export type Clef = 'treble' | 'bass' | 'alto';
+
+/**
+ * The staves notes are written on: a single clef, or the treble and bass
+ * grand staff (middle C and above on the treble staff)
+ */
+export type StaffSystem = Clef | 'grand';
+
 /**
  * Represents a musical chord with all its component notes
  */
@@ -132,6 +160,156 @@ export interface Chord {
   inversion?: number;
 }
 
+/**
+ * Represents a chord progression in a specific key
+ */
+export interface ChordProgression {
+  /** The name of the progression (e.g., "ii-V-I") */
+  name: string;
+
+  /** The tonic of the key the progression is played in */
+  key: Note;
+
+  /** Whether the progression is in a major or minor key */
+  keyType: 'major' | 'minor';
+
+  /** Roman numeral for each chord (e.g., ["ii", "V", "I"]) */
+  numerals: string[];
+
+  /** The chords to play, in order */
+  chords: Chord[];
+}
+
+/**
+ * A note or short melody to identify by scale degree, heard in a key
+ */
+export interface ScaleDegreeFragment {
+  /** The key established with a cadence before the melody plays */
+  key: KeyContext;
+
+  /** The notes to play, in order */
+  notes: NoteWithOctave[];
+
+  /** Semitones above the tonic for each note (0-11), e.g. 3 for ♭3 */
+  degrees: number[];
+}
+
+/**
+ * A melody in a key, written down by ear in melodic dictation
+ */
+export interface Melody {
+  /** The key the melody's notes are taken from */
+  key: KeyContext;
+
+  /** The notes to play, in order */
+  notes: NoteWithOctave[];
+}
+
+// Interval playback directions
+export const IntervalDirection = {
+  ASCENDING: 'ascending',
+  DESCENDING: 'descending',
+  HARMONIC: 'harmonic'
+} as const;
+
+export type IntervalDirection = typeof IntervalDirection[keyof typeof IntervalDirection];
+
+/**
+ * Represents a two-note interval challenge
+ */
+export interface Interval {
+  /** The note heard first (the lower note for harmonic intervals) */
+  firstNote: NoteWithOctave;
+
+  /** The note heard second (the upper note for harmonic intervals) */
+  secondNote: NoteWithOctave;
+
+  /** Distance between the two notes in semitones (always positive) */
+  semitones: number;
+
+  /** How the two notes are played */
+  direction: IntervalDirection;
+}
+
+// Scale type definitions
+export const ScaleType = {
+  // Major and minor scales
+  MAJOR: 'major',
+  NATURAL_MINOR: 'naturalMinor',
+  HARMONIC_MINOR: 'harmonicMinor',
+  MELODIC_MINOR: 'melodicMinor',
+
+  // Church modes
+  IONIAN: 'ionian',
+  DORIAN: 'dorian',
+  PHRYGIAN: 'phrygian',
+  LYDIAN: 'lydian',
+  MIXOLYDIAN: 'mixolydian',
+  AEOLIAN: 'aeolian',
+  LOCRIAN: 'locrian',
+
+  // Pentatonic and blues scales
+  MAJOR_PENTATONIC: 'majorPentatonic',
+  MINOR_PENTATONIC: 'minorPentatonic',
+  BLUES: 'blues',
+
+  // Symmetric scales
+  WHOLE_TONE: 'wholeTone',
+  DIMINISHED_WHOLE_HALF: 'diminishedWholeHalf',
+  DIMINISHED_HALF_WHOLE: 'diminishedHalfWhole',
+} as const;
+
+export type ScaleType = typeof ScaleType[keyof typeof ScaleType];
+
+/**
+ * Represents a scale played from its root up to the root an octave higher
+ */
+export interface Scale {
+  /** The full name of the scale (e.g., "D Dorian", "A Harmonic Minor") */
+  name: string;
+
+  /** The root note of the scale */
+  root: Note;
+
+  /** The type of scale (major, dorian, blues, etc.) */
+  type: ScaleType;
+
+  /** The notes of the scale in ascending order, ending on the octave of the root */
+  notes: NoteWithOctave[];
+}
+
+/**
+ * Direction(s) in which a scale is played back in Scale Identification
+ */
+export type ScalePlaybackDirection = 'ascending' | 'descending' | 'both';
+
+/**
+ * Filter configuration for controlling which scales appear in Scale Identification.
+ * Mirrors ChordFilter so scales can be narrowed the same way chords are.
+ */
+export interface ScaleFilter {
+  /** List of allowed scale types (e.g., major, dorian, blues) */
+  allowedScaleTypes: ScaleType[];
+
+  /**
+   * Allowed root notes for scales.
+   * Set to null to allow all 12 chromatic notes.
+   */
+  allowedRootNotes: Note[] | null;
+
+  /**
+   * Octaves where the scale root can appear.
+   * Example: [3, 4] allows scales starting in octaves 3-4.
+   */
+  allowedOctaves: number[];
+
+  /**
+   * Optional filter to restrict scale roots to the notes of a key.
+   * Example: { key: 'C', scale: 'major' } with the church modes gives the modes of C major.
+   */
+  keyFilter?: KeyContext;
+}
+
 /**
  * Filter configuration for controlling which chords appear in Note Training.
  * Similar to NoteFilter but designed for chord selection.
@@ -167,33 +345,120 @@ export interface ChordFilter {
    * Useful for diatonic chord training.
    * Example: { key: 'C', scale: 'major' } for chords in C major.
    */
-  keyFilter?: {
-    key: Note;
-    scale: 'major' | 'minor';
-  };
+  keyFilter?: KeyContext;
 }
 
 export type NoteDuration = '8n' | '4n' | '2n' | '1n';
 
+/** Time signatures rhythm patterns are written in, all counted in quarter-note beats */
+export type Meter = '2/4' | '3/4' | '4/4';
+
+/**
+ * One note or rest of a rhythm pattern
+ */
+export interface RhythmEvent {
+  duration: NoteDuration;
+  isRest: boolean;
+}
+
+/**
+ * A rhythm pattern of whole measures, tapped back or notated in rhythm training
+ */
+export interface RhythmPattern {
+  meter: Meter;
+
+  /** Notes and rests in order; every measure is filled exactly */
+  events: RhythmEvent[];
+}
+
+/**
+ * How the notes of a chord are played:
+ * - 'block': all notes at once
+ * - 'arpeggio-up' / 'arpeggio-down': one note at a time from the bottom or top
+ * - 'arpeggio-up-down': up to the top note and back down
+ * - 'broken': bass note, then the upper notes alternating with the top note (C-G-E-G)
+ * - 'bass-then-chord': bass note alone, then the rest of the chord together
+ */
+export type ChordPlaybackStyle =
+  | 'block'
+  | 'arpeggio-up'
+  | 'arpeggio-down'
+  | 'arpeggio-up-down'
+  | 'broken'
+  | 'bass-then-chord';
+
+/** Time between the notes of a broken chord as a note value at the playback tempo */
+export type NoteSpacing = '4n' | '8n' | '16n';
+
+export interface ChordPlaybackSettings {
+  style: ChordPlaybackStyle;
+  tempo: number; // beats per minute
+  noteSpacing: NoteSpacing;
+}
+
 export const InstrumentType = {
   SYNTH: 'synth',
   PIANO: 'piano',
   FM: 'fm',
-  MONO: 'mono'
+  MONO: 'mono',
+  RHODES: 'rhodes',
+  ORGAN: 'organ',
+  GUITAR: 'guitar'
 } as const;
 
 export type InstrumentType = typeof InstrumentType[keyof typeof InstrumentType];
 
+/**
+ * Loading status of a sampled instrument:
+ * - 'synth': samples not requested yet, a synthesizer plays in their place
+ * - 'loading': sample files are downloading
+ * - 'loaded': the instrument plays its samples
+ * - 'failed': samples couldn't be loaded, the synthesizer keeps playing
+ */
+export type InstrumentLoadStatus = 'synth' | 'loading' | 'loaded' | 'failed';
+
+export interface InstrumentLoadState {
+  status: InstrumentLoadStatus;
+  loaded: number; // Sample files downloaded so far
+  total: number; // Sample files in the instrument's sample set
+}
+
+/**
+ * Where challenge notes, chords and cadences are played:
+ * - 'internal': the built-in instruments
+ * - 'midi': the selected MIDI output (built-in instruments while no output is connected)
+ * - 'both': the built-in instruments and the MIDI output together
+ */
+export type AudioOutputMode = 'internal' | 'midi' | 'both';
+
+export interface MidiOutputSettings {
+  deviceId?: string; // Selected MIDI output device ID (optional)
+  channel: number; // 1-16
+  velocity: number; // 1-127
+  program: number | null; // General MIDI program 0-127 sent on connect, null = keep the device's sound
+}
+
+export interface MidiInputSettings {
+  extraDeviceIds: string[]; // Inputs listened to alongside midiDeviceId
+  channel: number | null; // Only accept this channel (1-16), null = every channel
+  pedals: boolean; // Sustain and sostenuto keep released notes held
+  bindings: Record<string, MidiActionBindings>; // Controls mapped to game actions, by input device ID
+}
+
 export interface AudioSettings {
   volume: number; // 0-100
   instrument: InstrumentType;
   midiDeviceId?: string; // Selected MIDI input device ID (optional)
+  midiInput: MidiInputSettings;
+  output: AudioOutputMode;
+  midiOutput: MidiOutputSettings;
 }
 
 export interface TimingSettings {
   responseTimeLimit: number | null; // seconds, null = unlimited
   autoAdvanceSpeed: number; // seconds
   noteDuration: NoteDuration;
+  chordPlayback: ChordPlaybackSettings;
 }
 
 
@@ -203,15 +468,38 @@ export const DEFAULT_NOTE_FILTER: NoteFilter = {
   allowedNotes: ['C'] // Only C for easier debugging
 };
 
+export const DEFAULT_MIDI_OUTPUT_SETTINGS: MidiOutputSettings = {
+  channel: 1,
+  velocity: 80,
+  program: null
+};
+
+export const DEFAULT_MIDI_INPUT_SETTINGS: MidiInputSettings = {
+  extraDeviceIds: [],
+  channel: null,
+  pedals: true,
+  bindings: {}
+};
+
 export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
   volume: 0,
-  instrument: InstrumentType.SYNTH
+  instrument: InstrumentType.SYNTH,
+  midiInput: DEFAULT_MIDI_INPUT_SETTINGS,
+  output: 'internal',
+  midiOutput: DEFAULT_MIDI_OUTPUT_SETTINGS
+};
+
+export const DEFAULT_CHORD_PLAYBACK: ChordPlaybackSettings = {
+  style: 'block',
+  tempo: 100,
+  noteSpacing: '8n'
 };
 
 export const DEFAULT_TIMING_SETTINGS: TimingSettings = {
   responseTimeLimit: 3, // 3 seconds default
   autoAdvanceSpeed: 1.5, // 1.5 seconds auto-advance
-  noteDuration: '2n' // half note default
+  noteDuration: '2n', // half note default
+  chordPlayback: DEFAULT_CHORD_PLAYBACK
 };
 
 
@@ -227,6 +515,12 @@ export const DEFAULT_CHORD_FILTER: ChordFilter = {
   // No keyFilter by default (all chromatic chords allowed)
 };
 
+export const DEFAULT_SCALE_FILTER: ScaleFilter = {
+  allowedScaleTypes: [ScaleType.MAJOR, ScaleType.NATURAL_MINOR, ScaleType.HARMONIC_MINOR], // Start with the common scales
+  allowedRootNotes: WHITE_KEYS,
+  allowedOctaves: [4],
+};
+
 // Chord type categories for UI grouping and filtering
 export const CHORD_TYPES = {
   TRIADS: [
@@ -267,6 +561,38 @@ export const CHORD_TYPES = {
 // Helper to get all chord types as a flat array
 export const ALL_CHORD_TYPES = Object.values(CHORD_TYPES).flat();
 
+// Scale type categories for UI grouping and filtering
+export const SCALE_TYPES = {
+  MAJOR_MINOR: [
+    ScaleType.MAJOR,
+    ScaleType.NATURAL_MINOR,
+    ScaleType.HARMONIC_MINOR,
+    ScaleType.MELODIC_MINOR,
+  ],
+  CHURCH_MODES: [
+    ScaleType.IONIAN,
+    ScaleType.DORIAN,
+    ScaleType.PHRYGIAN,
+    ScaleType.LYDIAN,
+    ScaleType.MIXOLYDIAN,
+    ScaleType.AEOLIAN,
+    ScaleType.LOCRIAN,
+  ],
+  PENTATONIC_BLUES: [
+    ScaleType.MAJOR_PENTATONIC,
+    ScaleType.MINOR_PENTATONIC,
+    ScaleType.BLUES,
+  ],
+  SYMMETRIC: [
+    ScaleType.WHOLE_TONE,
+    ScaleType.DIMINISHED_WHOLE_HALF,
+    ScaleType.DIMINISHED_HALF_WHOLE,
+  ],
+} as const;
+
+// Helper to get all scale types as a flat array
+export const ALL_SCALE_TYPES = Object.values(SCALE_TYPES).flat();
+
 export function isNotePlayable(noteWithOctave: NoteWithOctave, filter: NoteFilter): boolean {
   const { note, octave } = noteWithOctave;
   const { octaveRange, keyType, allowedNotes } = filter;
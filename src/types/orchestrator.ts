@@ -1,9 +1,9 @@
-import type { NoteWithOctave, Chord, NoteHighlight } from './music';
+import type { NoteWithOctave, Chord, ChordProgression, ScaleDegreeFragment, Melody, RhythmPattern, NoteHighlight, Interval, Scale } from './music';
 
 /**
  * Strategy type enum for determining which orchestration strategy to use
  */
-export type StrategyType = 'ear-training' | 'chord-training';
+export type StrategyType = 'ear-training' | 'chord-training' | 'interval-training' | 'scale-training' | 'progression-training' | 'sight-reading' | 'scale-degree' | 'melodic-dictation' | 'rhythm';
 
 /**
  * User action types for unified interaction handling
@@ -21,6 +21,13 @@ export type UserAction =
  * Usage by mode type:
  * - Ear Training: Populate `note` with the challenge note, leave chord fields undefined
  * - Chord Training: Populate `chord` and `displayNotes` with the challenge, leave `note` undefined
+ * - Interval Training: Populate `interval` with the challenge and `note` with its second note
+ * - Scale Training: Populate `scale` with the challenge and `note` with the first note played
+ * - Progression Training: Populate `progression` with the challenge and `note` with the tonic
+ * - Scale Degree: Populate `scaleDegree` with the challenge and `note` with the tonic
+ * - Melodic Dictation: Populate `melody` with the challenge and `note` with its first note
+ * - Rhythm: Populate `rhythm` with the challenge and `note` with the pitch it is played on
+ * - Sight Reading: Populate `displayNotes` with the notes written on the staff, `note` with the lowest of them and `chord` when a chord is written
  *
  * @example Ear Training Strategy
  * ```typescript
@@ -66,8 +73,8 @@ export interface RoundContext {
   chord?: Chord;
 
   /**
-   * Notes to display on the piano (chord training mode only)
-   * These are the visual representation of the chord being shown to the user
+   * Notes to display on the piano (chord training mode) or write on the staff (sight reading mode)
+   * These are the visual representation of the challenge being shown to the user
    */
   displayNotes?: NoteWithOctave[];
 
@@ -77,6 +84,48 @@ export interface RoundContext {
    */
   selectedNotes?: Set<NoteWithOctave>;
 
+  // Interval training fields (optional)
+  /**
+   * The interval to identify (interval training mode only)
+   * `note` holds the interval's second note so a played answer can be validated against it
+   */
+  interval?: Interval;
+
+  // Scale training fields (optional)
+  /**
+   * The scale to identify (scale training mode only)
+   * `note` holds the first note played so timeouts can highlight where the scale starts
+   */
+  scale?: Scale;
+
+  // Progression training fields (optional)
+  /**
+   * The progression to identify (progression training mode only)
+   * `note` holds the tonic of the key so timeouts can highlight it
+   */
+  progression?: ChordProgression;
+
+  // Scale degree fields (optional)
+  /**
+   * The note or melody to identify by scale degree (scale degree mode only)
+   * `note` holds the tonic of the key so timeouts can highlight it
+   */
+  scaleDegree?: ScaleDegreeFragment;
+
+  // Melodic dictation fields (optional)
+  /**
+   * The melody to write down (melodic dictation mode only)
+   * `note` holds the first note of the melody so timeouts can highlight where it starts
+   */
+  melody?: Melody;
+
+  // Rhythm fields (optional)
+  /**
+   * The rhythm pattern to tap back or notate (rhythm modes only)
+   * `note` holds the pitch the pattern is played on
+   */
+  rhythm?: RhythmPattern;
+
   /**
    * Visual highlights to apply to piano keys
    * Used for feedback, indicating correct/incorrect notes, or showing the solution
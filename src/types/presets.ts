@@ -1,4 +1,4 @@
-import type { ChordFilter } from './music';
+import type { ChordFilter, CustomChordTypeId } from './music';
 
 /**
  * A custom chord filter preset created and saved by the user.
@@ -45,3 +45,46 @@ export interface UpdateCustomPresetData {
   description?: string;
   filter?: ChordFilter;
 }
+
+/**
+ * A chord quality defined by the user, e.g. 7sus4 or 6/9.
+ * Stored alongside custom presets and usable anywhere a built-in chord type is.
+ */
+export interface CustomChordTypeDefinition {
+  /** Unique identifier, also used as the chord type */
+  id: CustomChordTypeId;
+
+  /** Display name (e.g., "Dominant 7th sus4") */
+  name: string;
+
+  /** Suffix written after the root in chord names (e.g., "7sus4" for "C7sus4") */
+  suffix: string;
+
+  /** Semitones from the root, ascending and starting at 0 (e.g., [0, 5, 7, 10]) */
+  intervals: number[];
+
+  /** ISO timestamp when the chord type was created */
+  createdAt: string;
+
+  /** ISO timestamp when the chord type was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Data required to create a new custom chord type.
+ * The id and timestamps are auto-generated.
+ */
+export interface CreateCustomChordTypeData {
+  name: string;
+  suffix: string;
+  intervals: number[];
+}
+
+/**
+ * Data for updating an existing custom chord type.
+ */
+export interface UpdateCustomChordTypeData {
+  name?: string;
+  suffix?: string;
+  intervals?: number[];
+}
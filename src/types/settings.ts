@@ -1,4 +1,4 @@
-import type { NoteFilter, AudioSettings, TimingSettings } from './music';
+import type { NoteFilter, AudioSettings, TimingSettings, Chord, Melody } from './music';
 import type { ModeSettings } from './game';
 import type { TrainingType } from '../constants';
 
@@ -8,5 +8,35 @@ export interface AppSettings {
   audio: AudioSettings;
   modes: ModeSettings;
   showNoteLabels: boolean;
+  showStaffNotation: boolean;
   trainingType: TrainingType;
-}
\ No newline at end of file
+  practice: PracticeSettings;
+}
+
+/**
+ * How notes and chords are picked for each round.
+ * - 'random': every allowed item is equally likely
+ * - 'adaptive': weak and overdue items are picked more often
+ * - 'review': only items that are due for review are asked (adaptive when nothing is due)
+ */
+export type ItemSelectionMode = 'random' | 'adaptive' | 'review';
+
+/**
+ * A fixed list of chords or melodies, imported from a MIDI file, that rounds
+ * play through in order instead of picking from the filters.
+ * - 'chords': exact voicings, for the chord training modes
+ * - 'melodies': phrases, for melodic dictation; note by note for the ear training modes
+ */
+export type CustomExercise =
+  | { name: string; kind: 'chords'; chords: Chord[] }
+  | { name: string; kind: 'melodies'; melodies: Melody[] };
+
+export interface PracticeSettings {
+  selectionMode: ItemSelectionMode;
+  exercise: CustomExercise | null; // Imported exercise played in order, null = use the filters
+}
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+  selectionMode: 'random',
+  exercise: null
+};
@@ -1,3 +1,5 @@
+import type { ChordType, Note, Octave } from './music';
+
 /**
  * Chord-specific statistics for long-term tracking across sessions.
  * Aggregates performance data per chord name.
@@ -51,3 +53,203 @@ export interface ChordStatsStore {
  * Increment when making breaking changes to the schema.
  */
 export const CHORD_STATS_VERSION = 1;
+
+/**
+ * Kind of item tracked by the spaced-repetition scheduler.
+ * Notes are tracked by pitch class (e.g., "C#"), chords by name (e.g., "Am7").
+ */
+export type ReviewItemKind = 'note' | 'chord';
+
+/**
+ * Identifies the note or chord asked in a round.
+ */
+export interface ReviewItemRef {
+  kind: ReviewItemKind;
+  key: string;
+}
+
+/**
+ * Leitner review state for a single note or chord.
+ */
+export interface ReviewItemState {
+  /** Kind of item */
+  kind: ReviewItemKind;
+
+  /** Note name or chord name */
+  key: string;
+
+  /** Leitner box (0 = struggling, higher = known); decides the review interval */
+  box: number;
+
+  /** When the item should next be reviewed */
+  dueAt: Date;
+
+  /** When the item was last answered */
+  lastReviewed: Date;
+}
+
+/**
+ * Serialized version of ReviewItemState for localStorage.
+ * Dates are stored as ISO strings.
+ */
+export interface SerializedReviewItemState {
+  kind: ReviewItemKind;
+  key: string;
+  box: number;
+  dueAt: string; // ISO date string
+  lastReviewed: string; // ISO date string
+}
+
+/**
+ * Root storage structure for the review schedule.
+ */
+export interface ReviewScheduleStore {
+  /** Schema version for migration support */
+  version: number;
+
+  /** Map of "kind:key" to review state */
+  items: Record<string, SerializedReviewItemState>;
+
+  /** Timestamp of last update */
+  lastUpdated: string; // ISO date string
+}
+
+/**
+ * Current schema version for ReviewScheduleStore.
+ */
+export const REVIEW_SCHEDULE_VERSION = 1;
+
+/**
+ * Note-specific statistics for long-term tracking across ear-training sessions.
+ * Aggregates performance data per note and octave (e.g., "C#4").
+ */
+export interface NoteStats {
+  /** Pitch class of the played note */
+  note: Note;
+
+  /** Octave of the played note */
+  octave: Octave;
+
+  /** Total number of attempts across all sessions */
+  totalAttempts: number;
+
+  /** Number of correct attempts across all sessions */
+  correctAttempts: number;
+
+  /** Timestamp of the last attempt on this note */
+  lastPracticed: Date;
+
+  /** Calculated accuracy percentage (0-100) */
+  averageAccuracy: number;
+}
+
+/**
+ * Serialized version of NoteStats for localStorage.
+ * Dates are stored as ISO strings.
+ */
+export interface SerializedNoteStats {
+  note: Note;
+  octave: Octave;
+  totalAttempts: number;
+  correctAttempts: number;
+  lastPracticed: string; // ISO date string
+  averageAccuracy: number;
+}
+
+/**
+ * Note stats combined over several notes, e.g. all octaves of one pitch class.
+ */
+export interface NoteStatsSummary {
+  totalAttempts: number;
+  correctAttempts: number;
+
+  /** Calculated accuracy percentage (0-100) */
+  averageAccuracy: number;
+}
+
+/**
+ * Counts of wrong guesses, keyed by played pitch class and then guessed pitch class.
+ * For example, confusions['F#']['G'] is how often G was guessed when F# was played.
+ */
+export type NoteConfusions = Partial<Record<Note, Partial<Record<Note, number>>>>;
+
+/**
+ * A pair of pitch classes that are often mixed up.
+ */
+export interface NoteConfusionPair {
+  /** Note that was played */
+  actual: Note;
+
+  /** Note that was guessed instead */
+  guessed: Note;
+
+  /** Number of times this mix-up happened */
+  count: number;
+}
+
+/**
+ * Root storage structure for note statistics.
+ * Includes version for future schema migrations.
+ */
+export interface NoteStatsStore {
+  /** Schema version for migration support */
+  version: number;
+
+  /** Map of note with octave (e.g., "C#4") to stats */
+  stats: Record<string, SerializedNoteStats>;
+
+  /** Wrong-guess counts by played and guessed pitch class */
+  confusions: NoteConfusions;
+
+  /** Timestamp of last update */
+  lastUpdated: string; // ISO date string
+}
+
+/**
+ * Current schema version for NoteStatsStore.
+ * Increment when making breaking changes to the schema.
+ */
+export const NOTE_STATS_VERSION = 1;
+
+/**
+ * Counts of chord identification answers by chord type, keyed by the played
+ * type and then the guessed type. The diagonal holds answers with the right
+ * quality; for example, confusions.minor7.halfDiminished7 is how often a
+ * minor 7th chord was answered as half-diminished.
+ */
+export type ChordTypeConfusions = Partial<Record<ChordType, Partial<Record<ChordType, number>>>>;
+
+/**
+ * A pair of chord types that are often mixed up.
+ */
+export interface ChordTypeConfusionPair {
+  /** Chord type that was played */
+  actual: ChordType;
+
+  /** Chord type that was guessed instead */
+  guessed: ChordType;
+
+  /** Number of times this mix-up happened */
+  count: number;
+}
+
+/**
+ * Root storage structure for the chord type confusion matrix.
+ * Includes version for future schema migrations.
+ */
+export interface ChordConfusionStore {
+  /** Schema version for migration support */
+  version: number;
+
+  /** Answer counts by played and guessed chord type */
+  confusions: ChordTypeConfusions;
+
+  /** Timestamp of last update */
+  lastUpdated: string; // ISO date string
+}
+
+/**
+ * Current schema version for ChordConfusionStore.
+ * Increment when making breaking changes to the schema.
+ */
+export const CHORD_CONFUSION_VERSION = 1;
@@ -0,0 +1,56 @@
+/**
+ * Upgrades stored data by one schema version.
+ * Receives data in the previous version's shape and returns it in the next version's shape.
+ */
+export type StorageMigration = (data: unknown) => unknown;
+
+/**
+ * Describes how one persisted store is versioned, upgraded and validated.
+ */
+export interface StorageSchema<T> {
+  /** localStorage key the store is saved under */
+  key: string;
+
+  /** Human-readable name, used in warnings and when showing quarantined data */
+  label: string;
+
+  /** Current schema version; increment whenever the stored shape changes */
+  version: number;
+
+  /**
+   * Migrations keyed by the version they upgrade from:
+   * migrations[1] turns version 1 data into version 2, and so on.
+   * Every version below the current one needs an entry.
+   */
+  migrations: Record<number, StorageMigration>;
+
+  /** Checks that migrated data has the current version's shape */
+  validate: (data: unknown) => data is T;
+
+  /**
+   * Whether the data is saved as `{ version, data }`. Needed by arrays and
+   * objects that have no version field of their own, so that the version
+   * they were saved at is known when they are loaded again.
+   */
+  envelope?: boolean;
+}
+
+/**
+ * Stored data that could not be loaded, kept aside instead of being discarded.
+ */
+export interface QuarantinedItem {
+  /** localStorage key the data was stored under */
+  key: string;
+
+  /** Label of the store the data belonged to */
+  label: string;
+
+  /** Why the data could not be loaded */
+  reason: string;
+
+  /** The stored string, exactly as it was found */
+  value: string;
+
+  /** ISO date string of when the data was quarantined */
+  quarantinedAt: string;
+}
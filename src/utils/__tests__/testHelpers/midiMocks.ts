@@ -66,18 +66,67 @@ export class MockMIDIInput implements Partial<MIDIInput> {
   }
 }
 
+export class MockMIDIOutput implements Partial<MIDIOutput> {
+  id: string;
+  manufacturer: string;
+  name: string;
+  state: MIDIPortDeviceState;
+  type: MIDIPortType = 'output';
+  connection: MIDIPortConnectionState = 'closed';
+  send = vi.fn();
+
+  constructor(
+    id: string,
+    name: string = 'Test MIDI Synth',
+    manufacturer: string = 'Test Manufacturer',
+    state: MIDIPortDeviceState = 'connected'
+  ) {
+    this.id = id;
+    this.name = name;
+    this.manufacturer = manufacturer;
+    this.state = state;
+  }
+
+  open(): Promise<MIDIPort> {
+    this.connection = 'open';
+    return Promise.resolve(this as unknown as MIDIPort);
+  }
+
+  close(): Promise<MIDIPort> {
+    this.connection = 'closed';
+    return Promise.resolve(this as unknown as MIDIPort);
+  }
+}
+
 export class MockMIDIAccess implements Partial<MIDIAccess> {
   inputs: Map<string, MIDIInput>;
   outputs: Map<string, MIDIOutput>;
   onstatechange: ((event: MIDIConnectionEvent) => void) | null = null;
   sysexEnabled: boolean = false;
 
-  constructor(inputs: MockMIDIInput[] = []) {
+  constructor(inputs: MockMIDIInput[] = [], outputs: MockMIDIOutput[] = []) {
     this.inputs = new Map();
     this.outputs = new Map();
     inputs.forEach(input => {
       this.inputs.set(input.id, input as unknown as MIDIInput);
     });
+    outputs.forEach(output => {
+      this.outputs.set(output.id, output as unknown as MIDIOutput);
+    });
+  }
+
+  /**
+   * Simulate an output device being plugged in or unplugged
+   */
+  simulateOutputStateChange(output: MockMIDIOutput, state: MIDIPortDeviceState): void {
+    output.state = state;
+    this.outputs.set(output.id, output as unknown as MIDIOutput);
+    if (this.onstatechange) {
+      const event = {
+        port: output as unknown as MIDIPort,
+      } as MIDIConnectionEvent;
+      this.onstatechange(event);
+    }
   }
 
   /**
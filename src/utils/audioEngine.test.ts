@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AudioEngine } from './audioEngine';
+import { loadSampleBuffer } from './sampledInstrument';
+import { DEFAULT_VELOCITY, SAMPLE_SETS, getSampleCount } from './sampleLibrary';
+import { InstrumentType } from '../types/music';
+
+// The test setup mocks the engine for every other test
+vi.unmock('./audioEngine');
+
+vi.mock('tone', () => {
+  class Instrument {
+    volume = { value: 0 };
+    triggerAttackRelease = vi.fn();
+    releaseAll = vi.fn();
+    dispose = vi.fn();
+    toDestination() { return this; }
+    connect() { return this; }
+  }
+  return {
+    PolySynth: Instrument,
+    MonoSynth: Instrument,
+    Synth: Instrument,
+    FMSynth: Instrument,
+    AMSynth: Instrument,
+    Sampler: Instrument,
+    Volume: Instrument,
+    start: vi.fn().mockResolvedValue(undefined),
+    gainToDb: (gain: number) => gain,
+    Time: (time: number) => ({ toSeconds: () => time })
+  };
+});
+
+vi.mock('./sampledInstrument', async importOriginal => ({
+  ...await importOriginal<typeof import('./sampledInstrument')>(),
+  loadSampleBuffer: vi.fn()
+}));
+
+describe('AudioEngine', () => {
+  let engine: AudioEngine;
+
+  beforeEach(async () => {
+    vi.mocked(loadSampleBuffer).mockReset();
+    engine = new AudioEngine();
+    await engine.initialize();
+  });
+
+  describe('loadSamples', () => {
+    const organTotal = getSampleCount(SAMPLE_SETS[InstrumentType.ORGAN]);
+
+    it('stops after the first file when a sample set is not installed', async () => {
+      vi.mocked(loadSampleBuffer).mockRejectedValue(new Error('404'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await engine.loadSamples(InstrumentType.ORGAN);
+
+      expect(loadSampleBuffer).toHaveBeenCalledTimes(1);
+      expect(engine.getLoadState(InstrumentType.ORGAN).status).toBe('failed');
+    });
+
+    it('retries after a failure', async () => {
+      vi.mocked(loadSampleBuffer).mockRejectedValueOnce(new Error('404'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await engine.loadSamples(InstrumentType.ORGAN);
+
+      vi.mocked(loadSampleBuffer).mockResolvedValue({} as Awaited<ReturnType<typeof loadSampleBuffer>>);
+      await engine.loadSamples(InstrumentType.ORGAN);
+
+      // The retry fetches every file once, the first one included
+      expect(loadSampleBuffer).toHaveBeenCalledTimes(1 + organTotal);
+      expect(engine.getLoadState(InstrumentType.ORGAN)).toEqual({ status: 'loaded', loaded: organTotal, total: organTotal });
+    });
+  });
+
+  describe('velocity', () => {
+    const triggerAttackRelease = () =>
+      (engine as unknown as { instruments: Map<string, { triggerAttackRelease: ReturnType<typeof vi.fn> }> })
+        .instruments.get(InstrumentType.SYNTH)!.triggerAttackRelease;
+
+    it('plays notes with the given velocity', () => {
+      engine.playNote({ note: 'C', octave: 4 }, '4n', 0.3);
+      engine.playNotes([{ note: 'C', octave: 4 }, { note: 'E', octave: 4 }], '2n', 0.9);
+
+      expect(triggerAttackRelease()).toHaveBeenCalledWith('C4', '4n', undefined, 0.3);
+      expect(triggerAttackRelease()).toHaveBeenCalledWith(['C4', 'E4'], '2n', undefined, 0.9);
+    });
+
+    it('uses the default velocity when none is given', () => {
+      engine.playNote({ note: 'C', octave: 4 });
+
+      expect(triggerAttackRelease()).toHaveBeenCalledWith('C4', '4n', undefined, DEFAULT_VELOCITY);
+    });
+  });
+});
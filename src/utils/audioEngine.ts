@@ -1,24 +1,63 @@
 import * as Tone from 'tone';
-import type { Note, Octave, NoteWithOctave, NoteFilter, Chord } from '../types/music';
+import type { Note, Octave, NoteWithOctave, NoteFilter, Chord, ChordPlaybackSettings } from '../types/music';
+import type { InstrumentLoadState, AudioOutputMode, MidiOutputSettings } from '../types/music';
 import { InstrumentType } from '../types/music';
 import { isNotePlayable, ALL_NOTES } from '../types/music';
+import { EventEmitter } from './EventEmitter';
+import { buildChordPlaybackSteps } from './chordPlayback';
+import type { MidiOutputPort } from './midiOutput';
+import { MidiOutputRouter } from './midiOutput';
+import type { RhythmPlayback } from './rhythm';
+import type { SampledInstrument } from './sampleLibrary';
+import { DEFAULT_VELOCITY, SAMPLE_SETS, getSampleCount, getSampleUrls, isSampledInstrument } from './sampleLibrary';
+import type { LayerBuffers } from './sampledInstrument';
+import { LayeredSampler, createFallbackSynth, loadSampleBuffer } from './sampledInstrument';
+
+/**
+ * Events emitted by AudioEngine
+ */
+export interface AudioEngineEvents {
+  loadProgress: { instrument: SampledInstrument; state: InstrumentLoadState };
+}
+
+/**
+ * Anything that can start notes the way Tone.js instruments do
+ */
+interface TriggerableInstrument {
+  triggerAttackRelease(notes: string | string[], duration: string | number, time?: number, velocity?: number): void;
+}
 
-export class AudioEngine {
+export class AudioEngine extends EventEmitter<AudioEngineEvents> {
   private instruments: Map<InstrumentType, any> = new Map();
+  private loadStates: Map<SampledInstrument, InstrumentLoadState> = new Map();
   private isInitialized = false;
   private currentInstrument: InstrumentType = InstrumentType.SYNTH;
   private volume = 75;
+  private output: AudioOutputMode = 'internal';
+  private midiOutput = new MidiOutputRouter();
+
+  // Short, dry click that cuts through any instrument
+  private metronome = new Tone.Synth({
+    oscillator: { type: 'square' },
+    envelope: { attack: 0.001, decay: 0.05, sustain: 0, release: 0.01 }
+  }).toDestination();
 
   constructor() {
+    super();
     this.initializeInstruments();
   }
 
   private initializeInstruments() {
     this.instruments.set(InstrumentType.SYNTH, new Tone.PolySynth(Tone.Synth).toDestination());
-    this.instruments.set(InstrumentType.PIANO, new Tone.PolySynth(Tone.Synth).toDestination());
     this.instruments.set(InstrumentType.FM, new Tone.PolySynth(Tone.FMSynth).toDestination());
     this.instruments.set(InstrumentType.MONO, new Tone.MonoSynth().toDestination());
 
+    // Sampled instruments play through a synth until their samples are loaded
+    (Object.keys(SAMPLE_SETS) as SampledInstrument[]).forEach(instrument => {
+      this.instruments.set(instrument, createFallbackSynth(instrument));
+      this.loadStates.set(instrument, { status: 'synth', loaded: 0, total: getSampleCount(SAMPLE_SETS[instrument]) });
+    });
+
     this.updateVolume();
   }
 
@@ -29,8 +68,136 @@ export class AudioEngine {
     }
   }
 
+  /**
+   * Switches the instrument notes are played with.
+   * Sampled instruments start loading their samples the first time they're selected.
+   */
   setInstrument(instrument: InstrumentType) {
     this.currentInstrument = instrument;
+    if (isSampledInstrument(instrument)) {
+      void this.loadSamples(instrument);
+    }
+  }
+
+  /**
+   * Returns how far the samples of an instrument have loaded.
+   * Synthesizers report 'synth' with no files to load.
+   */
+  getLoadState(instrument: InstrumentType): InstrumentLoadState {
+    if (!isSampledInstrument(instrument)) {
+      return { status: 'synth', loaded: 0, total: 0 };
+    }
+    return this.loadStates.get(instrument)!;
+  }
+
+  /**
+   * Loads the sample set of an instrument, emitting 'loadProgress' after each file.
+   * Once every file has loaded the samples replace the instrument's fallback synth.
+   * If any file fails the synth keeps playing and the state becomes 'failed'.
+   * The first file is fetched on its own, so a set that isn't installed costs
+   * one request rather than one per file. Does nothing when the samples are
+   * already loading or loaded; after a failure, calling it again retries.
+   *
+   * @param instrument - The sampled instrument to load
+   */
+  async loadSamples(instrument: SampledInstrument): Promise<void> {
+    const { status } = this.getLoadState(instrument);
+    if (status === 'loading' || status === 'loaded') {
+      return;
+    }
+
+    const set = SAMPLE_SETS[instrument];
+    const total = getSampleCount(set);
+    let loaded = 0;
+    this.setLoadState(instrument, { status: 'loading', loaded, total });
+
+    try {
+      const [probeUrl] = Object.values(getSampleUrls(set, set.velocityLayers[0]));
+      const probe = await loadSampleBuffer(probeUrl);
+
+      const layerBuffers: LayerBuffers[] = await Promise.all(set.velocityLayers.map(async layer => {
+        const entries = await Promise.all(Object.entries(getSampleUrls(set, layer)).map(async ([note, url]) => {
+          const buffer = url === probeUrl ? probe : await loadSampleBuffer(url);
+          loaded++;
+          this.setLoadState(instrument, { status: 'loading', loaded, total });
+          return [note, buffer] as const;
+        }));
+        return Object.fromEntries(entries);
+      }));
+
+      const fallback = this.instruments.get(instrument);
+      this.instruments.set(instrument, new LayeredSampler(set, layerBuffers));
+      fallback?.dispose();
+      this.updateVolume();
+
+      this.setLoadState(instrument, { status: 'loaded', loaded: total, total });
+    } catch (error) {
+      console.warn(`Samples for ${instrument} could not be loaded, using a synthesizer instead:`, error);
+      this.setLoadState(instrument, { status: 'failed', loaded, total });
+    }
+  }
+
+  private setLoadState(instrument: SampledInstrument, state: InstrumentLoadState) {
+    this.loadStates.set(instrument, state);
+    this.emit('loadProgress', { instrument, state });
+  }
+
+  /**
+   * Chooses where notes, chords and cadences are played: on the built-in
+   * instruments, the MIDI output or both. With 'midi' the built-in instruments
+   * keep playing while no MIDI output is connected. Metronome clicks always
+   * play on the built-in click.
+   */
+  setOutputMode(mode: AudioOutputMode) {
+    this.output = mode;
+  }
+
+  /**
+   * Sets the MIDI output notes are routed to, usually MidiManager.getInstance().
+   *
+   * @param port - The output port, or null to stop sending MIDI
+   */
+  setMidiOutput(port: MidiOutputPort | null) {
+    this.midiOutput.setPort(port);
+  }
+
+  /**
+   * Sets the channel, velocity and program notes are sent to the MIDI output with.
+   */
+  setMidiOutputSettings(settings: MidiOutputSettings) {
+    this.midiOutput.setSettings(settings);
+  }
+
+  private sendsToMidi(): boolean {
+    return this.output !== 'internal' && this.midiOutput.isConnected();
+  }
+
+  private playsInternally(): boolean {
+    return this.output !== 'midi' || !this.midiOutput.isConnected();
+  }
+
+  /**
+   * Starts notes on the built-in instrument and/or the MIDI output, depending on the output mode.
+   * A single note is passed to the instrument as a string and a list as an array,
+   * like the Tone.js instruments expect. The velocity picks the layer of sampled
+   * instruments; the MIDI output uses its own velocity setting.
+   */
+  private triggerNotes(
+    instrument: TriggerableInstrument,
+    notes: NoteWithOctave | NoteWithOctave[],
+    duration: string | number,
+    velocity: number = DEFAULT_VELOCITY
+  ) {
+    const noteList = Array.isArray(notes) ? notes : [notes];
+
+    if (this.playsInternally()) {
+      const noteStrings = noteList.map(note => `${note.note}${note.octave}`);
+      instrument.triggerAttackRelease(Array.isArray(notes) ? noteStrings : noteStrings[0], duration, undefined, velocity);
+    }
+
+    if (this.sendsToMidi()) {
+      this.midiOutput.playNotes(noteList, Tone.Time(duration).toSeconds());
+    }
   }
 
   setVolume(volume: number) {
@@ -45,9 +212,18 @@ export class AudioEngine {
         instrument.volume.value = dbVolume;
       }
     });
+    this.metronome.volume.value = dbVolume;
   }
 
-  playNote(noteWithOctave: NoteWithOctave, duration: string = '4n') {
+  /**
+   * Plays a single note.
+   *
+   * @param noteWithOctave - The note to play
+   * @param duration - Duration in Tone.js notation. Defaults to '4n'.
+   * @param velocity - How hard the note is played, from 0 to 1
+   * @throws Error if AudioEngine is not initialized
+   */
+  playNote(noteWithOctave: NoteWithOctave, duration: string = '4n', velocity: number = DEFAULT_VELOCITY) {
     if (!this.isInitialized) {
       throw new Error('AudioEngine not initialized. Call initialize() first.');
     }
@@ -57,8 +233,7 @@ export class AudioEngine {
       throw new Error(`Instrument ${this.currentInstrument} not found`);
     }
 
-    const noteString = `${noteWithOctave.note}${noteWithOctave.octave}`;
-    instrument.triggerAttackRelease(noteString, duration);
+    this.triggerNotes(instrument, noteWithOctave, duration, velocity);
   }
 
   /**
@@ -66,9 +241,10 @@ export class AudioEngine {
    *
    * @param chord - The chord object containing notes to play
    * @param duration - Duration in Tone.js notation (e.g., '8n', '4n', '2n', '1n'). Defaults to '2n'.
+   * @param velocity - How hard the notes are played, from 0 to 1
    * @throws Error if AudioEngine is not initialized
    * @throws Error if chord has no notes
-   * @throws Error if current instrument is MONO (cannot play chords)
+   * @throws Error if current instrument is MONO (cannot play chords), unless only the MIDI output plays
    *
    * @example
    * ```typescript
@@ -76,7 +252,7 @@ export class AudioEngine {
    * audioEngine.playChord(cMajor, '2n');
    * ```
    */
-  playChord(chord: Chord, duration: string = '2n') {
+  playChord(chord: Chord, duration: string = '2n', velocity: number = DEFAULT_VELOCITY) {
     if (!this.isInitialized) {
       throw new Error('AudioEngine not initialized. Call initialize() first.');
     }
@@ -91,15 +267,69 @@ export class AudioEngine {
     }
 
     // MONO instrument cannot play chords (monophonic by design)
-    if (this.currentInstrument === InstrumentType.MONO) {
+    if (this.currentInstrument === InstrumentType.MONO && this.playsInternally()) {
       throw new Error('MONO instrument cannot play chords. Please switch to SYNTH, PIANO, or FM for polyphonic playback.');
     }
 
-    // Convert chord notes to Tone.js note strings
-    const noteStrings = chord.notes.map(note => `${note.note}${note.octave}`);
-
     // Play all notes simultaneously
-    instrument.triggerAttackRelease(noteStrings, duration);
+    this.triggerNotes(instrument, chord.notes, duration, velocity);
+  }
+
+  /**
+   * Plays a chord in a playback style: as a block, arpeggiated, broken or
+   * with the bass note first. Notes after the first step are started with
+   * setTimeout, one note spacing apart at the playback tempo.
+   *
+   * @param chord - The chord object containing notes to play
+   * @param playback - Playback style, tempo and note spacing
+   * @param duration - Duration of each note in Tone.js notation. Defaults to '2n'.
+   * @param velocity - How hard the notes are played, from 0 to 1
+   * @throws Error if AudioEngine is not initialized
+   * @throws Error if chord has no notes
+   * @throws Error if current instrument is MONO and the style plays notes together
+   *
+   * @example
+   * ```typescript
+   * // Arpeggiate upwards in 8th notes at 90 bpm
+   * audioEngine.playChordWithStyle(cMajor, { style: 'arpeggio-up', tempo: 90, noteSpacing: '8n' });
+   * ```
+   */
+  playChordWithStyle(
+    chord: Chord,
+    playback: ChordPlaybackSettings,
+    duration: string = '2n',
+    velocity: number = DEFAULT_VELOCITY
+  ): void {
+    if (playback.style === 'block') {
+      this.playChord(chord, duration, velocity);
+      return;
+    }
+
+    if (!this.isInitialized) {
+      throw new Error('AudioEngine not initialized. Call initialize() first.');
+    }
+
+    if (!chord.notes || chord.notes.length === 0) {
+      throw new Error('Chord must contain at least one note');
+    }
+
+    const instrument = this.instruments.get(this.currentInstrument);
+    if (!instrument) {
+      throw new Error(`Instrument ${this.currentInstrument} not found`);
+    }
+
+    const steps = buildChordPlaybackSteps(chord.notes, playback);
+
+    // Fail before scheduling anything rather than inside a timer
+    if (this.currentInstrument === InstrumentType.MONO && this.playsInternally() && steps.some(step => step.notes.length > 1)) {
+      throw new Error('MONO instrument cannot play chords. Please switch to SYNTH, PIANO, or FM for polyphonic playback.');
+    }
+
+    steps.forEach(step => {
+      setTimeout(() => {
+        this.triggerNotes(instrument, step.notes, duration, velocity);
+      }, step.offset * 1000); // Convert to milliseconds
+    });
   }
 
   /**
@@ -108,16 +338,17 @@ export class AudioEngine {
    *
    * @param notes - Array of notes to play simultaneously
    * @param duration - Duration in Tone.js notation (e.g., '8n', '4n', '2n', '1n'). Defaults to '2n'.
+   * @param velocity - How hard the notes are played, from 0 to 1
    * @throws Error if AudioEngine is not initialized
    * @throws Error if notes array is empty
-   * @throws Error if current instrument is MONO (cannot play multiple notes)
+   * @throws Error if current instrument is MONO (cannot play multiple notes), unless only the MIDI output plays
    *
    * @example
    * ```typescript
    * audioEngine.playNotes([{ note: 'C', octave: 4 }, { note: 'E', octave: 4 }, { note: 'G', octave: 4 }], '4n');
    * ```
    */
-  playNotes(notes: NoteWithOctave[], duration: string = '2n') {
+  playNotes(notes: NoteWithOctave[], duration: string = '2n', velocity: number = DEFAULT_VELOCITY) {
     if (!this.isInitialized) {
       throw new Error('AudioEngine not initialized. Call initialize() first.');
     }
@@ -132,15 +363,12 @@ export class AudioEngine {
     }
 
     // MONO instrument cannot play multiple notes (monophonic by design)
-    if (this.currentInstrument === InstrumentType.MONO && notes.length > 1) {
+    if (this.currentInstrument === InstrumentType.MONO && this.playsInternally() && notes.length > 1) {
       throw new Error('MONO instrument cannot play multiple notes simultaneously. Please switch to SYNTH, PIANO, or FM for polyphonic playback.');
     }
 
-    // Convert notes to Tone.js note strings
-    const noteStrings = notes.map(note => `${note.note}${note.octave}`);
-
     // Play all notes simultaneously
-    instrument.triggerAttackRelease(noteStrings, duration);
+    this.triggerNotes(instrument, notes, duration, velocity);
   }
 
   /**
@@ -159,6 +387,7 @@ export class AudioEngine {
     if (instrument && instrument.releaseAll) {
       instrument.releaseAll();
     }
+    this.midiOutput.releaseAll();
   }
 
   /**
@@ -205,15 +434,165 @@ export class AudioEngine {
     // Play each note sequentially with configurable delay
     // Notes are already sorted by pitch in ascending order per Chord interface
     chord.notes.forEach((note, index) => {
-      const noteString = `${note.note}${note.octave}`;
       const startTime = index * delayBetweenNotes * 1000; // Convert to milliseconds
 
       setTimeout(() => {
-        instrument.triggerAttackRelease(noteString, noteDuration);
+        this.triggerNotes(instrument, note, noteDuration);
       }, startTime);
     });
   }
 
+  /**
+   * Plays notes one after another in the given order.
+   * Unlike playChordArpeggio(), notes are not assumed to be sorted, so this
+   * can play descending lines as well as ascending ones.
+   *
+   * @param notes - Notes to play in order
+   * @param duration - Duration of each note in Tone.js notation. Defaults to '4n'.
+   * @param delayBetweenNotes - Delay between note starts in seconds
+   * @param velocity - How hard the notes are played, from 0 to 1
+   * @throws Error if AudioEngine is not initialized
+   * @throws Error if notes array is empty
+   * @throws Error if delayBetweenNotes is not a positive number
+   *
+   * @example
+   * ```typescript
+   * // Play a descending perfect 5th, starting the second note 0.6 seconds after the first
+   * audioEngine.playNoteSequence([{ note: 'G', octave: 4 }, { note: 'C', octave: 4 }], '4n', 0.6);
+   * ```
+   */
+  playNoteSequence(
+    notes: NoteWithOctave[],
+    duration: string = '4n',
+    delayBetweenNotes: number,
+    velocity: number = DEFAULT_VELOCITY
+  ): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngine not initialized. Call initialize() first.');
+    }
+
+    if (!notes || notes.length === 0) {
+      throw new Error('Notes array must contain at least one note');
+    }
+
+    if (delayBetweenNotes <= 0) {
+      throw new Error('delayBetweenNotes must be a positive number');
+    }
+
+    const instrument = this.instruments.get(this.currentInstrument);
+    if (!instrument) {
+      throw new Error(`Instrument ${this.currentInstrument} not found`);
+    }
+
+    notes.forEach((note, index) => {
+      const startTime = index * delayBetweenNotes * 1000; // Convert to milliseconds
+
+      setTimeout(() => {
+        this.triggerNotes(instrument, note, duration, velocity);
+      }, startTime);
+    });
+  }
+
+  /**
+   * Plays chords one after another, each through playChord().
+   *
+   * @param chords - Chords to play in order
+   * @param duration - Duration of each chord in Tone.js notation. Defaults to '2n'.
+   * @param delayBetweenChords - Delay between chord starts in seconds
+   * @param velocity - How hard the chords are played, from 0 to 1
+   * @throws Error if AudioEngine is not initialized
+   * @throws Error if chords array is empty
+   * @throws Error if delayBetweenChords is not a positive number
+   * @throws Error if current instrument is MONO (cannot play chords), unless only the MIDI output plays
+   *
+   * @example
+   * ```typescript
+   * // Play a ii-V-I in C, one chord per second
+   * audioEngine.playChordSequence([dMinor, gMajor, cMajor], '2n', 1);
+   * ```
+   */
+  playChordSequence(
+    chords: Chord[],
+    duration: string = '2n',
+    delayBetweenChords: number,
+    velocity: number = DEFAULT_VELOCITY
+  ): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngine not initialized. Call initialize() first.');
+    }
+
+    if (!chords || chords.length === 0) {
+      throw new Error('Chords array must contain at least one chord');
+    }
+
+    if (delayBetweenChords <= 0) {
+      throw new Error('delayBetweenChords must be a positive number');
+    }
+
+    // Fail before scheduling anything rather than inside a timer
+    if (this.currentInstrument === InstrumentType.MONO && this.playsInternally()) {
+      throw new Error('MONO instrument cannot play chords. Please switch to SYNTH, PIANO, or FM for polyphonic playback.');
+    }
+
+    chords.forEach((chord, index) => {
+      const startTime = index * delayBetweenChords * 1000; // Convert to milliseconds
+
+      setTimeout(() => {
+        this.playChord(chord, duration, velocity);
+      }, startTime);
+    });
+  }
+
+  /**
+   * Plays a metronome click.
+   *
+   * @param accented - Whether the click marks the first beat of a measure (higher pitch)
+   * @throws Error if AudioEngine is not initialized
+   */
+  playClick(accented: boolean = false): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngine not initialized. Call initialize() first.');
+    }
+
+    this.metronome.triggerAttackRelease(accented ? 'C6' : 'G5', '32n');
+  }
+
+  /**
+   * Plays a rhythm on one pitch over a metronome click.
+   *
+   * @param note - The pitch every note of the rhythm is played on
+   * @param playback - Click and note offsets, from buildRhythmPlayback()
+   * @throws Error if AudioEngine is not initialized
+   *
+   * @example
+   * ```typescript
+   * // A bar of 4/4 at 90 bpm with a count-in
+   * audioEngine.playRhythm({ note: 'C', octave: 5 }, buildRhythmPlayback(pattern, 90, true));
+   * ```
+   */
+  playRhythm(note: NoteWithOctave, playback: RhythmPlayback): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngine not initialized. Call initialize() first.');
+    }
+
+    const instrument = this.instruments.get(this.currentInstrument);
+    if (!instrument) {
+      throw new Error(`Instrument ${this.currentInstrument} not found`);
+    }
+
+    playback.clicks.forEach(click => {
+      setTimeout(() => {
+        this.playClick(click.accented);
+      }, click.offset * 1000); // Convert to milliseconds
+    });
+
+    playback.notes.forEach(rhythmNote => {
+      setTimeout(() => {
+        this.triggerNotes(instrument, note, rhythmNote.duration);
+      }, rhythmNote.offset * 1000);
+    });
+  }
+
   static noteToFrequency(noteWithOctave: NoteWithOctave): number {
     return Tone.Frequency(noteWithOctave.note + noteWithOctave.octave).toFrequency();
   }
@@ -226,7 +605,17 @@ export class AudioEngine {
     return { note: randomNote, octave: randomOctave };
   }
 
-  static getRandomNoteFromFilter(filter: NoteFilter): NoteWithOctave {
+  /**
+   * Picks a note that satisfies the note filter.
+   *
+   * @param filter - Octave range and allowed notes
+   * @param select - Picks one of the playable notes (e.g., reviewScheduler.selectNote). Defaults to uniform random.
+   * @throws Error if no notes satisfy the filter
+   */
+  static getRandomNoteFromFilter(
+    filter: NoteFilter,
+    select?: (candidates: NoteWithOctave[]) => NoteWithOctave
+  ): NoteWithOctave {
     const { octaveRange } = filter;
     const playableNotes: NoteWithOctave[] = [];
 
@@ -244,6 +633,10 @@ export class AudioEngine {
       throw new Error('No playable notes available with current filter settings');
     }
 
+    if (select) {
+      return select(playableNotes);
+    }
+
     const randomIndex = Math.floor(Math.random() * playableNotes.length);
     return playableNotes[randomIndex];
   }
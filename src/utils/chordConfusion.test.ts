@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countChordTypeConfusions,
+  mergeChordTypeConfusions,
+  getChordTypeConfusionPairs,
+  isChordTypeConfusion
+} from './chordConfusion';
+import type { SerializedChordGuessAttempt } from '../types/game';
+
+let attemptId = 0;
+
+const createAttempt = (chordName: string, guessedChordName?: string): SerializedChordGuessAttempt => ({
+  id: `attempt-${attemptId++}`,
+  timestamp: new Date().toISOString(),
+  chordName,
+  guessedChordName,
+  isCorrect: chordName === guessedChordName
+});
+
+describe('chordConfusion', () => {
+  describe('countChordTypeConfusions', () => {
+    it('should count answers by played and guessed chord type', () => {
+      const confusions = countChordTypeConfusions([
+        createAttempt('Am7', 'Am7'),
+        createAttempt('Am7', 'Am7b5'),
+        createAttempt('Dm7', 'Dm7♭5'),
+        createAttempt('C', 'Cm')
+      ]);
+
+      expect(confusions).toEqual({
+        minor7: { minor7: 1, halfDiminished7: 2 },
+        major: { minor: 1 }
+      });
+    });
+
+    it('should count a right quality with a wrong root on the diagonal', () => {
+      expect(countChordTypeConfusions([createAttempt('Am7', 'Em7')])).toEqual({
+        minor7: { minor7: 1 }
+      });
+    });
+
+    it('should skip answers without a recognizable guess', () => {
+      expect(countChordTypeConfusions([
+        createAttempt('Am7'),
+        createAttempt('Am7', 'Wrong')
+      ])).toEqual({});
+    });
+  });
+
+  describe('mergeChordTypeConfusions', () => {
+    it('should add counts without modifying the inputs', () => {
+      const base = { minor7: { halfDiminished7: 2 } };
+      const addition = { minor7: { halfDiminished7: 1, minor7: 3 }, major: { minor: 1 } };
+
+      expect(mergeChordTypeConfusions(base, addition)).toEqual({
+        minor7: { halfDiminished7: 3, minor7: 3 },
+        major: { minor: 1 }
+      });
+      expect(base).toEqual({ minor7: { halfDiminished7: 2 } });
+    });
+  });
+
+  describe('getChordTypeConfusionPairs', () => {
+    it('should list mix-ups most frequent first, leaving out correct types', () => {
+      const pairs = getChordTypeConfusionPairs({
+        minor7: { minor7: 10, halfDiminished7: 2 },
+        major7: { dominant7: 4 }
+      });
+
+      expect(pairs).toEqual([
+        { actual: 'major7', guessed: 'dominant7', count: 4 },
+        { actual: 'minor7', guessed: 'halfDiminished7', count: 2 }
+      ]);
+    });
+
+    it('should respect the limit', () => {
+      const pairs = getChordTypeConfusionPairs({ minor7: { halfDiminished7: 2, minor: 1 } }, 1);
+      expect(pairs).toHaveLength(1);
+    });
+  });
+
+  describe('isChordTypeConfusion', () => {
+    it('should match answers with the played and guessed chord type', () => {
+      expect(isChordTypeConfusion(createAttempt('Dm7', 'Dm7b5'), 'minor7', 'halfDiminished7')).toBe(true);
+      expect(isChordTypeConfusion(createAttempt('Em7', 'Em7'), 'minor7', 'halfDiminished7')).toBe(false);
+      expect(isChordTypeConfusion(createAttempt('G7', 'Gm7b5'), 'minor7', 'halfDiminished7')).toBe(false);
+    });
+
+    it('should not match answers without a recognized guess', () => {
+      expect(isChordTypeConfusion(createAttempt('Am7'), 'minor7', 'halfDiminished7')).toBe(false);
+      expect(isChordTypeConfusion({ guessedChordName: 'Am7b5' }, 'minor7', 'halfDiminished7')).toBe(false);
+    });
+  });
+});
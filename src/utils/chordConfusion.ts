@@ -0,0 +1,115 @@
+/**
+ * Chord Confusion Utility
+ *
+ * Aggregates Show Notes → Guess Chord answers into a confusion matrix keyed
+ * by chord type, so mix-ups between chord qualities (e.g. minor7 answered as
+ * halfDiminished7) can be tracked across sessions.
+ *
+ * @module utils/chordConfusion
+ */
+
+import type { ChordType } from '../types/music';
+import type { SerializedChordGuessAttempt } from '../types/game';
+import type { ChordTypeConfusions, ChordTypeConfusionPair } from '../types/stats';
+import { getChordTypeFromName } from './chordValidation';
+
+/**
+ * The chord names of an answer, as kept in session results and in the session repository
+ */
+type ChordNames = { chordName?: string; guessedChordName?: string };
+
+/**
+ * Gets the played and guessed chord type of an answer.
+ *
+ * @returns The chord types, or null if either name is not a recognized chord
+ */
+function getAttemptChordTypes(attempt: ChordNames): { actual: ChordType; guessed: ChordType } | null {
+  if (!attempt.chordName || !attempt.guessedChordName) return null;
+
+  const actual = getChordTypeFromName(attempt.chordName);
+  const guessed = getChordTypeFromName(attempt.guessedChordName);
+
+  return actual && guessed ? { actual, guessed } : null;
+}
+
+/**
+ * Counts answers by played and guessed chord type.
+ * Answers whose guess is not a recognized chord name are skipped.
+ *
+ * @param guessHistory - Answers from a Show Notes → Guess Chord session
+ * @returns Confusion counts for the answers
+ *
+ * @example
+ * countChordTypeConfusions([{ chordName: 'Am7', guessedChordName: 'Am7b5', ... }])
+ * // { minor7: { halfDiminished7: 1 } }
+ */
+export function countChordTypeConfusions(guessHistory: SerializedChordGuessAttempt[]): ChordTypeConfusions {
+  const confusions: ChordTypeConfusions = {};
+
+  for (const attempt of guessHistory) {
+    const types = getAttemptChordTypes(attempt);
+    if (!types) continue;
+
+    const row = confusions[types.actual] ?? {};
+    row[types.guessed] = (row[types.guessed] ?? 0) + 1;
+    confusions[types.actual] = row;
+  }
+
+  return confusions;
+}
+
+/**
+ * Adds two sets of confusion counts without modifying either.
+ */
+export function mergeChordTypeConfusions(base: ChordTypeConfusions, addition: ChordTypeConfusions): ChordTypeConfusions {
+  const merged: ChordTypeConfusions = {};
+
+  for (const source of [base, addition]) {
+    for (const [actual, row] of Object.entries(source) as [ChordType, Partial<Record<ChordType, number>>][]) {
+      const mergedRow = { ...merged[actual] };
+      for (const [guessed, count] of Object.entries(row) as [ChordType, number][]) {
+        mergedRow[guessed] = (mergedRow[guessed] ?? 0) + count;
+      }
+      merged[actual] = mergedRow;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Lists mix-ups between different chord types, most frequent first.
+ * Answers with the right chord type (the matrix diagonal) are left out.
+ *
+ * @param confusions - Confusion counts
+ * @param limit - Maximum number of pairs to return (all if omitted)
+ */
+export function getChordTypeConfusionPairs(confusions: ChordTypeConfusions, limit?: number): ChordTypeConfusionPair[] {
+  const pairs: ChordTypeConfusionPair[] = [];
+
+  for (const [actual, row] of Object.entries(confusions) as [ChordType, Partial<Record<ChordType, number>>][]) {
+    for (const [guessed, count] of Object.entries(row) as [ChordType, number][]) {
+      if (actual !== guessed && count > 0) {
+        pairs.push({ actual, guessed, count });
+      }
+    }
+  }
+
+  pairs.sort((a, b) => b.count - a.count);
+  return limit === undefined ? pairs : pairs.slice(0, limit);
+}
+
+/**
+ * Checks whether an answer is a specific chord type mix-up.
+ *
+ * @param attempt - Answer with its played and guessed chord names
+ * @param actual - Chord type that was played
+ * @param guessed - Chord type that was guessed
+ *
+ * @example
+ * isChordTypeConfusion({ chordName: 'Am7', guessedChordName: 'Am7b5' }, 'minor7', 'halfDiminished7') // true
+ */
+export function isChordTypeConfusion(attempt: ChordNames, actual: ChordType, guessed: ChordType): boolean {
+  const types = getAttemptChordTypes(attempt);
+  return types?.actual === actual && types.guessed === guessed;
+}
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import { ChordEngine } from './chordEngine';
+import { setCustomChordTypes } from './chordTypeRegistry';
 import type { Chord, ChordType, Note, NoteWithOctave, Octave, ChordFilter } from '../types/music';
 import { WHITE_KEYS, BLACK_KEYS } from '../types/music';
 import {
@@ -655,6 +656,13 @@ describe('ChordEngine', () => {
       };
       expect(ChordEngine.getChordName(chord)).toBe('F/C');
     });
+
+    it('should spell the name in a key when one is given', () => {
+      const chord = ChordEngine.buildChord('D#', 'major', 4, 2);
+
+      expect(ChordEngine.getChordName(chord)).toBe('D#/A#');
+      expect(ChordEngine.getChordName(chord, { key: 'A#', scale: 'major' })).toBe('E♭/B♭');
+    });
   });
 
   describe('validateChord', () => {
@@ -1872,4 +1880,67 @@ describe('ChordEngine', () => {
       });
     });
   });
+
+  describe('custom chord types', () => {
+    const sixNine = {
+      id: 'custom-six-nine' as const,
+      name: 'Six Nine',
+      suffix: '6/9',
+      intervals: [0, 4, 7, 9, 14],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z'
+    };
+
+    afterEach(() => {
+      setCustomChordTypes([]);
+      ChordEngine.clearChordFilterCache();
+    });
+
+    it('should build a registered custom chord type', () => {
+      setCustomChordTypes([sixNine]);
+
+      const chord = ChordEngine.buildChord('C', sixNine.id, 4);
+
+      expect(chord.name).toBe('C6/9');
+      expect(chord.notes.map(n => `${n.note}${n.octave}`)).toEqual(['C4', 'E4', 'G4', 'A4', 'D5']);
+      expect(ChordEngine.validateChord(chord)).toBe(true);
+    });
+
+    it('should name inversions of a custom chord type after the bass note', () => {
+      setCustomChordTypes([sixNine]);
+
+      expect(ChordEngine.buildChord('C', sixNine.id, 4, 1).name).toBe('C6/9/E');
+    });
+
+    it('should throw for a custom chord type that is not registered', () => {
+      expect(() => ChordEngine.buildChord('C', sixNine.id, 4)).toThrow('Unknown chord type');
+    });
+
+    it('should recognize a custom chord type from its notes', () => {
+      setCustomChordTypes([sixNine]);
+
+      const chord = ChordEngine.getChordFromNotes([
+        { note: 'D', octave: 4 }, { note: 'F#', octave: 4 }, { note: 'A', octave: 4 },
+        { note: 'B', octave: 4 }, { note: 'E', octave: 5 }
+      ]);
+
+      expect(chord?.type).toBe(sixNine.id);
+      expect(chord?.root).toBe('D');
+    });
+
+    it('should not reuse cached chords after a custom formula changes', () => {
+      const filter: ChordFilter = {
+        allowedChordTypes: [sixNine.id],
+        allowedRootNotes: ['C'],
+        allowedOctaves: [4],
+        includeInversions: false
+      };
+      setCustomChordTypes([sixNine]);
+      expect(ChordEngine.getRandomChordFromFilter(filter).notes).toHaveLength(5);
+
+      setCustomChordTypes([{ ...sixNine, intervals: [0, 4, 7, 9] }]);
+
+      expect(ChordEngine.getRandomChordFromFilter(filter).notes).toHaveLength(4);
+    });
+  });
 });
@@ -10,10 +10,11 @@
  * @module utils/chordEngine
  */
 
-import type { Note, NoteWithOctave, Chord, ChordType, Octave, ChordFilter } from '../types/music';
-import { CHORD_FORMULAS, formatChordName } from '../constants/chords';
+import type { Note, NoteWithOctave, Chord, ChordType, Octave, ChordFilter, KeyContext } from '../types/music';
 import { ALL_NOTES } from '../types/music';
 import { getScaleNotes } from '../constants/scales';
+import { getChordFormula, getChordSuffix, getAllChordFormulas, isCustomChordType } from './chordTypeRegistry';
+import { spellChordName } from './noteSpelling';
 
 /**
  * Utility class for chord operations including generation, recognition, and validation
@@ -78,8 +79,8 @@ export class ChordEngine {
    * // Returns notes: [C4, E4, G#4] (uses G# not Ab)
    */
   static buildChord(root: Note, type: ChordType, octave: number, inversion: number = 0): Chord {
-    // Get the interval formula for this chord type
-    const intervals = CHORD_FORMULAS[type];
+    // Get the interval formula for this chord type (built-in or user-defined)
+    const intervals = getChordFormula(type);
     if (!intervals) {
       throw new Error(`Unknown chord type: ${type}`);
     }
@@ -169,7 +170,12 @@ export class ChordEngine {
   /**
    * Formats a chord name with proper music notation conventions
    *
+   * Without a key the name uses the stored sharp spelling ("D#", "C/E"), which
+   * is what stats, history and review scheduling are keyed by. Pass a key to
+   * get the name as written in that key, for display.
+   *
    * @param chord - The chord to name (only needs root, type, and optionally inversion)
+   * @param keyContext - Optional key to spell the root and bass note in
    * @returns Formatted chord name following standard notation
    *
    * @example
@@ -180,10 +186,17 @@ export class ChordEngine {
    *
    * @example
    * getChordName({ root: 'C', type: 'major', inversion: 1, notes: [{note: 'E', octave: 4}, ...] }) // "C/E"
+   *
+   * @example
+   * getChordName({ root: 'D#', type: 'major', inversion: 0 }, { key: 'A#', scale: 'major' }) // "E♭"
    */
-  static getChordName(chord: Pick<Chord, 'root' | 'type' | 'inversion' | 'notes'>): string {
-    // Use the formatChordName helper from constants/chords
-    let name = formatChordName(chord.root, chord.type);
+  static getChordName(chord: Pick<Chord, 'root' | 'type' | 'inversion' | 'notes'>, keyContext?: KeyContext): string {
+    if (keyContext) {
+      return spellChordName(chord, keyContext);
+    }
+
+    // Look up the suffix so user-defined chord types are named too
+    let name = `${chord.root}${getChordSuffix(chord.type) ?? ''}`;
 
     // Add inversion notation if not in root position
     // Format: ChordName/BassNote (e.g., "C/E" for C major in 1st inversion)
@@ -220,7 +233,7 @@ export class ChordEngine {
     }
 
     // Get expected intervals for this chord type
-    const expectedIntervals = CHORD_FORMULAS[chord.type];
+    const expectedIntervals = getChordFormula(chord.type);
     if (!expectedIntervals) {
       return false;
     }
@@ -283,7 +296,7 @@ export class ChordEngine {
    * 1. Sort notes by pitch
    * 2. Try each note as the potential root
    * 3. Calculate intervals from that root to all other notes
-   * 4. Match intervals against CHORD_FORMULAS
+   * 4. Match intervals against the formulas of all chord types, built-in first
    * 5. Check for inversions if root position doesn't match
    * 6. Prefer simpler chord names when multiple matches exist
    *
@@ -325,7 +338,7 @@ export class ChordEngine {
     };
 
     // Try to match against known chord formulas
-    for (const [chordType, formula] of Object.entries(CHORD_FORMULAS)) {
+    for (const [chordType, formula] of getAllChordFormulas()) {
       const normalizedFormula = normalizeIntervals(formula).sort((a, b) => a - b);
 
       // Try each position as the potential root position
@@ -363,7 +376,7 @@ export class ChordEngine {
           const chord: Chord = {
             name: '', // Will be set below
             root: potentialRoot.note,
-            type: chordType as ChordType,
+            type: chordType,
             notes: sortedNotes,
             inversion
           };
@@ -385,12 +398,15 @@ export class ChordEngine {
    *
    * This creates a deterministic string representation of the filter settings
    * by sorting arrays to ensure consistent keys for equivalent filters.
+   * User-defined chord types are keyed with their formula, so editing one
+   * does not reuse chords built from the old formula.
    *
    * @param filter - The ChordFilter to generate a key for
    * @returns A unique string key representing the filter configuration
    */
   private static getFilterCacheKey(filter: ChordFilter): string {
-    const sortedTypes = [...filter.allowedChordTypes].sort();
+    const sortedTypes = [...filter.allowedChordTypes].sort()
+      .map(type => isCustomChordType(type) ? `${type}=${getChordFormula(type)?.join('.')}` : type);
     const sortedRootNotes = filter.allowedRootNotes
       ? [...filter.allowedRootNotes].sort()
       : null;
@@ -437,7 +453,7 @@ export class ChordEngine {
     const rootNotes = filter.allowedRootNotes ?? ALL_NOTES;
 
     for (const chordType of filter.allowedChordTypes) {
-      const formula = CHORD_FORMULAS[chordType];
+      const formula = getChordFormula(chordType);
       if (!formula) continue;
 
       for (const rootNote of rootNotes) {
@@ -495,7 +511,8 @@ export class ChordEngine {
    *
    * **Distribution:**
    * Each valid chord has equal probability of being selected. The method builds
-   * an array of all possible combinations and picks a random index.
+   * an array of all possible combinations and picks a random index. Pass a
+   * `select` function (e.g., `reviewScheduler.selectChord`) to weight the pick instead.
    *
    * **Edge Cases:**
    * - If no valid chords exist with the current filter, throws an error
@@ -503,6 +520,7 @@ export class ChordEngine {
    * - Empty allowedChordTypes or allowedOctaves will result in no valid chords
    *
    * @param filter - ChordFilter configuration specifying which chords are allowed
+   * @param select - Optional function that picks one of the valid chords
    * @returns A randomly selected Chord object matching the filter constraints
    * @throws {Error} If no valid chords are available with current filter settings
    * @throws {Error} If no valid chords match the filter (including keyFilter)
@@ -527,7 +545,7 @@ export class ChordEngine {
    * };
    * const chord = ChordEngine.getRandomChordFromFilter(filter);
    */
-  static getRandomChordFromFilter(filter: ChordFilter): Chord {
+  static getRandomChordFromFilter(filter: ChordFilter, select?: (candidates: Chord[]) => Chord): Chord {
     // Check cache first
     const cacheKey = this.getFilterCacheKey(filter);
     let validChords = this.chordFilterCache.get(cacheKey);
@@ -552,7 +570,7 @@ export class ChordEngine {
           for (const rootNote of rootNotes) {
             for (const octave of filter.allowedOctaves) {
               // Determine which inversions to try
-              const formula = CHORD_FORMULAS[chordType];
+              const formula = getChordFormula(chordType);
               if (!formula) {
                 continue; // Skip unknown chord types
               }
@@ -586,6 +604,10 @@ export class ChordEngine {
       this.chordFilterCache.set(cacheKey, validChords);
     }
 
+    if (select) {
+      return select(validChords);
+    }
+
     // Select a random chord with even distribution
     const randomIndex = Math.floor(Math.random() * validChords.length);
     return validChords[randomIndex];
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeChordPerformance } from './chordPerformance';
+import type { NoteWithOctave } from '../types/music';
+import { ChordType } from '../types/music';
+import type { MidiNoteEvent } from '../types/midi';
+import { ChordEngine } from './chordEngine';
+import { noteWithOctaveToMidiNote } from './midiUtils';
+
+const noteOn = (note: NoteWithOctave, timestamp: number, velocity = 90): MidiNoteEvent => ({
+  note,
+  midiNote: noteWithOctaveToMidiNote(note),
+  velocity,
+  timestamp
+});
+
+describe('analyzeChordPerformance', () => {
+  const cMajor = ChordEngine.buildChord('C', ChordType.MAJOR, 4);
+
+  it('measures the spread between the first and last note on', () => {
+    const performance = analyzeChordPerformance([
+      noteOn({ note: 'E', octave: 4 }, 1010),
+      noteOn({ note: 'C', octave: 4 }, 1000),
+      noteOn({ note: 'G', octave: 4 }, 1020)
+    ], cMajor, 80);
+
+    expect(performance.timingSpread).toBe(20);
+    expect(performance.isSimultaneous).toBe(true);
+    expect(performance.playedNotes[0]).toEqual({ note: 'C', octave: 4 });
+  });
+
+  it('flags notes that start outside the onset window', () => {
+    const performance = analyzeChordPerformance([
+      noteOn({ note: 'C', octave: 4 }, 1000),
+      noteOn({ note: 'E', octave: 4 }, 1050),
+      noteOn({ note: 'G', octave: 4 }, 1150)
+    ], cMajor, 80);
+
+    expect(performance.timingSpread).toBe(150);
+    expect(performance.isSimultaneous).toBe(false);
+  });
+
+  it('rates how evenly the notes are played', () => {
+    const even = analyzeChordPerformance(cMajor.notes.map(note => noteOn(note, 1000, 80)), cMajor, 80);
+    const uneven = analyzeChordPerformance([
+      noteOn({ note: 'C', octave: 4 }, 1000, 90),
+      noteOn({ note: 'E', octave: 4 }, 1000, 90),
+      noteOn({ note: 'G', octave: 4 }, 1000, 70)
+    ], cMajor, 80);
+
+    expect(even.velocityBalance).toBe(100);
+    expect(uneven.velocityBalance).toBe(84);
+    expect(uneven.averageVelocity).toBe(83);
+  });
+
+  it('scores the voicing against the written octaves', () => {
+    const performance = analyzeChordPerformance([
+      noteOn({ note: 'C', octave: 4 }, 1000),
+      noteOn({ note: 'E', octave: 5 }, 1000),
+      noteOn({ note: 'G', octave: 4 }, 1000)
+    ], cMajor, 80);
+
+    expect(performance.voicingAccuracy).toBeCloseTo(200 / 3);
+  });
+
+  it('only counts the first press of a repeated key', () => {
+    const performance = analyzeChordPerformance([
+      noteOn({ note: 'C', octave: 4 }, 1000),
+      noteOn({ note: 'C', octave: 4 }, 1300)
+    ], cMajor, 80);
+
+    expect(performance.playedNotes).toEqual([{ note: 'C', octave: 4 }]);
+    expect(performance.timingSpread).toBe(0);
+  });
+
+  it('reports nothing played for an empty attempt', () => {
+    expect(analyzeChordPerformance([], cMajor, 80)).toMatchObject({ playedNotes: [], isSimultaneous: false });
+  });
+});
@@ -0,0 +1,73 @@
+import type { Chord } from '../types/music';
+import type { ChordPerformance, MidiNoteEvent } from '../types/midi';
+
+/** Onset window used when the settings don't give one, in milliseconds */
+export const DEFAULT_ONSET_WINDOW = 80;
+
+/** Highest MIDI velocity */
+const MAX_VELOCITY = 127;
+
+/**
+ * Analyzes a chord played on a MIDI keyboard.
+ *
+ * The note on events of one attempt are compared with the chord:
+ * - Timing spread is the time between the first and last note on, using each
+ *   event's `timestamp`; the chord counts as simultaneous when it fits the onset window
+ * - Velocity balance is 100 when every note is equally loud and drops with
+ *   the difference between the loudest and softest note
+ * - Voicing accuracy is the share of the chord's notes played at their written pitch
+ *
+ * Repeated presses of the same key only count the first one.
+ *
+ * @param events - Note on events of the attempt, in any order
+ * @param chord - The chord that should have been played
+ * @param onsetWindow - Milliseconds within which all notes must start
+ * @returns The performance analysis
+ *
+ * @example
+ * // C major played 20ms apart with a softer top note
+ * analyzeChordPerformance([
+ *   { note: { note: 'C', octave: 4 }, midiNote: 60, velocity: 90, timestamp: 1000 },
+ *   { note: { note: 'E', octave: 4 }, midiNote: 64, velocity: 90, timestamp: 1010 },
+ *   { note: { note: 'G', octave: 4 }, midiNote: 67, velocity: 70, timestamp: 1020 }
+ * ], cMajor, 80)
+ * // { timingSpread: 20, isSimultaneous: true, velocityBalance: 84, voicingAccuracy: 100, ... }
+ */
+export function analyzeChordPerformance(
+  events: MidiNoteEvent[],
+  chord: Chord,
+  onsetWindow: number
+): ChordPerformance {
+  const firstPresses = [...events]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .filter((event, index, sorted) => sorted.findIndex(e => e.midiNote === event.midiNote) === index);
+
+  if (firstPresses.length === 0) {
+    return {
+      playedNotes: [],
+      timingSpread: 0,
+      isSimultaneous: false,
+      velocityBalance: 0,
+      averageVelocity: 0,
+      voicingAccuracy: 0
+    };
+  }
+
+  const onsets = firstPresses.map(event => event.timestamp);
+  const velocities = firstPresses.map(event => event.velocity);
+  const timingSpread = Math.max(...onsets) - Math.min(...onsets);
+  const velocityRange = Math.max(...velocities) - Math.min(...velocities);
+
+  const voicedNotes = chord.notes.filter(chordNote =>
+    firstPresses.some(event => event.note.note === chordNote.note && event.note.octave === chordNote.octave)
+  );
+
+  return {
+    playedNotes: firstPresses.map(event => event.note),
+    timingSpread,
+    isSimultaneous: timingSpread <= onsetWindow,
+    velocityBalance: Math.round(100 * (1 - velocityRange / MAX_VELOCITY)),
+    averageVelocity: Math.round(velocities.reduce((sum, velocity) => sum + velocity, 0) / velocities.length),
+    voicingAccuracy: chord.notes.length > 0 ? (voicedNotes.length / chord.notes.length) * 100 : 0
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildChordPlaybackSteps, getNoteSpacingSeconds } from './chordPlayback';
+import type { ChordPlaybackStyle, NoteWithOctave } from '../types/music';
+
+const C4: NoteWithOctave = { note: 'C', octave: 4 };
+const E4: NoteWithOctave = { note: 'E', octave: 4 };
+const G4: NoteWithOctave = { note: 'G', octave: 4 };
+const B4: NoteWithOctave = { note: 'B', octave: 4 };
+
+// 8th notes at 120 bpm are a quarter of a second apart
+const playback = (style: ChordPlaybackStyle) => ({ style, tempo: 120, noteSpacing: '8n' as const });
+const order = (style: ChordPlaybackStyle, notes: NoteWithOctave[] = [C4, E4, G4]) =>
+  buildChordPlaybackSteps(notes, playback(style)).map(step => step.notes);
+
+describe('getNoteSpacingSeconds', () => {
+  it('converts note values to seconds at the tempo', () => {
+    expect(getNoteSpacingSeconds(60, '4n')).toBe(1);
+    expect(getNoteSpacingSeconds(120, '8n')).toBe(0.25);
+    expect(getNoteSpacingSeconds(120, '16n')).toBe(0.125);
+  });
+});
+
+describe('buildChordPlaybackSteps', () => {
+  it('plays a block chord in one step', () => {
+    expect(buildChordPlaybackSteps([C4, E4, G4], playback('block'))).toEqual([
+      { notes: [C4, E4, G4], offset: 0 }
+    ]);
+  });
+
+  it('arpeggiates upwards one note spacing apart', () => {
+    expect(buildChordPlaybackSteps([C4, E4, G4], playback('arpeggio-up'))).toEqual([
+      { notes: [C4], offset: 0 },
+      { notes: [E4], offset: 0.25 },
+      { notes: [G4], offset: 0.5 }
+    ]);
+  });
+
+  it('arpeggiates downwards from the top note', () => {
+    expect(order('arpeggio-down')).toEqual([[G4], [E4], [C4]]);
+  });
+
+  it('turns at the top note without repeating it', () => {
+    expect(order('arpeggio-up-down')).toEqual([[C4], [E4], [G4], [E4], [C4]]);
+  });
+
+  it('breaks a triad as bass, top, middle, top', () => {
+    expect(order('broken')).toEqual([[C4], [G4], [E4], [G4]]);
+  });
+
+  it('alternates every inner note with the top note for larger chords', () => {
+    expect(order('broken', [C4, E4, G4, B4])).toEqual([[C4], [B4], [E4], [B4], [G4], [B4]]);
+  });
+
+  it('plays the bass note before the rest of the chord', () => {
+    expect(buildChordPlaybackSteps([C4, E4, G4], playback('bass-then-chord'))).toEqual([
+      { notes: [C4], offset: 0 },
+      { notes: [E4, G4], offset: 0.25 }
+    ]);
+  });
+
+  it('sorts notes by pitch before ordering them', () => {
+    const inversion: NoteWithOctave[] = [{ note: 'C', octave: 5 }, E4, G4];
+
+    expect(order('arpeggio-up', inversion)).toEqual([[E4], [G4], [{ note: 'C', octave: 5 }]]);
+  });
+
+  it('returns no steps for an empty chord', () => {
+    expect(buildChordPlaybackSteps([], playback('arpeggio-up'))).toEqual([]);
+  });
+});
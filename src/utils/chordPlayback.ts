@@ -0,0 +1,79 @@
+import type { ChordPlaybackSettings, NoteSpacing, NoteWithOctave } from '../types/music';
+import { noteWithOctaveToMidiNote } from './midiUtils';
+
+/** Notes started together at an offset from the start of the chord */
+export interface PlaybackStep {
+  notes: NoteWithOctave[];
+  offset: number; // seconds
+}
+
+/** Length of each note spacing in beats */
+const SPACING_BEATS: Record<NoteSpacing, number> = {
+  '4n': 1,
+  '8n': 0.5,
+  '16n': 0.25
+};
+
+/**
+ * Converts a note spacing to seconds at a tempo.
+ *
+ * @example
+ * getNoteSpacingSeconds(120, '8n') // 0.25
+ */
+export function getNoteSpacingSeconds(tempo: number, spacing: NoteSpacing): number {
+  return (60 / tempo) * SPACING_BEATS[spacing];
+}
+
+/**
+ * Orders the notes of a chord the way a playback style plays them.
+ *
+ * Notes are sorted by pitch first, so the result doesn't depend on how the
+ * chord lists its notes. Each step starts one note spacing after the previous one.
+ *
+ * @param notes - Notes of the chord
+ * @param playback - Playback style, tempo and note spacing
+ * @returns Steps to play, in order
+ *
+ * @example
+ * // C major, broken, 8th notes at 120 bpm
+ * buildChordPlaybackSteps([C4, E4, G4], { style: 'broken', tempo: 120, noteSpacing: '8n' })
+ * // [{ notes: [C4], offset: 0 }, { notes: [G4], offset: 0.25 }, { notes: [E4], offset: 0.5 }, { notes: [G4], offset: 0.75 }]
+ */
+export function buildChordPlaybackSteps(notes: NoteWithOctave[], playback: ChordPlaybackSettings): PlaybackStep[] {
+  const ascending = [...notes].sort((a, b) => noteWithOctaveToMidiNote(a) - noteWithOctaveToMidiNote(b));
+  if (ascending.length === 0) {
+    return [];
+  }
+
+  const bass = ascending[0];
+  const top = ascending[ascending.length - 1];
+  const upper = ascending.slice(1);
+
+  let groups: NoteWithOctave[][];
+  switch (playback.style) {
+    case 'arpeggio-up':
+      groups = ascending.map(note => [note]);
+      break;
+    case 'arpeggio-down':
+      groups = [...ascending].reverse().map(note => [note]);
+      break;
+    case 'arpeggio-up-down':
+      // The top note is only played once at the turn
+      groups = [...ascending, ...ascending.slice(0, -1).reverse()].map(note => [note]);
+      break;
+    case 'broken':
+      groups = ascending.length < 3
+        ? ascending.map(note => [note])
+        : [[bass], ...upper.slice(0, -1).flatMap(note => [[top], [note]]), [top]];
+      break;
+    case 'bass-then-chord':
+      groups = upper.length > 0 ? [[bass], upper] : [[bass]];
+      break;
+    case 'block':
+    default:
+      groups = [ascending];
+  }
+
+  const spacing = getNoteSpacingSeconds(playback.tempo, playback.noteSpacing);
+  return groups.map((group, index) => ({ notes: group, offset: index * spacing }));
+}
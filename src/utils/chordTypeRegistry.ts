@@ -0,0 +1,138 @@
+/**
+ * Chord Type Registry
+ *
+ * Looks up the formula, suffix and display name of any chord type, built-in
+ * or user-defined. Built-in chord types come from constants/chords; custom
+ * chord types are registered here when they are loaded from storage or edited,
+ * so ChordEngine and chord validation see them without reloading the app.
+ *
+ * @module utils/chordTypeRegistry
+ */
+
+import type { BuiltInChordType, ChordType, CustomChordTypeId } from '../types/music';
+import type { CustomChordTypeDefinition } from '../types/presets';
+import { CHORD_FORMULAS, CHORD_NAME_FORMATS } from '../constants/chords';
+import { CHORD_TYPE_DISPLAY_NAMES } from '../constants/chordDisplayNames';
+
+const CUSTOM_CHORD_TYPE_PREFIX = 'custom-';
+
+let customChordTypes: CustomChordTypeDefinition[] = [];
+
+/**
+ * Replaces the registered custom chord types.
+ *
+ * @param types - All custom chord types, in display order
+ */
+export function setCustomChordTypes(types: CustomChordTypeDefinition[]): void {
+  customChordTypes = types.map(type => ({ ...type, intervals: [...type.intervals] }));
+}
+
+/**
+ * Gets all registered custom chord types, in display order.
+ */
+export function getCustomChordTypes(): CustomChordTypeDefinition[] {
+  return customChordTypes;
+}
+
+/**
+ * Checks whether a chord type id belongs to a user-defined chord type.
+ * Only checks the id format; the type may no longer be registered.
+ */
+export function isCustomChordType(type: string): type is CustomChordTypeId {
+  return typeof type === 'string' && type.startsWith(CUSTOM_CHORD_TYPE_PREFIX);
+}
+
+/**
+ * Creates a new, unique custom chord type id.
+ */
+export function generateCustomChordTypeId(): CustomChordTypeId {
+  return `${CUSTOM_CHORD_TYPE_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Gets a registered custom chord type by id.
+ */
+export function getCustomChordType(type: ChordType): CustomChordTypeDefinition | undefined {
+  return isCustomChordType(type) ? customChordTypes.find(t => t.id === type) : undefined;
+}
+
+/**
+ * Gets the interval formula (semitones from root) of a chord type.
+ *
+ * @returns The formula, or undefined for an unknown or deleted chord type
+ *
+ * @example
+ * getChordFormula('major') // [0, 4, 7]
+ */
+export function getChordFormula(type: ChordType): number[] | undefined {
+  if (isCustomChordType(type)) {
+    return getCustomChordType(type)?.intervals;
+  }
+  return CHORD_FORMULAS[type];
+}
+
+/**
+ * Gets the suffix written after the root in a chord name.
+ *
+ * @returns The suffix ('' for major), or undefined for an unknown or deleted chord type
+ *
+ * @example
+ * getChordSuffix('minor7') // 'm7'
+ */
+export function getChordSuffix(type: ChordType): string | undefined {
+  if (isCustomChordType(type)) {
+    return getCustomChordType(type)?.suffix;
+  }
+  return CHORD_NAME_FORMATS[type];
+}
+
+/**
+ * Gets the user-friendly name of a chord type, falling back to the id itself.
+ *
+ * @example
+ * getChordTypeDisplayName('dominant7') // 'Dominant 7th'
+ */
+export function getChordTypeDisplayName(type: ChordType): string {
+  if (isCustomChordType(type)) {
+    return getCustomChordType(type)?.name ?? type;
+  }
+  return CHORD_TYPE_DISPLAY_NAMES[type] ?? type;
+}
+
+/**
+ * Gets the formula of every known chord type, built-in types first.
+ * Used for chord recognition, where the first match wins.
+ */
+export function getAllChordFormulas(): [ChordType, number[]][] {
+  return [
+    ...(Object.entries(CHORD_FORMULAS) as [BuiltInChordType, number[]][]),
+    ...customChordTypes.map((type): [ChordType, number[]] => [type.id, type.intervals])
+  ];
+}
+
+/**
+ * Gets the suffix of every known chord type, built-in types first.
+ */
+export function getAllChordSuffixes(): [ChordType, string][] {
+  return [
+    ...(Object.entries(CHORD_NAME_FORMATS) as [BuiltInChordType, string][]),
+    ...customChordTypes.map((type): [ChordType, string] => [type.id, type.suffix])
+  ];
+}
+
+/**
+ * Reduces a suffix to the form used to compare spellings: lowercase,
+ * ASCII accidentals and no spaces, so "7♭9", "7b9" and "7 B9" are the same.
+ */
+export function getSuffixSpellingKey(suffix: string): string {
+  return suffix.toLowerCase().replace(/♭/g, 'b').replace(/♯/g, '#').replace(/\s+/g, '');
+}
+
+/**
+ * Finds the registered custom chord type written with a suffix, ignoring
+ * case, spaces and ASCII vs. Unicode accidentals.
+ */
+export function findCustomChordTypeBySuffix(suffix: string): CustomChordTypeDefinition | undefined {
+  const key = getSuffixSpellingKey(suffix);
+  return customChordTypes.find(type => getSuffixSpellingKey(type.suffix) === key);
+}
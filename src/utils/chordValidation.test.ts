@@ -2,12 +2,15 @@
  * Unit tests for chord validation utilities
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import {
   normalizeChordName,
   getEnharmonicEquivalents,
   validateChordGuess,
+  getChordTypeFromName,
 } from './chordValidation';
+import { setCustomChordTypes } from './chordTypeRegistry';
+import { ChordEngine } from './chordEngine';
 import type { Chord } from '../types/music';
 
 describe('chordValidation', () => {
@@ -120,6 +123,32 @@ describe('chordValidation', () => {
     });
   });
 
+  describe('getChordTypeFromName', () => {
+    it('should return the chord type for standard names', () => {
+      expect(getChordTypeFromName('C')).toBe('major');
+      expect(getChordTypeFromName('F#m7')).toBe('minor7');
+      expect(getChordTypeFromName('Cm7♭5')).toBe('halfDiminished7');
+      expect(getChordTypeFromName('G13')).toBe('dominant13');
+    });
+
+    it('should accept alternative spellings', () => {
+      expect(getChordTypeFromName('Bb maj7')).toBe('major7');
+      expect(getChordTypeFromName('d minor')).toBe('minor');
+      expect(getChordTypeFromName('C#m7b5')).toBe('halfDiminished7');
+    });
+
+    it('should ignore the bass note of slash chords', () => {
+      expect(getChordTypeFromName('C/E')).toBe('major');
+      expect(getChordTypeFromName('Am7/G')).toBe('minor7');
+    });
+
+    it('should return null for unrecognized names', () => {
+      expect(getChordTypeFromName('')).toBeNull();
+      expect(getChordTypeFromName('Wrong')).toBeNull();
+      expect(getChordTypeFromName('Cxyz')).toBeNull();
+    });
+  });
+
   describe('validateChordGuess', () => {
     const createChord = (
       root: string,
@@ -476,5 +505,91 @@ describe('chordValidation', () => {
         });
       });
     });
+
+    describe('with a key', () => {
+      const bFlatMajor = { key: 'A#', scale: 'major' } as const;
+      const eFlatMajor = ChordEngine.buildChord('D#', 'major', 4);
+
+      it('should not flag the spelling used in the key as enharmonic', () => {
+        const result = validateChordGuess('Eb', eFlatMajor, bFlatMajor);
+        expect(result.isCorrect).toBe(true);
+        expect(result.isEnharmonic).toBe(false);
+        expect(validateChordGuess('E♭', eFlatMajor, bFlatMajor).isEnharmonic).toBe(false);
+      });
+
+      it('should still accept other spellings, flagged as enharmonic', () => {
+        const result = validateChordGuess('D#', eFlatMajor, bFlatMajor);
+        expect(result.isCorrect).toBe(true);
+        expect(result.isEnharmonic).toBe(true);
+      });
+
+      it('should compare the spelling of the bass note', () => {
+        const firstInversion = ChordEngine.buildChord('D#', 'major', 4, 1);
+        expect(validateChordGuess('Eb/G', firstInversion, bFlatMajor).isEnharmonic).toBe(false);
+
+        const secondInversion = ChordEngine.buildChord('D#', 'major', 4, 2);
+        expect(validateChordGuess('Eb/A#', secondInversion, bFlatMajor).isEnharmonic).toBe(true);
+      });
+
+      it('should name the answer as spelled in the key', () => {
+        expect(validateChordGuess('Dm', eFlatMajor, bFlatMajor).feedback).toBe('Incorrect. The correct answer is E♭.');
+      });
+    });
+
+    it('should accept double accidentals in the bass note', () => {
+      const chord = ChordEngine.buildChord('C', 'diminished7', 4, 3);
+      expect(validateChordGuess('Cdim7/B𝄫', chord).isCorrect).toBe(true);
+      expect(validateChordGuess('Cdim7/Bbb', chord).isCorrect).toBe(true);
+      expect(validateChordGuess('D#/Fx', ChordEngine.buildChord('D#', 'major', 4, 1)).isCorrect).toBe(true);
+    });
+  });
+
+  describe('custom chord types', () => {
+    const sevenFlatNine = {
+      id: 'custom-seven-flat-nine' as const,
+      name: 'Dominant 7th flat 9',
+      suffix: '7♭9',
+      intervals: [0, 4, 7, 10, 13],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z'
+    };
+    const sixNine = { ...sevenFlatNine, id: 'custom-six-nine' as const, name: 'Six Nine', suffix: '6/9', intervals: [0, 4, 7, 9, 14] };
+
+    const chordG7b9: Chord = {
+      name: 'G7♭9',
+      root: 'G',
+      type: sevenFlatNine.id,
+      notes: [
+        { note: 'G', octave: 3 }, { note: 'B', octave: 3 }, { note: 'D', octave: 4 },
+        { note: 'F', octave: 4 }, { note: 'G#', octave: 4 }
+      ],
+      inversion: 0
+    };
+
+    afterEach(() => {
+      setCustomChordTypes([]);
+    });
+
+    it('should accept a custom suffix regardless of case and accidental style', () => {
+      setCustomChordTypes([sevenFlatNine]);
+
+      expect(validateChordGuess('G7♭9', chordG7b9).isCorrect).toBe(true);
+      expect(validateChordGuess('G7b9', chordG7b9).isCorrect).toBe(true);
+      expect(validateChordGuess('g7B9', chordG7b9).isCorrect).toBe(true);
+      expect(validateChordGuess('G7', chordG7b9).isCorrect).toBe(false);
+    });
+
+    it('should keep a slash that is part of a custom suffix', () => {
+      setCustomChordTypes([sixNine]);
+
+      expect(normalizeChordName('C6/9')).toBe('C6/9');
+      expect(normalizeChordName('Db6/9/F')).toBe('C#6/9/F');
+      expect(getChordTypeFromName('C6/9')).toBe(sixNine.id);
+      expect(getChordTypeFromName('C6/9/E')).toBe(sixNine.id);
+    });
+
+    it('should not recognize a custom suffix once the chord type is removed', () => {
+      expect(getChordTypeFromName('G7♭9')).toBeNull();
+    });
   });
 });
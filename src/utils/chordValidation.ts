@@ -8,8 +8,9 @@
  * @module utils/chordValidation
  */
 
-import type { Note, Chord } from '../types/music';
-import { CHORD_NAME_FORMATS } from '../constants/chords';
+import type { Note, Chord, ChordType, KeyContext } from '../types/music';
+import { getChordSuffix, getAllChordSuffixes, findCustomChordTypeBySuffix } from './chordTypeRegistry';
+import { spellChordName } from './noteSpelling';
 
 /**
  * Result of a chord validation operation
@@ -213,7 +214,8 @@ const SHARP_TO_FLAT_MAP: Record<string, string> = {
  *
  * Theoretical enharmonics: This map now includes theoretical enharmonics
  * (B#/C, Cb/B, E#/F, Fb/E) for comprehensive support, though they are rare
- * in practical music contexts.
+ * in practical music contexts. Double accidentals are accepted too, so a
+ * spelled slash chord such as "Cdim7/B𝄫" can be typed back in.
  */
 const NOTE_ALIASES: Record<string, Note> = {
   // Standard enharmonic pairs (sharps and flats)
@@ -242,6 +244,16 @@ const NOTE_ALIASES: Record<string, Note> = {
   'Fb': 'E',
   'F♭': 'E',
 
+  // Double flats and double sharps, as used in spelled chord tones
+  // (e.g., the B𝄫 of Cdim7 or the F𝄪 of D# major)
+  'Cbb': 'A#', 'C𝄫': 'A#', 'C##': 'D', 'Cx': 'D', 'C𝄪': 'D',
+  'Dbb': 'C', 'D𝄫': 'C', 'D##': 'E', 'Dx': 'E', 'D𝄪': 'E',
+  'Ebb': 'D', 'E𝄫': 'D', 'E##': 'F#', 'Ex': 'F#', 'E𝄪': 'F#',
+  'Fbb': 'D#', 'F𝄫': 'D#', 'F##': 'G', 'Fx': 'G', 'F𝄪': 'G',
+  'Gbb': 'F', 'G𝄫': 'F', 'G##': 'A', 'Gx': 'A', 'G𝄪': 'A',
+  'Abb': 'G', 'A𝄫': 'G', 'A##': 'B', 'Ax': 'B', 'A𝄪': 'B',
+  'Bbb': 'A', 'B𝄫': 'A', 'B##': 'C#', 'Bx': 'C#', 'B𝄪': 'C#',
+
   // Map natural notes and sharps to themselves for consistency
   'C': 'C',
   'C#': 'C#',
@@ -368,6 +380,7 @@ function parseChordName(chordName: string): { root: Note; suffix: string } | nul
  * - Removes extra whitespace
  * - Converts flat notation to sharp notation (Db → C#)
  * - Converts alternative chord suffixes to standard forms
+ * - Matches user-defined chord suffixes regardless of case and accidental style
  * - Handles slash notation for inversions
  *
  * @param chordName - The chord name to normalize
@@ -378,6 +391,7 @@ function parseChordName(chordName: string): { root: Note; suffix: string } | nul
  * normalizeChordName('f# minor') // 'F#m'
  * normalizeChordName('Db maj7') // 'C#maj7'
  * normalizeChordName('C/E') // 'C/E'
+ * normalizeChordName('C6/9/E') // 'C6/9/E' (with a custom "6/9" chord type)
  */
 export function normalizeChordName(chordName: string): string {
   // Handle empty input
@@ -385,8 +399,9 @@ export function normalizeChordName(chordName: string): string {
     return '';
   }
 
-  // Check for slash notation (inversions)
-  const slashIndex = chordName.indexOf('/');
+  // Check for slash notation (inversions). The bass note follows the last
+  // slash, since a custom suffix such as "6/9" may contain one too
+  const slashIndex = chordName.lastIndexOf('/');
   if (slashIndex !== -1) {
     // Split into chord and bass note
     const chordPart = chordName.substring(0, slashIndex).trim();
@@ -425,15 +440,44 @@ export function normalizeChordName(chordName: string): string {
     }
   }
 
-  // If still not found, use the original suffix
+  // If still not found, try user-defined chord types, then use the original suffix
   if (normalizedSuffix === undefined) {
-    normalizedSuffix = suffix;
+    normalizedSuffix = findCustomChordTypeBySuffix(suffix)?.suffix ?? suffix;
   }
 
   // Build the normalized chord name
   return `${root}${normalizedSuffix}`;
 }
 
+/**
+ * Gets the chord type (quality) from a chord name
+ *
+ * Accepts the same spellings as normalizeChordName. The root and any slash
+ * bass note are ignored, so inversions map to the type of the chord itself.
+ *
+ * @param chordName - The chord name to classify (e.g., "Cm7", "Db minor", "C/E")
+ * @returns The chord type, or null if the name is not a recognized chord
+ *
+ * @example
+ * getChordTypeFromName('F#m7') // 'minor7'
+ * getChordTypeFromName('Bb maj7') // 'major7'
+ * getChordTypeFromName('C/E') // 'major'
+ * getChordTypeFromName('Wrong') // null
+ */
+export function getChordTypeFromName(chordName: string): ChordType | null {
+  const normalized = normalizeChordName(chordName);
+  const slashIndex = normalized.lastIndexOf('/');
+  const chordPart = slashIndex !== -1 && normalizeNote(normalized.substring(slashIndex + 1))
+    ? normalized.substring(0, slashIndex)
+    : normalized;
+  const parsed = parseChordName(chordPart);
+  if (!parsed) return null;
+
+  const match = getAllChordSuffixes().find(([, suffix]) => suffix === parsed.suffix);
+
+  return match ? match[0] : null;
+}
+
 /**
  * Checks if a chord name contains flat notation (either 'b' or '♭')
  *
@@ -455,6 +499,29 @@ function containsFlatNotation(chordName: string): boolean {
   return /[b♭]/.test(chordName) && /[A-G][b♭]/.test(chordName);
 }
 
+/** Written accidentals in every accepted style, mapped to one style each */
+const WRITTEN_ACCIDENTALS: Record<string, string> = {
+  '': '', '#': '#', '♯': '#', 'b': '♭', '♭': '♭',
+  '##': '𝄪', 'x': '𝄪', '𝄪': '𝄪', 'bb': '𝄫', '𝄫': '𝄫',
+};
+
+/**
+ * Gets how the root and slash bass of a chord name are written, with the
+ * accidentals in one style, so "Ebm/Gb" and "E♭m/G♭" compare equal while
+ * "D#m/F#" does not.
+ */
+function getWrittenRootAndBass(chordName: string): string {
+  const written = (part: string) => {
+    const match = /^([A-Ga-g])(##|bb|[#♯b♭x]|𝄪|𝄫)?/u.exec(part.trim());
+    return match ? `${match[1].toUpperCase()}${WRITTEN_ACCIDENTALS[match[2] ?? '']}` : '';
+  };
+
+  const slashIndex = chordName.lastIndexOf('/');
+  return slashIndex === -1
+    ? written(chordName)
+    : `${written(chordName)}/${written(chordName.substring(slashIndex + 1))}`;
+}
+
 /**
  * Validates a user's chord name guess against the actual chord
  *
@@ -464,8 +531,13 @@ function containsFlatNotation(chordName: string): boolean {
  * - Enharmonic equivalents (e.g., "C#" vs "Db")
  * - Slash chord notation for inversions (e.g., "C/E")
  *
+ * Any enharmonic spelling is accepted. When a key is given, the feedback names
+ * the chord as written in that key, and a guess is only flagged as enharmonic
+ * when it is written differently from that (e.g., "D#" for E♭ in B♭ major).
+ *
  * @param guess - The user's chord name guess
  * @param actualChord - The actual chord to validate against
+ * @param keyContext - Optional key the chord was presented in
  * @returns ChordValidationResult with detailed feedback
  *
  * @example
@@ -473,12 +545,12 @@ function containsFlatNotation(chordName: string): boolean {
  * validateChordGuess('Dbm7', chordCSharpMinor7) // { isCorrect: true, isEnharmonic: true, ... }
  * validateChordGuess('C/E', chordCFirstInversion) // { isCorrect: true, ... }
  */
-export function validateChordGuess(guess: string, actualChord: Chord): ChordValidationResult {
+export function validateChordGuess(guess: string, actualChord: Chord, keyContext?: KeyContext): ChordValidationResult {
   // Store original guess for enharmonic detection
   const originalGuess = guess.trim();
 
   // Generate the canonical name for the actual chord
-  const canonicalName = `${actualChord.root}${CHORD_NAME_FORMATS[actualChord.type]}`;
+  const canonicalName = `${actualChord.root}${getChordSuffix(actualChord.type) ?? ''}`;
 
   // Add inversion notation if applicable
   let actualChordName = canonicalName;
@@ -493,9 +565,11 @@ export function validateChordGuess(guess: string, actualChord: Chord): ChordVali
 
   // Detect if user entered an enharmonic equivalent
   // Check if the original guess contained flat notation and the answer uses sharps
-  const usedFlatNotation = containsFlatNotation(originalGuess);
-  const answerUsesSharp = actualChordName.includes('#');
-  const isEnharmonic = usedFlatNotation && answerUsesSharp && normalizedGuess === normalizedAnswer;
+  const spelledAnswer = keyContext ? spellChordName(actualChord, keyContext) : actualChordName;
+  const isWrittenDifferently = keyContext
+    ? getWrittenRootAndBass(originalGuess) !== getWrittenRootAndBass(spelledAnswer)
+    : containsFlatNotation(originalGuess) && actualChordName.includes('#');
+  const isEnharmonic = isWrittenDifferently && normalizedGuess === normalizedAnswer;
 
   // Check for exact match after normalization
   if (normalizedGuess === normalizedAnswer) {
@@ -542,7 +616,7 @@ export function validateChordGuess(guess: string, actualChord: Chord): ChordVali
     isCorrect: false,
     normalizedGuess,
     normalizedAnswer,
-    feedback: `Incorrect. The correct answer is ${actualChordName}.`,
+    feedback: `Incorrect. The correct answer is ${spelledAnswer}.`,
     originalGuess,
   };
 }
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExercisePlayer } from './exercisePlayer';
+import { ChordType } from '../types/music';
+import type { Chord } from '../types/music';
+import type { CustomExercise } from '../types/settings';
+
+const chord = (root: Chord['root']): Chord => ({
+  name: root,
+  root,
+  type: ChordType.MAJOR,
+  notes: [{ note: root, octave: 4 }],
+  inversion: 0,
+});
+
+const chords: CustomExercise = { name: 'Cadence', kind: 'chords', chords: [chord('C'), chord('F'), chord('G')] };
+
+const melodies: CustomExercise = {
+  name: 'Tune',
+  kind: 'melodies',
+  melodies: [
+    { key: { key: 'C', scale: 'major' }, notes: [{ note: 'C', octave: 4 }, { note: 'D', octave: 4 }] },
+    { key: { key: 'C', scale: 'major' }, notes: [{ note: 'E', octave: 4 }] },
+  ],
+};
+
+describe('ExercisePlayer', () => {
+  let player: ExercisePlayer;
+
+  beforeEach(() => {
+    player = new ExercisePlayer();
+  });
+
+  it('hands out the chords in order and starts again after the last', () => {
+    player.setExercise(chords);
+
+    const roots = Array.from({ length: 4 }, () => player.nextChord()?.root);
+
+    expect(roots).toEqual(['C', 'F', 'G', 'C']);
+  });
+
+  it('goes through melodies phrase by phrase or note by note', () => {
+    player.setExercise(melodies);
+    expect(player.nextMelody()?.notes[0].note).toBe('C');
+    expect(player.nextMelody()?.notes[0].note).toBe('E');
+
+    player.restart();
+    expect([player.nextNote(), player.nextNote(), player.nextNote()].map(note => note?.note)).toEqual(['C', 'D', 'E']);
+  });
+
+  it('has nothing for modes that need another kind, or without an exercise', () => {
+    expect(player.nextChord()).toBeNull();
+
+    player.setExercise(chords);
+    expect(player.nextMelody()).toBeNull();
+    expect(player.nextNote()).toBeNull();
+  });
+
+  it('starts from the top on restart or a new exercise, but not for the same one', () => {
+    player.setExercise(chords);
+    player.nextChord();
+
+    player.setExercise(chords);
+    expect(player.nextChord()?.root).toBe('F');
+
+    player.restart();
+    expect(player.nextChord()?.root).toBe('C');
+
+    player.setExercise({ ...chords });
+    expect(player.nextChord()?.root).toBe('C');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Exercise Player
+ *
+ * Hands out the chords, melodies or notes of an imported exercise in order,
+ * one per round, starting again from the top once the last is used. Game
+ * modes ask it first and fall back to their filters when it has nothing of
+ * the kind they need.
+ *
+ * @module utils/exercisePlayer
+ */
+
+import type { Chord, Melody, NoteWithOctave } from '../types/music';
+import type { CustomExercise } from '../types/settings';
+
+export class ExercisePlayer {
+  private exercise: CustomExercise | null = null;
+  private position = 0;
+
+  /**
+   * Sets the exercise to play, starting from its first item if it changed
+   * @param exercise - The exercise, or null to use the filters
+   */
+  setExercise(exercise: CustomExercise | null): void {
+    if (exercise !== this.exercise) {
+      this.exercise = exercise;
+      this.position = 0;
+    }
+  }
+
+  getExercise(): CustomExercise | null {
+    return this.exercise;
+  }
+
+  /**
+   * Goes back to the first item, for a new session
+   */
+  restart(): void {
+    this.position = 0;
+  }
+
+  /**
+   * Next chord of a chord exercise
+   * @returns The chord, or null if the exercise isn't made of chords
+   */
+  nextChord(): Chord | null {
+    if (this.exercise?.kind !== 'chords') {
+      return null;
+    }
+    return this.next(this.exercise.chords);
+  }
+
+  /**
+   * Next phrase of a melody exercise
+   * @returns The melody, or null if the exercise isn't made of melodies
+   */
+  nextMelody(): Melody | null {
+    if (this.exercise?.kind !== 'melodies') {
+      return null;
+    }
+    return this.next(this.exercise.melodies);
+  }
+
+  /**
+   * Next note of a melody exercise, going through each phrase note by note
+   * @returns The note, or null if the exercise isn't made of melodies
+   */
+  nextNote(): NoteWithOctave | null {
+    if (this.exercise?.kind !== 'melodies') {
+      return null;
+    }
+    return this.next(this.exercise.melodies.flatMap(melody => melody.notes));
+  }
+
+  /**
+   * Takes the item at the current position and moves on, wrapping around
+   * @private
+   */
+  private next<T>(items: T[]): T | null {
+    if (items.length === 0) {
+      return null;
+    }
+
+    const item = items[this.position % items.length];
+    this.position = (this.position + 1) % items.length;
+    return item;
+  }
+}
+
+// Export singleton instance for convenience (similar to reviewScheduler)
+export const exercisePlayer = new ExercisePlayer();
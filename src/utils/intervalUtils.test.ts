@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { transposeNote, getSemitoneDistance, buildInterval } from './intervalUtils';
+import { IntervalDirection } from '../types/music';
+
+describe('intervalUtils', () => {
+  describe('transposeNote', () => {
+    it('moves a note up within the same octave', () => {
+      expect(transposeNote({ note: 'C', octave: 4 }, 7)).toEqual({ note: 'G', octave: 4 });
+    });
+
+    it('wraps into the next octave when crossing B', () => {
+      expect(transposeNote({ note: 'A', octave: 4 }, 3)).toEqual({ note: 'C', octave: 5 });
+    });
+
+    it('moves a note down across an octave boundary', () => {
+      expect(transposeNote({ note: 'C', octave: 4 }, -1)).toEqual({ note: 'B', octave: 3 });
+    });
+
+    it('returns null when the result is outside octaves 1-8', () => {
+      expect(transposeNote({ note: 'C', octave: 1 }, -1)).toBeNull();
+      expect(transposeNote({ note: 'B', octave: 8 }, 1)).toBeNull();
+    });
+  });
+
+  describe('getSemitoneDistance', () => {
+    it('is symmetric and non-negative', () => {
+      const c4 = { note: 'C' as const, octave: 4 as const };
+      const e5 = { note: 'E' as const, octave: 5 as const };
+
+      expect(getSemitoneDistance(c4, e5)).toBe(16);
+      expect(getSemitoneDistance(e5, c4)).toBe(16);
+    });
+  });
+
+  describe('buildInterval', () => {
+    const start = { note: 'E' as const, octave: 4 as const };
+
+    it('places the second note above for ascending intervals', () => {
+      const interval = buildInterval(start, 5, IntervalDirection.ASCENDING);
+
+      expect(interval).toEqual({
+        firstNote: start,
+        secondNote: { note: 'A', octave: 4 },
+        semitones: 5,
+        direction: IntervalDirection.ASCENDING
+      });
+    });
+
+    it('places the second note below for descending intervals', () => {
+      const interval = buildInterval(start, 4, IntervalDirection.DESCENDING);
+
+      expect(interval?.secondNote).toEqual({ note: 'C', octave: 4 });
+    });
+
+    it('places the second note above for harmonic intervals', () => {
+      const interval = buildInterval(start, 12, IntervalDirection.HARMONIC);
+
+      expect(interval?.secondNote).toEqual({ note: 'E', octave: 5 });
+    });
+
+    it('returns null when the second note would be out of range', () => {
+      expect(buildInterval({ note: 'D', octave: 1 }, 5, IntervalDirection.DESCENDING)).toBeNull();
+    });
+  });
+});
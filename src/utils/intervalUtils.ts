@@ -0,0 +1,79 @@
+import type { NoteWithOctave, Octave, Interval } from '../types/music';
+import { ALL_NOTES, IntervalDirection } from '../types/music';
+
+const MIN_OCTAVE = 1;
+const MAX_OCTAVE = 8;
+
+/**
+ * Converts a note to an absolute pitch index (C1 = 12), matching the MIDI numbering used in midiUtils.
+ */
+function toPitchIndex(note: NoteWithOctave): number {
+  return note.octave * 12 + ALL_NOTES.indexOf(note.note);
+}
+
+/**
+ * Transposes a note by a number of semitones.
+ *
+ * @param note - The note to transpose
+ * @param semitones - Number of semitones to move (negative moves down)
+ * @returns The transposed note, or null if it falls outside the playable octaves (1-8)
+ *
+ * @example
+ * transposeNote({ note: 'C', octave: 4 }, 7)  // { note: 'G', octave: 4 }
+ * transposeNote({ note: 'C', octave: 4 }, -1) // { note: 'B', octave: 3 }
+ */
+export function transposeNote(note: NoteWithOctave, semitones: number): NoteWithOctave | null {
+  const pitchIndex = toPitchIndex(note) + semitones;
+  const octave = Math.floor(pitchIndex / 12);
+
+  if (octave < MIN_OCTAVE || octave > MAX_OCTAVE) {
+    return null;
+  }
+
+  return {
+    note: ALL_NOTES[pitchIndex % 12],
+    octave: octave as Octave
+  };
+}
+
+/**
+ * Gets the absolute distance between two notes in semitones.
+ *
+ * @param a - First note
+ * @param b - Second note
+ * @returns Non-negative semitone distance
+ */
+export function getSemitoneDistance(a: NoteWithOctave, b: NoteWithOctave): number {
+  return Math.abs(toPitchIndex(a) - toPitchIndex(b));
+}
+
+/**
+ * Builds an interval starting from the given note.
+ *
+ * Ascending and harmonic intervals place the second note above the start note;
+ * descending intervals place it below.
+ *
+ * @param startNote - The first note heard (the lower note for harmonic intervals)
+ * @param semitones - Interval size in semitones
+ * @param direction - How the interval is played
+ * @returns The interval, or null if the second note is out of range
+ */
+export function buildInterval(
+  startNote: NoteWithOctave,
+  semitones: number,
+  direction: IntervalDirection
+): Interval | null {
+  const offset = direction === IntervalDirection.DESCENDING ? -semitones : semitones;
+  const secondNote = transposeNote(startNote, offset);
+
+  if (!secondNote) {
+    return null;
+  }
+
+  return {
+    firstNote: startNote,
+    secondNote,
+    semitones,
+    direction
+  };
+}
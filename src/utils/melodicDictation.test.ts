@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { alignMelody, formatMelodyNote, generateMelody, getMelodyPool } from './melodicDictation';
+import type { NoteFilter, NoteWithOctave } from '../types/music';
+
+const C4: NoteWithOctave = { note: 'C', octave: 4 };
+const D4: NoteWithOctave = { note: 'D', octave: 4 };
+const E4: NoteWithOctave = { note: 'E', octave: 4 };
+const F4: NoteWithOctave = { note: 'F', octave: 4 };
+const G4: NoteWithOctave = { note: 'G', octave: 4 };
+
+const filter: NoteFilter = { octaveRange: { min: 4, max: 5 }, keyType: 'white' };
+
+describe('getMelodyPool', () => {
+  it('takes the notes of the key within the octave range', () => {
+    const pool = getMelodyPool({ key: 'D', scale: 'major' }, filter);
+
+    expect(pool).toHaveLength(14);
+    expect(pool.slice(0, 7).map(note => note.note)).toEqual(['C#', 'D', 'E', 'F#', 'G', 'A', 'B']);
+    expect(pool.every(note => note.octave >= 4 && note.octave <= 5)).toBe(true);
+  });
+});
+
+describe('generateMelody', () => {
+  const pool = getMelodyPool({ key: 'C', scale: 'major' }, filter);
+
+  it('starts on the tonic and stays within the largest leap', () => {
+    for (let run = 0; run < 20; run++) {
+      const melody = generateMelody(pool, 8, 2, 'C');
+      const positions = melody.map(note => pool.findIndex(p => p.note === note.note && p.octave === note.octave));
+
+      expect(melody).toHaveLength(8);
+      expect(melody[0].note).toBe('C');
+      positions.slice(1).forEach((position, index) => {
+        expect(Math.abs(position - positions[index])).toBeLessThanOrEqual(2);
+      });
+    }
+  });
+
+  it('throws when no note of the key is in range', () => {
+    expect(() => generateMelody([], 4, 2, 'C')).toThrow('No notes of the key fit inside the note range');
+  });
+});
+
+describe('alignMelody', () => {
+  it('gives full credit for an exact answer', () => {
+    expect(alignMelody([C4, D4, E4], [C4, D4, E4])).toEqual({
+      noteResults: ['correct', 'correct', 'correct'],
+      extraNotes: 0,
+      correctCount: 3,
+      score: 100
+    });
+  });
+
+  it('only marks the missed note when one is left out', () => {
+    const alignment = alignMelody([C4, D4, E4, F4], [C4, E4, F4]);
+
+    expect(alignment.noteResults).toEqual(['correct', 'missed', 'correct', 'correct']);
+    expect(alignment.score).toBe(75);
+  });
+
+  it('counts extra notes against the score', () => {
+    const alignment = alignMelody([C4, D4, E4], [C4, G4, D4, E4]);
+
+    expect(alignment.noteResults).toEqual(['correct', 'correct', 'correct']);
+    expect(alignment.extraNotes).toBe(1);
+    expect(alignment.score).toBe(75);
+  });
+
+  it('marks wrong notes in place', () => {
+    expect(alignMelody([C4, D4, E4], [C4, F4, E4]).noteResults).toEqual(['correct', 'wrong', 'correct']);
+  });
+
+  it('tells octaves apart', () => {
+    expect(alignMelody([C4], [{ note: 'C', octave: 5 }]).noteResults).toEqual(['wrong']);
+  });
+
+  it('scores an empty answer as all missed', () => {
+    const alignment = alignMelody([C4, D4], []);
+
+    expect(alignment.noteResults).toEqual(['missed', 'missed']);
+    expect(alignment.score).toBe(0);
+  });
+});
+
+describe('formatMelodyNote', () => {
+  it('spells notes for the key', () => {
+    expect(formatMelodyNote({ note: 'A#', octave: 4 }, { key: 'F', scale: 'major' })).toBe('B♭4');
+  });
+});
@@ -0,0 +1,167 @@
+import type { KeyContext, NoteFilter, NoteWithOctave, Octave } from '../types/music';
+import type { DictationNoteResult } from '../types/game';
+import { ALL_NOTES } from '../types/music';
+import { getScaleNotes } from '../constants/scales';
+import { spellNote } from './noteSpelling';
+import { noteWithOctaveToMidiNote } from './midiUtils';
+
+/** Shortest and longest melodies that can be asked */
+export const MIN_MELODY_LENGTH = 3;
+export const MAX_MELODY_LENGTH = 12;
+
+/**
+ * An entered melody lined up against the melody that was played
+ */
+export interface MelodyAlignment {
+  /** Result for each note of the played melody, in order */
+  noteResults: DictationNoteResult[];
+  /** Entered notes that line up with no note of the melody */
+  extraNotes: number;
+  /** Number of melody notes entered correctly */
+  correctCount: number;
+  /** Partial credit from 0 to 100; extra notes count against it */
+  score: number;
+}
+
+/**
+ * Gets the notes of a key inside the note filter's octave range.
+ * The key decides which notes are used, so the filter's key type and allowed notes don't apply.
+ *
+ * @param key - Key the melody is in
+ * @param filter - Note filter whose octave range bounds the melody
+ * @returns The notes a melody can use, lowest first
+ */
+export function getMelodyPool(key: KeyContext, filter: NoteFilter): NoteWithOctave[] {
+  const scaleNotes = getScaleNotes(key.key, key.scale);
+  const pool: NoteWithOctave[] = [];
+
+  for (let octave = filter.octaveRange.min; octave <= filter.octaveRange.max; octave++) {
+    for (const note of ALL_NOTES) {
+      if (scaleNotes.includes(note)) {
+        pool.push({ note, octave: octave as Octave });
+      }
+    }
+  }
+
+  return pool;
+}
+
+/**
+ * Generates a melody as a random walk through the pool, starting on the tonic
+ * when the tonic is in range.
+ *
+ * @param pool - Notes the melody can use, lowest first
+ * @param length - Number of notes
+ * @param maxLeap - Largest step between neighbouring notes, in pool positions (scale steps)
+ * @param tonic - Pitch class to start on if possible
+ * @returns The melody
+ * @throws Error if the pool is empty
+ *
+ * @example
+ * generateMelody(getMelodyPool({ key: 'C', scale: 'major' }, filter), 4, 2, 'C')
+ * // e.g. C4, D4, F4, E4
+ */
+export function generateMelody(
+  pool: NoteWithOctave[],
+  length: number,
+  maxLeap: number,
+  tonic: NoteWithOctave['note']
+): NoteWithOctave[] {
+  if (pool.length === 0) {
+    throw new Error('No notes of the key fit inside the note range');
+  }
+
+  const tonicPositions = pool
+    .map((note, index) => (note.note === tonic ? index : -1))
+    .filter(index => index !== -1);
+  let position = tonicPositions.length > 0
+    ? tonicPositions[Math.floor(Math.random() * tonicPositions.length)]
+    : Math.floor(Math.random() * pool.length);
+
+  const melody = [pool[position]];
+  while (melody.length < length) {
+    const low = Math.max(0, position - maxLeap);
+    const high = Math.min(pool.length - 1, position + maxLeap);
+    position = low + Math.floor(Math.random() * (high - low + 1));
+    melody.push(pool[position]);
+  }
+
+  return melody;
+}
+
+/**
+ * Lines up an entered melody against the played one with the fewest edits,
+ * so a missed or extra note only costs that note instead of shifting the
+ * rest of the answer out of place.
+ *
+ * @param expected - The melody that was played
+ * @param entered - The notes the user entered
+ * @returns Per-note results and partial credit
+ *
+ * @example
+ * // C4 D4 E4 F4 entered as C4 E4 F4: only D4 is missed
+ * alignMelody([C4, D4, E4, F4], [C4, E4, F4]).noteResults // ['correct', 'missed', 'correct', 'correct']
+ */
+export function alignMelody(expected: NoteWithOctave[], entered: NoteWithOctave[]): MelodyAlignment {
+  const expectedPitches = expected.map(noteWithOctaveToMidiNote);
+  const enteredPitches = entered.map(noteWithOctaveToMidiNote);
+  const rows = expectedPitches.length;
+  const columns = enteredPitches.length;
+
+  // cost[i][j]: fewest edits to turn the first i melody notes into the first j entered notes
+  const cost: number[][] = Array.from({ length: rows + 1 }, (_, i) =>
+    Array.from({ length: columns + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= columns; j++) {
+      const substitution = expectedPitches[i - 1] === enteredPitches[j - 1] ? 0 : 1;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitution,
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  // Walk back from the end, preferring to pair notes up over skipping them
+  const noteResults: DictationNoteResult[] = new Array(rows);
+  let extraNotes = 0;
+  let i = rows;
+  let j = columns;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const isMatch = expectedPitches[i - 1] === enteredPitches[j - 1];
+      if (cost[i][j] === cost[i - 1][j - 1] + (isMatch ? 0 : 1)) {
+        noteResults[i - 1] = isMatch ? 'correct' : 'wrong';
+        i--;
+        j--;
+        continue;
+      }
+    }
+
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      noteResults[i - 1] = 'missed';
+      i--;
+    } else {
+      extraNotes++;
+      j--;
+    }
+  }
+
+  const correctCount = noteResults.filter(result => result === 'correct').length;
+  const scoredLength = Math.max(rows, columns);
+
+  return {
+    noteResults,
+    extraNotes,
+    correctCount,
+    score: scoredLength > 0 ? (correctCount / scoredLength) * 100 : 0
+  };
+}
+
+/**
+ * Formats a melody note spelled for its key (e.g., "B♭4" in F major).
+ */
+export function formatMelodyNote(note: NoteWithOctave, key: KeyContext): string {
+  return `${spellNote(note.note, key)}${note.octave}`;
+}
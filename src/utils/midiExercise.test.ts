@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectKey,
+  extractMidiNotes,
+  fitMelodyToRange,
+  identifyVoicing,
+  importMidiExercise,
+  segmentChords,
+  segmentMelodies,
+} from './midiExercise';
+import type { MidiFileNote } from './midiExercise';
+import { parseMidiFile } from './midiFile';
+import { midiNoteToNoteWithOctave } from './midiUtils';
+import { ChordType } from '../types/music';
+import type { NoteWithOctave } from '../types/music';
+
+const C4 = 48;
+const D4 = 50;
+const E4 = 52;
+const F4 = 53;
+const G4 = 55;
+const A4 = 57;
+const B4 = 59;
+const C5 = 60;
+
+/**
+ * Builds a one-track .mid file at 120 bpm and 480 ticks per beat, so 480 ticks are 500ms
+ * @param events - Delta time in ticks followed by the message bytes
+ */
+const buildMidiFile = (events: number[][]): Uint8Array => {
+  const encodeDelta = (delta: number) => {
+    const bytes = [delta & 0x7F];
+    while ((delta >>= 7) > 0) {
+      bytes.unshift((delta & 0x7F) | 0x80);
+    }
+    return bytes;
+  };
+
+  const track = [
+    ...events.flatMap(([delta, ...data]) => [...encodeDelta(delta), ...data]),
+    0x00, 0xFF, 0x2F, 0x00, // End of track
+  ];
+
+  return new Uint8Array([
+    0x4D, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xE0,
+    0x4D, 0x54, 0x72, 0x6B, 0, 0, 0, track.length, ...track,
+  ]);
+};
+
+/** A note from `start` to `end` milliseconds on channel 1 */
+const note = (midiNote: number, start: number, end = start + 400): MidiFileNote => ({
+  midiNote, channel: 1, velocity: 100, start, end,
+});
+
+/** Notes played together from `start` */
+const block = (midiNotes: number[], start: number) => midiNotes.map(midiNote => note(midiNote, start));
+
+const names = (notes: NoteWithOctave[]) => notes.map(n => `${n.note}${n.octave}`);
+
+describe('extractMidiNotes', () => {
+  it('pairs note on and note off, leaving out drums', () => {
+    const file = parseMidiFile(buildMidiFile([
+      [0, 0x90, E4, 100],
+      [0, 0x90, C4, 90],
+      [0, 0x99, 36, 100], // Kick drum on channel 10
+      [480, 0x80, C4, 0],
+      [0, 0x90, E4, 0], // Note on with velocity 0 is a note off
+    ]));
+
+    expect(extractMidiNotes(file)).toEqual([
+      { midiNote: C4, channel: 1, velocity: 90, start: 0, end: 500 },
+      { midiNote: E4, channel: 1, velocity: 100, start: 0, end: 500 },
+    ]);
+  });
+
+  it('ends notes still sounding with the file', () => {
+    const file = parseMidiFile(buildMidiFile([
+      [0, 0x90, C4, 100],
+      [960, 0xC0, 1],
+    ]));
+
+    expect(extractMidiNotes(file)).toEqual([
+      { midiNote: C4, channel: 1, velocity: 100, start: 0, end: 1000 },
+    ]);
+  });
+});
+
+describe('identifyVoicing', () => {
+  it('keeps doubled notes and names an open voicing by its bass', () => {
+    // E in the bass, G and a doubled C above: C major, first inversion
+    const chord = identifyVoicing([
+      { note: 'E', octave: 4 },
+      { note: 'C', octave: 5 },
+      { note: 'G', octave: 5 },
+      { note: 'C', octave: 6 },
+    ]);
+
+    expect(chord?.root).toBe('C');
+    expect(chord?.type).toBe(ChordType.MAJOR);
+    expect(chord?.inversion).toBe(1);
+    expect(names(chord!.notes)).toEqual(['E4', 'C5', 'G5', 'C6']);
+  });
+
+  it('returns null for notes that are not a chord', () => {
+    expect(identifyVoicing([{ note: 'C', octave: 4 }, { note: 'C#', octave: 4 }])).toBeNull();
+  });
+});
+
+describe('segmentChords', () => {
+  it('finds the chords in order and collapses immediate repeats', () => {
+    const { chords, unrecognizedChords } = segmentChords([
+      ...block([C4, E4, G4], 0),
+      ...block([C4, E4, G4], 500),
+      ...block([F4, A4, C5], 1000),
+      ...block([C4, E4, G4], 1500),
+    ]);
+
+    expect(chords.map(chord => chord.name)).toEqual(['C', 'F', 'C']);
+    expect(unrecognizedChords).toBe(0);
+  });
+
+  it('treats notes within the onset window as one chord', () => {
+    const { chords } = segmentChords([note(C4, 0), note(E4, 30), note(G4, 60)]);
+
+    expect(chords).toHaveLength(1);
+    expect(names(chords[0].notes)).toEqual(['C4', 'E4', 'G4']);
+  });
+
+  it('skips single notes and counts groups that are not a chord', () => {
+    const { chords, unrecognizedChords } = segmentChords([
+      note(C4, 0),
+      ...block([C4, 49], 500),
+      ...block([G4, B4, D4 + 12], 1000),
+    ]);
+
+    expect(chords.map(chord => chord.name)).toEqual(['G']);
+    expect(unrecognizedChords).toBe(1);
+  });
+});
+
+describe('detectKey', () => {
+  const notesOf = (letters: string[]): NoteWithOctave[] =>
+    letters.map(letter => ({ note: letter as NoteWithOctave['note'], octave: 4 }));
+
+  it('finds the major key of a scale', () => {
+    expect(detectKey(notesOf(['C', 'D', 'E', 'F', 'G', 'A', 'B', 'C']))).toEqual({ key: 'C', scale: 'major' });
+  });
+
+  it('prefers the key the melody ends on', () => {
+    expect(detectKey(notesOf(['A', 'C', 'E', 'D', 'A']))).toEqual({ key: 'A', scale: 'minor' });
+  });
+});
+
+describe('segmentMelodies', () => {
+  it('splits phrases at rests and follows the top note', () => {
+    const melodies = segmentMelodies([
+      ...block([C4, E4], 0),
+      note(D4, 400),
+      note(C4, 800),
+      // Rest of 600ms
+      note(G4, 1800),
+      note(F4, 2200),
+      note(E4, 2600),
+    ]);
+
+    expect(melodies.map(melody => names(melody.notes))).toEqual([
+      ['E4', 'D4', 'C4'],
+      ['G4', 'F4', 'E4'],
+    ]);
+    expect(melodies[0].key).toEqual(melodies[1].key);
+  });
+
+  it('keeps a short last phrase with the one before', () => {
+    const melodies = segmentMelodies([
+      note(C4, 0),
+      note(D4, 400),
+      note(E4, 800),
+      note(C4, 2000),
+    ]);
+
+    expect(melodies.map(melody => names(melody.notes))).toEqual([['C4', 'D4', 'E4', 'C4']]);
+  });
+
+  it('splits phrases that are too long for dictation', () => {
+    const notes = Array.from({ length: 15 }, (_, i) => note(C4 + (i % 5), i * 400));
+
+    expect(segmentMelodies(notes).map(melody => melody.notes.length)).toEqual([12, 3]);
+  });
+
+  it('fills a short last phrase with the end of a full one before it', () => {
+    const notes = Array.from({ length: 14 }, (_, i) => note(C4 + (i % 5), i * 400));
+
+    expect(segmentMelodies(notes).map(melody => melody.notes.length)).toEqual([11, 3]);
+  });
+
+  it('leaves out a melody shorter than a phrase', () => {
+    expect(segmentMelodies([note(C4, 0), note(D4, 400)])).toEqual([]);
+  });
+});
+
+describe('fitMelodyToRange', () => {
+  const key = { key: 'C' as const, scale: 'major' as const };
+  const melody = (midiNotes: number[]) => ({ key, notes: midiNotes.map(midiNoteToNoteWithOctave) });
+
+  it('moves a whole phrase by octaves into the range', () => {
+    const fitted = fitMelodyToRange(melody([C4 + 24, E4 + 24, G4 + 24]), { min: 4, max: 4 });
+
+    expect(names(fitted.notes)).toEqual(['C4', 'E4', 'G4']);
+    expect(fitted.key).toBe(key);
+  });
+
+  it('moves notes one by one when the phrase is wider than the range', () => {
+    const fitted = fitMelodyToRange(melody([C4 - 12, E4, G4 + 12]), { min: 4, max: 4 });
+
+    expect(names(fitted.notes)).toEqual(['C4', 'E4', 'G4']);
+  });
+
+  it('leaves a phrase inside the range alone', () => {
+    const fitted = fitMelodyToRange(melody([C4, E4, C5]), { min: 3, max: 5 });
+
+    expect(names(fitted.notes)).toEqual(['C4', 'E4', 'C5']);
+  });
+});
+
+describe('importMidiExercise', () => {
+  const cMajorThenG = buildMidiFile([
+    [0, 0x90, C4, 100], [0, E4, 100], [0, G4, 100],
+    [480, 0x80, C4, 0], [0, E4, 0], [0, G4, 0],
+    [0, 0x90, G4, 100], [0, B4, 100], [0, D4 + 12, 100],
+    [480, 0x80, G4, 0], [0, B4, 0], [0, D4 + 12, 0],
+  ]);
+
+  it('imports the chords of a file', () => {
+    const { exercise } = importMidiExercise(cMajorThenG, 'Cadence', 'chords');
+
+    expect(exercise.name).toBe('Cadence');
+    expect(exercise.kind === 'chords' && exercise.chords.map(chord => chord.name)).toEqual(['C', 'G']);
+  });
+
+  const melodyFile = buildMidiFile([
+    [0, 0x90, G4, 100], [480, 0x80, G4, 0],
+    [0, 0x90, B4, 100], [480, 0x80, B4, 0],
+    [0, 0x90, D4 + 12, 100], [480, 0x80, D4 + 12, 0],
+  ]);
+
+  it('imports the melody of a file', () => {
+    const { exercise } = importMidiExercise(melodyFile, 'Arpeggio', 'melodies');
+
+    expect(exercise.kind === 'melodies' && exercise.melodies.map(melody => names(melody.notes))).toEqual([['G4', 'B4', 'D5']]);
+  });
+
+  it('moves the melody into the given octave range', () => {
+    const { exercise } = importMidiExercise(melodyFile, 'Arpeggio', 'melodies', { min: 2, max: 3 });
+
+    expect(exercise.kind === 'melodies' && exercise.melodies.map(melody => names(melody.notes))).toEqual([['G2', 'B2', 'D3']]);
+  });
+
+  it('throws when the melody is too short to practice', () => {
+    expect(() => importMidiExercise(cMajorThenG, 'Cadence', 'melodies')).toThrow('shorter than 3 notes');
+  });
+
+  it('throws when there are no chords', () => {
+    const melody = buildMidiFile([[0, 0x90, C4, 100], [480, 0x80, C4, 0]]);
+
+    expect(() => importMidiExercise(melody, 'Melody', 'chords')).toThrow('No chords found in MIDI file');
+  });
+
+  it('throws when there are no notes', () => {
+    expect(() => importMidiExercise(buildMidiFile([]), 'Empty', 'melodies')).toThrow('No notes found in MIDI file');
+  });
+});
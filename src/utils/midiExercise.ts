@@ -0,0 +1,334 @@
+/**
+ * Custom exercises from MIDI files
+ *
+ * Turns the notes of a Standard MIDI File into a fixed exercise: either the
+ * chords it contains, in their exact voicings, or its melody split into
+ * phrases. Notes that start together (within a short window) are treated as
+ * one chord; the top note of each is taken as the melody.
+ *
+ * @module utils/midiExercise
+ */
+
+import { ChordEngine } from './chordEngine';
+import { getChordFormula } from './chordTypeRegistry';
+import { parseMidiFile } from './midiFile';
+import type { MidiFile } from './midiFile';
+import { isPlayableMidiNote, midiNoteToNoteWithOctave, noteWithOctaveToMidiNote } from './midiUtils';
+import { MAX_MELODY_LENGTH, MIN_MELODY_LENGTH } from './melodicDictation';
+import { getScaleNotes } from '../constants/scales';
+import { ALL_NOTES } from '../types/music';
+import type { Chord, KeyContext, Melody, NoteFilter, NoteWithOctave } from '../types/music';
+import type { CustomExercise } from '../types/settings';
+
+/**
+ * A note in a MIDI file, from note on to note off
+ */
+export interface MidiFileNote {
+  /** MIDI note number */
+  midiNote: number;
+  /** MIDI channel (1-16) */
+  channel: number;
+  velocity: number;
+  /** Note on, in milliseconds from the start of the file */
+  start: number;
+  /** Note off, in milliseconds from the start of the file */
+  end: number;
+}
+
+/**
+ * Result of importing a MIDI file
+ */
+export interface MidiExerciseImport {
+  exercise: CustomExercise;
+  /** Groups of notes that were played together but aren't a known chord */
+  unrecognizedChords: number;
+}
+
+/** Notes starting within this many milliseconds of each other form a chord */
+export const CHORD_ONSET_WINDOW = 80;
+
+/** A rest at least this long, in milliseconds, ends a phrase */
+export const PHRASE_GAP = 300;
+
+/** General MIDI puts drums on channel 10, which has no pitches to practice */
+const DRUM_CHANNEL = 10;
+
+/**
+ * Pairs up the note on and note off messages of a MIDI file.
+ * Drums and notes outside the keyboard's range are left out. Notes still
+ * sounding at the end of the file end with it.
+ *
+ * @param file - Parsed MIDI file
+ * @returns Notes of all tracks, ordered by start time, lowest first
+ */
+export function extractMidiNotes(file: MidiFile): MidiFileNote[] {
+  const notes: MidiFileNote[] = [];
+
+  file.tracks.forEach(track => {
+    // Notes waiting for their note off, by channel and note number
+    const sounding = new Map<string, MidiFileNote[]>();
+
+    track.events.forEach(({ time, data }) => {
+      const type = data[0] & 0xF0;
+      const channel = (data[0] & 0x0F) + 1;
+      const [, midiNote, velocity] = data;
+      if ((type !== 0x90 && type !== 0x80) || channel === DRUM_CHANNEL) {
+        return;
+      }
+
+      const key = `${channel}-${midiNote}`;
+      if (type === 0x90 && velocity > 0) {
+        const note: MidiFileNote = { midiNote, channel, velocity, start: time, end: file.duration };
+        sounding.set(key, [...(sounding.get(key) ?? []), note]);
+        if (isPlayableMidiNote(midiNote)) {
+          notes.push(note);
+        }
+      } else {
+        const [first, ...rest] = sounding.get(key) ?? [];
+        if (first) {
+          first.end = time;
+          sounding.set(key, rest);
+        }
+      }
+    });
+  });
+
+  return notes.sort((a, b) => a.start - b.start || a.midiNote - b.midiNote);
+}
+
+/**
+ * Groups notes that start within the onset window of the first note of the group
+ * @private
+ */
+function groupByOnset(notes: MidiFileNote[], onsetWindow: number): MidiFileNote[][] {
+  const groups: MidiFileNote[][] = [];
+
+  notes.forEach(note => {
+    const group = groups[groups.length - 1];
+    if (group && note.start - group[0].start <= onsetWindow) {
+      group.push(note);
+    } else {
+      groups.push([note]);
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Names a voicing, keeping its exact notes. Doubled notes are allowed, and the
+ * inversion comes from the bass note, so open voicings are named correctly.
+ *
+ * @param voicing - Notes played together, lowest first
+ * @returns The chord, or null if the notes aren't a known chord
+ */
+export function identifyVoicing(voicing: NoteWithOctave[]): Chord | null {
+  // Chord formulas have one note per pitch class, so identify from the lowest of each
+  const distinct = voicing.filter(
+    (note, index) => voicing.findIndex(other => other.note === note.note) === index
+  );
+  const identified = ChordEngine.getChordFromNotes(distinct);
+  if (!identified) {
+    return null;
+  }
+
+  const formula = (getChordFormula(identified.type) ?? []).map(interval => interval % 12).sort((a, b) => a - b);
+  const bassInterval = (ALL_NOTES.indexOf(voicing[0].note) - ALL_NOTES.indexOf(identified.root) + 12) % 12;
+  const chord: Chord = {
+    ...identified,
+    notes: voicing,
+    inversion: Math.max(0, formula.indexOf(bassInterval)),
+  };
+  chord.name = ChordEngine.getChordName(chord);
+
+  return chord;
+}
+
+/**
+ * Finds the chords in a MIDI file, in the order they are played.
+ * A chord repeated straight away with the same voicing is only kept once.
+ *
+ * @param notes - Notes of the file
+ * @param onsetWindow - Milliseconds within which a chord's notes start
+ * @returns The chords, and how many groups of notes weren't a known chord
+ */
+export function segmentChords(
+  notes: MidiFileNote[],
+  onsetWindow: number = CHORD_ONSET_WINDOW
+): { chords: Chord[]; unrecognizedChords: number } {
+  const chords: Chord[] = [];
+  let unrecognizedChords = 0;
+
+  groupByOnset(notes, onsetWindow).forEach(group => {
+    const midiNotes = [...new Set(group.map(note => note.midiNote))].sort((a, b) => a - b);
+    if (midiNotes.length < 2) {
+      return;
+    }
+
+    const chord = identifyVoicing(midiNotes.map(midiNoteToNoteWithOctave));
+    if (!chord) {
+      unrecognizedChords++;
+      return;
+    }
+
+    const previous = chords[chords.length - 1];
+    const isRepeat = previous
+      && previous.notes.length === chord.notes.length
+      && previous.notes.every((note, i) => note.note === chord.notes[i].note && note.octave === chord.notes[i].octave);
+    if (!isRepeat) {
+      chords.push(chord);
+    }
+  });
+
+  return { chords, unrecognizedChords };
+}
+
+/**
+ * Finds the key whose scale holds the most of the notes, preferring a tonic
+ * the melody ends on, then major keys.
+ *
+ * @param notes - Notes of the melody
+ * @returns The most likely key
+ */
+export function detectKey(notes: NoteWithOctave[]): KeyContext {
+  const lastNote = notes[notes.length - 1]?.note;
+  let best: { key: KeyContext; score: number } | null = null;
+
+  for (const scale of ['major', 'minor'] as const) {
+    for (const key of ALL_NOTES) {
+      const scaleNotes = getScaleNotes(key, scale);
+      const inKey = notes.filter(note => scaleNotes.includes(note.note)).length;
+      // Whole notes in key always outweigh the tie-breaks
+      const score = inKey * 2 + (key === lastNote ? 1 : 0);
+      if (!best || score > best.score) {
+        best = { key: { key, scale }, score };
+      }
+    }
+  }
+
+  return best?.key ?? { key: 'C', scale: 'major' };
+}
+
+/**
+ * Splits the melody of a MIDI file into phrases at rests, keeping each phrase
+ * to the lengths melodic dictation supports. The melody is the top note of
+ * each group of notes that start together.
+ *
+ * @param notes - Notes of the file
+ * @param onsetWindow - Milliseconds within which notes count as played together
+ * @returns The phrases, all in the key that fits the whole melody best
+ */
+export function segmentMelodies(notes: MidiFileNote[], onsetWindow: number = CHORD_ONSET_WINDOW): Melody[] {
+  const melody = groupByOnset(notes, onsetWindow).map(group =>
+    group.reduce((top, note) => (note.midiNote > top.midiNote ? note : top))
+  );
+
+  const phrases: MidiFileNote[][] = [];
+  let phrase: MidiFileNote[] = [];
+  melody.forEach((note, i) => {
+    const rest = i > 0 ? note.start - melody[i - 1].end : 0;
+    if ((rest >= PHRASE_GAP && phrase.length >= MIN_MELODY_LENGTH) || phrase.length === MAX_MELODY_LENGTH) {
+      phrases.push(phrase);
+      phrase = [];
+    }
+    phrase.push(note);
+  });
+
+  // A short last phrase joins the one before it when it fits, and otherwise
+  // takes the last notes of that phrase; a melody shorter than a phrase is left out
+  const previous = phrases[phrases.length - 1];
+  if (phrase.length >= MIN_MELODY_LENGTH) {
+    phrases.push(phrase);
+  } else if (previous && previous.length + phrase.length <= MAX_MELODY_LENGTH) {
+    previous.push(...phrase);
+  } else if (previous) {
+    phrases.push([...previous.splice(phrase.length - MIN_MELODY_LENGTH), ...phrase]);
+  }
+
+  const key = detectKey(melody.map(note => midiNoteToNoteWithOctave(note.midiNote)));
+  return phrases.map(notes => ({ key, notes: notes.map(note => midiNoteToNoteWithOctave(note.midiNote)) }));
+}
+
+/**
+ * Moves a phrase into an octave range. The whole phrase moves by octaves
+ * first, so its contour stays the same; notes of a phrase wider than the
+ * range are then moved by octaves one by one.
+ *
+ * @param melody - The phrase
+ * @param octaveRange - Octaves the notes must be in, e.g. the note filter's
+ * @returns The phrase with every note inside the range
+ */
+export function fitMelodyToRange(melody: Melody, octaveRange: NoteFilter['octaveRange']): Melody {
+  const low = noteWithOctaveToMidiNote({ note: 'C', octave: octaveRange.min });
+  const high = noteWithOctaveToMidiNote({ note: 'B', octave: octaveRange.max });
+  const midiNotes = melody.notes.map(noteWithOctaveToMidiNote);
+  const lowest = Math.min(...midiNotes);
+  const highest = Math.max(...midiNotes);
+
+  let shift = 0;
+  if (lowest < low) {
+    shift = Math.ceil((low - lowest) / 12) * 12;
+  } else if (highest > high) {
+    shift = -Math.ceil((highest - high) / 12) * 12;
+  }
+
+  const notes = midiNotes.map(midiNote => {
+    let moved = midiNote + shift;
+    while (moved < low) moved += 12;
+    while (moved > high) moved -= 12;
+    return midiNoteToNoteWithOctave(moved);
+  });
+
+  return { ...melody, notes };
+}
+
+/**
+ * Imports a MIDI file as an exercise of chords or melodies.
+ *
+ * @param data - Contents of a .mid file
+ * @param name - Name to show for the exercise, e.g. the file name
+ * @param kind - Whether to take the chords or the melody of the file
+ * @param octaveRange - Octaves to move the melody into, so the modes that
+ * play it note by note stay inside the note filter
+ * @returns The exercise and how many note groups weren't a known chord
+ * @throws Error if the file can't be parsed or has nothing to practice
+ *
+ * @example
+ * ```typescript
+ * const { exercise } = importMidiExercise(await file.arrayBuffer(), 'Chorale', 'chords');
+ * exercise.chords[0].name // e.g. "C/E"
+ * ```
+ */
+export function importMidiExercise(
+  data: ArrayBuffer | Uint8Array,
+  name: string,
+  kind: CustomExercise['kind'],
+  octaveRange?: NoteFilter['octaveRange']
+): MidiExerciseImport {
+  const notes = extractMidiNotes(parseMidiFile(data));
+
+  if (kind === 'chords') {
+    const { chords, unrecognizedChords } = segmentChords(notes);
+    if (chords.length === 0) {
+      throw new Error('No chords found in MIDI file');
+    }
+    return { exercise: { name, kind, chords }, unrecognizedChords };
+  }
+
+  if (notes.length === 0) {
+    throw new Error('No notes found in MIDI file');
+  }
+
+  const melodies = segmentMelodies(notes);
+  if (melodies.length === 0) {
+    throw new Error(`The melody in the MIDI file is shorter than ${MIN_MELODY_LENGTH} notes`);
+  }
+  return {
+    exercise: {
+      name,
+      kind,
+      melodies: octaveRange ? melodies.map(melody => fitMelodyToRange(melody, octaveRange)) : melodies
+    },
+    unrecognizedChords: 0
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseMidiFile } from './midiFile';
+
+/** MThd chunk with the given format, track count and ticks per beat */
+const header = (format: number, trackCount: number, ticksPerBeat: number) => [
+  0x4D, 0x54, 0x68, 0x64, 0, 0, 0, 6,
+  0, format, 0, trackCount, ticksPerBeat >> 8, ticksPerBeat & 0xFF,
+];
+
+/** MTrk chunk around the given events, with an end of track added */
+const track = (...events: number[]) => {
+  const data = [...events, 0x00, 0xFF, 0x2F, 0x00];
+  return [0x4D, 0x54, 0x72, 0x6B, 0, 0, data.length >> 8, data.length & 0xFF, ...data];
+};
+
+const file = (...bytes: number[][]) => new Uint8Array(bytes.flat());
+
+describe('parseMidiFile', () => {
+  it('reads channel messages with their tick and time', () => {
+    const midi = parseMidiFile(file(
+      header(0, 1, 480),
+      track(
+        0x00, 0x90, 60, 100,
+        0x83, 0x60, 0x80, 60, 0 // 480 ticks later, as a two-byte variable-length value
+      )
+    ));
+
+    expect(midi.format).toBe(0);
+    expect(midi.ticksPerBeat).toBe(480);
+    expect(midi.tracks[0].events).toEqual([
+      { tick: 0, time: 0, data: [0x90, 60, 100] },
+      { tick: 480, time: 500, data: [0x80, 60, 0] },
+    ]);
+    expect(midi.duration).toBe(500);
+  });
+
+  it('repeats the last status byte for running status', () => {
+    const midi = parseMidiFile(file(
+      header(0, 1, 96),
+      track(0x00, 0x90, 60, 100, 0x00, 64, 100, 0x60, 60, 0, 0x00, 0xC0, 5, 0x00, 7)
+    ));
+
+    expect(midi.tracks[0].events.map(event => event.data)).toEqual([
+      [0x90, 60, 100],
+      [0x90, 64, 100],
+      [0x90, 60, 0],
+      [0xC0, 5],
+      [0xC0, 7],
+    ]);
+  });
+
+  it('times every track with the tempo changes of the first', () => {
+    const midi = parseMidiFile(file(
+      header(1, 2, 100),
+      // 60 bpm from the second beat
+      track(0x00, 0xFF, 0x03, 4, 0x4C, 0x65, 0x61, 0x64, 0x64, 0xFF, 0x51, 3, 0x0F, 0x42, 0x40),
+      track(0x00, 0x90, 60, 100, 0x81, 0x48, 0x80, 60, 0) // note off 200 ticks in
+    ));
+
+    expect(midi.tracks[0]).toEqual({ name: 'Lead', events: [] });
+    expect(midi.tracks[1].events.map(event => event.time)).toEqual([0, 1500]);
+  });
+
+  it('skips system exclusive messages and unknown chunks', () => {
+    const midi = parseMidiFile(file(
+      header(0, 1, 480),
+      [0x58, 0x59, 0x5A, 0x5A, 0, 0, 0, 2, 1, 2],
+      track(0x00, 0xF0, 3, 0x7E, 0x7F, 0xF7, 0x00, 0x90, 60, 100)
+    ));
+
+    expect(midi.tracks[0].events.map(event => event.data)).toEqual([[0x90, 60, 100]]);
+  });
+
+  it.each([
+    { name: 'data that is not a MIDI file', bytes: file([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]), error: 'Not a Standard MIDI File' },
+    { name: 'a track cut short', bytes: file(header(0, 1, 480), [0x4D, 0x54, 0x72, 0x6B, 0, 0, 0, 20, 0x00, 0x90]), error: 'Unexpected end of MIDI file' },
+    { name: 'SMPTE timing', bytes: file(header(0, 1, 0xE728)), error: 'MIDI files with SMPTE timing are not supported' },
+    { name: 'running status with no status byte', bytes: file(header(0, 1, 480), track(0x00, 60, 100)), error: 'MIDI file uses running status before any status byte' },
+    { name: 'running status after a meta event', bytes: file(header(0, 1, 480), track(0x00, 0x90, 60, 100, 0x00, 0xFF, 0x01, 1, 0x41, 0x00, 60, 0)), error: 'MIDI file uses running status before any status byte' },
+    { name: 'running status after a system exclusive message', bytes: file(header(0, 1, 480), track(0x00, 0x90, 60, 100, 0x00, 0xF0, 1, 0xF7, 0x00, 60, 0)), error: 'MIDI file uses running status before any status byte' },
+    { name: '0 ticks per beat', bytes: file(header(0, 1, 0), track(0x00, 0x90, 60, 100)), error: 'MIDI file has a time division of 0 ticks per beat' },
+  ])('throws for $name', ({ bytes, error }) => {
+    expect(() => parseMidiFile(bytes)).toThrow(error);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Standard MIDI File (.mid) parsing
+ *
+ * Reads format 0 and 1 files into the channel messages of each track, timed
+ * in milliseconds using the file's tempo changes. System exclusive and meta
+ * events other than tempo and track names are skipped.
+ */
+
+/**
+ * A channel message (note, controller, program change, ...) in a MIDI file
+ */
+export interface MidiFileEvent {
+  /** Position in ticks from the start of the file */
+  tick: number;
+  /** Position in milliseconds from the start of the file */
+  time: number;
+  /** Message bytes, as a MIDI input would send them */
+  data: number[];
+}
+
+export interface MidiFileTrack {
+  name?: string;
+  events: MidiFileEvent[];
+}
+
+export interface MidiFile {
+  /** 0 = one track, 1 = simultaneous tracks, 2 = independent patterns */
+  format: number;
+  /** Resolution of tick positions, in ticks per quarter note */
+  ticksPerBeat: number;
+  tracks: MidiFileTrack[];
+  /** Length of the file up to its last event, in milliseconds */
+  duration: number;
+}
+
+/**
+ * Tempo change in microseconds per quarter note
+ * @private
+ */
+interface TempoChange {
+  tick: number;
+  microsecondsPerBeat: number;
+}
+
+const DEFAULT_MICROSECONDS_PER_BEAT = 500000; // 120 bpm
+
+const META_EVENT = 0xFF;
+const META_TRACK_NAME = 0x03;
+const META_TEMPO = 0x51;
+const SYSEX_START = 0xF0;
+const SYSEX_CONTINUATION = 0xF7;
+
+/**
+ * Reads big-endian values and variable-length quantities from the file's bytes
+ * @private
+ */
+class ByteReader {
+  private bytes: Uint8Array;
+  position: number;
+
+  constructor(bytes: Uint8Array, position: number = 0) {
+    this.bytes = bytes;
+    this.position = position;
+  }
+
+  hasMore(end: number): boolean {
+    return this.position < end;
+  }
+
+  readUint8(): number {
+    if (this.position >= this.bytes.length) {
+      throw new Error('Unexpected end of MIDI file');
+    }
+    return this.bytes[this.position++];
+  }
+
+  readUint16(): number {
+    return (this.readUint8() << 8) | this.readUint8();
+  }
+
+  readUint32(): number {
+    return ((this.readUint16() << 16) >>> 0) + this.readUint16();
+  }
+
+  readString(length: number): string {
+    return String.fromCharCode(...this.readBytes(length));
+  }
+
+  readBytes(length: number): number[] {
+    if (this.position + length > this.bytes.length) {
+      throw new Error('Unexpected end of MIDI file');
+    }
+    const bytes = Array.from(this.bytes.subarray(this.position, this.position + length));
+    this.position += length;
+    return bytes;
+  }
+
+  readVariableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.readUint8();
+      value = (value << 7) | (byte & 0x7F);
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new Error('Invalid variable-length value in MIDI file');
+  }
+}
+
+/**
+ * Number of data bytes that follow a channel message's status byte
+ * @private
+ */
+function getDataLength(status: number): number {
+  const type = status & 0xF0;
+  return type === 0xC0 || type === 0xD0 ? 1 : 2;
+}
+
+/**
+ * Converts a tick position to milliseconds using the tempo changes before it
+ * @private
+ */
+function ticksToMilliseconds(tick: number, tempoChanges: TempoChange[], ticksPerBeat: number): number {
+  let time = 0;
+  let lastTick = 0;
+  let microsecondsPerBeat = DEFAULT_MICROSECONDS_PER_BEAT;
+
+  for (const change of tempoChanges) {
+    if (change.tick >= tick) break;
+    time += ((change.tick - lastTick) * microsecondsPerBeat) / ticksPerBeat;
+    lastTick = change.tick;
+    microsecondsPerBeat = change.microsecondsPerBeat;
+  }
+
+  time += ((tick - lastTick) * microsecondsPerBeat) / ticksPerBeat;
+  return time / 1000;
+}
+
+/**
+ * Parses one MTrk chunk, collecting its tempo changes alongside its channel messages
+ * @private
+ */
+function parseTrack(reader: ByteReader, end: number, tempoChanges: TempoChange[]): MidiFileTrack {
+  const track: MidiFileTrack = { events: [] };
+  let tick = 0;
+  let runningStatus: number | null = null;
+
+  while (reader.hasMore(end)) {
+    tick += reader.readVariableLength();
+    let status = reader.readUint8();
+
+    // Meta and system exclusive events cancel running status
+    if (status === META_EVENT) {
+      runningStatus = null;
+      const type = reader.readUint8();
+      const data = reader.readBytes(reader.readVariableLength());
+
+      if (type === META_TEMPO && data.length === 3) {
+        tempoChanges.push({ tick, microsecondsPerBeat: (data[0] << 16) | (data[1] << 8) | data[2] });
+      } else if (type === META_TRACK_NAME && track.name === undefined) {
+        track.name = String.fromCharCode(...data);
+      }
+      continue;
+    }
+
+    if (status === SYSEX_START || status === SYSEX_CONTINUATION) {
+      runningStatus = null;
+      reader.readBytes(reader.readVariableLength());
+      continue;
+    }
+
+    // Running status: a data byte means the previous status byte repeats
+    const message: number[] = [];
+    if (status < 0x80) {
+      if (runningStatus === null) {
+        throw new Error('MIDI file uses running status before any status byte');
+      }
+      message.push(status);
+      status = runningStatus;
+    } else {
+      runningStatus = status;
+    }
+
+    while (message.length < getDataLength(status)) {
+      message.push(reader.readUint8());
+    }
+
+    track.events.push({ tick, time: 0, data: [status, ...message] });
+  }
+
+  reader.position = end;
+  return track;
+}
+
+/**
+ * Parses a Standard MIDI File.
+ *
+ * @param data - Contents of a .mid file
+ * @returns The file's tracks with their channel messages in order
+ * @throws Error if the data isn't a Standard MIDI File, is cut short, or uses SMPTE timing or 0 ticks per beat
+ *
+ * @example
+ * ```typescript
+ * const file = parseMidiFile(await selectedFile.arrayBuffer());
+ * file.tracks[0].events[0] // { tick: 0, time: 0, data: [0x90, 60, 100] }
+ * ```
+ */
+export function parseMidiFile(data: ArrayBuffer | Uint8Array): MidiFile {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const reader = new ByteReader(bytes);
+
+  if (bytes.length < 14 || reader.readString(4) !== 'MThd') {
+    throw new Error('Not a Standard MIDI File');
+  }
+
+  const headerLength = reader.readUint32();
+  const headerEnd = reader.position + headerLength;
+  const format = reader.readUint16();
+  const trackCount = reader.readUint16();
+  const division = reader.readUint16();
+  reader.position = headerEnd;
+
+  if (division & 0x8000) {
+    throw new Error('MIDI files with SMPTE timing are not supported');
+  }
+  if (division === 0) {
+    throw new Error('MIDI file has a time division of 0 ticks per beat');
+  }
+
+  const ticksPerBeat = division;
+  const tempoChanges: TempoChange[] = [];
+  const tracks: MidiFileTrack[] = [];
+
+  while (tracks.length < trackCount && reader.hasMore(bytes.length)) {
+    const chunkType = reader.readString(4);
+    const chunkLength = reader.readUint32();
+    const chunkEnd = reader.position + chunkLength;
+
+    if (chunkEnd > bytes.length) {
+      throw new Error('Unexpected end of MIDI file');
+    }
+
+    if (chunkType === 'MTrk') {
+      tracks.push(parseTrack(reader, chunkEnd, tempoChanges));
+    } else {
+      // Unknown chunks are skipped, as the specification requires
+      reader.position = chunkEnd;
+    }
+  }
+
+  // Tempo changes apply to every track, so times are worked out once all are read
+  tempoChanges.sort((a, b) => a.tick - b.tick);
+  let duration = 0;
+  tracks.forEach(track => {
+    track.events.forEach(event => {
+      event.time = ticksToMilliseconds(event.tick, tempoChanges, ticksPerBeat);
+      duration = Math.max(duration, event.time);
+    });
+  });
+
+  return { format, ticksPerBeat, tracks, duration };
+}
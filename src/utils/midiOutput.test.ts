@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { MidiOutputRouter } from './midiOutput';
+import type { MidiOutputPort } from './midiOutput';
+import type { MidiDeviceInfo } from '../types/midi';
+
+describe('MidiOutputRouter', () => {
+  let router: MidiOutputRouter;
+  let output: MidiDeviceInfo | null;
+  let port: MidiOutputPort;
+  let sendMessage: Mock<(data: number[]) => void>;
+
+  const synth: MidiDeviceInfo = {
+    id: 'synth-1',
+    name: 'Piano Module',
+    manufacturer: 'Test',
+    state: 'connected',
+    type: 'output'
+  };
+
+  const C5 = { note: 'C' as const, octave: 5 as const };
+  const E5 = { note: 'E' as const, octave: 5 as const };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    output = synth;
+    sendMessage = vi.fn();
+    port = {
+      getSelectedOutput: () => output,
+      sendMessage
+    };
+    router = new MidiOutputRouter();
+    router.setPort(port);
+    sendMessage.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends note on straight away and note off after the duration', () => {
+    router.setSettings({ channel: 2, velocity: 90, program: null });
+    sendMessage.mockClear();
+    router.playNotes([C5, E5], 1.5);
+
+    expect(sendMessage.mock.calls).toEqual([[[0x91, 60, 90]], [[0x91, 64, 90]]]);
+
+    vi.advanceTimersByTime(1500);
+
+    expect(sendMessage).toHaveBeenCalledWith([0x81, 60, 0]);
+    expect(sendMessage).toHaveBeenCalledWith([0x81, 64, 0]);
+  });
+
+  it('sends the program change once per output', () => {
+    router.setSettings({ channel: 1, velocity: 80, program: 4 });
+    router.playNotes([C5], 0.5);
+    router.playNotes([E5], 0.5);
+
+    expect(sendMessage.mock.calls[0][0]).toEqual([0xC0, 4]);
+    expect(sendMessage.mock.calls.filter(([data]) => data[0] === 0xC0)).toHaveLength(1);
+
+    output = { ...synth, id: 'synth-2' };
+    router.playNotes([C5], 0.5);
+
+    expect(sendMessage.mock.calls.filter(([data]) => data[0] === 0xC0)).toHaveLength(2);
+  });
+
+  it('switches a sounding note off before starting it again', () => {
+    router.playNotes([C5], 1);
+    vi.advanceTimersByTime(500);
+    router.playNotes([C5], 1);
+
+    expect(sendMessage.mock.calls.map(([data]) => data)).toEqual([
+      [0x90, 60, 80],
+      [0x80, 60, 0],
+      [0x90, 60, 80]
+    ]);
+
+    // The first note's note off no longer cuts the second note short
+    vi.advanceTimersByTime(600);
+    expect(sendMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('releases sounding notes and sends All Notes Off', () => {
+    router.playNotes([C5], 2);
+    router.releaseAll();
+
+    expect(sendMessage).toHaveBeenCalledWith([0x80, 60, 0]);
+    expect(sendMessage).toHaveBeenLastCalledWith([0xB0, 123, 0]);
+
+    sendMessage.mockClear();
+    vi.advanceTimersByTime(2000);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('releases notes on the old channel when the channel changes', () => {
+    router.playNotes([C5], 2);
+    router.setSettings({ channel: 3, velocity: 80, program: null });
+
+    expect(sendMessage).toHaveBeenCalledWith([0x80, 60, 0]);
+    expect(sendMessage).toHaveBeenLastCalledWith([0xB0, 123, 0]);
+  });
+
+  it('does nothing while the output is unplugged', () => {
+    output = { ...synth, state: 'disconnected' };
+
+    expect(router.isConnected()).toBe(false);
+    router.playNotes([C5], 1);
+
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import type { MidiDeviceInfo } from '../types/midi';
+import type { MidiOutputSettings, NoteWithOctave } from '../types/music';
+import { DEFAULT_MIDI_OUTPUT_SETTINGS } from '../types/music';
+import {
+  noteWithOctaveToMidiNote,
+  createNoteOnMessage,
+  createNoteOffMessage,
+  createProgramChangeMessage,
+  createAllNotesOffMessage
+} from './midiUtils';
+
+/**
+ * Where the router sends its messages. MidiManager implements this for the
+ * selected Web MIDI output.
+ */
+export interface MidiOutputPort {
+  getSelectedOutput(): MidiDeviceInfo | null;
+  sendMessage(data: number[]): void;
+}
+
+/**
+ * MidiOutputRouter - Plays notes on an external MIDI device as note on/off messages
+ *
+ * Each note is switched off after its duration. A note that is started again
+ * while it is still sounding is switched off first, so the earlier note off
+ * can't cut the new one short. The program change from the settings is sent
+ * before the first note on a newly connected output and again whenever the
+ * program or channel changes.
+ *
+ * @example
+ * ```typescript
+ * const router = new MidiOutputRouter();
+ * router.setPort(MidiManager.getInstance());
+ * router.setSettings({ channel: 1, velocity: 90, program: 0 });
+ *
+ * if (router.isConnected()) {
+ *   router.playNotes([{ note: 'C', octave: 5 }, { note: 'E', octave: 5 }], 1.5);
+ * }
+ * ```
+ */
+export class MidiOutputRouter {
+  private port: MidiOutputPort | null = null;
+  private settings: MidiOutputSettings = DEFAULT_MIDI_OUTPUT_SETTINGS;
+  private soundingNotes: Map<number, ReturnType<typeof setTimeout>> = new Map();
+  private programSentTo: string | null = null;
+
+  /**
+   * Sets where messages are sent, releasing notes still sounding on the previous port.
+   * @param port - The output port, or null to stop sending
+   */
+  setPort(port: MidiOutputPort | null): void {
+    this.releaseAll();
+    this.port = port;
+    this.programSentTo = null;
+  }
+
+  /**
+   * Updates channel, velocity and program. Notes still sounding on the old
+   * channel are released when the channel changes.
+   */
+  setSettings(settings: MidiOutputSettings): void {
+    if (settings.channel !== this.settings.channel) {
+      this.releaseAll();
+    }
+    if (settings.channel !== this.settings.channel || settings.program !== this.settings.program) {
+      this.programSentTo = null;
+    }
+    this.settings = settings;
+  }
+
+  /**
+   * Checks whether notes played now would reach a connected device
+   */
+  isConnected(): boolean {
+    return this.port?.getSelectedOutput()?.state === 'connected';
+  }
+
+  /**
+   * Starts notes together and switches them off after a duration.
+   * Does nothing while no output is connected.
+   *
+   * @param notes - Notes to play
+   * @param duration - How long the notes sound, in seconds
+   */
+  playNotes(notes: NoteWithOctave[], duration: number): void {
+    const output = this.port?.getSelectedOutput();
+    if (!this.port || output?.state !== 'connected') {
+      return;
+    }
+
+    const { channel, velocity, program } = this.settings;
+
+    if (program !== null && this.programSentTo !== output.id) {
+      this.port.sendMessage(createProgramChangeMessage(program, channel));
+      this.programSentTo = output.id;
+    }
+
+    notes.forEach(note => {
+      const midiNote = noteWithOctaveToMidiNote(note);
+
+      const pendingNoteOff = this.soundingNotes.get(midiNote);
+      if (pendingNoteOff !== undefined) {
+        clearTimeout(pendingNoteOff);
+        this.port!.sendMessage(createNoteOffMessage(midiNote, channel));
+      }
+
+      this.port!.sendMessage(createNoteOnMessage(midiNote, velocity, channel));
+      this.soundingNotes.set(midiNote, setTimeout(() => {
+        this.soundingNotes.delete(midiNote);
+        this.port?.sendMessage(createNoteOffMessage(midiNote, channel));
+      }, duration * 1000)); // Convert to milliseconds
+    });
+  }
+
+  /**
+   * Switches off every note that is still sounding and sends All Notes Off on the channel
+   */
+  releaseAll(): void {
+    const { channel } = this.settings;
+
+    this.soundingNotes.forEach((pendingNoteOff, midiNote) => {
+      clearTimeout(pendingNoteOff);
+      this.port?.sendMessage(createNoteOffMessage(midiNote, channel));
+    });
+    this.soundingNotes.clear();
+
+    this.port?.sendMessage(createAllNotesOffMessage(channel));
+  }
+}
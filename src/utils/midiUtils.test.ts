@@ -8,6 +8,18 @@ import {
   isNoteOffMessage,
   getMidiNoteFromMessage,
   getVelocityFromMessage,
+  createNoteOnMessage,
+  createNoteOffMessage,
+  createProgramChangeMessage,
+  createAllNotesOffMessage,
+  isControlChangeMessage,
+  isPitchBendMessage,
+  getChannelFromMessage,
+  getPitchBendValue,
+  isPedalDown,
+  getBindingFromMessage,
+  findBoundAction,
+  describeMidiBinding,
   MIDI_STATUS
 } from './midiUtils';
 import type { Note, Octave } from '../types/music';
@@ -260,6 +272,82 @@ describe('midiUtils', () => {
     });
   });
 
+  describe('Controllers and Pitch Bend', () => {
+    it('should recognise control change and pitch bend messages', () => {
+      expect(isControlChangeMessage(MidiMessages.controlChange(64, 127))).toBe(true);
+      expect(isControlChangeMessage(MidiMessages.noteOn(60, 64))).toBe(false);
+      expect(isPitchBendMessage({ status: 0xE3, data1: 0, data2: 64 })).toBe(true);
+    });
+
+    it('should read the channel as 1-16', () => {
+      expect(getChannelFromMessage(MidiMessages.noteOn(60, 64, 0))).toBe(1);
+      expect(getChannelFromMessage(MidiMessages.controlChange(64, 0, 15))).toBe(16);
+    });
+
+    it('should centre pitch bend values on 0', () => {
+      expect(getPitchBendValue({ status: 0xE0, data1: 0, data2: 64 })).toBe(0);
+      expect(getPitchBendValue({ status: 0xE0, data1: 0, data2: 0 })).toBe(-8192);
+      expect(getPitchBendValue({ status: 0xE0, data1: 127, data2: 127 })).toBe(8191);
+    });
+
+    it('should treat pedal values of 64 and above as down', () => {
+      expect(isPedalDown(63)).toBe(false);
+      expect(isPedalDown(64)).toBe(true);
+    });
+  });
+
+  describe('Controller Bindings', () => {
+    it('should get the control a message belongs to', () => {
+      expect(getBindingFromMessage({ status: 0x99, data1: 36, data2: 100 }))
+        .toEqual({ type: 'note', number: 36, channel: 10 });
+      expect(getBindingFromMessage({ status: 0x89, data1: 36, data2: 0 }))
+        .toEqual({ type: 'note', number: 36, channel: 10 });
+      expect(getBindingFromMessage({ status: 0xB0, data1: 64, data2: 127 }))
+        .toEqual({ type: 'controlChange', number: 64, channel: 1 });
+      expect(getBindingFromMessage({ status: 0xC1, data1: 5 }))
+        .toEqual({ type: 'programChange', number: 5, channel: 2 });
+      expect(getBindingFromMessage({ status: 0xE0, data1: 0, data2: 64 })).toBeNull();
+    });
+
+    it('should find the action a control is mapped to', () => {
+      const bindings = {
+        replay: { type: 'note' as const, number: 36, channel: 10 },
+        next: { type: 'controlChange' as const, number: 36, channel: 10 }
+      };
+
+      expect(findBoundAction(bindings, { type: 'controlChange', number: 36, channel: 10 })).toBe('next');
+      expect(findBoundAction(bindings, { type: 'note', number: 36, channel: 1 })).toBeNull();
+      expect(findBoundAction(undefined, { type: 'note', number: 36, channel: 10 })).toBeNull();
+    });
+
+    it('should describe bindings for display', () => {
+      expect(describeMidiBinding({ type: 'note', number: 61, channel: 1 })).toBe('Note C#5 (ch. 1)');
+      expect(describeMidiBinding({ type: 'controlChange', number: 64, channel: 2 })).toBe('CC 64 (ch. 2)');
+      expect(describeMidiBinding({ type: 'programChange', number: 0, channel: 10 })).toBe('Program 1 (ch. 10)');
+    });
+  });
+
+  describe('Outgoing MIDI Messages', () => {
+    it('should build note on and note off messages on a channel', () => {
+      expect(createNoteOnMessage(60, 100, 1)).toEqual([0x90, 60, 100]);
+      expect(createNoteOffMessage(60, 16)).toEqual([0x8F, 60, 0]);
+    });
+
+    it('should keep note on velocity between 1 and 127', () => {
+      expect(createNoteOnMessage(60, 0, 1)[2]).toBe(1);
+      expect(createNoteOnMessage(60, 200, 1)[2]).toBe(127);
+    });
+
+    it('should build program change and all notes off messages', () => {
+      expect(createProgramChangeMessage(4, 2)).toEqual([0xC1, 4]);
+      expect(createAllNotesOffMessage(10)).toEqual([0xB9, 123, 0]);
+    });
+
+    it.each([0, 17, 1.5])('should reject channel %s', (channel) => {
+      expect(() => createNoteOnMessage(60, 100, channel)).toThrow('MIDI channel must be between 1 and 16');
+    });
+  });
+
   describe('MIDI Constants', () => {
     it('should have correct MIDI status constants', () => {
       expect(MIDI_STATUS.NOTE_OFF).toBe(0x80);
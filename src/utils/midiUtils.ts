@@ -1,4 +1,5 @@
 import type { Note, NoteWithOctave, Octave } from '../types/music';
+import type { MidiAction, MidiActionBindings, MidiBinding } from '../types/midi';
 
 /**
  * Maps a MIDI note number (0-127) to a Note type (chromatic note name).
@@ -131,9 +132,21 @@ export interface MidiMessage {
 export const MIDI_STATUS = {
   NOTE_OFF: 0x80,      // 128
   NOTE_ON: 0x90,       // 144
+  CONTROL_CHANGE: 0xB0, // 176
+  PROGRAM_CHANGE: 0xC0, // 192
+  PITCH_BEND: 0xE0,    // 224
   NOTE_ON_MASK: 0xF0,  // Mask to get message type (ignoring channel)
 } as const;
 
+/**
+ * Controller numbers of control change messages
+ */
+export const MIDI_CONTROLLERS = {
+  SUSTAIN: 64,
+  SOSTENUTO: 66,
+  ALL_NOTES_OFF: 123, // Channel mode message that silences every note on a channel
+} as const;
+
 /**
  * Checks if a MIDI message is a note on event.
  *
@@ -160,6 +173,136 @@ export function isNoteOffMessage(message: MidiMessage): boolean {
   );
 }
 
+/**
+ * Checks if a MIDI message is a control change (pedals, wheels, sliders).
+ *
+ * @param message - MIDI message data
+ * @returns true if message is a control change
+ */
+export function isControlChangeMessage(message: MidiMessage): boolean {
+  return (message.status & MIDI_STATUS.NOTE_ON_MASK) === MIDI_STATUS.CONTROL_CHANGE;
+}
+
+/**
+ * Checks if a MIDI message is a pitch bend.
+ *
+ * @param message - MIDI message data
+ * @returns true if message is a pitch bend
+ */
+export function isPitchBendMessage(message: MidiMessage): boolean {
+  return (message.status & MIDI_STATUS.NOTE_ON_MASK) === MIDI_STATUS.PITCH_BEND;
+}
+
+/**
+ * Checks if a MIDI message is a program change.
+ *
+ * @param message - MIDI message data
+ * @returns true if message is a program change
+ */
+export function isProgramChangeMessage(message: MidiMessage): boolean {
+  return (message.status & MIDI_STATUS.NOTE_ON_MASK) === MIDI_STATUS.PROGRAM_CHANGE;
+}
+
+/**
+ * Gets the channel a MIDI channel message was sent on.
+ *
+ * @param message - MIDI message data
+ * @returns MIDI channel (1-16)
+ */
+export function getChannelFromMessage(message: MidiMessage): number {
+  return (message.status & 0x0F) + 1;
+}
+
+/**
+ * Reads the 14-bit bend of a pitch bend message relative to its centre.
+ *
+ * @param message - Pitch bend message (data1 = LSB, data2 = MSB)
+ * @returns Bend from -8192 (fully down) to 8191 (fully up), 0 at rest
+ *
+ * @example
+ * getPitchBendValue({ status: 0xE0, data1: 0, data2: 64 }) // Returns 0
+ */
+export function getPitchBendValue(message: MidiMessage): number {
+  return (((message.data2 ?? 64) << 7) | message.data1) - 8192;
+}
+
+/**
+ * Checks whether a pedal controller value means the pedal is down.
+ * Half-pedalling values of 64 and above count as down.
+ */
+export function isPedalDown(value: number): boolean {
+  return value >= 64;
+}
+
+/**
+ * Gets the control a message belongs to, for mapping it to an action.
+ * Note on and note off both belong to the note's control.
+ *
+ * @param message - MIDI message data
+ * @returns The note, controller or program change control, or null for other messages
+ *
+ * @example
+ * getBindingFromMessage({ status: 0x99, data1: 36, data2: 100 })
+ * // Returns { type: 'note', number: 36, channel: 10 }
+ */
+export function getBindingFromMessage(message: MidiMessage): MidiBinding | null {
+  const channel = getChannelFromMessage(message);
+
+  if (isNoteOnMessage(message) || isNoteOffMessage(message)) {
+    return { type: 'note', number: message.data1, channel };
+  }
+  if (isControlChangeMessage(message)) {
+    return { type: 'controlChange', number: message.data1, channel };
+  }
+  if (isProgramChangeMessage(message)) {
+    return { type: 'programChange', number: message.data1, channel };
+  }
+  return null;
+}
+
+/**
+ * Checks whether two bindings are the same control.
+ */
+export function isSameBinding(a: MidiBinding, b: MidiBinding): boolean {
+  return a.type === b.type && a.number === b.number && a.channel === b.channel;
+}
+
+/**
+ * Finds the action a control is mapped to on a device.
+ *
+ * @param bindings - The device's mapped actions
+ * @param binding - The control that was used
+ * @returns The mapped action, or null if the control isn't mapped
+ */
+export function findBoundAction(
+  bindings: MidiActionBindings | undefined,
+  binding: MidiBinding
+): MidiAction | null {
+  const entry = Object.entries(bindings ?? {})
+    .find(([, bound]) => bound && isSameBinding(bound, binding));
+  return entry ? entry[0] as MidiAction : null;
+}
+
+/**
+ * Describes a binding for display.
+ *
+ * @example
+ * describeMidiBinding({ type: 'note', number: 60, channel: 1 }) // Returns 'Note C5 (ch. 1)'
+ * describeMidiBinding({ type: 'controlChange', number: 64, channel: 1 }) // Returns 'CC 64 (ch. 1)'
+ */
+export function describeMidiBinding(binding: MidiBinding): string {
+  switch (binding.type) {
+    case 'note': {
+      const name = `${CHROMATIC_NOTES[binding.number % 12]}${Math.floor(binding.number / 12)}`;
+      return `Note ${name} (ch. ${binding.channel})`;
+    }
+    case 'controlChange':
+      return `CC ${binding.number} (ch. ${binding.channel})`;
+    case 'programChange':
+      return `Program ${binding.number + 1} (ch. ${binding.channel})`;
+  }
+}
+
 /**
  * Extracts the MIDI note number from a MIDI message.
  *
@@ -186,3 +329,74 @@ export function getVelocityFromMessage(message: MidiMessage): number | null {
   }
   return velocity;
 }
+
+/**
+ * Builds the status byte of a channel message.
+ *
+ * @param type - Message type from MIDI_STATUS (e.g. MIDI_STATUS.NOTE_ON)
+ * @param channel - MIDI channel (1-16)
+ * @throws Error if the channel is outside 1-16
+ */
+function getStatusByte(type: number, channel: number): number {
+  if (!Number.isInteger(channel) || channel < 1 || channel > 16) {
+    throw new Error(`MIDI channel must be between 1 and 16, got ${channel}`);
+  }
+  return type | (channel - 1);
+}
+
+/**
+ * Keeps a data byte in the 0-127 range MIDI allows.
+ */
+function toDataByte(value: number): number {
+  return Math.max(0, Math.min(127, Math.round(value)));
+}
+
+/**
+ * Creates a note on message.
+ *
+ * @param midiNote - MIDI note number (0-127)
+ * @param velocity - Velocity (1-127); 0 would be read as a note off, so it is raised to 1
+ * @param channel - MIDI channel (1-16)
+ * @returns Message bytes ready for MIDIOutput.send()
+ *
+ * @example
+ * createNoteOnMessage(60, 100, 1) // Returns [0x90, 60, 100]
+ */
+export function createNoteOnMessage(midiNote: number, velocity: number, channel: number): number[] {
+  return [getStatusByte(MIDI_STATUS.NOTE_ON, channel), toDataByte(midiNote), Math.max(1, toDataByte(velocity))];
+}
+
+/**
+ * Creates a note off message.
+ *
+ * @param midiNote - MIDI note number (0-127)
+ * @param channel - MIDI channel (1-16)
+ * @returns Message bytes ready for MIDIOutput.send()
+ */
+export function createNoteOffMessage(midiNote: number, channel: number): number[] {
+  return [getStatusByte(MIDI_STATUS.NOTE_OFF, channel), toDataByte(midiNote), 0];
+}
+
+/**
+ * Creates a program change message.
+ *
+ * @param program - Program number (0-127, General MIDI numbering minus one)
+ * @param channel - MIDI channel (1-16)
+ * @returns Message bytes ready for MIDIOutput.send()
+ *
+ * @example
+ * createProgramChangeMessage(0, 1) // Returns [0xC0, 0] (Acoustic Grand Piano)
+ */
+export function createProgramChangeMessage(program: number, channel: number): number[] {
+  return [getStatusByte(MIDI_STATUS.PROGRAM_CHANGE, channel), toDataByte(program)];
+}
+
+/**
+ * Creates an All Notes Off message, which releases every note sounding on a channel.
+ *
+ * @param channel - MIDI channel (1-16)
+ * @returns Message bytes ready for MIDIOutput.send()
+ */
+export function createAllNotesOffMessage(channel: number): number[] {
+  return [getStatusByte(MIDI_STATUS.CONTROL_CHANGE, channel), MIDI_CONTROLLERS.ALL_NOTES_OFF, 0];
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  getKeyScaleSpelling,
+  getSpelledPitchClass,
+  spellNote,
+  spellChord,
+  spellChordTones,
+  spellChordName,
+  toAsciiSpelling
+} from './noteSpelling';
+import { ChordEngine } from './chordEngine';
+import { setCustomChordTypes } from './chordTypeRegistry';
+import type { KeyContext } from '../types/music';
+
+const B_FLAT_MAJOR: KeyContext = { key: 'A#', scale: 'major' };
+const C_MAJOR: KeyContext = { key: 'C', scale: 'major' };
+
+describe('noteSpelling', () => {
+  afterEach(() => {
+    setCustomChordTypes([]);
+  });
+
+  describe('getKeyScaleSpelling', () => {
+    it('spells flat keys with flats', () => {
+      expect(getKeyScaleSpelling(B_FLAT_MAJOR)).toEqual(['B♭', 'C', 'D', 'E♭', 'F', 'G', 'A']);
+    });
+
+    it('spells sharp keys with sharps, including E#', () => {
+      expect(getKeyScaleSpelling({ key: 'F#', scale: 'major' })).toEqual(['F#', 'G#', 'A#', 'B', 'C#', 'D#', 'E#']);
+    });
+
+    it('writes C# major as D♭ major', () => {
+      expect(getKeyScaleSpelling({ key: 'C#', scale: 'major' })[0]).toBe('D♭');
+    });
+
+    it('spells minor keys from their relative major', () => {
+      expect(getKeyScaleSpelling({ key: 'D', scale: 'minor' })).toEqual(['D', 'E', 'F', 'G', 'A', 'B♭', 'C']);
+      expect(getKeyScaleSpelling({ key: 'G#', scale: 'minor' })).toEqual(['G#', 'A#', 'B', 'C#', 'D#', 'E', 'F#']);
+    });
+  });
+
+  describe('getSpelledPitchClass', () => {
+    it('handles single and double accidentals', () => {
+      expect(getSpelledPitchClass('C')).toBe(0);
+      expect(getSpelledPitchClass('E♭')).toBe(3);
+      expect(getSpelledPitchClass('F𝄪')).toBe(7);
+      expect(getSpelledPitchClass('B𝄫')).toBe(9);
+      expect(getSpelledPitchClass('B#')).toBe(0);
+    });
+  });
+
+  describe('spellNote', () => {
+    it('keeps the stored spelling without a key', () => {
+      expect(spellNote('A#')).toBe('A#');
+    });
+
+    it('uses the key spelling for notes in the key', () => {
+      expect(spellNote('A#', { key: 'F', scale: 'major' })).toBe('B♭');
+      expect(spellNote('F', { key: 'F#', scale: 'major' })).toBe('E#');
+    });
+
+    it('uses the key accidental for chromatic notes', () => {
+      expect(spellNote('C#', B_FLAT_MAJOR)).toBe('D♭');
+      expect(spellNote('C#', { key: 'D', scale: 'major' })).toBe('C#');
+      expect(spellNote('A#', { key: 'E', scale: 'major' })).toBe('A#');
+    });
+  });
+
+  describe('spellChord', () => {
+    it('spells an E♭ major chord in B♭ major', () => {
+      const chord = ChordEngine.buildChord('D#', 'major', 4);
+      expect(spellChord(chord, B_FLAT_MAJOR)).toEqual({ root: 'E♭', notes: ['E♭', 'G', 'B♭'] });
+    });
+
+    it('follows the order of the chord notes in inversions', () => {
+      const chord = ChordEngine.buildChord('D#', 'major', 4, 1);
+      expect(spellChord(chord, B_FLAT_MAJOR).notes).toEqual(['G', 'B♭', 'E♭']);
+    });
+
+    it('uses double sharps when the harmony needs them', () => {
+      const chord = ChordEngine.buildChord('D#', 'major', 4);
+      expect(spellChord(chord, { key: 'G#', scale: 'minor' })).toEqual({ root: 'D#', notes: ['D#', 'F𝄪', 'A#'] });
+    });
+
+    it('uses a double flat for the seventh of a diminished seventh chord', () => {
+      const chord = ChordEngine.buildChord('C', 'diminished7', 4);
+      expect(spellChord(chord).notes).toEqual(['C', 'E♭', 'G♭', 'B𝄫']);
+    });
+
+    it('spells augmented fifths and half-diminished fifths on the fifth', () => {
+      expect(spellChord(ChordEngine.buildChord('E', 'augmented', 4)).notes).toEqual(['E', 'G#', 'B#']);
+      expect(spellChord(ChordEngine.buildChord('B', 'halfDiminished7', 3)).notes).toEqual(['B', 'D', 'F', 'A']);
+    });
+
+    it('spells extensions on the 9th, 11th and 13th', () => {
+      const chord = ChordEngine.buildChord('A#', 'dominant13', 3);
+      expect(spellChord(chord).notes).toEqual(['B♭', 'D', 'F', 'A♭', 'C', 'G']);
+    });
+
+    it('prefers the root spelling that needs fewer accidentals without a key', () => {
+      expect(spellChord(ChordEngine.buildChord('D#', 'major', 4)).root).toBe('E♭');
+      expect(spellChord(ChordEngine.buildChord('C#', 'minor', 4)).root).toBe('C#');
+      expect(spellChord(ChordEngine.buildChord('F#', 'major', 4)).root).toBe('F#');
+    });
+
+    it('spells chromatic roots with the key accidental on a tie', () => {
+      expect(spellChord(ChordEngine.buildChord('F#', 'major', 4), B_FLAT_MAJOR).root).toBe('G♭');
+    });
+
+    it('spells sharp-nine chords on the second degree', () => {
+      setCustomChordTypes([{
+        id: 'custom-1',
+        name: 'Dominant 7th sharp 9',
+        suffix: '7#9',
+        intervals: [0, 4, 7, 10, 15],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      }]);
+
+      const chord = ChordEngine.buildChord('G', 'custom-1', 3);
+      expect(spellChord(chord).notes).toEqual(['G', 'B', 'D', 'F', 'A#']);
+    });
+  });
+
+  describe('spellChordTones', () => {
+    it('spells a formula from a root', () => {
+      expect(spellChordTones('C', [0, 3, 7, 10])).toEqual(['C', 'E♭', 'G', 'B♭']);
+      expect(spellChordTones('C', [0, 4, 7, 11, 18])).toEqual(['C', 'E', 'G', 'B', 'F#']);
+    });
+  });
+
+  describe('spellChordName', () => {
+    it('spells the root and bass note', () => {
+      expect(spellChordName(ChordEngine.buildChord('D#', 'major', 4, 1), B_FLAT_MAJOR)).toBe('E♭/G');
+      expect(spellChordName(ChordEngine.buildChord('A#', 'minor7', 3, 2), { key: 'G#', scale: 'major' })).toBe('B♭m7/F');
+    });
+
+    it('matches the stored name for naturals', () => {
+      const chord = ChordEngine.buildChord('D', 'minor7', 4);
+      expect(spellChordName(chord, C_MAJOR)).toBe(chord.name);
+    });
+  });
+
+  describe('toAsciiSpelling', () => {
+    it('replaces music symbols with typeable accidentals', () => {
+      expect(toAsciiSpelling('E♭m7')).toBe('Ebm7');
+      expect(toAsciiSpelling('B𝄫')).toBe('Bbb');
+      expect(toAsciiSpelling('F𝄪')).toBe('Fx');
+    });
+  });
+});
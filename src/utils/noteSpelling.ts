@@ -0,0 +1,328 @@
+/**
+ * Note Spelling
+ *
+ * Notes are stored as sharps-only pitch classes (the Note type), which is
+ * right for comparing and playing them but not for reading them: an E♭ major
+ * chord would be written "D#" with an "A#" fifth. This module derives the
+ * written letter names from the chord root, the chord's intervals and an
+ * optional key, including double sharps and flats where the harmony needs them.
+ *
+ * Spelled notes use '#' and '♭' (plus '𝄪' and '𝄫'), matching the sharps of the
+ * Note type and the flats used in chord suffixes such as "m7♭5".
+ *
+ * @module utils/noteSpelling
+ */
+
+import type { Note, Chord, KeyContext } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { getScaleIntervals } from '../constants/scales';
+import { getChordFormula, getChordSuffix } from './chordTypeRegistry';
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'] as const;
+
+/** Pitch class of each natural note, indexed like LETTERS */
+const NATURAL_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11] as const;
+
+const ACCIDENTALS: Record<number, string> = {
+  [-2]: '𝄫',
+  [-1]: '♭',
+  0: '',
+  1: '#',
+  2: '𝄪',
+};
+
+/**
+ * How each major key's tonic is written. Keys with more than six sharps are
+ * written as their flat enharmonic (C# major → D♭ major).
+ */
+const MAJOR_KEY_TONICS: Record<Note, string> = {
+  'C': 'C', 'C#': 'D♭', 'D': 'D', 'D#': 'E♭', 'E': 'E', 'F': 'F',
+  'F#': 'F#', 'G': 'G', 'G#': 'A♭', 'A': 'A', 'A#': 'B♭', 'B': 'B',
+};
+
+/** How each minor key's tonic is written, following the relative major */
+const MINOR_KEY_TONICS: Record<Note, string> = {
+  'C': 'C', 'C#': 'C#', 'D': 'D', 'D#': 'D#', 'E': 'E', 'F': 'F',
+  'F#': 'F#', 'G': 'G', 'G#': 'G#', 'A': 'A', 'A#': 'B♭', 'B': 'B',
+};
+
+const FLAT_NAMES: Partial<Record<Note, string>> = {
+  'C#': 'D♭', 'D#': 'E♭', 'F#': 'G♭', 'G#': 'A♭', 'A#': 'B♭',
+};
+
+/**
+ * The spelling of a chord: its written root and one written note for each
+ * note of the chord, in the same order as chord.notes.
+ */
+export interface ChordSpelling {
+  root: string;
+  notes: string[];
+}
+
+function toPitchClass(value: number): number {
+  return ((value % 12) + 12) % 12;
+}
+
+/** Semitones from a letter's natural note to a pitch class, between -5 and 6 */
+function getOffsetFromLetter(pitchClass: number, letterIndex: number): number {
+  const offset = toPitchClass(pitchClass - NATURAL_PITCH_CLASSES[letterIndex]);
+  return offset > 6 ? offset - 12 : offset;
+}
+
+/**
+ * Writes a pitch class on a given letter, or returns null if that would need
+ * more than a double sharp or flat.
+ */
+function spellOnLetter(pitchClass: number, letterIndex: number): string | null {
+  const accidental = ACCIDENTALS[getOffsetFromLetter(pitchClass, letterIndex)];
+  return accidental === undefined ? null : `${LETTERS[letterIndex]}${accidental}`;
+}
+
+function getLetterIndex(spelled: string): number {
+  return LETTERS.indexOf(spelled.charAt(0) as typeof LETTERS[number]);
+}
+
+/** Number of accidentals in a written note (a double sharp counts as two) */
+function countAccidentals(spelled: string): number {
+  return Math.abs(getOffsetFromLetter(getSpelledPitchClass(spelled), getLetterIndex(spelled)));
+}
+
+/**
+ * Gets the accidental of a written note in semitones (-2 to 2).
+ *
+ * @example
+ * getAccidentalOffset('E♭') // -1
+ * getAccidentalOffset('F𝄪') // 2
+ */
+export function getAccidentalOffset(spelled: string): number {
+  const accidental = spelled.slice(1);
+  const match = Object.entries(ACCIDENTALS).find(([, symbol]) => symbol === accidental);
+  return match ? Number(match[0]) : 0;
+}
+
+/**
+ * Gets the pitch class (0 = C) of a written note.
+ *
+ * @example
+ * getSpelledPitchClass('E♭') // 3
+ * getSpelledPitchClass('F𝄪') // 7
+ */
+export function getSpelledPitchClass(spelled: string): number {
+  return toPitchClass(NATURAL_PITCH_CLASSES[getLetterIndex(spelled)] + getAccidentalOffset(spelled));
+}
+
+/**
+ * Gets the number of letter steps above the root (0 = root, 2 = third, ...)
+ * at which a chord interval is written.
+ *
+ * Most intervals have one usual spelling; a few depend on the rest of the
+ * chord: 3 semitones is a ♯9 when the major third is present, 6 is a ♯11
+ * next to a perfect fifth, 8 is a ♭13 next to a perfect fifth, and 9 is the
+ * 𝄫7 of a diminished seventh chord.
+ */
+function getIntervalLetterSteps(interval: number, pitchClasses: Set<number>): number {
+  switch (toPitchClass(interval)) {
+    case 0: return 0;
+    case 1: return 1;
+    case 2: return 1;
+    case 3: return pitchClasses.has(4) ? 1 : 2;
+    case 4: return 2;
+    case 5: return 3;
+    case 6: return pitchClasses.has(7) ? 3 : 4;
+    case 7: return 4;
+    case 8: return pitchClasses.has(7) ? 5 : 4;
+    case 9: return pitchClasses.has(3) && pitchClasses.has(6) && !pitchClasses.has(10) && !pitchClasses.has(11) ? 6 : 5;
+    default: return 6;
+  }
+}
+
+/**
+ * Spells each interval of a chord formula from a written root. Intervals that
+ * cannot be written on their letter (e.g., a triple flat) are null.
+ */
+function spellFormula(root: string, formula: number[]): (string | null)[] {
+  const rootLetterIndex = getLetterIndex(root);
+  const rootPitchClass = getSpelledPitchClass(root);
+  const pitchClasses = new Set(formula.map(toPitchClass));
+
+  return formula.map(interval => spellOnLetter(
+    rootPitchClass + interval,
+    (rootLetterIndex + getIntervalLetterSteps(interval, pitchClasses)) % 7
+  ));
+}
+
+/**
+ * Scores a root spelling by the accidentals its chord needs. Unwritable notes
+ * (beyond a double accidental) make a spelling a last resort.
+ */
+function scoreRootSpelling(root: string, formula: number[]): number {
+  return spellFormula(root, formula).reduce(
+    (score, spelled) => score + (spelled === null ? 100 : countAccidentals(spelled)),
+    0
+  );
+}
+
+/**
+ * Spells the seven notes of a key's scale, starting from the tonic.
+ *
+ * @example
+ * getKeyScaleSpelling({ key: 'A#', scale: 'major' }) // ['B♭', 'C', 'D', 'E♭', 'F', 'G', 'A']
+ */
+export function getKeyScaleSpelling(keyContext: KeyContext): string[] {
+  const tonic = keyContext.scale === 'major'
+    ? MAJOR_KEY_TONICS[keyContext.key]
+    : MINOR_KEY_TONICS[keyContext.key];
+  const tonicLetterIndex = getLetterIndex(tonic);
+  const tonicPitchClass = ALL_NOTES.indexOf(keyContext.key);
+
+  return getScaleIntervals(keyContext.scale).map((interval, degree) =>
+    spellOnLetter(tonicPitchClass + interval, (tonicLetterIndex + degree) % 7) ?? ALL_NOTES[toPitchClass(tonicPitchClass + interval)]
+  );
+}
+
+/**
+ * Whether a key is written with flats (true), sharps (false) or neither (null).
+ */
+function keyUsesFlats(keyContext: KeyContext): boolean | null {
+  const scale = getKeyScaleSpelling(keyContext);
+  if (scale.some(note => note.includes('♭'))) return true;
+  if (scale.some(note => note.includes('#'))) return false;
+  return null;
+}
+
+/**
+ * Spells a single note: in the key's spelling when it belongs to the key,
+ * otherwise with the key's accidental (flats in flat keys). Without a key
+ * the note is written as stored.
+ *
+ * @example
+ * spellNote('A#', { key: 'F', scale: 'major' }) // 'B♭'
+ * spellNote('C#', { key: 'A#', scale: 'major' }) // 'D♭' (chromatic in B♭ major)
+ * spellNote('A#') // 'A#'
+ */
+export function spellNote(note: Note, keyContext?: KeyContext): string {
+  if (!keyContext) {
+    return note;
+  }
+
+  const pitchClass = ALL_NOTES.indexOf(note);
+  const inKey = getKeyScaleSpelling(keyContext).find(spelled => getSpelledPitchClass(spelled) === pitchClass);
+  if (inKey) {
+    return inKey;
+  }
+
+  return keyUsesFlats(keyContext) ? FLAT_NAMES[note] ?? note : note;
+}
+
+/**
+ * Chooses how to write a chord's root.
+ *
+ * A root that belongs to the key keeps the key's spelling. Otherwise the sharp
+ * and flat names are compared and the one whose chord needs fewer accidentals
+ * wins (so D# major is written E♭ rather than D# F𝄪 A#); ties go to the key's
+ * accidental, or to the sharp name when there is no key.
+ */
+function spellChordRoot(root: Note, formula: number[], keyContext?: KeyContext): string {
+  const pitchClass = ALL_NOTES.indexOf(root);
+
+  if (keyContext) {
+    const inKey = getKeyScaleSpelling(keyContext).find(spelled => getSpelledPitchClass(spelled) === pitchClass);
+    if (inKey) {
+      return inKey;
+    }
+  }
+
+  const flatName = FLAT_NAMES[root];
+  if (!flatName) {
+    return root;
+  }
+
+  const candidates = keyContext && keyUsesFlats(keyContext) ? [flatName, root] : [root, flatName];
+  return candidates.reduce((best, candidate) =>
+    scoreRootSpelling(candidate, formula) < scoreRootSpelling(best, formula) ? candidate : best
+  );
+}
+
+/**
+ * Spells each interval of a chord formula from a root, e.g. to preview a
+ * chord type before it is saved.
+ *
+ * @example
+ * spellChordTones('C', [0, 3, 6, 9]) // ['C', 'E♭', 'G♭', 'B𝄫']
+ */
+export function spellChordTones(root: Note, formula: number[], keyContext?: KeyContext): string[] {
+  const rootIndex = ALL_NOTES.indexOf(root);
+  return spellFormula(spellChordRoot(root, formula, keyContext), formula).map((spelled, i) =>
+    spelled ?? spellNote(ALL_NOTES[toPitchClass(rootIndex + formula[i])], keyContext)
+  );
+}
+
+/**
+ * Spells a chord's root and notes from its root, chord type and optional key.
+ * Unknown chord types fall back to the key's spelling of each note.
+ *
+ * @param chord - The chord to spell
+ * @param keyContext - Optional key the chord is heard in
+ * @returns The written root, and the written name of each note in chord.notes
+ *
+ * @example
+ * spellChord(ChordEngine.buildChord('D#', 'major', 4), { key: 'A#', scale: 'major' })
+ * // { root: 'E♭', notes: ['E♭', 'G', 'B♭'] }
+ *
+ * @example
+ * spellChord(ChordEngine.buildChord('C', 'diminished7', 4))
+ * // { root: 'C', notes: ['C', 'E♭', 'G♭', 'B𝄫'] }
+ */
+export function spellChord(
+  chord: Pick<Chord, 'root' | 'type' | 'notes'>,
+  keyContext?: KeyContext
+): ChordSpelling {
+  const formula = getChordFormula(chord.type);
+  if (!formula) {
+    return {
+      root: spellNote(chord.root, keyContext),
+      notes: chord.notes.map(n => spellNote(n.note, keyContext)),
+    };
+  }
+
+  const spelledTones = spellChordTones(chord.root, formula, keyContext);
+
+  const notes = chord.notes.map(n => {
+    const pitchClass = ALL_NOTES.indexOf(n.note);
+    return spelledTones.find(spelled => getSpelledPitchClass(spelled) === pitchClass)
+      ?? spellNote(n.note, keyContext);
+  });
+
+  return { root: spellChordRoot(chord.root, formula, keyContext), notes };
+}
+
+/**
+ * Writes a chord name with spelled root and bass note.
+ *
+ * @example
+ * spellChordName(ChordEngine.buildChord('D#', 'major', 4, 1), { key: 'A#', scale: 'major' }) // 'E♭/G'
+ */
+export function spellChordName(
+  chord: Pick<Chord, 'root' | 'type' | 'inversion' | 'notes'>,
+  keyContext?: KeyContext
+): string {
+  const spelling = spellChord(chord, keyContext);
+  let name = `${spelling.root}${getChordSuffix(chord.type) ?? ''}`;
+
+  if (chord.inversion && chord.inversion > 0 && spelling.notes.length > 0) {
+    name += `/${spelling.notes[0]}`;
+  }
+
+  return name;
+}
+
+/**
+ * Rewrites the accidentals of a spelled note or chord name with ASCII
+ * characters, as typed on a keyboard ('b', '#', 'bb', 'x').
+ *
+ * @example
+ * toAsciiSpelling('E♭m7') // 'Ebm7'
+ */
+export function toAsciiSpelling(spelled: string): string {
+  return spelled.replace(/𝄫/g, 'bb').replace(/𝄪/g, 'x').replace(/♭/g, 'b').replace(/♯/g, '#');
+}
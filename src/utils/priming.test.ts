@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { buildCadence, getPrimingLength, shouldPrimeRound, CADENCE_CHORD_SPACING } from './priming';
+
+describe('priming', () => {
+  describe('buildCadence', () => {
+    it('builds I-IV-V-I in a major key', () => {
+      expect(buildCadence({ key: 'G', scale: 'major' }).map(chord => chord.name)).toEqual(['G', 'C', 'D', 'G']);
+    });
+
+    it('builds i-iv-V-i in a minor key', () => {
+      expect(buildCadence({ key: 'A', scale: 'minor' }).map(chord => chord.name)).toEqual(['Am', 'Dm', 'E', 'Am']);
+    });
+  });
+
+  describe('shouldPrimeRound', () => {
+    it('primes every round when set to round', () => {
+      expect(shouldPrimeRound('round', true)).toBe(true);
+      expect(shouldPrimeRound('round', false)).toBe(true);
+    });
+
+    it('primes only the first round when set to session', () => {
+      expect(shouldPrimeRound('session', true)).toBe(true);
+      expect(shouldPrimeRound('session', false)).toBe(false);
+    });
+
+    it('never primes automatically when off or on demand', () => {
+      expect(shouldPrimeRound('off', true)).toBe(false);
+      expect(shouldPrimeRound('on-demand', true)).toBe(false);
+    });
+  });
+
+  describe('getPrimingLength', () => {
+    it('gives a cadence time for each of its chords', () => {
+      const cadence = getPrimingLength({ type: 'cadence', frequency: 'round', key: { key: 'C', scale: 'major' } });
+      const tone = getPrimingLength({ type: 'reference-a', frequency: 'round', key: { key: 'C', scale: 'major' } });
+
+      expect(cadence).toBeGreaterThan(4 * CADENCE_CHORD_SPACING);
+      expect(tone).toBeLessThan(cadence);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import type { Chord, KeyContext, NoteWithOctave } from '../types/music';
+import type { PrimingFrequency, PrimingSettings, PrimingType } from '../types/game';
+import { getProgressionDefinition } from '../constants/progressions';
+import { buildProgression } from './progressionUtils';
+
+/** Single notes played by the reference tone priming types */
+export const REFERENCE_TONES: Record<Exclude<PrimingType, 'cadence'>, NoteWithOctave> = {
+  'reference-a': { note: 'A', octave: 4 },
+  'reference-c': { note: 'C', octave: 4 }
+};
+
+/** Seconds between the chords of the cadence */
+export const CADENCE_CHORD_SPACING = 0.8;
+
+/** Priming is played softly, 0-1, so it sits under the challenge that follows */
+export const PRIMING_VELOCITY = 0.4;
+
+/** Seconds a reference tone is given before the challenge */
+const REFERENCE_TONE_LENGTH = 1;
+
+/** Silence between the priming and the challenge, in seconds */
+const PRIMING_PAUSE = 0.6;
+
+/**
+ * Builds the I-IV-V-I cadence of a key, or i-iv-V-i for minor keys.
+ *
+ * @example
+ * buildCadence({ key: 'G', scale: 'major' }) // G, C, D and G major triads
+ */
+export function buildCadence(key: KeyContext): Chord[] {
+  const id = key.scale === 'major' ? 'i-iv-v-i' : 'minor-i-iv-v-i';
+  return buildProgression(getProgressionDefinition(id)!, key.key, false).chords;
+}
+
+/**
+ * Decides whether the priming plays automatically before a round.
+ *
+ * @param frequency - The priming frequency setting
+ * @param isFirstRound - Whether this is the first round of the session
+ */
+export function shouldPrimeRound(frequency: PrimingFrequency, isFirstRound: boolean): boolean {
+  return frequency === 'round' || (frequency === 'session' && isFirstRound);
+}
+
+/**
+ * Seconds from the start of the priming until the challenge can be played,
+ * including a short pause so the challenge doesn't run into the priming.
+ */
+export function getPrimingLength(priming: PrimingSettings): number {
+  if (priming.type === 'cadence') {
+    return buildCadence(priming.key).length * CADENCE_CHORD_SPACING + PRIMING_PAUSE;
+  }
+  return REFERENCE_TONE_LENGTH + PRIMING_PAUSE;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildProgression } from './progressionUtils';
+import { PROGRESSIONS, getProgressionDefinition } from '../constants/progressions';
+
+describe('buildProgression', () => {
+  it('builds diatonic triads for a major key progression', () => {
+    const progression = buildProgression(getProgressionDefinition('ii-v-i')!, 'C', false);
+
+    expect(progression.numerals).toEqual(['ii', 'V', 'I']);
+    expect(progression.chords.map(chord => chord.name)).toEqual(['Dm', 'G', 'C']);
+    expect(progression.chords.map(chord => chord.notes[0])).toEqual([
+      { note: 'D', octave: 3 },
+      { note: 'G', octave: 3 },
+      { note: 'C', octave: 3 }
+    ]);
+  });
+
+  it('uses seventh chord qualities when requested', () => {
+    const progression = buildProgression(getProgressionDefinition('ii-v-i')!, 'C', true);
+
+    expect(progression.chords.map(chord => chord.type)).toEqual(['minor7', 'dominant7', 'major7']);
+  });
+
+  it('uses a major V chord in minor keys', () => {
+    const progression = buildProgression(getProgressionDefinition('minor-i-iv-v-i')!, 'A', false);
+
+    expect(progression.keyType).toBe('minor');
+    expect(progression.chords.map(chord => chord.name)).toEqual(['Am', 'Dm', 'E', 'Am']);
+  });
+
+  it('moves chord roots past B into the next octave', () => {
+    const progression = buildProgression(getProgressionDefinition('authentic-cadence')!, 'G', false);
+
+    expect(progression.chords.map(chord => chord.notes[0])).toEqual([
+      { note: 'C', octave: 4 },
+      { note: 'D', octave: 4 },
+      { note: 'G', octave: 3 }
+    ]);
+  });
+
+  it('builds every defined progression with 3 to 8 chords', () => {
+    for (const definition of PROGRESSIONS) {
+      const progression = buildProgression(definition, 'F#', false);
+
+      expect(progression.chords).toHaveLength(definition.numerals.length);
+      expect(progression.chords.length).toBeGreaterThanOrEqual(3);
+      expect(progression.chords.length).toBeLessThanOrEqual(8);
+    }
+  });
+
+  it('throws for numerals outside the key', () => {
+    const definition = { ...getProgressionDefinition('ii-v-i')!, numerals: ['ii', 'bVII', 'I'] };
+
+    expect(() => buildProgression(definition, 'C', false)).toThrow('Unknown major key numeral: bVII');
+  });
+});
@@ -0,0 +1,55 @@
+import type { Note, ChordProgression } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { ChordEngine } from './chordEngine';
+import { getKeyDegrees } from '../constants/progressions';
+import type { ProgressionDefinition } from '../constants/progressions';
+
+/** Octave of the tonic; chords on higher degrees may wrap into the next octave */
+const TONIC_OCTAVE = 3;
+
+/**
+ * Builds the chords of a progression in a given key.
+ *
+ * Each chord root is placed at or above the tonic in octave 3, so the
+ * progression sits in a comfortable middle register.
+ *
+ * @param definition - The progression to build
+ * @param key - Tonic of the key
+ * @param useSeventhChords - Play seventh chords (e.g., ii7-V7-Imaj7) instead of triads
+ * @returns The progression with one chord per numeral
+ * @throws Error if a numeral does not belong to the progression's key type
+ *
+ * @example
+ * buildProgression(getProgressionDefinition('ii-v-i')!, 'C', false)
+ * // chords: Dm, G and C, rooted on D3, G3 and C3
+ */
+export function buildProgression(
+  definition: ProgressionDefinition,
+  key: Note,
+  useSeventhChords: boolean
+): ChordProgression {
+  const degrees = getKeyDegrees(definition.keyType);
+  const tonicIndex = ALL_NOTES.indexOf(key);
+
+  const chords = definition.numerals.map(numeral => {
+    const degree = degrees.find(d => d.numeral === numeral);
+    if (!degree) {
+      throw new Error(`Unknown ${definition.keyType} key numeral: ${numeral}`);
+    }
+
+    const rootPitch = tonicIndex + degree.semitones;
+    const root = ALL_NOTES[rootPitch % 12];
+    const octave = TONIC_OCTAVE + Math.floor(rootPitch / 12);
+    const type = useSeventhChords ? degree.seventhType : degree.triadType;
+
+    return ChordEngine.buildChord(root, type, octave);
+  });
+
+  return {
+    name: definition.name,
+    key,
+    keyType: definition.keyType,
+    numerals: [...definition.numerals],
+    chords
+  };
+}
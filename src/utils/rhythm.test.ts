@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeRhythmTaps,
+  buildRhythmPlayback,
+  compareNotatedRhythm,
+  formatRhythm,
+  generateRhythmPattern,
+  getBeatsPerMeasure,
+  getRhythmBeats,
+  getRhythmOnsets
+} from './rhythm';
+import type { RhythmEvent, RhythmPattern } from '../types/music';
+
+const note = (duration: RhythmEvent['duration']): RhythmEvent => ({ duration, isRest: false });
+const rest = (duration: RhythmEvent['duration']): RhythmEvent => ({ duration, isRest: true });
+
+describe('rhythm', () => {
+  describe('generateRhythmPattern', () => {
+    it('fills every measure exactly', () => {
+      for (let i = 0; i < 20; i++) {
+        const pattern = generateRhythmPattern('3/4', 2, ['2n', '4n', '8n'], true);
+
+        expect(getRhythmBeats(pattern.events)).toBe(6);
+        expect(pattern.events[0].isRest).toBe(false);
+      }
+    });
+
+    it('starts notes of a beat or longer on a beat', () => {
+      for (let i = 0; i < 20; i++) {
+        const pattern = generateRhythmPattern('4/4', 1, ['4n', '8n'], false);
+        let position = 0;
+        for (const event of pattern.events) {
+          if (event.duration !== '8n') {
+            expect(Number.isInteger(position)).toBe(true);
+          }
+          position += event.duration === '8n' ? 0.5 : 1;
+        }
+      }
+    });
+
+    it('falls back to a value that fits when none of the chosen ones do', () => {
+      const pattern = generateRhythmPattern('3/4', 1, ['1n'], false);
+
+      expect(pattern.events).toEqual([note('2n'), note('4n')]);
+    });
+
+    it('throws without note values', () => {
+      expect(() => generateRhythmPattern('4/4', 1, [], false)).toThrow('At least one note value is needed');
+    });
+  });
+
+  it('counts quarter-note beats per measure', () => {
+    expect(getBeatsPerMeasure('2/4')).toBe(2);
+    expect(getBeatsPerMeasure('4/4')).toBe(4);
+  });
+
+  describe('getRhythmOnsets', () => {
+    it('times notes and skips rests', () => {
+      const pattern: RhythmPattern = { meter: '2/4', events: [note('4n'), rest('8n'), note('8n')] };
+
+      expect(getRhythmOnsets(pattern, 120)).toEqual([0, 750]);
+    });
+  });
+
+  describe('buildRhythmPlayback', () => {
+    const pattern: RhythmPattern = { meter: '2/4', events: [note('8n'), note('8n'), note('4n')] };
+
+    it('clicks on every beat with the downbeat accented and the notes after the count-in', () => {
+      const playback = buildRhythmPlayback(pattern, 120, true);
+
+      expect(playback.clicks).toEqual([
+        { offset: 0, accented: true },
+        { offset: 0.5, accented: false },
+        { offset: 1, accented: true },
+        { offset: 1.5, accented: false }
+      ]);
+      expect(playback.notes).toEqual([
+        { offset: 1, duration: '8n' },
+        { offset: 1.25, duration: '8n' },
+        { offset: 1.5, duration: '4n' }
+      ]);
+    });
+
+    it('starts straight away without a count-in', () => {
+      const playback = buildRhythmPlayback(pattern, 120, false);
+
+      expect(playback.clicks).toHaveLength(2);
+      expect(playback.notes[0].offset).toBe(0);
+    });
+  });
+
+  describe('analyzeRhythmTaps', () => {
+    const quarters: RhythmPattern = { meter: '4/4', events: [note('4n'), note('4n'), note('4n'), note('4n')] };
+
+    it('times taps from the first one', () => {
+      const analysis = analyzeRhythmTaps(quarters, 120, [1000, 1510, 1990, 2640], 100);
+
+      expect(analysis.onsets.map(onset => onset.result)).toEqual(['correct', 'correct', 'correct', 'late']);
+      expect(analysis.onsets.map(onset => onset.offset)).toEqual([0, 10, -10, 140]);
+      expect(analysis.meanOffset).toBe(35);
+      expect(analysis.meanAbsoluteOffset).toBe(40);
+      expect(analysis.score).toBe(75);
+    });
+
+    it('marks early taps and misses notes with no tap close enough', () => {
+      const analysis = analyzeRhythmTaps(quarters, 120, [0, 350, 1500], 100);
+
+      expect(analysis.onsets.map(onset => onset.result)).toEqual(['correct', 'early', 'missed', 'correct']);
+      expect(analysis.extraTaps).toBe(0);
+      expect(analysis.score).toBe(50);
+    });
+
+    it('counts extra taps against the score', () => {
+      const analysis = analyzeRhythmTaps(quarters, 120, [0, 250, 500, 1000, 1500], 100);
+
+      expect(analysis.onsets.every(onset => onset.result === 'correct')).toBe(true);
+      expect(analysis.extraTaps).toBe(1);
+      expect(analysis.score).toBe(80);
+    });
+
+    it('misses every note without taps', () => {
+      const analysis = analyzeRhythmTaps(quarters, 120, [], 100);
+
+      expect(analysis.onsets.every(onset => onset.result === 'missed')).toBe(true);
+      expect(analysis.meanOffset).toBeNull();
+      expect(analysis.score).toBe(0);
+    });
+  });
+
+  describe('compareNotatedRhythm', () => {
+    it('matches events by the beat they start on', () => {
+      const comparison = compareNotatedRhythm(
+        [note('4n'), note('8n'), note('8n'), note('4n')],
+        [note('4n'), note('4n'), note('4n')]
+      );
+
+      expect(comparison.eventResults).toEqual(['correct', 'wrong', 'missed', 'correct']);
+      expect(comparison.score).toBe(50);
+    });
+
+    it('treats a rest in place of a note as wrong and counts stray events', () => {
+      const comparison = compareNotatedRhythm(
+        [note('2n'), note('2n')],
+        [note('2n'), rest('4n'), note('4n')]
+      );
+
+      expect(comparison.eventResults).toEqual(['correct', 'wrong']);
+      expect(comparison.extraEvents).toBe(1);
+      expect(comparison.score).toBe((1 / 3) * 100);
+    });
+  });
+
+  it('writes patterns as symbols with bar lines', () => {
+    const pattern: RhythmPattern = { meter: '2/4', events: [note('4n'), note('8n'), rest('8n'), note('2n')] };
+
+    expect(formatRhythm(pattern)).toBe('♩ ♪ 𝄾 | 𝅗𝅥');
+  });
+});
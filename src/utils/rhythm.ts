@@ -0,0 +1,376 @@
+import type { Meter, NoteDuration, NoteWithOctave, RhythmEvent, RhythmPattern } from '../types/music';
+import type { RhythmEventResult } from '../types/game';
+
+/** Pitch every note of a rhythm is played on */
+export const RHYTHM_PITCH: NoteWithOctave = { note: 'C', octave: 5 };
+
+/** Fewest and most measures in a pattern */
+export const MIN_RHYTHM_MEASURES = 1;
+export const MAX_RHYTHM_MEASURES = 4;
+
+/** Length of each note value in quarter-note beats */
+export const DURATION_BEATS: Record<NoteDuration, number> = {
+  '8n': 0.5,
+  '4n': 1,
+  '2n': 2,
+  '1n': 4
+};
+
+/** Note values from longest to shortest */
+const DURATIONS_LONGEST_FIRST: NoteDuration[] = ['1n', '2n', '4n', '8n'];
+
+/** Chance of any note after the first being a rest, when rests are included */
+const REST_PROBABILITY = 0.2;
+
+/** Taps further than this many tolerance windows from a note aren't matched to it */
+const MATCH_WINDOW_TOLERANCES = 2;
+
+/** Symbols for notes and rests of each value */
+const NOTE_SYMBOLS: Record<NoteDuration, string> = {
+  '1n': '𝅝',
+  '2n': '𝅗𝅥',
+  '4n': '♩',
+  '8n': '♪'
+};
+
+const REST_SYMBOLS: Record<NoteDuration, string> = {
+  '1n': '𝄻',
+  '2n': '𝄼',
+  '4n': '𝄽',
+  '8n': '𝄾'
+};
+
+/** Metronome click at an offset from the start of playback */
+export interface MetronomeClick {
+  offset: number; // seconds
+  accented: boolean; // first beat of a measure
+}
+
+/** Note of a rhythm at an offset from the start of playback */
+export interface RhythmNote {
+  offset: number; // seconds
+  duration: NoteDuration;
+}
+
+/** Everything played for a rhythm pattern: a click on every beat and the pattern's notes */
+export interface RhythmPlayback {
+  clicks: MetronomeClick[];
+  notes: RhythmNote[];
+}
+
+/** How the tap for one note of a pattern lined up with it */
+export interface RhythmOnsetResult {
+  /** Milliseconds from the first note */
+  expected: number;
+  /** Milliseconds the matched tap was off by; negative is early, null when missed */
+  offset: number | null;
+  result: RhythmEventResult;
+}
+
+/** Timing analysis of a tapped rhythm */
+export interface RhythmTapAnalysis {
+  /** One entry per note of the pattern (rests aren't tapped) */
+  onsets: RhythmOnsetResult[];
+  /** Taps that line up with no note */
+  extraTaps: number;
+  /** Average offset of the matched taps in milliseconds; negative is rushing. Null with no matched taps. */
+  meanOffset: number | null;
+  /** Average distance of the matched taps from their notes in milliseconds */
+  meanAbsoluteOffset: number | null;
+  /** Share of notes tapped within the tolerance window, 0-100; extra taps count against it */
+  score: number;
+}
+
+/** Comparison of a notated rhythm with the pattern */
+export interface RhythmNotationComparison {
+  /** One entry per event of the pattern */
+  eventResults: RhythmEventResult[];
+  /** Entered events starting where no event of the pattern starts */
+  extraEvents: number;
+  correctCount: number;
+  /** Share of events notated correctly, 0-100 */
+  score: number;
+}
+
+/**
+ * Number of quarter-note beats in a measure.
+ *
+ * @example
+ * getBeatsPerMeasure('3/4') // 3
+ */
+export function getBeatsPerMeasure(meter: Meter): number {
+  return parseInt(meter.split('/')[0], 10);
+}
+
+/**
+ * Total length of rhythm events in beats.
+ */
+export function getRhythmBeats(events: RhythmEvent[]): number {
+  return events.reduce((beats, event) => beats + DURATION_BEATS[event.duration], 0);
+}
+
+/**
+ * Generates a rhythm pattern of whole measures.
+ *
+ * Notes of a beat or longer always start on a beat, so patterns stay free of
+ * syncopation. When none of the chosen note values fit the rest of a measure,
+ * it is filled with the longest value that does. The first event is always a
+ * note, since tapped answers are lined up with it.
+ *
+ * @param meter - Time signature
+ * @param measures - Number of measures
+ * @param durations - Note values to pick from
+ * @param includeRests - Whether notes after the first may be rests
+ * @returns The pattern
+ * @throws Error if no note values are given
+ *
+ * @example
+ * generateRhythmPattern('2/4', 1, ['4n', '8n'], false)
+ * // { meter: '2/4', events: [{ duration: '8n', isRest: false }, { duration: '8n', isRest: false }, { duration: '4n', isRest: false }] }
+ */
+export function generateRhythmPattern(
+  meter: Meter,
+  measures: number,
+  durations: NoteDuration[],
+  includeRests: boolean
+): RhythmPattern {
+  if (durations.length === 0) {
+    throw new Error('At least one note value is needed to generate a rhythm');
+  }
+
+  const beatsPerMeasure = getBeatsPerMeasure(meter);
+  const events: RhythmEvent[] = [];
+
+  for (let measure = 0; measure < measures; measure++) {
+    let position = 0;
+
+    while (position < beatsPerMeasure) {
+      const remaining = beatsPerMeasure - position;
+      const isOnBeat = Number.isInteger(position);
+      const fits = (duration: NoteDuration) =>
+        DURATION_BEATS[duration] <= remaining && (isOnBeat || DURATION_BEATS[duration] < 1);
+
+      const candidates = durations.filter(fits);
+      const duration = candidates.length > 0
+        ? candidates[Math.floor(Math.random() * candidates.length)]
+        : DURATIONS_LONGEST_FIRST.find(fits)!;
+
+      const isRest = includeRests && events.length > 0 && Math.random() < REST_PROBABILITY;
+      events.push({ duration, isRest });
+      position += DURATION_BEATS[duration];
+    }
+  }
+
+  return { meter, events };
+}
+
+/**
+ * Start time of each note (not rest) of a pattern, in milliseconds from the first event.
+ *
+ * @example
+ * // Quarter, two eighths at 120 bpm
+ * getRhythmOnsets(pattern, 120) // [0, 500, 750]
+ */
+export function getRhythmOnsets(pattern: RhythmPattern, tempo: number): number[] {
+  const beatMs = 60000 / tempo;
+  const onsets: number[] = [];
+  let position = 0;
+
+  for (const event of pattern.events) {
+    if (!event.isRest) {
+      onsets.push(position * beatMs);
+    }
+    position += DURATION_BEATS[event.duration];
+  }
+
+  return onsets;
+}
+
+/**
+ * Schedules a pattern over a metronome click.
+ *
+ * The click sounds on every beat of the pattern, accented on the first beat
+ * of each measure; a count-in adds one measure of clicks before the first note.
+ *
+ * @param pattern - The pattern to play
+ * @param tempo - Beats per minute
+ * @param countIn - Whether to click one measure before the pattern starts
+ * @returns Clicks and notes with offsets in seconds
+ */
+export function buildRhythmPlayback(pattern: RhythmPattern, tempo: number, countIn: boolean): RhythmPlayback {
+  const beatSeconds = 60 / tempo;
+  const beatsPerMeasure = getBeatsPerMeasure(pattern.meter);
+  const startBeat = countIn ? beatsPerMeasure : 0;
+  const totalBeats = startBeat + getRhythmBeats(pattern.events);
+
+  const clicks: MetronomeClick[] = [];
+  for (let beat = 0; beat < totalBeats; beat++) {
+    clicks.push({ offset: beat * beatSeconds, accented: beat % beatsPerMeasure === 0 });
+  }
+
+  const notes = getRhythmOnsets(pattern, tempo).map((onset, index) => ({
+    offset: startBeat * beatSeconds + onset / 1000,
+    duration: pattern.events.filter(event => !event.isRest)[index].duration
+  }));
+
+  return { clicks, notes };
+}
+
+/**
+ * Lines up taps with the notes of a pattern.
+ *
+ * The first tap is taken as the first note, so the analysis doesn't depend on
+ * audio or input latency. Taps are paired with notes in order, keeping the
+ * total timing error smallest; a tap can only be paired with a note within
+ * twice the tolerance window, and leaving a note or tap unpaired costs as much
+ * as a tap at the edge of that window:
+ * - 'correct': within the tolerance window
+ * - 'early' / 'late': paired, but outside the tolerance window
+ * - 'missed': no tap paired with the note
+ *
+ * @param pattern - The pattern that was played
+ * @param tempo - Beats per minute
+ * @param taps - Tap times in milliseconds, on any clock (e.g., performance.now() or MIDI timestamps)
+ * @param tolerance - Milliseconds a tap may be off and still count as on time
+ * @returns The timing analysis
+ *
+ * @example
+ * // Four quarters at 120 bpm, the last tap 140ms late with a 100ms tolerance
+ * analyzeRhythmTaps(pattern, 120, [1000, 1510, 1990, 2640], 100)
+ * // onsets: correct, correct, correct, late - score 75, meanOffset 35
+ */
+export function analyzeRhythmTaps(
+  pattern: RhythmPattern,
+  tempo: number,
+  taps: number[],
+  tolerance: number
+): RhythmTapAnalysis {
+  const onsetTimes = getRhythmOnsets(pattern, tempo);
+  const sortedTaps = [...taps].sort((a, b) => a - b);
+  const relativeTaps = sortedTaps.map(tap => tap - sortedTaps[0]);
+  const matchWindow = tolerance * MATCH_WINDOW_TOLERANCES;
+  const rows = onsetTimes.length;
+  const columns = relativeTaps.length;
+
+  const pairCost = (i: number, j: number): number => {
+    const offset = Math.abs(relativeTaps[j] - onsetTimes[i]);
+    return offset <= matchWindow ? offset : Infinity;
+  };
+
+  // cost[i][j]: smallest timing error lining up the first i notes with the first j taps
+  const cost: number[][] = Array.from({ length: rows + 1 }, (_, i) =>
+    Array.from({ length: columns + 1 }, (_, j) => (i + j) * matchWindow)
+  );
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= columns; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + pairCost(i - 1, j - 1),
+        cost[i - 1][j] + matchWindow,
+        cost[i][j - 1] + matchWindow
+      );
+    }
+  }
+
+  // Walk back from the end, preferring to pair a tap with a note over leaving them unpaired
+  const onsets: RhythmOnsetResult[] = new Array(rows);
+  let i = rows;
+  let j = columns;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + pairCost(i - 1, j - 1)) {
+      const offset = relativeTaps[j - 1] - onsetTimes[i - 1];
+      const result: RhythmEventResult = Math.abs(offset) <= tolerance ? 'correct' : offset < 0 ? 'early' : 'late';
+      onsets[i - 1] = { expected: onsetTimes[i - 1], offset, result };
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + matchWindow) {
+      onsets[i - 1] = { expected: onsetTimes[i - 1], offset: null, result: 'missed' };
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  const offsets = onsets.flatMap(onset => (onset.offset === null ? [] : [onset.offset]));
+  const correctCount = onsets.filter(onset => onset.result === 'correct').length;
+  const attempts = Math.max(onsets.length, sortedTaps.length);
+
+  return {
+    onsets,
+    extraTaps: sortedTaps.length - offsets.length,
+    meanOffset: offsets.length > 0 ? offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length : null,
+    meanAbsoluteOffset: offsets.length > 0 ? offsets.reduce((sum, offset) => sum + Math.abs(offset), 0) / offsets.length : null,
+    score: attempts > 0 ? (correctCount / attempts) * 100 : 0
+  };
+}
+
+/**
+ * Compares a notated rhythm with the pattern.
+ *
+ * Events are matched by the beat they start on, so one wrong value only
+ * affects the events it overlaps:
+ * - 'correct': an entered event starts on the same beat with the same value, note or rest
+ * - 'wrong': an entered event starts on the same beat but differs
+ * - 'missed': no entered event starts on that beat
+ *
+ * @param expected - Events of the pattern
+ * @param entered - Events the user picked
+ * @returns Per-event results and partial credit
+ *
+ * @example
+ * // Pattern ♩ ♪ ♪ ♩ notated as ♩ ♩ ♩
+ * compareNotatedRhythm(pattern.events, entered)
+ * // eventResults: ['correct', 'wrong', 'missed', 'correct'], score 50
+ */
+export function compareNotatedRhythm(expected: RhythmEvent[], entered: RhythmEvent[]): RhythmNotationComparison {
+  const enteredByBeat = new Map<number, RhythmEvent>();
+  let position = 0;
+  for (const event of entered) {
+    enteredByBeat.set(position, event);
+    position += DURATION_BEATS[event.duration];
+  }
+
+  const expectedBeats = new Set<number>();
+  position = 0;
+  const eventResults = expected.map((event): RhythmEventResult => {
+    const answer = enteredByBeat.get(position);
+    expectedBeats.add(position);
+    position += DURATION_BEATS[event.duration];
+
+    if (!answer) return 'missed';
+    return answer.duration === event.duration && answer.isRest === event.isRest ? 'correct' : 'wrong';
+  });
+
+  const correctCount = eventResults.filter(result => result === 'correct').length;
+  const length = Math.max(expected.length, entered.length);
+
+  return {
+    eventResults,
+    extraEvents: [...enteredByBeat.keys()].filter(beat => !expectedBeats.has(beat)).length,
+    correctCount,
+    score: length > 0 ? (correctCount / length) * 100 : 0
+  };
+}
+
+/**
+ * Writes a rhythm event as a note or rest symbol.
+ */
+export function formatRhythmEvent(event: RhythmEvent): string {
+  return event.isRest ? REST_SYMBOLS[event.duration] : NOTE_SYMBOLS[event.duration];
+}
+
+/**
+ * Writes a pattern as note and rest symbols with bar lines between measures.
+ *
+ * @example
+ * formatRhythm(pattern) // "♩ ♪ ♪ 𝅗𝅥 | 𝅝"
+ */
+export function formatRhythm(pattern: RhythmPattern): string {
+  const beatsPerMeasure = getBeatsPerMeasure(pattern.meter);
+  let position = 0;
+
+  return pattern.events.map((event, index) => {
+    const barLine = index > 0 && position % beatsPerMeasure === 0 ? '| ' : '';
+    position += DURATION_BEATS[event.duration];
+    return `${barLine}${formatRhythmEvent(event)}`;
+  }).join(' ');
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SAMPLE_SETS,
+  SAMPLES_BASE_URL,
+  getSampleCount,
+  getSampleFileName,
+  getSampleUrls,
+  isSampledInstrument,
+  selectVelocityLayer
+} from './sampleLibrary';
+import { InstrumentType } from '../types/music';
+
+describe('sampleLibrary', () => {
+  describe('isSampledInstrument', () => {
+    it('is true for instruments with a sample set', () => {
+      expect(isSampledInstrument(InstrumentType.PIANO)).toBe(true);
+      expect(isSampledInstrument(InstrumentType.RHODES)).toBe(true);
+      expect(isSampledInstrument(InstrumentType.ORGAN)).toBe(true);
+      expect(isSampledInstrument(InstrumentType.GUITAR)).toBe(true);
+    });
+
+    it('is false for synthesizers', () => {
+      expect(isSampledInstrument(InstrumentType.SYNTH)).toBe(false);
+      expect(isSampledInstrument(InstrumentType.FM)).toBe(false);
+      expect(isSampledInstrument(InstrumentType.MONO)).toBe(false);
+    });
+  });
+
+  describe('getSampleFileName', () => {
+    it('writes sharps as s', () => {
+      expect(getSampleFileName({ note: 'D#', octave: 4 }, { name: 'f', maxVelocity: 1 })).toBe('Ds4-f.mp3');
+      expect(getSampleFileName({ note: 'C', octave: 2 }, { name: 'p', maxVelocity: 0.5 })).toBe('C2-p.mp3');
+    });
+  });
+
+  describe('getSampleUrls', () => {
+    it('keys each file by its Tone.js note name', () => {
+      const piano = SAMPLE_SETS[InstrumentType.PIANO];
+      const urls = getSampleUrls(piano, piano.velocityLayers[0]);
+
+      expect(Object.keys(urls)).toHaveLength(piano.notes.length);
+      expect(urls['F#3']).toBe(`${SAMPLES_BASE_URL}piano/Fs3-p.mp3`);
+    });
+  });
+
+  describe('getSampleCount', () => {
+    it('counts every note in every velocity layer', () => {
+      const piano = SAMPLE_SETS[InstrumentType.PIANO];
+      const organ = SAMPLE_SETS[InstrumentType.ORGAN];
+
+      expect(getSampleCount(piano)).toBe(piano.notes.length * 2);
+      expect(getSampleCount(organ)).toBe(organ.notes.length);
+    });
+  });
+
+  describe('selectVelocityLayer', () => {
+    const layers = [
+      { name: 'p', maxVelocity: 0.5 },
+      { name: 'f', maxVelocity: 1 }
+    ];
+
+    it('picks the softest layer covering the velocity', () => {
+      expect(selectVelocityLayer(layers, 0.2)).toBe(0);
+      expect(selectVelocityLayer(layers, 0.5)).toBe(0);
+      expect(selectVelocityLayer(layers, 0.51)).toBe(1);
+      expect(selectVelocityLayer(layers, 1)).toBe(1);
+    });
+
+    it('falls back to the loudest layer above every limit', () => {
+      expect(selectVelocityLayer(layers, 1.2)).toBe(1);
+    });
+  });
+
+  it('orders every sample set from softest to loudest layer', () => {
+    Object.values(SAMPLE_SETS).forEach(set => {
+      const limits = set.velocityLayers.map(layer => layer.maxVelocity);
+      expect(limits).toEqual([...limits].sort((a, b) => a - b));
+      expect(limits[limits.length - 1]).toBe(1);
+      expect(set.release).toBeGreaterThan(0);
+    });
+  });
+});
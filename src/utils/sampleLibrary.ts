@@ -0,0 +1,130 @@
+import type { Note, NoteWithOctave, Octave } from '../types/music';
+import { InstrumentType } from '../types/music';
+
+/** Instruments that play recorded samples once their sample set has loaded */
+export type SampledInstrument =
+  | typeof InstrumentType.PIANO
+  | typeof InstrumentType.RHODES
+  | typeof InstrumentType.ORGAN
+  | typeof InstrumentType.GUITAR;
+
+/**
+ * A set of recordings played for notes up to a velocity.
+ * Velocities use Tone.js's 0-1 range.
+ */
+export interface VelocityLayer {
+  /** Dynamic marking used as the file name suffix, e.g. 'p' for C4-p.mp3 */
+  name: string;
+  /** Highest velocity played with this layer's samples */
+  maxVelocity: number;
+}
+
+/**
+ * Describes the sample files of one instrument.
+ * Notes between the sampled notes are pitch-shifted from the nearest sample.
+ */
+export interface SampleSet {
+  /** Folder under public/samples holding the files */
+  directory: string;
+  /** Notes that have a recording in every velocity layer */
+  notes: NoteWithOctave[];
+  /** Layers ordered from softest to loudest; the last one covers velocity 1 */
+  velocityLayers: VelocityLayer[];
+  /** Length of the release tail after a note ends, in seconds */
+  release: number;
+}
+
+/** Where sample sets are served from once installed (see public/samples/README.md) */
+export const SAMPLES_BASE_URL = `${import.meta.env.BASE_URL}samples/`;
+
+/** Velocity used when a note is played without one */
+export const DEFAULT_VELOCITY = 0.7;
+
+const sampledNotes = (notes: Note[], minOctave: Octave, maxOctave: Octave): NoteWithOctave[] => {
+  const result: NoteWithOctave[] = [];
+  for (let octave = minOctave; octave <= maxOctave; octave++) {
+    notes.forEach(note => result.push({ note, octave: octave as Octave }));
+  }
+  return result;
+};
+
+export const SAMPLE_SETS: Record<SampledInstrument, SampleSet> = {
+  [InstrumentType.PIANO]: {
+    directory: 'piano',
+    notes: sampledNotes(['C', 'D#', 'F#', 'A'], 1, 7),
+    velocityLayers: [
+      { name: 'p', maxVelocity: 0.5 },
+      { name: 'f', maxVelocity: 1 }
+    ],
+    release: 1.5
+  },
+  [InstrumentType.RHODES]: {
+    directory: 'rhodes',
+    notes: sampledNotes(['C', 'F#'], 2, 6),
+    velocityLayers: [
+      { name: 'p', maxVelocity: 0.6 },
+      { name: 'f', maxVelocity: 1 }
+    ],
+    release: 2
+  },
+  [InstrumentType.ORGAN]: {
+    directory: 'organ',
+    notes: sampledNotes(['C', 'F#'], 2, 6),
+    // Organ pipes sound the same however hard a key is pressed
+    velocityLayers: [{ name: 'mf', maxVelocity: 1 }],
+    release: 0.3
+  },
+  [InstrumentType.GUITAR]: {
+    directory: 'guitar',
+    notes: sampledNotes(['C', 'F#'], 2, 5),
+    velocityLayers: [
+      { name: 'p', maxVelocity: 0.5 },
+      { name: 'f', maxVelocity: 1 }
+    ],
+    release: 1
+  }
+};
+
+export function isSampledInstrument(instrument: InstrumentType): instrument is SampledInstrument {
+  return instrument in SAMPLE_SETS;
+}
+
+/**
+ * Builds the file name of a sample, writing sharps as 's' so names stay URL safe.
+ *
+ * @example
+ * getSampleFileName({ note: 'D#', octave: 4 }, { name: 'f', maxVelocity: 1 }) // 'Ds4-f.mp3'
+ */
+export function getSampleFileName(note: NoteWithOctave, layer: VelocityLayer): string {
+  return `${note.note.replace('#', 's')}${note.octave}-${layer.name}.mp3`;
+}
+
+/**
+ * Maps each sampled note of a velocity layer to its file URL, keyed by the
+ * note name Tone.js expects (e.g. 'D#4').
+ */
+export function getSampleUrls(set: SampleSet, layer: VelocityLayer): Record<string, string> {
+  return Object.fromEntries(
+    set.notes.map(note => [
+      `${note.note}${note.octave}`,
+      `${SAMPLES_BASE_URL}${set.directory}/${getSampleFileName(note, layer)}`
+    ])
+  );
+}
+
+/** Number of files a sample set downloads across all of its velocity layers */
+export function getSampleCount(set: SampleSet): number {
+  return set.notes.length * set.velocityLayers.length;
+}
+
+/**
+ * Picks the velocity layer that plays a note.
+ *
+ * @param layers - Layers ordered from softest to loudest
+ * @param velocity - Note velocity from 0 to 1
+ * @returns Index of the softest layer whose maxVelocity covers the velocity
+ */
+export function selectVelocityLayer(layers: VelocityLayer[], velocity: number): number {
+  const index = layers.findIndex(layer => velocity <= layer.maxVelocity);
+  return index === -1 ? layers.length - 1 : index;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LayeredSampler } from './sampledInstrument';
+import { SAMPLE_SETS } from './sampleLibrary';
+import { InstrumentType } from '../types/music';
+
+const { samplers } = vi.hoisted(() => ({
+  samplers: [] as { triggerAttackRelease: ReturnType<typeof vi.fn>; releaseAll: ReturnType<typeof vi.fn>; dispose: ReturnType<typeof vi.fn> }[]
+}));
+
+vi.mock('tone', () => ({
+  Volume: vi.fn().mockImplementation(function () {
+    return {
+      volume: { value: 0 },
+      toDestination() { return this; },
+      dispose: vi.fn()
+    };
+  }),
+  Sampler: vi.fn().mockImplementation(function () {
+    const sampler = {
+      triggerAttackRelease: vi.fn(),
+      releaseAll: vi.fn(),
+      dispose: vi.fn(),
+      connect() { return sampler; }
+    };
+    samplers.push(sampler);
+    return sampler;
+  })
+}));
+
+describe('LayeredSampler', () => {
+  // Piano has a 'p' layer up to 0.5 and an 'f' layer above it
+  const piano = SAMPLE_SETS[InstrumentType.PIANO];
+  let sampler: LayeredSampler;
+
+  beforeEach(() => {
+    samplers.length = 0;
+    sampler = new LayeredSampler(piano, [{}, {}]);
+  });
+
+  it('creates one sampler per velocity layer', () => {
+    expect(samplers).toHaveLength(2);
+  });
+
+  it('plays a soft note with the softest layer', () => {
+    sampler.triggerAttackRelease('C4', '4n', undefined, 0.3);
+
+    expect(samplers[0].triggerAttackRelease).toHaveBeenCalledWith('C4', '4n', undefined, 0.3);
+    expect(samplers[1].triggerAttackRelease).not.toHaveBeenCalled();
+  });
+
+  it('plays a loud note with the loudest layer', () => {
+    sampler.triggerAttackRelease(['C4', 'E4'], '2n', undefined, 0.9);
+
+    expect(samplers[1].triggerAttackRelease).toHaveBeenCalledWith(['C4', 'E4'], '2n', undefined, 0.9);
+    expect(samplers[0].triggerAttackRelease).not.toHaveBeenCalled();
+  });
+
+  it('releases and disposes every layer', () => {
+    sampler.releaseAll();
+    sampler.dispose();
+
+    samplers.forEach(layer => {
+      expect(layer.releaseAll).toHaveBeenCalled();
+      expect(layer.dispose).toHaveBeenCalled();
+    });
+  });
+});
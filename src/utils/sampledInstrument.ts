@@ -0,0 +1,97 @@
+import * as Tone from 'tone';
+import type { SampleSet, SampledInstrument, VelocityLayer } from './sampleLibrary';
+import { DEFAULT_VELOCITY, selectVelocityLayer } from './sampleLibrary';
+import { InstrumentType } from '../types/music';
+
+/** Decoded samples of one velocity layer, keyed by Tone.js note name */
+export type LayerBuffers = Record<string, Tone.ToneAudioBuffer>;
+
+/**
+ * Plays a sample set through one Tone.Sampler per velocity layer.
+ *
+ * Exposes the parts of the Tone.js instrument API the AudioEngine uses
+ * (triggerAttackRelease, releaseAll, volume), so it can stand in for a synth.
+ */
+export class LayeredSampler {
+  readonly volume: Tone.Param<'decibels'>;
+  private output: Tone.Volume;
+  private samplers: Tone.Sampler[];
+  private velocityLayers: VelocityLayer[];
+
+  /**
+   * @param set - The sample set the buffers were loaded for
+   * @param layerBuffers - Buffers for each of the set's velocity layers, in the same order
+   */
+  constructor(set: SampleSet, layerBuffers: LayerBuffers[]) {
+    this.output = new Tone.Volume().toDestination();
+    this.volume = this.output.volume;
+    this.velocityLayers = set.velocityLayers;
+    this.samplers = layerBuffers.map(urls =>
+      new Tone.Sampler({ urls, release: set.release }).connect(this.output)
+    );
+  }
+
+  triggerAttackRelease(
+    notes: string | string[],
+    duration: Tone.Unit.Time,
+    time?: Tone.Unit.Time,
+    velocity: number = DEFAULT_VELOCITY
+  ): this {
+    const layer = selectVelocityLayer(this.velocityLayers, velocity);
+    this.samplers[layer].triggerAttackRelease(notes, duration, time, velocity);
+    return this;
+  }
+
+  releaseAll(): this {
+    this.samplers.forEach(sampler => sampler.releaseAll());
+    return this;
+  }
+
+  dispose(): this {
+    this.samplers.forEach(sampler => sampler.dispose());
+    this.output.dispose();
+    return this;
+  }
+}
+
+/**
+ * Creates the synthesizer a sampled instrument plays with until its samples
+ * load, or for good if they fail to load.
+ */
+export function createFallbackSynth(instrument: SampledInstrument): Tone.PolySynth {
+  switch (instrument) {
+    case InstrumentType.RHODES:
+      return new Tone.PolySynth(Tone.FMSynth, {
+        harmonicity: 3,
+        modulationIndex: 4,
+        envelope: { attack: 0.005, decay: 1.2, sustain: 0.2, release: 1.5 }
+      }).toDestination();
+    case InstrumentType.ORGAN:
+      return new Tone.PolySynth(Tone.AMSynth, {
+        envelope: { attack: 0.02, decay: 0.1, sustain: 1, release: 0.3 }
+      }).toDestination();
+    case InstrumentType.GUITAR:
+      return new Tone.PolySynth(Tone.Synth, {
+        oscillator: { type: 'triangle' },
+        envelope: { attack: 0.005, decay: 0.4, sustain: 0.1, release: 1 }
+      }).toDestination();
+    case InstrumentType.PIANO:
+    default:
+      return new Tone.PolySynth(Tone.Synth).toDestination();
+  }
+}
+
+/**
+ * Downloads and decodes one sample file.
+ *
+ * @throws Error if the file can't be fetched or decoded
+ */
+export function loadSampleBuffer(url: string): Promise<Tone.ToneAudioBuffer> {
+  return new Promise((resolve, reject) => {
+    const buffer = new Tone.ToneAudioBuffer(
+      url,
+      () => resolve(buffer),
+      error => reject(new Error(`Failed to load sample ${url}: ${error.message}`))
+    );
+  });
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { ScaleEngine } from './scaleEngine';
+import { ScaleType, ALL_SCALE_TYPES } from '../types/music';
+import type { ScaleFilter } from '../types/music';
+import { SCALE_DEFINITIONS, getScaleNotes, areScalesEquivalent } from '../constants/scales';
+
+describe('ScaleEngine', () => {
+  describe('buildScale', () => {
+    it('builds a major scale from root to octave', () => {
+      const scale = ScaleEngine.buildScale('C', ScaleType.MAJOR, 4);
+
+      expect(scale.name).toBe('C Major');
+      expect(scale.notes.map(n => `${n.note}${n.octave}`)).toEqual([
+        'C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4', 'C5'
+      ]);
+    });
+
+    it('wraps into the next octave for roots above C', () => {
+      const scale = ScaleEngine.buildScale('A', ScaleType.HARMONIC_MINOR, 3);
+
+      expect(scale.notes.map(n => `${n.note}${n.octave}`)).toEqual([
+        'A3', 'B3', 'C4', 'D4', 'E4', 'F4', 'G#4', 'A4'
+      ]);
+    });
+
+    it('builds scales with fewer than seven notes', () => {
+      const scale = ScaleEngine.buildScale('E', ScaleType.BLUES, 4);
+
+      expect(scale.name).toBe('E Blues');
+      expect(scale.notes.map(n => n.note)).toEqual(['E', 'G', 'A', 'A#', 'B', 'D', 'E']);
+    });
+
+    it('throws when the scale would go above C8', () => {
+      expect(() => ScaleEngine.buildScale('D', ScaleType.MAJOR, 8)).toThrow('above C8');
+    });
+
+    it('throws for an invalid octave', () => {
+      expect(() => ScaleEngine.buildScale('C', ScaleType.MAJOR, 0)).toThrow('Octave must be between 1 and 8');
+    });
+
+    it('has a definition for every scale type', () => {
+      ALL_SCALE_TYPES.forEach(type => {
+        expect(SCALE_DEFINITIONS[type]).toBeDefined();
+        expect(() => ScaleEngine.buildScale('C', type, 4)).not.toThrow();
+      });
+    });
+  });
+
+  describe('getPlaybackNotes', () => {
+    const scale = ScaleEngine.buildScale('C', ScaleType.MAJOR_PENTATONIC, 4);
+
+    it('plays ascending scales from the root', () => {
+      expect(ScaleEngine.getPlaybackNotes(scale, 'ascending')).toEqual(scale.notes);
+    });
+
+    it('plays descending scales from the top', () => {
+      const notes = ScaleEngine.getPlaybackNotes(scale, 'descending');
+      expect(notes[0]).toEqual({ note: 'C', octave: 5 });
+      expect(notes[notes.length - 1]).toEqual({ note: 'C', octave: 4 });
+    });
+
+    it('plays up and back down without repeating the top note', () => {
+      const notes = ScaleEngine.getPlaybackNotes(scale, 'both');
+      expect(notes).toHaveLength(scale.notes.length * 2 - 1);
+      expect(notes.filter(n => n.note === 'C' && n.octave === 5)).toHaveLength(1);
+    });
+  });
+
+  describe('getRandomScaleFromFilter', () => {
+    it('only returns allowed scale types, roots and octaves', () => {
+      const filter: ScaleFilter = {
+        allowedScaleTypes: [ScaleType.DORIAN, ScaleType.LYDIAN],
+        allowedRootNotes: ['D', 'F'],
+        allowedOctaves: [3]
+      };
+
+      for (let i = 0; i < 20; i++) {
+        const scale = ScaleEngine.getRandomScaleFromFilter(filter);
+        expect([ScaleType.DORIAN, ScaleType.LYDIAN]).toContain(scale.type);
+        expect(['D', 'F']).toContain(scale.root);
+        expect(scale.notes[0].octave).toBe(3);
+      }
+    });
+
+    it('uses the notes of the key as roots when a keyFilter is set', () => {
+      const filter: ScaleFilter = {
+        allowedScaleTypes: [ScaleType.MIXOLYDIAN],
+        allowedRootNotes: ['C'],
+        allowedOctaves: [4],
+        keyFilter: { key: 'G', scale: 'major' }
+      };
+      const keyNotes = getScaleNotes('G', 'major');
+
+      for (let i = 0; i < 20; i++) {
+        expect(keyNotes).toContain(ScaleEngine.getRandomScaleFromFilter(filter).root);
+      }
+    });
+
+    it('throws when no scales match the filter', () => {
+      const filter: ScaleFilter = {
+        allowedScaleTypes: [],
+        allowedRootNotes: null,
+        allowedOctaves: [4]
+      };
+
+      expect(() => ScaleEngine.getRandomScaleFromFilter(filter)).toThrow('No valid scales available');
+    });
+  });
+});
+
+describe('scale constants', () => {
+  it('keeps major and minor key lookups working', () => {
+    expect(getScaleNotes('C', 'major')).toEqual(['C', 'D', 'E', 'F', 'G', 'A', 'B']);
+    expect(getScaleNotes('A', 'minor')).toEqual(['A', 'B', 'C', 'D', 'E', 'F', 'G']);
+  });
+
+  it('treats scales with the same notes as equivalent', () => {
+    expect(areScalesEquivalent(ScaleType.MAJOR, ScaleType.IONIAN)).toBe(true);
+    expect(areScalesEquivalent(ScaleType.NATURAL_MINOR, ScaleType.AEOLIAN)).toBe(true);
+    expect(areScalesEquivalent(ScaleType.DORIAN, ScaleType.MELODIC_MINOR)).toBe(false);
+  });
+});
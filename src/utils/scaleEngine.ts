@@ -0,0 +1,125 @@
+/**
+ * ScaleEngine - Utility class for scale generation and playback ordering
+ *
+ * Counterpart to ChordEngine for scales: builds scales from the interval
+ * patterns in constants/scales and picks random scales from a ScaleFilter.
+ *
+ * @module utils/scaleEngine
+ */
+
+import type { Note, NoteWithOctave, Octave, Scale, ScaleFilter, ScaleType, ScalePlaybackDirection } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { getScaleIntervals, getScaleName, getScaleNotes } from '../constants/scales';
+
+/**
+ * Utility class for scale operations
+ */
+export class ScaleEngine {
+  /**
+   * Builds a scale from a root note, scale type and octave
+   *
+   * The returned notes run from the root up to the root an octave higher,
+   * using sharp spelling like ChordEngine.buildChord().
+   *
+   * @param root - Root note of the scale
+   * @param type - Scale type
+   * @param octave - Octave of the root note
+   * @returns The built Scale
+   * @throws {Error} If the octave is out of range or the scale would go above C8
+   *
+   * @example
+   * buildScale('D', 'dorian', 4)
+   * // Returns: { name: "D Dorian", root: "D", type: "dorian", notes: [D4, E4, F4, G4, A4, B4, C5, D5] }
+   */
+  static buildScale(root: Note, type: ScaleType, octave: number): Scale {
+    if (octave < 1 || octave > 8) {
+      throw new Error(`Octave must be between 1 and 8, got ${octave}`);
+    }
+
+    const rootIndex = ALL_NOTES.indexOf(root);
+    if (rootIndex === -1) {
+      throw new Error(`Invalid root note: ${root}`);
+    }
+
+    const notes: NoteWithOctave[] = [...getScaleIntervals(type), 12].map(interval => {
+      const noteOctave = octave + Math.floor((rootIndex + interval) / 12);
+
+      if (noteOctave > 8) {
+        throw new Error('Scale would contain notes above C8 (maximum octave)');
+      }
+
+      return {
+        note: ALL_NOTES[(rootIndex + interval) % 12],
+        octave: noteOctave as Octave
+      };
+    });
+
+    return {
+      name: `${root} ${getScaleName(type)}`,
+      root,
+      type,
+      notes
+    };
+  }
+
+  /**
+   * Orders a scale's notes for playback
+   *
+   * 'both' plays up and back down without repeating the top note.
+   *
+   * @param scale - The scale to play
+   * @param direction - Playback direction
+   * @returns Notes in the order they should be played
+   */
+  static getPlaybackNotes(scale: Scale, direction: ScalePlaybackDirection): NoteWithOctave[] {
+    const ascending = scale.notes;
+    const descending = [...scale.notes].reverse();
+
+    switch (direction) {
+      case 'ascending':
+        return [...ascending];
+      case 'descending':
+        return descending;
+      case 'both':
+        return [...ascending, ...descending.slice(1)];
+    }
+  }
+
+  /**
+   * Generates a random scale based on ScaleFilter settings
+   *
+   * When a keyFilter is set, scale roots are the notes of that key and
+   * allowedRootNotes is ignored (the same as the Keys tab for chords).
+   *
+   * @param filter - ScaleFilter configuration specifying which scales are allowed
+   * @returns A randomly selected Scale matching the filter constraints
+   * @throws {Error} If no valid scales are available with current filter settings
+   */
+  static getRandomScaleFromFilter(filter: ScaleFilter): Scale {
+    const rootNotes = filter.keyFilter
+      ? getScaleNotes(filter.keyFilter.key, filter.keyFilter.scale)
+      : filter.allowedRootNotes ?? ALL_NOTES;
+
+    const validScales: Scale[] = [];
+
+    for (const scaleType of filter.allowedScaleTypes) {
+      for (const rootNote of rootNotes) {
+        for (const octave of filter.allowedOctaves) {
+          try {
+            validScales.push(this.buildScale(rootNote, scaleType, octave));
+          } catch {
+            // Skip invalid combinations (e.g., octave out of bounds)
+            continue;
+          }
+        }
+      }
+    }
+
+    if (validScales.length === 0) {
+      throw new Error('No valid scales available with current filter settings');
+    }
+
+    const randomIndex = Math.floor(Math.random() * validScales.length);
+    return validScales[randomIndex];
+  }
+}
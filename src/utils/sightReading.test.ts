@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { isNoteReadable, getReadableNotes, getReadableChords } from './sightReading';
+import type { NoteFilter } from '../types/music';
+
+describe('sightReading', () => {
+  describe('isNoteReadable', () => {
+    it('allows notes on the staff with no ledger lines', () => {
+      expect(isNoteReadable({ note: 'E', octave: 4 }, 'treble', 0)).toBe(true);
+      expect(isNoteReadable({ note: 'G', octave: 5 }, 'treble', 0)).toBe(true); // Space above the top line
+      expect(isNoteReadable({ note: 'C', octave: 4 }, 'treble', 0)).toBe(false);
+    });
+
+    it('counts ledger lines on the chosen staff', () => {
+      expect(isNoteReadable({ note: 'A', octave: 3 }, 'treble', 1)).toBe(false);
+      expect(isNoteReadable({ note: 'A', octave: 3 }, 'treble', 2)).toBe(true);
+      expect(isNoteReadable({ note: 'C', octave: 4 }, 'alto', 0)).toBe(true);
+    });
+
+    it('writes notes on the nearer staff of the grand staff', () => {
+      expect(isNoteReadable({ note: 'A', octave: 3 }, 'grand', 0)).toBe(true);
+      expect(isNoteReadable({ note: 'C', octave: 4 }, 'grand', 0)).toBe(false);
+    });
+  });
+
+  describe('getReadableNotes', () => {
+    const filter: NoteFilter = { octaveRange: { min: 3, max: 5 }, keyType: 'white' };
+
+    it('keeps notes the filter allows within the ledger line limit', () => {
+      const notes = getReadableNotes(filter, 'treble', 0);
+
+      expect(notes[0]).toEqual({ note: 'D', octave: 4 });
+      expect(notes[notes.length - 1]).toEqual({ note: 'G', octave: 5 });
+      expect(notes.every(n => !n.note.includes('#'))).toBe(true);
+    });
+
+    it('returns nothing when no note fits', () => {
+      const lowFilter: NoteFilter = { octaveRange: { min: 2, max: 2 }, keyType: 'all' };
+
+      expect(getReadableNotes(lowFilter, 'treble', 1)).toEqual([]);
+    });
+  });
+
+  describe('getReadableChords', () => {
+    it('builds root position triads whose notes all fit', () => {
+      const filter: NoteFilter = { octaveRange: { min: 4, max: 5 }, keyType: 'white', allowedNotes: ['C', 'A'] };
+      const chords = getReadableChords(filter, 'treble', 0);
+
+      // C4 and A5 need a ledger line
+      expect(chords.map(c => `${c.name}${c.notes[0].octave}`)).toEqual(['A4', 'Am4', 'C5', 'Cm5']);
+      expect(chords[0].notes).toContainEqual({ note: 'C#', octave: 5 });
+    });
+  });
+});
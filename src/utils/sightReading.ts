@@ -0,0 +1,70 @@
+import type { Chord, NoteFilter, NoteWithOctave, Octave, StaffSystem } from '../types/music';
+import { ALL_NOTES, ChordType, isNotePlayable } from '../types/music';
+import { ChordEngine } from './chordEngine';
+import { getStaffNote, getLedgerLinePositions } from './staffPositioning';
+
+/** Chord types written for chord reading: root position triads */
+export const SIGHT_READING_CHORD_TYPES: ChordType[] = [ChordType.MAJOR, ChordType.MINOR];
+
+/**
+ * Checks whether a note can be written on a staff without more ledger lines than allowed.
+ *
+ * @param note - The note to write
+ * @param staff - The staves to write on
+ * @param maxLedgerLines - Most ledger lines the note may need
+ * @returns True if the note fits
+ *
+ * @example
+ * isNoteReadable({ note: 'C', octave: 4 }, 'treble', 1) // true (one ledger line below)
+ * isNoteReadable({ note: 'A', octave: 3 }, 'treble', 1) // false (needs two)
+ */
+export function isNoteReadable(note: NoteWithOctave, staff: StaffSystem, maxLedgerLines: number): boolean {
+  const { position } = getStaffNote(note, note.note, staff);
+  return getLedgerLinePositions(position).length <= maxLedgerLines;
+}
+
+/**
+ * Gets the notes that can be asked in sight reading: notes the note filter allows
+ * that can be written on the staff within the ledger line limit.
+ *
+ * @param filter - Octave range and allowed notes
+ * @param staff - The staves to write on
+ * @param maxLedgerLines - Most ledger lines a note may need
+ * @returns The readable notes, lowest first
+ */
+export function getReadableNotes(filter: NoteFilter, staff: StaffSystem, maxLedgerLines: number): NoteWithOctave[] {
+  const notes: NoteWithOctave[] = [];
+
+  for (let octave = filter.octaveRange.min; octave <= filter.octaveRange.max; octave++) {
+    for (const note of ALL_NOTES) {
+      const noteWithOctave: NoteWithOctave = { note, octave: octave as Octave };
+      if (isNotePlayable(noteWithOctave, filter) && isNoteReadable(noteWithOctave, staff, maxLedgerLines)) {
+        notes.push(noteWithOctave);
+      }
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Gets the chords that can be asked in chord reading. A chord's root must be a
+ * readable note; its other notes must stay within the filter's octave range and
+ * the ledger line limit, but may be any pitch.
+ *
+ * @param filter - Octave range and allowed root notes
+ * @param staff - The staves to write on
+ * @param maxLedgerLines - Most ledger lines a note may need
+ * @returns The readable root position triads
+ */
+export function getReadableChords(filter: NoteFilter, staff: StaffSystem, maxLedgerLines: number): Chord[] {
+  const { min, max } = filter.octaveRange;
+
+  return getReadableNotes(filter, staff, maxLedgerLines).flatMap(root =>
+    SIGHT_READING_CHORD_TYPES
+      .map(type => ChordEngine.buildChord(root.note, type, root.octave))
+      .filter(chord => chord.notes.every(note =>
+        note.octave >= min && note.octave <= max && isNoteReadable(note, staff, maxLedgerLines)
+      ))
+  );
+}
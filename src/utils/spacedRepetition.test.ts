@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ReviewScheduler, LEITNER_BOX_INTERVALS_MS, MAX_LEITNER_BOX } from './spacedRepetition';
+import { STORAGE_KEYS } from '../constants';
+import type { NoteWithOctave } from '../types/music';
+
+describe('ReviewScheduler', () => {
+  let scheduler: ReviewScheduler;
+  const now = new Date('2026-01-10T12:00:00Z');
+
+  const notes: NoteWithOctave[] = [
+    { note: 'C', octave: 4 },
+    { note: 'D', octave: 4 },
+    { note: 'E', octave: 4 }
+  ];
+
+  beforeEach(() => {
+    localStorage.clear();
+    scheduler = new ReviewScheduler();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('recordResult', () => {
+    it('moves an item up one box per correct answer', () => {
+      scheduler.recordResult('note', 'C', true, now);
+      scheduler.recordResult('note', 'C', true, now);
+
+      const item = scheduler.getItem('note', 'C');
+      expect(item?.box).toBe(2);
+      expect(item?.dueAt.getTime()).toBe(now.getTime() + LEITNER_BOX_INTERVALS_MS[2]);
+    });
+
+    it('sends an item back to box 0 on a wrong answer', () => {
+      scheduler.recordResult('chord', 'Am7', true, now);
+      scheduler.recordResult('chord', 'Am7', true, now);
+      scheduler.recordResult('chord', 'Am7', false, now);
+
+      expect(scheduler.getItem('chord', 'Am7')?.box).toBe(0);
+      expect(scheduler.isDue('chord', 'Am7', now)).toBe(true);
+    });
+
+    it('does not go past the last box', () => {
+      for (let i = 0; i < MAX_LEITNER_BOX + 3; i++) {
+        scheduler.recordResult('note', 'C', true, now);
+      }
+
+      expect(scheduler.getItem('note', 'C')?.box).toBe(MAX_LEITNER_BOX);
+    });
+
+    it('keeps notes and chords with the same name apart', () => {
+      scheduler.recordResult('note', 'C', false, now);
+      scheduler.recordResult('chord', 'C', true, now);
+
+      expect(scheduler.getItem('note', 'C')?.box).toBe(0);
+      expect(scheduler.getItem('chord', 'C')?.box).toBe(1);
+    });
+  });
+
+  describe('weights', () => {
+    it('weights new and weak items above items that are not due', () => {
+      scheduler.recordResult('note', 'D', true, now); // Box 1, due in 10 minutes
+      scheduler.recordResult('note', 'E', false, now); // Box 0, due now
+
+      expect(scheduler.getWeight('note', 'C', now)).toBeGreaterThan(scheduler.getWeight('note', 'D', now));
+      expect(scheduler.getWeight('note', 'E', now)).toBeGreaterThan(scheduler.getWeight('note', 'D', now));
+    });
+
+    it('weights overdue items above items that just became due', () => {
+      scheduler.recordResult('note', 'C', true, now);
+      scheduler.recordResult('note', 'D', true, now);
+
+      const dueAt = now.getTime() + LEITNER_BOX_INTERVALS_MS[1];
+      const cWeight = scheduler.getWeight('note', 'C', new Date(dueAt));
+      const dWeight = scheduler.getWeight('note', 'D', new Date(dueAt + LEITNER_BOX_INTERVALS_MS[1]));
+
+      expect(dWeight).toBeGreaterThan(cWeight);
+    });
+  });
+
+  describe('select', () => {
+    it('picks uniformly in random mode', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(scheduler.selectNote(notes)).toEqual({ note: 'D', octave: 4 });
+    });
+
+    it('favours weak items in adaptive mode', () => {
+      scheduler.setSelectionMode('adaptive');
+      for (let i = 0; i < MAX_LEITNER_BOX; i++) {
+        scheduler.recordResult('note', 'C', true);
+        scheduler.recordResult('note', 'D', true);
+      }
+      scheduler.recordResult('note', 'E', false);
+
+      const counts: Record<string, number> = { C: 0, D: 0, E: 0 };
+      for (let i = 0; i < 300; i++) {
+        counts[scheduler.selectNote(notes).note]++;
+      }
+
+      expect(counts.E).toBeGreaterThan(counts.C + counts.D);
+    });
+
+    it('only asks due items in review mode', () => {
+      scheduler.setSelectionMode('review');
+      scheduler.recordResult('note', 'C', true);
+      scheduler.recordResult('note', 'D', true);
+      scheduler.recordResult('note', 'E', false);
+
+      for (let i = 0; i < 20; i++) {
+        expect(scheduler.selectNote(notes).note).toBe('E');
+      }
+    });
+
+    it('falls back to adaptive selection when nothing is due', () => {
+      scheduler.setSelectionMode('review');
+      notes.forEach(note => scheduler.recordResult('note', note.note, true));
+
+      expect(notes).toContainEqual(scheduler.selectNote(notes));
+    });
+
+    it('throws for an empty candidate list', () => {
+      expect(() => scheduler.selectChord([])).toThrow('Cannot select from an empty list of candidates');
+    });
+  });
+
+  describe('getDueItems', () => {
+    it('lists due items of one kind, most overdue first', () => {
+      scheduler.recordResult('note', 'C', false, new Date(now.getTime() - 1000));
+      scheduler.recordResult('note', 'D', false, new Date(now.getTime() - 5000));
+      scheduler.recordResult('note', 'E', true, now);
+      scheduler.recordResult('chord', 'Am7', false, now);
+
+      expect(scheduler.getDueItems('note', now).map(item => item.key)).toEqual(['D', 'C']);
+    });
+  });
+
+  describe('seedFromChordStats', () => {
+    it('starts chords from their long-term accuracy without overwriting scheduled chords', () => {
+      const lastPracticed = new Date('2026-01-01T12:00:00Z');
+      scheduler.recordResult('chord', 'C', false, now);
+
+      scheduler.seedFromChordStats({
+        Am7: { chordName: 'Am7', totalAttempts: 10, correctAttempts: 9, lastPracticed, averageAccuracy: 90 },
+        Dm: { chordName: 'Dm', totalAttempts: 4, correctAttempts: 1, lastPracticed, averageAccuracy: 25 },
+        C: { chordName: 'C', totalAttempts: 10, correctAttempts: 10, lastPracticed, averageAccuracy: 100 }
+      });
+
+      expect(scheduler.getItem('chord', 'Am7')?.box).toBe(3);
+      expect(scheduler.getItem('chord', 'Am7')?.dueAt.getTime()).toBe(lastPracticed.getTime() + LEITNER_BOX_INTERVALS_MS[3]);
+      expect(scheduler.getItem('chord', 'Dm')?.box).toBe(0);
+      expect(scheduler.getItem('chord', 'C')?.box).toBe(0);
+    });
+  });
+
+  describe('persistence', () => {
+    it('reloads the schedule from localStorage', () => {
+      scheduler.recordResult('chord', 'G7', true, now);
+
+      const reloaded = new ReviewScheduler();
+      const item = reloaded.getItem('chord', 'G7');
+
+      expect(item?.box).toBe(1);
+      expect(item?.lastReviewed).toEqual(now);
+    });
+
+    it('ignores a stored schedule with a different version', () => {
+      localStorage.setItem(STORAGE_KEYS.REVIEW_SCHEDULE, JSON.stringify({ version: 999, items: {}, lastUpdated: now.toISOString() }));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(new ReviewScheduler().getDueItems('chord')).toEqual([]);
+    });
+
+    it('clears stored state', () => {
+      scheduler.recordResult('note', 'C', true, now);
+      scheduler.clear();
+
+      expect(localStorage.getItem(STORAGE_KEYS.REVIEW_SCHEDULE)).toBeNull();
+      expect(new ReviewScheduler().getItem('note', 'C')).toBeUndefined();
+    });
+  });
+});
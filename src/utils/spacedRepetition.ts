@@ -0,0 +1,335 @@
+/**
+ * Spaced Repetition Scheduler
+ *
+ * Leitner-style scheduling for notes and chords. Each item sits in a box:
+ * a correct answer moves it up one box (longer wait before the next review),
+ * a wrong answer or timeout sends it back to box 0.
+ *
+ * In adaptive selection, items are weighted so that new, weak (low box) and
+ * overdue items come up more often, while recently mastered items still
+ * appear occasionally.
+ *
+ * @module utils/spacedRepetition
+ */
+
+import type { Chord, NoteWithOctave } from '../types/music';
+import type {
+  ChordStats,
+  ReviewItemKind,
+  ReviewItemState,
+  ReviewScheduleStore,
+  SerializedReviewItemState
+} from '../types/stats';
+import { REVIEW_SCHEDULE_VERSION } from '../types/stats';
+import type { ItemSelectionMode } from '../types/settings';
+import { loadVersionedStore, saveVersionedStore } from '../services/versionedStorage';
+import { REVIEW_SCHEDULE_SCHEMA } from '../services/storageSchemas';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Review interval for each Leitner box, in milliseconds */
+export const LEITNER_BOX_INTERVALS_MS: readonly number[] = [
+  0,
+  10 * MINUTE_MS,
+  HOUR_MS,
+  DAY_MS,
+  3 * DAY_MS,
+  7 * DAY_MS
+];
+
+export const MAX_LEITNER_BOX = LEITNER_BOX_INTERVALS_MS.length - 1;
+
+/** Weight of an item that has never been answered */
+const NEW_ITEM_WEIGHT = 3;
+
+/** Weight of an item that is not due yet, so known items still come up now and then */
+const NOT_DUE_WEIGHT = 0.25;
+
+/** Cap on the extra weight an item gets for being long overdue */
+const MAX_OVERDUE_BONUS = 3;
+
+/**
+ * Picks one candidate with equal probability.
+ */
+function pickUniform<T>(candidates: T[]): T {
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+/**
+ * Picks one candidate with probability proportional to its weight.
+ */
+function pickWeighted<T>(candidates: T[], weights: number[]): T {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let threshold = Math.random() * total;
+
+  for (let i = 0; i < candidates.length; i++) {
+    threshold -= weights[i];
+    if (threshold < 0) {
+      return candidates[i];
+    }
+  }
+
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * Maps long-term chord accuracy to a starting Leitner box.
+ */
+function boxFromAccuracy(accuracy: number): number {
+  if (accuracy >= 90) return 3;
+  if (accuracy >= 75) return 2;
+  if (accuracy >= 50) return 1;
+  return 0;
+}
+
+export class ReviewScheduler {
+  private items: Map<string, ReviewItemState> = new Map();
+  private selectionMode: ItemSelectionMode = 'random';
+  private isLoaded: boolean = false;
+
+  /**
+   * Sets how candidates are picked by selectNote() and selectChord().
+   *
+   * @param mode - 'random', 'adaptive' or 'review'
+   */
+  setSelectionMode(mode: ItemSelectionMode): void {
+    this.selectionMode = mode;
+  }
+
+  getSelectionMode(): ItemSelectionMode {
+    return this.selectionMode;
+  }
+
+  /**
+   * Gets the review state of an item.
+   *
+   * @param kind - 'note' or 'chord'
+   * @param key - Note name or chord name
+   * @returns The review state, or undefined if the item has never been answered
+   */
+  getItem(kind: ReviewItemKind, key: string): ReviewItemState | undefined {
+    this.ensureLoaded();
+    return this.items.get(this.getStorageKey(kind, key));
+  }
+
+  /**
+   * Records an answer and reschedules the item.
+   *
+   * @param kind - 'note' or 'chord'
+   * @param key - Note name or chord name
+   * @param isCorrect - Whether the answer was correct
+   * @param now - Time of the answer (defaults to the current time)
+   */
+  recordResult(kind: ReviewItemKind, key: string, isCorrect: boolean, now: Date = new Date()): void {
+    this.ensureLoaded();
+
+    const existing = this.items.get(this.getStorageKey(kind, key));
+    const box = isCorrect
+      ? Math.min((existing?.box ?? 0) + 1, MAX_LEITNER_BOX)
+      : 0;
+
+    this.items.set(this.getStorageKey(kind, key), {
+      kind,
+      key,
+      box,
+      dueAt: new Date(now.getTime() + LEITNER_BOX_INTERVALS_MS[box]),
+      lastReviewed: now
+    });
+
+    this.save(now);
+  }
+
+  /**
+   * Checks whether an item is due for review. Items never answered are always due.
+   *
+   * @param kind - 'note' or 'chord'
+   * @param key - Note name or chord name
+   * @param now - Time to check against (defaults to the current time)
+   */
+  isDue(kind: ReviewItemKind, key: string, now: Date = new Date()): boolean {
+    const item = this.getItem(kind, key);
+    return !item || item.dueAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Gets the selection weight of an item for adaptive selection.
+   *
+   * @param kind - 'note' or 'chord'
+   * @param key - Note name or chord name
+   * @param now - Time to check against (defaults to the current time)
+   * @returns A positive weight; higher means more likely to be picked
+   */
+  getWeight(kind: ReviewItemKind, key: string, now: Date = new Date()): number {
+    const item = this.getItem(kind, key);
+
+    if (!item) {
+      return NEW_ITEM_WEIGHT;
+    }
+
+    const overdueMs = now.getTime() - item.dueAt.getTime();
+    if (overdueMs < 0) {
+      return NOT_DUE_WEIGHT;
+    }
+
+    // Lower boxes are weaker; overdue time is measured in units of the item's own interval
+    const weakness = MAX_LEITNER_BOX - item.box + 1;
+    const interval = LEITNER_BOX_INTERVALS_MS[item.box] || MINUTE_MS;
+    const overdueBonus = Math.min(overdueMs / interval, MAX_OVERDUE_BONUS);
+
+    return weakness + overdueBonus;
+  }
+
+  /**
+   * Gets all answered items of a kind that are due for review, most overdue first.
+   *
+   * @param kind - 'note' or 'chord'
+   * @param now - Time to check against (defaults to the current time)
+   */
+  getDueItems(kind: ReviewItemKind, now: Date = new Date()): ReviewItemState[] {
+    this.ensureLoaded();
+
+    return Array.from(this.items.values())
+      .filter(item => item.kind === kind && item.dueAt.getTime() <= now.getTime())
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  /**
+   * Picks one candidate according to the current selection mode.
+   *
+   * @param kind - Kind of the candidates
+   * @param candidates - Items allowed by the current filter
+   * @param getKey - Gets the note or chord name of a candidate
+   * @param now - Time to check against (defaults to the current time)
+   * @returns The picked candidate
+   * @throws Error if there are no candidates
+   */
+  select<T>(kind: ReviewItemKind, candidates: T[], getKey: (candidate: T) => string, now: Date = new Date()): T {
+    if (candidates.length === 0) {
+      throw new Error('Cannot select from an empty list of candidates');
+    }
+
+    if (this.selectionMode === 'random') {
+      return pickUniform(candidates);
+    }
+
+    let pool = candidates;
+    if (this.selectionMode === 'review') {
+      const due = candidates.filter(candidate => this.isDue(kind, getKey(candidate), now));
+      // With nothing due, keep practicing the weakest items rather than stopping
+      if (due.length > 0) {
+        pool = due;
+      }
+    }
+
+    return pickWeighted(pool, pool.map(candidate => this.getWeight(kind, getKey(candidate), now)));
+  }
+
+  /**
+   * Picks a note by pitch class. Pass as the selector to AudioEngine.getRandomNoteFromFilter().
+   */
+  selectNote = (candidates: NoteWithOctave[]): NoteWithOctave => {
+    return this.select('note', candidates, candidate => candidate.note);
+  };
+
+  /**
+   * Picks a chord by name. Pass as the selector to ChordEngine.getRandomChordFromFilter().
+   */
+  selectChord = (candidates: Chord[]): Chord => {
+    return this.select('chord', candidates, candidate => candidate.name);
+  };
+
+  /**
+   * Creates review state for chords that have long-term stats but have not been scheduled yet.
+   * The starting box comes from the chord's accuracy, counted from when it was last practiced.
+   *
+   * @param stats - Chord stats keyed by chord name (from useChordStats)
+   */
+  seedFromChordStats(stats: Record<string, ChordStats>): void {
+    this.ensureLoaded();
+
+    let changed = false;
+    for (const stat of Object.values(stats)) {
+      const storageKey = this.getStorageKey('chord', stat.chordName);
+      if (this.items.has(storageKey) || stat.totalAttempts === 0) {
+        continue;
+      }
+
+      const box = boxFromAccuracy(stat.averageAccuracy);
+      this.items.set(storageKey, {
+        kind: 'chord',
+        key: stat.chordName,
+        box,
+        dueAt: new Date(stat.lastPracticed.getTime() + LEITNER_BOX_INTERVALS_MS[box]),
+        lastReviewed: stat.lastPracticed
+      });
+      changed = true;
+    }
+
+    if (changed) {
+      this.save(new Date());
+    }
+  }
+
+  /**
+   * Removes all review state.
+   */
+  clear(): void {
+    this.items = new Map();
+    this.isLoaded = true;
+    try {
+      localStorage.removeItem(REVIEW_SCHEDULE_SCHEMA.key);
+    } catch (error) {
+      console.warn('Failed to clear review schedule from localStorage:', error);
+    }
+  }
+
+  private getStorageKey(kind: ReviewItemKind, key: string): string {
+    return `${kind}:${key}`;
+  }
+
+  /**
+   * Loads the schedule from localStorage on first use.
+   */
+  private ensureLoaded(): void {
+    if (this.isLoaded) return;
+    this.isLoaded = true;
+
+    const stored = loadVersionedStore(REVIEW_SCHEDULE_SCHEMA);
+    if (!stored) return;
+
+    for (const [storageKey, item] of Object.entries(stored.items)) {
+      this.items.set(storageKey, {
+        ...item,
+        dueAt: new Date(item.dueAt),
+        lastReviewed: new Date(item.lastReviewed)
+      });
+    }
+  }
+
+  private save(now: Date): void {
+    const items: Record<string, SerializedReviewItemState> = {};
+    for (const [storageKey, item] of this.items) {
+      items[storageKey] = {
+        ...item,
+        dueAt: item.dueAt.toISOString(),
+        lastReviewed: item.lastReviewed.toISOString()
+      };
+    }
+
+    try {
+      const store: ReviewScheduleStore = {
+        version: REVIEW_SCHEDULE_VERSION,
+        items,
+        lastUpdated: now.toISOString()
+      };
+      saveVersionedStore(REVIEW_SCHEDULE_SCHEMA, store);
+    } catch (error) {
+      console.warn('Failed to save review schedule to localStorage:', error);
+    }
+  }
+}
+
+// Export singleton instance for convenience (similar to audioEngine)
+export const reviewScheduler = new ReviewScheduler();
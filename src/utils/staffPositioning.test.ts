@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getStaffNote, getLedgerLinePositions } from './staffPositioning';
+
+describe('getStaffNote', () => {
+  it('places middle C and above on the treble staff', () => {
+    expect(getStaffNote({ note: 'C', octave: 4 })).toMatchObject({ clef: 'treble', position: -2 });
+    expect(getStaffNote({ note: 'E', octave: 4 })).toMatchObject({ clef: 'treble', position: 0 });
+    expect(getStaffNote({ note: 'F', octave: 5 })).toMatchObject({ clef: 'treble', position: 8 });
+  });
+
+  it('places notes below middle C on the bass staff', () => {
+    expect(getStaffNote({ note: 'B', octave: 3 })).toMatchObject({ clef: 'bass', position: 9 });
+    expect(getStaffNote({ note: 'G', octave: 2 })).toMatchObject({ clef: 'bass', position: 0 });
+    expect(getStaffNote({ note: 'A', octave: 3 })).toMatchObject({ clef: 'bass', position: 8 });
+  });
+
+  it('writes stored sharps without a spelling', () => {
+    expect(getStaffNote({ note: 'D#', octave: 4 })).toMatchObject({ letter: 'D', accidental: '#', position: -1 });
+  });
+
+  it('follows the spelling', () => {
+    expect(getStaffNote({ note: 'D#', octave: 4 }, 'E♭')).toEqual({
+      clef: 'treble',
+      position: 0,
+      letter: 'E',
+      accidental: '♭',
+      octave: 4,
+    });
+    expect(getStaffNote({ note: 'G', octave: 4 }, 'F𝄪')).toMatchObject({ letter: 'F', accidental: '𝄪', position: 1 });
+  });
+
+  it('writes B# and C♭ in the octave of their letter', () => {
+    expect(getStaffNote({ note: 'C', octave: 4 }, 'B#')).toMatchObject({ clef: 'bass', position: 9, octave: 3 });
+    expect(getStaffNote({ note: 'B', octave: 3 }, 'C♭')).toMatchObject({ clef: 'treble', position: -2, octave: 4 });
+  });
+
+  it('writes every note on a single staff when one is given', () => {
+    expect(getStaffNote({ note: 'C', octave: 4 }, 'C', 'alto')).toMatchObject({ clef: 'alto', position: 4 });
+    expect(getStaffNote({ note: 'F', octave: 3 }, 'F', 'alto')).toMatchObject({ clef: 'alto', position: 0 });
+    expect(getStaffNote({ note: 'A', octave: 3 }, 'A', 'treble')).toMatchObject({ clef: 'treble', position: -4 });
+    expect(getStaffNote({ note: 'E', octave: 4 }, 'E', 'bass')).toMatchObject({ clef: 'bass', position: 12 });
+  });
+
+  it('ignores a spelling of a different pitch', () => {
+    expect(getStaffNote({ note: 'C', octave: 4 }, 'E♭')).toMatchObject({ letter: 'C', accidental: '' });
+  });
+});
+
+describe('getLedgerLinePositions', () => {
+  it('returns no ledger lines inside the staff or just outside it', () => {
+    expect(getLedgerLinePositions(4)).toEqual([]);
+    expect(getLedgerLinePositions(-1)).toEqual([]);
+    expect(getLedgerLinePositions(9)).toEqual([]);
+  });
+
+  it('returns ledger lines below the staff', () => {
+    expect(getLedgerLinePositions(-2)).toEqual([-2]);
+    expect(getLedgerLinePositions(-5)).toEqual([-2, -4]);
+  });
+
+  it('returns ledger lines above the staff', () => {
+    expect(getLedgerLinePositions(10)).toEqual([10]);
+    expect(getLedgerLinePositions(13)).toEqual([10, 12]);
+  });
+});
@@ -0,0 +1,103 @@
+import type { NoteWithOctave, Clef, StaffSystem } from '../types/music';
+import { ALL_NOTES } from '../types/music';
+import { getAccidentalOffset, getSpelledPitchClass } from './noteSpelling';
+
+/**
+ * Where a note sits on a staff.
+ */
+export interface StaffNote {
+  /** Staff the note is written on: on the grand staff, middle C and above go on the treble staff */
+  clef: Clef;
+
+  /**
+   * Diatonic steps above the staff's bottom line. Even numbers are lines
+   * (0 = bottom line, 8 = top line), odd numbers are spaces.
+   */
+  position: number;
+
+  /** The note's letter name (e.g., 'E') */
+  letter: string;
+
+  /** The written accidental ('', '#', '♭', '𝄪' or '𝄫') */
+  accidental: string;
+
+  /** The written octave, which differs from the sounding one for B# and C♭ */
+  octave: number;
+}
+
+const LETTERS = 'CDEFGAB';
+
+/** Diatonic step (octave * 7 + letter) of each staff's bottom line: E4, G2 and F3 */
+const BOTTOM_LINE_STEPS: Record<Clef, number> = {
+  treble: 4 * 7 + 2,
+  bass: 2 * 7 + 4,
+  alto: 3 * 7 + 3,
+};
+
+/** Diatonic step of middle C, the lowest note written on the treble staff */
+const MIDDLE_C_STEP = 4 * 7;
+
+/** Position of the top line of either staff */
+export const TOP_LINE_POSITION = 8;
+
+/**
+ * Places a note on a staff.
+ *
+ * @param note - The sounding note
+ * @param spelled - How the note is written (e.g., 'E♭'); defaults to the stored sharp name.
+ *                  A spelling that does not match the note's pitch is ignored.
+ * @param system - The staves to write on (default: the grand staff)
+ * @returns The note's staff, position and accidental
+ *
+ * @example
+ * getStaffNote({ note: 'D#', octave: 4 }, 'E♭') // { clef: 'treble', position: 0, letter: 'E', accidental: '♭', octave: 4 }
+ *
+ * @example
+ * // B#3 sounds as C4 but is written below middle C, on the bass staff
+ * getStaffNote({ note: 'C', octave: 4 }, 'B#') // { clef: 'bass', position: 9, letter: 'B', accidental: '#', octave: 3 }
+ *
+ * @example
+ * // Middle C is the middle line of the alto staff
+ * getStaffNote({ note: 'C', octave: 4 }, 'C', 'alto') // { clef: 'alto', position: 4, ... }
+ */
+export function getStaffNote(note: NoteWithOctave, spelled: string = note.note, system: StaffSystem = 'grand'): StaffNote {
+  const pitchClass = ALL_NOTES.indexOf(note.note);
+  const written = getSpelledPitchClass(spelled) === pitchClass ? spelled : note.note;
+
+  const letter = written.charAt(0);
+  const accidental = written.slice(1);
+
+  // The letter's natural note may sit across the octave boundary (C♭4 sounds as B3)
+  const octave = note.octave + Math.floor((pitchClass - getAccidentalOffset(written)) / 12);
+  const step = octave * 7 + LETTERS.indexOf(letter);
+  const clef: Clef = system !== 'grand' ? system : step >= MIDDLE_C_STEP ? 'treble' : 'bass';
+
+  return {
+    clef,
+    position: step - BOTTOM_LINE_STEPS[clef],
+    letter,
+    accidental,
+    octave,
+  };
+}
+
+/**
+ * Gets the positions of the ledger lines a note needs above or below its staff.
+ *
+ * @example
+ * getLedgerLinePositions(-2) // [-2] (middle C on the treble staff)
+ * getLedgerLinePositions(13) // [10, 12]
+ * getLedgerLinePositions(4) // []
+ */
+export function getLedgerLinePositions(position: number): number[] {
+  const positions: number[] = [];
+
+  for (let line = -2; line >= position; line -= 2) {
+    positions.push(line);
+  }
+  for (let line = TOP_LINE_POSITION + 2; line <= position; line += 2) {
+    positions.push(line);
+  }
+
+  return positions;
+}